@@ -1,12 +1,12 @@
 'use server'
 
-import { getIdentityToken } from '@/lib/bpm'
+import { getBpmAnalyzer } from '@/lib/bpm'
 
 const BPM_SERVICE_URL = process.env.BPM_SERVICE_URL || 'https://bpm-service-7jlgdaerna-ey.a.run.app'
 
 /**
  * Server Action to submit audio URL for BPM analysis
- * Calls the BPM service's /analyze/batch endpoint and returns the batch_id
+ * Submits a single-URL batch to the configured BPM analyzer and returns the batch_id
  */
 export async function processAudioUrl(formData: FormData): Promise<{ batchId: string; totalUrls: number }> {
   const audioUrl = formData.get('audioUrl') as string
@@ -28,37 +28,18 @@ export async function processAudioUrl(formData: FormData): Promise<{ batchId: st
     throw error
   }
 
-  // Get identity token for Cloud Run authentication
-  const idToken = await getIdentityToken(BPM_SERVICE_URL)
-
-  // Call the BPM service's /analyze/batch endpoint
-  const response = await fetch(`${BPM_SERVICE_URL}/analyze/batch`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${idToken}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      urls: [audioUrl],
-      max_confidence: 0.65,
-      debug_level: 'minimal',
-      fallback_override: 'never',
-    }),
+  const { batchId, totalUrls } = await getBpmAnalyzer(BPM_SERVICE_URL).submitBatch([audioUrl], {
+    maxConfidence: 0.65,
+    debugLevel: 'minimal',
+    fallbackOverride: 'never',
   })
 
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`BPM service error: ${response.status} ${errorText}`)
-  }
-
-  const data = await response.json()
-
-  if (!data.batch_id) {
+  if (!batchId) {
     throw new Error('Invalid response from BPM service: missing batch_id')
   }
 
   return {
-    batchId: data.batch_id,
-    totalUrls: data.total_urls || 1,
+    batchId,
+    totalUrls,
   }
 }
@@ -1,6 +1,7 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import { api } from '@/lib/apiClient'
 
 interface AdminEntry {
   spotify_user_id: string
@@ -35,12 +36,10 @@ export default function AdminClient() {
     setLoading(true)
     setError(null)
     try {
-      const res = await fetch('/api/admin/users')
-      if (!res.ok) {
+      const data = await api.listAdminUsers().catch(() => {
         throw new Error('Failed to load admin users')
-      }
-      const data = await res.json()
-      setAdmins(Array.isArray(data?.admins) ? data.admins : [])
+      })
+      setAdmins(data.admins)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load admin users')
     } finally {
@@ -52,12 +51,10 @@ export default function AdminClient() {
     setLoading(true)
     setError(null)
     try {
-      const res = await fetch('/api/admin/requests')
-      if (!res.ok) {
+      const data = await api.listAdminRequests().catch(() => {
         throw new Error('Failed to load admin requests')
-      }
-      const data = await res.json()
-      setRequests(Array.isArray(data?.requests) ? data.requests : [])
+      })
+      setRequests(data.requests)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load admin requests')
     } finally {
@@ -76,19 +73,13 @@ export default function AdminClient() {
     setLoading(true)
     setError(null)
     try {
-      const res = await fetch('/api/admin/users', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      await api.addAdminUser({
+        body: {
           spotifyUserId: userId,
           displayName: newAdminName.trim() || null,
           email: newAdminEmail.trim() || null,
-        }),
+        },
       })
-      if (!res.ok) {
-        const payload = await res.json().catch(() => ({}))
-        throw new Error(payload?.error || 'Failed to add admin')
-      }
       setNewAdmin('')
       setNewAdminName('')
       setNewAdminEmail('')
@@ -104,15 +95,7 @@ export default function AdminClient() {
     setLoading(true)
     setError(null)
     try {
-      const res = await fetch('/api/admin/users', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ spotifyUserId: userId, action: 'deactivate' }),
-      })
-      if (!res.ok) {
-        const payload = await res.json().catch(() => ({}))
-        throw new Error(payload?.error || 'Failed to deactivate admin')
-      }
+      await api.updateAdminUser({ body: { spotifyUserId: userId, action: 'deactivate' } })
       await loadAdmins()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to deactivate admin')
@@ -125,15 +108,7 @@ export default function AdminClient() {
     setLoading(true)
     setError(null)
     try {
-      const res = await fetch('/api/admin/users', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ spotifyUserId: userId, action: 'activate' }),
-      })
-      if (!res.ok) {
-        const payload = await res.json().catch(() => ({}))
-        throw new Error(payload?.error || 'Failed to activate admin')
-      }
+      await api.updateAdminUser({ body: { spotifyUserId: userId, action: 'activate' } })
       await loadAdmins()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to activate admin')
@@ -149,15 +124,7 @@ export default function AdminClient() {
     setLoading(true)
     setError(null)
     try {
-      const res = await fetch('/api/admin/users', {
-        method: 'DELETE',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ spotifyUserId: userId }),
-      })
-      if (!res.ok) {
-        const payload = await res.json().catch(() => ({}))
-        throw new Error(payload?.error || 'Failed to delete admin')
-      }
+      await api.removeAdminUser({ body: { spotifyUserId: userId } })
       await loadAdmins()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete admin')
@@ -182,20 +149,14 @@ export default function AdminClient() {
     setLoading(true)
     setError(null)
     try {
-      const res = await fetch('/api/admin/users', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      await api.updateAdminUser({
+        body: {
           spotifyUserId: userId,
           action: 'update',
           displayName: editingName.trim() || null,
           email: editingEmail.trim() || null,
-        }),
+        },
       })
-      if (!res.ok) {
-        const payload = await res.json().catch(() => ({}))
-        throw new Error(payload?.error || 'Failed to update admin')
-      }
       cancelEdit()
       await loadAdmins()
     } catch (err) {
@@ -209,15 +170,7 @@ export default function AdminClient() {
     setLoading(true)
     setError(null)
     try {
-      const res = await fetch('/api/admin/requests', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ requestId, action }),
-      })
-      if (!res.ok) {
-        const payload = await res.json().catch(() => ({}))
-        throw new Error(payload?.error || 'Failed to update request')
-      }
+      await api.resolveAdminRequest({ body: { requestId, action } })
       await Promise.all([loadAdmins(), loadRequests()])
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update request')
@@ -1,15 +1,18 @@
 'use client'
 
-import { useMemo, useState } from 'react'
+import { Fragment, useMemo, useState } from 'react'
+import type { HttpMethod } from '@/lib/apiContracts'
+import type { OpenApiOperationEntry, OpenApiParameter, listOpenApiOperations } from '@/lib/openapi'
 
 type EndpointDefinition = {
   id: string
   name: string
   description: string
-  method: 'GET' | 'POST'
+  tag: string
+  method: HttpMethod
   path: string
-  query?: Record<string, string>
-  body?: Record<string, unknown>
+  query?: Record<string, unknown>
+  body?: unknown
   notes?: string
 }
 
@@ -28,97 +31,33 @@ type EndpointState = {
   } | null
 }
 
-const endpointDefinitions: EndpointDefinition[] = [
-  {
-    id: 'musicbrainz-search',
-    name: 'MusicBrainz search',
-    description: 'Run the credit-based search route backed by MusicBrainz and Muso enrichment.',
-    method: 'GET',
-    path: '/api/musicbrainz/search',
-    query: {
-      name: 'Max Martin',
-      role: 'producer',
-      limit: '5',
-      offset: '0',
-      debug: 'true',
-    },
-    notes: 'Edit the search role or date filters directly in the query JSON.',
-  },
-  {
-    id: 'musicbrainz-credits',
-    name: 'Track credits',
-    description: 'Fetch normalized track credits for an ISRC through Muso or MusicBrainz fallback.',
-    method: 'GET',
-    path: '/api/musicbrainz/credits',
-    query: {
-      isrc: 'GBUM71029604',
-      refresh: 'true',
-    },
-  },
-  {
-    id: 'muso-preview',
-    name: 'Muso preview',
-    description: 'Resolve Spotify preview audio via Muso using a Spotify track ID payload.',
-    method: 'POST',
-    path: '/api/muso/preview',
-    body: {
-      spotifyTrackId: '11dFghVXANMlKmJXsNCbNl',
-    },
-  },
-  {
-    id: 'muso-status',
-    name: 'Muso quota status',
-    description: 'Inspect current Muso quota availability from the admin-only status route.',
-    method: 'GET',
-    path: '/api/admin/muso-status',
-  },
-  {
-    id: 'deezer-preview',
-    name: 'Deezer preview proxy',
-    description: 'Proxy a Deezer API URL and extract the preview URL from the reply.',
-    method: 'GET',
-    path: '/api/deezer-preview',
-    query: {
-      url: 'https://api.deezer.com/search?q=isrc:%22GBUM71029604%22&limit=1',
-    },
-  },
-  {
-    id: 'bpm-track',
-    name: 'BPM analysis',
-    description: 'Trigger BPM/key analysis for a Spotify track through the app API.',
-    method: 'GET',
-    path: '/api/bpm',
-    query: {
-      spotifyTrackId: '11dFghVXANMlKmJXsNCbNl',
-      country: 'us',
-    },
-  },
-  {
-    id: 'bpm-health',
-    name: 'BPM service health',
-    description: 'Check the remote BPM service health endpoint through the authenticated app route.',
-    method: 'GET',
-    path: '/api/bpm/health',
-  },
-  {
-    id: 'services-health',
-    name: 'Service health',
-    description: 'Inspect Spotify, Muso, and MusicBrainz health checks in one response.',
-    method: 'GET',
-    path: '/api/health/services',
-  },
-  {
-    id: 'country-detect',
-    name: 'Country detection',
-    description: 'Test the country detection helper route that relies on request headers and IP fallback.',
-    method: 'GET',
-    path: '/api/country',
-  },
-]
+const exampleFor = (parameter: OpenApiParameter) =>
+  parameter.example ?? (parameter.schema as { default?: unknown }).default ?? (parameter.required ? '' : undefined)
+
+function toEndpointDefinition(operation: OpenApiOperationEntry): EndpointDefinition {
+  const query = Object.fromEntries(
+    operation.parameters.flatMap((parameter) => {
+      const example = exampleFor(parameter)
+      return example === undefined ? [] : [[parameter.name, example]]
+    })
+  )
+  const hasPathParams = operation.parameters.some((parameter) => parameter.in === 'path')
+  return {
+    id: `${operation.method} ${operation.path}`,
+    name: operation.summary,
+    description: operation.description ?? `Operation ${operation.operationId}, auth: ${operation.auth}.`,
+    tag: operation.tag,
+    method: operation.method,
+    path: operation.path,
+    ...(Object.keys(query).length > 0 ? { query } : {}),
+    ...(operation.bodyExample !== undefined ? { body: operation.bodyExample } : operation.hasBody ? { body: {} } : {}),
+    ...(hasPathParams ? { notes: 'Path parameters such as {id} are filled from the query JSON.' } : {}),
+  }
+}
 
 const createInitialState = (definition: EndpointDefinition): EndpointState => ({
   queryText: definition.query ? JSON.stringify(definition.query, null, 2) : '{}',
-  bodyText: definition.body ? JSON.stringify(definition.body, null, 2) : '{}',
+  bodyText: definition.body !== undefined ? JSON.stringify(definition.body, null, 2) : '',
   loading: false,
   error: null,
   response: null,
@@ -142,10 +81,27 @@ function parseJsonRecord(input: string, label: string): Record<string, unknown>
   return parsed as Record<string, unknown>
 }
 
+function parseJsonBody(input: string): unknown {
+  const trimmed = input.trim()
+  if (!trimmed) return undefined
+  try {
+    return JSON.parse(trimmed)
+  } catch {
+    throw new Error('Request body must be valid JSON')
+  }
+}
+
 function buildUrl(path: string, queryRecord: Record<string, unknown>): string {
   const params = new URLSearchParams()
-
-  for (const [key, value] of Object.entries(queryRecord)) {
+  const remaining = { ...queryRecord }
+  const resolvedPath = path.replace(/\{(\w+)\}/g, (_, name: string) => {
+    const value = remaining[name]
+    delete remaining[name]
+    if (value === null || value === undefined || value === '') throw new Error(`Path parameter ${name} is required`)
+    return encodeURIComponent(String(value))
+  })
+
+  for (const [key, value] of Object.entries(remaining)) {
     if (value === null || value === undefined || value === '') continue
     if (Array.isArray(value)) {
       for (const entry of value) {
@@ -157,7 +113,7 @@ function buildUrl(path: string, queryRecord: Record<string, unknown>): string {
   }
 
   const query = params.toString()
-  return query ? `${path}?${query}` : path
+  return query ? `${resolvedPath}?${query}` : resolvedPath
 }
 
 function prettyPrintResponse(bodyText: string, contentType: string | null): string {
@@ -171,7 +127,11 @@ function prettyPrintResponse(bodyText: string, contentType: string | null): stri
   }
 }
 
-export default function ApiTesterClient() {
+export default function ApiTesterClient({ operationGroups }: { operationGroups: ReturnType<typeof listOpenApiOperations> }) {
+  const endpointDefinitions = useMemo(
+    () => operationGroups.flatMap((group) => group.operations.map(toEndpointDefinition)),
+    [operationGroups]
+  )
   const [selectedEndpointId, setSelectedEndpointId] = useState(endpointDefinitions[0]?.id ?? '')
   const [endpointStates, setEndpointStates] = useState<Record<string, EndpointState>>(() =>
     Object.fromEntries(endpointDefinitions.map((definition) => [definition.id, createInitialState(definition)]))
@@ -179,7 +139,7 @@ export default function ApiTesterClient() {
 
   const selectedDefinition = useMemo(
     () => endpointDefinitions.find((definition) => definition.id === selectedEndpointId) ?? endpointDefinitions[0],
-    [selectedEndpointId]
+    [endpointDefinitions, selectedEndpointId]
   )
 
   const selectedState = selectedDefinition
@@ -202,7 +162,7 @@ export default function ApiTesterClient() {
 
     try {
       const queryRecord = parseJsonRecord(currentState.queryText, 'Query payload')
-      const bodyRecord = parseJsonRecord(currentState.bodyText, 'Request body')
+      const bodyValue = parseJsonBody(currentState.bodyText)
       const url = buildUrl(definition.path, queryRecord)
 
       const init: RequestInit = {
@@ -210,9 +170,9 @@ export default function ApiTesterClient() {
         headers: {},
       }
 
-      if (definition.method !== 'GET') {
+      if (definition.method !== 'GET' && bodyValue !== undefined) {
         ;(init.headers as Record<string, string>)['Content-Type'] = 'application/json'
-        init.body = JSON.stringify(bodyRecord)
+        init.body = JSON.stringify(bodyValue)
       }
 
       const start = performance.now()
@@ -255,9 +215,9 @@ export default function ApiTesterClient() {
       <div className="rounded-2xl border border-gray-100 bg-white p-5 shadow-[0_4px_24px_rgba(0,0,0,0.06)]">
         <div className="flex flex-wrap items-start justify-between gap-3">
           <div>
-            <h2 className="text-lg font-semibold text-gray-900">External API tester</h2>
+            <h2 className="text-lg font-semibold text-gray-900">API tester</h2>
             <p className="mt-1 max-w-3xl text-sm text-gray-500">
-              Pick an integration route, edit the sample query or body payload, then execute it and inspect the raw reply.
+              Pick any route from the OpenAPI document, edit the sample query or body payload, then execute it and inspect the raw reply.
             </p>
           </div>
           <div className="rounded-full border border-emerald-200 bg-emerald-50 px-3 py-1 text-xs font-semibold uppercase tracking-[0.18em] text-emerald-700">
@@ -269,36 +229,41 @@ export default function ApiTesterClient() {
       <div className="grid gap-6 lg:grid-cols-[320px_minmax(0,1fr)]">
         <div className="rounded-2xl border border-gray-100 bg-white p-3 shadow-[0_4px_24px_rgba(0,0,0,0.05)]">
           <div className="mb-2 px-2 text-[11px] font-semibold uppercase tracking-[0.18em] text-gray-400">
-            Route presets
+            Routes from /api/openapi
           </div>
-          <div className="space-y-2">
-            {endpointDefinitions.map((definition) => {
+          <div className="max-h-[720px] space-y-2 overflow-y-auto">
+            {endpointDefinitions.map((definition, index) => {
               const isSelected = definition.id === selectedDefinition.id
               const response = endpointStates[definition.id]?.response
+              const startsGroup = index === 0 || endpointDefinitions[index - 1].tag !== definition.tag
               return (
-                <button
-                  key={definition.id}
-                  type="button"
-                  onClick={() => setSelectedEndpointId(definition.id)}
-                  className={`w-full rounded-2xl border px-4 py-3 text-left transition ${
-                    isSelected
-                      ? 'border-emerald-200 bg-emerald-50 shadow-sm'
-                      : 'border-gray-100 bg-white hover:border-emerald-100 hover:bg-emerald-50/40'
-                  }`}
-                >
-                  <div className="flex items-center justify-between gap-3">
-                    <div className="text-sm font-semibold text-gray-900">{definition.name}</div>
-                    <span className="rounded-full border border-gray-200 bg-white px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.14em] text-gray-500">
-                      {definition.method}
-                    </span>
-                  </div>
-                  <div className="mt-1 text-xs text-gray-500">{definition.path}</div>
-                  {response ? (
-                    <div className="mt-2 text-[11px] text-gray-500">
-                      Last run: {response.status} in {response.durationMs}ms
-                    </div>
+                <Fragment key={definition.id}>
+                  {startsGroup ? (
+                    <div className="px-2 pt-2 text-[11px] font-semibold text-gray-500">{definition.tag}</div>
                   ) : null}
-                </button>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedEndpointId(definition.id)}
+                    className={`w-full rounded-2xl border px-4 py-3 text-left transition ${
+                      isSelected
+                        ? 'border-emerald-200 bg-emerald-50 shadow-sm'
+                        : 'border-gray-100 bg-white hover:border-emerald-100 hover:bg-emerald-50/40'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="text-sm font-semibold text-gray-900">{definition.name}</div>
+                      <span className="rounded-full border border-gray-200 bg-white px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.14em] text-gray-500">
+                        {definition.method}
+                      </span>
+                    </div>
+                    <div className="mt-1 text-xs text-gray-500">{definition.path}</div>
+                    {response ? (
+                      <div className="mt-2 text-[11px] text-gray-500">
+                        Last run: {response.status} in {response.durationMs}ms
+                      </div>
+                    ) : null}
+                  </button>
+                </Fragment>
               )
             })}
           </div>
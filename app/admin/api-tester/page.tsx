@@ -1,5 +1,6 @@
 import { redirect } from 'next/navigation'
 import { isAdminUser } from '@/lib/analytics'
+import { buildOpenApiDocument, listOpenApiOperations } from '@/lib/openapi'
 import PageHeader from '../../components/PageHeader'
 import ApiTesterClient from './ApiTesterClient'
 
@@ -15,14 +16,14 @@ export default async function ApiTesterPage() {
     <div className="min-h-screen flex flex-col p-4 sm:p-8 bg-transparent">
       <div className="max-w-7xl mx-auto flex-1 w-full">
         <PageHeader
-          subtitle="External API tester"
+          subtitle="API tester"
           breadcrumbs={[
             { label: 'Home', href: '/' },
             { label: 'Admin', href: '/admin' },
-            { label: 'External API tester' },
+            { label: 'API tester' },
           ]}
         />
-        <ApiTesterClient />
+        <ApiTesterClient operationGroups={listOpenApiOperations(buildOpenApiDocument())} />
       </div>
     </div>
   )
@@ -0,0 +1,480 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { api } from '@/lib/apiClient'
+import type { BpmReviewAction, BpmReviewItem, BpmReviewReason } from '@/lib/bpmReview'
+
+type ReviewItem = Omit<BpmReviewItem, 'updated_at' | 'bpm_reviewed_at'> & {
+  updated_at: string
+  bpm_reviewed_at: string | null
+}
+
+const REASON_LABELS: Record<BpmReviewReason, string> = {
+  octave: 'Half/double time',
+  tempo: 'Tempo disagreement',
+  key_fifth: 'Keys a fifth apart',
+  key_relative: 'Relative major/minor',
+  key: 'Key disagreement',
+  low_bpm_confidence: 'Low BPM confidence',
+  low_key_confidence: 'Low key confidence',
+}
+
+const ACTION_LABELS: Record<BpmReviewAction, string> = {
+  essentia: 'Use Essentia BPM',
+  librosa: 'Use Librosa BPM',
+  manual: 'Manual BPM',
+  half: 'Half BPM',
+  double: 'Double BPM',
+  key_essentia: 'Use Essentia key',
+  key_librosa: 'Use Librosa key',
+  keep: 'Keep as is',
+}
+
+const formatConfidence = (value: number | null) => (value == null ? 'N/A' : `${Math.round(value * 100)}%`)
+
+const formatKeyValue = (key: string | null, scale: string | null) => (key ? `${key} ${scale || ''}`.trim() : 'N/A')
+
+function getSelectedBpm(item: ReviewItem): number | null {
+  if (item.bpm_selected === 'manual') return item.bpm_manual
+  if (item.bpm_selected === 'librosa') return item.bpm_librosa
+  return item.bpm_essentia
+}
+
+export default function BpmReviewClient() {
+  const [items, setItems] = useState<ReviewItem[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [showReviewed, setShowReviewed] = useState(false)
+  const [thresholdInput, setThresholdInput] = useState('0.5')
+  const [threshold, setThreshold] = useState(0.5)
+  const [page, setPage] = useState(1)
+  const [pageSize, setPageSize] = useState(20)
+  const [selectedIds, setSelectedIds] = useState<Record<string, boolean>>({})
+  const [manualBpmMap, setManualBpmMap] = useState<Record<string, string>>({})
+  const [deezerPreviewMap, setDeezerPreviewMap] = useState<Record<string, { url?: string | null; loading?: boolean }>>({})
+  const audioRef = useRef<HTMLAudioElement | null>(null)
+
+  const handlePlay = (event: React.SyntheticEvent<HTMLAudioElement>) => {
+    if (audioRef.current && audioRef.current !== event.currentTarget) {
+      audioRef.current.pause()
+    }
+    audioRef.current = event.currentTarget
+  }
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const data = await api
+        .getBpmReviewQueue({ query: { threshold, includeReviewed: showReviewed } })
+        .catch(() => {
+          throw new Error('Failed to load BPM review queue')
+        })
+      setItems(data.items)
+      setSelectedIds({})
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load BPM review queue')
+    } finally {
+      setLoading(false)
+    }
+  }, [threshold, showReviewed])
+
+  useEffect(() => {
+    loadQueue()
+  }, [loadQueue])
+
+  useEffect(() => {
+    setPage(1)
+  }, [showReviewed, items.length])
+
+  const applyAction = async (spotifyTrackIds: string[], action: BpmReviewAction, bpmManual?: number) => {
+    if (spotifyTrackIds.length === 0) return
+    setLoading(true)
+    setError(null)
+    try {
+      await api.applyBpmReview({ body: { spotifyTrackIds, action, bpmManual } })
+      await loadQueue()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save review')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleManual = (spotifyTrackId: string) => {
+    const parsed = Number((manualBpmMap[spotifyTrackId] || '').trim())
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      setError('Manual BPM must be a positive number.')
+      return
+    }
+    void applyAction([spotifyTrackId], 'manual', parsed)
+  }
+
+  const handleLoadDeezerPreview = async (spotifyTrackId: string, apiUrl: string) => {
+    setDeezerPreviewMap((prev) => ({
+      ...prev,
+      [spotifyTrackId]: { url: prev[spotifyTrackId]?.url ?? null, loading: true },
+    }))
+    try {
+      const payload = await api.resolveDeezerPreview({ query: { url: apiUrl } })
+      setDeezerPreviewMap((prev) => ({
+        ...prev,
+        [spotifyTrackId]: { url: payload.previewUrl, loading: false },
+      }))
+    } catch {
+      setDeezerPreviewMap((prev) => ({
+        ...prev,
+        [spotifyTrackId]: { url: prev[spotifyTrackId]?.url ?? null, loading: false },
+      }))
+    }
+  }
+
+  const handleApplyThreshold = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const parsed = Number(thresholdInput)
+    if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+      setError('Confidence threshold must be between 0 and 1.')
+      return
+    }
+    setThreshold(parsed)
+  }
+
+  const reviewedCount = useMemo(() => items.filter((item) => item.bpm_reviewed_at).length, [items])
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize))
+  const paginatedItems = items.slice((page - 1) * pageSize, page * pageSize)
+  const selectedTrackIds = items.filter((item) => selectedIds[item.spotify_track_id]).map((item) => item.spotify_track_id)
+  const allPageSelected = paginatedItems.length > 0 && paginatedItems.every((item) => selectedIds[item.spotify_track_id])
+
+  const togglePageSelection = () => {
+    setSelectedIds((prev) => {
+      const next = { ...prev }
+      for (const item of paginatedItems) {
+        next[item.spotify_track_id] = !allPageSelected
+      }
+      return next
+    })
+  }
+
+  const bulkActions: BpmReviewAction[] = ['essentia', 'librosa', 'half', 'double', 'key_essentia', 'key_librosa', 'keep']
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-gray-100 bg-white p-5 shadow-[0_4px_24px_rgba(0,0,0,0.06)]">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">BPM & key disagreements</h2>
+          <p className="text-sm text-gray-500">
+            Tracks where Essentia and Librosa disagree, or where the selected result falls below the confidence threshold.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <form onSubmit={handleApplyThreshold} className="flex items-center gap-2">
+            <label className="text-xs font-semibold text-gray-500">
+              Confidence threshold
+              <input
+                value={thresholdInput}
+                onChange={(event) => setThresholdInput(event.target.value)}
+                className="ml-2 w-16 rounded-full border border-gray-200 px-2 py-1 text-xs text-gray-700"
+                inputMode="decimal"
+              />
+            </label>
+            <button
+              type="submit"
+              className="rounded-full border border-gray-200 px-4 py-2 text-xs font-semibold text-gray-600 hover:text-gray-900"
+            >
+              Apply
+            </button>
+          </form>
+          <button
+            type="button"
+            onClick={() => setShowReviewed((prev) => !prev)}
+            className="rounded-full border border-gray-200 px-4 py-2 text-xs font-semibold text-gray-600 hover:text-gray-900"
+          >
+            {showReviewed ? 'Hide reviewed' : 'Show reviewed'}
+          </button>
+          <button
+            type="button"
+            onClick={loadQueue}
+            className="rounded-full border border-emerald-200 bg-emerald-50 px-4 py-2 text-xs font-semibold text-emerald-700 hover:bg-emerald-100"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error ? <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div> : null}
+
+      {items.length > 0 ? (
+        <div className="flex flex-wrap items-center gap-2 rounded-2xl border border-gray-100 bg-white px-5 py-3 shadow-[0_4px_24px_rgba(0,0,0,0.05)]">
+          <label className="flex items-center gap-2 text-xs font-semibold text-gray-600">
+            <input type="checkbox" checked={allPageSelected} onChange={togglePageSelection} />
+            Select page
+          </label>
+          <span className="text-xs text-gray-500">{selectedTrackIds.length} selected</span>
+          {bulkActions.map((action) => (
+            <button
+              key={action}
+              type="button"
+              onClick={() => applyAction(selectedTrackIds, action)}
+              className="rounded-full border border-gray-200 px-3 py-1 text-[11px] font-semibold text-gray-600 hover:text-gray-900 disabled:opacity-50"
+              disabled={loading || selectedTrackIds.length === 0}
+            >
+              {ACTION_LABELS[action]}
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="grid gap-4">
+        {loading && items.length === 0 ? (
+          <div className="rounded-xl border border-gray-100 bg-white px-4 py-6 text-sm text-gray-500">
+            Loading review queue...
+          </div>
+        ) : null}
+        {!loading && items.length === 0 ? (
+          <div className="rounded-xl border border-gray-100 bg-white px-4 py-6 text-sm text-gray-500">
+            No BPM or key disagreements to review.
+          </div>
+        ) : null}
+        {paginatedItems.map((item) => {
+          const previewUrl = item.preview_url
+          const isDeezerApiUrl = Boolean(previewUrl && previewUrl.includes('api.deezer.com'))
+          const resolvedDeezerUrl = isDeezerApiUrl ? deezerPreviewMap[item.spotify_track_id]?.url || null : null
+          const audioUrl = isDeezerApiUrl ? resolvedDeezerUrl : previewUrl
+          const selectedBpm = getSelectedBpm(item)
+          return (
+            <div
+              key={item.spotify_track_id}
+              className="rounded-2xl border border-gray-100 bg-white p-5 shadow-[0_4px_24px_rgba(0,0,0,0.05)]"
+            >
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <label className="flex items-start gap-3">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={Boolean(selectedIds[item.spotify_track_id])}
+                    onChange={(event) =>
+                      setSelectedIds((prev) => ({ ...prev, [item.spotify_track_id]: event.target.checked }))
+                    }
+                  />
+                  <div>
+                    <div className="text-sm font-semibold text-gray-900">
+                      {item.artist || 'Unknown artist'} - {item.title || 'Unknown title'}
+                    </div>
+                    <div className="mt-1 text-xs text-gray-500">
+                      ISRC: {item.isrc || 'Missing'} | Spotify ID: {item.spotify_track_id}
+                    </div>
+                  </div>
+                </label>
+                <div className="flex flex-wrap gap-1">
+                  {item.reasons.map((reason) => (
+                    <span
+                      key={reason}
+                      className="rounded-full border border-amber-200 bg-amber-50 px-2 py-0.5 text-[11px] font-semibold text-amber-700"
+                    >
+                      {REASON_LABELS[reason]}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <div className="mt-4 grid gap-4 lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
+                <div className="space-y-2 text-sm text-gray-600">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left uppercase tracking-[0.18em] text-gray-400">
+                        <th className="py-1 font-normal"></th>
+                        <th className="py-1 font-normal">Essentia</th>
+                        <th className="py-1 font-normal">Librosa</th>
+                      </tr>
+                    </thead>
+                    <tbody className="text-gray-700">
+                      <tr>
+                        <td className="py-1 font-semibold text-gray-500">BPM</td>
+                        <td className={item.bpm_selected === 'essentia' ? 'py-1 font-semibold text-emerald-700' : 'py-1'}>
+                          {item.bpm_essentia ?? 'N/A'} ({formatConfidence(item.bpm_confidence_essentia)})
+                        </td>
+                        <td className={item.bpm_selected === 'librosa' ? 'py-1 font-semibold text-emerald-700' : 'py-1'}>
+                          {item.bpm_librosa ?? 'N/A'} ({formatConfidence(item.bpm_confidence_librosa)})
+                        </td>
+                      </tr>
+                      <tr>
+                        <td className="py-1 font-semibold text-gray-500">Key</td>
+                        <td className={item.key_selected === 'essentia' ? 'py-1 font-semibold text-emerald-700' : 'py-1'}>
+                          {formatKeyValue(item.key_essentia, item.scale_essentia)} ({formatConfidence(item.keyscale_confidence_essentia)})
+                        </td>
+                        <td className={item.key_selected === 'librosa' ? 'py-1 font-semibold text-emerald-700' : 'py-1'}>
+                          {formatKeyValue(item.key_librosa, item.scale_librosa)} ({formatConfidence(item.keyscale_confidence_librosa)})
+                        </td>
+                      </tr>
+                    </tbody>
+                  </table>
+                  <div className="text-xs text-gray-500">
+                    Selected: BPM {item.bpm_selected || 'essentia'}
+                    {item.bpm_selected === 'manual' ? ` (${item.bpm_manual ?? 'N/A'})` : ''} / Key {item.key_selected || 'essentia'}
+                  </div>
+                  <div className="text-xs uppercase tracking-[0.18em] text-gray-400">Preview</div>
+                  {audioUrl ? (
+                    <audio controls preload="none" className="w-full" onPlay={handlePlay}>
+                      <source src={audioUrl} />
+                    </audio>
+                  ) : isDeezerApiUrl ? (
+                    <button
+                      type="button"
+                      onClick={() => handleLoadDeezerPreview(item.spotify_track_id, previewUrl as string)}
+                      className="rounded-full border border-emerald-200 bg-emerald-50 px-3 py-1 text-[11px] font-semibold text-emerald-700 hover:bg-emerald-100"
+                      disabled={deezerPreviewMap[item.spotify_track_id]?.loading}
+                    >
+                      {deezerPreviewMap[item.spotify_track_id]?.loading ? 'Loading preview...' : 'Load Deezer preview'}
+                    </button>
+                  ) : (
+                    <div className="text-xs text-gray-500">No preview URL available.</div>
+                  )}
+                  {item.bpm_reviewed_at ? (
+                    <div className="text-xs text-gray-400">
+                      Reviewed {new Date(item.bpm_reviewed_at).toLocaleString()} by {item.bpm_reviewed_by || 'unknown'}
+                      {item.bpm_review_decision
+                        ? ` (${ACTION_LABELS[item.bpm_review_decision as BpmReviewAction] || item.bpm_review_decision})`
+                        : ''}
+                    </div>
+                  ) : null}
+                </div>
+                <div className="space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      onClick={() => applyAction([item.spotify_track_id], 'essentia')}
+                      className="rounded-full border border-emerald-200 bg-emerald-50 px-4 py-2 text-xs font-semibold text-emerald-700 hover:bg-emerald-100"
+                      disabled={loading || item.bpm_essentia == null}
+                    >
+                      Essentia {item.bpm_essentia ?? ''}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => applyAction([item.spotify_track_id], 'librosa')}
+                      className="rounded-full border border-emerald-200 bg-emerald-50 px-4 py-2 text-xs font-semibold text-emerald-700 hover:bg-emerald-100"
+                      disabled={loading || item.bpm_librosa == null}
+                    >
+                      Librosa {item.bpm_librosa ?? ''}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => applyAction([item.spotify_track_id], 'half')}
+                      className="rounded-full border border-amber-200 bg-amber-50 px-4 py-2 text-xs font-semibold text-amber-700 hover:bg-amber-100"
+                      disabled={loading || selectedBpm == null}
+                    >
+                      Half{selectedBpm != null ? ` (${Math.round(selectedBpm * 5) / 10})` : ''}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => applyAction([item.spotify_track_id], 'double')}
+                      className="rounded-full border border-amber-200 bg-amber-50 px-4 py-2 text-xs font-semibold text-amber-700 hover:bg-amber-100"
+                      disabled={loading || selectedBpm == null}
+                    >
+                      Double{selectedBpm != null ? ` (${Math.round(selectedBpm * 20) / 10})` : ''}
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input
+                      value={manualBpmMap[item.spotify_track_id] ?? ''}
+                      onChange={(event) =>
+                        setManualBpmMap((prev) => ({ ...prev, [item.spotify_track_id]: event.target.value }))
+                      }
+                      className="w-24 rounded-xl border border-gray-200 px-3 py-2 text-sm text-gray-700"
+                      placeholder="128"
+                      inputMode="decimal"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleManual(item.spotify_track_id)}
+                      className="rounded-full border border-gray-200 px-4 py-2 text-xs font-semibold text-gray-600 hover:text-gray-900"
+                      disabled={loading}
+                    >
+                      Set manual BPM
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      onClick={() => applyAction([item.spotify_track_id], 'key_essentia')}
+                      className="rounded-full border border-gray-200 px-3 py-1 text-[11px] font-semibold text-gray-600 hover:text-gray-900"
+                      disabled={loading || !item.key_essentia}
+                    >
+                      Essentia key
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => applyAction([item.spotify_track_id], 'key_librosa')}
+                      className="rounded-full border border-gray-200 px-3 py-1 text-[11px] font-semibold text-gray-600 hover:text-gray-900"
+                      disabled={loading || !item.key_librosa}
+                    >
+                      Librosa key
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => applyAction([item.spotify_track_id], 'keep')}
+                      className="rounded-full border border-rose-200 bg-rose-50 px-3 py-1 text-[11px] font-semibold text-rose-700 hover:bg-rose-100"
+                      disabled={loading}
+                    >
+                      Keep as is
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {showReviewed ? (
+        <div className="text-xs text-gray-500">
+          Showing {items.length} records, including {reviewedCount} reviewed records.
+        </div>
+      ) : (
+        <div className="text-xs text-gray-500">
+          Showing {items.length} records. Reviewed records are hidden.
+        </div>
+      )}
+      {items.length > 0 && totalPages > 1 ? (
+        <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-gray-500">
+          <div className="flex items-center gap-2">
+            <span>Rows</span>
+            <select
+              value={pageSize}
+              onChange={(event) => {
+                const value = Number(event.target.value)
+                setPageSize(value)
+                setPage(1)
+              }}
+              className="rounded-full border border-gray-200 px-2 py-1 text-xs text-gray-600"
+            >
+              <option value={10}>10</option>
+              <option value={20}>20</option>
+              <option value={40}>40</option>
+              <option value={80}>80</option>
+            </select>
+            <span>
+              Page {page} of {totalPages}
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+              disabled={page === 1}
+              className="rounded-full border border-gray-200 px-3 py-1 text-xs font-semibold text-gray-600 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              type="button"
+              onClick={() => setPage((prev) => Math.min(totalPages, prev + 1))}
+              disabled={page === totalPages}
+              className="rounded-full border border-gray-200 px-3 py-1 text-xs font-semibold text-gray-600 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  )
+}
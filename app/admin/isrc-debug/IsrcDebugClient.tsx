@@ -1,6 +1,8 @@
 'use client'
 
 import { useEffect, useMemo, useState } from 'react'
+import { api, type ClientResponse } from '@/lib/apiClient'
+import type { apiContracts } from '@/lib/apiContracts'
 
 type Playlist = {
   id: string
@@ -9,6 +11,8 @@ type Playlist = {
   owner?: { display_name?: string }
 }
 
+type MusoLog = ClientResponse<typeof apiContracts.enrichMissingIsrcs>['logs'][number]
+
 type Track = {
   id: string
   name: string
@@ -27,7 +31,7 @@ export default function IsrcDebugClient() {
   const [loadingPlaylists, setLoadingPlaylists] = useState(false)
   const [loadingTracks, setLoadingTracks] = useState(false)
   const [musoLoading, setMusoLoading] = useState(false)
-  const [musoLogs, setMusoLogs] = useState<any[]>([])
+  const [musoLogs, setMusoLogs] = useState<MusoLog[]>([])
   const [musoSummary, setMusoSummary] = useState<{ missingCount: number; updated: boolean } | null>(null)
   const [error, setError] = useState<string | null>(null)
 
@@ -36,12 +40,10 @@ export default function IsrcDebugClient() {
       setLoadingPlaylists(true)
       setError(null)
       try {
-        const res = await fetch('/api/playlists?includeFollowers=false')
-        if (!res.ok) {
+        const data = await api.listPlaylists({ query: { includeFollowers: false } }).catch(() => {
           throw new Error('Failed to load playlists')
-        }
-        const data = await res.json()
-        setPlaylists(Array.isArray(data) ? data : [])
+        })
+        setPlaylists(data)
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load playlists')
       } finally {
@@ -62,12 +64,12 @@ export default function IsrcDebugClient() {
       setLoadingTracks(true)
       setError(null)
       try {
-        const res = await fetch(`/api/playlists/${encodeURIComponent(selectedId)}/tracks?includeMissingIsrc=true`)
-        if (!res.ok) {
-          throw new Error('Failed to load tracks')
-        }
-        const data = await res.json()
-        setTracks(Array.isArray(data) ? data : [])
+        const data = await api
+          .getPlaylistTracks({ params: { id: selectedId }, query: { includeMissingIsrc: true } })
+          .catch(() => {
+            throw new Error('Failed to load tracks')
+          })
+        setTracks(data)
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load tracks')
       } finally {
@@ -84,24 +86,13 @@ export default function IsrcDebugClient() {
     setMusoLogs([])
     setMusoSummary(null)
     try {
-      const res = await fetch('/api/admin/isrc-debug/muso-enrich', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ playlistId: selectedId }),
-      })
-      const data = await res.json().catch(() => ({}))
-      if (!res.ok) {
-        throw new Error(data?.error || 'Failed to run Muso enrichment')
-      }
-      setMusoLogs(Array.isArray(data?.logs) ? data.logs : [])
-      if (typeof data?.missingCount === 'number') {
-        setMusoSummary({ missingCount: data.missingCount, updated: Boolean(data.updated) })
-      }
-      const refreshed = await fetch(`/api/playlists/${encodeURIComponent(selectedId)}/tracks?includeMissingIsrc=true`)
-      if (refreshed.ok) {
-        const refreshedTracks = await refreshed.json()
-        setTracks(Array.isArray(refreshedTracks) ? refreshedTracks : [])
-      }
+      const data = await api.enrichMissingIsrcs({ body: { playlistId: selectedId } })
+      setMusoLogs(data.logs)
+      setMusoSummary({ missingCount: data.missingCount, updated: data.updated })
+      const refreshedTracks = await api
+        .getPlaylistTracks({ params: { id: selectedId }, query: { includeMissingIsrc: true } })
+        .catch(() => null)
+      if (refreshedTracks) setTracks(refreshedTracks)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to run Muso enrichment')
     } finally {
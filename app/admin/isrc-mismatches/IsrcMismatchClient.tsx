@@ -1,6 +1,8 @@
 'use client'
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { api } from '@/lib/apiClient'
+import type { ContractBody, apiContracts } from '@/lib/apiContracts'
 
 type PreviewUrlEntry = {
   url: string
@@ -157,12 +159,8 @@ export default function IsrcMismatchClient() {
         const current = targets[index]
         index += 1
         try {
-          const res = await fetch(`/api/bpm?spotifyTrackId=${encodeURIComponent(current.spotify_track_id)}`)
-          if (!res.ok) {
-            continue
-          }
-          const data = await res.json().catch(() => ({}))
-          if (!Array.isArray(data?.urls)) {
+          const data = await api.getBpm({ query: { spotifyTrackId: current.spotify_track_id } }).catch(() => null)
+          if (!data?.urls) {
             continue
           }
           setItems((prev) =>
@@ -185,12 +183,10 @@ export default function IsrcMismatchClient() {
     setLoading(true)
     setError(null)
     try {
-      const res = await fetch('/api/admin/isrc-mismatches')
-      if (!res.ok) {
+      const data = await api.listIsrcMismatches().catch(() => {
         throw new Error('Failed to load ISRC mismatches')
-      }
-      const data = await res.json()
-      const nextItems = Array.isArray(data?.items) ? data.items : []
+      })
+      const nextItems = data.items
       setItems(nextItems)
       void hydrateMissingPreviewMeta(nextItems)
     } catch (err) {
@@ -208,15 +204,7 @@ export default function IsrcMismatchClient() {
     setLoading(true)
     setError(null)
     try {
-      const res = await fetch('/api/admin/isrc-mismatches', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ spotifyTrackId, action }),
-      })
-      if (!res.ok) {
-        const payload = await res.json().catch(() => ({}))
-        throw new Error(payload?.error || 'Failed to update review')
-      }
+      await api.reviewIsrcMismatch({ body: { spotifyTrackId, action } })
       await loadMismatches()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update review')
@@ -229,15 +217,7 @@ export default function IsrcMismatchClient() {
     setLoading(true)
     setError(null)
     try {
-      const res = await fetch('/api/admin/isrc-mismatches', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ spotifyTrackId, action: 'resolve_with_muso' }),
-      })
-      if (!res.ok) {
-        const payload = await res.json().catch(() => ({}))
-        throw new Error(payload?.error || 'Failed to resolve with Muso preview')
-      }
+      await api.reviewIsrcMismatch({ body: { spotifyTrackId, action: 'resolve_with_muso' } })
       await loadMismatches()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to resolve with Muso preview')
@@ -252,15 +232,7 @@ export default function IsrcMismatchClient() {
       [spotifyTrackId]: { url: prev[spotifyTrackId]?.url ?? null, loading: true, error: undefined },
     }))
     try {
-      const res = await fetch('/api/muso/preview', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ spotifyTrackId }),
-      })
-      const payload = await res.json().catch(() => ({}))
-      if (!res.ok) {
-        throw new Error(payload?.error || 'Unable to fetch Spotify preview')
-      }
+      const payload = await api.getMusoPreviewUrl({ body: { spotifyTrackId } })
       setSpotifyPreviewMap((prev) => ({
         ...prev,
         [spotifyTrackId]: { url: payload.previewUrl || null, loading: false, error: undefined },
@@ -283,11 +255,7 @@ export default function IsrcMismatchClient() {
       [spotifyTrackId]: { url: prev[spotifyTrackId]?.url ?? null, loading: true },
     }))
     try {
-      const res = await fetch(`/api/deezer-preview?url=${encodeURIComponent(apiUrl)}`)
-      const payload = await res.json().catch(() => ({}))
-      if (!res.ok || !payload?.previewUrl) {
-        throw new Error('Unable to resolve Deezer preview')
-      }
+      const payload = await api.resolveDeezerPreview({ query: { url: apiUrl } })
       setDeezerPreviewMap((prev) => ({
         ...prev,
         [spotifyTrackId]: { url: payload.previewUrl, loading: false },
@@ -305,21 +273,13 @@ export default function IsrcMismatchClient() {
     setError(null)
     addLog('info', 'Resolving outstanding mismatches with Muso preview URLs...')
     try {
-      const res = await fetch('/api/admin/isrc-mismatches/resolve-all', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({}),
-      })
-      const payload = await res.json().catch(() => ({}))
-      if (!res.ok) {
-        throw new Error(payload?.error || 'Failed to resolve mismatches')
-      }
+      const payload = await api.resolveIsrcMismatches({ body: {} })
       setResolveAllSummary({
-        processed: Number(payload?.processed ?? 0),
-        resolved: Number(payload?.resolved ?? 0),
-        skipped: Number(payload?.skipped ?? 0),
+        processed: payload.processed,
+        resolved: payload.resolved,
+        skipped: payload.skipped,
       })
-      addLog('success', `Resolved ${payload?.resolved ?? 0} mismatches via Muso.`)
+      addLog('success', `Resolved ${payload.resolved} mismatches via Muso.`)
       await loadMismatches()
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to resolve mismatches'
@@ -334,12 +294,7 @@ export default function IsrcMismatchClient() {
     setBpmLoading(true)
     addLog('info', `Fetching BPM/key for ${spotifyTrackId}...`)
     try {
-      const res = await fetch(`/api/bpm?spotifyTrackId=${encodeURIComponent(spotifyTrackId)}`)
-      const payload = await res.json().catch(() => ({}))
-      if (!res.ok) {
-        throw new Error(payload?.error || 'Failed to fetch BPM data')
-      }
-      setBpmInfo(payload)
+      setBpmInfo(await api.getBpm({ query: { spotifyTrackId } }))
       addLog('success', 'BPM/key data loaded.')
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to fetch BPM data'
@@ -368,18 +323,10 @@ export default function IsrcMismatchClient() {
     setSongSearchLoading(true)
     addLog('info', 'Searching song data sources...')
     try {
-      const res = await fetch('/api/admin/song-search', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      })
-      const data = await res.json().catch(() => ({}))
-      if (!res.ok) {
-        throw new Error(data?.error || 'Song search failed')
-      }
+      const data = await api.searchSongPreviews({ body: payload })
       setSongSearchResult(data)
-      addLog('success', `Search completed with ${data?.previewUrls?.length ?? 0} preview options.`)
-      const spotifyTrackId = data?.spotifyTrack?.id
+      addLog('success', `Search completed with ${data.previewUrls.length} preview options.`)
+      const spotifyTrackId = data.spotifyTrack?.id
       if (spotifyTrackId) {
         await fetchBpmInfo(spotifyTrackId)
       }
@@ -402,23 +349,17 @@ export default function IsrcMismatchClient() {
     setBpmLoading(true)
     addLog('info', `Applying preview from ${preview.provider}...`)
     try {
-      const res = await fetch('/api/admin/song-preview', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const payload = await api.previewSongBpm({
+        body: {
           spotifyTrackId,
           previewUrl: preview.url,
           source: preview.provider,
           previewIsrc: preview.isrc,
           previewTitle: preview.title,
           previewArtist: preview.artist,
-        }),
+        },
       })
-      const payload = await res.json().catch(() => ({}))
-      if (!res.ok) {
-        throw new Error(payload?.error || 'Failed to apply preview URL')
-      }
-      setBpmInfo(payload?.bpmResult || null)
+      setBpmInfo(payload.bpmResult)
       addLog('success', 'Preview applied and BPM recalculated.')
       await loadMismatches()
     } catch (err) {
@@ -440,15 +381,7 @@ export default function IsrcMismatchClient() {
     setBpmLoading(true)
     addLog('info', 'Clearing cache and recomputing BPM/key...')
     try {
-      const res = await fetch('/api/bpm/recalculate', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ trackIds: [spotifyTrackId] }),
-      })
-      const payload = await res.json().catch(() => ({}))
-      if (!res.ok) {
-        throw new Error(payload?.error || 'Failed to clear BPM cache')
-      }
+      await api.recalculateBpm({ body: { trackIds: [spotifyTrackId] } })
       addLog('success', 'Cache cleared, recalculating...')
       await fetchBpmInfo(spotifyTrackId)
     } catch (err) {
@@ -482,7 +415,7 @@ export default function IsrcMismatchClient() {
       return
     }
 
-    const payload: Record<string, any> = { spotifyTrackId }
+    const payload: ContractBody<typeof apiContracts.updateBpmSelection> = { spotifyTrackId }
     if (bpmManualValue !== undefined) {
       payload.bpmSelected = 'manual'
       payload.bpmManual = bpmManualValue
@@ -501,15 +434,7 @@ export default function IsrcMismatchClient() {
     setSongSearchError(null)
     addLog('info', 'Applying manual override...')
     try {
-      const res = await fetch('/api/bpm/update-selection', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      })
-      const responsePayload = await res.json().catch(() => ({}))
-      if (!res.ok) {
-        throw new Error(responsePayload?.error || 'Failed to apply manual override')
-      }
+      await api.updateBpmSelection({ body: payload })
       addLog('success', 'Manual override saved.')
       await fetchBpmInfo(spotifyTrackId)
     } catch (err) {
@@ -1,6 +1,7 @@
 "use client"
 
 import { useEffect, useState } from 'react'
+import { api } from '@/lib/apiClient'
 
 type Settings = {
   vercel_dashboard_url: string
@@ -21,10 +22,8 @@ export default function ObservabilityLinksClient({ defaults }: Props) {
     let isMounted = true
     const load = async () => {
       try {
-        const res = await fetch('/api/admin/observability-settings')
-        if (!res.ok) return
-        const data = await res.json().catch(() => ({}))
-        if (!isMounted || !data?.settings) return
+        const data = await api.getObservabilitySettings()
+        if (!isMounted) return
         setLinks((prev) => ({
           ...prev,
           vercel_dashboard_url: data.settings.vercel_dashboard_url || prev.vercel_dashboard_url,
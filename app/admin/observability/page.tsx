@@ -3,6 +3,7 @@ import { isAdminUser } from '@/lib/analytics'
 import PageHeader from '../../components/PageHeader'
 import ObservabilitySettingsClient from './settingsClient'
 import ObservabilityLinksClient from './linksClient'
+import PreviewProvidersClient from './previewProvidersClient'
 
 export const dynamic = 'force-dynamic'
 
@@ -48,6 +49,8 @@ export default async function ObservabilityPage() {
           }}
         />
 
+        <PreviewProvidersClient />
+
       </div>
       <footer className="mt-auto py-6 sm:py-8 text-center text-xs sm:text-sm text-gray-500 border-t border-gray-200">
         Created by{' '}
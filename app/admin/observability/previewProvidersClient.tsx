@@ -0,0 +1,204 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { api } from '@/lib/apiClient'
+import type { PreviewProvider } from '@/lib/previewHosts'
+import type { PreviewProviderStats } from '@/lib/previewProviders'
+import type { PreviewExpiryStats } from '@/lib/previewExpiry'
+
+type ProviderRow = {
+  id: PreviewProvider
+  label: string
+  enabled: boolean
+  stats: PreviewProviderStats | null
+}
+
+const formatRate = (rate: number | null) => (rate == null ? '—' : `${Math.round(rate * 100)}%`)
+
+const rateClass = (rate: number | null) => {
+  if (rate == null) return 'text-gray-400'
+  if (rate >= 0.6) return 'text-emerald-600'
+  if (rate >= 0.3) return 'text-amber-600'
+  return 'text-rose-600'
+}
+
+export default function PreviewProvidersClient() {
+  const [providers, setProviders] = useState<ProviderRow[]>([])
+  const [expiry, setExpiry] = useState<PreviewExpiryStats | null>(null)
+  const [days, setDays] = useState(7)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    let isMounted = true
+    const load = async () => {
+      setLoading(true)
+      try {
+        const data = await api.getPreviewProviders({ query: { days } })
+        if (isMounted) {
+          setProviders(data.providers)
+          setExpiry(data.expiry)
+        }
+      } catch (err) {
+        if (isMounted) setError(err instanceof Error ? err.message : 'Failed to load preview providers')
+      } finally {
+        if (isMounted) setLoading(false)
+      }
+    }
+    load()
+    return () => {
+      isMounted = false
+    }
+  }, [days])
+
+  const move = (index: number, delta: number) => {
+    setProviders((prev) => {
+      const target = index + delta
+      if (target < 0 || target >= prev.length) return prev
+      const next = [...prev]
+      const [item] = next.splice(index, 1)
+      next.splice(target, 0, item)
+      return next
+    })
+    setMessage(null)
+  }
+
+  const toggle = (id: string) => {
+    setProviders((prev) => prev.map((provider) => (provider.id === id ? { ...provider, enabled: !provider.enabled } : provider)))
+    setMessage(null)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+    try {
+      await api.updatePreviewProviders({
+        body: {
+          order: providers.map((provider) => provider.id),
+          disabled: providers.filter((provider) => !provider.enabled).map((provider) => provider.id),
+        },
+      })
+      setMessage('Saved. New lookups use this order within a minute.')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save preview providers')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-gray-100 bg-white p-6 shadow-[0_4px_24px_rgba(0,0,0,0.06)]">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Preview providers</h2>
+          <p className="mt-2 text-sm text-gray-500">
+            Lookup order for preview audio, tried top to bottom until one finds the track.
+            Success rate is the share of lookups that returned a usable preview.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={days}
+            onChange={(event) => setDays(Number(event.target.value))}
+            className="rounded-lg border border-gray-200 px-2 py-2 text-xs text-gray-700"
+          >
+            <option value={1}>Today</option>
+            <option value={7}>7 days</option>
+            <option value={30}>30 days</option>
+          </select>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || loading}
+            className="rounded-full border border-emerald-200 bg-emerald-50 px-4 py-2 text-xs font-semibold text-emerald-700 hover:bg-emerald-100"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+
+      {expiry ? (
+        <div className="mt-5 grid gap-3 sm:grid-cols-4">
+          {[
+            { label: 'Signed URLs', value: expiry.tracked, tone: 'text-gray-900' },
+            { label: 'Expired', value: expiry.expired, tone: expiry.expired > 0 ? 'text-rose-600' : 'text-gray-900' },
+            { label: `Expiring in ${expiry.horizonHours}h`, value: expiry.expiringSoon, tone: 'text-amber-600' },
+            { label: 'Refresh failed (24h)', value: expiry.refreshFailed, tone: expiry.refreshFailed > 0 ? 'text-rose-600' : 'text-gray-900' },
+          ].map((item) => (
+            <div key={item.label} className="rounded-lg border border-gray-100 px-3 py-2">
+              <div className="text-xs font-semibold uppercase tracking-[0.14em] text-gray-400">{item.label}</div>
+              <div className={`mt-1 text-lg font-semibold ${item.tone}`}>{item.value}</div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="mt-5 overflow-x-auto">
+        <table className="w-full text-left text-sm text-gray-600">
+          <thead>
+            <tr className="text-xs font-semibold uppercase tracking-[0.14em] text-gray-400">
+              <th className="py-2 pr-3">Order</th>
+              <th className="py-2 pr-3">Provider</th>
+              <th className="py-2 pr-3">Enabled</th>
+              <th className="py-2 pr-3 text-right">Lookups</th>
+              <th className="py-2 pr-3 text-right">Found</th>
+              <th className="py-2 pr-3 text-right">ISRC mismatch</th>
+              <th className="py-2 pr-3 text-right">Errors</th>
+              <th className="py-2 pr-3 text-right">Success</th>
+              <th className="py-2 text-right">Avg time</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {providers.map((provider, index) => (
+              <tr key={provider.id} className={provider.enabled ? '' : 'opacity-50'}>
+                <td className="py-2 pr-3">
+                  <div className="flex items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0}
+                      className="rounded border border-gray-200 px-1.5 text-xs text-gray-500 hover:bg-gray-50 disabled:opacity-30"
+                      aria-label={`Move ${provider.label} up`}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => move(index, 1)}
+                      disabled={index === providers.length - 1}
+                      className="rounded border border-gray-200 px-1.5 text-xs text-gray-500 hover:bg-gray-50 disabled:opacity-30"
+                      aria-label={`Move ${provider.label} down`}
+                    >
+                      ↓
+                    </button>
+                  </div>
+                </td>
+                <td className="py-2 pr-3 font-medium text-gray-900">{provider.label}</td>
+                <td className="py-2 pr-3">
+                  <input type="checkbox" checked={provider.enabled} onChange={() => toggle(provider.id)} />
+                </td>
+                <td className="py-2 pr-3 text-right">{provider.stats?.attempts ?? 0}</td>
+                <td className="py-2 pr-3 text-right">{provider.stats?.found ?? 0}</td>
+                <td className="py-2 pr-3 text-right">{provider.stats?.mismatches ?? 0}</td>
+                <td className="py-2 pr-3 text-right">{provider.stats?.errors ?? 0}</td>
+                <td className={`py-2 pr-3 text-right font-semibold ${rateClass(provider.stats?.successRate ?? null)}`}>
+                  {formatRate(provider.stats?.successRate ?? null)}
+                </td>
+                <td className="py-2 text-right">
+                  {provider.stats?.avgDurationMs != null ? `${provider.stats.avgDurationMs} ms` : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {loading && providers.length === 0 ? <div className="mt-3 text-sm text-gray-400">Loading...</div> : null}
+      </div>
+
+      {error ? <div className="mt-4 text-sm text-rose-600">{error}</div> : null}
+      {message ? <div className="mt-4 text-sm text-emerald-600">{message}</div> : null}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 "use client"
 
 import { useEffect, useState } from 'react'
+import { api } from '@/lib/apiClient'
 
 type Settings = {
   vercel_dashboard_url: string
@@ -23,12 +24,8 @@ export default function ObservabilitySettingsClient({ defaults }: Props) {
     let isMounted = true
     const load = async () => {
       try {
-        const res = await fetch('/api/admin/observability-settings')
-        if (!res.ok) {
-          return
-        }
-        const data = await res.json().catch(() => ({}))
-        if (!isMounted || !data?.settings) return
+        const data = await api.getObservabilitySettings()
+        if (!isMounted) return
         setSettings({
           vercel_dashboard_url: data.settings.vercel_dashboard_url || defaults.vercel_dashboard_url,
           gcp_logs_url: data.settings.gcp_logs_url || defaults.gcp_logs_url,
@@ -54,15 +51,7 @@ export default function ObservabilitySettingsClient({ defaults }: Props) {
     setError(null)
     setMessage(null)
     try {
-      const res = await fetch('/api/admin/observability-settings', {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(settings),
-      })
-      if (!res.ok) {
-        const payload = await res.json().catch(() => ({}))
-        throw new Error(payload?.error || 'Failed to save settings')
-      }
+      await api.updateObservabilitySettings({ body: settings })
       setMessage('Saved.')
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save settings')
@@ -17,6 +17,12 @@ const tools = [
     href: '/admin/isrc-mismatches',
     roles: ['admin', 'superadmin'],
   },
+  {
+    title: 'BPM & key review',
+    description: 'Resolve Essentia/Librosa disagreements and low-confidence BPM/key results.',
+    href: '/admin/bpm-review',
+    roles: ['admin', 'superadmin'],
+  },
   {
     title: 'ISRC Debug',
     description: 'Inspect playlist tracks that are missing ISRC values.',
@@ -30,8 +36,8 @@ const tools = [
     roles: ['admin', 'superadmin'],
   },
   {
-    title: 'External API Tester',
-    description: 'Send sample payloads to Spotify, Muso, MusicBrainz, Deezer, iTunes, and BPM integration routes.',
+    title: 'API Tester',
+    description: 'Send sample payloads to any route listed in the OpenAPI document, including Muso, MusicBrainz, Deezer and BPM routes.',
     href: '/admin/api-tester',
     roles: ['admin', 'superadmin'],
   },
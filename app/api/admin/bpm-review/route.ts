@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { isAdminUser, getCurrentUserId } from '@/lib/analytics'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
+import { withApiLogging } from '@/lib/logger'
+import { applyBpmReviewAction, getBpmReviewQueue } from '@/lib/bpmReview'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = withApiLogging(async (request: Request) => {
+  const isAdmin = await isAdminUser()
+  if (!isAdmin) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const parsed = await parseApiRequest(apiContracts.getBpmReviewQueue, request)
+  if (!parsed.ok) return parsed.response
+  const { threshold, includeReviewed } = parsed.query
+
+  const items = await getBpmReviewQueue({ threshold, includeReviewed })
+  return contractJson(apiContracts.getBpmReviewQueue, { items, threshold })
+})
+
+export const PATCH = withApiLogging(async (request: Request) => {
+  const isAdmin = await isAdminUser()
+  if (!isAdmin) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const parsed = await parseApiRequest(apiContracts.applyBpmReview, request)
+  if (!parsed.ok) return parsed.response
+  const { action } = parsed.body
+  const spotifyTrackIds = Array.from(new Set(parsed.body.spotifyTrackIds))
+  const bpmManual = action === 'manual' ? parsed.body.bpmManual ?? null : null
+
+  const reviewerId = await getCurrentUserId()
+  const updated = await applyBpmReviewAction({ spotifyTrackIds, action, reviewerId, bpmManual })
+
+  return contractJson(apiContracts.applyBpmReview, { ok: true, updated })
+})
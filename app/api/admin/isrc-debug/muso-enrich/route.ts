@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server'
 import { isAdminUser } from '@/lib/analytics'
+import { apiContracts, type isrcEnrichLogSchema } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
+import type { Infer } from '@/lib/apiSchema'
 import { query } from '@/lib/db'
 import { withApiLogging } from '@/lib/logger'
 import { getPlaylistTracks } from '@/lib/spotify'
@@ -12,21 +15,7 @@ type Track = {
   external_ids?: { isrc?: string }
 }
 
-type DebugLog = {
-  trackId: string
-  title: string
-  artist: string
-  request: {
-    keyword: string
-    limit: number
-    type: string[]
-  }
-  response: unknown
-  result: {
-    isrc?: string | null
-    matchType?: 'title_artist' | 'fallback' | 'none'
-  }
-}
+type DebugLog = Infer<typeof isrcEnrichLogSchema>
 
 function normalizeMatchValue(value: string): string {
   return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
@@ -38,11 +27,9 @@ export const POST = withApiLogging(async (request: Request) => {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
   }
 
-  const body = await request.json().catch(() => ({}))
-  const playlistId = typeof body?.playlistId === 'string' ? body.playlistId.trim() : ''
-  if (!playlistId) {
-    return NextResponse.json({ error: 'playlistId is required' }, { status: 400 })
-  }
+  const parsed = await parseApiRequest(apiContracts.enrichMissingIsrcs, request)
+  if (!parsed.ok) return parsed.response
+  const { playlistId } = parsed.body
 
   const cacheRows = await query<{ tracks_data: any[] }>(
     `SELECT tracks_data FROM playlist_cache WHERE playlist_id = $1 LIMIT 1`,
@@ -119,7 +106,7 @@ export const POST = withApiLogging(async (request: Request) => {
     )
   }
 
-  return NextResponse.json({
+  return contractJson(apiContracts.enrichMissingIsrcs, {
     missingCount: missing.length,
     updated,
     logs,
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server'
 import { isAdminUser, getCurrentUserId } from '@/lib/analytics'
+import { apiContracts, type ContractResponse } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 import { query } from '@/lib/db'
 import { withApiLogging } from '@/lib/logger'
 import { computeBpmFromPreviewUrl } from '@/lib/bpm'
@@ -13,13 +15,7 @@ type IsrcMismatchRow = {
   artist: string | null
 }
 
-type ResolveResult = {
-  spotifyTrackId: string
-  status: 'resolved' | 'skipped' | 'failed'
-  reason?: string
-  previewUrl?: string | null
-  isrc?: string | null
-}
+type ResolveResult = ContractResponse<typeof apiContracts.resolveIsrcMismatches>['results'][number]
 
 export const POST = withApiLogging(async (request: Request) => {
   const isAdmin = await isAdminUser()
@@ -31,11 +27,9 @@ export const POST = withApiLogging(async (request: Request) => {
     return NextResponse.json({ error: 'Muso API key is not configured' }, { status: 400 })
   }
 
-  const body = await request.json().catch(() => ({}))
-  const requestedLimit = Number(body?.limit)
-  const limit = Number.isFinite(requestedLimit) && requestedLimit > 0
-    ? Math.min(requestedLimit, 1000)
-    : null
+  const parsed = await parseApiRequest(apiContracts.resolveIsrcMismatches, request)
+  if (!parsed.ok) return parsed.response
+  const limit = parsed.body.limit ?? null
 
   const reviewerId = await getCurrentUserId()
   const rows = limit
@@ -135,7 +129,7 @@ export const POST = withApiLogging(async (request: Request) => {
 
   await Promise.all(Array.from({ length: Math.min(limitConcurrency, rows.length) }, worker))
 
-  return NextResponse.json({
+  return contractJson(apiContracts.resolveIsrcMismatches, {
     processed: rows.length,
     resolved,
     skipped,
@@ -1,21 +1,13 @@
 import { NextResponse } from 'next/server'
 import { isAdminUser, getCurrentUserId } from '@/lib/analytics'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 import { query } from '@/lib/db'
 import { withApiLogging } from '@/lib/logger'
 import { computeBpmFromPreviewUrl } from '@/lib/bpm'
 import { getTrack } from '@/lib/spotify'
 import { getTrackDetailsByIsrc, hasMusoApiKey } from '@/lib/muso'
-
-type PreviewUrlEntry = {
-  url: string
-  successful?: boolean
-  isrc?: string
-  title?: string
-  artist?: string
-  provider?: 'deezer_isrc' | 'muso_spotify' | 'itunes_search' | 'deezer_search'
-  itunesRequestUrl?: string
-  itunesResponse?: string
-}
+import type { PreviewUrlEntry } from '@/lib/types'
 
 type IsrcMismatchRow = {
   spotify_track_id: string
@@ -26,7 +18,7 @@ type IsrcMismatchRow = {
   error: string | null
   urls: PreviewUrlEntry[] | null
   isrc_mismatch: boolean
-  isrc_mismatch_review_status: string | null
+  isrc_mismatch_review_status: 'match' | 'mismatch' | null
   isrc_mismatch_reviewed_by: string | null
   isrc_mismatch_reviewed_at: Date | null
 }
@@ -58,7 +50,7 @@ export const GET = withApiLogging(async () => {
     preview_url: getPreviewUrl(row.urls),
   }))
 
-  return NextResponse.json({ items })
+  return contractJson(apiContracts.listIsrcMismatches, { items })
 })
 
 export const PATCH = withApiLogging(async (request: Request) => {
@@ -67,17 +59,9 @@ export const PATCH = withApiLogging(async (request: Request) => {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
   }
 
-  const payload = await request.json().catch(() => null)
-  const spotifyTrackId = typeof payload?.spotifyTrackId === 'string' ? payload.spotifyTrackId.trim() : ''
-  const action = payload?.action as string | undefined
-
-  if (!spotifyTrackId) {
-    return NextResponse.json({ error: 'spotifyTrackId is required' }, { status: 400 })
-  }
-
-  if (action !== 'confirm_match' && action !== 'confirm_mismatch' && action !== 'resolve_with_muso') {
-    return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
-  }
+  const parsed = await parseApiRequest(apiContracts.reviewIsrcMismatch, request)
+  if (!parsed.ok) return parsed.response
+  const { spotifyTrackId, action } = parsed.body
 
   const reviewerId = await getCurrentUserId()
   const reviewStatus = action === 'confirm_match' || action === 'resolve_with_muso' ? 'match' : 'mismatch'
@@ -120,5 +104,5 @@ export const PATCH = withApiLogging(async (request: Request) => {
     [mismatchValue, reviewStatus, reviewerId, spotifyTrackId]
   )
 
-  return NextResponse.json({ ok: true })
+  return contractJson(apiContracts.reviewIsrcMismatch, { ok: true })
 })
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server'
 import { isAdminUser } from '@/lib/analytics'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson } from '@/lib/apiRoute'
 import { getMusoUsageSnapshot } from '@/lib/muso'
 import { withApiLogging } from '@/lib/logger'
 
@@ -10,5 +12,5 @@ export const GET = withApiLogging(async () => {
   }
 
   const snapshot = await getMusoUsageSnapshot()
-  return NextResponse.json(snapshot)
+  return contractJson(apiContracts.getMusoStatus, snapshot)
 })
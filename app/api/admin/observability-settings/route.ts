@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server'
 import { isAdminUser, getCurrentUserId } from '@/lib/analytics'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 import { query } from '@/lib/db'
 import { setRuntimeLogLevel, withApiLogging } from '@/lib/logger'
 
@@ -29,7 +31,7 @@ export const GET = withApiLogging(async () => {
     values[row.key] = row.value
   }
 
-  return NextResponse.json({ settings: values })
+  return contractJson(apiContracts.getObservabilitySettings, { settings: values })
 })
 
 export const PUT = withApiLogging(async (request: Request) => {
@@ -38,20 +40,14 @@ export const PUT = withApiLogging(async (request: Request) => {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
   }
 
-  const payload = await request.json().catch(() => null)
-  if (!payload || typeof payload !== 'object') {
-    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 })
-  }
+  const parsed = await parseApiRequest(apiContracts.updateObservabilitySettings, request)
+  if (!parsed.ok) return parsed.response
 
   const userId = await getCurrentUserId()
-  const entries = Object.entries(payload).filter(([key]) => ALLOWED_KEYS.includes(key))
-
-  if (entries.length === 0) {
-    return NextResponse.json({ error: 'No valid settings provided' }, { status: 400 })
-  }
+  const entries = Object.entries(parsed.body).filter(([, value]) => value !== undefined)
 
   for (const [key, value] of entries) {
-    const trimmed = typeof value === 'string' && value.trim() ? value.trim() : null
+    const trimmed = value?.trim() || null
     if (key === 'log_level' && trimmed) {
       setRuntimeLogLevel(trimmed)
     }
@@ -64,5 +60,5 @@ export const PUT = withApiLogging(async (request: Request) => {
     )
   }
 
-  return NextResponse.json({ ok: true })
+  return contractJson(apiContracts.updateObservabilitySettings, { ok: true })
 })
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server'
+import { isAdminUser, getCurrentUserId } from '@/lib/analytics'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
+import { logError, withApiLogging } from '@/lib/logger'
+import {
+  PREVIEW_PROVIDERS,
+  getPreviewProviderSettings,
+  getPreviewProviderStats,
+  savePreviewProviderSettings,
+} from '@/lib/previewProviders'
+import { getPreviewExpiryStats } from '@/lib/previewExpiry'
+
+async function buildPayload(days: number) {
+  const [settings, stats, expiry] = await Promise.all([
+    getPreviewProviderSettings(),
+    getPreviewProviderStats(days),
+    getPreviewExpiryStats(),
+  ])
+  return {
+    days,
+    expiry,
+    order: settings.order,
+    providers: settings.order.map((id) => ({
+      id,
+      label: PREVIEW_PROVIDERS.find((provider) => provider.id === id)?.label || id,
+      enabled: !settings.disabled.includes(id),
+      stats: stats.find((item) => item.provider === id) || null,
+    })),
+  }
+}
+
+export const GET = withApiLogging(async (request: Request) => {
+  const isAdmin = await isAdminUser()
+  if (!isAdmin) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const parsed = await parseApiRequest(apiContracts.getPreviewProviders, request)
+  if (!parsed.ok) return parsed.response
+
+  try {
+    return contractJson(apiContracts.getPreviewProviders, await buildPayload(parsed.query.days))
+  } catch (error) {
+    logError(error, { component: 'admin.preview-providers', method: 'GET' })
+    return NextResponse.json({ error: 'Failed to load preview providers' }, { status: 500 })
+  }
+})
+
+export const PUT = withApiLogging(async (request: Request) => {
+  const isAdmin = await isAdminUser()
+  if (!isAdmin) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const parsed = await parseApiRequest(apiContracts.updatePreviewProviders, request)
+  if (!parsed.ok) return parsed.response
+
+  try {
+    const userId = await getCurrentUserId()
+    await savePreviewProviderSettings(parsed.body, userId)
+    return contractJson(apiContracts.updatePreviewProviders, await buildPayload(7))
+  } catch (error) {
+    logError(error, { component: 'admin.preview-providers', method: 'PUT' })
+    return NextResponse.json({ error: 'Failed to save preview providers' }, { status: 500 })
+  }
+})
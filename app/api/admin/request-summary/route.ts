@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server'
 import { isAdminUser, isSuperAdminUser } from '@/lib/analytics'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson } from '@/lib/apiRoute'
 import { query } from '@/lib/db'
 import { withApiLogging } from '@/lib/logger'
 
@@ -18,7 +20,7 @@ export const GET = withApiLogging(async () => {
     "SELECT COUNT(*) as count FROM spotify_access_requests WHERE status = 'pending'"
   )
 
-  return NextResponse.json({
+  return contractJson(apiContracts.getRequestSummary, {
     pendingAdminRequests: Number(adminCountRows[0]?.count ?? 0),
     pendingSpotifyAccessRequests: Number(spotifyCountRows[0]?.count ?? 0),
   })
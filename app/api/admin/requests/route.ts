@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server'
 import { getCurrentUserId, getCurrentUserProfile, isSuperAdminUser } from '@/lib/analytics'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 import { query } from '@/lib/db'
 import { logInfo, withApiLogging } from '@/lib/logger'
 
@@ -25,7 +27,7 @@ export const GET = withApiLogging(async () => {
      ORDER BY requested_at DESC`
   )
 
-  return NextResponse.json({ requests: rows })
+  return contractJson(apiContracts.listAdminRequests, { requests: rows })
 })
 
 export const POST = withApiLogging(async (request: Request) => {
@@ -35,11 +37,10 @@ export const POST = withApiLogging(async (request: Request) => {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
-  const body = await request.json().catch(() => ({}))
-  const displayName = typeof body?.displayName === 'string' ? body.displayName.trim() : ''
-  const email = typeof body?.email === 'string' ? body.email.trim() : ''
-  const resolvedName = displayName || profile?.display_name || ''
-  const resolvedEmail = email || profile?.email || ''
+  const parsed = await parseApiRequest(apiContracts.requestAdminAccess, request)
+  if (!parsed.ok) return parsed.response
+  const resolvedName = parsed.body.displayName || profile?.display_name || ''
+  const resolvedEmail = parsed.body.email || profile?.email || ''
 
   if (!resolvedEmail) {
     return NextResponse.json({ error: 'Email is required' }, { status: 400 })
@@ -50,7 +51,7 @@ export const POST = withApiLogging(async (request: Request) => {
     [userId]
   )
   if (adminRows[0]?.exists) {
-    return NextResponse.json({ status: 'already_admin' })
+    return contractJson(apiContracts.requestAdminAccess, { status: 'already_admin' })
   }
 
   const pendingRows = await query<{ exists: boolean }>(
@@ -65,7 +66,7 @@ export const POST = withApiLogging(async (request: Request) => {
        WHERE spotify_user_id = $1 AND status = 'pending'`,
       [userId, resolvedName || null, resolvedEmail]
     )
-    return NextResponse.json({ status: 'pending' })
+    return contractJson(apiContracts.requestAdminAccess, { status: 'pending' })
   }
 
   await query(
@@ -77,7 +78,7 @@ export const POST = withApiLogging(async (request: Request) => {
     component: 'admin.requests',
     spotifyUserId: userId,
   })
-  return NextResponse.json({ status: 'requested' })
+  return contractJson(apiContracts.requestAdminAccess, { status: 'requested' })
 })
 
 export const PATCH = withApiLogging(async (request: Request) => {
@@ -86,13 +87,9 @@ export const PATCH = withApiLogging(async (request: Request) => {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
-  const body = await request.json().catch(() => ({}))
-  const requestId = typeof body?.requestId === 'number' ? body.requestId : Number(body?.requestId)
-  const action = body?.action === 'approve' || body?.action === 'deny' ? body.action : null
-
-  if (!requestId || !action) {
-    return NextResponse.json({ error: 'Missing requestId or action' }, { status: 400 })
-  }
+  const parsed = await parseApiRequest(apiContracts.resolveAdminRequest, request)
+  if (!parsed.ok) return parsed.response
+  const { requestId, action } = parsed.body
 
   const rows = await query<{
     id: number
@@ -147,5 +144,5 @@ export const PATCH = withApiLogging(async (request: Request) => {
     })
   }
 
-  return NextResponse.json({ ok: true })
+  return contractJson(apiContracts.resolveAdminRequest, { ok: true })
 })
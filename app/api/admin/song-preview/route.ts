@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server'
 import { isAdminUser, getCurrentUserId } from '@/lib/analytics'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 import { query } from '@/lib/db'
 import { withApiLogging } from '@/lib/logger'
 import { computeBpmFromPreviewUrl } from '@/lib/bpm'
@@ -10,20 +12,13 @@ export const POST = withApiLogging(async (request: Request) => {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
   }
 
-  const body = await request.json().catch(() => ({}))
-  const spotifyTrackId = typeof body?.spotifyTrackId === 'string' ? body.spotifyTrackId.trim() : ''
-  const previewUrl = typeof body?.previewUrl === 'string' ? body.previewUrl.trim() : ''
-  const source = typeof body?.source === 'string' ? body.source.trim() : undefined
-  const previewIsrc = typeof body?.previewIsrc === 'string' ? body.previewIsrc.trim() : null
-  const previewTitle = typeof body?.previewTitle === 'string' ? body.previewTitle.trim() : null
-  const previewArtist = typeof body?.previewArtist === 'string' ? body.previewArtist.trim() : null
-
-  if (!spotifyTrackId || !previewUrl) {
-    return NextResponse.json(
-      { error: 'spotifyTrackId and previewUrl are required' },
-      { status: 400 }
-    )
-  }
+  const parsed = await parseApiRequest(apiContracts.previewSongBpm, request)
+  if (!parsed.ok) return parsed.response
+  const { spotifyTrackId, previewUrl } = parsed.body
+  const source = parsed.body.source?.trim()
+  const previewIsrc = parsed.body.previewIsrc?.trim() ?? null
+  const previewTitle = parsed.body.previewTitle?.trim() ?? null
+  const previewArtist = parsed.body.previewArtist?.trim() ?? null
 
   const reviewerId = await getCurrentUserId()
 
@@ -48,5 +43,5 @@ export const POST = withApiLogging(async (request: Request) => {
     [spotifyTrackId, reviewerId]
   )
 
-  return NextResponse.json({ ok: true, bpmResult })
+  return contractJson(apiContracts.previewSongBpm, { ok: true, bpmResult })
 })
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server'
 import { isAdminUser } from '@/lib/analytics'
+import { apiContracts, type ContractResponse } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 import { withApiLogging } from '@/lib/logger'
 import { makeSpotifyRequest, getTrack } from '@/lib/spotify'
 import { getTrackDetailsByIsrc, hasMusoApiKey } from '@/lib/muso'
@@ -10,22 +12,9 @@ type SpotifySearchResponse = {
   }
 }
 
-type SpotifyTrackSummary = {
-  id: string
-  title: string
-  artist: string
-  isrc?: string | null
-  previewUrl?: string | null
-  album?: string | null
-}
-
-type PreviewUrlEntry = {
-  url: string
-  provider: 'spotify_preview' | 'muso_spotify' | 'deezer_isrc' | 'deezer_search' | 'itunes_search'
-  isrc?: string
-  title?: string
-  artist?: string
-}
+type SongSearchResponse = ContractResponse<typeof apiContracts.searchSongPreviews>
+type SpotifyTrackSummary = SongSearchResponse['spotifyTracks'][number]
+type PreviewUrlEntry = SongSearchResponse['previewUrls'][number]
 
 function formatSpotifyTrack(track: any): SpotifyTrackSummary {
   const artists = Array.isArray(track?.artists)
@@ -185,18 +174,12 @@ export const POST = withApiLogging(async (request: Request) => {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
   }
 
-  const body = await request.json().catch(() => ({}))
-  const rawIsrc = typeof body?.isrc === 'string' ? body.isrc.trim() : ''
-  const rawTitle = typeof body?.title === 'string' ? body.title.trim() : ''
-  const rawArtist = typeof body?.artist === 'string' ? body.artist.trim() : ''
-  const rawSpotifyTrackId = typeof body?.spotifyTrackId === 'string' ? body.spotifyTrackId.trim() : ''
-
-  if (!rawIsrc && !rawTitle && !rawArtist && !rawSpotifyTrackId) {
-    return NextResponse.json(
-      { error: 'Provide at least an ISRC, title, artist, or Spotify track ID' },
-      { status: 400 }
-    )
-  }
+  const parsed = await parseApiRequest(apiContracts.searchSongPreviews, request)
+  if (!parsed.ok) return parsed.response
+  const rawIsrc = parsed.body.isrc ?? ''
+  const rawTitle = parsed.body.title ?? ''
+  const rawArtist = parsed.body.artist ?? ''
+  const rawSpotifyTrackId = parsed.body.spotifyTrackId ?? ''
 
   let spotifyTrack: SpotifyTrackSummary | null = null
   let spotifyTracks: SpotifyTrackSummary[] = []
@@ -283,7 +266,7 @@ export const POST = withApiLogging(async (request: Request) => {
   })
   itunesEntries.forEach(addEntry)
 
-  return NextResponse.json({
+  return contractJson(apiContracts.searchSongPreviews, {
     spotifyTrack,
     spotifyTracks,
     previewUrls,
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server'
 import { isSuperAdminUser } from '@/lib/analytics'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 import { query } from '@/lib/db'
 import { logInfo, withApiLogging } from '@/lib/logger'
 
@@ -21,7 +23,7 @@ export const GET = withApiLogging(async () => {
   }>(
     'SELECT spotify_user_id, active, created_at, is_super_admin, display_name, email FROM admin_users ORDER BY spotify_user_id ASC'
   )
-  return NextResponse.json({ admins: rows })
+  return contractJson(apiContracts.listAdminUsers, { admins: rows })
 })
 
 export const POST = withApiLogging(async (request: Request) => {
@@ -30,13 +32,9 @@ export const POST = withApiLogging(async (request: Request) => {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
-  const body = await request.json().catch(() => ({}))
-  const rawId = typeof body?.spotifyUserId === 'string' ? body.spotifyUserId.trim() : ''
-  const displayName = typeof body?.displayName === 'string' ? body.displayName.trim() : ''
-  const email = typeof body?.email === 'string' ? body.email.trim() : ''
-  if (!rawId) {
-    return NextResponse.json({ error: 'Missing spotifyUserId' }, { status: 400 })
-  }
+  const parsed = await parseApiRequest(apiContracts.addAdminUser, request)
+  if (!parsed.ok) return parsed.response
+  const { spotifyUserId, displayName, email } = parsed.body
 
   await query(
     `INSERT INTO admin_users (spotify_user_id, active, display_name, email)
@@ -46,11 +44,11 @@ export const POST = withApiLogging(async (request: Request) => {
        active = TRUE,
        display_name = COALESCE(EXCLUDED.display_name, admin_users.display_name),
        email = COALESCE(EXCLUDED.email, admin_users.email)`,
-    [rawId, displayName || null, email || null]
+    [spotifyUserId, displayName || null, email || null]
   )
 
-  logInfo('Admin user added', { component: 'admin.users', spotifyUserId: rawId })
-  return NextResponse.json({ ok: true })
+  logInfo('Admin user added', { component: 'admin.users', spotifyUserId })
+  return contractJson(apiContracts.addAdminUser, { ok: true })
 })
 
 export const PATCH = withApiLogging(async (request: Request) => {
@@ -59,51 +57,38 @@ export const PATCH = withApiLogging(async (request: Request) => {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
-  const body = await request.json().catch(() => ({}))
-  const rawId = typeof body?.spotifyUserId === 'string' ? body.spotifyUserId.trim() : ''
-  const action = typeof body?.action === 'string' ? body.action : ''
-  const displayName = typeof body?.displayName === 'string' ? body.displayName.trim() : ''
-  const email = typeof body?.email === 'string' ? body.email.trim() : ''
-
-  if (!rawId || !action) {
-    return NextResponse.json({ error: 'Missing spotifyUserId or action' }, { status: 400 })
-  }
+  const parsed = await parseApiRequest(apiContracts.updateAdminUser, request)
+  if (!parsed.ok) return parsed.response
+  const { spotifyUserId, action, displayName, email } = parsed.body
 
   if (action === 'deactivate') {
     const rows = await query<{ is_super_admin: boolean }>(
       'SELECT is_super_admin FROM admin_users WHERE spotify_user_id = $1',
-      [rawId]
+      [spotifyUserId]
     )
     if (rows[0]?.is_super_admin) {
       return NextResponse.json({ error: 'Cannot deactivate super admin' }, { status: 400 })
     }
-    await query('UPDATE admin_users SET active = FALSE WHERE spotify_user_id = $1', [rawId])
-    logInfo('Admin user deactivated', { component: 'admin.users', spotifyUserId: rawId })
-    return NextResponse.json({ ok: true })
+    await query('UPDATE admin_users SET active = FALSE WHERE spotify_user_id = $1', [spotifyUserId])
+    logInfo('Admin user deactivated', { component: 'admin.users', spotifyUserId })
+    return contractJson(apiContracts.updateAdminUser, { ok: true })
   }
 
   if (action === 'activate') {
-    await query('UPDATE admin_users SET active = TRUE WHERE spotify_user_id = $1', [rawId])
-    logInfo('Admin user activated', { component: 'admin.users', spotifyUserId: rawId })
-    return NextResponse.json({ ok: true })
-  }
-
-  if (action === 'update') {
-    if (!displayName && !email) {
-      return NextResponse.json({ error: 'No updates provided' }, { status: 400 })
-    }
-    await query(
-      `UPDATE admin_users
-       SET display_name = COALESCE($2, display_name),
-           email = COALESCE($3, email)
-       WHERE spotify_user_id = $1`,
-      [rawId, displayName || null, email || null]
-    )
-    logInfo('Admin user updated', { component: 'admin.users', spotifyUserId: rawId })
-    return NextResponse.json({ ok: true })
+    await query('UPDATE admin_users SET active = TRUE WHERE spotify_user_id = $1', [spotifyUserId])
+    logInfo('Admin user activated', { component: 'admin.users', spotifyUserId })
+    return contractJson(apiContracts.updateAdminUser, { ok: true })
   }
 
-  return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
+  await query(
+    `UPDATE admin_users
+     SET display_name = COALESCE($2, display_name),
+         email = COALESCE($3, email)
+     WHERE spotify_user_id = $1`,
+    [spotifyUserId, displayName || null, email || null]
+  )
+  logInfo('Admin user updated', { component: 'admin.users', spotifyUserId })
+  return contractJson(apiContracts.updateAdminUser, { ok: true })
 })
 
 export const DELETE = withApiLogging(async (request: Request) => {
@@ -112,21 +97,19 @@ export const DELETE = withApiLogging(async (request: Request) => {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
-  const body = await request.json().catch(() => ({}))
-  const rawId = typeof body?.spotifyUserId === 'string' ? body.spotifyUserId.trim() : ''
-  if (!rawId) {
-    return NextResponse.json({ error: 'Missing spotifyUserId' }, { status: 400 })
-  }
+  const parsed = await parseApiRequest(apiContracts.removeAdminUser, request)
+  if (!parsed.ok) return parsed.response
+  const { spotifyUserId } = parsed.body
 
   const rows = await query<{ is_super_admin: boolean }>(
     'SELECT is_super_admin FROM admin_users WHERE spotify_user_id = $1',
-    [rawId]
+    [spotifyUserId]
   )
   if (rows[0]?.is_super_admin) {
     return NextResponse.json({ error: 'Cannot delete super admin' }, { status: 400 })
   }
 
-  await query('DELETE FROM admin_users WHERE spotify_user_id = $1', [rawId])
-  logInfo('Admin user deleted', { component: 'admin.users', spotifyUserId: rawId })
-  return NextResponse.json({ ok: true })
+  await query('DELETE FROM admin_users WHERE spotify_user_id = $1', [spotifyUserId])
+  logInfo('Admin user deleted', { component: 'admin.users', spotifyUserId })
+  return contractJson(apiContracts.removeAdminUser, { ok: true })
 })
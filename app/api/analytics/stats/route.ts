@@ -3,6 +3,8 @@ import { isAdminUser } from '@/lib/analytics'
 import { getMusoUsageSnapshot } from '@/lib/muso'
 import { logError, withApiLogging } from '@/lib/logger'
 import { query } from '@/lib/db'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 
@@ -116,7 +118,7 @@ export const GET = withApiLogging(async () => {
 
     const musoUsage = await getMusoUsageSnapshot()
 
-    return NextResponse.json({
+    return contractJson(apiContracts.getAnalyticsStats, {
       summary: {
         totalUsers,
         totalPageviews,
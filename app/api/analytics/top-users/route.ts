@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server'
 import { isAdminUser } from '@/lib/analytics'
 import { query } from '@/lib/db'
 import { withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 
@@ -20,7 +22,8 @@ export const GET = withApiLogging(async () => {
      LIMIT 10`
   )
 
-  return NextResponse.json(
+  return contractJson(
+    apiContracts.getTopUsers,
     topUsers.map((u) => ({
       ...u,
       session_count: parseInt(u.session_count, 10),
@@ -1,17 +1,16 @@
 import { NextResponse } from 'next/server'
 import { trackPageview, getCurrentUserId } from '@/lib/analytics'
 import { logError, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 
 export const POST = withApiLogging(async (request: Request) => {
   try {
-    const body = await request.json()
-    const { path } = body
-
-    if (!path) {
-      return NextResponse.json({ error: 'Path is required' }, { status: 400 })
-    }
+    const parsed = await parseApiRequest(apiContracts.trackPageview, request)
+    if (!parsed.ok) return parsed.response
+    const { path } = parsed.body
 
     const userId = await getCurrentUserId()
 
@@ -19,7 +18,7 @@ export const POST = withApiLogging(async (request: Request) => {
       logError(error, { component: 'analytics.track-pageview' })
     })
 
-    return NextResponse.json({ success: true })
+    return contractJson(apiContracts.trackPageview, { success: true })
   } catch (error) {
     logError(error, { component: 'analytics.track-pageview' })
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
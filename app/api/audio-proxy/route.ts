@@ -1,114 +1,99 @@
 import { NextResponse } from 'next/server'
 import { logError, logInfo, logWarning, withApiLogging } from '@/lib/logger'
+import { getProxiedAudio, parseByteRange } from '@/lib/audioProxy'
+import { isAllowedPreviewUrl } from '@/lib/previewHosts'
+import { apiContracts } from '@/lib/apiContracts'
+import { parseApiRequest } from '@/lib/apiRoute'
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET',
+  'Access-Control-Allow-Headers': 'Range',
+  'Access-Control-Expose-Headers': 'Accept-Ranges, Content-Length, Content-Range',
+}
 
 export const GET = withApiLogging(async (request: Request) => {
-  const { searchParams } = new URL(request.url)
-  const audioUrl = searchParams.get('url')
+  const parsed = await parseApiRequest(apiContracts.proxyAudio, request)
+  if (!parsed.ok) {
+    logWarning('Audio proxy rejected invalid request', {
+      component: 'api.audio-proxy',
+      issues: parsed.issues.length,
+    })
+    return parsed.response
+  }
+  const audioUrl = parsed.query.url
 
   logInfo('Audio proxy request received', {
     component: 'api.audio-proxy',
-    audioUrl: audioUrl?.substring(0, 120) || null,
+    audioUrl: audioUrl.substring(0, 120),
+    range: request.headers.get('range'),
   })
 
-  if (!audioUrl) {
-    logWarning('Audio proxy missing URL parameter', {
+  // Only proxy the preview hosts we resolve ourselves; anything else would make this an open proxy
+  if (!isAllowedPreviewUrl(audioUrl)) {
+    logWarning('Audio proxy rejected disallowed URL', {
       component: 'api.audio-proxy',
+      audioUrl: audioUrl.substring(0, 120),
     })
     return NextResponse.json(
-      { error: 'URL parameter is required' },
+      { error: 'Invalid URL: must be a Deezer, iTunes or Spotify preview URL' },
       { status: 400 }
     )
   }
 
   try {
-    logInfo('Audio proxy fetching audio', {
-      component: 'api.audio-proxy',
-      audioUrl: audioUrl.substring(0, 120),
-    })
-    // Fetch the audio file from the source
-    // Try to match what Python requests library does (which the BPM service uses)
-    // Python requests typically sends minimal headers and lets the server handle it
-    const response = await fetch(audioUrl, {
-      headers: {
-        // Minimal headers - let the server handle the rest
-        // Python requests sends: User-Agent: python-requests/X.X.X, Accept: */*
-        'User-Agent': 'python-requests/2.31.0', // Match Python requests default
-        'Accept': '*/*', // Python requests default
-      },
-      redirect: 'follow',
-      // Don't send Referer/Origin - Python requests doesn't by default
-    })
-
-    logInfo('Audio proxy response received', {
-      component: 'api.audio-proxy',
-      status: response.status,
-      ok: response.ok,
-      contentType: response.headers.get('content-type'),
-      contentLength: response.headers.get('content-length'),
-      contentRange: response.headers.get('content-range'),
-    })
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unable to read error')
-      const responseHeaders: Record<string, string> = {}
-      response.headers.forEach((value, key) => {
-        responseHeaders[key] = value
-      })
-      logError(new Error('Audio proxy fetch failed'), {
-        component: 'api.audio-proxy',
-        status: response.status,
-        statusText: response.statusText,
-        errorText: errorText.substring(0, 500),
-        responseHeaders,
-        url: audioUrl,
-      })
-      
-      // For 403 errors, the URL might have expired or require different authentication
-      // Return a more descriptive error
-      if (response.status === 403) {
-        return NextResponse.json(
-          { 
-            error: 'Failed to fetch audio: 403 Forbidden. The preview URL may have expired or requires authentication.',
-            details: 'Deezer preview URLs contain time-limited authentication tokens that may expire.'
-          },
-          { status: 403 }
-        )
-      }
-      
+    const result = await getProxiedAudio(audioUrl)
+    if (!result.ok) {
       return NextResponse.json(
-        { error: `Failed to fetch audio: ${response.status} ${response.statusText}` },
-        { status: response.status }
+        { error: result.error, ...(result.details ? { details: result.details } : {}) },
+        { status: result.status }
       )
     }
 
-    // Get the audio data
-    logInfo('Audio proxy reading audio data', {
-      component: 'api.audio-proxy',
-      audioUrl: audioUrl.substring(0, 120),
-    })
-    const audioData = await response.arrayBuffer()
-    const contentType = response.headers.get('content-type') || 'audio/mpeg'
+    const { body, contentType } = result.audio
+    const size = body.byteLength
+    const headers: Record<string, string> = {
+      ...CORS_HEADERS,
+      'Content-Type': contentType,
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
+    }
+
+    const range = parseByteRange(request.headers.get('range'), size)
+    if (range === 'unsatisfiable') {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { ...headers, 'Content-Range': `bytes */${size}` },
+      })
+    }
 
-    // Return the audio with proper CORS headers
     logInfo('Audio proxied successfully', {
       component: 'api.audio-proxy',
       audioUrl: audioUrl.substring(0, 100),
       contentType,
-      contentLength: audioData.byteLength,
+      contentLength: size,
+      cached: result.cached,
+      range: range ? `${range.start}-${range.end}` : null,
     })
-    
-    return new NextResponse(audioData, {
-      headers: {
-        'Content-Type': contentType,
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET',
-        'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
-      },
+
+    if (range) {
+      return new NextResponse(body.slice(range.start, range.end + 1), {
+        status: 206,
+        headers: {
+          ...headers,
+          'Content-Length': String(range.end - range.start + 1),
+          'Content-Range': `bytes ${range.start}-${range.end}/${size}`,
+        },
+      })
+    }
+
+    return new NextResponse(body, {
+      headers: { ...headers, 'Content-Length': String(size) },
     })
   } catch (error) {
     logError(error, {
       component: 'api.audio-proxy',
-      audioUrl: audioUrl?.substring(0, 100),
+      audioUrl: audioUrl.substring(0, 100),
       errorType: 'AudioProxyError',
     })
     return NextResponse.json(
@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import crypto from 'crypto'
 import { logError, logInfo, withApiLogging } from '@/lib/logger'
+import { externalFetch } from '@/lib/externalFetch'
+import { getSafeReturnPath, SPOTIFY_SCOPES_COOKIE } from '@/lib/spotify'
 
 export const GET = withApiLogging(async (request: Request) => {
   const { searchParams } = new URL(request.url)
@@ -64,7 +66,7 @@ export const GET = withApiLogging(async (request: Request) => {
     })
     
     // Exchange authorization code for access token
-    const tokenResponse = await fetch('https://accounts.spotify.com/api/token', {
+    const tokenResponse = await externalFetch('https://accounts.spotify.com/api/token', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -94,17 +96,19 @@ export const GET = withApiLogging(async (request: Request) => {
     }
 
     const tokenData = await tokenResponse.json()
-    const { access_token, refresh_token, expires_in } = tokenData
+    const { access_token, refresh_token, expires_in, scope } = tokenData
 
     logInfo('Token exchange successful', {
       component: 'auth.callback',
       hasAccessToken: !!access_token,
       hasRefreshToken: !!refresh_token,
       expiresIn: expires_in,
+      scope,
     })
 
     // Store tokens in cookies
-    const response = NextResponse.redirect(new URL('/playlists', request.url))
+    const redirectPath = getSafeReturnPath(cookieStore.get('auth_return_to')?.value, request.url) || '/playlists'
+    const response = NextResponse.redirect(new URL(redirectPath, request.url))
     const isProduction = process.env.NODE_ENV === 'production'
     
     response.cookies.set('access_token', access_token, {
@@ -125,8 +129,19 @@ export const GET = withApiLogging(async (request: Request) => {
       })
     }
 
-    // Clear code verifier
+    if (typeof scope === 'string') {
+      response.cookies.set(SPOTIFY_SCOPES_COOKIE, scope, {
+        maxAge: 60 * 60 * 24 * 365, // 1 year
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: isProduction,
+        path: '/',
+      })
+    }
+
+    // Clear code verifier and post-login destination
     response.cookies.delete('code_verifier')
+    response.cookies.delete('auth_return_to')
 
     return response
   } catch (error) {
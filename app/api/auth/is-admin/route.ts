@@ -1,6 +1,7 @@
-import { NextResponse } from 'next/server'
 import { isAdminUser, isSuperAdminUser } from '@/lib/analytics'
 import { logError, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 
@@ -8,10 +9,10 @@ export const GET = withApiLogging(async () => {
   try {
     const isAdmin = await isAdminUser()
     const isSuperAdmin = await isSuperAdminUser()
-    return NextResponse.json({ isAdmin, isSuperAdmin })
+    return contractJson(apiContracts.getAdminStatus, { isAdmin, isSuperAdmin })
   } catch (error) {
     logError(error, { component: 'auth.is-admin' })
-    return NextResponse.json({ isAdmin: false, isSuperAdmin: false })
+    return contractJson(apiContracts.getAdminStatus, { isAdmin: false, isSuperAdmin: false })
   }
 })
 
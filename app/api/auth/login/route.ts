@@ -1,8 +1,10 @@
 import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
 import crypto from 'crypto'
 import { logInfo, withApiLogging } from '@/lib/logger'
+import { getSafeReturnPath, SPOTIFY_READ_SCOPES, SPOTIFY_SCOPES_COOKIE, SPOTIFY_WRITE_SCOPES } from '@/lib/spotify'
 
-export const GET = withApiLogging(async () => {
+export const GET = withApiLogging(async (request: Request) => {
   const clientId = process.env.SPOTIFY_CLIENT_ID
   const redirectUri = process.env.SPOTIFY_REDIRECT_URI || 'https://searchmyplaylist.delman.it/api/auth/callback'
   
@@ -13,6 +15,16 @@ export const GET = withApiLogging(async () => {
     )
   }
 
+  // Incremental scope upgrade: ?scope=write adds the playlist-modify scopes,
+  // and scopes granted in an earlier session are kept on re-login
+  const { searchParams } = new URL(request.url)
+  const cookieStore = await cookies()
+  const previouslyGranted = (cookieStore.get(SPOTIFY_SCOPES_COOKIE)?.value || '').split(' ')
+  const wantsWrite = searchParams.get('scope') === 'write'
+    || SPOTIFY_WRITE_SCOPES.every((scope) => previouslyGranted.includes(scope))
+  const scopes = wantsWrite ? [...SPOTIFY_READ_SCOPES, ...SPOTIFY_WRITE_SCOPES] : SPOTIFY_READ_SCOPES
+  const returnTo = getSafeReturnPath(searchParams.get('returnTo'), request.url)
+
   // Generate PKCE code verifier and challenge
   const codeVerifier = crypto.randomBytes(32).toString('base64url')
   const codeChallenge = crypto
@@ -26,7 +38,7 @@ export const GET = withApiLogging(async () => {
     `client_id=${clientId}&` +
     `response_type=code&` +
     `redirect_uri=${encodeURIComponent(redirectUri)}&` +
-    `scope=playlist-read-private playlist-read-collaborative&` +
+    `scope=${encodeURIComponent(scopes.join(' '))}&` +
     `code_challenge_method=S256&` +
     `code_challenge=${codeChallenge}`
   )
@@ -41,9 +53,21 @@ export const GET = withApiLogging(async () => {
     path: '/',
   })
 
+  // Only same-origin paths are accepted as post-login destinations
+  if (returnTo) {
+    response.cookies.set('auth_return_to', returnTo, {
+      maxAge: 30 * 60,
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: isProduction,
+      path: '/',
+    })
+  }
+
   logInfo('Auth login initiated', {
     component: 'auth.login',
     redirectUri,
+    scopes,
   })
 
   return response
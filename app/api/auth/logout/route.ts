@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { logInfo, withApiLogging } from '@/lib/logger'
+import { SPOTIFY_SCOPES_COOKIE } from '@/lib/spotify'
 
 const handleLogout = async (request: Request) => {
   const response = NextResponse.redirect(new URL('/', request.url))
@@ -8,6 +9,7 @@ const handleLogout = async (request: Request) => {
   response.cookies.delete('access_token')
   response.cookies.delete('refresh_token')
   response.cookies.delete('code_verifier')
+  response.cookies.delete(SPOTIFY_SCOPES_COOKIE)
 
   logInfo('Auth logout', { component: 'auth.logout' })
 
@@ -2,14 +2,25 @@ import { NextResponse } from 'next/server'
 import { logInfo, withApiLogging } from '@/lib/logger'
 
 const handleReauthorize = async (request: Request) => {
-  // Clear all auth cookies
-  const response = NextResponse.redirect(new URL('/api/auth/login', request.url))
+  // Clear all auth cookies, forwarding any scope upgrade / return path to login
+  const { searchParams } = new URL(request.url)
+  const loginUrl = new URL('/api/auth/login', request.url)
+  for (const param of ['scope', 'returnTo']) {
+    const value = searchParams.get(param)
+    if (value) {
+      loginUrl.searchParams.set(param, value)
+    }
+  }
+  const response = NextResponse.redirect(loginUrl)
   
   response.cookies.delete('access_token')
   response.cookies.delete('refresh_token')
   response.cookies.delete('code_verifier')
 
-  logInfo('Auth reauthorize initiated', { component: 'auth.reauthorize' })
+  logInfo('Auth reauthorize initiated', {
+    component: 'auth.reauthorize',
+    scope: searchParams.get('scope') || 'read',
+  })
   
   return response
 }
@@ -1,6 +1,8 @@
-import { NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import { logError, logInfo, logWarning, withApiLogging } from '@/lib/logger'
+import { externalFetch } from '@/lib/externalFetch'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 export const maxDuration = 15
@@ -11,7 +13,7 @@ export const GET = withApiLogging(async () => {
   const refreshToken = cookieStore.get('refresh_token')?.value
 
   if (!accessToken && !refreshToken) {
-    return NextResponse.json({ authenticated: false })
+    return contractJson(apiContracts.getAuthStatus, { authenticated: false })
   }
 
   // Try to get user info with current access token
@@ -31,7 +33,7 @@ export const GET = withApiLogging(async () => {
         })
         const refreshController = new AbortController()
         const refreshTimeoutId = setTimeout(() => refreshController.abort(), REQUEST_TIMEOUT_MS)
-        const refreshResponse = await fetch('https://accounts.spotify.com/api/token', {
+        const refreshResponse = await externalFetch('https://accounts.spotify.com/api/token', {
           method: 'POST',
           signal: refreshController.signal,
           headers: {
@@ -71,7 +73,7 @@ export const GET = withApiLogging(async () => {
     try {
       const meController = new AbortController()
       const meTimeoutId = setTimeout(() => meController.abort(), REQUEST_TIMEOUT_MS)
-      const response = await fetch('https://api.spotify.com/v1/me', {
+      const response = await externalFetch('https://api.spotify.com/v1/me', {
         signal: meController.signal,
         headers: {
           Authorization: `Bearer ${tokenToUse}`,
@@ -81,7 +83,7 @@ export const GET = withApiLogging(async () => {
 
       if (response.ok) {
         const user = await response.json()
-        return NextResponse.json({
+        return contractJson(apiContracts.getAuthStatus, {
           authenticated: true,
           user: {
             id: user.id,
@@ -102,11 +104,11 @@ export const GET = withApiLogging(async () => {
 
   // If we have refresh token but couldn't get user info, still consider authenticated
   if (refreshToken) {
-    return NextResponse.json({
+    return contractJson(apiContracts.getAuthStatus, {
       authenticated: true,
       needsRefresh: true,
     })
   }
 
-  return NextResponse.json({ authenticated: false })
+  return contractJson(apiContracts.getAuthStatus, { authenticated: false })
 })
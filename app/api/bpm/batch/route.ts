@@ -3,6 +3,8 @@ import { query } from '@/lib/db'
 import { ensureSuccessfulPreviewUrlForTrack } from '@/lib/bpm'
 import { trackApiRequest, getCurrentUserId } from '@/lib/analytics'
 import { logError, logInfo, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 
@@ -33,6 +35,12 @@ interface CacheRecord {
   isrc_mismatch: boolean
   isrc_mismatch_review_status: string | null
   debug_txt: string | null
+  loudness_lufs: number | null
+  energy: number | null
+  danceability: number | null
+  onset_density: number | null
+  intro_seconds: number | null
+  outro_seconds: number | null
 }
 
 // Helper function to get the selected BPM value from a cache record
@@ -63,6 +71,18 @@ function getSelectedKey(record: CacheRecord): { key: string | null; scale: strin
   return { key: null, scale: null }
 }
 
+// Helper function to get the audio features (energy, loudness, ...) from a cache record
+function getAudioFeatures(record: CacheRecord) {
+  return {
+    loudnessLufs: record.loudness_lufs,
+    energy: record.energy,
+    danceability: record.danceability,
+    onsetDensity: record.onset_density,
+    introSeconds: record.intro_seconds,
+    outroSeconds: record.outro_seconds,
+  }
+}
+
 // Cache TTL: 90 days
 const CACHE_TTL_DAYS = 90
 
@@ -71,16 +91,12 @@ export const POST = withApiLogging(async (request: Request) => {
   let trackIds: string[] | undefined
   
   try {
-    const body = await request.json()
-    trackIds = body.trackIds
-
-    if (!Array.isArray(trackIds) || trackIds.length === 0) {
+    const parsed = await parseApiRequest(apiContracts.getBpmBatch, request)
+    if (!parsed.ok) {
       trackApiRequest(userId, '/api/bpm/batch', 'POST', 400).catch(() => {})
-      return NextResponse.json(
-        { error: 'trackIds array is required' },
-        { status: 400 }
-      )
+      return parsed.response
     }
+    trackIds = parsed.body.trackIds
 
     // Limit batch size to prevent abuse
     const limitedTrackIds = trackIds.slice(0, 100)
@@ -101,7 +117,8 @@ export const POST = withApiLogging(async (request: Request) => {
         key_librosa, scale_librosa, keyscale_confidence_librosa,
         bpm_selected, bpm_manual, key_selected, key_manual, scale_manual,
         source, error, updated_at, urls, isrc_mismatch, isrc_mismatch_review_status,
-        debug_txt
+        debug_txt,
+        loudness_lufs, energy, danceability, onset_density, intro_seconds, outro_seconds
        FROM track_bpm_cache 
        WHERE spotify_track_id = ANY($1)`,
       [limitedTrackIds]
@@ -172,6 +189,13 @@ export const POST = withApiLogging(async (request: Request) => {
       keyManual?: string | null
       scaleManual?: string | null
       debugTxt?: string | null
+      // Audio features
+      loudnessLufs?: number | null
+      energy?: number | null
+      danceability?: number | null
+      onsetDensity?: number | null
+      introSeconds?: number | null
+      outroSeconds?: number | null
     }> = {}
 
     // Helper to parse urls from JSONB
@@ -252,6 +276,7 @@ export const POST = withApiLogging(async (request: Request) => {
           keyManual: cached.key_manual,
           scaleManual: cached.scale_manual,
           debugTxt: cached.debug_txt,
+          ...getAudioFeatures(cached),
         }
       } else if (errorRecord) {
         // Has error record - return error info even if expired
@@ -300,6 +325,7 @@ export const POST = withApiLogging(async (request: Request) => {
           keyManual: errorRecord.key_manual,
           scaleManual: errorRecord.scale_manual,
           debugTxt: errorRecord.debug_txt,
+          ...getAudioFeatures(errorRecord),
         }
       } else if (allCached) {
         // Cached but expired or has ISRC mismatch - return basic info
@@ -348,6 +374,7 @@ export const POST = withApiLogging(async (request: Request) => {
           keyManual: allCached.key_manual,
           scaleManual: allCached.scale_manual,
           debugTxt: allCached.debug_txt,
+          ...getAudioFeatures(allCached),
         }
       } else {
         // Return null to indicate not cached (frontend can fetch individually if needed)
@@ -366,7 +393,7 @@ export const POST = withApiLogging(async (request: Request) => {
     })
     trackApiRequest(userId, '/api/bpm/batch', 'POST', 200).catch(() => {})
     
-    return NextResponse.json({ results })
+    return contractJson(apiContracts.getBpmBatch, { results })
   } catch (error) {
     logError(error, {
       component: 'api.bpm.batch',
@@ -1,7 +1,8 @@
-import { NextResponse } from 'next/server'
 import { query } from '@/lib/db'
 import { getCurrentUserId, trackApiRequest } from '@/lib/analytics'
 import { withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 
@@ -70,13 +71,12 @@ const CACHE_TTL_DAYS = 90
 
 export const POST = withApiLogging(async (request: Request) => {
   const userId = await getCurrentUserId()
-  const body = await request.json().catch(() => ({}))
-  const isrcs = Array.isArray(body?.isrcs) ? body.isrcs.filter((value: any) => typeof value === 'string') : []
-
-  if (isrcs.length === 0) {
+  const parsed = await parseApiRequest(apiContracts.getBpmByIsrcBatch, request)
+  if (!parsed.ok) {
     trackApiRequest(userId, '/api/bpm/by-isrc/batch', 'POST', 400).catch(() => {})
-    return NextResponse.json({ error: 'isrcs array is required' }, { status: 400 })
+    return parsed.response
   }
+  const { isrcs } = parsed.body
 
   const limitedIsrcs = isrcs.slice(0, 200)
   const rows = await query<CacheRecord>(
@@ -170,5 +170,5 @@ export const POST = withApiLogging(async (request: Request) => {
   }
 
   trackApiRequest(userId, '/api/bpm/by-isrc/batch', 'POST', 200).catch(() => {})
-  return NextResponse.json({ results })
+  return contractJson(apiContracts.getBpmByIsrcBatch, { results })
 })
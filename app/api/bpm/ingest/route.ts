@@ -2,40 +2,20 @@ import { NextResponse } from 'next/server'
 import { storeStreamingBpmResult } from '@/lib/bpm'
 import { trackApiRequest, getCurrentUserId } from '@/lib/analytics'
 import { logError, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 
 export const POST = withApiLogging(async (request: Request) => {
   const userId = await getCurrentUserId()
   try {
-    const body = await request.json()
-    const trackId = body.trackId
-    const result = body.result
-    const previewMeta = body.previewMeta
-
-    if (!trackId || typeof trackId !== 'string') {
-      trackApiRequest(userId, '/api/bpm/ingest', 'POST', 400).catch(() => {})
-      return NextResponse.json(
-        { error: 'trackId is required' },
-        { status: 400 }
-      )
-    }
-
-    if (!result || typeof result !== 'object') {
-      trackApiRequest(userId, '/api/bpm/ingest', 'POST', 400).catch(() => {})
-      return NextResponse.json(
-        { error: 'result is required' },
-        { status: 400 }
-      )
-    }
-
-    if (!previewMeta || typeof previewMeta !== 'object' || typeof previewMeta.source !== 'string') {
+    const parsed = await parseApiRequest(apiContracts.ingestBpmResult, request)
+    if (!parsed.ok) {
       trackApiRequest(userId, '/api/bpm/ingest', 'POST', 400).catch(() => {})
-      return NextResponse.json(
-        { error: 'previewMeta with source is required' },
-        { status: 400 }
-      )
+      return parsed.response
     }
+    const { trackId, result, previewMeta } = parsed.body
 
     await storeStreamingBpmResult({
       spotifyTrackId: trackId,
@@ -44,7 +24,7 @@ export const POST = withApiLogging(async (request: Request) => {
     })
 
     trackApiRequest(userId, '/api/bpm/ingest', 'POST', 200).catch(() => {})
-    return NextResponse.json({ ok: true })
+    return contractJson(apiContracts.ingestBpmResult, { ok: true })
   } catch (error) {
     logError(error, {
       component: 'api.bpm.ingest',
@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server'
+import { enqueueBpmJobs, getBpmJobProgress } from '@/lib/bpmJobs'
+import { canAccessPlaylist, getPlaylistTracks } from '@/lib/spotify'
+import { AuthenticationError } from '@/lib/errors'
+import { trackApiRequest, getCurrentUserId } from '@/lib/analytics'
+import { logError, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 25
+
+/**
+ * Queue background BPM analysis for playlist tracks.
+ * Body: { playlistId, trackIds?, country? } - all playlist tracks when trackIds is omitted.
+ * Tracks not found in the playlist are returned as `skipped`.
+ */
+export const POST = withApiLogging(async (request: Request) => {
+  const userId = await getCurrentUserId()
+  const endpoint = '/api/bpm/jobs'
+
+  const parsed = await parseApiRequest(apiContracts.queueBpmJobs, request)
+  if (!parsed.ok) {
+    trackApiRequest(userId, endpoint, 'POST', 400).catch(() => {})
+    return parsed.response
+  }
+
+  if (!userId) {
+    trackApiRequest(userId, endpoint, 'POST', 401).catch(() => {})
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { playlistId, trackIds, country: countryCode } = parsed.body
+    if (!(await canAccessPlaylist(playlistId))) {
+      trackApiRequest(userId, endpoint, 'POST', 403).catch(() => {})
+      return NextResponse.json({ error: 'You do not have access to this playlist' }, { status: 403 })
+    }
+
+    const playlistTracks = await getPlaylistTracks(playlistId)
+    const tracksById = new Map(playlistTracks.filter((track: any) => track?.id).map((track: any) => [track.id, track]))
+    const requestedIds: string[] = trackIds ?? Array.from(tracksById.keys())
+    const tracks = requestedIds.map((id) => tracksById.get(id)).filter(Boolean)
+    const skipped = requestedIds.filter((id) => !tracksById.has(id))
+
+    const queued = await enqueueBpmJobs({
+      playlistId,
+      tracks,
+      countryCode,
+      requestedBy: userId,
+    })
+
+    trackApiRequest(userId, endpoint, 'POST', 200).catch(() => {})
+    return contractJson(apiContracts.queueBpmJobs, { queued, skipped })
+  } catch (error) {
+    if (error instanceof AuthenticationError || (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('No access token') || error.message.includes('Please log in')))) {
+      logError(error, {
+        component: 'api.bpm.jobs',
+        status: 401,
+        errorType: 'AuthenticationError',
+      })
+      trackApiRequest(userId, endpoint, 'POST', 401).catch(() => {})
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    logError(error, {
+      component: 'api.bpm.jobs',
+      userId: userId || 'anonymous',
+      status: 500,
+      errorType: 'Unknown',
+    })
+    trackApiRequest(userId, endpoint, 'POST', 500).catch(() => {})
+    return NextResponse.json({ error: 'Failed to queue BPM jobs' }, { status: 500 })
+  }
+})
+
+/**
+ * Job progress for a playlist: ?playlistId=<id>&since=<checkedAt from the previous poll>
+ */
+export const GET = withApiLogging(async (request: Request) => {
+  const userId = await getCurrentUserId()
+  const endpoint = '/api/bpm/jobs'
+
+  const parsed = await parseApiRequest(apiContracts.getBpmJobProgress, request)
+  if (!parsed.ok) {
+    trackApiRequest(userId, endpoint, 'GET', 400).catch(() => {})
+    return parsed.response
+  }
+
+  // Job rows come from the shared database, so check the caller can see the playlist on Spotify first
+  if (!userId) {
+    trackApiRequest(userId, endpoint, 'GET', 401).catch(() => {})
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { playlistId } = parsed.query
+    if (!(await canAccessPlaylist(playlistId))) {
+      trackApiRequest(userId, endpoint, 'GET', 403).catch(() => {})
+      return NextResponse.json({ error: 'You do not have access to this playlist' }, { status: 403 })
+    }
+    const since = parsed.query.since ? new Date(parsed.query.since) : null
+
+    const progress = await getBpmJobProgress(playlistId, since)
+    trackApiRequest(userId, endpoint, 'GET', 200).catch(() => {})
+    return contractJson(apiContracts.getBpmJobProgress, progress)
+  } catch (error) {
+    if (error instanceof AuthenticationError || (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('No access token') || error.message.includes('Please log in')))) {
+      logError(error, {
+        component: 'api.bpm.jobs',
+        status: 401,
+        errorType: 'AuthenticationError',
+      })
+      trackApiRequest(userId, endpoint, 'GET', 401).catch(() => {})
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    logError(error, {
+      component: 'api.bpm.jobs',
+      userId: userId || 'anonymous',
+      status: 500,
+      errorType: 'Unknown',
+    })
+    trackApiRequest(userId, endpoint, 'GET', 500).catch(() => {})
+    return NextResponse.json({ error: 'Failed to load BPM job progress' }, { status: 500 })
+  }
+})
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { runBpmJobWorker } from '@/lib/bpmJobs'
+import { isAdminUser } from '@/lib/analytics'
+import { logError, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson } from '@/lib/apiRoute'
+
+export const dynamic = 'force-dynamic'
+// Each run drains the queue for up to this long (Vercel Pro allows up to 300s)
+export const maxDuration = 300
+
+const WORKER_BUDGET_MS = (maxDuration - 20) * 1000
+
+/**
+ * Drain the BPM job queue. Called by the Vercel cron (Authorization: Bearer CRON_SECRET)
+ * or manually by an admin.
+ */
+export const GET = withApiLogging(async (request: Request) => {
+  const cronSecret = process.env.CRON_SECRET
+  const isCron = Boolean(cronSecret) && request.headers.get('authorization') === `Bearer ${cronSecret}`
+  if (!isCron && !(await isAdminUser())) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const summary = await runBpmJobWorker({ maxDurationMs: WORKER_BUDGET_MS })
+    return contractJson(apiContracts.runBpmJobWorker, summary)
+  } catch (error) {
+    logError(error, {
+      component: 'api.bpm.jobs.worker',
+      trigger: isCron ? 'cron' : 'admin',
+      status: 500,
+    })
+    return NextResponse.json({ error: 'BPM job worker failed' }, { status: 500 })
+  }
+})
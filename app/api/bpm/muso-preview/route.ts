@@ -4,18 +4,19 @@ import { getTrack } from '@/lib/spotify'
 import { getTrackDetailsByIsrc, hasMusoApiKey } from '@/lib/muso'
 import { getCurrentUserId, trackApiRequest } from '@/lib/analytics'
 import { withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 
 export const POST = withApiLogging(async (request: Request) => {
   const userId = await getCurrentUserId()
-  const body = await request.json().catch(() => ({}))
-  const spotifyTrackId = typeof body?.spotifyTrackId === 'string' ? body.spotifyTrackId.trim() : ''
-
-  if (!spotifyTrackId) {
+  const parsed = await parseApiRequest(apiContracts.computeMusoPreviewBpm, request)
+  if (!parsed.ok) {
     trackApiRequest(userId, '/api/bpm/muso-preview', 'POST', 400).catch(() => {})
-    return NextResponse.json({ error: 'spotifyTrackId is required' }, { status: 400 })
+    return parsed.response
   }
+  const { spotifyTrackId } = parsed.body
 
   if (!hasMusoApiKey()) {
     trackApiRequest(userId, '/api/bpm/muso-preview', 'POST', 400).catch(() => {})
@@ -50,7 +51,7 @@ export const POST = withApiLogging(async (request: Request) => {
     })
 
     trackApiRequest(userId, '/api/bpm/muso-preview', 'POST', 200).catch(() => {})
-    return NextResponse.json(result)
+    return contractJson(apiContracts.computeMusoPreviewBpm, result)
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to compute BPM via Muso preview'
     trackApiRequest(userId, '/api/bpm/muso-preview', 'POST', 500).catch(() => {})
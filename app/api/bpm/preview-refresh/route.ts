@@ -2,19 +2,19 @@ import { NextResponse } from 'next/server'
 import { refreshPreviewUrlsForTrack } from '@/lib/bpm'
 import { getCurrentUserId, trackApiRequest } from '@/lib/analytics'
 import { logError, logInfo, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 
 export const GET = withApiLogging(async (request: Request) => {
-  const { searchParams } = new URL(request.url)
-  const spotifyTrackId = searchParams.get('spotifyTrackId')
-  const countryParam = searchParams.get('country')
   const userId = await getCurrentUserId()
-
-  if (!spotifyTrackId) {
+  const parsed = await parseApiRequest(apiContracts.refreshPreviewUrls, request)
+  if (!parsed.ok) {
     trackApiRequest(userId, '/api/bpm/preview-refresh', 'GET', 400).catch(() => {})
-    return NextResponse.json({ error: 'spotifyTrackId parameter is required' }, { status: 400 })
+    return parsed.response
   }
+  const { spotifyTrackId, country: countryParam } = parsed.query
 
   try {
     logInfo('Refreshing preview URL via ISRC', {
@@ -38,7 +38,7 @@ export const GET = withApiLogging(async (request: Request) => {
 
     const result = await refreshPreviewUrlsForTrack(spotifyTrackId, modifiedRequest)
     trackApiRequest(userId, '/api/bpm/preview-refresh', 'GET', 200).catch(() => {})
-    return NextResponse.json(result)
+    return contractJson(apiContracts.refreshPreviewUrls, result)
   } catch (error) {
     logError(error, {
       component: 'api.bpm.preview-refresh',
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { sweepExpiringPreviewUrls } from '@/lib/previewExpiry'
+import { isAdminUser } from '@/lib/analytics'
+import { logError, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson } from '@/lib/apiRoute'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+const SWEEP_BUDGET_MS = (maxDuration - 20) * 1000
+
+/**
+ * Refresh cached preview URLs whose signed tokens are about to expire. Called
+ * by the Vercel cron (Authorization: Bearer CRON_SECRET) or manually by an admin.
+ */
+export const GET = withApiLogging(async (request: Request) => {
+  const cronSecret = process.env.CRON_SECRET
+  const isCron = Boolean(cronSecret) && request.headers.get('authorization') === `Bearer ${cronSecret}`
+  if (!isCron && !(await isAdminUser())) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const summary = await sweepExpiringPreviewUrls({ maxDurationMs: SWEEP_BUDGET_MS })
+    return contractJson(apiContracts.sweepPreviewUrls, summary)
+  } catch (error) {
+    logError(error, {
+      component: 'api.bpm.preview-refresh.sweep',
+      trigger: isCron ? 'cron' : 'admin',
+      status: 500,
+    })
+    return NextResponse.json({ error: 'Preview URL sweep failed' }, { status: 500 })
+  }
+})
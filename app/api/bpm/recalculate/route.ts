@@ -3,6 +3,8 @@ import { query } from '@/lib/db'
 import { getCurrentUserId } from '@/lib/analytics'
 import { logError, logInfo, withApiLogging } from '@/lib/logger'
 import { getPlaylistTracks } from '@/lib/spotify'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 // Increase max duration for large playlists (Vercel Pro allows up to 300s)
@@ -12,20 +14,16 @@ export const POST = withApiLogging(async (request: Request) => {
   const userId = await getCurrentUserId()
   
   try {
-    const body = await request.json()
-    const { playlistId, trackIds: providedTrackIds } = body
-
-    if (!playlistId && !providedTrackIds) {
-      logError(new Error('playlistId or trackIds is required'), {
+    const parsed = await parseApiRequest(apiContracts.recalculateBpm, request)
+    if (!parsed.ok) {
+      logError(new Error('Invalid recalculate request'), {
         component: 'api.bpm.recalculate',
         userId: userId || 'anonymous',
         status: 400,
       })
-      return NextResponse.json(
-        { error: 'playlistId or trackIds is required' },
-        { status: 400 }
-      )
+      return parsed.response
     }
+    const { playlistId, trackIds: providedTrackIds } = parsed.body
 
     logInfo('Recalculating BPM/key/scale for playlist', {
       component: 'api.bpm.recalculate',
@@ -78,7 +76,7 @@ export const POST = withApiLogging(async (request: Request) => {
     }
 
     if (trackIds.length === 0) {
-      return NextResponse.json({
+      return contractJson(apiContracts.recalculateBpm, {
         success: true,
         message: 'No tracks found in playlist',
         cleared: 0,
@@ -113,7 +111,7 @@ export const POST = withApiLogging(async (request: Request) => {
       skipped,
     })
 
-    return NextResponse.json({
+    return contractJson(apiContracts.recalculateBpm, {
       success: true,
       message: `Cache cleared for ${deletedCount} tracks${skipped > 0 ? ` (${skipped} skipped due to limit)` : ''}. BPM/key/scale will be recalculated on next access.`,
       cleared: deletedCount,
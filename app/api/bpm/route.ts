@@ -2,28 +2,26 @@ import { NextResponse } from 'next/server'
 import { getBpmForSpotifyTrack } from '@/lib/bpm'
 import { trackApiRequest, getCurrentUserId } from '@/lib/analytics'
 import { logError, logInfo, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
+import { formatSchemaIssues } from '@/lib/apiSchema'
 
 export const dynamic = 'force-dynamic'
 
 export const GET = withApiLogging(async (request: Request) => {
-  const { searchParams } = new URL(request.url)
-  const spotifyTrackId = searchParams.get('spotifyTrackId')
-  const countryParam = searchParams.get('country')
   const userId = await getCurrentUserId()
-
-  if (!spotifyTrackId) {
-    const error = new Error('spotifyTrackId parameter is required')
-    logError(error, {
+  const parsed = await parseApiRequest(apiContracts.getBpm, request)
+  if (!parsed.ok) {
+    logError(new Error('Invalid BPM request'), {
       component: 'api.bpm',
       userId: userId || 'anonymous',
       status: 400,
+      issues: formatSchemaIssues(parsed.issues),
     })
     trackApiRequest(userId, '/api/bpm', 'GET', 400).catch(() => {})
-    return NextResponse.json(
-      { error: 'spotifyTrackId parameter is required' },
-      { status: 400 }
-    )
+    return parsed.response
   }
+  const { spotifyTrackId, country: countryParam } = parsed.query
 
   try {
     logInfo('Fetching BPM for track', {
@@ -59,7 +57,7 @@ export const GET = withApiLogging(async (request: Request) => {
     })
     
     trackApiRequest(userId, '/api/bpm', 'GET', 200).catch(() => {})
-    return NextResponse.json(result)
+    return contractJson(apiContracts.getBpm, result)
   } catch (error) {
     logError(error, {
       component: 'api.bpm',
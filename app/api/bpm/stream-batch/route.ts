@@ -1,7 +1,10 @@
 import { NextResponse } from 'next/server'
-import { getIdentityToken, prepareBpmStreamingBatch } from '@/lib/bpm'
+import { getBpmAnalyzer, prepareBpmStreamingBatch } from '@/lib/bpm'
+import { registerStreamBatch } from '@/lib/bpmStreamBuffer'
 import { trackApiRequest, getCurrentUserId } from '@/lib/analytics'
 import { logError, logInfo, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 
@@ -10,36 +13,18 @@ const BPM_SERVICE_URL = process.env.BPM_SERVICE_URL || 'https://bpm-service-7jlg
 export const POST = withApiLogging(async (request: Request) => {
   const userId = await getCurrentUserId()
   try {
-    const body = await request.json()
-    const trackIds = body.trackIds
-    const countryCode = typeof body.country === 'string' ? body.country : undefined
-    const rawDebugLevel = typeof body.debug_level === 'string' ? body.debug_level.trim() : ''
-    const debugLevel = rawDebugLevel || 'minimal'
-    const rawMaxConfidence = typeof body.max_confidence === 'number' ? body.max_confidence : NaN
-    const maxConfidence = Number.isFinite(rawMaxConfidence)
-      ? Math.min(Math.max(rawMaxConfidence, 0), 1)
-      : 0.65
-    const rawFallbackOverride = typeof body.fallback_override === 'string' ? body.fallback_override : undefined
-    const allowedFallbackOverrides = new Set([
-      'never',
-      'always',
-      'bpm_only',
-      'key_only',
-      'fallback_only',
-      'fallback_only_bpm',
-      'fallback_only_key',
-    ])
-    const fallbackOverride = rawFallbackOverride && allowedFallbackOverrides.has(rawFallbackOverride)
-      ? rawFallbackOverride
-      : undefined
-
-    if (!Array.isArray(trackIds) || trackIds.length === 0) {
+    const parsed = await parseApiRequest(apiContracts.startBpmStreamBatch, request)
+    if (!parsed.ok) {
       trackApiRequest(userId, '/api/bpm/stream-batch', 'POST', 400).catch(() => {})
-      return NextResponse.json(
-        { error: 'trackIds array is required' },
-        { status: 400 }
-      )
+      return parsed.response
     }
+    const {
+      trackIds,
+      country: countryCode,
+      max_confidence: maxConfidence,
+      fallback_override: fallbackOverride,
+    } = parsed.body
+    const debugLevel = parsed.body.debug_level || 'minimal'
 
     logInfo('Preparing streaming BPM batch', {
       component: 'api.bpm.stream-batch',
@@ -56,7 +41,7 @@ export const POST = withApiLogging(async (request: Request) => {
 
     if (urls.length === 0) {
       trackApiRequest(userId, '/api/bpm/stream-batch', 'POST', 200).catch(() => {})
-      return NextResponse.json({
+      return contractJson(apiContracts.startBpmStreamBatch, {
         batchId: null,
         indexToTrackId,
         previewMeta,
@@ -64,43 +49,29 @@ export const POST = withApiLogging(async (request: Request) => {
       })
     }
 
-    const idToken = await getIdentityToken(BPM_SERVICE_URL)
-    const requestBody: Record<string, unknown> = {
-      urls,
-      max_confidence: maxConfidence,
-      debug_level: debugLevel,
-    }
-    if (fallbackOverride) {
-      requestBody.fallback_override = fallbackOverride
-    }
-
+    const analyzer = getBpmAnalyzer(BPM_SERVICE_URL)
     const start = Date.now()
-    const response = await fetch(`${BPM_SERVICE_URL}/analyze/batch`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${idToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
+    const { batchId } = await analyzer.submitBatch(urls, {
+      maxConfidence,
+      debugLevel,
+      fallbackOverride,
     })
     const durationMs = Date.now() - start
     logInfo('BPM batch request completed', {
       component: 'api.bpm.stream-batch',
-      status: response.status,
+      analyzer: analyzer.name,
       durationMs,
       trackCount: urls.length,
     })
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      throw new Error(`BPM service error: ${response.status} ${errorText}`)
+    if (batchId) {
+      await registerStreamBatch(batchId, indexToTrackId, urls.length)
     }
 
-    const data = await response.json()
     trackApiRequest(userId, '/api/bpm/stream-batch', 'POST', 200).catch(() => {})
 
-    return NextResponse.json({
-      batchId: data.batch_id || null,
+    return contractJson(apiContracts.startBpmStreamBatch, {
+      batchId,
       indexToTrackId,
       previewMeta,
       immediateResults,
@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server'
+import { getBpmSuggestionSummary, resolveBpmSuggestion, submitBpmSuggestion } from '@/lib/bpmSuggestions'
+import { trackApiRequest, getCurrentUserId, isAdminUser } from '@/lib/analytics'
+import { logError, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Suggestion history and votes for a track: ?spotifyTrackId=<id>
+ */
+export const GET = withApiLogging(async (request: Request) => {
+  const userId = await getCurrentUserId()
+  const endpoint = '/api/bpm/suggestions'
+
+  const parsed = await parseApiRequest(apiContracts.getBpmSuggestions, request)
+  if (!parsed.ok) {
+    trackApiRequest(userId, endpoint, 'GET', 400).catch(() => {})
+    return parsed.response
+  }
+
+  try {
+    const { spotifyTrackId } = parsed.query
+    const isAdmin = userId ? await isAdminUser() : false
+    const summary = await getBpmSuggestionSummary({ spotifyTrackId, userId, includeUserIds: isAdmin })
+    trackApiRequest(userId, endpoint, 'GET', 200).catch(() => {})
+    return contractJson(apiContracts.getBpmSuggestions, summary)
+  } catch (error) {
+    logError(error, {
+      component: 'api.bpm.suggestions',
+      userId: userId || 'anonymous',
+      status: 500,
+      errorType: 'Unknown',
+    })
+    trackApiRequest(userId, endpoint, 'GET', 500).catch(() => {})
+    return NextResponse.json({ error: 'Failed to load BPM suggestions' }, { status: 500 })
+  }
+})
+
+/**
+ * Suggest a BPM and/or key for a track. Any signed-in user.
+ * Body: { spotifyTrackId, bpm?, key?, scale? } - key and scale go together.
+ * Returns the values auto-promoted to manual if enough users now agree.
+ */
+export const POST = withApiLogging(async (request: Request) => {
+  const userId = await getCurrentUserId()
+  const endpoint = '/api/bpm/suggestions'
+
+  if (!userId) {
+    trackApiRequest(userId, endpoint, 'POST', 401).catch(() => {})
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const parsed = await parseApiRequest(apiContracts.suggestBpm, request)
+  if (!parsed.ok) {
+    trackApiRequest(userId, endpoint, 'POST', 400).catch(() => {})
+    return parsed.response
+  }
+
+  try {
+    const { spotifyTrackId, bpm = null, key = null, scale = null } = parsed.body
+    const promoted = await submitBpmSuggestion({ spotifyTrackId, userId, bpm, key, scale })
+    trackApiRequest(userId, endpoint, 'POST', 200).catch(() => {})
+    return contractJson(apiContracts.suggestBpm, { ok: true, promoted })
+  } catch (error) {
+    logError(error, {
+      component: 'api.bpm.suggestions',
+      userId,
+      status: 500,
+      errorType: 'Unknown',
+    })
+    trackApiRequest(userId, endpoint, 'POST', 500).catch(() => {})
+    return NextResponse.json({ error: 'Failed to save BPM suggestion' }, { status: 500 })
+  }
+})
+
+/**
+ * Admin decision on a pending suggestion.
+ * Body: { suggestionId, action: 'accept' | 'reject' }
+ */
+export const PATCH = withApiLogging(async (request: Request) => {
+  const isAdmin = await isAdminUser()
+  if (!isAdmin) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  const parsed = await parseApiRequest(apiContracts.resolveBpmSuggestion, request)
+  if (!parsed.ok) return parsed.response
+  const { suggestionId, action } = parsed.body
+
+  const reviewerId = await getCurrentUserId()
+  try {
+    const result = await resolveBpmSuggestion({ suggestionId, action, reviewerId })
+    if (!result) {
+      return NextResponse.json({ error: 'Suggestion not found or already resolved' }, { status: 404 })
+    }
+    if (action === 'accept' && !result.applied) {
+      return NextResponse.json({ error: 'Track has no BPM data to update yet' }, { status: 409 })
+    }
+    return contractJson(apiContracts.resolveBpmSuggestion, { ok: true, ...result })
+  } catch (error) {
+    logError(error, {
+      component: 'api.bpm.suggestions',
+      userId: reviewerId || 'anonymous',
+      suggestionId,
+      status: 500,
+    })
+    return NextResponse.json({ error: 'Failed to resolve suggestion' }, { status: 500 })
+  }
+})
@@ -1,53 +1,25 @@
 import { NextResponse } from 'next/server'
 import { query } from '@/lib/db'
-import { getCurrentUserId } from '@/lib/analytics'
+import { getCurrentUserId, isAdminUser } from '@/lib/analytics'
 import { logError, logInfo, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 
 export const POST = withApiLogging(async (request: Request) => {
   const userId = await getCurrentUserId()
+
+  // Regular users suggest corrections through /api/bpm/suggestions instead
+  const isAdmin = await isAdminUser()
+  if (!isAdmin) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
   
   try {
-    const body = await request.json()
-    const { spotifyTrackId, bpmSelected, keySelected, bpmManual, keyManual, scaleManual } = body
-
-    if (!spotifyTrackId) {
-      return NextResponse.json(
-        { error: 'spotifyTrackId is required' },
-        { status: 400 }
-      )
-    }
-
-    // Validate selections
-    if (bpmSelected && !['essentia', 'librosa', 'manual'].includes(bpmSelected)) {
-      return NextResponse.json(
-        { error: 'bpmSelected must be essentia, librosa, or manual' },
-        { status: 400 }
-      )
-    }
-
-    if (keySelected && !['essentia', 'librosa', 'manual'].includes(keySelected)) {
-      return NextResponse.json(
-        { error: 'keySelected must be essentia, librosa, or manual' },
-        { status: 400 }
-      )
-    }
-
-    // If manual is selected, require manual values
-    if (bpmSelected === 'manual' && bpmManual == null) {
-      return NextResponse.json(
-        { error: 'bpmManual is required when bpmSelected is manual' },
-        { status: 400 }
-      )
-    }
-
-    if (keySelected === 'manual' && (!keyManual || !scaleManual)) {
-      return NextResponse.json(
-        { error: 'keyManual and scaleManual are required when keySelected is manual' },
-        { status: 400 }
-      )
-    }
+    const parsed = await parseApiRequest(apiContracts.updateBpmSelection, request)
+    if (!parsed.ok) return parsed.response
+    const { spotifyTrackId, bpmSelected, keySelected, bpmManual, keyManual, scaleManual } = parsed.body
 
     logInfo('Updating BPM selection', {
       component: 'api.bpm.update-selection',
@@ -59,7 +31,7 @@ export const POST = withApiLogging(async (request: Request) => {
 
     // Update the database
     const updates: string[] = []
-    const values: any[] = []
+    const values: Array<string | number | null> = []
     let paramIndex = 1
 
     if (bpmSelected !== undefined) {
@@ -87,13 +59,6 @@ export const POST = withApiLogging(async (request: Request) => {
       values.push(scaleManual)
     }
 
-    if (updates.length === 0) {
-      return NextResponse.json(
-        { error: 'No updates provided' },
-        { status: 400 }
-      )
-    }
-
     updates.push(`updated_at = NOW()`)
     values.push(spotifyTrackId)
 
@@ -105,7 +70,7 @@ export const POST = withApiLogging(async (request: Request) => {
 
     await query(updateQuery, values)
 
-    return NextResponse.json({ success: true })
+    return contractJson(apiContracts.updateBpmSelection, { success: true })
   } catch (error) {
     logError(error, {
       component: 'api.bpm.update-selection',
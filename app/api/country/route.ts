@@ -1,5 +1,6 @@
-import { NextResponse } from 'next/server'
 import { logError, logWarning, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 
@@ -71,9 +72,9 @@ export const GET = withApiLogging(async (request: Request) => {
       }
     }
 
-    return NextResponse.json({ countryCode })
+    return contractJson(apiContracts.getCountry, { countryCode })
   } catch (error) {
     logError(error, { component: 'api.country' })
-    return NextResponse.json({ countryCode: 'us' }, { status: 200 })
+    return contractJson(apiContracts.getCountry, { countryCode: 'us' })
   }
 })
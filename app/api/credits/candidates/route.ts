@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { findCreditCandidates } from '@/lib/creditCandidates'
+import { logError, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 25
+
+/**
+ * Candidate artists and profiles for a credits search name, for disambiguation
+ */
+export const GET = withApiLogging(async (request: Request) => {
+  const parsed = await parseApiRequest(apiContracts.getCreditCandidates, request)
+  if (!parsed.ok) return parsed.response
+  const { name } = parsed.query
+
+  try {
+    const candidates = await findCreditCandidates(name)
+    return contractJson(apiContracts.getCreditCandidates, candidates)
+  } catch (error) {
+    logError(error, { component: 'api.credits.candidates', name })
+    return NextResponse.json({ error: 'Failed to look up candidates' }, { status: 500 })
+  }
+})
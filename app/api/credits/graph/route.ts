@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { buildCreditGraph } from '@/lib/creditGraph'
+import { logError, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 25
+
+/**
+ * Collaboration graph for a person from the credits search
+ */
+export const GET = withApiLogging(async (request: Request) => {
+  const parsed = await parseApiRequest(apiContracts.getCreditGraph, request)
+  if (!parsed.ok) return parsed.response
+  const { name, yearFrom, yearTo, perRole, artistId, musoProfileId } = parsed.query
+
+  if (yearFrom !== undefined && yearTo !== undefined && yearFrom > yearTo) {
+    return NextResponse.json({ error: 'yearFrom must not be after yearTo' }, { status: 400 })
+  }
+
+  try {
+    const graph = await buildCreditGraph({ name, yearFrom, yearTo, perRole, artistId, musoProfileId })
+    return contractJson(apiContracts.getCreditGraph, graph)
+  } catch (error) {
+    logError(error, { component: 'api.credits.graph', name })
+    return NextResponse.json({ error: 'Failed to build collaboration graph' }, { status: 500 })
+  }
+})
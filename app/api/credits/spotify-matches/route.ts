@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { matchSpotifyTracks } from '@/lib/spotifyTrackMatch'
+import { AuthenticationError, RateLimitError } from '@/lib/errors'
+import { logError, logInfo, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 25
+
+/**
+ * Resolve a chunk of credit search results to Spotify tracks for the playlist builder
+ */
+export const POST = withApiLogging(async (request: Request) => {
+  const parsed = await parseApiRequest(apiContracts.matchCreditTracks, request)
+  if (!parsed.ok) return parsed.response
+  const { tracks } = parsed.body
+
+  try {
+    const matches = await matchSpotifyTracks(tracks)
+    logInfo('Matched credit tracks to Spotify', {
+      component: 'api.credits.spotify-matches',
+      requested: tracks.length,
+      matched: matches.filter((match) => match.spotifyTrackId).length,
+    })
+    return contractJson(apiContracts.matchCreditTracks, { matches })
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      logError(error, { component: 'api.credits.spotify-matches', status: 401, errorType: 'AuthenticationError' })
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof RateLimitError) {
+      logError(error, { component: 'api.credits.spotify-matches', status: 429, errorType: 'RateLimitError' })
+      return NextResponse.json(
+        { error: 'Spotify rate limit reached, try again shortly', retryAfter: error.retryAfter },
+        { status: 429 }
+      )
+    }
+    logError(error, { component: 'api.credits.spotify-matches', status: 500, errorType: 'Unknown' })
+    return NextResponse.json({ error: 'Failed to match tracks' }, { status: 500 })
+  }
+})
@@ -1,27 +1,28 @@
 import { NextResponse } from 'next/server'
 import { logError, logInfo, logWarning, withApiLogging } from '@/lib/logger'
+import { isDeezerApiUrl } from '@/lib/previewHosts'
+import { externalFetch } from '@/lib/externalFetch'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 
 export const GET = withApiLogging(async (request: Request) => {
-  const { searchParams } = new URL(request.url)
-  const apiUrl = searchParams.get('url')
+  const parsed = await parseApiRequest(apiContracts.resolveDeezerPreview, request)
+  if (!parsed.ok) {
+    logWarning('Deezer preview rejected invalid request', {
+      component: 'api.deezer-preview',
+      issues: parsed.issues.length,
+    })
+    return parsed.response
+  }
+  const apiUrl = parsed.query.url
 
   logInfo('Deezer preview request received', {
     component: 'api.deezer-preview',
     apiUrl,
   })
 
-  if (!apiUrl) {
-    logWarning('Deezer preview missing URL parameter', {
-      component: 'api.deezer-preview',
-    })
-    return NextResponse.json(
-      { error: 'URL parameter is required' },
-      { status: 400 }
-    )
-  }
-
   // Validate it's a Deezer API URL
-  if (!apiUrl.includes('api.deezer.com')) {
+  if (!isDeezerApiUrl(apiUrl)) {
     return NextResponse.json(
       { error: 'Invalid URL: must be a Deezer API URL' },
       { status: 400 }
@@ -33,7 +34,7 @@ export const GET = withApiLogging(async (request: Request) => {
       component: 'api.deezer-preview',
       apiUrl,
     })
-    const response = await fetch(apiUrl, {
+    const response = await externalFetch(apiUrl, {
       headers: {
         'User-Agent': 'python-requests/2.31.0', // Match Python requests default
         'Accept': '*/*',
@@ -100,7 +101,8 @@ export const GET = withApiLogging(async (request: Request) => {
       component: 'api.deezer-preview',
       apiUrl,
     })
-    return NextResponse.json(
+    return contractJson(
+      apiContracts.resolveDeezerPreview,
       { previewUrl },
       {
         headers: {
@@ -1,8 +1,9 @@
-import { NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import { withApiLogging, logError } from '@/lib/logger'
 import { getMusoUsageSnapshot } from '@/lib/muso'
 import { MB_BASE_URL, USER_AGENT } from '@/lib/musicbrainz'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 
@@ -123,5 +124,5 @@ export const GET = withApiLogging(async () => {
     getMusicBrainzHealth(),
   ])
 
-  return NextResponse.json({ spotify, muso, musicbrainz })
+  return contractJson(apiContracts.getServiceHealth, { spotify, muso, musicbrainz })
 })
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { getDuplicateReport } from '@/lib/duplicates'
+import { AuthenticationError } from '@/lib/errors'
+import { trackApiRequest, getCurrentUserId } from '@/lib/analytics'
+import { logError, logInfo, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson } from '@/lib/apiRoute'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 25
+
+/**
+ * Duplicate and near-duplicate recordings across the user's cached playlists,
+ * with the redundant entries of each playlist
+ */
+export const GET = withApiLogging(async () => {
+  const userId = await getCurrentUserId()
+
+  try {
+    const report = await getDuplicateReport()
+
+    logInfo('Duplicate report built', {
+      component: 'api.library.duplicates',
+      userId: userId || 'anonymous',
+      groups: report.groups.length,
+      playlistsWithDuplicates: report.playlists.length,
+      cachedPlaylists: report.cachedPlaylistCount,
+    })
+    trackApiRequest(userId, '/api/library/duplicates', 'GET', 200).catch(() => {})
+    return contractJson(apiContracts.getDuplicateReport, report)
+  } catch (error) {
+    if (error instanceof AuthenticationError || (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('No access token') || error.message.includes('Please log in')))) {
+      logError(error, {
+        component: 'api.library.duplicates',
+        userId: userId || 'anonymous',
+        status: 401,
+        errorType: 'AuthenticationError',
+      })
+      trackApiRequest(userId, '/api/library/duplicates', 'GET', 401).catch(() => {})
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    logError(error, {
+      component: 'api.library.duplicates',
+      userId: userId || 'anonymous',
+      status: 500,
+      errorType: 'Unknown',
+    })
+    trackApiRequest(userId, '/api/library/duplicates', 'GET', 500).catch(() => {})
+    return NextResponse.json({ error: 'Failed to build duplicate report' }, { status: 500 })
+  }
+})
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { getLibraryIndex } from '@/lib/library'
+import { AuthenticationError } from '@/lib/errors'
+import { trackApiRequest, getCurrentUserId } from '@/lib/analytics'
+import { logError, logInfo, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson } from '@/lib/apiRoute'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 25
+
+/**
+ * Deduplicated track index across the user's cached playlists
+ */
+export const GET = withApiLogging(async () => {
+  const userId = await getCurrentUserId()
+
+  try {
+    const library = await getLibraryIndex()
+
+    logInfo('Library index built', {
+      component: 'api.library',
+      userId: userId || 'anonymous',
+      tracks: library.tracks.length,
+      occurrences: library.trackOccurrences,
+      cachedPlaylists: library.cachedPlaylistCount,
+    })
+    trackApiRequest(userId, '/api/library', 'GET', 200).catch(() => {})
+    return contractJson(apiContracts.getLibrary, library)
+  } catch (error) {
+    if (error instanceof AuthenticationError || (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('No access token') || error.message.includes('Please log in')))) {
+      logError(error, {
+        component: 'api.library',
+        userId: userId || 'anonymous',
+        status: 401,
+        errorType: 'AuthenticationError',
+      })
+      trackApiRequest(userId, '/api/library', 'GET', 401).catch(() => {})
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    logError(error, {
+      component: 'api.library',
+      userId: userId || 'anonymous',
+      status: 500,
+      errorType: 'Unknown',
+    })
+    trackApiRequest(userId, '/api/library', 'GET', 500).catch(() => {})
+    return NextResponse.json({ error: 'Failed to build library' }, { status: 500 })
+  }
+})
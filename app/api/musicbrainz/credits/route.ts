@@ -3,6 +3,8 @@ import { query } from '@/lib/db'
 import { fetchMusicBrainzJson } from '@/lib/musicbrainz/client'
 import { getTrackDetailsByIsrc, hasMusoApiKey, type MusoTrackDetails } from '@/lib/muso'
 import { withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 
 const normalizeRole = (value?: string | null) => (value || '').toLowerCase()
 
@@ -85,14 +87,15 @@ const collectMusoCredits = (track: MusoTrackDetails) => {
         bucket(producedBy, names)
         continue
       }
-      if (child.includes('mix') || child.includes('engineer')) {
-        bucket(mixedBy, names)
-        continue
-      }
+      // "Mastering Engineer" is checked before the generic engineer bucket
       if (child.includes('master')) {
         bucket(masteredBy, names)
         continue
       }
+      if (child.includes('mix') || child.includes('engineer')) {
+        bucket(mixedBy, names)
+        continue
+      }
       if (child.includes('writer') || child.includes('composer') || child.includes('lyric')) {
         bucket(writtenBy, names)
         continue
@@ -114,22 +117,15 @@ const collectMusoCredits = (track: MusoTrackDetails) => {
 }
 
 export const GET = withApiLogging(async (request: Request) => {
-  const { searchParams } = new URL(request.url)
-  const isrc = searchParams.get('isrc')
-  const forceRefresh = searchParams.get('refresh') === 'true'
-
-  if (!isrc) {
-    return NextResponse.json(
-      { error: 'Missing isrc parameter' },
-      { status: 400 }
-    )
-  }
+  const parsed = await parseApiRequest(apiContracts.getTrackCredits, request)
+  if (!parsed.ok) return parsed.response
+  const { isrc, refresh: forceRefresh } = parsed.query
 
   try {
     if (!forceRefresh) {
       const cached = await loadCachedCredits(isrc)
       if (cached) {
-        return NextResponse.json({
+        return contractJson(apiContracts.getTrackCredits, {
           ...cached.credits,
           retrievedAt: cached.retrievedAt,
         })
@@ -141,7 +137,7 @@ export const GET = withApiLogging(async (request: Request) => {
         if (track) {
           const credits = collectMusoCredits(track)
           await saveCachedCredits(isrc, credits, 'muso')
-          return NextResponse.json({
+          return contractJson(apiContracts.getTrackCredits, {
             ...credits,
             retrievedAt: new Date().toISOString(),
           })
@@ -288,7 +284,7 @@ export const GET = withApiLogging(async (request: Request) => {
       releaseId,
     }
     await saveCachedCredits(isrc, credits, 'musicbrainz')
-    return NextResponse.json({
+    return contractJson(apiContracts.getTrackCredits, {
       ...credits,
       retrievedAt: new Date().toISOString(),
     })
@@ -1,4 +1,19 @@
 import { NextResponse } from 'next/server'
+import { apiContracts, type ContractResponse } from '@/lib/apiContracts'
+import { contractJson, invalidRequest, parseApiRequest, type JsonEncodable } from '@/lib/apiRoute'
+import { creditRoleCacheKey, musoCreditsForRole, normalizeCreditInstrument } from '@/lib/creditRoles'
+import { creditIdentityCacheName } from '@/lib/creditIdentity'
+import {
+  COMPOSITE_CREDIT_ROLE,
+  creditMatchKeys,
+  creditQueryCacheName,
+  formatCreditQuery,
+  joinCreditQueryMatches,
+  parseCreditQueryClause,
+  type CreditQueryClause,
+  type CreditQueryMatch,
+  type CreditQueryTerm,
+} from '@/lib/creditQuery'
 import {
   fetchCoverArtUrl,
   fetchReleasesByRecording,
@@ -90,6 +105,81 @@ function selectReleaseInfo(releases: any[]) {
   }
 }
 
+async function recordingToTrackResult(recording: any): Promise<TrackResult> {
+  const embeddedReleases = Array.isArray(recording?.releases) ? recording.releases : []
+  const releases = embeddedReleases.length > 0
+    ? embeddedReleases
+    : (recording?.id ? await fetchReleasesByRecording(recording.id) : [])
+  const releaseSelection = selectReleaseInfo(releases)
+  const release = releaseSelection.release
+  const releaseId = release?.id || 'unknown'
+  const isrcDetails = Array.isArray(recording?.isrcDetails)
+    ? recording.isrcDetails
+    : undefined
+  const selectedIsrc = isrcDetails?.find((entry: any) => entry?.selected)?.value
+  const isrc = selectedIsrc ?? (Array.isArray(recording?.isrcs) ? recording.isrcs[0] : undefined)
+  const deezerTrack = isrc ? await fetchDeezerTrackByIsrc(isrc) : null
+  const coverArtUrl = deezerTrack?.coverArtUrl
+    ?? (release?.id ? await fetchCoverArtUrl(release.id) : null)
+  const year = typeof release?.date === 'string' ? release.date.split('-')[0] : ''
+  const artistCredit = Array.isArray(recording?.['artist-credit'])
+    ? recording['artist-credit']
+    : []
+  const artist = artistCredit
+    .map((credit: any) => credit?.name || credit?.artist?.name)
+    .filter(Boolean)
+    .join(', ')
+
+  return {
+    id: recording.id,
+    title: deezerTrack?.title || recording?.title || 'Unknown title',
+    artist: deezerTrack?.artist || artist || 'Unknown artist',
+    album: deezerTrack?.album || release?.title || 'Unknown release',
+    releaseType: releaseSelection.releaseType,
+    year,
+    length: typeof recording?.length === 'number' ? recording.length : 0,
+    isrc,
+    isrcDetails,
+    releaseId,
+    coverArtUrl,
+    previewUrl: deezerTrack?.previewUrl || null,
+    source: 'musicbrainz',
+  }
+}
+
+// Composite searches page through every term up to a cap; a term with more matches
+// than the cap marks the joined result as truncated instead of complete
+const COMPOSITE_TERM_PAGE_SIZE = 100
+const COMPOSITE_TERM_MAX_MATCHES = 500
+
+// A joined composite match as cached: a resolved track, or a MusicBrainz recording
+// whose details are looked up the first time its page is requested
+type CompositeMatch = { track: TrackResult } | { recording: any }
+
+// Rows cached before composite matches were resolved per page hold plain tracks
+function toCompositeMatch(entry: any): CompositeMatch {
+  return entry && typeof entry === 'object' && ('track' in entry || 'recording' in entry) ? entry : { track: entry }
+}
+
+function compositeMatchIsrcs(match: CompositeMatch): string[] {
+  if ('track' in match) return match.track?.isrc ? [match.track.isrc] : []
+  return Array.isArray(match.recording?.isrcs) ? match.recording.isrcs : []
+}
+
+async function fetchTermPages<T>(
+  fetchPage: (offset: number) => Promise<{ items: T[]; total: number | null | undefined }>
+): Promise<{ items: T[]; truncated: boolean }> {
+  const items: T[] = []
+  while (items.length < COMPOSITE_TERM_MAX_MATCHES) {
+    const page = await fetchPage(items.length)
+    items.push(...page.items)
+    if (page.items.length < COMPOSITE_TERM_PAGE_SIZE || (typeof page.total === 'number' && items.length >= page.total)) {
+      return { items, truncated: false }
+    }
+  }
+  return { items, truncated: true }
+}
+
 const normalizeMusoDurationMs = (duration?: number) => {
   if (typeof duration !== 'number' || !Number.isFinite(duration) || duration <= 0) {
     return 0
@@ -99,43 +189,46 @@ const normalizeMusoDurationMs = (duration?: number) => {
 }
 
 export const GET = withApiLogging(async (request: Request) => {
-  const { searchParams } = new URL(request.url)
-  const name = searchParams.get('name')?.trim()
-  const role = searchParams.get('role')?.trim().toLowerCase() || 'producer'
-  const limitParam = Number(searchParams.get('limit') ?? 20)
-  const offsetParam = Number(searchParams.get('offset') ?? 0)
-  const releaseDateStart = searchParams.get('releaseDateStart')?.trim() || null
-  const releaseDateEnd = searchParams.get('releaseDateEnd')?.trim() || null
-  const debugParam = searchParams.get('debug')
-  const debug = debugParam !== null && debugParam.toLowerCase() !== 'false'
-  const streamParam = searchParams.get('stream')
-  const stream = streamParam !== null && streamParam.toLowerCase() !== 'false'
-  const refreshParam = searchParams.get('refresh')
-  const refresh = refreshParam !== null && refreshParam.toLowerCase() !== 'false'
-  const debugSteps: Array<{ step: number; name: string; data?: Record<string, unknown> }> = []
-
-  if (!name) {
-    return NextResponse.json({ error: 'Missing name parameter' }, { status: 400 })
+  const parsed = await parseApiRequest(apiContracts.searchCredits, request)
+  if (!parsed.ok) return parsed.response
+  const { limit, offset, debug, stream, refresh } = parsed.query
+  const clauses: CreditQueryClause[] = []
+  for (const [index, value] of (parsed.query.clause ?? []).entries()) {
+    const clause = parseCreditQueryClause(value)
+    if (!clause.ok) return invalidRequest([{ path: `query.clause.${index}`, message: clause.message }])
+    clauses.push(clause.clause)
   }
+  const composite = clauses.length > 0
+  const name = composite ? formatCreditQuery(clauses) : parsed.query.name
+  if (!name) return invalidRequest([{ path: 'query.name', message: 'Required unless clause is given' }])
+  const { role } = parsed.query
+  const instrument = normalizeCreditInstrument(role, parsed.query.instrument)
+  // IDs picked in disambiguation; composite clauses are always free-text names
+  const artistId = composite ? undefined : parsed.query.artistId?.toLowerCase()
+  const musoProfileId = composite ? undefined : parsed.query.musoProfileId
+  const roleKey = composite ? COMPOSITE_CREDIT_ROLE : creditRoleCacheKey(role, instrument)
+  const releaseDateStart = parsed.query.releaseDateStart || null
+  const releaseDateEnd = parsed.query.releaseDateEnd || null
+  const debugSteps: Array<{ step: number; name: string; data?: Record<string, unknown> }> = []
 
-  const limit = Number.isFinite(limitParam) ? Math.min(Math.max(limitParam, 1), 50) : 20
-  const offset = Number.isFinite(offsetParam) ? Math.max(offsetParam, 0) : 0
-  const nameKey = name.toLowerCase()
+  const nameKey = composite
+    ? creditQueryCacheName(clauses)
+    : creditIdentityCacheName({ musicBrainzArtistId: artistId, musoProfileId }, role) ?? name.toLowerCase()
   const profileSearchLimit = 5
 
   const loadCache = async () => {
     try {
-      const rows = await query<{ results: any; profile: any; total_count: number | null }>(
+      const rows = await query<{ results: any; profile: any; total_count: number | null; truncated: boolean | null }>(
         `
-        SELECT results, profile, total_count
+        SELECT results, profile, total_count, truncated
         FROM credits_cache
         WHERE name = $1
           AND role = $2
-          AND release_date_start IS NOT DISTINCT FROM $3
-          AND release_date_end IS NOT DISTINCT FROM $4
+          AND (release_date_start = $3::date OR (release_date_start IS NULL AND $3::date IS NULL))
+          AND (release_date_end = $4::date OR (release_date_end IS NULL AND $4::date IS NULL))
         LIMIT 1
         `,
-        [nameKey, role, releaseDateStart, releaseDateEnd]
+        [nameKey, roleKey, releaseDateStart, releaseDateEnd]
       )
       if (!rows.length) return null
       const results = Array.isArray(rows[0]?.results) ? rows[0].results : null
@@ -152,37 +245,62 @@ export const GET = withApiLogging(async (request: Request) => {
         results,
         profile,
         totalCount: typeof rows[0]?.total_count === 'number' ? rows[0].total_count : null,
+        truncated: rows[0]?.truncated === true,
       }
     } catch {
       return null
     }
   }
 
-  const saveCache = async (results: TrackResult[], options?: { profile?: Record<string, unknown> | null; totalCount?: number | null }) => {
+  const saveCache = async (
+    results: TrackResult[] | CompositeMatch[],
+    options?: { profile?: Record<string, unknown> | null; totalCount?: number | null; truncated?: boolean }
+  ) => {
     try {
-      const isrcs = Array.from(new Set(results.map((item) => item.isrc).filter(Boolean))) as string[]
+      const isrcs = Array.from(new Set(
+        composite
+          ? (results as CompositeMatch[]).flatMap(compositeMatchIsrcs)
+          : (results as TrackResult[]).map((item) => item.isrc).filter(Boolean)
+      )) as string[]
+      const values = [
+        nameKey,
+        roleKey,
+        releaseDateStart,
+        releaseDateEnd,
+        JSON.stringify(results),
+        isrcs,
+        options?.profile ? JSON.stringify(options.profile) : null,
+        typeof options?.totalCount === 'number' ? options.totalCount : null,
+        options?.truncated ?? false,
+      ]
+      // NULL date filters never conflict on the unique index, so update the row first
+      const updated = await query<{ id: number }>(
+        `
+        UPDATE credits_cache
+        SET results = $5, isrcs = $6, profile = $7, total_count = $8, truncated = $9, updated_at = NOW()
+        WHERE name = $1
+          AND role = $2
+          AND (release_date_start = $3::date OR (release_date_start IS NULL AND $3::date IS NULL))
+          AND (release_date_end = $4::date OR (release_date_end IS NULL AND $4::date IS NULL))
+        RETURNING id
+        `,
+        values
+      )
+      if (updated.length > 0) return
       await query(
         `
-        INSERT INTO credits_cache (name, role, release_date_start, release_date_end, results, isrcs, profile, total_count, updated_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
+        INSERT INTO credits_cache (name, role, release_date_start, release_date_end, results, isrcs, profile, total_count, truncated, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
         ON CONFLICT (name, role, release_date_start, release_date_end)
         DO UPDATE SET
           results = EXCLUDED.results,
           isrcs = EXCLUDED.isrcs,
           profile = EXCLUDED.profile,
           total_count = EXCLUDED.total_count,
+          truncated = EXCLUDED.truncated,
           updated_at = NOW()
         `,
-        [
-          nameKey,
-          role,
-          releaseDateStart,
-          releaseDateEnd,
-          JSON.stringify(results),
-          isrcs,
-          options?.profile ? JSON.stringify(options.profile) : null,
-          typeof options?.totalCount === 'number' ? options.totalCount : null,
-        ]
+        values
       )
     } catch {
       // ignore cache failures
@@ -278,34 +396,18 @@ export const GET = withApiLogging(async (request: Request) => {
     return Array.from(map.values())
   }
 
-  const musoRoleCredits = (roleName: string) => {
-    switch (roleName) {
-      case 'songwriter':
-        return ['Composer']
-      case 'mixer':
-        return ['Mixer']
-      case 'engineer':
-        return ['Engineer']
-      case 'artist':
-        return ['Artist']
-      case 'producer':
-      default:
-        return ['Producer']
-    }
-  }
-
-  const fetchMusoResults = async () => {
+  const findMusoProfile = async (profileName: string) => {
     const profileSearchRequest = {
       endpoint: '/search',
       method: 'POST',
       body: {
-        keyword: name,
+        keyword: profileName,
         type: ['profile'],
         limit: profileSearchLimit,
         offset: 0,
       },
     }
-    const { items: profiles, totalCount: profileTotal, raw: profileRaw } = await searchProfilesByName(name, {
+    const { items: profiles, totalCount: profileTotal, raw: profileRaw } = await searchProfilesByName(profileName, {
       limit: profileSearchLimit,
       offset: 0,
       debug,
@@ -329,14 +431,25 @@ export const GET = withApiLogging(async (request: Request) => {
           data: { totalCount: profileTotal, itemsCount: profiles.length },
         })
       }
+      return null
+    }
+    return profile
+  }
+
+  const fetchMusoResults = async (
+    term: CreditQueryTerm & { musoProfileId?: string } = { name, role, instrument, musoProfileId },
+    page: { limit: number; offset: number } = { limit, offset }
+  ) => {
+    const profile = term.musoProfileId ? { id: term.musoProfileId, name: term.name } : await findMusoProfile(term.name)
+    if (!profile?.id) {
       return { results: [] as TrackResult[], totalCount: 0, profile: null }
     }
     const creditsRequest = {
       endpoint: `/profile/${profile.id}/credits`,
       params: {
-        credits: musoRoleCredits(role),
-        limit,
-        offset,
+        credits: musoCreditsForRole(term.role, term.instrument),
+        limit: page.limit,
+        offset: page.offset,
         sortKey: 'releaseDate',
         releaseDateStart: releaseDateStart ?? undefined,
         releaseDateEnd: releaseDateEnd ?? undefined,
@@ -344,9 +457,9 @@ export const GET = withApiLogging(async (request: Request) => {
     }
     const { items, totalCount, raw: creditsRaw } = await listProfileCredits({
       profileId: profile.id,
-      credits: musoRoleCredits(role),
-      limit,
-      offset,
+      credits: musoCreditsForRole(term.role, term.instrument),
+      limit: page.limit,
+      offset: page.offset,
       sortKey: 'releaseDate',
       releaseDateStart: releaseDateStart ?? undefined,
       releaseDateEnd: releaseDateEnd ?? undefined,
@@ -438,6 +551,118 @@ export const GET = withApiLogging(async (request: Request) => {
     return { results, totalCount, profile }
   }
 
+  const fetchCompositeMatches = async (
+    term: CreditQueryTerm
+  ): Promise<{ matches: Array<CreditQueryMatch<CompositeMatch>>; truncated: boolean }> => {
+    if (hasMusoApiKey()) {
+      try {
+        let musoProfileId: string | undefined
+        const { items, truncated } = await fetchTermPages(async (pageOffset) => {
+          const { results, totalCount, profile } = await fetchMusoResults(
+            { ...term, musoProfileId },
+            { limit: COMPOSITE_TERM_PAGE_SIZE, offset: pageOffset }
+          )
+          musoProfileId = profile?.id ?? musoProfileId
+          return { items: results, total: totalCount }
+        })
+        return {
+          matches: items.map((track) => ({ keys: creditMatchKeys(track.id, [track.isrc]), item: { track } })),
+          truncated,
+        }
+      } catch {
+        // Fall back to MusicBrainz for this term.
+      }
+    }
+    const { items, truncated } = await fetchTermPages(async (pageOffset) => {
+      const { recordings, count } = await searchRecordingsByCredit({ ...term, limit: COMPOSITE_TERM_PAGE_SIZE, offset: pageOffset })
+      return { items: recordings, total: count }
+    })
+    return {
+      matches: items.map((recording) => ({
+        keys: creditMatchKeys(recording?.id, Array.isArray(recording?.isrcs) ? recording.isrcs : []),
+        item: { recording },
+      })),
+      truncated,
+    }
+  }
+
+  const fetchCompositeResults = async () => {
+    const clauseMatches: Array<Array<CreditQueryMatch<CompositeMatch>>> = []
+    let truncated = false
+    for (const clause of clauses) {
+      const matches: Array<CreditQueryMatch<CompositeMatch>> = []
+      // One term at a time; MusicBrainz rate limits every request anyway
+      for (const term of clause) {
+        const termResult = await fetchCompositeMatches(term)
+        matches.push(...termResult.matches)
+        truncated = truncated || termResult.truncated
+      }
+      clauseMatches.push(matches)
+    }
+    return { matches: joinCreditQueryMatches(clauseMatches), truncated }
+  }
+
+  // Look up details for the requested page only; resolved entries replace their recordings
+  const resolveCompositePage = async (matches: CompositeMatch[]) => {
+    const pageMatches = matches.slice(offset, offset + limit)
+    const tracks = await Promise.all(
+      pageMatches.map((match) => ('track' in match ? match.track : recordingToTrackResult(match.recording)))
+    )
+    const resolved = [...matches]
+    tracks.forEach((track, index) => {
+      resolved[offset + index] = { track }
+    })
+    return { tracks, resolved, changed: pageMatches.some((match) => !('track' in match)) }
+  }
+
+  if (composite) {
+    try {
+      const cached = refresh ? null : await loadCache()
+      const fetched = cached?.results ? null : await fetchCompositeResults()
+      const matches = fetched?.matches ?? (cached?.results ?? []).map(toCompositeMatch)
+      const truncated = fetched?.truncated ?? cached?.truncated ?? false
+      const { tracks: page, resolved, changed } = await resolveCompositePage(matches)
+      if (fetched || changed) {
+        await saveCache(resolved, { totalCount: resolved.length, truncated })
+      }
+      if (stream) {
+        const encoder = new TextEncoder()
+        const streamBody = new ReadableStream({
+          start: (controller) => {
+            const send = (payload: Record<string, unknown>) => {
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`))
+            }
+            send({ type: 'meta', totalWorks: matches.length, truncated })
+            page.forEach((track) => send({ type: 'result', track }))
+            send({ type: 'done', count: page.length })
+            controller.close()
+          },
+        })
+        return new Response(streamBody, {
+          headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive',
+          },
+        })
+      }
+      return contractJson(apiContracts.searchCredits, {
+        releaseCount: matches.length,
+        releaseOffset: offset,
+        releaseLimit: limit,
+        trackCount: page.length,
+        results: page,
+        truncated,
+        debug: debug ? { clauses, cacheKey: nameKey, cached: Boolean(cached?.results), matched: matches.length } : undefined,
+      })
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Unknown error' },
+        { status: 500 }
+      )
+    }
+  }
+
   if (hasMusoApiKey()) {
     try {
       const { results, totalCount, profile } = await fetchMusoResults()
@@ -475,7 +700,7 @@ export const GET = withApiLogging(async (request: Request) => {
       }
 
       await saveCache(results, { profile, totalCount })
-      return NextResponse.json({
+      return contractJson(apiContracts.searchCredits, {
         releaseCount: totalCount,
         releaseOffset: offset,
         releaseLimit: limit,
@@ -528,46 +753,8 @@ export const GET = withApiLogging(async (request: Request) => {
         }
 
         const collected: TrackResult[] = []
-        for await (const recording of streamRecordingsByCredit({ name, role, limit, offset: 0 })) {
-          const embeddedReleases = Array.isArray(recording?.releases) ? recording.releases : []
-          const releases = embeddedReleases.length > 0
-            ? embeddedReleases
-            : (recording?.id ? await fetchReleasesByRecording(recording.id) : [])
-          const releaseSelection = selectReleaseInfo(releases)
-          const release = releaseSelection.release
-          const releaseId = release?.id || 'unknown'
-          const isrcDetails = Array.isArray((recording as any)?.isrcDetails)
-            ? (recording as any).isrcDetails
-            : undefined
-          const selectedIsrc = isrcDetails?.find((entry: any) => entry?.selected)?.value
-          const isrc = selectedIsrc ?? (Array.isArray(recording?.isrcs) ? recording.isrcs[0] : undefined)
-          const deezerTrack = isrc ? await fetchDeezerTrackByIsrc(isrc) : null
-          const coverArtUrl = deezerTrack?.coverArtUrl
-            ?? (release?.id ? await fetchCoverArtUrl(release.id) : null)
-          const year = typeof release?.date === 'string' ? release.date.split('-')[0] : ''
-          const artistCredit = Array.isArray(recording?.['artist-credit'])
-            ? recording['artist-credit']
-            : []
-          const artist = artistCredit
-            .map((credit: any) => credit?.name || credit?.artist?.name)
-            .filter(Boolean)
-            .join(', ')
-
-          collected.push({
-            id: recording.id,
-            title: deezerTrack?.title || recording?.title || 'Unknown title',
-            artist: deezerTrack?.artist || artist || 'Unknown artist',
-            album: deezerTrack?.album || release?.title || 'Unknown release',
-            releaseType: releaseSelection.releaseType,
-            year,
-            length: typeof recording?.length === 'number' ? recording.length : 0,
-            isrc,
-            isrcDetails,
-            releaseId,
-            coverArtUrl,
-            previewUrl: deezerTrack?.previewUrl || null,
-            source: 'musicbrainz',
-          })
+        for await (const recording of streamRecordingsByCredit({ name, role, instrument, artistId, limit, offset: 0 })) {
+          collected.push(await recordingToTrackResult(recording))
         }
         const merged = mergeResults(cached.results, collected)
         await saveCache(merged, { profile: cached.profile ?? null, totalCount: cached.totalCount ?? null })
@@ -593,9 +780,9 @@ export const GET = withApiLogging(async (request: Request) => {
 
         try {
           if (role === 'producer') {
-            const artistId = await findArtistIdByName(name)
-            if (artistId) {
-              const totalWorks = await fetchWorkCountByArtistId(artistId)
+            const producerId = artistId || await findArtistIdByName(name)
+            if (producerId) {
+              const totalWorks = await fetchWorkCountByArtistId(producerId)
               if (typeof totalWorks === 'number') {
                 send({ type: 'meta', totalWorks })
               }
@@ -603,46 +790,8 @@ export const GET = withApiLogging(async (request: Request) => {
           }
           let streamedCount = 0
           const collected: TrackResult[] = []
-          for await (const recording of streamRecordingsByCredit({ name, role, limit, offset })) {
-            const embeddedReleases = Array.isArray(recording?.releases) ? recording.releases : []
-            const releases = embeddedReleases.length > 0
-              ? embeddedReleases
-              : (recording?.id ? await fetchReleasesByRecording(recording.id) : [])
-            const releaseSelection = selectReleaseInfo(releases)
-            const release = releaseSelection.release
-            const releaseId = release?.id || 'unknown'
-            const isrcDetails = Array.isArray((recording as any)?.isrcDetails)
-              ? (recording as any).isrcDetails
-              : undefined
-            const selectedIsrc = isrcDetails?.find((entry: any) => entry?.selected)?.value
-            const isrc = selectedIsrc ?? (Array.isArray(recording?.isrcs) ? recording.isrcs[0] : undefined)
-            const deezerTrack = isrc ? await fetchDeezerTrackByIsrc(isrc) : null
-            const coverArtUrl = deezerTrack?.coverArtUrl
-              ?? (release?.id ? await fetchCoverArtUrl(release.id) : null)
-            const year = typeof release?.date === 'string' ? release.date.split('-')[0] : ''
-            const artistCredit = Array.isArray(recording?.['artist-credit'])
-              ? recording['artist-credit']
-              : []
-            const artist = artistCredit
-              .map((credit: any) => credit?.name || credit?.artist?.name)
-              .filter(Boolean)
-              .join(', ')
-
-            const track: TrackResult = {
-              id: recording.id,
-              title: deezerTrack?.title || recording?.title || 'Unknown title',
-              artist: deezerTrack?.artist || artist || 'Unknown artist',
-              album: deezerTrack?.album || release?.title || 'Unknown release',
-              releaseType: releaseSelection.releaseType,
-              year,
-              length: typeof recording?.length === 'number' ? recording.length : 0,
-              isrc,
-              isrcDetails,
-              releaseId,
-              coverArtUrl,
-              previewUrl: deezerTrack?.previewUrl || null,
-              source: 'musicbrainz',
-            }
+          for await (const recording of streamRecordingsByCredit({ name, role, instrument, artistId, limit, offset })) {
+            const track = await recordingToTrackResult(recording)
 
             send({ type: 'result', track })
             streamedCount += 1
@@ -673,7 +822,7 @@ export const GET = withApiLogging(async (request: Request) => {
     debugSteps.push({
       step: 1,
       name: 'Parse request params',
-      data: { name, role, limit, offset, releaseDateStart, releaseDateEnd },
+      data: { name, role, instrument, artistId, musoProfileId, limit, offset, releaseDateStart, releaseDateEnd },
     })
   }
   try {
@@ -687,6 +836,8 @@ export const GET = withApiLogging(async (request: Request) => {
     const recordingSearch = await searchRecordingsByCredit({
       name,
       role,
+      instrument,
+      artistId,
       limit,
       offset,
     })
@@ -717,49 +868,7 @@ export const GET = withApiLogging(async (request: Request) => {
       })
     }
 
-    const results = await Promise.all(
-      recordingSearch.recordings.map(async (recording) => {
-        const embeddedReleases = Array.isArray(recording?.releases) ? recording.releases : []
-        const releases = embeddedReleases.length > 0
-          ? embeddedReleases
-          : (recording?.id ? await fetchReleasesByRecording(recording.id) : [])
-        const releaseSelection = selectReleaseInfo(releases)
-        const release = releaseSelection.release
-        const releaseId = release?.id || 'unknown'
-        const isrcDetails = Array.isArray((recording as any)?.isrcDetails)
-          ? (recording as any).isrcDetails
-          : undefined
-        const selectedIsrc = isrcDetails?.find((entry: any) => entry?.selected)?.value
-        const isrc = selectedIsrc ?? (Array.isArray(recording?.isrcs) ? recording.isrcs[0] : undefined)
-        const deezerTrack = isrc ? await fetchDeezerTrackByIsrc(isrc) : null
-        const coverArtUrl = deezerTrack?.coverArtUrl
-          ?? (release?.id ? await fetchCoverArtUrl(release.id) : null)
-        const year = typeof release?.date === 'string' ? release.date.split('-')[0] : ''
-        const artistCredit = Array.isArray(recording?.['artist-credit'])
-          ? recording['artist-credit']
-          : []
-        const artist = artistCredit
-          .map((credit: any) => credit?.name || credit?.artist?.name)
-          .filter(Boolean)
-          .join(', ')
-
-        return {
-          id: recording.id,
-          title: deezerTrack?.title || recording?.title || 'Unknown title',
-          artist: deezerTrack?.artist || artist || 'Unknown artist',
-          album: deezerTrack?.album || release?.title || 'Unknown release',
-          releaseType: releaseSelection.releaseType,
-          year,
-          length: typeof recording?.length === 'number' ? recording.length : 0,
-          isrc,
-          isrcDetails,
-          releaseId,
-          coverArtUrl,
-          previewUrl: deezerTrack?.previewUrl || null,
-          source: 'musicbrainz',
-        } as TrackResult
-      })
-    )
+    const results = await Promise.all(recordingSearch.recordings.map(recordingToTrackResult))
     if (debug) {
       debugSteps.push({
         step: 5,
@@ -768,7 +877,7 @@ export const GET = withApiLogging(async (request: Request) => {
       })
     }
 
-    const payload: Record<string, any> = {
+    const payload: JsonEncodable<ContractResponse<typeof apiContracts.searchCredits>> = {
       releaseCount: recordingSearch.count,
       releaseOffset: recordingSearch.offset,
       releaseLimit: recordingSearch.limit,
@@ -778,6 +887,7 @@ export const GET = withApiLogging(async (request: Request) => {
     if (debug) {
       payload.debug = {
         role,
+        instrument,
         name,
         ...(recordingSearch as any).debug,
         steps: [
@@ -788,7 +898,7 @@ export const GET = withApiLogging(async (request: Request) => {
         ],
       }
     }
-    return NextResponse.json(payload)
+    return contractJson(apiContracts.searchCredits, payload)
   } catch (error) {
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Unknown error' },
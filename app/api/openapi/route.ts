@@ -0,0 +1,10 @@
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson } from '@/lib/apiRoute'
+import { buildOpenApiDocument } from '@/lib/openapi'
+import { withApiLogging } from '@/lib/logger'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = withApiLogging(async () => {
+  return contractJson(apiContracts.getOpenApiDocument, buildOpenApiDocument())
+})
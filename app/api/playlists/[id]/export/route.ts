@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server'
+import {
+  buildPlaylistExport,
+  EXPORT_FORMATS,
+  getExportFilename,
+  getPlaylistExportTracks,
+  type ExportFormat,
+} from '@/lib/playlistExport'
+import { canAccessPlaylist } from '@/lib/spotify'
+import { isValidSpotifyTrackId } from '@/lib/spotify-validation'
+import { AuthenticationError } from '@/lib/errors'
+import { trackApiRequest, getCurrentUserId } from '@/lib/analytics'
+import { logError, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { parseApiRequest } from '@/lib/apiRoute'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 25
+
+async function exportPlaylist(
+  userId: string | null,
+  playlistId: string,
+  method: 'GET' | 'POST',
+  format: ExportFormat,
+  playlistName: string | undefined,
+  trackIds: string[] | null
+) {
+  const endpoint = `/api/playlists/${playlistId}/export`
+
+  // BPM, key and credits come from the shared database, so check the caller can see the playlist on Spotify first
+  if (!userId) {
+    trackApiRequest(userId, endpoint, method, 401).catch(() => {})
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    if (!(await canAccessPlaylist(playlistId))) {
+      trackApiRequest(userId, endpoint, method, 403).catch(() => {})
+      return NextResponse.json({ error: 'You do not have access to this playlist' }, { status: 403 })
+    }
+
+    const name = playlistName || playlistId
+    const tracks = await getPlaylistExportTracks(playlistId, trackIds)
+    const body = buildPlaylistExport(format, tracks, { id: playlistId, name })
+    const filename = getExportFilename(name, format)
+
+    trackApiRequest(userId, endpoint, method, 200).catch(() => {})
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        'Content-Type': EXPORT_FORMATS[format].contentType,
+        'Content-Disposition': `attachment; filename="${filename.replace(/"/g, '')}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+        'Cache-Control': 'no-store',
+        'X-Export-Track-Count': String(tracks.length),
+      },
+    })
+  } catch (error) {
+    if (error instanceof AuthenticationError || (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('No access token') || error.message.includes('Please log in')))) {
+      logError(error, {
+        component: 'api.playlists.id.export',
+        playlistId,
+        status: 401,
+        errorType: 'AuthenticationError',
+      })
+      trackApiRequest(userId, endpoint, method, 401).catch(() => {})
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    logError(error, {
+      component: 'api.playlists.id.export',
+      playlistId,
+      format,
+      status: 500,
+      errorType: 'Unknown',
+    })
+    trackApiRequest(userId, endpoint, method, 500).catch(() => {})
+    const errorMessage = error instanceof Error ? error.message : 'Failed to export playlist'
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
+
+/**
+ * Export the whole playlist in its Spotify order
+ * Query params: format (csv | json | m3u8 | rekordbox | traktor), name
+ */
+export const GET = withApiLogging(async (
+  request: Request,
+  { params }: { params: { id: string } }
+) => {
+  const userId = await getCurrentUserId()
+  const parsed = await parseApiRequest(apiContracts.exportPlaylist, request, { params })
+  if (!parsed.ok) {
+    trackApiRequest(userId, `/api/playlists/${params.id}/export`, 'GET', 400).catch(() => {})
+    return parsed.response
+  }
+  return exportPlaylist(userId, params.id, 'GET', parsed.query.format, parsed.query.name, null)
+})
+
+/**
+ * Export an ordered subset of the playlist, e.g. the filtered and sorted view
+ * Body: { format, name, trackIds }; without trackIds the whole playlist is exported
+ */
+export const POST = withApiLogging(async (
+  request: Request,
+  { params }: { params: { id: string } }
+) => {
+  const userId = await getCurrentUserId()
+  const parsed = await parseApiRequest(apiContracts.exportPlaylistTracks, request, { params })
+  if (!parsed.ok) {
+    trackApiRequest(userId, `/api/playlists/${params.id}/export`, 'POST', 400).catch(() => {})
+    return parsed.response
+  }
+  const { format, name } = parsed.body
+  const trackIds = parsed.body.trackIds?.filter(isValidSpotifyTrackId) ?? null
+  // An empty selection is a mistake (e.g. a filter matching nothing), not a request for the whole playlist
+  if (trackIds && trackIds.length === 0) {
+    trackApiRequest(userId, `/api/playlists/${params.id}/export`, 'POST', 400).catch(() => {})
+    return NextResponse.json({ error: 'No valid track IDs provided' }, { status: 400 })
+  }
+  return exportPlaylist(userId, params.id, 'POST', format, name, trackIds)
+})
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server'
+import { getPlaylistSnapshotDiff, getPlaylistSnapshots } from '@/lib/playlistHistory'
+import { canAccessPlaylist, getSpotifyUserDisplayNames } from '@/lib/spotify'
+import { AuthenticationError } from '@/lib/errors'
+import { trackApiRequest, getCurrentUserId } from '@/lib/analytics'
+import { logError, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 25
+
+// Cap on "added by" users resolved per diff (one Spotify request each)
+const MAX_USER_LOOKUPS = 25
+
+/**
+ * Without params: recorded snapshots for the playlist, newest first.
+ * With ?from=<snapshotId>&to=<snapshotId>: tracks added, removed and reordered between them.
+ */
+export const GET = withApiLogging(async (
+  request: Request,
+  { params }: { params: { id: string } }
+) => {
+  const userId = await getCurrentUserId()
+  const endpoint = `/api/playlists/${params.id}/history`
+
+  const parsed = await parseApiRequest(apiContracts.getPlaylistHistory, request, { params })
+  if (!parsed.ok) {
+    trackApiRequest(userId, endpoint, 'GET', 400).catch(() => {})
+    return parsed.response
+  }
+
+  // Snapshots come from the shared database, so check the caller can see the playlist on Spotify first
+  if (!userId) {
+    trackApiRequest(userId, endpoint, 'GET', 401).catch(() => {})
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    if (!(await canAccessPlaylist(params.id))) {
+      trackApiRequest(userId, endpoint, 'GET', 403).catch(() => {})
+      return NextResponse.json({ error: 'You do not have access to this playlist' }, { status: 403 })
+    }
+
+    const { from, to } = parsed.query
+
+    if (!from || !to) {
+      const snapshots = await getPlaylistSnapshots(params.id)
+      trackApiRequest(userId, endpoint, 'GET', 200).catch(() => {})
+      return contractJson(apiContracts.getPlaylistHistory, { snapshots })
+    }
+
+    const diff = await getPlaylistSnapshotDiff(params.id, from, to)
+    if (!diff) {
+      trackApiRequest(userId, endpoint, 'GET', 404).catch(() => {})
+      return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 })
+    }
+
+    const addedByIds = Array.from(
+      new Set(diff.added.map((entry) => entry.added_by).filter((id): id is string => Boolean(id)))
+    ).slice(0, MAX_USER_LOOKUPS)
+    const userNames = await getSpotifyUserDisplayNames(addedByIds)
+
+    trackApiRequest(userId, endpoint, 'GET', 200).catch(() => {})
+    return contractJson(apiContracts.getPlaylistHistory, { ...diff, userNames })
+  } catch (error) {
+    if (error instanceof AuthenticationError || (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('No access token') || error.message.includes('Please log in')))) {
+      logError(error, {
+        component: 'api.playlists.id.history',
+        playlistId: params.id,
+        status: 401,
+        errorType: 'AuthenticationError',
+      })
+      trackApiRequest(userId, endpoint, 'GET', 401).catch(() => {})
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    logError(error, {
+      component: 'api.playlists.id.history',
+      playlistId: params.id,
+      status: 500,
+      errorType: 'Unknown',
+    })
+    trackApiRequest(userId, endpoint, 'GET', 500).catch(() => {})
+    return NextResponse.json({ error: 'Failed to load playlist history' }, { status: 500 })
+  }
+})
@@ -3,6 +3,8 @@ import { getPlaylist, isPlaylistCacheFresh } from '@/lib/spotify'
 import { query } from '@/lib/db'
 import { AuthenticationError } from '@/lib/errors'
 import { logError, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 export const maxDuration = 25
@@ -16,9 +18,11 @@ export const GET = withApiLogging(async (
   request: Request,
   { params }: { params: { id: string } }
 ) => {
+  const parsed = await parseApiRequest(apiContracts.getPlaylist, request, { params })
+  if (!parsed.ok) return parsed.response
+
   try {
-    const url = new URL(request.url)
-    const forceRefresh = url.searchParams.get('refresh') === 'true'
+    const forceRefresh = parsed.query.refresh
     
     // Check if we have cached data
     let isCached = false
@@ -56,7 +60,7 @@ export const GET = withApiLogging(async (
     const playlist = await getPlaylist(params.id, !forceRefresh)
     
     // Return with cache info in headers
-    const response = NextResponse.json(playlist)
+    const response = contractJson(apiContracts.getPlaylist, playlist)
     if (isCached && cacheInfo) {
       response.headers.set('X-Cached', 'true')
       response.headers.set('X-Snapshot-Id', cacheInfo.snapshotId)
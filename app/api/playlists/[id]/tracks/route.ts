@@ -1,8 +1,17 @@
 import { NextResponse } from 'next/server'
-import { getPlaylistTracks, isPlaylistCacheFresh } from '@/lib/spotify'
+import {
+  addMissingTracksToPlaylist,
+  getPlaylistTracks,
+  hasSpotifyScopes,
+  isPlaylistCacheFresh,
+  SPOTIFY_WRITE_SCOPES,
+} from '@/lib/spotify'
+import { isValidSpotifyTrackId } from '@/lib/spotify-validation'
 import { query } from '@/lib/db'
 import { AuthenticationError } from '@/lib/errors'
-import { logError, withApiLogging } from '@/lib/logger'
+import { logError, logInfo, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 export const maxDuration = 25
@@ -16,9 +25,11 @@ export const GET = withApiLogging(async (
   request: Request,
   { params }: { params: { id: string } }
 ) => {
+  const parsed = await parseApiRequest(apiContracts.getPlaylistTracks, request, { params })
+  if (!parsed.ok) return parsed.response
+
   try {
-    const url = new URL(request.url)
-    const forceRefresh = url.searchParams.get('refresh') === 'true'
+    const forceRefresh = parsed.query.refresh
     
     // Check if we have cached data
     let isCached = false
@@ -52,13 +63,13 @@ export const GET = withApiLogging(async (
       }
     }
     
-    const includeMissingIsrc = url.searchParams.get('includeMissingIsrc') === 'true'
+    const { includeMissingIsrc } = parsed.query
     const tracks = await getPlaylistTracks(params.id, !forceRefresh)
     const missingIsrc = tracks.filter((track: any) => !track?.external_ids?.isrc).length
     const filteredTracks = includeMissingIsrc ? tracks : tracks.filter((track: any) => track?.external_ids?.isrc)
     
     // Return with cache info in headers
-    const response = NextResponse.json(filteredTracks)
+    const response = contractJson(apiContracts.getPlaylistTracks, filteredTracks)
     if (isCached && cacheInfo) {
       response.headers.set('X-Cached', 'true')
       response.headers.set('X-Snapshot-Id', cacheInfo.snapshotId)
@@ -96,3 +107,77 @@ export const GET = withApiLogging(async (
     )
   }
 })
+
+/**
+ * Append track IDs to an existing playlist (e.g. from the credits playlist
+ * builder), skipping ones it already has
+ */
+export const POST = withApiLogging(async (
+  request: Request,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const parsed = await parseApiRequest(apiContracts.addPlaylistTracks, request, { params })
+    if (!parsed.ok) return parsed.response
+    const trackIds = parsed.body.trackIds.filter(isValidSpotifyTrackId)
+
+    if (trackIds.length === 0) {
+      return NextResponse.json({ error: 'No valid track IDs provided' }, { status: 400 })
+    }
+
+    if (!(await hasSpotifyScopes(SPOTIFY_WRITE_SCOPES))) {
+      return NextResponse.json(
+        {
+          error: 'Spotify write access has not been granted yet',
+          code: 'missing_scope',
+          requiredScopes: SPOTIFY_WRITE_SCOPES,
+        },
+        { status: 403 }
+      )
+    }
+
+    const uris = Array.from(new Set(trackIds)).map((id) => `spotify:track:${id}`)
+    const result = await addMissingTracksToPlaylist(params.id, uris)
+
+    logInfo('Tracks appended to playlist', {
+      component: 'api.playlists.id.tracks',
+      playlistId: params.id,
+      ...result,
+    })
+
+    return contractJson(apiContracts.addPlaylistTracks, result)
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      logError(error, {
+        component: 'api.playlists.id.tracks',
+        playlistId: params.id,
+        status: 401,
+        errorType: 'AuthenticationError',
+      })
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      logError(error, {
+        component: 'api.playlists.id.tracks',
+        playlistId: params.id,
+        status: 403,
+        errorType: 'Forbidden',
+      })
+      // Scopes were checked above, so Spotify refusing means the user can't edit this playlist
+      return NextResponse.json(
+        { error: 'You can only add tracks to playlists you own or collaborate on', code: 'not_playlist_editor' },
+        { status: 403 }
+      )
+    }
+
+    logError(error, {
+      component: 'api.playlists.id.tracks',
+      playlistId: params.id,
+      status: 500,
+      errorType: 'Unknown',
+      action: 'add_tracks',
+    })
+    return NextResponse.json({ error: 'Failed to add tracks' }, { status: 500 })
+  }
+})
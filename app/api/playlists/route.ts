@@ -1,12 +1,19 @@
 import { NextResponse } from 'next/server'
 import { getPlaylistsWithMetadata } from '@/lib/playlists'
+import { createPlaylistWithTracks, hasSpotifyScopes, SPOTIFY_WRITE_SCOPES } from '@/lib/spotify'
+import { isValidSpotifyTrackId } from '@/lib/spotify-validation'
+import { AuthenticationError } from '@/lib/errors'
 import { trackApiRequest, getCurrentUserId } from '@/lib/analytics'
 import { logError, logInfo, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 export const maxDuration = 25
 
 export const GET = withApiLogging(async (request: Request) => {
+  const parsed = await parseApiRequest(apiContracts.listPlaylists, request)
+  if (!parsed.ok) return parsed.response
   const userId = await getCurrentUserId()
   let response: NextResponse
 
@@ -16,10 +23,9 @@ export const GET = withApiLogging(async (request: Request) => {
       userId: userId || 'anonymous',
     })
     
-    const url = new URL(request.url)
-    const includeFollowers = url.searchParams.get('includeFollowers') === 'true'
+    const { includeFollowers } = parsed.query
     const playlists = await getPlaylistsWithMetadata({ includeFollowers })
-    response = NextResponse.json(playlists)
+    response = contractJson(apiContracts.listPlaylists, playlists)
     
     logInfo('Playlists fetched successfully', {
       component: 'api.playlists',
@@ -97,3 +103,97 @@ export const GET = withApiLogging(async (request: Request) => {
 
   return response!
 })
+
+const MAX_PLAYLIST_TRACKS = 10000
+
+/**
+ * Create a new Spotify playlist from an ordered list of track IDs
+ * (e.g. the filtered/sorted view of an existing playlist)
+ */
+export const POST = withApiLogging(async (request: Request) => {
+  const userId = await getCurrentUserId()
+
+  try {
+    const parsed = await parseApiRequest(apiContracts.createPlaylist, request)
+    if (!parsed.ok) return parsed.response
+    const { name, description = '', public: isPublic = false } = parsed.body
+    const trackIds = parsed.body.trackIds.filter(isValidSpotifyTrackId)
+
+    if (trackIds.length === 0) {
+      return NextResponse.json({ error: 'No valid track IDs provided' }, { status: 400 })
+    }
+    if (trackIds.length > MAX_PLAYLIST_TRACKS) {
+      return NextResponse.json(
+        { error: `Playlists are limited to ${MAX_PLAYLIST_TRACKS} tracks` },
+        { status: 400 }
+      )
+    }
+
+    if (!(await hasSpotifyScopes(SPOTIFY_WRITE_SCOPES))) {
+      trackApiRequest(userId, '/api/playlists', 'POST', 403).catch(() => {})
+      return NextResponse.json(
+        {
+          error: 'Spotify write access has not been granted yet',
+          code: 'missing_scope',
+          requiredScopes: SPOTIFY_WRITE_SCOPES,
+        },
+        { status: 403 }
+      )
+    }
+
+    // Keep the caller's order, dropping duplicates
+    const uris = Array.from(new Set(trackIds)).map((id) => `spotify:track:${id}`)
+    const playlist = await createPlaylistWithTracks({
+      name: name.slice(0, 100),
+      description: description.slice(0, 300),
+      isPublic,
+      uris,
+    })
+
+    logInfo('Playlist created from track list', {
+      component: 'api.playlists',
+      userId: userId || 'anonymous',
+      playlistId: playlist.id,
+      tracksAdded: playlist.tracksAdded,
+      tracksFailed: playlist.tracksFailed,
+    })
+    trackApiRequest(userId, '/api/playlists', 'POST', 201).catch(() => {})
+
+    return contractJson(apiContracts.createPlaylist, playlist)
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      logError(error, {
+        component: 'api.playlists',
+        userId: userId || 'anonymous',
+        status: 401,
+        errorType: 'AuthenticationError',
+      })
+      trackApiRequest(userId, '/api/playlists', 'POST', 401).catch(() => {})
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      logError(error, {
+        component: 'api.playlists',
+        userId: userId || 'anonymous',
+        status: 403,
+        errorType: 'Forbidden',
+      })
+      trackApiRequest(userId, '/api/playlists', 'POST', 403).catch(() => {})
+      return NextResponse.json(
+        { error: error.message, code: 'missing_scope', requiredScopes: SPOTIFY_WRITE_SCOPES },
+        { status: 403 }
+      )
+    }
+
+    logError(error, {
+      component: 'api.playlists',
+      userId: userId || 'anonymous',
+      status: 500,
+      errorType: 'Unknown',
+      action: 'create_playlist',
+    })
+    trackApiRequest(userId, '/api/playlists', 'POST', 500).catch(() => {})
+    return NextResponse.json({ error: 'Failed to create playlist' }, { status: 500 })
+  }
+})
@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server'
 import { getCurrentUserId, getCurrentUserProfile } from '@/lib/analytics'
 import { query } from '@/lib/db'
 import { logInfo, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { contractJson, parseApiRequest } from '@/lib/apiRoute'
 
 export const dynamic = 'force-dynamic'
 
@@ -12,9 +14,9 @@ export const POST = withApiLogging(async (request: Request) => {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
-  const body = await request.json().catch(() => ({}))
-  const displayName = typeof body?.displayName === 'string' ? body.displayName.trim() : ''
-  const email = typeof body?.email === 'string' ? body.email.trim() : ''
+  const parsed = await parseApiRequest(apiContracts.requestSpotifyAccess, request)
+  if (!parsed.ok) return parsed.response
+  const { displayName, email } = parsed.body
   const resolvedName = displayName || profile?.display_name || ''
   const resolvedEmail = email || profile?.email || ''
 
@@ -34,7 +36,7 @@ export const POST = withApiLogging(async (request: Request) => {
        WHERE spotify_user_id = $1 AND status = 'pending'`,
       [userId, resolvedName || null, resolvedEmail]
     )
-    return NextResponse.json({ status: 'pending' })
+    return contractJson(apiContracts.requestSpotifyAccess, { status: 'pending' })
   }
 
   await query(
@@ -46,5 +48,5 @@ export const POST = withApiLogging(async (request: Request) => {
     component: 'spotify.access-requests',
     spotifyUserId: userId,
   })
-  return NextResponse.json({ status: 'requested' })
+  return contractJson(apiContracts.requestSpotifyAccess, { status: 'requested' })
 })
@@ -1,43 +1,84 @@
 import { NextResponse } from 'next/server'
-import { getIdentityToken } from '@/lib/bpm'
+import { getBpmAnalyzer } from '@/lib/bpm'
+import { openBufferedStream, type StreamFormat } from '@/lib/bpmStreamBuffer'
 import { logError, logInfo, withApiLogging } from '@/lib/logger'
+import { apiContracts } from '@/lib/apiContracts'
+import { parseApiRequest } from '@/lib/apiRoute'
 
 const BPM_SERVICE_URL = process.env.BPM_SERVICE_URL || 'https://bpm-service-7jlgdaerna-ey.a.run.app'
 
 export const dynamic = 'force-dynamic'
 
+const STREAM_HEADERS = {
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  'X-Accel-Buffering': 'no',
+}
+
 /**
  * Streaming proxy route handler for BPM service stream endpoint
- * Proxies the NDJSON stream from Cloud Run to the Next.js client
+ * Results from the configured analyzer (Cloud Run or local) are buffered per batch, so a client
+ * that drops can reconnect and resume:
+ * - `?cursor=<n>` or `Last-Event-ID: <n>` skips results already received
+ * - `?format=sse` or `Accept: text/event-stream` returns Server-Sent Events instead of NDJSON
+ * Falls back to a plain proxy when the buffer is unavailable.
  */
 export const GET = withApiLogging(async (
   request: Request,
   { params }: { params: { batch_id: string } }
 ) => {
-  const batchId = params.batch_id
+  const parsed = await parseApiRequest(apiContracts.getBpmStream, request, { params })
+  if (!parsed.ok) return parsed.response
+
+  const batchId = parsed.params.batch_id
+  const format: StreamFormat =
+    parsed.query.format === 'sse' || (request.headers.get('accept') || '').includes('text/event-stream')
+      ? 'sse'
+      : 'ndjson'
+  const lastEventId = Number.parseInt(request.headers.get('last-event-id') || '0', 10)
+  const cursor = parsed.query.cursor ?? (Number.isFinite(lastEventId) && lastEventId > 0 ? lastEventId : 0)
+  const analyzer = getBpmAnalyzer(BPM_SERVICE_URL)
+
+  try {
+    const body = await openBufferedStream({
+      batchId,
+      cursor,
+      format,
+      openStream: (id) => analyzer.openStream(id),
+    })
+    logInfo('BPM buffered stream opened', {
+      component: 'api.stream',
+      analyzer: analyzer.name,
+      batchId,
+      cursor,
+      format,
+    })
+    return new Response(body, {
+      headers: {
+        'Content-Type': format === 'sse' ? 'text/event-stream; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+        ...STREAM_HEADERS,
+        'X-Stream-Resumable': '1',
+      },
+    })
+  } catch (error) {
+    logError(error, { component: 'api.stream', batchId, action: 'open_buffer' })
+  }
 
-  if (!batchId) {
+  if (format === 'sse' || cursor > 0) {
     return NextResponse.json(
-      { error: 'batch_id is required' },
-      { status: 400 }
+      { error: 'Stream resume is unavailable' },
+      { status: 503 }
     )
   }
 
   try {
-    // Get identity token for Cloud Run authentication
-    const idToken = await getIdentityToken(BPM_SERVICE_URL)
-
-    // Call the BPM service's streaming endpoint
+    // Open the analyzer's stream (Cloud Run proxy or in-process)
     const start = Date.now()
-    const streamResponse = await fetch(`${BPM_SERVICE_URL}/stream/${batchId}`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${idToken}`,
-      },
-    })
+    const streamResponse = await analyzer.openStream(batchId)
     const durationMs = Date.now() - start
     logInfo('BPM stream response received', {
       component: 'api.stream',
+      analyzer: analyzer.name,
       status: streamResponse.status,
       durationMs,
       batchId,
@@ -63,9 +104,7 @@ export const GET = withApiLogging(async (
     return new Response(streamResponse.body, {
       headers: {
         'Content-Type': 'application/x-ndjson; charset=utf-8',
-        'Cache-Control': 'no-cache, no-transform',
-        'Connection': 'keep-alive',
-        'X-Accel-Buffering': 'no',
+        ...STREAM_HEADERS,
       },
     })
   } catch (error) {
@@ -5,6 +5,7 @@ import Image from 'next/image'
 import UserMenu from './UserMenu'
 import { useEffect, useMemo, useRef, useState } from 'react'
 import { useTheme } from './ThemeProvider'
+import { api } from '@/lib/apiClient'
 
 interface PageHeaderProps {
   subtitle: string
@@ -57,8 +58,8 @@ export default function PageHeader({
     const controller = new AbortController()
     const timeoutId = setTimeout(() => controller.abort(), AUTH_TIMEOUT_MS)
 
-    fetch('/api/auth/status', { signal: controller.signal })
-      .then((res) => res.json())
+    api
+      .getAuthStatus({}, { signal: controller.signal })
       .then((data) => {
         if (data.authenticated && data.user) {
           setIsAuthenticated(true)
@@ -67,11 +68,11 @@ export default function PageHeader({
           setAdminRequestEmail(data.user.email || '')
           const adminController = new AbortController()
           const adminTimeoutId = setTimeout(() => adminController.abort(), AUTH_TIMEOUT_MS)
-          fetch('/api/auth/is-admin', { signal: adminController.signal })
-            .then((res) => res.json())
+          api
+            .getAdminStatus({}, { signal: adminController.signal })
             .then((adminData) => {
-              setIsAdmin(Boolean(adminData?.isAdmin))
-              setIsSuperAdmin(Boolean(adminData?.isSuperAdmin))
+              setIsAdmin(adminData.isAdmin)
+              setIsSuperAdmin(adminData.isSuperAdmin)
             })
             .catch(() => {})
             .finally(() => clearTimeout(adminTimeoutId))
@@ -145,14 +146,14 @@ export default function PageHeader({
     let isMounted = true
     const controller = new AbortController()
     const timeoutId = setTimeout(() => controller.abort(), 10_000)
-    fetch('/api/health/services', { signal: controller.signal })
-      .then((res) => res.json())
+    api
+      .getServiceHealth({}, { signal: controller.signal })
       .then((data) => {
         if (!isMounted) return
         setApiHealth({
-          spotify: data?.spotify ?? { status: 'error', label: 'Unavailable' },
-          muso: data?.muso ?? { status: 'error', label: 'Unavailable' },
-          musicbrainz: data?.musicbrainz ?? { status: 'error', label: 'Unavailable' },
+          spotify: data.spotify,
+          muso: data.muso,
+          musicbrainz: data.musicbrainz,
         })
       })
       .catch(() => {
@@ -177,13 +178,13 @@ export default function PageHeader({
     let isMounted = true
     const controller = new AbortController()
     const timeoutId = setTimeout(() => controller.abort(), 8_000)
-    fetch('/api/admin/request-summary', { signal: controller.signal })
-      .then((res) => res.json())
+    api
+      .getRequestSummary({}, { signal: controller.signal })
       .then((data) => {
         if (!isMounted) return
         setRequestCounts({
-          admin: Number(data?.pendingAdminRequests ?? 0),
-          spotify: Number(data?.pendingSpotifyAccessRequests ?? 0),
+          admin: data.pendingAdminRequests,
+          spotify: data.pendingSpotifyAccessRequests,
         })
       })
       .catch(() => {
@@ -204,17 +205,14 @@ export default function PageHeader({
     let isMounted = true
     const controller = new AbortController()
     const timeoutId = setTimeout(() => controller.abort(), 8_000)
-    fetch('/api/admin/observability-settings', { signal: controller.signal })
-      .then((res) => res.json())
+    api
+      .getObservabilitySettings({}, { signal: controller.signal })
       .then((data) => {
         if (!isMounted) return
-        const nextUrl =
-          typeof data?.settings?.sentry_dashboard_url === 'string' && data.settings.sentry_dashboard_url.trim()
-            ? data.settings.sentry_dashboard_url.trim()
-            : null
-        setSentryUrl(nextUrl)
-        if (typeof data?.settings?.log_level === 'string' && data.settings.log_level.trim()) {
-          setLogLevel(data.settings.log_level.trim())
+        setSentryUrl(data.settings.sentry_dashboard_url?.trim() || null)
+        const nextLogLevel = data.settings.log_level?.trim()
+        if (nextLogLevel) {
+          setLogLevel(nextLogLevel)
         }
       })
       .catch(() => {
@@ -250,11 +248,7 @@ export default function PageHeader({
     setIsUpdatingLogLevel(true)
     setLogLevel(nextLevel)
     try {
-      await fetch('/api/admin/observability-settings', {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ log_level: nextLevel }),
-      })
+      await api.updateObservabilitySettings({ body: { log_level: nextLevel } }).catch(() => {})
     } finally {
       setIsUpdatingLogLevel(false)
     }
@@ -276,24 +270,12 @@ export default function PageHeader({
     setAdminRequestStatus('idle')
     setAdminRequestMessage(null)
     try {
-      const res = await fetch('/api/admin/requests', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const { status } = await api.requestAdminAccess({
+        body: {
           displayName: adminRequestName.trim() || userName || '',
           email: trimmedEmail,
-        }),
+        },
       })
-      if (!res.ok) {
-        const payload = await res.json().catch(() => ({}))
-        const message = typeof payload?.error === 'string' ? payload.error : 'Failed to request admin access'
-        throw new Error(message)
-      }
-      const data = await res.json().catch(() => ({}))
-      const status =
-        data?.status === 'pending' || data?.status === 'already_admin' || data?.status === 'requested'
-          ? data.status
-          : 'requested'
       setAdminRequestStatus(status)
       setAdminRequestMessage(
         status === 'already_admin'
@@ -354,6 +336,12 @@ export default function PageHeader({
                         >
                           Playlists
                         </Link>
+                        <Link
+                          href="/library"
+                          className="block rounded-lg px-3 py-2 font-medium text-gray-700 hover:bg-gray-50 hover:text-gray-900 dark:text-slate-200 dark:hover:bg-slate-800"
+                        >
+                          Library
+                        </Link>
                         <Link
                           href="/credits"
                           className="block rounded-lg px-3 py-2 font-medium text-gray-700 hover:bg-gray-50 hover:text-gray-900 dark:text-slate-200 dark:hover:bg-slate-800"
@@ -1,6 +1,7 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import { api } from '@/lib/apiClient'
 
 export default function SpotifyAccessRequestForm() {
   const [requestStatus, setRequestStatus] = useState<'idle' | 'requested' | 'pending' | 'error'>('idle')
@@ -10,10 +11,10 @@ export default function SpotifyAccessRequestForm() {
   const [isSubmitting, setIsSubmitting] = useState(false)
 
   useEffect(() => {
-    fetch('/api/auth/status')
-      .then((res) => res.json())
+    api
+      .getAuthStatus()
       .then((data) => {
-        if (data?.authenticated && data?.user) {
+        if (data.authenticated && data.user) {
           setRequestName(data.user.display_name || data.user.id || '')
           setRequestEmail(data.user.email || '')
         }
@@ -33,20 +34,12 @@ export default function SpotifyAccessRequestForm() {
     setRequestStatus('idle')
     setRequestMessage(null)
     try {
-      const res = await fetch('/api/spotify-access/requests', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const { status } = await api.requestSpotifyAccess({
+        body: {
           displayName: requestName.trim(),
           email: trimmedEmail,
-        }),
+        },
       })
-      if (!res.ok) {
-        const payload = await res.json().catch(() => ({}))
-        throw new Error(payload?.error || 'Unable to submit request.')
-      }
-      const data = await res.json().catch(() => ({}))
-      const status = data?.status === 'pending' ? 'pending' : 'requested'
       setRequestStatus(status)
       setRequestMessage(
         status === 'pending'
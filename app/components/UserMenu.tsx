@@ -2,11 +2,12 @@
 
 import { useEffect, useState, useRef } from 'react'
 import { useRouter } from 'next/navigation'
+import { api } from '@/lib/apiClient'
 
 interface UserInfo {
   id: string
-  display_name: string
-  email?: string
+  display_name: string | null
+  email?: string | null
 }
 
 export default function UserMenu() {
@@ -18,8 +19,8 @@ export default function UserMenu() {
 
   useEffect(() => {
     // Fetch user info
-    fetch('/api/auth/status')
-      .then((res) => res.json())
+    api
+      .getAuthStatus()
       .then((data) => {
         if (data.authenticated && data.user) {
           setUser(data.user)
@@ -0,0 +1,369 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { MAX_SPOTIFY_MATCH_TRACKS } from '@/lib/apiContracts'
+import { api } from '@/lib/apiClient'
+import { ApiRequestError } from '@/lib/errors'
+
+export interface PlaylistCandidateTrack {
+  key: string
+  title: string
+  artist: string
+  isrc?: string
+  spotifyTrackId?: string
+}
+
+type BuildPlaylistModalProps = {
+  isOpen: boolean
+  defaultName: string
+  tracks: PlaylistCandidateTrack[]
+  onClose: () => void
+  // Spotify IDs found while matching, by track key, so the results table can reuse them
+  onMatched: (spotifyTrackIds: Record<string, string>) => void
+}
+
+type EditablePlaylist = { id: string; name: string; total: number }
+
+type MatchState =
+  | { state: 'matching'; done: number; total: number }
+  | { state: 'matched'; trackIds: string[]; unmatched: PlaylistCandidateTrack[] }
+  | { state: 'error'; message: string }
+
+type SaveStatus =
+  | { state: 'idle' }
+  | { state: 'saving' }
+  | { state: 'needsScope' }
+  | { state: 'error'; message: string }
+  | { state: 'done'; url: string | null; tracksAdded: number; alreadyPresent: number; tracksFailed: number }
+
+// Tracks sharing an ISRC (the same recording on several releases) only need matching once
+const matchKeyFor = (track: PlaylistCandidateTrack) =>
+  track.isrc ? `isrc:${track.isrc.toUpperCase()}` : `key:${track.key}`
+
+export default function BuildPlaylistModal({
+  isOpen,
+  defaultName,
+  tracks,
+  onClose,
+  onMatched,
+}: BuildPlaylistModalProps) {
+  const [match, setMatch] = useState<MatchState>({ state: 'matching', done: 0, total: 0 })
+  const [target, setTarget] = useState<'new' | 'existing'>('new')
+  const [name, setName] = useState(defaultName)
+  const [isPublic, setIsPublic] = useState(false)
+  const [playlists, setPlaylists] = useState<EditablePlaylist[] | null>(null)
+  const [playlistId, setPlaylistId] = useState('')
+  const [status, setStatus] = useState<SaveStatus>({ state: 'idle' })
+
+  const matchTracks = useCallback(async () => {
+    const byMatchKey = new Map<string, PlaylistCandidateTrack>()
+    for (const track of tracks) {
+      const existing = byMatchKey.get(matchKeyFor(track))
+      if (!existing || (!existing.spotifyTrackId && track.spotifyTrackId)) {
+        byMatchKey.set(matchKeyFor(track), track)
+      }
+    }
+    const requests = Array.from(byMatchKey.entries()).map(([matchKey, track]) => ({
+      key: matchKey,
+      isrc: track.isrc,
+      title: track.title,
+      artist: track.artist,
+      spotifyTrackId: track.spotifyTrackId,
+    }))
+
+    setMatch({ state: 'matching', done: 0, total: requests.length })
+    const idsByMatchKey = new Map<string, string>()
+    try {
+      for (let start = 0; start < requests.length; start += MAX_SPOTIFY_MATCH_TRACKS) {
+        const { matches } = await api.matchCreditTracks({
+          body: { tracks: requests.slice(start, start + MAX_SPOTIFY_MATCH_TRACKS) },
+        })
+        for (const item of matches) {
+          if (item.spotifyTrackId) idsByMatchKey.set(item.key, item.spotifyTrackId)
+        }
+        setMatch({ state: 'matching', done: Math.min(start + MAX_SPOTIFY_MATCH_TRACKS, requests.length), total: requests.length })
+      }
+    } catch (error) {
+      setMatch({ state: 'error', message: error instanceof Error ? error.message : 'Failed to match tracks' })
+      return
+    }
+
+    const found: Record<string, string> = {}
+    const trackIds: string[] = []
+    const unmatched: PlaylistCandidateTrack[] = []
+    const seenIds = new Set<string>()
+    const seenUnmatched = new Set<string>()
+    for (const track of tracks) {
+      const id = idsByMatchKey.get(matchKeyFor(track))
+      if (!id) {
+        if (!seenUnmatched.has(matchKeyFor(track))) {
+          seenUnmatched.add(matchKeyFor(track))
+          unmatched.push(track)
+        }
+        continue
+      }
+      if (id !== track.spotifyTrackId) found[track.key] = id
+      if (!seenIds.has(id)) {
+        seenIds.add(id)
+        trackIds.push(id)
+      }
+    }
+    if (Object.keys(found).length > 0) onMatched(found)
+    setMatch({ state: 'matched', trackIds, unmatched })
+  }, [tracks, onMatched])
+
+  useEffect(() => {
+    if (!isOpen) return
+    setName(defaultName)
+    setTarget('new')
+    setStatus({ state: 'idle' })
+    void matchTracks()
+    // Only rematch when the modal is opened, not when matching updates the results
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen])
+
+  useEffect(() => {
+    if (!isOpen || target !== 'existing' || playlists) return
+    let cancelled = false
+    Promise.all([api.getAuthStatus(), api.listPlaylists({ query: { includeFollowers: false } })])
+      .then(([auth, list]) => {
+        if (cancelled) return
+        // Spotify only accepts additions to playlists the user owns or collaborates on
+        const editable = list
+          .filter((playlist) => playlist.collaborative || playlist.owner?.id === auth.user?.id)
+          .map((playlist) => ({ id: playlist.id, name: playlist.name, total: playlist.tracks?.total ?? 0 }))
+        setPlaylists(editable)
+        setPlaylistId((current) => current || editable[0]?.id || '')
+      })
+      .catch(() => {
+        if (!cancelled) setPlaylists([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, target, playlists])
+
+  if (!isOpen) {
+    return null
+  }
+
+  const matchedIds = match.state === 'matched' ? match.trackIds : []
+
+  const handleSave = async () => {
+    setStatus({ state: 'saving' })
+    try {
+      if (target === 'new') {
+        const data = await api.createPlaylist({
+          body: {
+            name,
+            description: `Created with Spotify Playlist Tools from credits search (${matchedIds.length} tracks)`,
+            public: isPublic,
+            trackIds: matchedIds,
+          },
+        })
+        setStatus({
+          state: 'done',
+          url: data.url,
+          tracksAdded: data.tracksAdded,
+          alreadyPresent: 0,
+          tracksFailed: data.tracksFailed,
+        })
+      } else {
+        const data = await api.addPlaylistTracks({ params: { id: playlistId }, body: { trackIds: matchedIds } })
+        setStatus({
+          state: 'done',
+          url: `https://open.spotify.com/playlist/${playlistId}`,
+          tracksAdded: data.tracksAdded,
+          alreadyPresent: data.alreadyPresent,
+          tracksFailed: 0,
+        })
+      }
+    } catch (error) {
+      const code = error instanceof ApiRequestError ? (error.body as { code?: string } | null)?.code : undefined
+      if (code === 'missing_scope') {
+        setStatus({ state: 'needsScope' })
+        return
+      }
+      setStatus({
+        state: 'error',
+        message: error instanceof Error ? error.message : 'Failed to save playlist',
+      })
+    }
+  }
+
+  const reauthorizeUrl = `/api/auth/reauthorize?scope=write&returnTo=${encodeURIComponent(
+    typeof window !== 'undefined' ? window.location.pathname + window.location.search : '/credits'
+  )}`
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6 dark:bg-slate-900 dark:text-slate-100"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-slate-100">Build Spotify playlist</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-slate-200 dark:hover:text-white text-2xl"
+          >
+            ×
+          </button>
+        </div>
+
+        {match.state === 'matching' ? (
+          <p className="text-sm text-gray-600 dark:text-slate-300">
+            Matching tracks on Spotify… {match.done} of {match.total}
+          </p>
+        ) : match.state === 'error' ? (
+          <div className="space-y-4 text-sm">
+            <p className="text-red-600">{match.message}</p>
+            <button
+              type="button"
+              onClick={() => void matchTracks()}
+              className="rounded-full border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 dark:border-slate-600 dark:text-slate-200"
+            >
+              Try again
+            </button>
+          </div>
+        ) : status.state === 'done' ? (
+          <div className="space-y-4 text-sm text-gray-700 dark:text-slate-200">
+            <p>
+              {target === 'new' ? 'Playlist created' : 'Playlist updated'} with {status.tracksAdded} tracks
+              {status.alreadyPresent > 0 ? ` (${status.alreadyPresent} were already in it)` : ''}.
+            </p>
+            {status.tracksFailed > 0 && (
+              <p className="text-red-600">
+                Spotify stopped accepting tracks partway through, so {status.tracksFailed} tracks were not added. The
+                playlist was kept; open it to check what is there before trying again.
+              </p>
+            )}
+            {status.url && (
+              <a
+                href={status.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-block rounded-full bg-[#18B45A] px-4 py-2 text-sm font-semibold text-white hover:bg-[#149A4C]"
+              >
+                Open in Spotify
+              </a>
+            )}
+          </div>
+        ) : status.state === 'needsScope' ? (
+          <div className="space-y-4 text-sm text-gray-700 dark:text-slate-200">
+            <p>
+              Saving playlists needs permission to modify your Spotify playlists. You will be sent to Spotify to
+              grant it and then brought back to this search.
+            </p>
+            <a
+              href={reauthorizeUrl}
+              className="inline-block rounded-full bg-[#18B45A] px-4 py-2 text-sm font-semibold text-white hover:bg-[#149A4C]"
+            >
+              Grant write access
+            </a>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-slate-300">
+              {match.trackIds.length} tracks matched on Spotify and will be added in the current order.
+              {match.unmatched.length > 0 ? ` ${match.unmatched.length} could not be matched.` : ''}
+            </p>
+            {match.unmatched.length > 0 && (
+              <details className="text-xs text-gray-600 dark:text-slate-300">
+                <summary className="cursor-pointer font-semibold">Unmatched tracks</summary>
+                <ul className="mt-2 max-h-40 overflow-auto space-y-1">
+                  {match.unmatched.map((track) => (
+                    <li key={track.key}>
+                      {track.title} — {track.artist}
+                      {track.isrc ? <span className="text-gray-400"> ({track.isrc})</span> : null}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+            <div className="flex gap-4 text-sm text-gray-700 dark:text-slate-200">
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={target === 'new'} onChange={() => setTarget('new')} />
+                New playlist
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={target === 'existing'} onChange={() => setTarget('existing')} />
+                Add to existing
+              </label>
+            </div>
+            {target === 'new' ? (
+              <>
+                <label className="block">
+                  <span className="block text-sm font-medium text-gray-700 dark:text-slate-200 mb-1">Name</span>
+                  <input
+                    type="text"
+                    value={name}
+                    maxLength={100}
+                    onChange={(e) => setName(e.target.value)}
+                    className="w-full px-3 py-2 bg-white border border-gray-300 rounded text-gray-900 text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </label>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={isPublic}
+                    onChange={(e) => setIsPublic(e.target.checked)}
+                    className="mr-2 w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                  />
+                  <span className="text-sm text-gray-700 dark:text-slate-200">Public playlist</span>
+                </label>
+              </>
+            ) : playlists === null ? (
+              <p className="text-sm text-gray-500">Loading your playlists…</p>
+            ) : playlists.length === 0 ? (
+              <p className="text-sm text-gray-500">No playlists you can edit were found.</p>
+            ) : (
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 dark:text-slate-200 mb-1">Playlist</span>
+                <select
+                  value={playlistId}
+                  onChange={(e) => setPlaylistId(e.target.value)}
+                  className="w-full px-3 py-2 bg-white border border-gray-300 rounded text-gray-900 text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                  {playlists.map((playlist) => (
+                    <option key={playlist.id} value={playlist.id}>
+                      {playlist.name} ({playlist.total} tracks)
+                    </option>
+                  ))}
+                </select>
+                <span className="mt-1 block text-xs text-gray-500">Tracks already in the playlist are skipped.</span>
+              </label>
+            )}
+            {status.state === 'error' && (
+              <p className="text-sm text-red-600">{status.message}</p>
+            )}
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="rounded-full border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 dark:border-slate-600 dark:text-slate-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={
+                  status.state === 'saving' ||
+                  matchedIds.length === 0 ||
+                  (target === 'new' ? !name.trim() : !playlistId)
+                }
+                className="rounded-full bg-[#18B45A] px-4 py-2 text-sm font-semibold text-white hover:bg-[#149A4C] disabled:bg-gray-400"
+              >
+                {status.state === 'saving' ? 'Saving...' : target === 'new' ? 'Create playlist' : 'Add tracks'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
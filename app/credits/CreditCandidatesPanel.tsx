@@ -0,0 +1,168 @@
+'use client'
+
+import Image from 'next/image'
+import { useState } from 'react'
+import type { CreditCandidates, MusicBrainzArtistCandidate, MusoProfileCandidate } from '@/lib/creditCandidates'
+import type { CreditIdentity } from '@/lib/creditIdentity'
+
+interface CreditCandidatesPanelProps {
+  candidates: CreditCandidates
+  onConfirm: (identity: CreditIdentity) => void
+  onSkip: () => void
+}
+
+const formatActiveYears = (candidate: MusicBrainzArtistCandidate) => {
+  const { begin, end } = candidate.activeYears
+  if (begin === null && end === null) return null
+  return `${begin ?? '?'}–${end ?? ''}`
+}
+
+const describeArtist = (candidate: MusicBrainzArtistCandidate) =>
+  [candidate.type, candidate.area ?? candidate.country, formatActiveYears(candidate)].filter(Boolean).join(' · ')
+
+const describeProfile = (candidate: MusoProfileCandidate) =>
+  [
+    candidate.commonCredits.slice(0, 3).join(', '),
+    candidate.creditCount !== null ? `${candidate.creditCount} credits` : null,
+    candidate.collaboratorsCount !== null ? `${candidate.collaboratorsCount} collaborators` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ')
+
+function SampleCredits({ titles }: { titles: string[] }) {
+  if (titles.length === 0) return null
+  return <div className="text-xs text-gray-500 truncate">e.g. {titles.join(', ')}</div>
+}
+
+export default function CreditCandidatesPanel({ candidates, onConfirm, onSkip }: CreditCandidatesPanelProps) {
+  const [artistId, setArtistId] = useState<string | null>(candidates.musicbrainz[0]?.id ?? null)
+  const [profileId, setProfileId] = useState<string | null>(candidates.muso[0]?.id ?? null)
+
+  const handleConfirm = () => {
+    const artist = candidates.musicbrainz.find((candidate) => candidate.id === artistId)
+    const profile = candidates.muso.find((candidate) => candidate.id === profileId)
+    onConfirm({
+      name: artist?.name ?? profile?.name ?? candidates.name,
+      musicBrainzArtistId: artist?.id ?? null,
+      musoProfileId: profile?.id ?? null,
+    })
+  }
+
+  const optionClass = (selected: boolean) =>
+    `flex items-start gap-3 rounded-lg border px-3 py-2 cursor-pointer transition ${
+      selected ? 'border-emerald-400 bg-emerald-50/50' : 'border-gray-200 hover:border-gray-300'
+    }`
+
+  return (
+    <div className="rounded-2xl border border-gray-100 bg-white p-4 sm:p-6 shadow-[0_4px_20px_rgba(0,0,0,0.05)]">
+      <div className="mb-3">
+        <h2 className="text-lg font-semibold text-gray-900">Which {candidates.name}?</h2>
+        <p className="text-sm text-gray-500">
+          Several people match this name. Your choice is remembered for later searches.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {candidates.musicbrainz.length > 0 && (
+          <fieldset className="space-y-2">
+            <legend className="mb-2 text-xs font-semibold uppercase tracking-[0.08em] text-gray-400">MusicBrainz</legend>
+            {candidates.musicbrainz.map((candidate) => (
+              <label key={candidate.id} className={optionClass(artistId === candidate.id)}>
+                <input
+                  type="radio"
+                  name="credit-candidate-musicbrainz"
+                  checked={artistId === candidate.id}
+                  onChange={() => setArtistId(candidate.id)}
+                  className="mt-1"
+                />
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold text-gray-900">
+                    {candidate.name}
+                    {candidate.disambiguation && (
+                      <span className="font-normal text-gray-500"> ({candidate.disambiguation})</span>
+                    )}
+                  </div>
+                  {describeArtist(candidate) && <div className="text-xs text-gray-600">{describeArtist(candidate)}</div>}
+                  {candidate.aliases.length > 0 && (
+                    <div className="text-xs text-gray-500 truncate">Also known as {candidate.aliases.join(', ')}</div>
+                  )}
+                  <SampleCredits titles={candidate.sampleCredits} />
+                </div>
+              </label>
+            ))}
+            <label className={optionClass(artistId === null)}>
+              <input
+                type="radio"
+                name="credit-candidate-musicbrainz"
+                checked={artistId === null}
+                onChange={() => setArtistId(null)}
+                className="mt-1"
+              />
+              <span className="text-sm text-gray-600">None of these</span>
+            </label>
+          </fieldset>
+        )}
+
+        {candidates.muso.length > 0 && (
+          <fieldset className="space-y-2">
+            <legend className="mb-2 text-xs font-semibold uppercase tracking-[0.08em] text-gray-400">Muso</legend>
+            {candidates.muso.map((candidate) => (
+              <label key={candidate.id} className={optionClass(profileId === candidate.id)}>
+                <input
+                  type="radio"
+                  name="credit-candidate-muso"
+                  checked={profileId === candidate.id}
+                  onChange={() => setProfileId(candidate.id)}
+                  className="mt-1"
+                />
+                {candidate.avatarUrl && (
+                  <Image
+                    src={candidate.avatarUrl}
+                    alt={candidate.name}
+                    width={32}
+                    height={32}
+                    unoptimized
+                    className="h-8 w-8 rounded-full object-cover"
+                  />
+                )}
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold text-gray-900">{candidate.name}</div>
+                  {describeProfile(candidate) && <div className="text-xs text-gray-600">{describeProfile(candidate)}</div>}
+                  <SampleCredits titles={candidate.sampleCredits} />
+                </div>
+              </label>
+            ))}
+            <label className={optionClass(profileId === null)}>
+              <input
+                type="radio"
+                name="credit-candidate-muso"
+                checked={profileId === null}
+                onChange={() => setProfileId(null)}
+                className="mt-1"
+              />
+              <span className="text-sm text-gray-600">None of these</span>
+            </label>
+          </fieldset>
+        )}
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={handleConfirm}
+          disabled={artistId === null && profileId === null}
+          className="inline-flex items-center justify-center rounded-full border border-emerald-500 px-5 py-2 text-xs font-semibold text-emerald-600 transition hover:border-emerald-600 hover:text-emerald-700 disabled:opacity-60"
+        >
+          Search this person
+        </button>
+        <button
+          type="button"
+          onClick={onSkip}
+          className="inline-flex items-center justify-center rounded-full border border-gray-200 px-5 py-2 text-xs font-semibold text-gray-600 transition hover:border-gray-300"
+        >
+          Search by name only
+        </button>
+      </div>
+    </div>
+  )
+}
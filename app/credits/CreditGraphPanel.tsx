@@ -0,0 +1,299 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { api } from '@/lib/apiClient'
+import type { CreditGraph, CreditGraphNode, CreditGraphRole } from '@/lib/creditGraph'
+import type { CreditIdentity } from '@/lib/creditIdentity'
+
+interface CreditGraphPanelProps {
+  name: string
+  identity: CreditIdentity | null
+  onSelect: (name: string, role: CreditGraphRole) => void
+}
+
+const ROLE_GROUPS: Array<{ role: CreditGraphRole; label: string; className: string }> = [
+  { role: 'artist', label: 'Artists', className: 'text-sky-500' },
+  { role: 'producer', label: 'Producers', className: 'text-emerald-500' },
+  { role: 'songwriter', label: 'Co-writers', className: 'text-amber-500' },
+  { role: 'mixer', label: 'Mixers', className: 'text-violet-500' },
+  { role: 'mastering', label: 'Mastering', className: 'text-rose-500' },
+]
+
+const WIDTH = 720
+const HEIGHT = 460
+const CENTER_X = WIDTH / 2
+const CENTER_Y = HEIGHT / 2
+const MIN_RADIUS = 90
+const MAX_RADIUS = 200
+
+interface PositionedNode extends CreditGraphNode {
+  x: number
+  y: number
+  size: number
+}
+
+/**
+ * Radial layout: roles occupy consecutive slices of the circle and the most
+ * frequent collaborators sit closest to the centre
+ */
+function layoutNodes(nodes: CreditGraphNode[]): PositionedNode[] {
+  const maxWeight = Math.max(1, ...nodes.map((node) => node.weight))
+  const step = (2 * Math.PI) / Math.max(nodes.length, 1)
+  return nodes.map((node, index) => {
+    const angle = index * step - Math.PI / 2
+    const radius = MAX_RADIUS - (node.weight / maxWeight) * (MAX_RADIUS - MIN_RADIUS)
+    return {
+      ...node,
+      x: CENTER_X + Math.cos(angle) * radius,
+      y: CENTER_Y + Math.sin(angle) * radius,
+      size: 5 + Math.sqrt(node.weight / maxWeight) * 9,
+    }
+  })
+}
+
+const formatYears = (node: CreditGraphNode) => {
+  if (node.firstYear === null || node.lastYear === null) return ''
+  return node.firstYear === node.lastYear ? `${node.firstYear}` : `${node.firstYear}–${node.lastYear}`
+}
+
+export default function CreditGraphPanel({ name, identity, onSelect }: CreditGraphPanelProps) {
+  const [graph, setGraph] = useState<CreditGraph | null>(null)
+  const [yearRange, setYearRange] = useState<{ min: number; max: number } | null>(null)
+  const [yearFrom, setYearFrom] = useState<number | null>(null)
+  const [yearTo, setYearTo] = useState<number | null>(null)
+  const [hiddenRoles, setHiddenRoles] = useState<Set<CreditGraphRole>>(new Set())
+  const [hoveredId, setHoveredId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    api.getCreditGraph({
+      query: {
+        name,
+        yearFrom: yearFrom ?? undefined,
+        yearTo: yearTo ?? undefined,
+        artistId: identity?.musicBrainzArtistId ?? undefined,
+        musoProfileId: identity?.musoProfileId ?? undefined,
+      },
+    })
+      .then((data) => {
+        if (cancelled) return
+        setGraph(data)
+        // The unfiltered graph spans every year, so keep its range for the filter options
+        if (yearFrom === null && yearTo === null) {
+          setYearRange(data.years)
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load collaborators')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [identity?.musicBrainzArtistId, identity?.musoProfileId, name, yearFrom, yearTo])
+
+  const visibleNodes = useMemo(
+    () => layoutNodes((graph?.nodes ?? []).filter((node) => !hiddenRoles.has(node.role))),
+    [graph, hiddenRoles]
+  )
+  const nodesById = useMemo(() => new Map(visibleNodes.map((node) => [node.id, node])), [visibleNodes])
+  const visibleEdges = useMemo(
+    () => (graph?.edges ?? []).filter((edge) => nodesById.has(edge.source) && nodesById.has(edge.target)),
+    [graph, nodesById]
+  )
+  const maxWeight = Math.max(1, ...visibleNodes.map((node) => node.weight))
+  const maxEdgeWeight = Math.max(1, ...visibleEdges.map((edge) => edge.weight))
+  const hoveredNode = hoveredId ? nodesById.get(hoveredId) ?? null : null
+  const roleStyle = (role: CreditGraphRole) => ROLE_GROUPS.find((group) => group.role === role)
+
+  const yearOptions = yearRange
+    ? Array.from({ length: yearRange.max - yearRange.min + 1 }, (_, index) => yearRange.min + index)
+    : []
+
+  const toggleRole = (role: CreditGraphRole) => {
+    setHiddenRoles((prev) => {
+      const next = new Set(prev)
+      if (next.has(role)) {
+        next.delete(role)
+      } else {
+        next.add(role)
+      }
+      return next
+    })
+  }
+
+  return (
+    <div className="rounded-2xl border border-gray-100 bg-white p-4 sm:p-6 shadow-[0_4px_20px_rgba(0,0,0,0.05)] dark:border-slate-800 dark:bg-slate-900">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-3">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-slate-100">Collaborators</h2>
+        <span className="text-sm text-gray-500 dark:text-slate-400">
+          {graph ? `${graph.trackCount} tracks` : ''}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        {ROLE_GROUPS.map((group) => (
+          <button
+            key={group.role}
+            type="button"
+            onClick={() => toggleRole(group.role)}
+            className={`inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-xs font-semibold transition ${
+              hiddenRoles.has(group.role)
+                ? 'border-gray-200 text-gray-400 dark:border-slate-700 dark:text-slate-500'
+                : 'border-gray-300 text-gray-700 dark:border-slate-600 dark:text-slate-200'
+            }`}
+          >
+            <span className={`h-2 w-2 rounded-full bg-current ${group.className}`} />
+            {group.label}
+          </button>
+        ))}
+        <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-slate-300">
+          <label htmlFor="credit-graph-year-from">From</label>
+          <select
+            id="credit-graph-year-from"
+            value={yearFrom ?? ''}
+            onChange={(event) => setYearFrom(event.target.value ? Number(event.target.value) : null)}
+            disabled={yearOptions.length === 0}
+            className="bg-transparent border-b border-gray-300 py-1 focus:outline-none focus:border-gray-500"
+          >
+            <option value="">Any</option>
+            {yearOptions.filter((year) => yearTo === null || year <= yearTo).map((year) => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+          <label htmlFor="credit-graph-year-to">to</label>
+          <select
+            id="credit-graph-year-to"
+            value={yearTo ?? ''}
+            onChange={(event) => setYearTo(event.target.value ? Number(event.target.value) : null)}
+            disabled={yearOptions.length === 0}
+            className="bg-transparent border-b border-gray-300 py-1 focus:outline-none focus:border-gray-500"
+          >
+            <option value="">Any</option>
+            {yearOptions.filter((year) => yearFrom === null || year >= yearFrom).map((year) => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {!error && graph && visibleNodes.length === 0 && !loading && (
+        <div className="text-sm text-gray-500 dark:text-slate-400">
+          No collaborators found yet. Credits are collected as searches and playlist credit lookups run.
+        </div>
+      )}
+
+      {visibleNodes.length > 0 && (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className={`w-full h-auto ${loading ? 'opacity-60' : ''}`}
+          role="img"
+          aria-label={`Collaborators of ${name}`}
+        >
+          {visibleEdges.map((edge) => {
+            const source = nodesById.get(edge.source)!
+            const target = nodesById.get(edge.target)!
+            const highlighted = hoveredId === edge.source || hoveredId === edge.target
+            return (
+              <line
+                key={`${edge.source}-${edge.target}`}
+                x1={source.x}
+                y1={source.y}
+                x2={target.x}
+                y2={target.y}
+                stroke="currentColor"
+                strokeWidth={0.5 + (edge.weight / maxEdgeWeight) * 2}
+                className={highlighted ? 'text-gray-500 dark:text-slate-400' : 'text-gray-200 dark:text-slate-800'}
+              />
+            )
+          })}
+          {visibleNodes.map((node) => (
+            <line
+              key={`center-${node.id}`}
+              x1={CENTER_X}
+              y1={CENTER_Y}
+              x2={node.x}
+              y2={node.y}
+              stroke="currentColor"
+              strokeWidth={1 + (node.weight / maxWeight) * 5}
+              className={`${roleStyle(node.role)?.className ?? ''} ${
+                hoveredId && hoveredId !== node.id ? 'opacity-20' : 'opacity-50'
+              }`}
+            />
+          ))}
+          <circle cx={CENTER_X} cy={CENTER_Y} r={18} fill="currentColor" className="text-gray-900 dark:text-slate-100" />
+          <text
+            x={CENTER_X}
+            y={CENTER_Y + 34}
+            textAnchor="middle"
+            fill="currentColor"
+            className="text-[13px] font-semibold text-gray-900 dark:text-slate-100"
+          >
+            {name}
+          </text>
+          {visibleNodes.map((node) => (
+            <g
+              key={node.id}
+              role="button"
+              tabIndex={0}
+              onClick={() => onSelect(node.name, node.role)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter' || event.key === ' ') {
+                  event.preventDefault()
+                  onSelect(node.name, node.role)
+                }
+              }}
+              onMouseEnter={() => setHoveredId(node.id)}
+              onMouseLeave={() => setHoveredId(null)}
+              onFocus={() => setHoveredId(node.id)}
+              onBlur={() => setHoveredId(null)}
+              className="cursor-pointer focus:outline-none"
+            >
+              <title>{`${node.name} (${roleStyle(node.role)?.label}) · ${node.weight} shared tracks`}</title>
+              <circle
+                cx={node.x}
+                cy={node.y}
+                r={node.size}
+                fill="currentColor"
+                className={roleStyle(node.role)?.className}
+              />
+              <text
+                x={node.x}
+                y={node.y - node.size - 4}
+                textAnchor="middle"
+                fill="currentColor"
+                className={`text-[11px] ${
+                  hoveredId === node.id ? 'font-semibold text-gray-900 dark:text-slate-100' : 'text-gray-600 dark:text-slate-300'
+                }`}
+              >
+                {node.name.length > 22 ? `${node.name.slice(0, 21)}…` : node.name}
+              </text>
+            </g>
+          ))}
+        </svg>
+      )}
+
+      <div className="mt-2 min-h-[1.25rem] text-xs text-gray-500 dark:text-slate-400">
+        {hoveredNode
+          ? `${hoveredNode.name} · ${roleStyle(hoveredNode.role)?.label} · ${hoveredNode.weight} shared tracks${
+              formatYears(hoveredNode) ? ` · ${formatYears(hoveredNode)}` : ''
+            } · click to search their credits`
+          : loading
+            ? 'Loading collaborators…'
+            : 'Line thickness shows how many tracks are shared. Click a name to search their credits.'}
+      </div>
+    </div>
+  )
+}
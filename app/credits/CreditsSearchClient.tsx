@@ -2,10 +2,32 @@
 
 import Image from 'next/image'
 import { useSearchParams } from 'next/navigation'
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { apiContracts } from '@/lib/apiContracts'
+import { api, buildApiUrl } from '@/lib/apiClient'
+import {
+  CREDIT_ROLE_IDS,
+  CREDIT_ROLES,
+  DEFAULT_CREDIT_ROLE,
+  creditRoleCacheKey,
+  isCreditRole,
+  normalizeCreditInstrument,
+  type CreditRole,
+} from '@/lib/creditRoles'
+import {
+  COMPOSITE_CREDIT_ROLE,
+  MAX_CREDIT_QUERY_CLAUSES,
+  MAX_CREDIT_QUERY_TERMS,
+  formatCreditQuery,
+  formatCreditQueryClause,
+  type CreditQueryClause,
+} from '@/lib/creditQuery'
+import { creditIdentityCacheName, type CreditIdentity } from '@/lib/creditIdentity'
+import type { CreditCandidates } from '@/lib/creditCandidates'
 import { formatDuration } from '@/lib/musicbrainz'
-
-type RoleOption = 'producer' | 'songwriter' | 'mixer' | 'engineer' | 'artist'
+import BuildPlaylistModal, { type PlaylistCandidateTrack } from './BuildPlaylistModal'
+import CreditCandidatesPanel from './CreditCandidatesPanel'
+import CreditGraphPanel from './CreditGraphPanel'
 
 interface MusoProfileSummary {
   id?: string
@@ -36,20 +58,71 @@ interface SearchResult {
   source?: 'muso' | 'musicbrainz'
 }
 
-const ROLE_OPTIONS: Array<{ value: RoleOption; label: string }> = [
-  { value: 'producer', label: 'Producer' },
-  { value: 'songwriter', label: 'Songwriter' },
-  { value: 'mixer', label: 'Mixer' },
-  { value: 'engineer', label: 'Engineer' },
-  { value: 'artist', label: 'Artist' },
-]
+const ROLE_OPTIONS = CREDIT_ROLE_IDS.map((value) => ({ value, label: CREDIT_ROLES[value].label }))
+
+// What a results stream searches for; clauses switch it to a composite search
+interface SearchTarget {
+  role: CreditRole
+  instrument: string
+  clauses?: string[]
+  // Person picked in disambiguation; undefined looks up the remembered choice for the name
+  identity?: CreditIdentity | null
+}
+
+interface ClauseRow {
+  role: CreditRole
+  instrument: string
+  // One name, or aliases separated by |
+  names: string
+}
+
+const targetCacheRole = (target: SearchTarget) =>
+  target.clauses?.length ? COMPOSITE_CREDIT_ROLE : creditRoleCacheKey(target.role, target.instrument)
+
+const identityFor = (identities: Record<string, CreditIdentity>, searchName: string): CreditIdentity | null =>
+  identities[searchName.trim().toLowerCase()] ?? null
+
+// Results cached for a chosen person are keyed by their IDs, like credits_cache
+const localCacheName = (searchName: string, identity: CreditIdentity | null, searchRole: CreditRole) =>
+  (identity && creditIdentityCacheName(identity, searchRole)) || searchName
 
 const cacheKeyFor = (searchName: string, searchRole: string, startDate: string, endDate: string) =>
   `credits_cache_${searchRole}_${searchName.toLowerCase()}_${startDate || 'any'}_${endDate || 'any'}`
 
 export default function CreditsSearchClient() {
   const [name, setName] = useState('')
-  const [role, setRole] = useState<RoleOption>('producer')
+  const [role, setRole] = useState<CreditRole>(DEFAULT_CREDIT_ROLE)
+  const [instrument, setInstrument] = useState('')
+  const [graphName, setGraphName] = useState<string | null>(null)
+  const [showGraph, setShowGraph] = useState(false)
+  // Chosen person per lowercased search name, remembered in localStorage
+  const [identities, setIdentities] = useState<Record<string, CreditIdentity>>({})
+  const [candidates, setCandidates] = useState<CreditCandidates | null>(null)
+  const currentIdentity = identityFor(identities, name)
+  const [compositeMode, setCompositeMode] = useState(false)
+  const [clauseRows, setClauseRows] = useState<ClauseRow[]>([
+    { role: 'producer', instrument: '', names: '' },
+    { role: 'mixer', instrument: '', names: '' },
+  ])
+  const compositeClauses = useMemo<CreditQueryClause[]>(
+    () =>
+      clauseRows
+        .map((row) =>
+          row.names
+            .split('|')
+            .map((value) => value.trim())
+            .filter(Boolean)
+            .slice(0, MAX_CREDIT_QUERY_TERMS)
+            .map((value) => ({
+              name: value,
+              role: row.role,
+              instrument: normalizeCreditInstrument(row.role, row.instrument),
+            }))
+        )
+        .filter((clause) => clause.length > 0),
+    [clauseRows]
+  )
+  const searchLabel = compositeMode ? formatCreditQuery(compositeClauses) : name
   const [profileInfo, setProfileInfo] = useState<MusoProfileSummary | null>(null)
   const [results, setResults] = useState<SearchResult[]>([])
   const [trackCount, setTrackCount] = useState(0)
@@ -72,6 +145,8 @@ export default function CreditsSearchClient() {
   const [pageSize, setPageSize] = useState<number>(20)
   const [currentPage, setCurrentPage] = useState(1)
   const totalWorksRef = useRef<number | null>(null)
+  // Composite searches stop paging a term at a cap; the total is then a lower bound
+  const truncatedRef = useRef(false)
   const autoLoadRef = useRef(true)
   const replaceOnFirstResultRef = useRef(false)
   const [sortField, setSortField] = useState<'title' | 'artist' | 'album' | 'duration' | 'bpm' | 'key' | 'year' | null>('year')
@@ -85,6 +160,7 @@ export default function CreditsSearchClient() {
   const [bpmLoadingIsrcs, setBpmLoadingIsrcs] = useState<Set<string>>(new Set())
   const [bpmBatchLoading, setBpmBatchLoading] = useState(false)
   const [bpmBulkLoading, setBpmBulkLoading] = useState(false)
+  const [showBuildPlaylist, setShowBuildPlaylist] = useState(false)
   const bpmFetchedIsrcsRef = useRef<Set<string>>(new Set())
   const bpmFetchTimeoutRef = useRef<number | null>(null)
   const searchParams = useSearchParams()
@@ -93,6 +169,7 @@ export default function CreditsSearchClient() {
   const limit = Math.min(pageSize, 50)
   const historyKey = 'creditsSearchHistory'
   const pageSizeKey = 'credits_rows_per_page'
+  const identitiesKey = 'credits_artist_identities'
   useEffect(() => {
     if (typeof window === 'undefined') return
     const storedPageSize = window.localStorage.getItem(pageSizeKey)
@@ -109,6 +186,15 @@ export default function CreditsSearchClient() {
     } catch {
       // Ignore invalid localStorage
     }
+    try {
+      const stored = window.localStorage.getItem(identitiesKey)
+      const parsed = stored ? JSON.parse(stored) : null
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        setIdentities(parsed)
+      }
+    } catch {
+      // Ignore invalid localStorage
+    }
   }, [])
 
 
@@ -134,13 +220,7 @@ export default function CreditsSearchClient() {
     if (isrcs.length === 0) return
     setBpmBatchLoading(true)
     try {
-      const res = await fetch('/api/bpm/by-isrc/batch', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ isrcs }),
-      })
-      const payload = await res.json().catch(() => ({}))
-      const results = payload?.results || {}
+      const { results } = await api.getBpmByIsrcBatch({ body: { isrcs } })
       setBpmByIsrc((prev) => {
         const next = { ...prev }
         for (const isrc of isrcs) {
@@ -217,11 +297,7 @@ export default function CreditsSearchClient() {
       url = `https://api.deezer.com/track/isrc:${encodeURIComponent(track.isrc)}`
     }
     if (url.includes('api.deezer.com')) {
-      const response = await fetch(`/api/deezer-preview?url=${encodeURIComponent(url)}`)
-      if (!response.ok) {
-        return null
-      }
-      const data = await response.json()
+      const data = await api.resolveDeezerPreview({ query: { url } }).catch(() => null)
       if (!data?.previewUrl) {
         return null
       }
@@ -230,7 +306,7 @@ export default function CreditsSearchClient() {
     const isDeezerLike =
       url.includes('deezer.com') || url.includes('cdn-preview') || url.includes('cdnt-preview') || url.includes('e-cdn-preview')
     if (isDeezerLike) {
-      return `/api/audio-proxy?url=${encodeURIComponent(url)}`
+      return buildApiUrl(apiContracts.proxyAudio, { query: { url } })
     }
     return url
   }
@@ -273,13 +349,20 @@ export default function CreditsSearchClient() {
     offset = 0,
     append = false,
     refresh = false,
-    replaceOnFirstResult = false
+    replaceOnFirstResult = false,
+    // Searches started from the URL or the collaborator graph run before the role state updates
+    target: SearchTarget = compositeMode
+      ? { role, instrument, clauses: compositeClauses.map(formatCreditQueryClause) }
+      : { role, instrument }
   ) => {
     const trimmed = searchName.trim()
     if (!trimmed) {
       setError('Enter a name to search')
       return
     }
+    const identity = target.clauses?.length
+      ? null
+      : target.identity !== undefined ? target.identity : identityFor(identities, trimmed)
     if (streamRef.current) {
       streamRef.current.close()
       streamRef.current = null
@@ -294,7 +377,10 @@ export default function CreditsSearchClient() {
       setLastBatchCount(0)
       setTotalWorks(null)
       totalWorksRef.current = null
+      truncatedRef.current = false
       setCurrentPage(1)
+      setGraphName(target.clauses?.length ? null : trimmed)
+      setCandidates(null)
       autoLoadRef.current = true
       setShowingCached(false)
       setProfileInfo(null)
@@ -314,8 +400,21 @@ export default function CreditsSearchClient() {
     setStatusMessage(`Loading ${limit} results…`)
     const refreshParam = refresh ? '&refresh=true' : ''
     const params = new URLSearchParams()
-    params.set('name', trimmed)
-    params.set('role', role)
+    if (target.clauses?.length) {
+      target.clauses.forEach((clause) => params.append('clause', clause))
+    } else {
+      params.set('name', trimmed)
+      params.set('role', target.role)
+      if (target.role === 'instrument' && target.instrument.trim()) {
+        params.set('instrument', target.instrument.trim())
+      }
+      if (identity?.musicBrainzArtistId) {
+        params.set('artistId', identity.musicBrainzArtistId)
+      }
+      if (identity?.musoProfileId) {
+        params.set('musoProfileId', identity.musoProfileId)
+      }
+    }
     params.set('limit', String(limit))
     params.set('offset', String(offset))
     params.set('stream', 'true')
@@ -344,6 +443,7 @@ export default function CreditsSearchClient() {
             setTotalWorks(payload.totalWorks)
             totalWorksRef.current = payload.totalWorks
           }
+          truncatedRef.current = payload.truncated === true
           return
         }
         if (payload.type === 'profile') {
@@ -384,7 +484,8 @@ export default function CreditsSearchClient() {
           setLoading(false)
           if (typeof totalWorksRef.current === 'number') {
             const totalLoaded = offset + streamedCount
-            setStatusMessage(totalLoaded > 0 ? `Loaded ${totalLoaded} of ${totalWorksRef.current} works.` : 'No results found yet.')
+            const ofTotal = truncatedRef.current ? `at least ${totalWorksRef.current}` : totalWorksRef.current
+            setStatusMessage(totalLoaded > 0 ? `Loaded ${totalLoaded} of ${ofTotal} works.` : 'No results found yet.')
           } else {
             setStatusMessage(streamedCount > 0 ? `Loaded ${streamedCount} results.` : 'No results found yet.')
           }
@@ -392,14 +493,14 @@ export default function CreditsSearchClient() {
           streamRef.current = null
           if (resultsRef.current.length > 0 && typeof window !== 'undefined') {
             window.localStorage.setItem(
-              cacheKeyFor(trimmed, role, releaseDateStart, releaseDateEnd),
+              cacheKeyFor(localCacheName(trimmed, identity, target.role), targetCacheRole(target), releaseDateStart, releaseDateEnd),
               JSON.stringify(resultsRef.current)
             )
           }
           if (autoLoadRef.current && streamedCount === limit) {
             window.setTimeout(() => {
               if (requestIdRef.current === requestId) {
-                fetchResultsStream(trimmed, offset + streamedCount, true, false)
+                fetchResultsStream(trimmed, offset + streamedCount, true, false, false, { ...target, identity })
               }
             }, 0)
           }
@@ -432,19 +533,21 @@ export default function CreditsSearchClient() {
       source.close()
       streamRef.current = null
     }
-  }, [limit, releaseDateEnd, releaseDateStart, role])
+  }, [compositeClauses, compositeMode, identities, instrument, limit, releaseDateEnd, releaseDateStart, role])
 
   useEffect(() => {
     if (autoSearchRef.current) return
     const rawName = searchParams?.get('name') || ''
-    const rawRole = searchParams?.get('role') || ''
+    const rawRole = (searchParams?.get('role') || '').toLowerCase()
     const trimmed = rawName.trim()
     if (!trimmed) return
-    const normalizedRole = ROLE_OPTIONS.find((option) => option.value === rawRole)?.value || 'producer'
+    const normalizedRole = isCreditRole(rawRole) ? rawRole : DEFAULT_CREDIT_ROLE
+    const normalizedInstrument = searchParams?.get('instrument') || ''
     autoSearchRef.current = true
     setName(trimmed)
     setRole(normalizedRole)
-    fetchResultsStream(trimmed, 0, false, true)
+    setInstrument(normalizedInstrument)
+    fetchResultsStream(trimmed, 0, false, true, false, { role: normalizedRole, instrument: normalizedInstrument })
   }, [searchParams, fetchResultsStream])
 
   const fetchResultsDebug = async (searchName: string) => {
@@ -481,29 +584,26 @@ export default function CreditsSearchClient() {
       bpmFetchTimeoutRef.current = null
     }
     try {
-      const params = new URLSearchParams()
-      params.set('name', trimmed)
-      params.set('role', role)
-      params.set('limit', String(limit))
-      params.set('offset', '0')
-      params.set('debug', 'true')
-      if (releaseDateStart) {
-        params.set('releaseDateStart', releaseDateStart)
-      }
-      if (releaseDateEnd) {
-        params.set('releaseDateEnd', releaseDateEnd)
-      }
-      const url = `/api/creditsearch?${params.toString()}`
-      const res = await fetch(url)
-      const payload = await res.json().catch(() => ({}))
-      if (!res.ok) {
-        throw new Error(payload?.error || 'Credits search failed')
-      }
-      const incoming = Array.isArray(payload?.results) ? payload.results : []
+      const payload = await api.searchCredits({
+        query: {
+          name: compositeMode ? undefined : trimmed,
+          clause: compositeMode ? compositeClauses.map(formatCreditQueryClause) : undefined,
+          role,
+          instrument: role === 'instrument' ? instrument.trim() || undefined : undefined,
+          artistId: compositeMode ? undefined : identityFor(identities, trimmed)?.musicBrainzArtistId ?? undefined,
+          musoProfileId: compositeMode ? undefined : identityFor(identities, trimmed)?.musoProfileId ?? undefined,
+          limit,
+          offset: 0,
+          debug: true,
+          releaseDateStart: releaseDateStart || undefined,
+          releaseDateEnd: releaseDateEnd || undefined,
+        },
+      })
+      const incoming = payload.results
       setResults(incoming)
       setTrackCount(incoming.length)
-      setDebugPayload(payload?.debug || null)
-      setProfileInfo(payload?.profile || null)
+      setDebugPayload(payload.debug || null)
+      setProfileInfo(payload.profile || null)
       setStatusMessage(`Loaded ${incoming.length} results (debug mode).`)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Credits search failed')
@@ -526,6 +626,18 @@ export default function CreditsSearchClient() {
 
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault()
+    if (compositeMode) {
+      if (compositeClauses.length === 0) {
+        setError('Enter at least one name to combine')
+        return
+      }
+      if (debugMode) {
+        await fetchResultsDebug(searchLabel)
+        return
+      }
+      await fetchResultsStream(searchLabel, 0, false, true)
+      return
+    }
     const trimmed = name.trim()
     if (!trimmed) {
       setError('Enter a name to search')
@@ -536,8 +648,19 @@ export default function CreditsSearchClient() {
       await fetchResultsDebug(trimmed)
       return
     }
+    let identity = identityFor(identities, trimmed)
+    if (!identity) {
+      const lookup = await lookupCandidates(trimmed)
+      // Several candidates: the search continues once one is picked
+      if (lookup === 'pending') return
+      identity = lookup
+    }
+    const searchName = identity?.name ?? trimmed
+    const target: SearchTarget = { role, instrument, identity }
     if (typeof window !== 'undefined') {
-      const cached = window.localStorage.getItem(cacheKeyFor(trimmed, role, releaseDateStart, releaseDateEnd))
+      const cached = window.localStorage.getItem(
+        cacheKeyFor(localCacheName(searchName, identity, role), creditRoleCacheKey(role, instrument), releaseDateStart, releaseDateEnd)
+      )
       if (cached) {
         try {
           const parsed = JSON.parse(cached)
@@ -546,7 +669,7 @@ export default function CreditsSearchClient() {
             setTrackCount(parsed.length)
             setShowingCached(true)
             setStatusMessage('Showing cached results. Refreshing…')
-            await fetchResultsStream(trimmed, 0, false, true, true)
+            await fetchResultsStream(searchName, 0, false, true, true, target)
             return
           }
         } catch {
@@ -554,12 +677,105 @@ export default function CreditsSearchClient() {
         }
       }
     }
-    await fetchResultsStream(trimmed, 0, false, true)
+    await fetchResultsStream(searchName, 0, false, true, false, target)
+  }
+
+  const rememberIdentity = (searchName: string, identity: CreditIdentity) => {
+    setIdentities((prev) => {
+      const next = {
+        ...prev,
+        [searchName.trim().toLowerCase()]: identity,
+        [identity.name.trim().toLowerCase()]: identity,
+      }
+      window.localStorage.setItem(identitiesKey, JSON.stringify(next))
+      return next
+    })
+  }
+
+  const forgetIdentity = (searchName: string) => {
+    const identity = identityFor(identities, searchName)
+    setIdentities((prev) => {
+      const next = { ...prev }
+      delete next[searchName.trim().toLowerCase()]
+      if (identity) delete next[identity.name.trim().toLowerCase()]
+      window.localStorage.setItem(identitiesKey, JSON.stringify(next))
+      return next
+    })
+  }
+
+  /**
+   * Who a typed name means. A single match on each source is picked (and
+   * remembered) straight away; several show the candidates panel and return
+   * 'pending'. Lookup failures fall back to the free-text name search.
+   */
+  const lookupCandidates = async (searchName: string, alwaysAsk = false): Promise<CreditIdentity | null | 'pending'> => {
+    setCandidates(null)
+    setError(null)
+    setLoading(true)
+    setStatusMessage(`Looking up who ${searchName} is…`)
+    try {
+      const found = await api.getCreditCandidates({ query: { name: searchName } })
+      const artist = found.musicbrainz[0]
+      const profile = found.muso[0]
+      if (!artist && !profile) return null
+      if (alwaysAsk || found.musicbrainz.length > 1 || found.muso.length > 1) {
+        setCandidates(found)
+        setLoading(false)
+        setStatusMessage(null)
+        return 'pending'
+      }
+      const identity: CreditIdentity = {
+        name: artist?.name ?? profile?.name ?? searchName,
+        musicBrainzArtistId: artist?.id ?? null,
+        musoProfileId: profile?.id ?? null,
+      }
+      rememberIdentity(searchName, identity)
+      return identity
+    } catch {
+      return null
+    }
+  }
+
+  const handleCandidateConfirm = async (identity: CreditIdentity) => {
+    rememberIdentity(candidates?.name ?? name, identity)
+    setName(identity.name)
+    saveHistory(identity.name)
+    await fetchResultsStream(identity.name, 0, false, true, false, { role, instrument, identity })
+  }
+
+  const handleCandidateSkip = async () => {
+    await fetchResultsStream(candidates?.name ?? name, 0, false, true, false, { role, instrument, identity: null })
+  }
+
+  const handleChangeIdentity = async () => {
+    const trimmed = name.trim()
+    if (!trimmed) return
+    forgetIdentity(trimmed)
+    const lookup = await lookupCandidates(trimmed, true)
+    if (lookup !== 'pending') {
+      await fetchResultsStream(trimmed, 0, false, true, false, { role, instrument, identity: lookup })
+    }
+  }
+
+  const updateClauseRow = (index: number, update: Partial<ClauseRow>) => {
+    setClauseRows((prev) => prev.map((row, rowIndex) => (rowIndex === index ? { ...row, ...update } : row)))
+  }
+
+  const handleGraphSelect = async (selectedName: string, selectedRole: CreditRole) => {
+    setCompositeMode(false)
+    setName(selectedName)
+    setRole(selectedRole)
+    setInstrument('')
+    saveHistory(selectedName)
+    if (typeof window !== 'undefined') {
+      window.scrollTo({ top: 0, behavior: 'smooth' })
+    }
+    await fetchResultsStream(selectedName, 0, false, true, false, { role: selectedRole, instrument: '' })
   }
 
   const handleLoadMore = async () => {
     const nextOffset = results.length
-    await fetchResultsStream(name, nextOffset, true, false)
+    await fetchResultsStream(searchLabel, nextOffset, true, false)
   }
 
   const handleHistorySelect = async (value: string) => {
@@ -569,7 +785,9 @@ export default function CreditsSearchClient() {
     setShowHistory(false)
     saveHistory(trimmed)
     if (typeof window !== 'undefined') {
-      const cached = window.localStorage.getItem(cacheKeyFor(trimmed, role, releaseDateStart, releaseDateEnd))
+      const cached = window.localStorage.getItem(
+        cacheKeyFor(localCacheName(trimmed, identityFor(identities, trimmed), role), creditRoleCacheKey(role, instrument), releaseDateStart, releaseDateEnd)
+      )
       if (cached) {
         try {
           const parsed = JSON.parse(cached)
@@ -607,20 +825,14 @@ export default function CreditsSearchClient() {
     if (bpmLoadingIsrcs.has(track.isrc)) return
     setBpmLoadingIsrcs((prev) => new Set(prev).add(track.isrc as string))
     try {
-      const res = await fetch('/api/bpm/by-isrc/compute', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const payload = await api.computeBpmByIsrc({
+        body: {
           isrc: track.isrc,
           title: track.title,
           artist: track.artist,
           spotifyTrackId: track.spotifyTrackId,
-        }),
+        },
       })
-      const payload = await res.json().catch(() => ({}))
-      if (!res.ok) {
-        throw new Error(payload?.error || 'BPM calculation failed')
-      }
       setBpmByIsrc((prev) => ({ ...prev, [track.isrc as string]: payload.bpm ?? null }))
       setKeyByIsrc((prev) => ({ ...prev, [track.isrc as string]: payload.key ?? null }))
       setScaleByIsrc((prev) => ({ ...prev, [track.isrc as string]: payload.scale ?? null }))
@@ -789,6 +1001,26 @@ export default function CreditsSearchClient() {
     return 0
   })
   const visibleResults = sortedResults.slice(startIndex, endIndex)
+  const playlistTracks: PlaylistCandidateTrack[] = showBuildPlaylist
+    ? sortedResults.map((track) => ({
+        key: `${track.id}-${track.releaseId}`,
+        title: track.title,
+        artist: track.artist,
+        isrc: track.isrc,
+        spotifyTrackId: track.spotifyTrackId,
+      }))
+    : []
+  const playlistName = compositeMode ? searchLabel : `${searchLabel} · ${CREDIT_ROLES[role].label} credits`
+
+  // Keep Spotify IDs found by the playlist builder so later BPM lookups skip the search
+  const handlePlaylistMatches = useCallback((spotifyTrackIds: Record<string, string>) => {
+    setResults((prev) =>
+      prev.map((track) => {
+        const spotifyTrackId = spotifyTrackIds[`${track.id}-${track.releaseId}`]
+        return spotifyTrackId ? { ...track, spotifyTrackId } : track
+      })
+    )
+  }, [])
 
   const handleSort = (field: typeof sortField) => {
     if (!field) return
@@ -811,61 +1043,137 @@ export default function CreditsSearchClient() {
     <div className="space-y-6">
       <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
         <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
-          <div className="flex-1 relative">
-            <label className="block text-sm font-semibold text-gray-700 mb-1">
-              Name
-            </label>
-            <input
-              type="text"
-              value={name}
-              onChange={(event) => setName(event.target.value)}
-              onFocus={handleNameFocus}
-              onBlur={handleNameBlur}
-              list="credit-search-history"
-              placeholder="e.g., Rick Rubin"
-              className="w-full bg-transparent px-0 py-2 text-sm text-gray-900 placeholder-gray-500 border-b border-gray-300 focus:outline-none focus:border-gray-500"
-            />
-            <datalist id="credit-search-history">
-              {history.map((item) => (
-                <option key={item} value={item} />
-              ))}
-            </datalist>
-            {showHistory && history.length > 0 && (
-              <div className="absolute z-20 mt-2 w-full rounded-lg border border-gray-200 bg-white shadow-lg">
-                <div className="px-3 py-2 text-[11px] uppercase tracking-[0.08em] text-gray-400">
-                  Recent searches
-                </div>
-                <div className="max-h-48 overflow-auto">
-                  {history.slice(0, 5).map((item) => (
+          {compositeMode ? (
+            <div className="flex-1 space-y-2">
+              {clauseRows.map((row, index) => (
+                <div key={index} className="flex flex-col sm:flex-row gap-2 sm:items-end">
+                  <span className="sm:w-12 py-2 text-xs font-semibold uppercase tracking-[0.08em] text-gray-400">
+                    {index === 0 ? 'Where' : 'And'}
+                  </span>
+                  <select
+                    value={row.role}
+                    onChange={(event) => updateClauseRow(index, { role: event.target.value as CreditRole })}
+                    aria-label="Role"
+                    className="sm:w-44 px-0 py-2 border-b border-gray-300 bg-transparent text-sm text-gray-900 focus:outline-none focus:border-gray-500"
+                  >
+                    {ROLE_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  {row.role === 'instrument' && (
+                    <input
+                      type="text"
+                      value={row.instrument}
+                      onChange={(event) => updateClauseRow(index, { instrument: event.target.value })}
+                      aria-label="Instrument"
+                      placeholder="e.g., guitar"
+                      className="sm:w-32 bg-transparent px-0 py-2 text-sm text-gray-900 placeholder-gray-500 border-b border-gray-300 focus:outline-none focus:border-gray-500"
+                    />
+                  )}
+                  <input
+                    type="text"
+                    value={row.names}
+                    onChange={(event) => updateClauseRow(index, { names: event.target.value })}
+                    aria-label="Name"
+                    placeholder="Name, or aliases separated by |"
+                    className="flex-1 bg-transparent px-0 py-2 text-sm text-gray-900 placeholder-gray-500 border-b border-gray-300 focus:outline-none focus:border-gray-500"
+                  />
+                  {clauseRows.length > 1 && (
                     <button
-                      key={item}
                       type="button"
-                      onMouseDown={() => handleHistorySelect(item)}
-                      className="flex w-full items-center justify-between px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                      onClick={() => setClauseRows((prev) => prev.filter((_, rowIndex) => rowIndex !== index))}
+                      className="py-2 text-xs font-semibold text-gray-500 hover:text-gray-700"
                     >
-                      <span className="truncate">{item}</span>
+                      Remove
                     </button>
-                  ))}
+                  )}
+                </div>
+              ))}
+              {clauseRows.length < MAX_CREDIT_QUERY_CLAUSES && (
+                <button
+                  type="button"
+                  onClick={() => setClauseRows((prev) => [...prev, { role: DEFAULT_CREDIT_ROLE, instrument: '', names: '' }])}
+                  className="text-xs font-semibold text-emerald-600 hover:text-emerald-700"
+                >
+                  + Add condition
+                </button>
+              )}
+            </div>
+          ) : (
+            <>
+            <div className="flex-1 relative">
+              <label className="block text-sm font-semibold text-gray-700 mb-1">
+                Name
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                onFocus={handleNameFocus}
+                onBlur={handleNameBlur}
+                list="credit-search-history"
+                placeholder="e.g., Rick Rubin"
+                className="w-full bg-transparent px-0 py-2 text-sm text-gray-900 placeholder-gray-500 border-b border-gray-300 focus:outline-none focus:border-gray-500"
+              />
+              <datalist id="credit-search-history">
+                {history.map((item) => (
+                  <option key={item} value={item} />
+                ))}
+              </datalist>
+              {showHistory && history.length > 0 && (
+                <div className="absolute z-20 mt-2 w-full rounded-lg border border-gray-200 bg-white shadow-lg">
+                  <div className="px-3 py-2 text-[11px] uppercase tracking-[0.08em] text-gray-400">
+                    Recent searches
+                  </div>
+                  <div className="max-h-48 overflow-auto">
+                    {history.slice(0, 5).map((item) => (
+                      <button
+                        key={item}
+                        type="button"
+                        onMouseDown={() => handleHistorySelect(item)}
+                        className="flex w-full items-center justify-between px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                      >
+                        <span className="truncate">{item}</span>
+                      </button>
+                    ))}
+                  </div>
                 </div>
+              )}
+            </div>
+            <div className="sm:w-48">
+              <label className="block text-sm font-semibold text-gray-700 mb-1">
+                Role
+              </label>
+              <select
+                value={role}
+                onChange={(event) => setRole(event.target.value as CreditRole)}
+                className="w-full px-0 py-2 border-b border-gray-300 bg-transparent text-sm text-gray-900 focus:outline-none focus:border-gray-500"
+              >
+                {ROLE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {role === 'instrument' && (
+              <div className="sm:w-40">
+                <label className="block text-sm font-semibold text-gray-700 mb-1">
+                  Instrument
+                </label>
+                <input
+                  type="text"
+                  value={instrument}
+                  onChange={(event) => setInstrument(event.target.value)}
+                  placeholder="e.g., guitar"
+                  className="w-full bg-transparent px-0 py-2 text-sm text-gray-900 placeholder-gray-500 border-b border-gray-300 focus:outline-none focus:border-gray-500"
+                />
               </div>
             )}
-          </div>
-          <div className="sm:w-48">
-            <label className="block text-sm font-semibold text-gray-700 mb-1">
-              Role
-            </label>
-            <select
-              value={role}
-              onChange={(event) => setRole(event.target.value as RoleOption)}
-              className="w-full px-0 py-2 border-b border-gray-300 bg-transparent text-sm text-gray-900 focus:outline-none focus:border-gray-500"
-            >
-              {ROLE_OPTIONS.map((option) => (
-                <option key={option.value} value={option.value}>
-                  {option.label}
-                </option>
-              ))}
-            </select>
-          </div>
+            </>
+          )}
           <button
             type="submit"
             disabled={loading}
@@ -880,7 +1188,33 @@ export default function CreditsSearchClient() {
           >
             {debugMode ? 'Debug on' : 'Debug off'}
           </button>
+          <button
+            type="button"
+            onClick={() => setCompositeMode((prev) => !prev)}
+            className="inline-flex items-center justify-center rounded-full border border-gray-200 px-5 py-2 text-xs font-semibold text-gray-600 transition hover:border-gray-300"
+          >
+            {compositeMode ? 'Combine on' : 'Combine off'}
+          </button>
         </div>
+        {!compositeMode && currentIdentity && (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+            <span>
+              Searching as <span className="font-semibold text-gray-700">{currentIdentity.name}</span>
+              {' · '}
+              {[currentIdentity.musicBrainzArtistId && 'MusicBrainz', currentIdentity.musoProfileId && 'Muso']
+                .filter(Boolean)
+                .join(' + ')}
+            </span>
+            <button
+              type="button"
+              onClick={handleChangeIdentity}
+              disabled={loading}
+              className="font-semibold text-emerald-600 hover:text-emerald-700"
+            >
+              Not this person?
+            </button>
+          </div>
+        )}
         <div className="flex flex-col sm:flex-row gap-3">
           <div className="flex-1">
             <label className="block text-xs font-semibold text-gray-600 mb-1">
@@ -906,7 +1240,7 @@ export default function CreditsSearchClient() {
           </div>
         </div>
         <p className="text-xs text-gray-500">
-          Searches Muso credits by role and name, with MusicBrainz as fallback.
+          Searches Muso credits by role and name, with MusicBrainz as fallback. Combine finds tracks matching every condition.
         </p>
         {loading && statusMessage && (
           <div className="text-xs text-gray-500">
@@ -921,6 +1255,15 @@ export default function CreditsSearchClient() {
         </div>
       )}
 
+      {candidates && (
+        <CreditCandidatesPanel
+          key={candidates.name.toLowerCase()}
+          candidates={candidates}
+          onConfirm={handleCandidateConfirm}
+          onSkip={handleCandidateSkip}
+        />
+      )}
+
       {profileInfo && (
         <div className="rounded-2xl border border-gray-100 bg-white p-4 shadow-[0_4px_20px_rgba(0,0,0,0.05)]">
           <div className="flex items-center gap-3">
@@ -950,6 +1293,23 @@ export default function CreditsSearchClient() {
         </div>
       )}
 
+      <BuildPlaylistModal
+        isOpen={showBuildPlaylist}
+        defaultName={playlistName}
+        tracks={playlistTracks}
+        onClose={() => setShowBuildPlaylist(false)}
+        onMatched={handlePlaylistMatches}
+      />
+
+      {showGraph && graphName && (
+        <CreditGraphPanel
+          key={graphName.toLowerCase()}
+          name={graphName}
+          identity={identityFor(identities, graphName)}
+          onSelect={handleGraphSelect}
+        />
+      )}
+
       {debugMode && (
         <div className="rounded-xl border border-gray-200 bg-white p-4 text-xs text-gray-600">
           <div className="font-semibold text-gray-900">Debug</div>
@@ -986,12 +1346,20 @@ export default function CreditsSearchClient() {
         <div className="flex flex-wrap items-center gap-3 mb-4">
           <button
             type="button"
-            onClick={() => fetchResultsStream(name, 0, false, true)}
+            onClick={() => fetchResultsStream(searchLabel, 0, false, true)}
             className="text-xs font-semibold text-emerald-600 hover:text-emerald-700"
-            disabled={loading || !name.trim()}
+            disabled={loading || !searchLabel.trim()}
           >
             Refresh cache
           </button>
+          <button
+            type="button"
+            onClick={() => setShowGraph((prev) => !prev)}
+            className="text-xs font-semibold text-emerald-600 hover:text-emerald-700"
+            disabled={!graphName}
+          >
+            {showGraph ? 'Hide collaborators' : 'Show collaborators'}
+          </button>
           <button
             type="button"
             onClick={handleCalculateAllBpms}
@@ -1000,6 +1368,14 @@ export default function CreditsSearchClient() {
           >
             {bpmBulkLoading ? 'Calculating BPM…' : 'Calculate all BPM'}
           </button>
+          <button
+            type="button"
+            onClick={() => setShowBuildPlaylist(true)}
+            className="text-xs font-semibold text-emerald-600 hover:text-emerald-700"
+            disabled={loading || results.length === 0}
+          >
+            Build playlist
+          </button>
           {showingCached ? (
             <span className="text-xs text-gray-400 dark:text-slate-500">Cached results</span>
           ) : null}
@@ -1,8 +1,19 @@
 import PageHeader from '../components/PageHeader'
+import { buildOpenApiDocument, listOpenApiOperations } from '@/lib/openapi'
 
 export const dynamic = 'force-dynamic'
 
+const AUTH_LABELS = {
+  public: 'Public',
+  session: 'Signed in',
+  admin: 'Admin',
+  superAdmin: 'Super admin',
+  cron: 'Cron or admin',
+} as const
+
 export default function DocumentationPage() {
+  const apiGroups = listOpenApiOperations(buildOpenApiDocument())
+
   return (
     <div className="min-h-screen flex flex-col p-4 sm:p-8 bg-transparent">
       <div className="max-w-7xl mx-auto flex-1 w-full">
@@ -31,6 +42,7 @@ export default function DocumentationPage() {
                 <li>View BPM/key details with sources.</li>
                 <li>Open tracks, artists, and playlists in Spotify.</li>
                 <li>Fetch song credits (producer, writer, mixer, mastering).</li>
+                <li>Search credits by role, including mastering engineer, arranger, featured vocalist, instrument and record label.</li>
                 <li>Admin review for ISRC mismatches, preview sources, and manual overrides.</li>
                 <li>ISRC enrichment via Muso when Spotify data is missing.</li>
               </ul>
@@ -75,6 +87,53 @@ export default function DocumentationPage() {
                 Credits are retrieved from MusicBrainz and Muso when available, and may be incomplete or missing. Additional credit sources will be added in the future.
               </p>
             </div>
+
+            <div className="space-y-3">
+              <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">API reference</h2>
+              <p>
+                Every route under <code>/api</code> validates its input against a contract and answers invalid requests with
+                a 400 listing each issue. The full OpenAPI document is at{' '}
+                <a href="/api/openapi" className="text-emerald-600 hover:text-emerald-700 underline">/api/openapi</a>.
+              </p>
+              {apiGroups.map((group) => (
+                <div key={group.tag} className="space-y-1">
+                  <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">{group.tag}</h3>
+                  <ul className="divide-y divide-gray-100 rounded-xl border border-gray-100">
+                    {group.operations.map((operation) => (
+                      <li key={`${operation.method} ${operation.path}`} className="px-3 py-2">
+                        <details>
+                          <summary className="flex cursor-pointer flex-wrap items-center gap-2">
+                            <span className="w-14 font-mono text-[11px] font-semibold text-emerald-700">{operation.method}</span>
+                            <span className="font-mono text-xs text-slate-800">{operation.path}</span>
+                            <span className="text-xs text-gray-500">{operation.summary}</span>
+                            <span className="ml-auto text-[11px] text-gray-400">{AUTH_LABELS[operation.auth]}</span>
+                          </summary>
+                          <div className="mt-2 space-y-2 pl-16 text-xs">
+                            {operation.description ? <p>{operation.description}</p> : null}
+                            {operation.parameters.length > 0 ? (
+                              <ul className="space-y-0.5">
+                                {operation.parameters.map((parameter) => (
+                                  <li key={`${parameter.in}:${parameter.name}`}>
+                                    <code>{parameter.name}</code> ({parameter.in}
+                                    {parameter.required ? ', required' : ''}){parameter.description ? ` – ${parameter.description}` : ''}
+                                  </li>
+                                ))}
+                              </ul>
+                            ) : null}
+                            {operation.bodyExample !== undefined ? (
+                              <pre className="overflow-auto rounded-lg bg-gray-50 p-2 font-mono text-[11px] text-gray-700">
+                                {JSON.stringify(operation.bodyExample, null, 2)}
+                              </pre>
+                            ) : null}
+                            <p className="text-gray-400">Responses: {operation.statuses.join(', ')}</p>
+                          </div>
+                        </details>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
           </div>
         </div>
       </div>
@@ -1,8 +1,9 @@
 'use client'
 
-import { useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import type { MouseEvent } from 'react'
 import type { SpotifyTrack } from '@/lib/types'
+import { isAllowedPreviewUrl, isDeezerApiUrl } from '@/lib/previewHosts'
 
 type Track = SpotifyTrack
 
@@ -51,7 +52,7 @@ export function useAudioPlayer({
 
     try {
       const originalUrl = url
-      const isDeezerApi = url.includes('api.deezer.com')
+      const isDeezerApi = isDeezerApiUrl(url)
       if (isDeezerApi) {
         const apiUrl = `/api/deezer-preview?url=${encodeURIComponent(url)}`
         console.log('[Preview Debug] Resolving Deezer API preview:', apiUrl)
@@ -68,41 +69,14 @@ export function useAudioPlayer({
         url = data.previewUrl
       }
 
-      const isDeezer = url.includes('deezer.com') || url.includes('cdn-preview') || url.includes('cdnt-preview') || url.includes('e-cdn-preview')
-
-      if (isDeezer) {
-        const proxyUrl = `/api/audio-proxy?url=${encodeURIComponent(url)}`
-        console.log('[Preview Debug] Fetching audio via proxy:', proxyUrl)
-        const response = await fetch(proxyUrl)
-        if (!response.ok) {
-          const errorText = await response.text()
-          console.error('[Preview Debug] Proxy fetch failed:', response.status, errorText)
-          throw new Error(`Proxy fetch failed: ${response.status}`)
-        }
-        const blob = await response.blob()
-        const blobUrl = URL.createObjectURL(blob)
-        audioCache.current.set(url, blobUrl)
-        if (isDeezerApi) {
-          audioCache.current.set(originalUrl, blobUrl)
-        }
-        return blobUrl
-      }
-
-      const proxyUrl = `/api/audio-proxy?url=${encodeURIComponent(url)}`
-      const response = await fetch(proxyUrl)
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.error('[Preview Debug] Proxy fetch failed (non-Deezer):', response.status, errorText)
-        audioCache.current.set(url, url)
-        return url
-      }
-      const blob = await response.blob()
-      const blobUrl = URL.createObjectURL(blob)
-      audioCache.current.set(url, blobUrl)
+      // Play straight from the proxy rather than downloading a blob first: it
+      // answers Range requests, so playback starts early and seeking works
+      const playableUrl = isAllowedPreviewUrl(url) ? `/api/audio-proxy?url=${encodeURIComponent(url)}` : url
+      audioCache.current.set(url, playableUrl)
       if (isDeezerApi) {
-        audioCache.current.set(originalUrl, blobUrl)
+        audioCache.current.set(originalUrl, playableUrl)
       }
-      return blobUrl
+      return playableUrl
     } catch (error) {
       console.error('[Preview Debug] Error loading audio:', error)
       const isDeezerLike = url.includes('deezer.com') || url.includes('cdn-preview') || url.includes('cdnt-preview') || url.includes('e-cdn-preview')
@@ -176,6 +150,10 @@ export function useAudioPlayer({
       audio.addEventListener('error', () => {
         setPlayingTrackId(null)
         audioRef.current = null
+        // Deezer CDN tokens expire, so drop the cached proxy URL and resolve again next time
+        audioCache.current.forEach((cachedUrl, key) => {
+          if (cachedUrl === audioUrl) audioCache.current.delete(key)
+        })
         if (previewUrl && (previewUrl.includes('deezer.com') || previewUrl.includes('cdn-preview') || previewUrl.includes('cdnt-preview'))) {
           setPreviewUrls((prev) => {
             const next = { ...prev }
@@ -190,25 +168,7 @@ export function useAudioPlayer({
     }
   }
 
-  const handleTrackClick = async (
-    track: Track,
-    event?: MouseEvent<Element>,
-    options?: { preventDefault?: boolean; stopPropagation?: boolean; allowInteractiveTarget?: boolean }
-  ) => {
-    if (event) {
-      if (options?.preventDefault) {
-        event.preventDefault()
-      }
-      if (options?.stopPropagation) {
-        event.stopPropagation()
-      }
-      if (!options?.allowInteractiveTarget && event.target instanceof HTMLElement) {
-        if (event.target.closest('a') || event.target.closest('button')) {
-          return
-        }
-      }
-    }
-
+  const resolvePreviewUrl = async (track: Track): Promise<string | null> => {
     let previewUrl = previewUrls[track.id] || null
     if (!previewUrl && !loadingPreviewIds.has(track.id)) {
       try {
@@ -230,6 +190,40 @@ export function useAudioPlayer({
         })
       }
     }
+    return previewUrl
+  }
+
+  /**
+   * Playable (usually proxied) URL for a track's preview, shared with the playback cache
+   */
+  const getPreviewAudioUrl = async (track: Track): Promise<string | null> => {
+    const previewUrl = await resolvePreviewUrl(track)
+    if (!previewUrl) return null
+    return loadAudioWithCache(toDeezerApiUrl(previewUrl, track), track.id)
+  }
+
+  const getPlaybackTime = useCallback((): number | null => audioRef.current?.currentTime ?? null, [])
+
+  const handleTrackClick = async (
+    track: Track,
+    event?: MouseEvent<Element>,
+    options?: { preventDefault?: boolean; stopPropagation?: boolean; allowInteractiveTarget?: boolean }
+  ) => {
+    if (event) {
+      if (options?.preventDefault) {
+        event.preventDefault()
+      }
+      if (options?.stopPropagation) {
+        event.stopPropagation()
+      }
+      if (!options?.allowInteractiveTarget && event.target instanceof HTMLElement) {
+        if (event.target.closest('a') || event.target.closest('button')) {
+          return
+        }
+      }
+    }
+
+    const previewUrl = await resolvePreviewUrl(track)
 
     if (previewUrl) {
       await playPreview(track, previewUrl)
@@ -286,5 +280,7 @@ export function useAudioPlayer({
     playingTrackId,
     handleTrackClick,
     getPreviewTooltip,
+    getPreviewAudioUrl,
+    getPlaybackTime,
   }
 }
@@ -1,8 +1,10 @@
 'use client'
 
 import { useCallback, useEffect, useMemo, useReducer, useRef } from 'react'
+import { api } from '@/lib/apiClient'
 import { logError, logWarning } from '@/lib/logger'
-import type { SpotifyTrack, PreviewUrlEntry } from '@/lib/types'
+import { readResumableStream } from '@/lib/resumableStream'
+import type { SpotifyTrack, PreviewUrlEntry, TrackAudioFeatures } from '@/lib/types'
 
 type Track = SpotifyTrack
 export type BpmFallbackOverride =
@@ -40,6 +42,7 @@ export type BpmState = {
   trackBpms: Record<string, number | null>
   trackKeys: Record<string, string | null>
   trackScales: Record<string, string | null>
+  trackAudioFeatures: Record<string, TrackAudioFeatures>
   loadingBpmFields: Set<string>
   loadingKeyFields: Set<string>
   tracksNeedingBpm: Set<string>
@@ -80,6 +83,7 @@ export type BpmState = {
   showBpmNotice: boolean
   showBpmRecalcPrompt: boolean
   pendingRecalcIds: { all: string[]; newOnly: string[] }
+  bpmJobsActive: boolean
 }
 
 type SetAction<State, K extends keyof State = keyof State> = {
@@ -103,6 +107,7 @@ const createInitialBpmState = (): BpmState => ({
   trackBpms: {},
   trackKeys: {},
   trackScales: {},
+  trackAudioFeatures: {},
   loadingBpmFields: new Set(),
   loadingKeyFields: new Set(),
   tracksNeedingBpm: new Set(),
@@ -143,11 +148,36 @@ const createInitialBpmState = (): BpmState => ({
   showBpmNotice: true,
   showBpmRecalcPrompt: false,
   pendingRecalcIds: { all: [], newOnly: [] },
+  bpmJobsActive: false,
 })
 
-export function useBpmAnalysis(tracks: Track[]) {
+const toNullableNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null
+  const parsed = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+// Audio features from a batch result (camelCase) or stream line (snake_case); null if none reported
+const readAudioFeatures = (result: Record<string, any>): TrackAudioFeatures | null => {
+  const features: TrackAudioFeatures = {
+    loudnessLufs: toNullableNumber(result.loudnessLufs ?? result.loudness_lufs),
+    energy: toNullableNumber(result.energy),
+    danceability: toNullableNumber(result.danceability),
+    onsetDensity: toNullableNumber(result.onsetDensity ?? result.onset_density),
+    introSeconds: toNullableNumber(result.introSeconds ?? result.intro_seconds),
+    outroSeconds: toNullableNumber(result.outroSeconds ?? result.outro_seconds),
+  }
+  return Object.values(features).some((value) => value != null) ? features : null
+}
+
+// How often the playlist page polls background BPM job progress
+const BPM_JOB_POLL_INTERVAL_MS = 5000
+
+export function useBpmAnalysis(tracks: Track[], playlistId?: string) {
   const [state, dispatch] = useReducer(bpmReducer, undefined, createInitialBpmState)
   const streamAbortRef = useRef<AbortController | null>(null)
+  const bpmJobsSinceRef = useRef<string | null>(null)
+  const pendingJobTrackIdsRef = useRef<Set<string>>(new Set())
   const bpmRequestCache = useRef<Map<string, Promise<any>>>(new Map())
 
   const {
@@ -194,6 +224,7 @@ export function useBpmAnalysis(tracks: Track[]) {
     showBpmNotice,
     showBpmRecalcPrompt,
     pendingRecalcIds,
+    bpmJobsActive,
   } = state
 
   const setState = useCallback(<K extends keyof BpmState>(key: K, value: BpmState[K] | ((prev: BpmState[K]) => BpmState[K])) => {
@@ -206,13 +237,7 @@ export function useBpmAnalysis(tracks: Track[]) {
     if (existing) {
       return existing
     }
-    const url = `/api/bpm?spotifyTrackId=${encodeURIComponent(trackId)}${country ? `&country=${encodeURIComponent(country)}` : ''}`
-    const request = fetch(url, { method: 'GET' }).then(async (res) => {
-      if (!res.ok) {
-        throw new Error(`HTTP ${res.status}`)
-      }
-      return res.json()
-    })
+    const request = api.getBpm({ query: { spotifyTrackId: trackId, country } })
     bpmRequestCache.current.set(key, request)
     try {
       return await request
@@ -305,18 +330,12 @@ export function useBpmAnalysis(tracks: Track[]) {
       return new Set<string>()
     }
     try {
-      const res = await fetch('/api/bpm/batch', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ trackIds }),
-      })
-      if (!res.ok) {
+      const data = await api.getBpmBatch({ body: { trackIds } }).catch(() => null)
+      if (!data) {
         return new Set<string>()
       }
-      const data = await res.json()
       const inDbSet = new Set<string>()
-      for (const [trackId, result] of Object.entries(data.results || {})) {
-        const r = result as any
+      for (const [trackId, r] of Object.entries(data.results)) {
         if (r && (r.source !== undefined || r.error !== undefined || r.bpmRaw !== undefined || r.cached === true)) {
           inDbSet.add(trackId)
         }
@@ -346,22 +365,6 @@ export function useBpmAnalysis(tracks: Track[]) {
     const finalizedTracks = new Set<string>()
 
     try {
-      const response = await fetch(`/api/stream/${batchId}`, {
-        signal: abortController.signal,
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
-        throw new Error(errorData.error || `HTTP ${response.status}`)
-      }
-
-      if (!response.body) {
-        throw new Error('No response body')
-      }
-
-      const reader = response.body.getReader()
-      const decoder = new TextDecoder()
-      let buffer = ''
       const maybeYield = async () => {
         await new Promise(resolve => setTimeout(resolve, 0))
       }
@@ -492,6 +495,11 @@ export function useBpmAnalysis(tracks: Track[]) {
           }
         }
 
+        const streamedFeatures = readAudioFeatures(data)
+        if (streamedFeatures) {
+          setState('trackAudioFeatures', (prev) => ({ ...prev, [trackId]: streamedFeatures }))
+        }
+
         if (meta) {
           const previewUrl = getPreviewUrlFromMeta(meta)
           if (previewUrl) {
@@ -508,15 +516,7 @@ export function useBpmAnalysis(tracks: Track[]) {
             finalizedTracks.add(trackId)
             if (meta?.source) {
               try {
-                await fetch('/api/bpm/ingest', {
-                  method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({
-                    trackId,
-                    result: data,
-                    previewMeta: meta,
-                  }),
-                })
+                await api.ingestBpmResult({ body: { trackId, result: data, previewMeta: meta } })
               } catch (error) {
                 console.warn('[BPM Client] Failed to ingest BPM result:', error)
                 logWarning('BPM ingest failed', {
@@ -554,30 +554,15 @@ export function useBpmAnalysis(tracks: Track[]) {
         await maybeYield()
       }
 
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-        buffer += decoder.decode(value, { stream: true })
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || ''
-        for (const line of lines) {
-          if (!line.trim()) continue
-          try {
-            const data = JSON.parse(line)
-            await handleStreamResult(data)
-          } catch (err) {
-            console.error('[BPM Client] Error parsing stream data:', err)
-          }
-        }
-      }
-      if (buffer.trim()) {
-        try {
-          const data = JSON.parse(buffer)
-          await handleStreamResult(data)
-        } catch (err) {
-          console.error('[BPM Client] Error parsing final stream data:', err)
-        }
-      }
+      // Reconnects with the last cursor if the connection drops, so finished results are not recomputed
+      await readResumableStream({
+        url: `/api/stream/${batchId}`,
+        signal: abortController.signal,
+        onLine: handleStreamResult,
+        onParseError: (_line, err) => {
+          console.error('[BPM Client] Error parsing stream data:', err)
+        },
+      })
     } catch (error) {
       console.error('[BPM Client] Stream error:', error)
       logError(error, {
@@ -616,6 +601,7 @@ export function useBpmAnalysis(tracks: Track[]) {
     const newDetails: Record<string, { source?: string; error?: string }> = {}
     const newDebug: Record<string, any> = {}
     const newFullData: Record<string, BpmFullDataEntry> = {}
+    const newFeatures: Record<string, TrackAudioFeatures> = {}
 
     const tracksToAdd = new Set<string>()
     for (const [trackId, result] of Object.entries(results)) {
@@ -627,6 +613,11 @@ export function useBpmAnalysis(tracks: Track[]) {
         tracksToAdd.add(trackId)
       }
 
+      const features = readAudioFeatures(r)
+      if (features) {
+        newFeatures[trackId] = features
+      }
+
       const bpmEssentia = toNumber(r.bpmEssentia)
       const bpmRawEssentia = toNumber(r.bpmRawEssentia)
       const bpmConfidenceEssentia = toNumber(r.bpmConfidenceEssentia)
@@ -731,6 +722,7 @@ export function useBpmAnalysis(tracks: Track[]) {
     setState('bpmDetails', (prev) => ({ ...prev, ...newDetails }))
     setState('bpmDebugInfo', (prev) => ({ ...prev, ...newDebug }))
     setState('bpmFullData', (prev) => ({ ...prev, ...newFullData }))
+    setState('trackAudioFeatures', (prev) => ({ ...prev, ...newFeatures }))
     if (tracksToAdd.size > 0) {
       setState('tracksInDb', (prev) => {
         const next = new Set(prev)
@@ -750,17 +742,8 @@ export function useBpmAnalysis(tracks: Track[]) {
       const batch = tracksToFetch.slice(i, i + batchSize)
       const trackIds = batch.map(track => track.id)
       try {
-        const res = await fetch('/api/bpm/batch', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ trackIds, country: countryCode }),
-        })
-        if (!res.ok) {
-          console.error(`[BPM Client] Batch fetch failed:`, res.status)
-          continue
-        }
-        const data = await res.json()
-        Object.assign(results, data.results || {})
+        const data = await api.getBpmBatch({ body: { trackIds, country: countryCode } })
+        Object.assign(results, data.results)
       } catch (error) {
         console.error(`[BPM Client] Batch fetch error:`, error)
       }
@@ -840,44 +823,19 @@ export function useBpmAnalysis(tracks: Track[]) {
           : (effectiveFallbackOverride === 'always' || effectiveFallbackOverride === 'key_only')
             ? 'both'
             : 'essentia'
-        const requestBody: Record<string, unknown> = {
-          trackIds,
-          country: countryCode,
-          debug_level: bpmRequestSettings.debugLevel,
-          max_confidence: bpmRequestSettings.maxConfidence,
-        }
-        if (effectiveFallbackOverride) {
-          requestBody.fallback_override = effectiveFallbackOverride
-        }
-
-        const res = await fetch('/api/bpm/stream-batch', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
+        // Failures, including non-2xx responses, fall through to the catch below
+        const data = await api.startBpmStreamBatch({
+          body: {
+            trackIds,
+            country: countryCode,
+            debug_level: bpmRequestSettings.debugLevel,
+            max_confidence: bpmRequestSettings.maxConfidence,
+            ...(effectiveFallbackOverride ? { fallback_override: effectiveFallbackOverride } : {}),
           },
-          body: JSON.stringify(requestBody),
         })
+        const { immediateResults, previewMeta } = data
 
-        if (!res.ok) {
-          console.error(`[BPM Client] Stream batch failed:`, res.status)
-          logError(new Error(`Stream batch failed: ${res.status}`), {
-            component: 'bpm.stream.batch',
-            trackIds,
-            status: res.status,
-            fallbackOverride: effectiveFallbackOverride || null,
-            debugLevel: bpmRequestSettings.debugLevel,
-            maxConfidence: bpmRequestSettings.maxConfidence,
-          })
-          fetchBpmsForTracks(batch)
-          continue
-        }
-
-        const data = await res.json()
-        const immediateResults = data.immediateResults || {}
-        const previewMeta = data.previewMeta || {}
-
-        for (const [trackId, result] of Object.entries(immediateResults)) {
-          const r = result as any
+        for (const [trackId, r] of Object.entries(immediateResults)) {
           setState('trackBpms', (prev) => ({ ...prev, [trackId]: null }))
           setState('trackKeys', (prev) => ({ ...prev, [trackId]: null }))
           setState('trackScales', (prev) => ({ ...prev, [trackId]: null }))
@@ -915,13 +873,13 @@ export function useBpmAnalysis(tracks: Track[]) {
         }
 
         for (const [trackId, meta] of Object.entries(previewMeta)) {
-          const previewUrl = getPreviewUrlFromMeta(meta as any)
+          const previewUrl = getPreviewUrlFromMeta(meta)
           if (previewUrl) {
             setState('previewUrls', (prev) => ({ ...prev, [trackId]: previewUrl }))
           }
         }
 
-        const indexToTrackIdEntries = Object.entries(data.indexToTrackId || {})
+        const indexToTrackIdEntries = Object.entries(data.indexToTrackId)
         if (!data.batchId || indexToTrackIdEntries.length === 0) {
           const fallbackTracks = batch.filter(track => !immediateResults[track.id])
           if (fallbackTracks.length > 0) {
@@ -930,7 +888,7 @@ export function useBpmAnalysis(tracks: Track[]) {
         } else {
           const indexToTrackId = new Map<number, string>()
           for (const [indexStr, trackId] of indexToTrackIdEntries) {
-            indexToTrackId.set(Number(indexStr), trackId as string)
+            indexToTrackId.set(Number(indexStr), trackId)
           }
 
           await streamBatchResults(
@@ -961,6 +919,48 @@ export function useBpmAnalysis(tracks: Track[]) {
     }
   }, [bpmRequestSettings, countryCode, fetchBpmsForTracks, getPreviewUrlFromMeta, retryTrackId, setState, streamBatchResults])
 
+  const clearLoadingForTracks = useCallback((trackIds: string[]) => {
+    const removeIds = (prev: Set<string>) => {
+      const next = new Set(prev)
+      trackIds.forEach(id => next.delete(id))
+      return next
+    }
+    setState('loadingBpmFields', removeIds)
+    setState('loadingKeyFields', removeIds)
+  }, [setState])
+
+  // Hand tracks to the server-side job queue so analysis continues after the page is closed
+  const queueBpmJobsForTracks = useCallback(async (tracksToQueue: Track[]) => {
+    if (!playlistId || tracksToQueue.length === 0) return
+    const trackIds = tracksToQueue.map(track => track.id)
+    const addIds = (prev: Set<string>) => {
+      const next = new Set(prev)
+      trackIds.forEach(id => next.add(id))
+      return next
+    }
+    setState('tracksNeedingBpm', addIds)
+    setState('tracksNeedingKey', addIds)
+    setState('tracksNeedingCalc', addIds)
+    setState('loadingBpmFields', addIds)
+    setState('loadingKeyFields', addIds)
+
+    const data = await api.queueBpmJobs({ body: { playlistId, trackIds, country: countryCode } }).catch((error) => {
+      clearLoadingForTracks(trackIds)
+      throw new Error(`Unable to queue BPM jobs: ${error instanceof Error ? error.message : error}`)
+    })
+    const skipped = new Set(data.skipped)
+    if (skipped.size > 0) {
+      clearLoadingForTracks(Array.from(skipped))
+      streamBpmsForTracks(tracksToQueue.filter(track => skipped.has(track.id)))
+    }
+    const queuedIds = trackIds.filter(id => !skipped.has(id))
+    if (queuedIds.length > 0) {
+      queuedIds.forEach(id => pendingJobTrackIdsRef.current.add(id))
+      bpmJobsSinceRef.current = null
+      setState('bpmJobsActive', true)
+    }
+  }, [playlistId, countryCode, clearLoadingForTracks, streamBpmsForTracks, setState])
+
   const fetchBpmsBatch = useCallback(async () => {
     const trackIds = tracks.map(t => t.id)
     if (trackIds.length === 0) return
@@ -972,16 +972,8 @@ export function useBpmAnalysis(tracks: Track[]) {
     setState('tracksNeedingCalc', new Set())
 
     try {
-      const res = await fetch('/api/bpm/batch', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ trackIds, country: countryCode }),
-      })
-      if (!res.ok) {
-        throw new Error('Unable to fetch BPM batch')
-      }
-      const data = await res.json()
-      applyBatchResults(data.results || {})
+      const data = await api.getBpmBatch({ body: { trackIds, country: countryCode } })
+      applyBatchResults(data.results)
 
       const tracksInDbSet = await fetchTracksInDbForIds(trackIds)
       setState('tracksInDb', tracksInDbSet)
@@ -992,13 +984,21 @@ export function useBpmAnalysis(tracks: Track[]) {
         setState('tracksNeedingBpm', idsToCalculate)
         setState('tracksNeedingKey', idsToCalculate)
         setState('tracksNeedingCalc', idsToCalculate)
+        if (playlistId) {
+          try {
+            await queueBpmJobsForTracks(tracksToCalculate)
+            return
+          } catch (error) {
+            console.error('[BPM Client] Job queue error, streaming instead:', error)
+          }
+        }
         streamBpmsForTracks(tracksToCalculate, idsToCalculate, idsToCalculate)
       }
     } catch (error) {
       console.error('[BPM Client] Batch fetch error:', error)
       streamBpmsForTracks(tracks)
     }
-  }, [tracks, countryCode, fetchTracksInDbForIds, streamBpmsForTracks, applyBatchResults, setState])
+  }, [tracks, playlistId, countryCode, fetchTracksInDbForIds, queueBpmJobsForTracks, streamBpmsForTracks, applyBatchResults, setState])
 
   const updateBpmSelection = async (payload: {
     spotifyTrackId: string
@@ -1074,14 +1074,7 @@ export function useBpmAnalysis(tracks: Track[]) {
       setState('bpmFullData', (prev) => ({ ...prev, [trackId]: optimisticFullData }))
     }
     try {
-      const res = await fetch('/api/bpm/update-selection', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      })
-      if (!res.ok) {
-        throw new Error('Failed to update BPM selection')
-      }
+      await api.updateBpmSelection({ body: payload })
       await fetchBpmsBatch()
     } catch (error) {
       if (shouldUpdateBpm) {
@@ -1144,11 +1137,7 @@ export function useBpmAnalysis(tracks: Track[]) {
         : override === 'key_only' || override === 'fallback_only_key'
           ? 'key'
           : 'both'
-      await fetch('/api/bpm/recalculate', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ trackIds: [track.id] }),
-      })
+      await api.recalculateBpm({ body: { trackIds: [track.id] } })
       const targetIds = new Set([track.id])
       const needsBpm = recalcScope === 'key' ? new Set<string>() : targetIds
       const needsKey = recalcScope === 'bpm' ? new Set<string>() : targetIds
@@ -1185,15 +1174,7 @@ export function useBpmAnalysis(tracks: Track[]) {
   const handleMusoPreviewBpm = async (trackId: string) => {
     setState('musoPreviewStatus', { loading: true })
     try {
-      const res = await fetch('/api/muso/preview-bpm', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ spotifyTrackId: trackId }),
-      })
-      const data = await res.json().catch(() => ({}))
-      if (!res.ok) {
-        throw new Error(data?.error || 'Unable to fetch Muso preview')
-      }
+      await api.computeMusoPreviewBpm({ body: { spotifyTrackId: trackId } })
       setState('musoPreviewStatus', { loading: false, success: true })
       await fetchBpmsBatch()
     } catch (error) {
@@ -1250,6 +1231,46 @@ export function useBpmAnalysis(tracks: Track[]) {
     }
   }, [])
 
+  useEffect(() => {
+    if (!bpmJobsActive || !playlistId) return
+    let cancelled = false
+
+    const poll = async () => {
+      try {
+        const data = await api
+          .getBpmJobProgress({ query: { playlistId, since: bpmJobsSinceRef.current ?? undefined } })
+          .catch(() => null)
+        if (!data || cancelled) return
+        bpmJobsSinceRef.current = data.checkedAt || null
+
+        const finishedIds = new Set(data.updates.map((update) => update.trackId))
+        const pendingIds = pendingJobTrackIdsRef.current
+        const isDrained = data.queued + data.running === 0
+        // Once the queue is drained, pick up every job we are still waiting for
+        const tracksToRefresh = tracks.filter(track =>
+          pendingIds.has(track.id) && (isDrained || finishedIds.has(track.id))
+        )
+        tracksToRefresh.forEach(track => pendingIds.delete(track.id))
+        if (tracksToRefresh.length > 0) {
+          await fetchBpmsForTracks(tracksToRefresh)
+          clearLoadingForTracks(tracksToRefresh.map(track => track.id))
+        }
+        if (isDrained) {
+          pendingIds.clear()
+          setState('bpmJobsActive', false)
+        }
+      } catch (error) {
+        console.error('[BPM Client] Job progress error:', error)
+      }
+    }
+
+    const intervalId = setInterval(poll, BPM_JOB_POLL_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(intervalId)
+    }
+  }, [bpmJobsActive, playlistId, tracks, fetchBpmsForTracks, clearLoadingForTracks, setState])
+
   const bpmSummary = useMemo(() => {
     const totalTracks = tracks.length
     if (totalTracks === 0) return null
@@ -1274,8 +1295,9 @@ export function useBpmAnalysis(tracks: Track[]) {
       tracksWithBpm,
       tracksWithNa,
       shouldShowProgress,
+      isBackgroundJob: bpmJobsActive,
     }
-  }, [tracks, tracksNeedingCalc, loadingTrackIds, trackBpms])
+  }, [tracks, tracksNeedingCalc, loadingTrackIds, trackBpms, bpmJobsActive])
 
   useEffect(() => {
     if (bpmSummary) {
@@ -1291,6 +1313,7 @@ export function useBpmAnalysis(tracks: Track[]) {
     getPreviewUrlFromMeta,
     fetchBpmsBatch,
     streamBpmsForTracks,
+    queueBpmJobsForTracks,
     updateBpmSelection,
     recalcTrackWithOptions,
     handleMusoPreviewBpm,
@@ -1,4 +1,7 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { apiContracts } from '@/lib/apiContracts'
+import { fetchApi } from '@/lib/apiClient'
+import { ApiRequestError } from '@/lib/errors'
 import type { SpotifyPlaylistInfo } from '@/lib/types'
 
 interface PlaylistResponse extends SpotifyPlaylistInfo {
@@ -14,18 +17,16 @@ interface PlaylistCacheInfo {
 }
 
 async function fetchPlaylist(playlistId: string, forceRefresh = false): Promise<PlaylistResponse> {
-  const url = `/api/playlists/${playlistId}${forceRefresh ? '?refresh=true' : ''}`
-  const res = await fetch(url)
-  
-  if (!res.ok) {
-    if (res.status === 401) {
+  const { data, response: res } = await fetchApi(apiContracts.getPlaylist, {
+    params: { id: playlistId },
+    query: forceRefresh ? { refresh: true } : {},
+  }).catch((error) => {
+    if (error instanceof ApiRequestError && error.statusCode === 401) {
       throw new Error('Unauthorized - Please log in')
     }
     throw new Error('Failed to fetch playlist')
-  }
-  
-  const data = await res.json()
-  
+  })
+
   // Extract cache info from headers
   const cached = res.headers.get('X-Cached') === 'true'
   const cachedAtStr = res.headers.get('X-Cached-At')
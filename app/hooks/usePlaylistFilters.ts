@@ -1,7 +1,9 @@
 'use client'
 
-import { useEffect, useMemo, useReducer } from 'react'
-import type { SpotifyTrack, SortField, SortDirection } from '@/lib/types'
+import { useCallback, useEffect, useMemo, useReducer } from 'react'
+import type { SpotifyTrack, SortField, SortDirection, TrackAudioFeatures } from '@/lib/types'
+import { getCamelotSortValue, isHarmonicallyCompatible, toCamelot, type KeyNotation } from '@/lib/camelot'
+import { sequenceTracks, type SequenceCurve } from '@/lib/sequencer'
 
 type Track = SpotifyTrack
 
@@ -17,6 +19,14 @@ type FiltersState = {
   bpmFrom: string
   bpmTo: string
   includeHalfDoubleBpm: boolean
+  energyFrom: string
+  energyTo: string
+  danceabilityFrom: string
+  danceabilityTo: string
+  keyNotation: KeyNotation
+  harmonicTrackId: string | null
+  tempoWindow: string
+  sequenceCurve: SequenceCurve | null
 }
 
 type SetAction<State> = {
@@ -50,6 +60,14 @@ const createInitialFiltersState = (): FiltersState => ({
   bpmFrom: '',
   bpmTo: '',
   includeHalfDoubleBpm: false,
+  energyFrom: '',
+  energyTo: '',
+  danceabilityFrom: '',
+  danceabilityTo: '',
+  keyNotation: 'classic',
+  harmonicTrackId: null,
+  tempoWindow: '',
+  sequenceCurve: null,
 })
 
 const getYear = (dateString: string | null | undefined): number | null => {
@@ -59,7 +77,37 @@ const getYear = (dateString: string | null | undefined): number | null => {
   return isNaN(yearNum) ? null : yearNum
 }
 
-export function usePlaylistFilters(tracks: Track[], trackBpms: Record<string, number | null>) {
+// Energy/danceability ranges are entered as percentages of the 0-1 feature value;
+// tracks without the feature are excluded while a range is set
+const matchesPercentRange = (value: number | null | undefined, from: string, to: string): boolean => {
+  if (!from && !to) return true
+  if (value == null) return false
+  const percent = value * 100
+  if (from && percent < parseFloat(from)) return false
+  if (to && percent > parseFloat(to)) return false
+  return true
+}
+
+type AudioFeatureSortField = 'energy' | 'danceability' | 'loudness' | 'onset_density' | 'intro' | 'outro'
+
+const AUDIO_FEATURE_SORT_KEYS: Record<AudioFeatureSortField, keyof TrackAudioFeatures> = {
+  energy: 'energy',
+  danceability: 'danceability',
+  loudness: 'loudnessLufs',
+  onset_density: 'onsetDensity',
+  intro: 'introSeconds',
+  outro: 'outroSeconds',
+}
+
+const KEY_NOTATIONS: KeyNotation[] = ['classic', 'camelot', 'openkey']
+
+export function usePlaylistFilters(
+  tracks: Track[],
+  trackBpms: Record<string, number | null>,
+  trackKeys: Record<string, string | null>,
+  trackScales: Record<string, string | null>,
+  trackAudioFeatures: Record<string, TrackAudioFeatures>
+) {
   const [state, dispatch] = useReducer(filtersReducer, undefined, createInitialFiltersState)
   const {
     pageSize,
@@ -73,8 +121,31 @@ export function usePlaylistFilters(tracks: Track[], trackBpms: Record<string, nu
     bpmFrom,
     bpmTo,
     includeHalfDoubleBpm,
+    energyFrom,
+    energyTo,
+    danceabilityFrom,
+    danceabilityTo,
+    keyNotation,
+    harmonicTrackId,
+    tempoWindow,
+    sequenceCurve,
   } = state
 
+  const getTrackBpm = useCallback((track: Track): number | null => {
+    return trackBpms[track.id] != null
+      ? Math.round(trackBpms[track.id]!)
+      : (track.tempo ? Math.round(track.tempo) : null)
+  }, [trackBpms])
+
+  const harmonicTrack = useMemo(
+    () => (harmonicTrackId ? tracks.find((track) => track.id === harmonicTrackId) ?? null : null),
+    [tracks, harmonicTrackId]
+  )
+  const harmonicCamelot = harmonicTrack
+    ? toCamelot(trackKeys[harmonicTrack.id], trackScales[harmonicTrack.id])
+    : null
+  const harmonicBpm = harmonicTrack ? getTrackBpm(harmonicTrack) : null
+
   const filteredTracks = useMemo(() => {
     return tracks.filter((track) => {
       if (searchQuery) {
@@ -97,9 +168,26 @@ export function usePlaylistFilters(tracks: Track[], trackBpms: Record<string, nu
         if (yearTo && trackYear > parseInt(yearTo, 10)) return false
       }
 
-      const trackBpm = trackBpms[track.id] != null
-        ? Math.round(trackBpms[track.id]!)
-        : (track.tempo ? Math.round(track.tempo) : null)
+      const features = trackAudioFeatures[track.id]
+      if (!matchesPercentRange(features?.energy, energyFrom, energyTo)) return false
+      if (!matchesPercentRange(features?.danceability, danceabilityFrom, danceabilityTo)) return false
+
+      const trackBpm = getTrackBpm(track)
+
+      if (harmonicTrack) {
+        if (harmonicCamelot) {
+          const camelot = toCamelot(trackKeys[track.id], trackScales[track.id])
+          if (!camelot || !isHarmonicallyCompatible(harmonicCamelot, camelot)) return false
+        }
+
+        const windowNum = tempoWindow ? parseFloat(tempoWindow) : NaN
+        if (!Number.isNaN(windowNum) && harmonicBpm !== null) {
+          if (trackBpm === null) return false
+          const candidates = includeHalfDoubleBpm ? [trackBpm, trackBpm / 2, trackBpm * 2] : [trackBpm]
+          if (!candidates.some((bpm) => Math.abs(bpm - harmonicBpm) <= windowNum)) return false
+        }
+      }
+
       if (bpmFrom || bpmTo) {
         if (trackBpm === null) return false
 
@@ -126,9 +214,46 @@ export function usePlaylistFilters(tracks: Track[], trackBpms: Record<string, nu
 
       return true
     })
-  }, [tracks, searchQuery, trackBpms, yearFrom, yearTo, bpmFrom, bpmTo, includeHalfDoubleBpm])
+  }, [
+    tracks,
+    searchQuery,
+    trackBpms,
+    trackKeys,
+    trackScales,
+    getTrackBpm,
+    yearFrom,
+    yearTo,
+    bpmFrom,
+    bpmTo,
+    includeHalfDoubleBpm,
+    trackAudioFeatures,
+    energyFrom,
+    energyTo,
+    danceabilityFrom,
+    danceabilityTo,
+    harmonicTrack,
+    harmonicCamelot,
+    harmonicBpm,
+    tempoWindow,
+  ])
+
+  const sequence = useMemo(() => {
+    if (!sequenceCurve) return null
+    const items = filteredTracks.map((track) => ({
+      id: track.id,
+      bpm: getTrackBpm(track),
+      camelot: toCamelot(trackKeys[track.id], trackScales[track.id]),
+    }))
+    return sequenceTracks(items, sequenceCurve)
+  }, [filteredTracks, sequenceCurve, getTrackBpm, trackKeys, trackScales])
 
   const sortedTracks = useMemo(() => {
+    if (sequence) {
+      const byId = new Map(filteredTracks.map((track) => [track.id, track]))
+      return sequence.order
+        .map((id) => byId.get(id))
+        .filter((track): track is Track => Boolean(track))
+    }
     return [...filteredTracks].sort((a, b) => {
       if (!sortField) return 0
 
@@ -179,6 +304,22 @@ export function usePlaylistFilters(tracks: Track[], trackBpms: Record<string, nu
           aValue = a.popularity ?? -1
           bValue = b.popularity ?? -1
           break
+        case 'key':
+          aValue = getCamelotSortValue(toCamelot(trackKeys[a.id], trackScales[a.id]))
+          bValue = getCamelotSortValue(toCamelot(trackKeys[b.id], trackScales[b.id]))
+          break
+        case 'energy':
+        case 'danceability':
+        case 'loudness':
+        case 'onset_density':
+        case 'intro':
+        case 'outro': {
+          // Unanalysed tracks sort before any measured value (loudness is negative)
+          const featureKey = AUDIO_FEATURE_SORT_KEYS[sortField]
+          aValue = trackAudioFeatures[a.id]?.[featureKey] ?? -Infinity
+          bValue = trackAudioFeatures[b.id]?.[featureKey] ?? -Infinity
+          break
+        }
         default:
           return 0
       }
@@ -187,7 +328,17 @@ export function usePlaylistFilters(tracks: Track[], trackBpms: Record<string, nu
       if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1
       return 0
     })
-  }, [filteredTracks, sortField, sortDirection, trackBpms])
+  }, [filteredTracks, sequence, sortField, sortDirection, trackBpms, trackKeys, trackScales, trackAudioFeatures])
+
+  // Target vs actual tempo per position, for the sequence preview chart
+  const sequencePoints = useMemo(() => {
+    if (!sequence) return []
+    return sortedTracks.map((track) => ({
+      trackId: track.id,
+      target: sequence.targets[track.id] ?? null,
+      bpm: getTrackBpm(track),
+    }))
+  }, [sequence, sortedTracks, getTrackBpm])
 
   const totalPages = pageSize === 'all' ? 1 : Math.max(1, Math.ceil(sortedTracks.length / pageSize))
   const safePage = Math.min(currentPage, totalPages)
@@ -197,7 +348,7 @@ export function usePlaylistFilters(tracks: Track[], trackBpms: Record<string, nu
 
   useEffect(() => {
     dispatch({ type: 'set', key: 'currentPage', value: 1 })
-  }, [searchQuery, sortField, sortDirection, pageSize])
+  }, [searchQuery, sortField, sortDirection, pageSize, harmonicTrackId, sequenceCurve])
 
   useEffect(() => {
     if (currentPage > totalPages) {
@@ -224,7 +375,22 @@ export function usePlaylistFilters(tracks: Track[], trackBpms: Record<string, nu
     window.localStorage.setItem('playlistPageSize', String(pageSize))
   }, [pageSize])
 
+  useEffect(() => {
+    if (typeof window === 'undefined') return
+    const saved = window.localStorage.getItem('playlistKeyNotation') as KeyNotation | null
+    if (saved && KEY_NOTATIONS.includes(saved)) {
+      dispatch({ type: 'set', key: 'keyNotation', value: saved })
+    }
+  }, [])
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return
+    window.localStorage.setItem('playlistKeyNotation', keyNotation)
+  }, [keyNotation])
+
   const handleSort = (field: SortField) => {
+    // A manual sort replaces any active sequence
+    dispatch({ type: 'set', key: 'sequenceCurve', value: null })
     if (sortField === field) {
       dispatch({
         type: 'set',
@@ -257,6 +423,15 @@ export function usePlaylistFilters(tracks: Track[], trackBpms: Record<string, nu
     bpmFrom,
     bpmTo,
     includeHalfDoubleBpm,
+    energyFrom,
+    energyTo,
+    danceabilityFrom,
+    danceabilityTo,
+    keyNotation,
+    harmonicTrack,
+    tempoWindow,
+    sequenceCurve,
+    sequencePoints,
     pageSize,
     currentPage,
     setSearchQuery: (value: string) => dispatch({ type: 'set', key: 'searchQuery', value }),
@@ -268,6 +443,19 @@ export function usePlaylistFilters(tracks: Track[], trackBpms: Record<string, nu
     setBpmFrom: (value: string) => dispatch({ type: 'set', key: 'bpmFrom', value }),
     setBpmTo: (value: string) => dispatch({ type: 'set', key: 'bpmTo', value }),
     setIncludeHalfDoubleBpm: (value: boolean) => dispatch({ type: 'set', key: 'includeHalfDoubleBpm', value }),
+    setEnergyFrom: (value: string) => dispatch({ type: 'set', key: 'energyFrom', value }),
+    setEnergyTo: (value: string) => dispatch({ type: 'set', key: 'energyTo', value }),
+    setDanceabilityFrom: (value: string) => dispatch({ type: 'set', key: 'danceabilityFrom', value }),
+    setDanceabilityTo: (value: string) => dispatch({ type: 'set', key: 'danceabilityTo', value }),
+    setKeyNotation: (value: KeyNotation) => dispatch({ type: 'set', key: 'keyNotation', value }),
+    setHarmonicTrackId: (value: string | null) => dispatch({ type: 'set', key: 'harmonicTrackId', value }),
+    setTempoWindow: (value: string) => dispatch({ type: 'set', key: 'tempoWindow', value }),
+    setSequenceCurve: (value: SequenceCurve | null) => {
+      if (value) {
+        dispatch({ type: 'set', key: 'sortField', value: null })
+      }
+      dispatch({ type: 'set', key: 'sequenceCurve', value })
+    },
     setPageSize: (value: number | 'all') => dispatch({ type: 'set', key: 'pageSize', value }),
     setCurrentPage: (value: number | ((prev: number) => number)) => dispatch({ type: 'set', key: 'currentPage', value }),
     handleSort,
@@ -1,4 +1,6 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/lib/apiClient'
+import { ApiRequestError } from '@/lib/errors'
 import type { SpotifyTrack } from '@/lib/types'
 
 interface TracksCacheInfo {
@@ -8,25 +10,14 @@ interface TracksCacheInfo {
 }
 
 async function fetchPlaylistTracks(playlistId: string, forceRefresh = false): Promise<SpotifyTrack[]> {
-  const url = `/api/playlists/${playlistId}/tracks${forceRefresh ? '?refresh=true' : ''}`
-  const res = await fetch(url)
-  
-  if (!res.ok) {
-    if (res.status === 401) {
-      throw new Error('Unauthorized - Please log in')
-    }
-    throw new Error('Failed to fetch tracks')
-  }
-  
-  const data = await res.json()
-  
-  // Store cache info in query meta for access
-  const cached = res.headers.get('X-Cached') === 'true'
-  const cachedAtStr = res.headers.get('X-Cached-At')
-  const snapshotId = res.headers.get('X-Snapshot-Id')
-  
-  // We'll store cache info separately since tracks is just an array
-  return data
+  return api
+    .getPlaylistTracks({ params: { id: playlistId }, query: forceRefresh ? { refresh: true } : {} })
+    .catch((error) => {
+      if (error instanceof ApiRequestError && error.statusCode === 401) {
+        throw new Error('Unauthorized - Please log in')
+      }
+      throw new Error('Failed to fetch tracks')
+    })
 }
 
 export function usePlaylistTracks(playlistId: string, options?: { enabled?: boolean }) {
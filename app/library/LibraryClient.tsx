@@ -0,0 +1,319 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { api } from '@/lib/apiClient'
+import { ApiRequestError } from '@/lib/errors'
+import type { LibraryIndex, LibraryTrack } from '@/lib/library'
+import { formatCamelot, formatKey, toCamelot } from '@/lib/camelot'
+
+type SortField = 'name' | 'artists' | 'year' | 'bpm' | 'playlists'
+type SortDirection = 'asc' | 'desc'
+
+const PAGE_SIZE = 100
+
+const CAMELOT_KEYS = Array.from({ length: 12 }, (_, i) => i + 1).flatMap((number) => [`${number}A`, `${number}B`])
+
+const getYear = (releaseDate: string | null): number | null => {
+  if (!releaseDate) return null
+  const year = parseInt(releaseDate.split('-')[0], 10)
+  return Number.isNaN(year) ? null : year
+}
+
+const getCamelotLabel = (track: LibraryTrack): string | null => {
+  const camelot = toCamelot(track.key, track.scale)
+  return camelot ? formatCamelot(camelot) : null
+}
+
+export default function LibraryClient() {
+  const [library, setLibrary] = useState<LibraryIndex | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [bpmFrom, setBpmFrom] = useState('')
+  const [bpmTo, setBpmTo] = useState('')
+  const [yearFrom, setYearFrom] = useState('')
+  const [yearTo, setYearTo] = useState('')
+  const [camelotKey, setCamelotKey] = useState('')
+  const [multiPlaylistOnly, setMultiPlaylistOnly] = useState(false)
+  const [sortField, setSortField] = useState<SortField>('playlists')
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
+  const [page, setPage] = useState(1)
+
+  useEffect(() => {
+    api
+      .getLibrary()
+      .catch((err) => {
+        if (err instanceof ApiRequestError && err.statusCode === 401) {
+          window.location.href = '/api/auth/login'
+          throw new Error('Unauthorized')
+        }
+        throw new Error('Failed to load library')
+      })
+      .then((data) => {
+        setLibrary(data)
+        setLoading(false)
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+        setLoading(false)
+      })
+  }, [])
+
+  const filteredTracks = useMemo(() => {
+    if (!library) return []
+    const query = searchQuery.trim().toLowerCase()
+    const bpmFromNum = bpmFrom ? parseFloat(bpmFrom) : null
+    const bpmToNum = bpmTo ? parseFloat(bpmTo) : null
+    const yearFromNum = yearFrom ? parseInt(yearFrom, 10) : null
+    const yearToNum = yearTo ? parseInt(yearTo, 10) : null
+
+    return library.tracks.filter((track) => {
+      if (query) {
+        const matches =
+          track.name.toLowerCase().includes(query) ||
+          track.artists.some((artist) => artist.toLowerCase().includes(query)) ||
+          track.album.toLowerCase().includes(query) ||
+          track.isrcs.some((isrc) => isrc.toLowerCase() === query) ||
+          track.playlists.some((playlist) => playlist.name.toLowerCase().includes(query))
+        if (!matches) return false
+      }
+      if (bpmFromNum !== null || bpmToNum !== null) {
+        if (track.bpm == null) return false
+        if (bpmFromNum !== null && track.bpm < bpmFromNum) return false
+        if (bpmToNum !== null && track.bpm > bpmToNum) return false
+      }
+      if (yearFromNum !== null || yearToNum !== null) {
+        const year = getYear(track.releaseDate)
+        if (year === null) return false
+        if (yearFromNum !== null && year < yearFromNum) return false
+        if (yearToNum !== null && year > yearToNum) return false
+      }
+      if (camelotKey && getCamelotLabel(track) !== camelotKey) return false
+      if (multiPlaylistOnly && track.playlists.length < 2) return false
+      return true
+    })
+  }, [library, searchQuery, bpmFrom, bpmTo, yearFrom, yearTo, camelotKey, multiPlaylistOnly])
+
+  const sortedTracks = useMemo(() => {
+    const direction = sortDirection === 'asc' ? 1 : -1
+    return [...filteredTracks].sort((a, b) => {
+      let aValue: string | number
+      let bValue: string | number
+      switch (sortField) {
+        case 'name':
+          aValue = a.name.toLowerCase()
+          bValue = b.name.toLowerCase()
+          break
+        case 'artists':
+          aValue = a.artists.join(', ').toLowerCase()
+          bValue = b.artists.join(', ').toLowerCase()
+          break
+        case 'year':
+          aValue = getYear(a.releaseDate) ?? -1
+          bValue = getYear(b.releaseDate) ?? -1
+          break
+        case 'bpm':
+          aValue = a.bpm ?? -1
+          bValue = b.bpm ?? -1
+          break
+        case 'playlists':
+        default:
+          aValue = a.playlists.length
+          bValue = b.playlists.length
+          break
+      }
+      if (aValue < bValue) return -1 * direction
+      if (aValue > bValue) return 1 * direction
+      return 0
+    })
+  }, [filteredTracks, sortField, sortDirection])
+
+  useEffect(() => {
+    setPage(1)
+  }, [searchQuery, bpmFrom, bpmTo, yearFrom, yearTo, camelotKey, multiPlaylistOnly, sortField, sortDirection])
+
+  const totalPages = Math.max(1, Math.ceil(sortedTracks.length / PAGE_SIZE))
+  const safePage = Math.min(page, totalPages)
+  const pageTracks = sortedTracks.slice((safePage - 1) * PAGE_SIZE, safePage * PAGE_SIZE)
+
+  const handleSort = (field: SortField) => {
+    if (sortField === field) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')
+    } else {
+      setSortField(field)
+      setSortDirection(field === 'playlists' ? 'desc' : 'asc')
+    }
+  }
+
+  const sortIndicator = (field: SortField) =>
+    sortField === field ? (sortDirection === 'asc' ? '↑' : '↓') : '↕'
+
+  if (loading) {
+    return <div className="py-12 text-center text-sm text-gray-500">Building library from cached playlists...</div>
+  }
+
+  if (error || !library) {
+    return <div className="py-12 text-center text-sm text-red-600">{error || 'Failed to load library'}</div>
+  }
+
+  const inputClass =
+    'w-24 px-3 py-2 bg-white border border-gray-300 rounded text-gray-900 text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent'
+  const headerClass =
+    'px-3 lg:px-4 py-3 text-left text-[11px] uppercase tracking-[0.05em] font-medium text-[#A0AEC0] dark:text-slate-500'
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-slate-300">
+        {library.tracks.length} unique tracks ({library.trackOccurrences} playlist entries) from{' '}
+        {library.cachedPlaylistCount} of {library.playlistCount} playlists.
+        {library.cachedPlaylistCount < library.playlistCount && ' Open a playlist once to add it to the library.'}{' '}
+        <Link href="/library/duplicates" className="text-emerald-600 hover:text-emerald-700 hover:underline">
+          Find duplicates
+        </Link>
+      </p>
+
+      <input
+        type="text"
+        placeholder="Search title, artist, album, ISRC or playlist..."
+        value={searchQuery}
+        onChange={(e) => setSearchQuery(e.target.value)}
+        className="w-full bg-transparent py-3 px-2 text-sm text-gray-900 placeholder-gray-500 border-b border-gray-300 focus:outline-none focus:border-gray-500"
+      />
+
+      <div className="flex flex-wrap items-end gap-4 rounded-lg border border-gray-200 bg-gray-100 p-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">BPM</label>
+          <div className="flex items-center gap-2">
+            <input type="number" placeholder="From" value={bpmFrom} onChange={(e) => setBpmFrom(e.target.value)} className={inputClass} />
+            <span className="text-sm text-gray-500">to</span>
+            <input type="number" placeholder="To" value={bpmTo} onChange={(e) => setBpmTo(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Year</label>
+          <div className="flex items-center gap-2">
+            <input type="number" placeholder="From" value={yearFrom} onChange={(e) => setYearFrom(e.target.value)} className={inputClass} />
+            <span className="text-sm text-gray-500">to</span>
+            <input type="number" placeholder="To" value={yearTo} onChange={(e) => setYearTo(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Key (Camelot)</label>
+          <select
+            value={camelotKey}
+            onChange={(e) => setCamelotKey(e.target.value)}
+            className="px-3 py-2 bg-white border border-gray-300 rounded text-gray-900 text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          >
+            <option value="">Any</option>
+            {CAMELOT_KEYS.map((key) => (
+              <option key={key} value={key}>
+                {key}
+              </option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-center pb-2">
+          <input
+            type="checkbox"
+            checked={multiPlaylistOnly}
+            onChange={(e) => setMultiPlaylistOnly(e.target.checked)}
+            className="mr-2 w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+          />
+          <span className="text-sm text-gray-700">In more than one playlist</span>
+        </label>
+      </div>
+
+      <div className="overflow-hidden rounded-2xl bg-white shadow-[0_4px_24px_rgba(0,0,0,0.06)] dark:bg-slate-900">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-white/70 border-b border-gray-100 dark:border-slate-800 dark:bg-slate-900/90">
+              <tr>
+                <th className={`${headerClass} cursor-pointer select-none`} onClick={() => handleSort('name')}>
+                  Track <span className="text-[10px]">{sortIndicator('name')}</span>
+                </th>
+                <th className={`${headerClass} cursor-pointer select-none hidden md:table-cell`} onClick={() => handleSort('artists')}>
+                  Artist <span className="text-[10px]">{sortIndicator('artists')}</span>
+                </th>
+                <th className={`${headerClass} cursor-pointer select-none`} onClick={() => handleSort('year')}>
+                  Year <span className="text-[10px]">{sortIndicator('year')}</span>
+                </th>
+                <th className={`${headerClass} cursor-pointer select-none`} onClick={() => handleSort('bpm')}>
+                  BPM <span className="text-[10px]">{sortIndicator('bpm')}</span>
+                </th>
+                <th className={headerClass}>Key</th>
+                <th className={`${headerClass} cursor-pointer select-none`} onClick={() => handleSort('playlists')}>
+                  Playlists <span className="text-[10px]">{sortIndicator('playlists')}</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {pageTracks.map((track) => (
+                <tr key={track.id} className="border-b border-gray-100 text-sm dark:border-slate-800">
+                  <td className="px-3 lg:px-4 py-3">
+                    {track.spotifyUrl ? (
+                      <a href={track.spotifyUrl} target="_blank" rel="noopener noreferrer" className="font-medium text-gray-900 hover:underline dark:text-slate-100">
+                        {track.name}
+                      </a>
+                    ) : (
+                      <span className="font-medium text-gray-900 dark:text-slate-100">{track.name}</span>
+                    )}
+                    <div className="text-xs text-gray-500 md:hidden">{track.artists.join(', ')}</div>
+                  </td>
+                  <td className="px-3 lg:px-4 py-3 text-gray-600 hidden md:table-cell dark:text-slate-300">{track.artists.join(', ')}</td>
+                  <td className="px-3 lg:px-4 py-3 text-gray-600 dark:text-slate-300">{getYear(track.releaseDate) ?? 'N/A'}</td>
+                  <td className="px-3 lg:px-4 py-3 text-gray-600 dark:text-slate-300">{track.bpm != null ? Math.round(track.bpm) : '-'}</td>
+                  <td className="px-3 lg:px-4 py-3 text-gray-600 dark:text-slate-300" title={formatKey(track.key, track.scale, 'classic') ?? undefined}>
+                    {getCamelotLabel(track) ?? '-'}
+                  </td>
+                  <td className="px-3 lg:px-4 py-3">
+                    <div className="flex flex-wrap gap-1">
+                      {track.playlists.map((playlist) => (
+                        <Link
+                          key={playlist.id}
+                          href={`/playlists/${playlist.id}`}
+                          className="rounded-full border border-gray-200 px-2 py-0.5 text-xs text-gray-600 hover:border-emerald-300 hover:text-emerald-700 dark:border-slate-700 dark:text-slate-300"
+                        >
+                          {playlist.name}
+                        </Link>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {pageTracks.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-8 text-center text-sm text-gray-500">
+                    No tracks match the current filters.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm text-gray-600">
+          <button
+            onClick={() => setPage(Math.max(1, safePage - 1))}
+            disabled={safePage <= 1}
+            className="px-2 py-1 border border-gray-300 rounded disabled:text-gray-400 disabled:border-gray-200"
+          >
+            Prev
+          </button>
+          <span>
+            Page {safePage} of {totalPages} ({sortedTracks.length} tracks)
+          </span>
+          <button
+            onClick={() => setPage(Math.min(totalPages, safePage + 1))}
+            disabled={safePage >= totalPages}
+            className="px-2 py-1 border border-gray-300 rounded disabled:text-gray-400 disabled:border-gray-200"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
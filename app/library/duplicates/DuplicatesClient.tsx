@@ -0,0 +1,165 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { api } from '@/lib/apiClient'
+import { ApiRequestError } from '@/lib/errors'
+import type { DuplicateReason, DuplicateReport } from '@/lib/duplicates'
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  same_id: 'Same track',
+  isrc: 'Same ISRC',
+  bpm_cache: 'Same analysed recording',
+  fuzzy: 'Similar title, artist and length',
+}
+
+const formatDuration = (durationMs: number) => {
+  const totalSeconds = Math.round(durationMs / 1000)
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`
+}
+
+export default function DuplicatesClient() {
+  const [report, setReport] = useState<DuplicateReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [view, setView] = useState<'playlists' | 'groups'>('playlists')
+
+  useEffect(() => {
+    api
+      .getDuplicateReport()
+      .catch((err) => {
+        if (err instanceof ApiRequestError && err.statusCode === 401) {
+          window.location.href = '/api/auth/login'
+          throw new Error('Unauthorized')
+        }
+        throw new Error('Failed to load duplicate report')
+      })
+      .then((data) => {
+        setReport(data)
+        setLoading(false)
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+        setLoading(false)
+      })
+  }, [])
+
+  if (loading) {
+    return <div className="py-12 text-center text-sm text-gray-500">Looking for duplicates across cached playlists...</div>
+  }
+
+  if (error || !report) {
+    return <div className="py-12 text-center text-sm text-red-600">{error || 'Failed to load duplicate report'}</div>
+  }
+
+  const redundantTotal = report.playlists.reduce((sum, playlist) => sum + playlist.redundantEntries.length, 0)
+  const tabClass = (active: boolean) =>
+    `rounded-full px-4 py-1.5 text-sm font-medium ${
+      active ? 'bg-gray-900 text-white dark:bg-slate-100 dark:text-slate-900' : 'border border-gray-200 text-gray-600 hover:bg-gray-50 dark:border-slate-700 dark:text-slate-300'
+    }`
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-slate-300">
+        {redundantTotal} redundant entries in {report.playlists.length} playlists; {report.groups.length} recordings
+        appear more than once. Scanned {report.cachedPlaylistCount} of {report.playlistCount} playlists (open a
+        playlist once to include it).
+      </p>
+
+      <div className="flex gap-2">
+        <button type="button" className={tabClass(view === 'playlists')} onClick={() => setView('playlists')}>
+          By playlist
+        </button>
+        <button type="button" className={tabClass(view === 'groups')} onClick={() => setView('groups')}>
+          By recording
+        </button>
+      </div>
+
+      {view === 'playlists' ? (
+        report.playlists.length === 0 ? (
+          <div className="py-8 text-center text-sm text-gray-500">No redundant entries found.</div>
+        ) : (
+          report.playlists.map((playlist) => (
+            <div key={playlist.playlistId} className="rounded-2xl bg-white p-4 shadow-[0_4px_24px_rgba(0,0,0,0.06)] dark:bg-slate-900">
+              <div className="mb-3 flex items-baseline justify-between gap-3">
+                <Link href={`/playlists/${playlist.playlistId}`} className="font-semibold text-gray-900 hover:underline dark:text-slate-100">
+                  {playlist.playlistName}
+                </Link>
+                <span className="text-xs text-gray-500">
+                  {playlist.redundantEntries.length} of {playlist.trackCount} entries redundant
+                </span>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-[11px] uppercase tracking-[0.05em] text-[#A0AEC0] dark:text-slate-500">
+                    <th className="py-2 pr-3 w-12">#</th>
+                    <th className="py-2 pr-3">Track</th>
+                    <th className="py-2 pr-3">Duplicate of</th>
+                    <th className="py-2">Match</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {playlist.redundantEntries.map((entry) => (
+                    <tr key={`${entry.position}-${entry.spotifyId}`} className="border-t border-gray-100 dark:border-slate-800">
+                      <td className="py-2 pr-3 text-gray-500">{entry.position}</td>
+                      <td className="py-2 pr-3 text-gray-900 dark:text-slate-100">
+                        {entry.name}
+                        <span className="text-gray-500"> · {entry.artists.join(', ')}</span>
+                      </td>
+                      <td className="py-2 pr-3 text-gray-600 dark:text-slate-300">#{entry.keptPosition}</td>
+                      <td className="py-2 text-gray-600 dark:text-slate-300">{REASON_LABELS[entry.reason]}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))
+        )
+      ) : report.groups.length === 0 ? (
+        <div className="py-8 text-center text-sm text-gray-500">No duplicate recordings found.</div>
+      ) : (
+        report.groups.map((group) => (
+          <div key={group.id} className="rounded-2xl bg-white p-4 shadow-[0_4px_24px_rgba(0,0,0,0.06)] dark:bg-slate-900">
+            <div className="mb-2 flex flex-wrap gap-1">
+              {group.reasons.map((reason) => (
+                <span key={reason} className="rounded-full border border-gray-200 px-2 py-0.5 text-[11px] text-gray-600 dark:border-slate-700 dark:text-slate-300">
+                  {REASON_LABELS[reason]}
+                </span>
+              ))}
+            </div>
+            <ul className="space-y-2 text-sm">
+              {group.versions.map((version) => (
+                <li key={version.spotifyId}>
+                  <div className="text-gray-900 dark:text-slate-100">
+                    {version.spotifyUrl ? (
+                      <a href={version.spotifyUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                        {version.name}
+                      </a>
+                    ) : (
+                      version.name
+                    )}
+                    <span className="text-gray-500">
+                      {' '}· {version.artists.join(', ')} · {version.album} · {formatDuration(version.durationMs)}
+                      {version.isrc ? ` · ${version.isrc}` : ''}
+                    </span>
+                  </div>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {version.playlists.map((playlist) => (
+                      <Link
+                        key={playlist.id}
+                        href={`/playlists/${playlist.id}`}
+                        className="rounded-full border border-gray-200 px-2 py-0.5 text-xs text-gray-600 hover:border-emerald-300 hover:text-emerald-700 dark:border-slate-700 dark:text-slate-300"
+                      >
+                        {playlist.name} #{playlist.positions.join(', #')}
+                      </Link>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import { useState, useMemo, useEffect, useRef, useCallback } from 'react'
 import Link from 'next/link'
 import Image from 'next/image'
+import { api } from '@/lib/apiClient'
 
 interface Playlist {
   id: string
@@ -111,10 +112,10 @@ export default function PlaylistsTable({ playlists: initialPlaylists }: Playlist
   }, [initialPlaylists])
 
   useEffect(() => {
-    fetch('/api/auth/status')
-      .then((res) => res.json())
+    api
+      .getAuthStatus()
       .then((data) => {
-        if (data?.authenticated && data?.user) {
+        if (data.authenticated && data.user) {
           setPlaylistHeaderName(data.user.display_name || data.user.id || null)
         }
       })
@@ -160,14 +161,9 @@ export default function PlaylistsTable({ playlists: initialPlaylists }: Playlist
   const handleRefresh = async () => {
     setIsRefreshing(true)
     try {
-      const response = await fetch(`/api/playlists?refresh=true&includeFollowers=${followersLoaded ? 'true' : 'false'}`)
-      if (response.ok) {
-        const refreshedPlaylists = await response.json()
-        setPlaylists(refreshedPlaylists)
-        // Don't update lastVisitTimestamp on refresh - keep it to detect "new" playlists
-      } else {
-        console.error('Failed to refresh playlists')
-      }
+      const refreshedPlaylists = await api.listPlaylists({ query: { includeFollowers: followersLoaded } })
+      setPlaylists(refreshedPlaylists)
+      // Don't update lastVisitTimestamp on refresh - keep it to detect "new" playlists
     } catch (error) {
       console.error('Error refreshing playlists:', error)
     } finally {
@@ -186,12 +182,9 @@ export default function PlaylistsTable({ playlists: initialPlaylists }: Playlist
     }
     const loadFollowers = async () => {
       try {
-        const response = await fetch('/api/playlists?includeFollowers=true')
-        if (response.ok) {
-          const updatedPlaylists = await response.json()
-          setPlaylists(updatedPlaylists)
-          setFollowersLoaded(true)
-        }
+        const updatedPlaylists = await api.listPlaylists({ query: { includeFollowers: true } })
+        setPlaylists(updatedPlaylists)
+        setFollowersLoaded(true)
       } catch {
         // Ignore follower hydration errors.
       }
@@ -3,6 +3,8 @@
 import { useEffect, useMemo, useState } from 'react'
 import type { SpotifyTrack } from '@/lib/types'
 import type { BpmFallbackOverride } from '../../../hooks/useBpmAnalysis'
+import TempoCheckPanel from './TempoCheckPanel'
+import BpmSuggestionsPanel from './BpmSuggestionsPanel'
 
 type Track = SpotifyTrack
 
@@ -99,6 +101,10 @@ type BpmDetailsModalProps = {
   bpmDebugInfo: Record<string, any>
   recalcMode: BpmFallbackOverride
   recalcStatus: { loading: boolean; success?: boolean; error?: string } | null
+  isPreviewPlaying: boolean
+  onTogglePreview: () => void
+  getPreviewAudioUrl: (track: Track) => Promise<string | null>
+  getPlaybackTime: () => number | null
   onClose: () => void
   onUpdateBpmSelection: (payload: UpdateBpmSelectionPayload) => Promise<void> | void
   onSetManualBpm: (value: string) => void
@@ -111,6 +117,7 @@ type BpmDetailsModalProps = {
   onSetBpmConfidenceThreshold: (value: string) => void
   onSetRecalcMode: (value: BpmFallbackOverride) => void
   onRecalcTrack: (mode: BpmFallbackOverride) => void
+  onSuggestionApplied: () => void
 }
 
 export default function BpmDetailsModal({
@@ -138,6 +145,10 @@ export default function BpmDetailsModal({
   bpmDebugInfo,
   recalcMode,
   recalcStatus,
+  isPreviewPlaying,
+  onTogglePreview,
+  getPreviewAudioUrl,
+  getPlaybackTime,
   onClose,
   onUpdateBpmSelection,
   onSetManualBpm,
@@ -150,6 +161,7 @@ export default function BpmDetailsModal({
   onSetBpmConfidenceThreshold,
   onSetRecalcMode,
   onRecalcTrack,
+  onSuggestionApplied,
 }: BpmDetailsModalProps) {
   const ghostFieldClass =
     'w-full bg-transparent border-b border-slate-300/60 py-1 text-sm text-slate-800 placeholder:text-slate-400 outline-none appearance-none [-moz-appearance:_textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none dark:border-white/5 dark:text-white/90 dark:placeholder:text-white/10'
@@ -345,7 +357,7 @@ export default function BpmDetailsModal({
                     </div>
                   </div>
                 )}
-                {isrcMismatchDetails && (
+                {isAdmin && isrcMismatchDetails && (
                   <div>
                     <button
                       onClick={() => onFetchMusoPreview(bpmModalData.trackId)}
@@ -388,6 +400,7 @@ export default function BpmDetailsModal({
                         key={candidate.id}
                         onClick={() => {
                           if (isUnavailable) {
+                            if (!isAdmin) return
                             const mode = toMode('bpm', candidate.id === 'essentia' ? 'standard' : 'fallback')
                             onRecalcTrack(mode)
                             return
@@ -520,6 +533,7 @@ export default function BpmDetailsModal({
                       key={candidate.id}
                       onClick={() => {
                         if (isUnavailable) {
+                          if (!isAdmin) return
                           const mode = toMode('key', candidate.id === 'essentia' ? 'standard' : 'fallback')
                           onRecalcTrack(mode)
                           return
@@ -650,77 +664,104 @@ export default function BpmDetailsModal({
           </section>
           </div>
 
-          <section className="pl-5">
-            <div className="flex flex-col gap-3 rounded-[14px] border border-slate-200 bg-white px-3 py-2 sm:flex-row sm:items-center dark:border-white/10 dark:bg-white/[0.04]">
-              <div className="grid flex-1 grid-cols-1 gap-3 sm:grid-cols-[1fr_auto_1fr] sm:items-center">
-                <div className="flex flex-col items-start gap-1 sm:items-start">
-                  <span className="text-[9px] font-semibold uppercase tracking-[0.2em] text-slate-400 dark:text-white/40">
-                    Scope
-                  </span>
-                  <div className="flex items-center gap-1">
-                    {(['bpm', 'key', 'both'] as const).map((scope) => (
-                      <button
-                        key={scope}
-                        onClick={() => {
-                          setRecalcScope(scope)
-                          onSetRecalcMode(toMode(scope, recalcStrategy))
-                        }}
-                        disabled={recalcStatus?.loading}
-                        className={`rounded-[8px] px-3 py-1 text-[11px] font-semibold transition ${
-                          recalcScope === scope
-                            ? 'bg-slate-200 text-slate-900 dark:bg-white/10 dark:text-white'
-                            : 'text-slate-500 hover:bg-slate-100 hover:text-slate-900 dark:text-white/60 dark:hover:bg-white/5 dark:hover:text-white'
-                        }`}
-                      >
-                        {scope === 'bpm' ? 'BPM' : scope === 'key' ? 'Key' : 'Both'}
-                      </button>
-                    ))}
+          <BpmSuggestionsPanel
+            trackId={bpmModalData.trackId}
+            isAdmin={isAdmin}
+            onApplied={onSuggestionApplied}
+          />
+
+          {isAdmin && (
+            <TempoCheckPanel
+              track={selectedBpmTrack}
+              currentBpm={bpmModalSummary.currentBpm}
+              isPlaying={isPreviewPlaying}
+              isUpdatingSelection={isUpdatingSelection}
+              onTogglePlayback={onTogglePreview}
+              getPreviewAudioUrl={getPreviewAudioUrl}
+              getPlaybackTime={getPlaybackTime}
+              onSaveBpm={(bpm) =>
+                onUpdateBpmSelection({
+                  spotifyTrackId: bpmModalData.trackId,
+                  bpmSelected: 'manual',
+                  bpmManual: bpm,
+                })
+              }
+            />
+          )}
+
+          {isAdmin && (
+            <section className="pl-5">
+              <div className="flex flex-col gap-3 rounded-[14px] border border-slate-200 bg-white px-3 py-2 sm:flex-row sm:items-center dark:border-white/10 dark:bg-white/[0.04]">
+                <div className="grid flex-1 grid-cols-1 gap-3 sm:grid-cols-[1fr_auto_1fr] sm:items-center">
+                  <div className="flex flex-col items-start gap-1 sm:items-start">
+                    <span className="text-[9px] font-semibold uppercase tracking-[0.2em] text-slate-400 dark:text-white/40">
+                      Scope
+                    </span>
+                    <div className="flex items-center gap-1">
+                      {(['bpm', 'key', 'both'] as const).map((scope) => (
+                        <button
+                          key={scope}
+                          onClick={() => {
+                            setRecalcScope(scope)
+                            onSetRecalcMode(toMode(scope, recalcStrategy))
+                          }}
+                          disabled={recalcStatus?.loading}
+                          className={`rounded-[8px] px-3 py-1 text-[11px] font-semibold transition ${
+                            recalcScope === scope
+                              ? 'bg-slate-200 text-slate-900 dark:bg-white/10 dark:text-white'
+                              : 'text-slate-500 hover:bg-slate-100 hover:text-slate-900 dark:text-white/60 dark:hover:bg-white/5 dark:hover:text-white'
+                          }`}
+                        >
+                          {scope === 'bpm' ? 'BPM' : scope === 'key' ? 'Key' : 'Both'}
+                        </button>
+                      ))}
+                    </div>
                   </div>
-                </div>
-                <span className="hidden h-full w-px bg-slate-200 sm:block dark:bg-white/10" />
-                <div className="flex flex-col items-start gap-1 sm:items-start">
-                  <span className="text-[9px] font-semibold uppercase tracking-[0.2em] text-slate-400 dark:text-white/40">
-                    Algorithm
-                  </span>
-                  <div className="flex items-center gap-1">
-                    {(['standard', 'fallback', 'both'] as const).map((strategy) => (
-                      <button
-                        key={strategy}
-                        onClick={() => {
-                          setRecalcStrategy(strategy)
-                          onSetRecalcMode(toMode(recalcScope, strategy))
-                        }}
-                        disabled={recalcStatus?.loading}
-                        className={`rounded-[8px] px-3 py-1 text-[11px] font-semibold transition ${
-                          recalcStrategy === strategy
-                            ? 'bg-slate-200 text-slate-900 dark:bg-white/10 dark:text-white'
-                            : 'text-slate-500 hover:bg-slate-100 hover:text-slate-900 dark:text-white/60 dark:hover:bg-white/5 dark:hover:text-white'
-                        }`}
-                      >
-                        {strategy === 'standard' ? 'Essentia' : strategy === 'fallback' ? 'Librosa' : 'Both'}
-                      </button>
-                    ))}
+                  <span className="hidden h-full w-px bg-slate-200 sm:block dark:bg-white/10" />
+                  <div className="flex flex-col items-start gap-1 sm:items-start">
+                    <span className="text-[9px] font-semibold uppercase tracking-[0.2em] text-slate-400 dark:text-white/40">
+                      Algorithm
+                    </span>
+                    <div className="flex items-center gap-1">
+                      {(['standard', 'fallback', 'both'] as const).map((strategy) => (
+                        <button
+                          key={strategy}
+                          onClick={() => {
+                            setRecalcStrategy(strategy)
+                            onSetRecalcMode(toMode(recalcScope, strategy))
+                          }}
+                          disabled={recalcStatus?.loading}
+                          className={`rounded-[8px] px-3 py-1 text-[11px] font-semibold transition ${
+                            recalcStrategy === strategy
+                              ? 'bg-slate-200 text-slate-900 dark:bg-white/10 dark:text-white'
+                              : 'text-slate-500 hover:bg-slate-100 hover:text-slate-900 dark:text-white/60 dark:hover:bg-white/5 dark:hover:text-white'
+                          }`}
+                        >
+                          {strategy === 'standard' ? 'Essentia' : strategy === 'fallback' ? 'Librosa' : 'Both'}
+                        </button>
+                      ))}
+                    </div>
                   </div>
                 </div>
+                <button
+                  onClick={() => {
+                    const mode = toMode(recalcScope, recalcStrategy)
+                    onSetRecalcMode(mode)
+                    onRecalcTrack(mode)
+                  }}
+                  disabled={recalcStatus?.loading}
+                  className={`h-10 rounded-[12px] px-4 text-[11px] font-semibold text-white shadow-sm transition sm:ml-auto ${
+                    recalcStatus?.loading ? 'bg-[#15803d]/60' : 'bg-[#15803d] hover:bg-[#166534]'
+                  }`}
+                >
+                  {recalcStatus?.loading ? 'Recalculating...' : 'Recalculate'}
+                </button>
               </div>
-              <button
-                onClick={() => {
-                  const mode = toMode(recalcScope, recalcStrategy)
-                  onSetRecalcMode(mode)
-                  onRecalcTrack(mode)
-                }}
-                disabled={recalcStatus?.loading}
-                className={`h-10 rounded-[12px] px-4 text-[11px] font-semibold text-white shadow-sm transition sm:ml-auto ${
-                  recalcStatus?.loading ? 'bg-[#15803d]/60' : 'bg-[#15803d] hover:bg-[#166534]'
-                }`}
-              >
-                {recalcStatus?.loading ? 'Recalculating...' : 'Recalculate'}
-              </button>
-            </div>
-            {recalcStatus?.error && (
-              <div className="mt-2 text-xs text-red-600">{recalcStatus.error}</div>
-            )}
-          </section>
+              {recalcStatus?.error && (
+                <div className="mt-2 text-xs text-red-600">{recalcStatus.error}</div>
+              )}
+            </section>
+          )}
 
           {isAdmin && (
             <section className="pl-5">
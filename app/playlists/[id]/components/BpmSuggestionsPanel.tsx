@@ -0,0 +1,260 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { api } from '@/lib/apiClient'
+import type { ContractBody, apiContracts } from '@/lib/apiContracts'
+import type { BpmSuggestionSummary, BpmSuggestionVote } from '@/lib/bpmSuggestions'
+
+type BpmSuggestionsPanelProps = {
+  trackId: string
+  isAdmin: boolean
+  onApplied: () => void
+}
+
+const KEYS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+
+type Suggestion = Omit<ContractBody<typeof apiContracts.suggestBpm>, 'spotifyTrackId'>
+
+const formatVoteValue = (vote: Pick<BpmSuggestionVote, 'bpm' | 'key' | 'scale'>) =>
+  vote.bpm != null ? `${vote.bpm} BPM` : `${vote.key || ''} ${vote.scale || ''}`.trim()
+
+export default function BpmSuggestionsPanel({ trackId, isAdmin, onApplied }: BpmSuggestionsPanelProps) {
+  const [summary, setSummary] = useState<BpmSuggestionSummary | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  const [bpmInput, setBpmInput] = useState('')
+  const [keyInput, setKeyInput] = useState('')
+  const [scaleInput, setScaleInput] = useState('')
+
+  const loadSuggestions = useCallback(async () => {
+    setLoading(true)
+    try {
+      setSummary(await api.getBpmSuggestions({ query: { spotifyTrackId: trackId } }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load suggestions')
+    } finally {
+      setLoading(false)
+    }
+  }, [trackId])
+
+  useEffect(() => {
+    setSummary(null)
+    setError(null)
+    setNotice(null)
+    setBpmInput('')
+    setKeyInput('')
+    setScaleInput('')
+    loadSuggestions()
+  }, [loadSuggestions])
+
+  const submitSuggestion = async (suggestion: Suggestion) => {
+    setSubmitting(true)
+    setError(null)
+    setNotice(null)
+    try {
+      const { promoted } = await api.suggestBpm({ body: { spotifyTrackId: trackId, ...suggestion } })
+      if (promoted.length > 0) {
+        setNotice(`${promoted.map(formatVoteValue).join(' and ')} applied after ${promoted[0].votes} users agreed.`)
+        onApplied()
+      } else {
+        setNotice('Thanks, your suggestion was recorded.')
+      }
+      setBpmInput('')
+      setKeyInput('')
+      setScaleInput('')
+      await loadSuggestions()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save suggestion')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleSubmit = () => {
+    const bpmRaw = bpmInput.trim()
+    const bpm = bpmRaw ? Number(bpmRaw) : null
+    if (bpm != null && (!Number.isFinite(bpm) || bpm < 1 || bpm > 300)) {
+      setError('Please enter a valid BPM between 1 and 300.')
+      return
+    }
+    if ((keyInput && !scaleInput) || (!keyInput && scaleInput)) {
+      setError('Pick both a key and a scale.')
+      return
+    }
+    if (bpm == null && !keyInput) {
+      setError('Enter a BPM or pick a key to suggest.')
+      return
+    }
+    void submitSuggestion({
+      bpm,
+      key: (keyInput || null) as Suggestion['key'],
+      scale: (scaleInput || null) as Suggestion['scale'],
+    })
+  }
+
+  const resolveSuggestion = async (suggestionId: number, action: 'accept' | 'reject') => {
+    setSubmitting(true)
+    setError(null)
+    setNotice(null)
+    try {
+      await api.resolveBpmSuggestion({ body: { suggestionId, action } })
+      if (action === 'accept') {
+        onApplied()
+      }
+      await loadSuggestions()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update suggestion')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const renderVotes = (votes: BpmSuggestionVote[]) =>
+    votes.map((vote) => (
+      <div
+        key={vote.suggestionId}
+        className="flex items-center justify-between gap-3 py-1 text-[12px] text-slate-600 dark:text-white/60"
+      >
+        <div>
+          <span className="font-semibold text-slate-700 dark:text-white/80">{formatVoteValue(vote)}</span>
+          {' · '}
+          {vote.votes} {vote.votes === 1 ? 'vote' : 'votes'}
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => submitSuggestion(vote.bpm != null ? { bpm: vote.bpm } : { key: vote.key as Suggestion['key'], scale: vote.scale as Suggestion['scale'] })}
+            disabled={submitting || vote.hasMyVote}
+            className="text-[11px] font-semibold text-emerald-600 hover:text-emerald-700 disabled:text-slate-400 dark:text-emerald-300 dark:hover:text-emerald-200 dark:disabled:text-white/30"
+          >
+            {vote.hasMyVote ? 'Voted' : 'Agree'}
+          </button>
+          {isAdmin && (
+            <>
+              <button
+                onClick={() => resolveSuggestion(vote.suggestionId, 'accept')}
+                disabled={submitting}
+                className="text-[11px] font-semibold text-emerald-600 hover:text-emerald-700 disabled:text-slate-400 dark:text-emerald-300 dark:hover:text-emerald-200 dark:disabled:text-white/30"
+              >
+                Accept
+              </button>
+              <button
+                onClick={() => resolveSuggestion(vote.suggestionId, 'reject')}
+                disabled={submitting}
+                className="text-[11px] font-semibold text-slate-500 hover:text-slate-700 disabled:text-slate-400 dark:text-white/50 dark:hover:text-white/80 dark:disabled:text-white/30"
+              >
+                Reject
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    ))
+
+  const ghostFieldClass =
+    'bg-transparent border-b border-slate-300/60 py-1 text-sm text-slate-800 placeholder:text-slate-400 outline-none appearance-none dark:border-white/5 dark:text-white/90 dark:placeholder:text-white/10'
+  const hasVotes = Boolean(summary && (summary.bpmVotes.length > 0 || summary.keyVotes.length > 0))
+
+  return (
+    <section className="relative rounded-[12px] bg-gray-100 dark:bg-slate-900 px-4 py-4 pl-5 text-gray-900 dark:text-white">
+      <span className="absolute left-0 top-2 bottom-2 w-[2px] bg-emerald-500 dark:bg-emerald-400" />
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-[10px] font-bold uppercase tracking-[0.05em] text-gray-500 dark:text-white/50">
+          Community suggestions
+        </div>
+        {summary && (
+          <div className="text-[11px] text-gray-600 dark:text-white/50">
+            Applied automatically at {summary.autoPromoteVotes} agreeing votes
+          </div>
+        )}
+      </div>
+
+      <div className="mt-3">
+        {loading && !summary ? (
+          <div className="text-xs text-gray-600 dark:text-white/50">Loading suggestions…</div>
+        ) : hasVotes && summary ? (
+          <div className="divide-y divide-slate-200/70 dark:divide-white/5">
+            {renderVotes(summary.bpmVotes)}
+            {renderVotes(summary.keyVotes)}
+          </div>
+        ) : (
+          <div className="text-xs text-gray-600 dark:text-white/50">
+            No open suggestions. Hear a different tempo or key? Suggest a correction below.
+          </div>
+        )}
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-3">
+        <input
+          type="number"
+          value={bpmInput}
+          onChange={(e) => setBpmInput(e.target.value)}
+          placeholder="BPM"
+          className={`${ghostFieldClass} w-20`}
+          min="1"
+          max="300"
+        />
+        <select
+          value={keyInput}
+          onChange={(e) => setKeyInput(e.target.value)}
+          className={`${ghostFieldClass} no-chevron min-w-[72px] ${keyInput ? '' : 'text-slate-400 dark:text-white/10'}`}
+        >
+          <option value="">Key</option>
+          {KEYS.map((k) => (
+            <option key={k} value={k}>{k}</option>
+          ))}
+        </select>
+        <select
+          value={scaleInput}
+          onChange={(e) => setScaleInput(e.target.value)}
+          className={`${ghostFieldClass} no-chevron min-w-[72px] ${scaleInput ? '' : 'text-slate-400 dark:text-white/10'}`}
+        >
+          <option value="">Scale</option>
+          <option value="major">Major</option>
+          <option value="minor">Minor</option>
+        </select>
+        <button
+          onClick={handleSubmit}
+          disabled={submitting}
+          className="text-[11px] font-semibold text-emerald-600 hover:text-emerald-700 disabled:text-emerald-300/60 dark:text-emerald-300 dark:hover:text-emerald-200 dark:disabled:text-emerald-300/40"
+        >
+          {submitting ? 'Saving…' : 'Suggest'}
+        </button>
+      </div>
+
+      {error && <div className="mt-2 text-xs text-red-600">{error}</div>}
+      {notice && <div className="mt-2 text-xs text-green-600 dark:text-emerald-300">{notice}</div>}
+
+      {summary && summary.suggestions.length > 0 && (
+        <div className="mt-4">
+          <button
+            onClick={() => setShowHistory((prev) => !prev)}
+            className="text-[10px] font-semibold text-slate-400 hover:text-slate-600 dark:text-white/40 dark:hover:text-white/70"
+          >
+            {showHistory ? 'Hide history' : `Show history (${summary.suggestions.length})`}
+          </button>
+          {showHistory && (
+            <ul className="mt-2 space-y-1 text-[11px] text-slate-600 dark:text-white/60">
+              {summary.suggestions.map((suggestion) => (
+                <li key={suggestion.id} className="flex flex-wrap items-center justify-between gap-2">
+                  <span>
+                    {formatVoteValue(suggestion)}
+                    {suggestion.isMine ? ' (you)' : suggestion.userId ? ` by ${suggestion.userId}` : ''}
+                  </span>
+                  <span className="text-slate-400 dark:text-white/40">
+                    {suggestion.status}
+                    {suggestion.resolvedBy ? ` by ${suggestion.resolvedBy}` : ''}
+                    {' · '}
+                    {new Date(suggestion.createdAt).toLocaleDateString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  )
+}
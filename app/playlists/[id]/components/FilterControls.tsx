@@ -1,9 +1,30 @@
 'use client'
 
 import type { RefObject } from 'react'
+import type { KeyNotation } from '@/lib/camelot'
+import { SEQUENCE_CURVES, type SequenceCurve } from '@/lib/sequencer'
+import type { ExportFormat } from '@/lib/playlistExport'
+import type { SortField } from '@/lib/types'
 
 type PageSize = number | 'all'
 
+const EXPORT_OPTIONS: Array<{ value: ExportFormat; label: string }> = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'm3u8', label: 'M3U8' },
+  { value: 'rekordbox', label: 'Rekordbox XML' },
+  { value: 'traktor', label: 'Traktor NML' },
+]
+
+const AUDIO_FEATURE_SORT_OPTIONS: Array<{ value: SortField; label: string }> = [
+  { value: 'energy', label: 'Energy' },
+  { value: 'danceability', label: 'Danceability' },
+  { value: 'loudness', label: 'Loudness (LUFS)' },
+  { value: 'onset_density', label: 'Onset density' },
+  { value: 'intro', label: 'Intro length' },
+  { value: 'outro', label: 'Outro length' },
+]
+
 type FilterControlsProps = {
   searchQuery: string
   showAdvanced: boolean
@@ -12,9 +33,21 @@ type FilterControlsProps = {
   bpmFrom: string
   bpmTo: string
   includeHalfDoubleBpm: boolean
+  energyFrom: string
+  energyTo: string
+  danceabilityFrom: string
+  danceabilityTo: string
+  sortField: SortField | null
+  keyNotation: KeyNotation
+  sequenceCurve: SequenceCurve | null
+  harmonicTrackLabel: string | null
+  tempoWindow: string
   pageSize: PageSize
   safePage: number
   totalPages: number
+  visibleTrackCount: number
+  exportingFormat: ExportFormat | null
+  exportError: string | null
   searchInputRef: RefObject<HTMLInputElement>
   onSearchQueryChange: (value: string) => void
   onToggleAdvanced: () => void
@@ -23,8 +56,19 @@ type FilterControlsProps = {
   onBpmFromChange: (value: string) => void
   onBpmToChange: (value: string) => void
   onIncludeHalfDoubleBpmChange: (value: boolean) => void
+  onEnergyFromChange: (value: string) => void
+  onEnergyToChange: (value: string) => void
+  onDanceabilityFromChange: (value: string) => void
+  onDanceabilityToChange: (value: string) => void
+  onAudioFeatureSortChange: (value: SortField | null) => void
+  onKeyNotationChange: (value: KeyNotation) => void
+  onSequenceCurveChange: (value: SequenceCurve | null) => void
+  onTempoWindowChange: (value: string) => void
+  onClearHarmonicTrack: () => void
   onClearFilters: () => void
   onPageSizeChange: (value: PageSize) => void
+  onSaveAsPlaylist: () => void
+  onExport: (format: ExportFormat) => void
   onPrevPage: () => void
   onNextPage: () => void
 }
@@ -37,9 +81,21 @@ export default function FilterControls({
   bpmFrom,
   bpmTo,
   includeHalfDoubleBpm,
+  energyFrom,
+  energyTo,
+  danceabilityFrom,
+  danceabilityTo,
+  sortField,
+  keyNotation,
+  sequenceCurve,
+  harmonicTrackLabel,
+  tempoWindow,
   pageSize,
   safePage,
   totalPages,
+  visibleTrackCount,
+  exportingFormat,
+  exportError,
   searchInputRef,
   onSearchQueryChange,
   onToggleAdvanced,
@@ -48,11 +104,27 @@ export default function FilterControls({
   onBpmFromChange,
   onBpmToChange,
   onIncludeHalfDoubleBpmChange,
+  onEnergyFromChange,
+  onEnergyToChange,
+  onDanceabilityFromChange,
+  onDanceabilityToChange,
+  onAudioFeatureSortChange,
+  onKeyNotationChange,
+  onSequenceCurveChange,
+  onTempoWindowChange,
+  onClearHarmonicTrack,
   onClearFilters,
   onPageSizeChange,
+  onSaveAsPlaylist,
+  onExport,
   onPrevPage,
   onNextPage,
 }: FilterControlsProps) {
+  const audioFeatureSort = AUDIO_FEATURE_SORT_OPTIONS.some((option) => option.value === sortField) ? sortField : null
+  const hasActiveFilters = Boolean(
+    yearFrom || yearTo || bpmFrom || bpmTo || energyFrom || energyTo || danceabilityFrom || danceabilityTo
+  )
+
   return (
     <div className="mb-4 sm:mb-6 space-y-3 sm:space-y-4">
       <div className="relative">
@@ -85,6 +157,33 @@ export default function FilterControls({
         </button>
       </div>
 
+      {harmonicTrackLabel && (
+        <div className="flex flex-wrap items-center gap-3 rounded-lg border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-800 dark:border-emerald-500/40 dark:bg-emerald-500/10 dark:text-emerald-200">
+          <span>
+            Compatible with <strong>{harmonicTrackLabel}</strong>
+          </span>
+          <label className="flex items-center gap-2">
+            <span className="text-xs">Tempo ±</span>
+            <input
+              type="number"
+              min="0"
+              placeholder="Any"
+              value={tempoWindow}
+              onChange={(e) => onTempoWindowChange(e.target.value)}
+              className="w-20 px-2 py-1 bg-white border border-emerald-200 rounded text-gray-900 text-xs focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+            <span className="text-xs">BPM</span>
+          </label>
+          <button
+            type="button"
+            onClick={onClearHarmonicTrack}
+            className="ml-auto text-xs text-red-600 hover:text-red-700 underline"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+
       {showAdvanced && (
         <div className="mt-3 sm:mt-4 p-5 sm:p-6 bg-gray-100 rounded-lg border border-gray-200">
           <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 max-w-4xl">
@@ -144,9 +243,115 @@ export default function FilterControls({
                 </span>
               </label>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-3">
+                Energy &amp; Danceability (%)
+              </label>
+              <div className="flex gap-3 items-center mb-3">
+                <span className="w-24 text-sm text-gray-600">Energy</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  placeholder="From"
+                  value={energyFrom}
+                  onChange={(e) => onEnergyFromChange(e.target.value)}
+                  className="w-24 px-3 py-2 bg-white border border-gray-300 rounded text-gray-900 text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+                <span className="text-gray-500 dark:text-slate-400 text-sm whitespace-nowrap">to</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  placeholder="To"
+                  value={energyTo}
+                  onChange={(e) => onEnergyToChange(e.target.value)}
+                  className="w-24 px-3 py-2 bg-white border border-gray-300 rounded text-gray-900 text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+              </div>
+              <div className="flex gap-3 items-center mb-3">
+                <span className="w-24 text-sm text-gray-600">Danceability</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  placeholder="From"
+                  value={danceabilityFrom}
+                  onChange={(e) => onDanceabilityFromChange(e.target.value)}
+                  className="w-24 px-3 py-2 bg-white border border-gray-300 rounded text-gray-900 text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+                <span className="text-gray-500 dark:text-slate-400 text-sm whitespace-nowrap">to</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  placeholder="To"
+                  value={danceabilityTo}
+                  onChange={(e) => onDanceabilityToChange(e.target.value)}
+                  className="w-24 px-3 py-2 bg-white border border-gray-300 rounded text-gray-900 text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+              </div>
+              <select
+                value={audioFeatureSort ?? ''}
+                onChange={(e) => onAudioFeatureSortChange(e.target.value ? (e.target.value as SortField) : null)}
+                className="px-3 py-2 bg-white border border-gray-300 rounded text-gray-900 text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                aria-label="Sort by audio feature"
+              >
+                <option value="">Sort by audio feature...</option>
+                {AUDIO_FEATURE_SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-2 text-xs text-gray-500 dark:text-slate-400">
+                Estimated from the preview clip during BPM analysis; tracks not yet analysed are hidden while a range is set.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-3">
+                Key Notation
+              </label>
+              <select
+                value={keyNotation}
+                onChange={(e) => onKeyNotationChange(e.target.value as KeyNotation)}
+                className="px-3 py-2 bg-white border border-gray-300 rounded text-gray-900 text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                <option value="classic">Classic (C minor)</option>
+                <option value="camelot">Camelot (5A)</option>
+                <option value="openkey">Open Key (10m)</option>
+              </select>
+              <p className="mt-2 text-xs text-gray-500 dark:text-slate-400">
+                Right-click a track and choose &quot;Show compatible tracks&quot; to filter by key and tempo.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-3">
+                Sequence by Tempo Curve
+              </label>
+              <select
+                value={sequenceCurve ?? ''}
+                onChange={(e) => onSequenceCurveChange(e.target.value ? (e.target.value as SequenceCurve) : null)}
+                className="px-3 py-2 bg-white border border-gray-300 rounded text-gray-900 text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                <option value="">Off (use column sort)</option>
+                {SEQUENCE_CURVES.map((curve) => (
+                  <option key={curve.value} value={curve.value}>
+                    {curve.label}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-2 text-xs text-gray-500 dark:text-slate-400">
+                Reorders the filtered tracks to follow the curve, keeping neighbours harmonically compatible where
+                possible. Save the result as a new Spotify playlist to keep it.
+              </p>
+            </div>
           </div>
           
-          {(yearFrom || yearTo || bpmFrom || bpmTo) && (
+          {hasActiveFilters && (
             <button
               type="button"
               onClick={onClearFilters}
@@ -174,6 +379,35 @@ export default function FilterControls({
           <option value="100">100</option>
           <option value="all">All</option>
         </select>
+        <button
+          type="button"
+          onClick={onSaveAsPlaylist}
+          disabled={visibleTrackCount === 0}
+          className="px-2 py-1 border border-gray-300 rounded text-gray-700 text-xs sm:text-sm hover:bg-gray-50 disabled:text-gray-400 disabled:border-gray-200"
+          title="Create a new Spotify playlist from all tracks matching the current filters and sort"
+        >
+          Save as new Spotify playlist
+        </button>
+        <select
+          value=""
+          onChange={(e) => {
+            if (e.target.value) {
+              onExport(e.target.value as ExportFormat)
+            }
+          }}
+          disabled={visibleTrackCount === 0 || exportingFormat !== null}
+          className="px-2 py-1 border border-gray-300 rounded text-gray-700 text-xs sm:text-sm focus:outline-none focus:ring-2 focus:ring-green-500 disabled:text-gray-400 disabled:border-gray-200"
+          title="Download the tracks matching the current filters and sort with BPM, key and credits"
+          aria-label="Export tracks"
+        >
+          <option value="">{exportingFormat ? 'Exporting...' : 'Export as...'}</option>
+          {EXPORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {exportError && <span className="text-xs sm:text-sm text-red-600">{exportError}</span>}
         {pageSize !== 'all' && (
           <div
             className={`flex items-center gap-2 ml-auto text-xs sm:text-sm text-gray-600 ${
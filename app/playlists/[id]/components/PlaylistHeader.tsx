@@ -12,6 +12,7 @@ type BpmSummary = {
   tracksWithBpm: number
   tracksWithNa: number
   shouldShowProgress: boolean
+  isBackgroundJob?: boolean
 }
 
 type PlaylistHeaderProps = {
@@ -24,6 +25,7 @@ type PlaylistHeaderProps = {
   showBpmNotice: boolean
   onHeaderRefresh: () => void
   onShowCacheModal: () => void
+  onShowHistory: () => void
   onShowBpmMoreInfo: () => void
   onDismissBpmNotice: () => void
 }
@@ -56,6 +58,7 @@ export default function PlaylistHeader({
   showBpmNotice,
   onHeaderRefresh,
   onShowCacheModal,
+  onShowHistory,
   onShowBpmMoreInfo,
   onDismissBpmNotice,
 }: PlaylistHeaderProps) {
@@ -74,6 +77,18 @@ export default function PlaylistHeader({
             </span>
           </button>
         )}
+        <button
+          onClick={onShowHistory}
+          className="group relative inline-flex h-6 w-6 items-center justify-center rounded-full border border-gray-200 text-gray-500 dark:text-slate-400 hover:text-gray-700 dark:hover:text-slate-200"
+          aria-label="Playlist history"
+        >
+          <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          <span className="pointer-events-none absolute right-0 top-8 whitespace-nowrap rounded-md border border-gray-200 bg-white px-2 py-1 text-[11px] text-gray-600 opacity-0 shadow-sm transition-opacity duration-0 group-hover:opacity-100">
+            Playlist history
+          </span>
+        </button>
         <button
           onClick={onHeaderRefresh}
           className="group relative inline-flex h-6 w-6 items-center justify-center rounded-full border border-gray-200 text-gray-500 dark:text-slate-400 hover:text-gray-700 dark:hover:text-slate-200"
@@ -232,7 +247,7 @@ export default function PlaylistHeader({
           )}
           <span>
             {bpmSummary.shouldShowProgress
-              ? `BPM processing (${bpmSummary.tracksRemainingToSearch} remaining)`
+              ? `BPM processing${bpmSummary.isBackgroundJob ? ' in background' : ''} (${bpmSummary.tracksRemainingToSearch} remaining)`
               : bpmSummary.tracksWithNa > 0
                 ? `${bpmSummary.tracksWithNa} of ${bpmSummary.totalTracks} tracks missing BPM data`
                 : `All ${bpmSummary.totalTracks} tracks successfully processed`}
@@ -0,0 +1,177 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { api } from '@/lib/apiClient'
+import { ApiRequestError } from '@/lib/errors'
+import type { SpotifyTrack } from '@/lib/types'
+
+type Track = SpotifyTrack
+
+type SavePlaylistModalProps = {
+  isOpen: boolean
+  defaultName: string
+  tracks: Track[]
+  onClose: () => void
+}
+
+type SaveStatus =
+  | { state: 'idle' }
+  | { state: 'saving' }
+  | { state: 'needsScope' }
+  | { state: 'error'; message: string }
+  | { state: 'done'; url: string | null; tracksAdded: number; tracksFailed: number }
+
+export default function SavePlaylistModal({
+  isOpen,
+  defaultName,
+  tracks,
+  onClose,
+}: SavePlaylistModalProps) {
+  const [name, setName] = useState(defaultName)
+  const [isPublic, setIsPublic] = useState(false)
+  const [status, setStatus] = useState<SaveStatus>({ state: 'idle' })
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(defaultName)
+      setStatus({ state: 'idle' })
+    }
+  }, [isOpen, defaultName])
+
+  if (!isOpen) {
+    return null
+  }
+
+  const trackIds = tracks.map((track) => track.id).filter(Boolean)
+
+  const handleSave = async () => {
+    setStatus({ state: 'saving' })
+    try {
+      const data = await api.createPlaylist({
+        body: {
+          name,
+          description: `Created with Spotify Playlist Tools (${trackIds.length} tracks)`,
+          public: isPublic,
+          trackIds,
+        },
+      })
+      setStatus({ state: 'done', url: data.url, tracksAdded: data.tracksAdded, tracksFailed: data.tracksFailed })
+    } catch (error) {
+      const code = error instanceof ApiRequestError ? (error.body as { code?: string } | null)?.code : undefined
+      if (code === 'missing_scope') {
+        setStatus({ state: 'needsScope' })
+        return
+      }
+      setStatus({
+        state: 'error',
+        message: error instanceof Error ? error.message : 'Failed to create playlist',
+      })
+    }
+  }
+
+  const reauthorizeUrl = `/api/auth/reauthorize?scope=write&returnTo=${encodeURIComponent(
+    typeof window !== 'undefined' ? window.location.pathname : '/playlists'
+  )}`
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-md w-full p-6 dark:bg-slate-900 dark:text-slate-100"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-slate-100">Save as new Spotify playlist</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-slate-200 dark:hover:text-white text-2xl"
+          >
+            ×
+          </button>
+        </div>
+
+        {status.state === 'done' ? (
+          <div className="space-y-4 text-sm text-gray-700 dark:text-slate-200">
+            <p>Playlist created with {status.tracksAdded} tracks.</p>
+            {status.tracksFailed > 0 && (
+              <p className="text-red-600">
+                Spotify stopped accepting tracks partway through, so {status.tracksFailed} tracks were not added. The
+                playlist was kept; open it to check what is there before trying again.
+              </p>
+            )}
+            {status.url && (
+              <a
+                href={status.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-block rounded-full bg-[#18B45A] px-4 py-2 text-sm font-semibold text-white hover:bg-[#149A4C]"
+              >
+                Open in Spotify
+              </a>
+            )}
+          </div>
+        ) : status.state === 'needsScope' ? (
+          <div className="space-y-4 text-sm text-gray-700 dark:text-slate-200">
+            <p>
+              Creating playlists needs permission to modify your Spotify playlists. You will be sent to Spotify to
+              grant it and then brought back to this page; filters will need to be re-applied.
+            </p>
+            <a
+              href={reauthorizeUrl}
+              className="inline-block rounded-full bg-[#18B45A] px-4 py-2 text-sm font-semibold text-white hover:bg-[#149A4C]"
+            >
+              Grant write access
+            </a>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-slate-300">
+              {trackIds.length} tracks from the current view will be added in their current order.
+            </p>
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 dark:text-slate-200 mb-1">Name</span>
+              <input
+                type="text"
+                value={name}
+                maxLength={100}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full px-3 py-2 bg-white border border-gray-300 rounded text-gray-900 text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+            </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={isPublic}
+                onChange={(e) => setIsPublic(e.target.checked)}
+                className="mr-2 w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+              />
+              <span className="text-sm text-gray-700 dark:text-slate-200">Public playlist</span>
+            </label>
+            {status.state === 'error' && (
+              <p className="text-sm text-red-600">{status.message}</p>
+            )}
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="rounded-full border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 dark:border-slate-600 dark:text-slate-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={status.state === 'saving' || !name.trim() || trackIds.length === 0}
+                className="rounded-full bg-[#18B45A] px-4 py-2 text-sm font-semibold text-white hover:bg-[#149A4C] disabled:bg-gray-400"
+              >
+                {status.state === 'saving' ? 'Saving...' : 'Save playlist'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,201 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { api } from '@/lib/apiClient'
+import type { PlaylistSnapshotDiff, PlaylistSnapshotSummary, SnapshotDiffEntry } from '@/lib/playlistHistory'
+
+type SnapshotHistoryModalProps = {
+  isOpen: boolean
+  playlistId: string
+  onClose: () => void
+}
+
+type DiffResponse = PlaylistSnapshotDiff & { userNames: Record<string, string> }
+
+const formatTimestamp = (value: string | null) => (value ? new Date(value).toLocaleString() : 'Unknown')
+
+function DiffSection({
+  title,
+  entries,
+  userNames,
+  tone,
+  renderPosition,
+}: {
+  title: string
+  entries: SnapshotDiffEntry[]
+  userNames: Record<string, string>
+  tone: string
+  renderPosition: (entry: SnapshotDiffEntry) => string
+}) {
+  return (
+    <div>
+      <h3 className={`mb-2 text-sm font-semibold ${tone}`}>
+        {title} ({entries.length})
+      </h3>
+      {entries.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-slate-400">None</p>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {entries.map((entry) => (
+            <li key={`${entry.id}-${entry.position}`} className="flex gap-3">
+              <span className="w-20 flex-shrink-0 text-xs text-gray-500 dark:text-slate-400">{renderPosition(entry)}</span>
+              <span className="min-w-0 flex-1">
+                <span className="text-gray-900 dark:text-slate-100">{entry.name}</span>
+                <span className="text-gray-500 dark:text-slate-400"> · {entry.artists.join(', ')}</span>
+                <span className="block text-xs text-gray-500 dark:text-slate-400">
+                  Added {formatTimestamp(entry.added_at)}
+                  {entry.added_by ? ` by ${userNames[entry.added_by] ?? entry.added_by}` : ''}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default function SnapshotHistoryModal({ isOpen, playlistId, onClose }: SnapshotHistoryModalProps) {
+  const [snapshots, setSnapshots] = useState<PlaylistSnapshotSummary[] | null>(null)
+  const [fromSnapshot, setFromSnapshot] = useState('')
+  const [toSnapshot, setToSnapshot] = useState('')
+  const [diff, setDiff] = useState<DiffResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setLoading(true)
+    setError(null)
+    api
+      .getPlaylistHistory({ params: { id: playlistId } })
+      .then((data) => {
+        const list: PlaylistSnapshotSummary[] = 'snapshots' in data ? data.snapshots : []
+        setSnapshots(list)
+        if (list.length >= 2) {
+          setToSnapshot(list[0].snapshotId)
+          setFromSnapshot(list[1].snapshotId)
+        }
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load history'))
+      .finally(() => setLoading(false))
+  }, [isOpen, playlistId])
+
+  useEffect(() => {
+    if (!isOpen || !fromSnapshot || !toSnapshot || fromSnapshot === toSnapshot) {
+      setDiff(null)
+      return
+    }
+    setLoading(true)
+    setError(null)
+    api
+      .getPlaylistHistory({ params: { id: playlistId }, query: { from: fromSnapshot, to: toSnapshot } })
+      .then((data) => {
+        setDiff('snapshots' in data ? null : data)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to compare snapshots'))
+      .finally(() => setLoading(false))
+  }, [isOpen, playlistId, fromSnapshot, toSnapshot])
+
+  if (!isOpen) {
+    return null
+  }
+
+  const snapshotLabel = (snapshot: PlaylistSnapshotSummary) =>
+    `${formatTimestamp(snapshot.capturedAt)} (${snapshot.trackCount} tracks)`
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[85vh] overflow-y-auto p-6 dark:bg-slate-900 dark:text-slate-100"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-slate-100">Playlist history</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-slate-200 dark:hover:text-white text-2xl"
+          >
+            ×
+          </button>
+        </div>
+
+        {snapshots && snapshots.length < 2 ? (
+          <p className="text-sm text-gray-600 dark:text-slate-300">
+            {snapshots.length === 0 ? 'No snapshots recorded yet.' : 'Only one snapshot recorded so far.'} A new
+            snapshot is stored each time the playlist is refreshed after it changes on Spotify.
+          </p>
+        ) : snapshots ? (
+          <div className="space-y-5">
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 dark:text-slate-200 mb-1">From</span>
+                <select
+                  value={fromSnapshot}
+                  onChange={(e) => setFromSnapshot(e.target.value)}
+                  className="w-full px-3 py-2 bg-white border border-gray-300 rounded text-gray-900 text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                >
+                  {snapshots.map((snapshot) => (
+                    <option key={snapshot.snapshotId} value={snapshot.snapshotId}>
+                      {snapshotLabel(snapshot)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 dark:text-slate-200 mb-1">To</span>
+                <select
+                  value={toSnapshot}
+                  onChange={(e) => setToSnapshot(e.target.value)}
+                  className="w-full px-3 py-2 bg-white border border-gray-300 rounded text-gray-900 text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                >
+                  {snapshots.map((snapshot) => (
+                    <option key={snapshot.snapshotId} value={snapshot.snapshotId}>
+                      {snapshotLabel(snapshot)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {fromSnapshot === toSnapshot && (
+              <p className="text-sm text-gray-500 dark:text-slate-400">Pick two different snapshots to compare.</p>
+            )}
+
+            {diff && (
+              <div className="space-y-5">
+                <DiffSection
+                  title="Added"
+                  entries={diff.added}
+                  userNames={diff.userNames}
+                  tone="text-emerald-700 dark:text-emerald-300"
+                  renderPosition={(entry) => `#${entry.position}`}
+                />
+                <DiffSection
+                  title="Removed"
+                  entries={diff.removed}
+                  userNames={diff.userNames}
+                  tone="text-red-600 dark:text-red-400"
+                  renderPosition={(entry) => `was #${entry.position}`}
+                />
+                <DiffSection
+                  title="Moved"
+                  entries={diff.reordered}
+                  userNames={diff.userNames}
+                  tone="text-blue-700 dark:text-blue-300"
+                  renderPosition={(entry) => `#${entry.previousPosition} → #${entry.position}`}
+                />
+              </div>
+            )}
+          </div>
+        ) : null}
+
+        {loading && <p className="mt-4 text-sm text-gray-500 dark:text-slate-400">Loading...</p>}
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,384 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import type { SpotifyTrack } from '@/lib/types'
+
+type Track = SpotifyTrack
+
+type TempoCheckPanelProps = {
+  track: Track
+  currentBpm: number | null
+  isPlaying: boolean
+  isUpdatingSelection: boolean
+  onTogglePlayback: () => void
+  getPreviewAudioUrl: (track: Track) => Promise<string | null>
+  getPlaybackTime: () => number | null
+  onSaveBpm: (bpm: number) => Promise<void> | void
+}
+
+type Waveform = {
+  peaks: number[]
+  onsets: Float32Array
+  onsetRate: number
+  duration: number
+}
+
+type TapClock = 'audio' | 'wall'
+
+// Safari before 14.1 only exposes the prefixed constructor
+type WebkitWindow = Window & { webkitAudioContext?: typeof AudioContext }
+
+const WAVEFORM_WIDTH = 480
+const WAVEFORM_HEIGHT = 80
+const ONSET_HOP = 512
+const MIN_TAPS = 4
+// A pause longer than this starts a new tap sequence
+const TAP_RESET_SECONDS = 2
+
+async function decodeWaveform(audioUrl: string): Promise<Waveform> {
+  const response = await fetch(audioUrl)
+  if (!response.ok) {
+    throw new Error(`Preview download failed (${response.status})`)
+  }
+  const data = await response.arrayBuffer()
+  const AudioContextClass = window.AudioContext || (window as WebkitWindow).webkitAudioContext
+  const context: AudioContext = new AudioContextClass()
+  try {
+    const buffer = await context.decodeAudioData(data)
+    const mono = new Float32Array(buffer.length)
+    for (let channel = 0; channel < buffer.numberOfChannels; channel += 1) {
+      const samples = buffer.getChannelData(channel)
+      for (let i = 0; i < samples.length; i += 1) {
+        mono[i] += samples[i] / buffer.numberOfChannels
+      }
+    }
+
+    const bucketSize = Math.max(1, Math.floor(mono.length / WAVEFORM_WIDTH))
+    const peaks: number[] = []
+    for (let bucket = 0; bucket < WAVEFORM_WIDTH; bucket += 1) {
+      let peak = 0
+      for (let i = bucket * bucketSize; i < Math.min(mono.length, (bucket + 1) * bucketSize); i += 1) {
+        peak = Math.max(peak, Math.abs(mono[i]))
+      }
+      peaks.push(peak)
+    }
+    const maxPeak = Math.max(...peaks, 1e-6)
+
+    // Rising frame energy, used to snap the grid onto the audible beats
+    const frameCount = Math.floor(mono.length / ONSET_HOP)
+    const onsets = new Float32Array(frameCount)
+    let previousEnergy = 0
+    for (let frame = 0; frame < frameCount; frame += 1) {
+      let energy = 0
+      for (let i = frame * ONSET_HOP; i < (frame + 1) * ONSET_HOP; i += 1) {
+        energy += mono[i] * mono[i]
+      }
+      energy = Math.log1p(energy)
+      onsets[frame] = Math.max(0, energy - previousEnergy)
+      previousEnergy = energy
+    }
+
+    return {
+      peaks: peaks.map((peak) => peak / maxPeak),
+      onsets,
+      onsetRate: buffer.sampleRate / ONSET_HOP,
+      duration: buffer.duration,
+    }
+  } finally {
+    context.close().catch(() => {})
+  }
+}
+
+/**
+ * Grid offset (seconds) whose beat positions collect the most onset energy
+ */
+function findGridOffset(waveform: Waveform, bpm: number): number {
+  const period = 60 / bpm
+  let bestOffset = 0
+  let bestScore = -1
+  for (let offset = 0; offset < period; offset += 0.01) {
+    let score = 0
+    for (let time = offset; time < waveform.duration; time += period) {
+      score += waveform.onsets[Math.round(time * waveform.onsetRate)] ?? 0
+    }
+    if (score > bestScore) {
+      bestScore = score
+      bestOffset = offset
+    }
+  }
+  return bestOffset
+}
+
+/**
+ * Least-squares fit of tap times against beat index: slope is the beat period
+ */
+function fitTaps(taps: number[]): { bpm: number; phase: number } | null {
+  if (taps.length < MIN_TAPS) return null
+  const meanIndex = (taps.length - 1) / 2
+  const meanTime = taps.reduce((sum, time) => sum + time, 0) / taps.length
+  let numerator = 0
+  let denominator = 0
+  taps.forEach((time, index) => {
+    numerator += (index - meanIndex) * (time - meanTime)
+    denominator += (index - meanIndex) ** 2
+  })
+  const period = numerator / denominator
+  if (!(period > 0)) return null
+  const intercept = meanTime - period * meanIndex
+  return { bpm: 60 / period, phase: ((intercept % period) + period) % period }
+}
+
+export default function TempoCheckPanel({
+  track,
+  currentBpm,
+  isPlaying,
+  isUpdatingSelection,
+  onTogglePlayback,
+  getPreviewAudioUrl,
+  getPlaybackTime,
+  onSaveBpm,
+}: TempoCheckPanelProps) {
+  const [waveform, setWaveform] = useState<Waveform | null>(null)
+  const [waveformLoading, setWaveformLoading] = useState(false)
+  const [waveformError, setWaveformError] = useState<string | null>(null)
+  const [taps, setTaps] = useState<number[]>([])
+  const [tapClock, setTapClock] = useState<TapClock>('wall')
+  const [playhead, setPlayhead] = useState<number | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setWaveform(null)
+    setWaveformError(null)
+    setTaps([])
+    setWaveformLoading(true)
+    getPreviewAudioUrl(track)
+      .then((audioUrl) => {
+        if (!audioUrl) throw new Error('No preview available')
+        return decodeWaveform(audioUrl)
+      })
+      .then((result) => {
+        if (!cancelled) setWaveform(result)
+      })
+      .catch((error) => {
+        if (!cancelled) setWaveformError(error instanceof Error ? error.message : 'Waveform unavailable')
+      })
+      .finally(() => {
+        if (!cancelled) setWaveformLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [track.id])
+
+  useEffect(() => {
+    if (!isPlaying) {
+      setPlayhead(null)
+      return
+    }
+    let frame = 0
+    const tick = () => {
+      setPlayhead(getPlaybackTime())
+      frame = requestAnimationFrame(tick)
+    }
+    frame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(frame)
+  }, [isPlaying, getPlaybackTime])
+
+  const handleTap = useCallback(() => {
+    // While the preview plays, taps are timed on the audio clock so they also set the grid phase
+    const audioTime = isPlaying ? getPlaybackTime() : null
+    const clock: TapClock = audioTime != null ? 'audio' : 'wall'
+    const time = audioTime ?? performance.now() / 1000
+    setTaps((prev) => {
+      const last = prev[prev.length - 1]
+      const restart = clock !== tapClock || last == null || time <= last || time - last > TAP_RESET_SECONDS
+      return restart ? [time] : [...prev, time]
+    })
+    setTapClock(clock)
+  }, [isPlaying, getPlaybackTime, tapClock])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 't' && event.key !== 'T') return
+      const target = event.target as HTMLElement | null
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA')) return
+      event.preventDefault()
+      handleTap()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [handleTap])
+
+  const tapFit = useMemo(() => fitTaps(taps), [taps])
+  const gridBpm = tapFit?.bpm ?? currentBpm
+  const gridOffset = useMemo(() => {
+    if (!waveform || !gridBpm) return 0
+    if (tapFit && tapClock === 'audio') return tapFit.phase
+    return findGridOffset(waveform, gridBpm)
+  }, [waveform, gridBpm, tapFit, tapClock])
+
+  const waveformPath = useMemo(() => {
+    if (!waveform) return ''
+    const middle = WAVEFORM_HEIGHT / 2
+    return waveform.peaks
+      .map((peak, index) => {
+        const height = Math.max(0.5, peak * (middle - 2))
+        return `M${index + 0.5} ${(middle - height).toFixed(1)}V${(middle + height).toFixed(1)}`
+      })
+      .join('')
+  }, [waveform])
+
+  const beatLines = useMemo(() => {
+    if (!waveform || !gridBpm) return []
+    const period = 60 / gridBpm
+    const lines: Array<{ x: number; isBar: boolean }> = []
+    for (let beat = 0, time = gridOffset; time < waveform.duration; beat += 1, time += period) {
+      lines.push({ x: (time / waveform.duration) * WAVEFORM_WIDTH, isBar: beat % 4 === 0 })
+    }
+    return lines
+  }, [waveform, gridBpm, gridOffset])
+
+  const tappedBpm = tapFit ? Number(tapFit.bpm.toFixed(1)) : null
+  const scaleBpm = (bpm: number, factor: number) => Number((bpm * factor).toFixed(1))
+  const actionClass =
+    'px-3 leading-none hover:text-slate-900 disabled:text-slate-400 dark:hover:text-white dark:disabled:text-white/40'
+
+  return (
+    <section className="pl-5">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-[10px] font-bold uppercase tracking-[0.05em] text-gray-500 dark:text-white/50">
+          Tempo check
+        </div>
+        <div className="text-[11px] text-gray-600 dark:text-white/50">
+          {gridBpm ? `Grid: ${gridBpm.toFixed(1)} BPM${tapFit ? ' (tapped)' : ''}` : 'No BPM to draw a grid'}
+        </div>
+      </div>
+
+      <div className="mt-3 rounded-[12px] border border-slate-200 bg-white px-2 py-2 dark:border-white/10 dark:bg-white/[0.04]">
+        {waveform ? (
+          <svg
+            viewBox={`0 0 ${WAVEFORM_WIDTH} ${WAVEFORM_HEIGHT}`}
+            preserveAspectRatio="none"
+            className="h-20 w-full"
+            role="img"
+            aria-label="Preview waveform with beat grid"
+          >
+            {beatLines.map((line, index) => (
+              <line
+                key={index}
+                x1={line.x}
+                x2={line.x}
+                y1={0}
+                y2={WAVEFORM_HEIGHT}
+                className={line.isBar ? 'stroke-emerald-500/70' : 'stroke-emerald-500/25'}
+                strokeWidth={line.isBar ? 1 : 0.75}
+              />
+            ))}
+            <path d={waveformPath} className="stroke-slate-400 dark:stroke-white/40" strokeWidth={0.8} />
+            {playhead != null && (
+              <line
+                x1={(playhead / waveform.duration) * WAVEFORM_WIDTH}
+                x2={(playhead / waveform.duration) * WAVEFORM_WIDTH}
+                y1={0}
+                y2={WAVEFORM_HEIGHT}
+                className="stroke-red-500"
+                strokeWidth={1}
+              />
+            )}
+          </svg>
+        ) : (
+          <div className="flex h-20 items-center justify-center text-xs text-gray-500 dark:text-white/50">
+            {waveformLoading ? 'Loading waveform...' : waveformError || 'Waveform unavailable'}
+          </div>
+        )}
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-3">
+        <button
+          onClick={onTogglePlayback}
+          className="rounded-full border border-slate-300 px-4 py-2 text-xs font-semibold text-slate-700 hover:bg-slate-100 dark:border-white/20 dark:text-white/80 dark:hover:bg-white/5"
+        >
+          {isPlaying ? 'Stop preview' : 'Play preview'}
+        </button>
+        <button
+          onClick={handleTap}
+          className="rounded-full bg-[#15803d] px-5 py-2 text-xs font-semibold text-white shadow-sm hover:bg-[#166534]"
+          title="Tap along to the beat (or press T)"
+        >
+          Tap
+        </button>
+        {taps.length > 0 && (
+          <button
+            onClick={() => setTaps([])}
+            className="text-[11px] font-semibold text-slate-500 hover:text-slate-700 dark:text-white/50 dark:hover:text-white/80"
+          >
+            Reset
+          </button>
+        )}
+        <span className="text-[11px] text-gray-600 dark:text-white/50">
+          {tappedBpm != null
+            ? `Tapped: ${tappedBpm} BPM (${taps.length} taps)`
+            : taps.length > 0
+              ? `Keep tapping... (${taps.length}/${MIN_TAPS})`
+              : 'Tap along to the beat, or press T'}
+        </span>
+        {tappedBpm != null && (
+          <div className="inline-flex h-7 items-center rounded-[6px] border border-slate-300/60 bg-white/70 text-[11px] font-semibold text-slate-700 dark:border-white/20 dark:bg-white/[0.04] dark:text-white/80">
+            <button
+              onClick={() => onSaveBpm(tappedBpm)}
+              disabled={isUpdatingSelection}
+              className={actionClass}
+            >
+              Save {tappedBpm}
+            </button>
+            <span className="h-4 w-px bg-slate-300/70 dark:bg-white/20" />
+            <button
+              onClick={() => onSaveBpm(scaleBpm(tappedBpm, 0.5))}
+              disabled={isUpdatingSelection}
+              className={actionClass}
+              aria-label="Save half of tapped BPM"
+            >
+              ½
+            </button>
+            <span className="h-4 w-px bg-slate-300/70 dark:bg-white/20" />
+            <button
+              onClick={() => onSaveBpm(scaleBpm(tappedBpm, 2))}
+              disabled={isUpdatingSelection}
+              className={actionClass}
+              aria-label="Save double tapped BPM"
+            >
+              2x
+            </button>
+          </div>
+        )}
+        {/* Octave errors are the usual mistake, so the stored BPM can be halved or doubled without tapping */}
+        {currentBpm != null && (
+          <div className="inline-flex h-7 items-center rounded-[6px] border border-slate-300/60 bg-white/70 text-[11px] font-semibold text-slate-700 dark:border-white/20 dark:bg-white/[0.04] dark:text-white/80">
+            <span className="px-3 leading-none text-slate-500 dark:text-white/50">Current {currentBpm.toFixed(1)}</span>
+            <span className="h-4 w-px bg-slate-300/70 dark:bg-white/20" />
+            <button
+              onClick={() => onSaveBpm(scaleBpm(currentBpm, 0.5))}
+              disabled={isUpdatingSelection}
+              className={actionClass}
+              aria-label="Save half of the current BPM"
+              title={`Save ${scaleBpm(currentBpm, 0.5)} BPM`}
+            >
+              ½
+            </button>
+            <span className="h-4 w-px bg-slate-300/70 dark:bg-white/20" />
+            <button
+              onClick={() => onSaveBpm(scaleBpm(currentBpm, 2))}
+              disabled={isUpdatingSelection}
+              className={actionClass}
+              aria-label="Save double the current BPM"
+              title={`Save ${scaleBpm(currentBpm, 2)} BPM`}
+            >
+              2x
+            </button>
+          </div>
+        )}
+      </div>
+    </section>
+  )
+}
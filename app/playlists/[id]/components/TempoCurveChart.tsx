@@ -0,0 +1,67 @@
+'use client'
+
+type TempoPoint = {
+  trackId: string
+  target: number | null
+  bpm: number | null
+}
+
+type TempoCurveChartProps = {
+  points: TempoPoint[]
+}
+
+const WIDTH = 600
+const HEIGHT = 120
+const PADDING = 8
+
+export default function TempoCurveChart({ points }: TempoCurveChartProps) {
+  const values = points.flatMap((point) => [point.target, point.bpm]).filter((value): value is number => value != null)
+  if (points.length < 2 || values.length === 0) {
+    return null
+  }
+
+  const min = Math.floor(Math.min(...values)) - 2
+  const max = Math.ceil(Math.max(...values)) + 2
+  const xFor = (index: number) => PADDING + (index / (points.length - 1)) * (WIDTH - PADDING * 2)
+  const yFor = (value: number) => HEIGHT - PADDING - ((value - min) / (max - min)) * (HEIGHT - PADDING * 2)
+
+  const targetPath = points
+    .map((point, index) => (point.target != null ? `${xFor(index)},${yFor(point.target)}` : null))
+    .filter(Boolean)
+    .join(' ')
+  const actualPath = points
+    .map((point, index) => (point.bpm != null ? `${xFor(index)},${yFor(point.bpm)}` : null))
+    .filter(Boolean)
+    .join(' ')
+
+  return (
+    <div className="border-b border-gray-100 px-4 py-3 dark:border-slate-800">
+      <div className="mb-2 flex items-center justify-between text-[11px] uppercase tracking-[0.05em] text-[#A0AEC0] dark:text-slate-500">
+        <span>Tempo by position</span>
+        <span className="flex items-center gap-3 normal-case tracking-normal">
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-0.5 w-4 border-t-2 border-dashed border-gray-400" />
+            Target
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-0.5 w-4 bg-[#18B45A]" />
+            BPM
+          </span>
+          <span>
+            {min + 2}–{max - 2} BPM
+          </span>
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="h-24 w-full"
+        role="img"
+        aria-label="Target tempo curve compared with track BPM by position"
+      >
+        <polyline points={targetPath} fill="none" stroke="#9CA3AF" strokeWidth="1.5" strokeDasharray="4 3" />
+        <polyline points={actualPath} fill="none" stroke="#18B45A" strokeWidth="2" strokeLinejoin="round" />
+      </svg>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import Image from 'next/image'
 import type { MouseEvent } from 'react'
 import type { SpotifyTrack } from '@/lib/types'
+import { formatKey, type KeyNotation } from '@/lib/camelot'
 
 type Track = SpotifyTrack
 
@@ -16,6 +17,7 @@ type TrackCardProps = {
   trackBpms: Record<string, number | null>
   trackKeys: Record<string, string | null>
   trackScales: Record<string, string | null>
+  keyNotation: KeyNotation
   loadingBpmFields: Set<string>
   loadingKeyFields: Set<string>
   tracksNeedingBpm: Set<string>
@@ -47,6 +49,7 @@ export default function TrackCard({
   trackBpms,
   trackKeys,
   trackScales,
+  keyNotation,
   loadingBpmFields,
   loadingKeyFields,
   tracksNeedingBpm,
@@ -182,11 +185,7 @@ export default function TrackCard({
               <button
                 onClick={(e) => {
                   e.stopPropagation()
-                  if (isAdmin) {
-                    onOpenBpmModal(track)
-                  } else {
-                    onTrackClick(track)
-                  }
+                  onOpenBpmModal(track)
                 }}
                 className="inline-flex w-16 items-center justify-center rounded-full border border-blue-200 bg-transparent px-2.5 py-0.5 text-[11px] font-medium text-blue-700"
               >
@@ -243,15 +242,12 @@ export default function TrackCard({
                   <button
                     onClick={(e) => {
                       e.stopPropagation()
-                      if (isAdmin) {
-                        onOpenBpmModal(track)
-                      } else {
-                        onTrackClick(track)
-                      }
+                      onOpenBpmModal(track)
                     }}
                     className="inline-flex w-24 items-center justify-center rounded-full border border-slate-200 bg-transparent px-2.5 py-0.5 text-[11px] font-medium text-slate-700 whitespace-nowrap"
+                    title={keyNotation !== 'classic' ? formatKey(key, scale, 'classic') ?? undefined : undefined}
                   >
-                    {key && scale ? `${key} ${scale}` : key || scale}
+                    {formatKey(key, scale, keyNotation) ?? formatKey(key, scale, 'classic')}
                   </button>
                 )
               }
@@ -1,6 +1,7 @@
 'use client'
 
 import type { MouseEvent } from 'react'
+import type { KeyNotation } from '@/lib/camelot'
 import type { SpotifyTrack } from '@/lib/types'
 import TrackCard from './TrackCard'
 
@@ -15,6 +16,7 @@ type TrackCardListProps = {
   trackBpms: Record<string, number | null>
   trackKeys: Record<string, string | null>
   trackScales: Record<string, string | null>
+  keyNotation: KeyNotation
   loadingBpmFields: Set<string>
   loadingKeyFields: Set<string>
   tracksNeedingBpm: Set<string>
@@ -45,6 +47,7 @@ export default function TrackCardList({
   trackBpms,
   trackKeys,
   trackScales,
+  keyNotation,
   loadingBpmFields,
   loadingKeyFields,
   tracksNeedingBpm,
@@ -75,6 +78,7 @@ export default function TrackCardList({
           trackBpms={trackBpms}
           trackKeys={trackKeys}
           trackScales={trackScales}
+          keyNotation={keyNotation}
           loadingBpmFields={loadingBpmFields}
           loadingKeyFields={loadingKeyFields}
           tracksNeedingBpm={tracksNeedingBpm}
@@ -2,7 +2,8 @@
 
 import Image from 'next/image'
 import type { MouseEvent } from 'react'
-import type { SpotifyTrack } from '@/lib/types'
+import type { SpotifyTrack, TrackAudioFeatures } from '@/lib/types'
+import { formatKey, type KeyNotation } from '@/lib/camelot'
 
 type Track = SpotifyTrack
 
@@ -16,6 +17,8 @@ type TrackRowProps = {
   trackBpms: Record<string, number | null>
   trackKeys: Record<string, string | null>
   trackScales: Record<string, string | null>
+  trackAudioFeatures: Record<string, TrackAudioFeatures>
+  keyNotation: KeyNotation
   loadingBpmFields: Set<string>
   loadingKeyFields: Set<string>
   tracksNeedingBpm: Set<string>
@@ -48,6 +51,8 @@ export default function TrackRow({
   trackBpms,
   trackKeys,
   trackScales,
+  trackAudioFeatures,
+  keyNotation,
   loadingBpmFields,
   loadingKeyFields,
   tracksNeedingBpm,
@@ -65,6 +70,18 @@ export default function TrackRow({
   onAlbumContextMenu,
   onOpenBpmModal,
 }: TrackRowProps) {
+  const features = trackAudioFeatures[track.id]
+  const featureDetails = features
+    ? [
+        features.loudnessLufs != null ? `Loudness ${features.loudnessLufs.toFixed(1)} LUFS` : null,
+        features.onsetDensity != null ? `${features.onsetDensity.toFixed(1)} onsets/s` : null,
+        features.introSeconds != null ? `Intro ${features.introSeconds.toFixed(1)}s` : null,
+        features.outroSeconds != null ? `Outro ${features.outroSeconds.toFixed(1)}s` : null,
+      ].filter(Boolean).join(' · ')
+    : ''
+  const formatPercent = (value: number | null | undefined) =>
+    value != null ? `${Math.round(value * 100)}%` : <span className="text-gray-400 dark:text-slate-500">-</span>
+
   return (
     <tr
       className={`group transition-colors cursor-pointer ${
@@ -176,14 +193,10 @@ export default function TrackRow({
           ) : trackBpms[track.id] != null ? (
             <button
               onClick={() => {
-                if (isAdmin) {
-                  onOpenBpmModal(track)
-                } else {
-                  onTrackClick(track)
-                }
+                onOpenBpmModal(track)
               }}
               className="inline-flex w-16 items-center justify-center rounded-full border border-blue-200 bg-transparent px-2.5 py-1 text-xs font-medium text-blue-700 dark:border-emerald-500/40 dark:text-emerald-300"
-              title={isAdmin ? 'Click for BPM details' : getPreviewTooltip(track.id)}
+              title="Click for BPM details"
             >
               {Math.round(trackBpms[track.id]!)}
             </button>
@@ -243,15 +256,12 @@ export default function TrackRow({
                 <button
                   onClick={(e) => {
                     e.stopPropagation()
-                    if (isAdmin) {
-                      onOpenBpmModal(track)
-                    } else {
-                      onTrackClick(track)
-                    }
+                    onOpenBpmModal(track)
                   }}
                   className="inline-flex w-24 items-center justify-center rounded-full border border-slate-200 bg-transparent px-2.5 py-1 text-xs font-medium text-slate-700 whitespace-nowrap dark:border-slate-600 dark:text-slate-200"
+                  title={keyNotation !== 'classic' ? formatKey(key, scale, 'classic') ?? undefined : undefined}
                 >
-                  {key && scale ? `${key} ${scale}` : key || scale}
+                  {formatKey(key, scale, keyNotation) ?? formatKey(key, scale, 'classic')}
                 </button>
               )
             }
@@ -280,6 +290,18 @@ export default function TrackRow({
           })()}
         </div>
       </td>
+      <td
+        className="px-3 lg:px-4 py-4 text-gray-500 dark:text-slate-400 text-xs sm:text-sm text-right hidden xl:table-cell"
+        title={featureDetails || undefined}
+      >
+        {formatPercent(features?.energy)}
+      </td>
+      <td
+        className="px-3 lg:px-4 py-4 text-gray-500 dark:text-slate-400 text-xs sm:text-sm text-right hidden xl:table-cell"
+        title={featureDetails || undefined}
+      >
+        {formatPercent(features?.danceability)}
+      </td>
       <td className="px-3 lg:px-4 py-4 text-gray-500 dark:text-slate-400 text-xs sm:text-sm text-right">
         {getYearString(track.album.release_date)}
       </td>
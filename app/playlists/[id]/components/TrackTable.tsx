@@ -1,8 +1,10 @@
 'use client'
 
 import type { MouseEvent } from 'react'
-import type { SpotifyTrack, SortField, SortDirection } from '@/lib/types'
+import type { KeyNotation } from '@/lib/camelot'
+import type { SpotifyTrack, SortField, SortDirection, TrackAudioFeatures } from '@/lib/types'
 import TrackRow from './TrackRow'
+import TempoCurveChart from './TempoCurveChart'
 
 type Track = SpotifyTrack
 
@@ -14,6 +16,9 @@ type TrackTableProps = {
   yearTo: string
   bpmFrom: string
   bpmTo: string
+  harmonicFilterActive: boolean
+  audioFeatureFilterActive: boolean
+  sequencePoints: Array<{ trackId: string; target: number | null; bpm: number | null }>
   sortField: SortField | null
   sortDirection: SortDirection
   pageSize: number | 'all'
@@ -23,6 +28,8 @@ type TrackTableProps = {
   trackBpms: Record<string, number | null>
   trackKeys: Record<string, string | null>
   trackScales: Record<string, string | null>
+  trackAudioFeatures: Record<string, TrackAudioFeatures>
+  keyNotation: KeyNotation
   loadingBpmFields: Set<string>
   loadingKeyFields: Set<string>
   tracksNeedingBpm: Set<string>
@@ -69,6 +76,9 @@ export default function TrackTable({
   yearTo,
   bpmFrom,
   bpmTo,
+  harmonicFilterActive,
+  audioFeatureFilterActive,
+  sequencePoints,
   sortField,
   sortDirection,
   pageSize,
@@ -78,6 +88,8 @@ export default function TrackTable({
   trackBpms,
   trackKeys,
   trackScales,
+  trackAudioFeatures,
+  keyNotation,
   loadingBpmFields,
   loadingKeyFields,
   tracksNeedingBpm,
@@ -98,6 +110,7 @@ export default function TrackTable({
 }: TrackTableProps) {
   return (
     <div className="hidden sm:block overflow-hidden rounded-2xl bg-white shadow-[0_4px_24px_rgba(0,0,0,0.06)] border-t border-gray-100 dark:border-slate-800 dark:bg-slate-900">
+      {sequencePoints.length > 0 && <TempoCurveChart points={sequencePoints} />}
       <div className="overflow-x-auto">
         <table className="w-full">
           <thead className="bg-white/70 dark:bg-slate-900/90">
@@ -155,8 +168,32 @@ export default function TrackTable({
                   <SortIcon field="tempo" sortField={sortField} sortDirection={sortDirection} />
                 </div>
               </th>
-              <th className="px-3 lg:px-4 py-3 text-right text-[11px] uppercase tracking-[0.05em] font-medium text-[#A0AEC0] dark:text-slate-500 hidden md:table-cell min-w-[96px]">
-                Key
+              <th
+                className="px-3 lg:px-4 py-3 text-right text-[11px] uppercase tracking-[0.05em] font-medium text-[#A0AEC0] dark:text-slate-500 cursor-pointer hover:text-gray-700 dark:hover:text-slate-200 select-none hidden md:table-cell min-w-[96px]"
+                onClick={() => onSort('key')}
+              >
+                <div className="flex items-center justify-end">
+                  {keyNotation === 'camelot' ? 'Camelot' : keyNotation === 'openkey' ? 'Open Key' : 'Key'}
+                  <SortIcon field="key" sortField={sortField} sortDirection={sortDirection} />
+                </div>
+              </th>
+              <th
+                className="px-3 lg:px-4 py-3 text-right text-[11px] uppercase tracking-[0.05em] font-medium text-[#A0AEC0] dark:text-slate-500 cursor-pointer hover:text-gray-700 dark:hover:text-slate-200 select-none hidden xl:table-cell"
+                onClick={() => onSort('energy')}
+              >
+                <div className="flex items-center justify-end">
+                  Energy
+                  <SortIcon field="energy" sortField={sortField} sortDirection={sortDirection} />
+                </div>
+              </th>
+              <th
+                className="px-3 lg:px-4 py-3 text-right text-[11px] uppercase tracking-[0.05em] font-medium text-[#A0AEC0] dark:text-slate-500 cursor-pointer hover:text-gray-700 dark:hover:text-slate-200 select-none hidden xl:table-cell"
+                onClick={() => onSort('danceability')}
+              >
+                <div className="flex items-center justify-end">
+                  Dance
+                  <SortIcon field="danceability" sortField={sortField} sortDirection={sortDirection} />
+                </div>
               </th>
               <th
                 className="px-3 lg:px-4 py-3 text-right text-[11px] uppercase tracking-[0.05em] font-medium text-[#A0AEC0] dark:text-slate-500 cursor-pointer hover:text-gray-700 dark:hover:text-slate-200 select-none"
@@ -193,8 +230,8 @@ export default function TrackTable({
           <tbody>
             {sortedTracks.length === 0 ? (
               <tr>
-                <td colSpan={11} className="px-4 py-8 text-center text-gray-500 dark:text-slate-400">
-                  {(searchQuery || yearFrom || yearTo || bpmFrom || bpmTo) ? 'No tracks match your filters' : 'No tracks found'}
+                <td colSpan={13} className="px-4 py-8 text-center text-gray-500 dark:text-slate-400">
+                  {(searchQuery || yearFrom || yearTo || bpmFrom || bpmTo || harmonicFilterActive || audioFeatureFilterActive) ? 'No tracks match your filters' : 'No tracks found'}
                 </td>
               </tr>
             ) : (
@@ -210,6 +247,8 @@ export default function TrackTable({
                   trackBpms={trackBpms}
                   trackKeys={trackKeys}
                   trackScales={trackScales}
+                  trackAudioFeatures={trackAudioFeatures}
+                  keyNotation={keyNotation}
                   loadingBpmFields={loadingBpmFields}
                   loadingKeyFields={loadingKeyFields}
                   tracksNeedingBpm={tracksNeedingBpm}
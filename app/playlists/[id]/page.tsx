@@ -11,6 +11,8 @@ import TrackTable from './components/TrackTable'
 import TrackCardList from './components/TrackCardList'
 import BpmDetailsModal from './components/BpmDetailsModal'
 import CreditsModal from './components/CreditsModal'
+import SavePlaylistModal from './components/SavePlaylistModal'
+import SnapshotHistoryModal from './components/SnapshotHistoryModal'
 import { usePlaylist, useRefreshPlaylist } from '../../hooks/usePlaylist'
 import { usePlaylistTracks, useRefreshPlaylistTracks } from '../../hooks/usePlaylistTracks'
 import { usePlaylistFilters } from '../../hooks/usePlaylistFilters'
@@ -29,6 +31,9 @@ import {
   NetworkError,
   SpotifyAPIError 
 } from '@/lib/errors'
+import { formatKey } from '@/lib/camelot'
+import { api } from '@/lib/apiClient'
+import type { ExportFormat } from '@/lib/playlistExport'
 
 // Use shared types
 type Track = SpotifyTrack
@@ -64,6 +69,10 @@ type UiState = {
   isAdmin: boolean
   loggedInUserName: string | null
   isHeaderRefreshing: boolean
+  showSavePlaylistModal: boolean
+  showHistoryModal: boolean
+  exportingFormat: ExportFormat | null
+  exportError: string | null
   contextMenu: {
     x: number
     y: number
@@ -119,6 +128,10 @@ const createInitialUiState = (): UiState => ({
   isAdmin: false,
   loggedInUserName: null,
   isHeaderRefreshing: false,
+  showSavePlaylistModal: false,
+  showHistoryModal: false,
+  exportingFormat: null,
+  exportError: null,
   contextMenu: null,
 })
 
@@ -163,7 +176,7 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
     bpmSummary,
     loadingTrackIds,
     isTrackLoading,
-  } = useBpmAnalysis(tracks)
+  } = useBpmAnalysis(tracks, params.id)
   const [creditsState, creditsDispatch] = useReducer(creditsReducer, undefined, createInitialCreditsState)
   const [uiState, uiDispatch] = useReducer(uiReducer, undefined, createInitialUiState)
   const [cacheState, cacheDispatch] = useReducer(cacheReducer, undefined, createInitialCacheState)
@@ -172,6 +185,7 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
     trackBpms,
     trackKeys,
     trackScales,
+    trackAudioFeatures,
     loadingBpmFields,
     loadingKeyFields,
     tracksNeedingBpm,
@@ -237,6 +251,15 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
     bpmFrom,
     bpmTo,
     includeHalfDoubleBpm,
+    energyFrom,
+    energyTo,
+    danceabilityFrom,
+    danceabilityTo,
+    keyNotation,
+    harmonicTrack,
+    tempoWindow,
+    sequenceCurve,
+    sequencePoints,
     pageSize,
     currentPage,
     setSearchQuery,
@@ -248,16 +271,28 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
     setBpmFrom,
     setBpmTo,
     setIncludeHalfDoubleBpm,
+    setEnergyFrom,
+    setEnergyTo,
+    setDanceabilityFrom,
+    setDanceabilityTo,
+    setKeyNotation,
+    setHarmonicTrackId,
+    setTempoWindow,
+    setSequenceCurve,
     setPageSize,
     setCurrentPage,
     handleSort,
     getYearString,
-  } = usePlaylistFilters(tracks, trackBpms)
+  } = usePlaylistFilters(tracks, trackBpms, trackKeys, trackScales, trackAudioFeatures)
 
   const {
     isAdmin,
     loggedInUserName,
     isHeaderRefreshing,
+    showSavePlaylistModal,
+    showHistoryModal,
+    exportingFormat,
+    exportError,
     contextMenu,
   } = uiState
 
@@ -329,6 +364,8 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
     playingTrackId,
     handleTrackClick,
     getPreviewTooltip,
+    getPreviewAudioUrl,
+    getPlaybackTime,
   } = useAudioPlayer({
     previewUrls,
     setPreviewUrls,
@@ -436,6 +473,18 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
   const setIsHeaderRefreshing = (value: UiState['isHeaderRefreshing'] | ((prev: UiState['isHeaderRefreshing']) => UiState['isHeaderRefreshing'])) => {
     uiDispatch({ type: 'set', key: 'isHeaderRefreshing', value })
   }
+  const setShowSavePlaylistModal = (value: UiState['showSavePlaylistModal'] | ((prev: UiState['showSavePlaylistModal']) => UiState['showSavePlaylistModal'])) => {
+    uiDispatch({ type: 'set', key: 'showSavePlaylistModal', value })
+  }
+  const setShowHistoryModal = (value: UiState['showHistoryModal'] | ((prev: UiState['showHistoryModal']) => UiState['showHistoryModal'])) => {
+    uiDispatch({ type: 'set', key: 'showHistoryModal', value })
+  }
+  const setExportingFormat = (value: UiState['exportingFormat'] | ((prev: UiState['exportingFormat']) => UiState['exportingFormat'])) => {
+    uiDispatch({ type: 'set', key: 'exportingFormat', value })
+  }
+  const setExportError = (value: UiState['exportError'] | ((prev: UiState['exportError']) => UiState['exportError'])) => {
+    uiDispatch({ type: 'set', key: 'exportError', value })
+  }
   const setContextMenu = (value: UiState['contextMenu'] | ((prev: UiState['contextMenu']) => UiState['contextMenu'])) => {
     uiDispatch({ type: 'set', key: 'contextMenu', value })
   }
@@ -472,10 +521,10 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
   useEffect(() => {
     const controller = new AbortController()
     const timeoutId = setTimeout(() => controller.abort(), 8_000)
-    fetch('/api/auth/status', { signal: controller.signal })
-      .then((res) => res.json())
+    api
+      .getAuthStatus({}, { signal: controller.signal })
       .then((data) => {
-        if (data?.authenticated && data?.user) {
+        if (data.authenticated && data.user) {
           uiDispatch({
             type: 'set',
             key: 'loggedInUserName',
@@ -483,7 +532,7 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
           })
           return
         }
-        if (!data?.authenticated) {
+        if (!data.authenticated) {
           window.location.href = '/api/auth/login'
         }
       })
@@ -546,12 +595,10 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
   useEffect(() => {
     const controller = new AbortController()
     const timeoutId = setTimeout(() => controller.abort(), 8_000)
-    fetch('/api/auth/is-admin', { signal: controller.signal })
-      .then((res) => res.ok ? res.json() : null)
+    api
+      .getAdminStatus({}, { signal: controller.signal })
       .then((data) => {
-        if (data != null) {
-          uiDispatch({ type: 'set', key: 'isAdmin', value: data.isAdmin || false })
-        }
+        uiDispatch({ type: 'set', key: 'isAdmin', value: data.isAdmin })
       })
       .catch(() => {})
       .finally(() => clearTimeout(timeoutId))
@@ -580,7 +627,7 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
     writtenBy: 'songwriter',
     producedBy: 'producer',
     mixedBy: 'mixer',
-    masteredBy: 'engineer',
+    masteredBy: 'mastering',
   } as const
 
   const creditsSearchHref = (name: string, role: string) => ({
@@ -671,10 +718,10 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
   useEffect(() => {
     const controller = new AbortController()
     const timeoutId = setTimeout(() => controller.abort(), 8_000)
-    fetch('/api/country', { signal: controller.signal })
-      .then((res) => (res.ok ? res.json() : null))
+    api
+      .getCountry({}, { signal: controller.signal })
       .then((data) => {
-        if (data?.countryCode) {
+        if (data.countryCode) {
           setCountryCode(data.countryCode)
         }
       })
@@ -702,21 +749,7 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
       return next
     })
     try {
-      const res = await fetch('/api/bpm/recalculate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          playlistId: params.id,
-          trackIds,
-        }),
-      })
-
-      if (!res.ok) {
-        const errorData = await res.json().catch(() => ({}))
-        throw new Error(errorData.error || 'Failed to recalculate BPM/key')
-      }
+      await api.recalculateBpm({ body: { playlistId: params.id, trackIds } })
 
       setTrackBpms(prev => {
         const next = { ...prev }
@@ -893,33 +926,17 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
     }
     setCreditsLoadingIds(prev => new Set(prev).add(track.id))
     try {
-      const refreshParam = refresh ? '&refresh=true' : ''
-      const res = await fetch(`/api/musicbrainz/credits?isrc=${encodeURIComponent(isrc)}${refreshParam}`)
-      if (!res.ok) {
-        let message = 'Unable to fetch credits'
-        try {
-          const errorPayload = await res.json()
-          if (typeof errorPayload?.error === 'string') {
-            message = errorPayload.error
-          } else if (typeof errorPayload?.details === 'string' && errorPayload.details.trim()) {
-            message = errorPayload.details
-          }
-        } catch {
-          // Keep fallback message when response is not JSON.
-        }
-        throw new Error(message)
-      }
-      const data = await res.json()
+      const data = await api.getTrackCredits({ query: { isrc, refresh } })
       setCreditsByTrackId(prev => ({
         ...prev,
         [track.id]: {
-          performedBy: data.performedBy || data.performers || [],
-          writtenBy: data.writtenBy || data.composition || [],
-          producedBy: data.producedBy || data.production || [],
-          mixedBy: data.mixedBy || [],
-          masteredBy: data.masteredBy || [],
-          releaseId: typeof data.releaseId === 'string' ? data.releaseId : null,
-          retrievedAt: typeof data.retrievedAt === 'string' ? data.retrievedAt : null,
+          performedBy: data.performedBy,
+          writtenBy: data.writtenBy,
+          producedBy: data.producedBy,
+          mixedBy: data.mixedBy,
+          masteredBy: data.masteredBy,
+          releaseId: data.releaseId,
+          retrievedAt: data.retrievedAt,
         },
       }))
       setCreditsErrorByTrackId(prev => {
@@ -958,6 +975,44 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
     }
   }
   
+  const harmonicTrackLabel = useMemo(() => {
+    if (!harmonicTrack) return null
+    const key = formatKey(trackKeys[harmonicTrack.id], trackScales[harmonicTrack.id], keyNotation)
+    const bpm = trackBpms[harmonicTrack.id] ?? harmonicTrack.tempo ?? null
+    const details = [key, bpm != null ? `${Math.round(bpm)} BPM` : null].filter(Boolean).join(', ')
+    return details ? `${harmonicTrack.name} (${details})` : harmonicTrack.name
+  }, [harmonicTrack, trackKeys, trackScales, trackBpms, keyNotation])
+
+  // Download the current filtered/sorted view; the server joins in cached BPM, key and credits
+  const handleExport = async (format: ExportFormat) => {
+    setExportingFormat(format)
+    setExportError(null)
+    try {
+      const res = await api.exportPlaylistTracks({
+        params: { id: params.id },
+        body: {
+          format,
+          name: playlistInfo?.name ?? params.id,
+          trackIds: sortedTracks.map((track) => track.id).filter(Boolean),
+        },
+      })
+      const blob = await res.blob()
+      const disposition = res.headers.get('Content-Disposition') || ''
+      const filenameMatch = disposition.match(/filename\*=UTF-8''([^;]+)/)
+      const link = document.createElement('a')
+      link.href = URL.createObjectURL(blob)
+      link.download = filenameMatch ? decodeURIComponent(filenameMatch[1]) : `playlist.${format}`
+      document.body.appendChild(link)
+      link.click()
+      link.remove()
+      URL.revokeObjectURL(link.href)
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Export failed')
+    } finally {
+      setExportingFormat(null)
+    }
+  }
+
   /**
    * Open Spotify app using URI scheme
    */
@@ -1223,15 +1278,7 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
     const fetchSpotifyPreview = async () => {
       setMismatchPreviewUrls((prev) => ({ ...prev, loading: true }))
       try {
-        const res = await fetch('/api/muso/preview', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ spotifyTrackId: selectedBpmTrack.id }),
-        })
-        const payload = await res.json().catch(() => ({}))
-        if (!res.ok) {
-          throw new Error(payload?.error || 'Unable to fetch Spotify preview')
-        }
+        const payload = await api.getMusoPreviewUrl({ body: { spotifyTrackId: selectedBpmTrack.id } })
         setMismatchPreviewUrls((prev) => ({
           ...prev,
           spotify: payload.previewUrl || null,
@@ -1564,6 +1611,7 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
             showBpmNotice={showBpmNotice}
             onHeaderRefresh={handleHeaderRefresh}
             onShowCacheModal={() => setShowCacheModal(true)}
+            onShowHistory={() => setShowHistoryModal(true)}
             onShowBpmMoreInfo={() => setShowBpmMoreInfo(true)}
             onDismissBpmNotice={() => setShowBpmNotice(false)}
           />
@@ -1577,9 +1625,19 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
           bpmFrom={bpmFrom}
           bpmTo={bpmTo}
           includeHalfDoubleBpm={includeHalfDoubleBpm}
+          energyFrom={energyFrom}
+          energyTo={energyTo}
+          danceabilityFrom={danceabilityFrom}
+          danceabilityTo={danceabilityTo}
+          sortField={sortField}
+          keyNotation={keyNotation}
+          sequenceCurve={sequenceCurve}
+          harmonicTrackLabel={harmonicTrackLabel}
+          tempoWindow={tempoWindow}
           pageSize={pageSize}
           safePage={safePage}
           totalPages={totalPages}
+          visibleTrackCount={sortedTracks.length}
           searchInputRef={searchInputRef}
           onSearchQueryChange={setSearchQuery}
           onToggleAdvanced={() => setShowAdvanced((prev) => !prev)}
@@ -1588,14 +1646,31 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
           onBpmFromChange={setBpmFrom}
           onBpmToChange={setBpmTo}
           onIncludeHalfDoubleBpmChange={setIncludeHalfDoubleBpm}
+          onEnergyFromChange={setEnergyFrom}
+          onEnergyToChange={setEnergyTo}
+          onDanceabilityFromChange={setDanceabilityFrom}
+          onDanceabilityToChange={setDanceabilityTo}
+          onAudioFeatureSortChange={(field) => (field ? handleSort(field) : setSortField(null))}
+          onKeyNotationChange={setKeyNotation}
+          onSequenceCurveChange={setSequenceCurve}
+          onTempoWindowChange={setTempoWindow}
+          onClearHarmonicTrack={() => setHarmonicTrackId(null)}
           onClearFilters={() => {
             setYearFrom('')
             setYearTo('')
             setBpmFrom('')
             setBpmTo('')
             setIncludeHalfDoubleBpm(false)
+            setEnergyFrom('')
+            setEnergyTo('')
+            setDanceabilityFrom('')
+            setDanceabilityTo('')
           }}
           onPageSizeChange={setPageSize}
+          onSaveAsPlaylist={() => setShowSavePlaylistModal(true)}
+          exportingFormat={exportingFormat}
+          exportError={exportError}
+          onExport={handleExport}
           onPrevPage={() => setCurrentPage((prev) => Math.max(1, prev - 1))}
           onNextPage={() => setCurrentPage((prev) => Math.min(totalPages, prev + 1))}
         />
@@ -1612,6 +1687,7 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
           trackBpms={trackBpms}
           trackKeys={trackKeys}
           trackScales={trackScales}
+          keyNotation={keyNotation}
           loadingBpmFields={loadingBpmFields}
           loadingKeyFields={loadingKeyFields}
           tracksNeedingBpm={tracksNeedingBpm}
@@ -1638,6 +1714,9 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
           yearTo={yearTo}
           bpmFrom={bpmFrom}
           bpmTo={bpmTo}
+          harmonicFilterActive={harmonicTrack !== null}
+          audioFeatureFilterActive={Boolean(energyFrom || energyTo || danceabilityFrom || danceabilityTo)}
+          sequencePoints={sequencePoints}
           sortField={sortField}
           sortDirection={sortDirection}
           pageSize={pageSize}
@@ -1647,6 +1726,8 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
           trackBpms={trackBpms}
           trackKeys={trackKeys}
           trackScales={trackScales}
+          trackAudioFeatures={trackAudioFeatures}
+          keyNotation={keyNotation}
           loadingBpmFields={loadingBpmFields}
           loadingKeyFields={loadingKeyFields}
           tracksNeedingBpm={tracksNeedingBpm}
@@ -1781,7 +1862,7 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
 
       {/* BPM Details Modal */}
       <BpmDetailsModal
-        isOpen={Boolean(isAdmin && bpmModalData && bpmModalSummary && selectedBpmTrack)}
+        isOpen={Boolean(bpmModalData && bpmModalSummary && selectedBpmTrack)}
         isAdmin={isAdmin}
         bpmModalData={bpmModalData}
         bpmModalSummary={bpmModalSummary}
@@ -1805,6 +1886,14 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
         bpmDebugInfo={bpmDebugInfo}
         recalcMode={recalcMode}
         recalcStatus={recalcStatus}
+        isPreviewPlaying={Boolean(selectedBpmTrack && playingTrackId === selectedBpmTrack.id)}
+        onTogglePreview={() => {
+          if (selectedBpmTrack) {
+            handleTrackClick(selectedBpmTrack)
+          }
+        }}
+        getPreviewAudioUrl={getPreviewAudioUrl}
+        getPlaybackTime={getPlaybackTime}
         onClose={closeBpmModal}
         onUpdateBpmSelection={updateBpmSelection}
         onSetManualBpm={setManualBpm}
@@ -1817,6 +1906,7 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
         onSetBpmConfidenceThreshold={setBpmConfidenceThreshold}
         onSetRecalcMode={setRecalcMode}
         onRecalcTrack={handleRecalcTrack}
+        onSuggestionApplied={fetchBpmsBatch}
       />
 
       {/* Credits Modal */}
@@ -1949,6 +2039,19 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
         </div>
       )}
       
+      <SavePlaylistModal
+        isOpen={showSavePlaylistModal}
+        defaultName={playlistInfo?.name ? `${playlistInfo.name} (filtered)` : 'Filtered playlist'}
+        tracks={sortedTracks}
+        onClose={() => setShowSavePlaylistModal(false)}
+      />
+
+      <SnapshotHistoryModal
+        isOpen={showHistoryModal}
+        playlistId={params.id}
+        onClose={() => setShowHistoryModal(false)}
+      />
+
       {/* Context Menu */}
       {contextMenu && (
         <div
@@ -1971,6 +2074,17 @@ export default function PlaylistTracksPage({ params }: PlaylistTracksPageProps)
               Show credits
             </button>
           ) : null}
+          {contextMenu.track ? (
+            <button
+              onClick={() => {
+                setHarmonicTrackId(contextMenu.track?.id ?? null)
+                setContextMenu(null)
+              }}
+              className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              Show compatible tracks
+            </button>
+          ) : null}
           <button
             onClick={() => {
               openSpotifyApp(contextMenu.spotifyUri, contextMenu.spotifyUrl)
@@ -1,39 +1,17 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import { api, type ClientResponse } from '@/lib/apiClient'
+import type { apiContracts } from '@/lib/apiContracts'
 
-interface StatsData {
-  summary: {
-    totalUsers: number
-    totalPageviews: number
-    totalApiRequests: number
-    activeUsers7d: number
-    activeUsers30d: number
-    spotifyApiRequests: number
-    musoApiRequests: number
-    musicbrainzApiRequests: number
-    musoDailyUsed: number
-    musoDailyLimit: number
-    musoDailyRemaining: number
-  }
-  topPaths: Array<{ path: string; count: number }>
-  topEndpoints: Array<{ endpoint: string; method: string; count: number }>
-  pageviewsOverTime: Array<{ date: string; count: number }>
-  apiRequestsOverTime: Array<{ date: string; count: number }>
-  apiRequestsOverTimeByProvider: {
-    spotify: Array<{ date: string; count: number }>
-    musicbrainz: Array<{ date: string; count: number }>
-    muso: Array<{ date: string; count: number }>
-  }
-  requestsByStatus: Array<{ statusCode: number | null; count: number }>
-}
+type StatsData = ClientResponse<typeof apiContracts.getAnalyticsStats>
 
 export default function StatsClient() {
   const [stats, setStats] = useState<StatsData | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isModalOpen, setIsModalOpen] = useState(false)
-  const [topUsers, setTopUsers] = useState<Array<{ display_name: string; email: string; session_count: number }> | null>(null)
+  const [topUsers, setTopUsers] = useState<ClientResponse<typeof apiContracts.getTopUsers> | null>(null)
   const [modalLoading, setModalLoading] = useState(false)
   const [modalError, setModalError] = useState<string | null>(null)
 
@@ -41,11 +19,9 @@ export default function StatsClient() {
     setModalLoading(true)
     setModalError(null)
     try {
-      const res = await fetch('/api/analytics/top-users')
-      if (!res.ok) {
+      const data = await api.getTopUsers().catch(() => {
         throw new Error('Failed to fetch top users')
-      }
-      const data = await res.json()
+      })
       setTopUsers(data)
     } catch (err) {
       setModalError(err instanceof Error ? err.message : 'An error occurred')
@@ -55,12 +31,10 @@ export default function StatsClient() {
   }
 
   useEffect(() => {
-    fetch('/api/analytics/stats')
-      .then((res) => {
-        if (!res.ok) {
-          throw new Error('Failed to fetch stats')
-        }
-        return res.json()
+    api
+      .getAnalyticsStats()
+      .catch(() => {
+        throw new Error('Failed to fetch stats')
       })
       .then((data) => {
         setStats(data)
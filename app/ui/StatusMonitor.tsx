@@ -1,6 +1,7 @@
 'use client'
 
 import { useEffect, useState, useRef } from 'react'
+import { readResumableStream } from '@/lib/resumableStream'
 
 interface StreamStatus {
   type: 'status' | 'result' | 'progress' | 'complete' | 'error'
@@ -12,6 +13,8 @@ interface StreamStatus {
   url?: string
   batch_id?: string
   message?: string
+  cursor?: number // resume position, set by the buffered stream
+  resumable?: boolean // error lines the client reconnects after
   // Result fields
   bpm_essentia?: number | null
   bpm_raw_essentia?: number | null
@@ -56,158 +59,103 @@ export default function StatusMonitor({ batchId, onComplete, onError }: StatusMo
     setStatus(null)
 
     const streamResults = async () => {
-      try {
-        const response = await fetch(`/api/stream/${batchId}`, {
-          signal: abortController.signal,
-        })
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
-          throw new Error(errorData.error || `HTTP ${response.status}`)
-        }
+      const resultsByIndex = new Map<number, StreamStatus>()
+      const sortedResults = () =>
+        Array.from(resultsByIndex.values()).sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      let settled = false
 
-        if (!response.body) {
-          throw new Error('No response body')
+      const handleLine = (data: StreamStatus) => {
+        // Validate parsed data
+        if (!data || typeof data !== 'object') {
+          console.warn('[StatusMonitor] Invalid parsed data:', data)
+          return
         }
 
-        const reader = response.body.getReader()
-        const decoder = new TextDecoder()
-        let buffer = ''
-
-        const resultsByIndex = new Map<number, StreamStatus>()
-        const sortedResults = () =>
-          Array.from(resultsByIndex.values()).sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
-
-        while (true) {
-          const { done, value } = await reader.read()
-
-          if (done) {
-            break
-          }
-
-          // Decode chunk and add to buffer
-          buffer += decoder.decode(value, { stream: true })
-
-          // Process complete lines (NDJSON format)
-          const lines = buffer.split('\n')
-          buffer = lines.pop() || '' // Keep incomplete line in buffer
-
-          for (const line of lines) {
-            if (line.trim() === '') {
-              continue
+        // Update status based on message type
+        if (data.type === 'status') {
+          setStatus(data)
+        } else if (data.type === 'result') {
+          // Only push valid result objects with required fields
+          if (data && typeof data === 'object' && data.type === 'result' && typeof data.index === 'number') {
+            const index = data.index
+            // Ensure we have a valid result object with all fields properly typed
+            const validResult: StreamStatus = {
+              type: 'result',
+              index,
+              url: typeof data.url === 'string' ? data.url : undefined,
+              result_status: data.status === 'partial' || data.status === 'final' ? data.status : undefined,
+              bpm_essentia: typeof data.bpm_essentia === 'number' ? data.bpm_essentia : (data.bpm_essentia === null ? null : undefined),
+              bpm_raw_essentia: typeof data.bpm_raw_essentia === 'number' ? data.bpm_raw_essentia : (data.bpm_raw_essentia === null ? null : undefined),
+              bpm_confidence_essentia: typeof data.bpm_confidence_essentia === 'number' ? data.bpm_confidence_essentia : (data.bpm_confidence_essentia === null ? null : undefined),
+              bpm_librosa: typeof data.bpm_librosa === 'number' ? data.bpm_librosa : (data.bpm_librosa === null ? null : undefined),
+              bpm_raw_librosa: typeof data.bpm_raw_librosa === 'number' ? data.bpm_raw_librosa : (data.bpm_raw_librosa === null ? null : undefined),
+              bpm_confidence_librosa: typeof data.bpm_confidence_librosa === 'number' ? data.bpm_confidence_librosa : (data.bpm_confidence_librosa === null ? null : undefined),
+              key_essentia: typeof data.key_essentia === 'string' ? data.key_essentia : (data.key_essentia === null ? null : undefined),
+              scale_essentia: typeof data.scale_essentia === 'string' ? data.scale_essentia : (data.scale_essentia === null ? null : undefined),
+              keyscale_confidence_essentia: typeof data.keyscale_confidence_essentia === 'number' ? data.keyscale_confidence_essentia : (data.keyscale_confidence_essentia === null ? null : undefined),
+              key_librosa: typeof data.key_librosa === 'string' ? data.key_librosa : (data.key_librosa === null ? null : undefined),
+              scale_librosa: typeof data.scale_librosa === 'string' ? data.scale_librosa : (data.scale_librosa === null ? null : undefined),
+              keyscale_confidence_librosa: typeof data.keyscale_confidence_librosa === 'number' ? data.keyscale_confidence_librosa : (data.keyscale_confidence_librosa === null ? null : undefined),
+              debug_txt: typeof data.debug_txt === 'string' ? data.debug_txt : (data.debug_txt === null ? null : undefined),
             }
-
-            try {
-              const data: StreamStatus = JSON.parse(line)
-              
-              // Validate parsed data
-              if (!data || typeof data !== 'object') {
-                console.warn('[StatusMonitor] Invalid parsed data:', data)
-                continue
-              }
-
-              // Update status based on message type
-              if (data.type === 'status') {
-                setStatus(data)
-              } else if (data.type === 'result') {
-                // Only push valid result objects with required fields
-                if (data && typeof data === 'object' && data.type === 'result' && typeof data.index === 'number') {
-                  const index = data.index
-                  // Ensure we have a valid result object with all fields properly typed
-                  const validResult: StreamStatus = {
-                    type: 'result',
-                    index,
-                    url: typeof data.url === 'string' ? data.url : undefined,
-                    result_status: data.status === 'partial' || data.status === 'final' ? data.status : undefined,
-                    bpm_essentia: typeof data.bpm_essentia === 'number' ? data.bpm_essentia : (data.bpm_essentia === null ? null : undefined),
-                    bpm_raw_essentia: typeof data.bpm_raw_essentia === 'number' ? data.bpm_raw_essentia : (data.bpm_raw_essentia === null ? null : undefined),
-                    bpm_confidence_essentia: typeof data.bpm_confidence_essentia === 'number' ? data.bpm_confidence_essentia : (data.bpm_confidence_essentia === null ? null : undefined),
-                    bpm_librosa: typeof data.bpm_librosa === 'number' ? data.bpm_librosa : (data.bpm_librosa === null ? null : undefined),
-                    bpm_raw_librosa: typeof data.bpm_raw_librosa === 'number' ? data.bpm_raw_librosa : (data.bpm_raw_librosa === null ? null : undefined),
-                    bpm_confidence_librosa: typeof data.bpm_confidence_librosa === 'number' ? data.bpm_confidence_librosa : (data.bpm_confidence_librosa === null ? null : undefined),
-                    key_essentia: typeof data.key_essentia === 'string' ? data.key_essentia : (data.key_essentia === null ? null : undefined),
-                    scale_essentia: typeof data.scale_essentia === 'string' ? data.scale_essentia : (data.scale_essentia === null ? null : undefined),
-                    keyscale_confidence_essentia: typeof data.keyscale_confidence_essentia === 'number' ? data.keyscale_confidence_essentia : (data.keyscale_confidence_essentia === null ? null : undefined),
-                    key_librosa: typeof data.key_librosa === 'string' ? data.key_librosa : (data.key_librosa === null ? null : undefined),
-                    scale_librosa: typeof data.scale_librosa === 'string' ? data.scale_librosa : (data.scale_librosa === null ? null : undefined),
-                    keyscale_confidence_librosa: typeof data.keyscale_confidence_librosa === 'number' ? data.keyscale_confidence_librosa : (data.keyscale_confidence_librosa === null ? null : undefined),
-                    debug_txt: typeof data.debug_txt === 'string' ? data.debug_txt : (data.debug_txt === null ? null : undefined),
-                  }
-                  const existing = resultsByIndex.get(index)
-                  const shouldIgnore =
-                    existing?.result_status === 'final' && validResult.result_status === 'partial'
-                  if (!shouldIgnore) {
-                    const mergedResult: StreamStatus = {
-                      ...existing,
-                      ...validResult,
-                      type: 'result',
-                      index,
-                    }
-                    resultsByIndex.set(index, mergedResult)
-                  }
-                  setResults(sortedResults())
-                } else {
-                  console.warn('[StatusMonitor] Invalid result data:', data, 'Type:', typeof data, 'Has index:', data?.index)
-                }
-              } else if (data.type === 'progress') {
-                setStatus((prev) => ({
-                  ...prev,
-                  type: 'progress',
-                  processed: data.processed,
-                  total: data.total,
-                }))
-              } else if (data.type === 'complete') {
-                setStatus({
-                  type: 'complete',
-                  status: 'completed',
-                  batch_id: data.batch_id,
-                  total: data.total,
-                })
-                setIsStreaming(false)
-                // Filter out any invalid results before calling onComplete
-                const validResults = sortedResults().filter((r): r is StreamStatus =>
-                  r != null && typeof r === 'object' && r.type === 'result'
-                )
-                onComplete?.(validResults)
-                return // Stream is complete
-              } else if (data.type === 'error') {
-                setError(data.message || 'Unknown error')
-                setIsStreaming(false)
-                onError?.(data.message || 'Unknown error')
-                return // Stream ended with error
+            const existing = resultsByIndex.get(index)
+            const shouldIgnore =
+              existing?.result_status === 'final' && validResult.result_status === 'partial'
+            if (!shouldIgnore) {
+              const mergedResult: StreamStatus = {
+                ...existing,
+                ...validResult,
+                type: 'result',
+                index,
               }
-            } catch (parseError) {
-              console.error('[StatusMonitor] Failed to parse JSON line:', line, parseError)
-              // Continue processing other lines
+              resultsByIndex.set(index, mergedResult)
             }
+            setResults(sortedResults())
+          } else {
+            console.warn('[StatusMonitor] Invalid result data:', data, 'Type:', typeof data, 'Has index:', data?.index)
           }
+        } else if (data.type === 'progress') {
+          setStatus((prev) => ({
+            ...prev,
+            type: 'progress',
+            processed: data.processed,
+            total: data.total,
+          }))
+        } else if (data.type === 'complete') {
+          setStatus({
+            type: 'complete',
+            status: 'completed',
+            batch_id: data.batch_id,
+            total: data.total,
+          })
+          setIsStreaming(false)
+          // Filter out any invalid results before calling onComplete
+          const validResults = sortedResults().filter((r): r is StreamStatus =>
+            r != null && typeof r === 'object' && r.type === 'result'
+          )
+          onComplete?.(validResults)
+          settled = true // Stream is complete
+        } else if (data.type === 'error' && !data.resumable) {
+          setError(data.message || 'Unknown error')
+          setIsStreaming(false)
+          onError?.(data.message || 'Unknown error')
+          settled = true // Stream ended with error
         }
+      }
+
+      try {
+        // Reconnects with the last cursor if the connection drops mid-batch
+        await readResumableStream({
+          url: `/api/stream/${batchId}`,
+          signal: abortController.signal,
+          onLine: (line) => handleLine(line as StreamStatus),
+          onParseError: (line, parseError) => {
+            console.error('[StatusMonitor] Failed to parse JSON line:', line, parseError)
+          },
+        })
 
-        // Handle any remaining buffer content
-        if (buffer.trim()) {
-          try {
-            const data: StreamStatus = JSON.parse(buffer.trim())
-            if (data.type === 'complete') {
-              setStatus({
-                type: 'complete',
-                status: 'completed',
-                batch_id: data.batch_id,
-                total: data.total,
-              })
-              setIsStreaming(false)
-              // Filter out any invalid results before calling onComplete
-              const validResults = sortedResults().filter((r): r is StreamStatus =>
-                r != null && typeof r === 'object' && r.type === 'result'
-              )
-              onComplete?.(validResults)
-            }
-          } catch (parseError) {
-            console.error('[StatusMonitor] Failed to parse final buffer:', parseError)
-          }
-        }
-        
         // If stream ended without complete message, still call onComplete with valid results
-        if (resultsByIndex.size > 0) {
+        if (!settled && resultsByIndex.size > 0) {
           const validResults = sortedResults().filter((r): r is StreamStatus =>
             r != null && typeof r === 'object' && r.type === 'result'
           )
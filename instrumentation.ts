@@ -64,6 +64,12 @@ export async function register() {
       // Setting this option to true will print useful information to the console while you're setting up Sentry.
       debug: false,
     })
+
+    // Self-hosted servers can drain the BPM job queue in-process instead of via the cron route
+    if (process.env.BPM_JOB_WORKER === 'inline') {
+      const { startBpmJobWorkerLoop } = await import('./lib/bpmJobs')
+      startBpmJobWorkerLoop()
+    }
   }
 
   if (process.env.NEXT_RUNTIME === 'edge') {
@@ -1,5 +1,6 @@
 import { query } from './db'
 import { logError, logInfo } from './logger'
+import { externalFetch } from './externalFetch'
 
 /**
  * Track a pageview for a user
@@ -80,7 +81,7 @@ export async function getCurrentUserId(): Promise<string | null> {
 
     // Fetch user info from Spotify
     const start = Date.now()
-    const response = await fetch('https://api.spotify.com/v1/me', {
+    const response = await externalFetch('https://api.spotify.com/v1/me', {
       headers: {
         Authorization: `Bearer ${accessToken}`,
       },
@@ -124,7 +125,7 @@ export async function getCurrentUserProfile(): Promise<{
     }
 
     const start = Date.now()
-    const response = await fetch('https://api.spotify.com/v1/me', {
+    const response = await externalFetch('https://api.spotify.com/v1/me', {
       headers: {
         Authorization: `Bearer ${accessToken}`,
       },
@@ -0,0 +1,111 @@
+/**
+ * Typed fetch wrapper generated from lib/apiContracts.ts. Client components
+ * and hooks call `api.<operation>(input)` instead of hand-building URLs.
+ */
+
+import { apiContracts, isRawResponse, type ApiContract, type ApiContracts, type ContractInput, type ContractResponse } from './apiContracts'
+import { formatSchemaIssues, type AnySchema, type SchemaIssue } from './apiSchema'
+import { ApiRequestError } from './errors'
+
+// What the client actually receives: JSON has no Date, so Dates arrive as ISO strings
+export type ClientResponse<C extends ApiContract> = C['response'] extends AnySchema ? JsonDecoded<ContractResponse<C>> : Response
+
+type JsonDecoded<T> = T extends Date
+  ? string
+  : T extends Array<infer U>
+    ? Array<JsonDecoded<U>>
+    : T extends object
+      ? { [K in keyof T]: JsonDecoded<T[K]> }
+      : T
+
+type QueryValue = string | number | boolean | null | undefined | Array<string | number | boolean>
+
+interface UrlInput {
+  params?: Record<string, string | number>
+  query?: Record<string, QueryValue> | object
+}
+
+export function buildApiUrl(contract: Pick<ApiContract, 'path'>, input: UrlInput = {}): string {
+  const params = input.params ?? {}
+  const path = contract.path.replace(/\{(\w+)\}/g, (_, name: string) => {
+    const value = params[name]
+    if (value === undefined) throw new Error(`Missing path parameter ${name} for ${contract.path}`)
+    return encodeURIComponent(String(value))
+  })
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries((input.query ?? {}) as Record<string, QueryValue>)) {
+    if (value === undefined || value === null) continue
+    const values = Array.isArray(value) ? value : [value]
+    values.forEach((entry) => search.append(key, String(entry)))
+  }
+  const queryString = search.toString()
+  return queryString ? `${path}?${queryString}` : path
+}
+
+async function readErrorBody(res: Response): Promise<{ message: string; issues: SchemaIssue[]; body: unknown }> {
+  const body = await res.json().catch(() => null)
+  const issues: SchemaIssue[] = Array.isArray(body?.issues) ? body.issues : []
+  const message =
+    typeof body?.error === 'string'
+      ? body.error
+      : issues.length > 0
+        ? formatSchemaIssues(issues)
+        : `HTTP ${res.status}`
+  return { message, issues, body }
+}
+
+/**
+ * Call a route by its contract and keep the Response alongside the parsed body,
+ * for callers that read headers such as X-Cached. Throws ApiRequestError on any
+ * non-2xx status.
+ */
+export async function fetchApi<C extends ApiContract>(
+  contract: C,
+  input: ContractInput<C>,
+  init: RequestInit = {}
+): Promise<{ data: ClientResponse<C>; response: Response }> {
+  const { params, query, body } = input as { params?: UrlInput['params']; query?: UrlInput['query']; body?: unknown }
+  const headers = new Headers(init.headers)
+  if (body !== undefined && !headers.has('Content-Type')) headers.set('Content-Type', 'application/json')
+  const res = await fetch(buildApiUrl(contract, { params, query }), {
+    ...init,
+    method: contract.method,
+    headers,
+    body: body !== undefined ? JSON.stringify(body) : init.body,
+  })
+  if (!res.ok) {
+    const error = await readErrorBody(res)
+    throw new ApiRequestError(error.message, res.status, error.issues, error.body)
+  }
+  if (isRawResponse(contract.response)) {
+    return { data: res as ClientResponse<C>, response: res }
+  }
+  return { data: (await res.json()) as ClientResponse<C>, response: res }
+}
+
+/**
+ * Call a route by its contract. Resolves with the parsed JSON body (or the raw
+ * Response for file, stream and redirect routes) and throws ApiRequestError on
+ * any non-2xx status.
+ */
+export async function callApi<C extends ApiContract>(
+  contract: C,
+  input: ContractInput<C>,
+  init: RequestInit = {}
+): Promise<ClientResponse<C>> {
+  const { data } = await fetchApi(contract, input, init)
+  return data
+}
+
+type ApiFunctions = {
+  [K in keyof ApiContracts]: {} extends ContractInput<ApiContracts[K]>
+    ? (input?: ContractInput<ApiContracts[K]>, init?: RequestInit) => Promise<ClientResponse<ApiContracts[K]>>
+    : (input: ContractInput<ApiContracts[K]>, init?: RequestInit) => Promise<ClientResponse<ApiContracts[K]>>
+}
+
+export const api = Object.fromEntries(
+  Object.entries(apiContracts).map(([name, contract]) => [
+    name,
+    (input = {}, init?: RequestInit) => callApi<ApiContract>(contract, input, init),
+  ])
+) as unknown as ApiFunctions
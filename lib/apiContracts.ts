@@ -0,0 +1,1366 @@
+/**
+ * Request/response contracts for every route under app/api.
+ * Routes validate their input with lib/apiRoute.ts, client code calls them
+ * through lib/apiClient.ts and lib/openapi.ts turns the registry into the
+ * OpenAPI document behind /api/openapi, /docs and /admin/api-tester.
+ * Imported by client components, so lib imports here must stay type-only.
+ */
+
+import { s, type AnySchema, type Infer, type InferInput } from './apiSchema'
+import { CREDIT_ROLE_IDS, DEFAULT_CREDIT_ROLE } from './creditRoles'
+import { MAX_CREDIT_QUERY_CLAUSES } from './creditQuery'
+import { MBID_PATTERN } from './creditIdentity'
+import type { PreviewProvider } from './previewHosts'
+import type { BpmJobProgress, BpmJobWorkerSummary } from './bpmJobs'
+import type { BpmReviewAction, BpmReviewItem } from './bpmReview'
+import type { BpmSuggestionPromotion, BpmSuggestionSummary } from './bpmSuggestions'
+import type { CreditCandidates } from './creditCandidates'
+import type { CreditGraph } from './creditGraph'
+import type { DuplicateReport } from './duplicates'
+import type { LibraryIndex } from './library'
+import type { OpenApiDocument } from './openapi'
+import type { PlaylistSnapshotDiff, PlaylistSnapshotSummary } from './playlistHistory'
+import type { ExportFormat } from './playlistExport'
+import type { PreviewExpiryStats, PreviewSweepSummary } from './previewExpiry'
+import type { PreviewProviderStats } from './previewProviders'
+import type { SpotifyPlaylist, SpotifyPlaylistInfo, SpotifyTrack } from './types'
+import type { SpotifyTrackMatch } from './spotifyTrackMatch'
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+// public: no session needed; session: Spotify login cookie; admin/superAdmin: admin_users row; cron: CRON_SECRET bearer or admin
+export type ApiAuth = 'public' | 'session' | 'admin' | 'superAdmin' | 'cron'
+
+export type ApiTag = 'BPM' | 'Audio' | 'Credits' | 'Playlists' | 'Library' | 'Auth' | 'Analytics' | 'Admin' | 'System'
+
+// Responses that are not JSON bodies
+export interface RawResponse {
+  kind: 'redirect' | 'file' | 'stream'
+  contentTypes: string[]
+  description: string
+}
+
+export interface ApiContract {
+  method: HttpMethod
+  // OpenAPI path template, e.g. /api/playlists/{id}
+  path: string
+  summary: string
+  description?: string
+  tag: ApiTag
+  auth: ApiAuth
+  params?: AnySchema
+  query?: AnySchema
+  body?: AnySchema
+  response: AnySchema | RawResponse
+  // Server-sent events emitted instead of the JSON response when the client asks for a stream
+  events?: AnySchema
+  // Success status when it is not 200
+  status?: number
+  // Route-specific failures besides validation, auth and 500s
+  errors?: Record<number, string>
+  // Other method/path pairs served by the same handler
+  aliases?: Array<{ method: HttpMethod; path: string }>
+}
+
+export const isRawResponse = (response: ApiContract['response']): response is RawResponse =>
+  'kind' in response && 'contentTypes' in response
+
+const raw = (kind: RawResponse['kind'], description: string, contentTypes: string[] = []): RawResponse => ({
+  kind,
+  description,
+  contentTypes,
+})
+
+// ============================================================================
+// Shared values
+// ============================================================================
+
+// Inlined from server-only modules; `satisfies` keeps them in step with the types there
+const PREVIEW_PROVIDER_IDS = ['deezer_isrc', 'muso_spotify', 'itunes_search', 'deezer_search'] as const satisfies readonly PreviewProvider[]
+const BPM_REVIEW_ACTION_IDS = [
+  'essentia',
+  'librosa',
+  'manual',
+  'half',
+  'double',
+  'key_essentia',
+  'key_librosa',
+  'keep',
+] as const satisfies readonly BpmReviewAction[]
+const EXPORT_FORMAT_IDS = ['csv', 'json', 'm3u8', 'rekordbox', 'traktor'] as const satisfies readonly ExportFormat[]
+const SUGGESTION_KEY_IDS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'] as const
+const DEFAULT_BPM_REVIEW_THRESHOLD = 0.5
+const MAX_EXPORT_TRACKS = 10000
+// Per request; the credits playlist builder sends larger result sets in chunks
+export const MAX_SPOTIFY_MATCH_TRACKS = 50
+
+const spotifyTrackId = () => s.string().trim().nonEmpty().describe('Spotify track ID').example('4uLU6hMCjMI75M1A2tKUQC')
+const trackIdList = () => s.array(s.string()).nonEmpty().describe('Spotify track IDs').example(['4uLU6hMCjMI75M1A2tKUQC'])
+const playlistIdParams = s.object({ id: s.string().nonEmpty().describe('Spotify playlist ID').example('37i9dQZF1DXcBWIGoYBM5M') })
+const countryCode = () => s.string().trim().optional().describe('Two-letter market used for preview lookups').example('US')
+const analyzerSelection = s.enum(['essentia', 'librosa', 'manual'])
+const okResponse = s.object({ ok: s.literal(true) })
+const isoDate = () => s.string().describe('ISO 8601 timestamp')
+
+export const previewUrlEntrySchema = s
+  .object({
+    url: s.string(),
+    successful: s.boolean().optional(),
+    isrc: s.string().optional(),
+    title: s.string().optional(),
+    artist: s.string().optional(),
+    provider: s.enum(PREVIEW_PROVIDER_IDS).optional(),
+    itunesRequestUrl: s.string().optional(),
+    itunesResponse: s.string().optional(),
+  })
+  .named('PreviewUrlEntry')
+
+export const bpmResultSchema = s
+  .object({
+    bpm: s.number().nullable(),
+    source: s.string(),
+    upc: s.string().optional(),
+    bpmRaw: s.number().optional(),
+    error: s.string().optional(),
+    urls: s.array(previewUrlEntrySchema).optional(),
+    cached: s.boolean().optional(),
+    key: s.string().optional(),
+    scale: s.string().optional(),
+    keyConfidence: s.number().optional(),
+    bpmConfidence: s.number().optional(),
+    bpmEssentia: s.number().nullable().optional(),
+    bpmRawEssentia: s.number().nullable().optional(),
+    bpmConfidenceEssentia: s.number().nullable().optional(),
+    bpmLibrosa: s.number().nullable().optional(),
+    bpmRawLibrosa: s.number().nullable().optional(),
+    bpmConfidenceLibrosa: s.number().nullable().optional(),
+    keyEssentia: s.string().nullable().optional(),
+    scaleEssentia: s.string().nullable().optional(),
+    keyscaleConfidenceEssentia: s.number().nullable().optional(),
+    keyLibrosa: s.string().nullable().optional(),
+    scaleLibrosa: s.string().nullable().optional(),
+    keyscaleConfidenceLibrosa: s.number().nullable().optional(),
+    bpmSelected: analyzerSelection.optional(),
+    keySelected: analyzerSelection.optional(),
+    bpmManual: s.number().nullable().optional(),
+    keyManual: s.string().nullable().optional(),
+    scaleManual: s.string().nullable().optional(),
+    debugTxt: s.string().nullable().optional(),
+    // Audio features (null when the analyzer does not report them)
+    loudnessLufs: s.number().nullable().optional(),
+    energy: s.number().nullable().optional(),
+    danceability: s.number().nullable().optional(),
+    onsetDensity: s.number().nullable().optional(),
+    introSeconds: s.number().nullable().optional(),
+    outroSeconds: s.number().nullable().optional(),
+  })
+  .named('BpmResult')
+
+// Cache lookups leave `source` out for tracks that were never analysed
+const bpmCacheEntrySchema = s
+  .object({
+    ...bpmResultSchema.shape,
+    source: s.string().optional(),
+    cached: s.boolean().optional(),
+    spotifyTrackId: s.string().optional(),
+  })
+  .named('BpmCacheEntry')
+
+const streamingPreviewMetaSchema = s
+  .object({
+    source: s.string(),
+    urls: s.array(previewUrlEntrySchema).optional(),
+    isrcMismatch: s.boolean().optional(),
+  })
+  .named('StreamingPreviewMeta')
+
+// Raw analyzer output as streamed by the BPM service
+const streamingBpmResultSchema = s.object({
+  bpm_essentia: s.number().nullable().optional(),
+  bpm_raw_essentia: s.number().nullable().optional(),
+  bpm_confidence_essentia: s.number().nullable().optional(),
+  bpm_librosa: s.number().nullable().optional(),
+  bpm_raw_librosa: s.number().nullable().optional(),
+  bpm_confidence_librosa: s.number().nullable().optional(),
+  key_essentia: s.string().nullable().optional(),
+  scale_essentia: s.string().nullable().optional(),
+  keyscale_confidence_essentia: s.number().nullable().optional(),
+  key_librosa: s.string().nullable().optional(),
+  scale_librosa: s.string().nullable().optional(),
+  keyscale_confidence_librosa: s.number().nullable().optional(),
+  debug_txt: s.string().nullable().optional(),
+  loudness_lufs: s.number().nullable().optional(),
+  energy: s.number().nullable().optional(),
+  danceability: s.number().nullable().optional(),
+  onset_density: s.number().nullable().optional(),
+  intro_seconds: s.number().nullable().optional(),
+  outro_seconds: s.number().nullable().optional(),
+})
+
+export const creditSearchTrackSchema = s
+  .object({
+    id: s.string(),
+    title: s.string(),
+    artist: s.string(),
+    album: s.string(),
+    releaseType: s.string().optional(),
+    year: s.string(),
+    length: s.number(),
+    isrc: s.string().optional(),
+    spotifyTrackId: s.string().optional(),
+    isrcDetails: s
+      .array(
+        s.object({
+          value: s.string(),
+          hasDeezer: s.boolean(),
+          selected: s.boolean().optional(),
+          reason: s.string().optional(),
+        })
+      )
+      .optional(),
+    releaseId: s.string(),
+    coverArtUrl: s.string().nullable().optional(),
+    previewUrl: s.string().nullable().optional(),
+    source: s.enum(['muso', 'musicbrainz']).optional(),
+  })
+  .named('CreditSearchTrack')
+
+export const isrcEnrichLogSchema = s
+  .object({
+    trackId: s.string(),
+    title: s.string(),
+    artist: s.string(),
+    request: s.object({ keyword: s.string(), limit: s.number(), type: s.array(s.string()) }),
+    response: s.unknown(),
+    result: s.object({
+      isrc: s.string().nullable().optional(),
+      matchType: s.enum(['title_artist', 'fallback', 'none']).optional(),
+    }),
+  })
+  .named('IsrcEnrichLog')
+
+export const isrcMismatchItemSchema = s
+  .object({
+    spotify_track_id: s.string(),
+    isrc: s.string().nullable(),
+    artist: s.string().nullable(),
+    title: s.string().nullable(),
+    updated_at: isoDate(),
+    error: s.string().nullable(),
+    urls: s.array(previewUrlEntrySchema).nullable(),
+    isrc_mismatch: s.boolean(),
+    isrc_mismatch_review_status: s.enum(['match', 'mismatch']).nullable(),
+    isrc_mismatch_reviewed_by: s.string().nullable(),
+    isrc_mismatch_reviewed_at: isoDate().nullable(),
+    preview_url: s.string().nullable(),
+  })
+  .named('IsrcMismatchItem')
+
+const songSearchTrackSchema = s
+  .object({
+    id: s.string(),
+    title: s.string(),
+    artist: s.string(),
+    isrc: s.string().nullable().optional(),
+    previewUrl: s.string().nullable().optional(),
+    album: s.string().nullable().optional(),
+  })
+  .named('SongSearchTrack')
+
+export const songSearchPreviewSchema = s
+  .object({
+    url: s.string(),
+    provider: s.enum([...PREVIEW_PROVIDER_IDS, 'spotify_preview']),
+    isrc: s.string().optional(),
+    title: s.string().optional(),
+    artist: s.string().optional(),
+  })
+  .named('SongSearchPreview')
+
+const previewProviderSettingsSchema = s
+  .object({
+    days: s.number().int(),
+    expiry: s.ref<PreviewExpiryStats>('PreviewExpiryStats', 'lib/previewExpiry'),
+    order: s.array(s.enum(PREVIEW_PROVIDER_IDS)),
+    providers: s.array(
+      s.object({
+        id: s.enum(PREVIEW_PROVIDER_IDS),
+        label: s.string(),
+        enabled: s.boolean(),
+        stats: s.ref<PreviewProviderStats>('PreviewProviderStats', 'lib/previewProviders').nullable(),
+      })
+    ),
+  })
+  .named('PreviewProviderSettings')
+
+const serviceHealthSchema = s
+  .object({ status: s.enum(['ok', 'throttled', 'error']), label: s.string() })
+  .named('ServiceHealth')
+
+const accessRequestBody = s.object({
+  displayName: s.string().trim().optional(),
+  email: s.string().trim().optional(),
+})
+
+const countSeries = () => s.array(s.object({ date: s.string(), count: s.number() }))
+
+const optionalSetting = () => s.string().nullable().optional()
+
+// ============================================================================
+// Contracts
+// ============================================================================
+
+export const apiContracts = {
+  // --------------------------------------------------------------------------
+  // BPM
+  // --------------------------------------------------------------------------
+  getBpm: {
+    method: 'GET',
+    path: '/api/bpm',
+    summary: 'BPM and key for a Spotify track',
+    description: 'Returns the cached analysis or computes it from a preview clip.',
+    tag: 'BPM',
+    auth: 'session',
+    query: s.object({ spotifyTrackId: s.string().trim().nonEmpty().describe('Spotify track ID'), country: countryCode() }),
+    response: bpmResultSchema,
+  },
+  getBpmBatch: {
+    method: 'POST',
+    path: '/api/bpm/batch',
+    summary: 'Cached BPM results for up to 100 tracks',
+    tag: 'BPM',
+    auth: 'public',
+    body: s.object({ trackIds: trackIdList(), country: countryCode() }),
+    response: s.object({ results: s.record(bpmCacheEntrySchema) }),
+  },
+  getBpmByIsrcBatch: {
+    method: 'POST',
+    path: '/api/bpm/by-isrc/batch',
+    summary: 'Cached BPM results keyed by ISRC (up to 200)',
+    tag: 'BPM',
+    auth: 'public',
+    body: s.object({ isrcs: s.array(s.string()).nonEmpty().example(['GBAYE0601498']) }),
+    response: s.object({ results: s.record(bpmCacheEntrySchema) }),
+  },
+  computeBpmByIsrc: {
+    method: 'POST',
+    path: '/api/bpm/by-isrc/compute',
+    summary: 'Resolve a track by ISRC or title/artist and compute its BPM',
+    tag: 'BPM',
+    auth: 'session',
+    body: s
+      .object({
+        isrc: s.string().trim().optional(),
+        title: s.string().trim().optional(),
+        artist: s.string().trim().optional(),
+        spotifyTrackId: s.string().trim().optional(),
+      })
+      .refine((body) => Boolean(body.isrc || body.spotifyTrackId), 'isrc or spotifyTrackId is required'),
+    response: s.object({ ...bpmResultSchema.shape, spotifyTrackId: s.string() }),
+    errors: { 404: 'No Spotify track matches the ISRC' },
+  },
+  getBpmServiceHealth: {
+    method: 'GET',
+    path: '/api/bpm/health',
+    summary: 'Reachability of the BPM analysis service',
+    tag: 'BPM',
+    auth: 'public',
+    response: s.object({ ok: s.boolean(), status: s.number().optional(), error: s.string().optional() }),
+    errors: { 502: 'BPM service returned an error', 504: 'BPM service timed out' },
+  },
+  ingestBpmResult: {
+    method: 'POST',
+    path: '/api/bpm/ingest',
+    summary: 'Store a final result read from a streaming batch',
+    tag: 'BPM',
+    auth: 'public',
+    body: s.object({
+      trackId: spotifyTrackId(),
+      result: streamingBpmResultSchema,
+      previewMeta: streamingPreviewMetaSchema,
+    }),
+    response: okResponse,
+  },
+  startBpmStreamBatch: {
+    method: 'POST',
+    path: '/api/bpm/stream-batch',
+    summary: 'Start a streaming analysis batch',
+    description: 'Cached and failed lookups come back in immediateResults; the rest stream from /api/stream/{batch_id}.',
+    tag: 'BPM',
+    auth: 'session',
+    body: s.object({
+      trackIds: trackIdList(),
+      country: countryCode(),
+      debug_level: s.string().trim().optional().example('minimal'),
+      max_confidence: s.number().min(0).max(1).default(0.65),
+      fallback_override: s
+        .enum(['never', 'always', 'bpm_only', 'key_only', 'fallback_only', 'fallback_only_bpm', 'fallback_only_key'])
+        .optional(),
+    }),
+    response: s.object({
+      batchId: s.string().nullable(),
+      indexToTrackId: s.record(s.string()),
+      previewMeta: s.record(streamingPreviewMetaSchema),
+      immediateResults: s.record(
+        s.object({
+          source: s.string(),
+          error: s.string(),
+          urls: s.array(previewUrlEntrySchema).optional(),
+          isrcMismatch: s.boolean().optional(),
+        })
+      ),
+    }),
+  },
+  getBpmStream: {
+    method: 'GET',
+    path: '/api/stream/{batch_id}',
+    summary: 'Resumable stream of batch results',
+    description: 'Pass the last seen line index as cursor to resume after a dropped connection.',
+    tag: 'BPM',
+    auth: 'public',
+    params: s.object({ batch_id: s.string().nonEmpty() }),
+    query: s.object({
+      format: s.enum(['ndjson', 'sse']).optional(),
+      cursor: s.number().int().min(0).optional(),
+    }),
+    response: raw('stream', 'One analysis result per line', ['application/x-ndjson', 'text/event-stream']),
+  },
+  queueBpmJobs: {
+    method: 'POST',
+    path: '/api/bpm/jobs',
+    summary: 'Queue background analysis for playlist tracks',
+    tag: 'BPM',
+    auth: 'session',
+    body: s.object({
+      playlistId: s.string().trim().nonEmpty(),
+      trackIds: s.array(s.string()).optional().describe('Defaults to every track in the playlist'),
+      country: countryCode(),
+    }),
+    response: s.object({
+      queued: s.number().int(),
+      skipped: s.array(s.string()).describe('Tracks without an ISRC; analyse these with a streaming batch'),
+    }),
+  },
+  getBpmJobProgress: {
+    method: 'GET',
+    path: '/api/bpm/jobs',
+    summary: 'Progress of queued analysis jobs for a playlist',
+    tag: 'BPM',
+    auth: 'session',
+    query: s.object({
+      playlistId: s.string().trim().nonEmpty(),
+      since: s.string().datetime().optional().describe('checkedAt from the previous poll'),
+    }),
+    response: s.ref<BpmJobProgress>('BpmJobProgress', 'lib/bpmJobs'),
+  },
+  runBpmJobWorker: {
+    method: 'GET',
+    path: '/api/bpm/jobs/worker',
+    summary: 'Process queued analysis jobs (cron)',
+    tag: 'BPM',
+    auth: 'cron',
+    response: s.ref<BpmJobWorkerSummary>('BpmJobWorkerSummary', 'lib/bpmJobs'),
+  },
+  computeMusoPreviewBpm: {
+    method: 'POST',
+    path: '/api/bpm/muso-preview',
+    summary: 'Compute BPM from the Muso preview clip',
+    tag: 'BPM',
+    auth: 'session',
+    body: s.object({ spotifyTrackId: spotifyTrackId() }),
+    response: bpmResultSchema,
+    errors: { 404: 'Muso has no preview for the track' },
+  },
+  refreshPreviewUrls: {
+    method: 'GET',
+    path: '/api/bpm/preview-refresh',
+    summary: 'Look up fresh preview URLs for a track',
+    tag: 'BPM',
+    auth: 'public',
+    query: s.object({ spotifyTrackId: spotifyTrackId(), country: countryCode() }),
+    response: s.object({ urls: s.array(previewUrlEntrySchema).optional(), error: s.string().nullable().optional() }),
+  },
+  sweepPreviewUrls: {
+    method: 'GET',
+    path: '/api/bpm/preview-refresh/sweep',
+    summary: 'Refresh preview URLs whose tokens are about to expire (cron)',
+    tag: 'BPM',
+    auth: 'cron',
+    response: s.ref<PreviewSweepSummary>('PreviewSweepSummary', 'lib/previewExpiry'),
+  },
+  recalculateBpm: {
+    method: 'POST',
+    path: '/api/bpm/recalculate',
+    summary: 'Clear cached analysis so tracks are computed again',
+    tag: 'BPM',
+    auth: 'session',
+    body: s
+      .object({
+        playlistId: s.string().trim().optional(),
+        trackIds: s.array(s.string()).optional(),
+      })
+      .refine((body) => Boolean(body.playlistId || body.trackIds), 'playlistId or trackIds is required'),
+    response: s.object({
+      success: s.boolean(),
+      message: s.string(),
+      cleared: s.number().int(),
+      skipped: s.number().int().optional(),
+    }),
+  },
+  getBpmSuggestions: {
+    method: 'GET',
+    path: '/api/bpm/suggestions',
+    summary: 'Community BPM/key suggestions for a track',
+    tag: 'BPM',
+    auth: 'public',
+    query: s.object({ spotifyTrackId: spotifyTrackId() }),
+    response: s.ref<BpmSuggestionSummary>('BpmSuggestionSummary', 'lib/bpmSuggestions'),
+  },
+  suggestBpm: {
+    method: 'POST',
+    path: '/api/bpm/suggestions',
+    summary: 'Suggest or vote for a BPM and/or key',
+    tag: 'BPM',
+    auth: 'session',
+    body: s
+      .object({
+        spotifyTrackId: spotifyTrackId(),
+        bpm: s.number().min(1).max(300).nullable().optional(),
+        key: s.enum(SUGGESTION_KEY_IDS).nullable().optional(),
+        scale: s.enum(['major', 'minor']).nullable().optional(),
+      })
+      .refine((body) => (body.key == null) === (body.scale == null), 'key and scale must be suggested together', 'scale')
+      .refine((body) => body.bpm != null || body.key != null, 'Suggest a BPM or a key'),
+    response: s.object({
+      ok: s.literal(true),
+      promoted: s.ref<BpmSuggestionPromotion[]>('BpmSuggestionPromotions', 'lib/bpmSuggestions', 'array'),
+    }),
+  },
+  resolveBpmSuggestion: {
+    method: 'PATCH',
+    path: '/api/bpm/suggestions',
+    summary: 'Accept or reject a suggestion',
+    tag: 'BPM',
+    auth: 'admin',
+    body: s.object({
+      suggestionId: s.number().int().positive(),
+      action: s.enum(['accept', 'reject']),
+    }),
+    response: s.object({
+      ok: s.literal(true),
+      spotifyTrackId: s.string(),
+      applied: s.ref<BpmSuggestionPromotion>('BpmSuggestionPromotion', 'lib/bpmSuggestions').nullable(),
+    }),
+    errors: { 404: 'Suggestion not found', 409: 'Suggestion was already resolved' },
+  },
+  updateBpmSelection: {
+    method: 'POST',
+    path: '/api/bpm/update-selection',
+    summary: 'Choose the analyzer or set manual BPM/key values',
+    description: 'Admin only; other users suggest corrections through suggestBpm.',
+    tag: 'BPM',
+    auth: 'admin',
+    body: s
+      .object({
+        spotifyTrackId: spotifyTrackId(),
+        bpmSelected: analyzerSelection.optional(),
+        keySelected: analyzerSelection.optional(),
+        bpmManual: s.number().positive().nullable().optional(),
+        keyManual: s.string().nullable().optional(),
+        scaleManual: s.string().nullable().optional(),
+      })
+      .refine((body) => body.bpmSelected !== 'manual' || body.bpmManual != null, 'bpmManual is required when bpmSelected is manual', 'bpmManual')
+      .refine(
+        (body) => body.keySelected !== 'manual' || (body.keyManual != null && body.scaleManual != null),
+        'keyManual and scaleManual are required when keySelected is manual',
+        'keyManual'
+      )
+      .refine(
+        (body) =>
+          body.bpmSelected !== undefined ||
+          body.keySelected !== undefined ||
+          body.bpmManual !== undefined ||
+          body.keyManual !== undefined ||
+          body.scaleManual !== undefined,
+        'No updates provided'
+      ),
+    response: s.object({ success: s.literal(true) }),
+    errors: { 403: 'Not an admin' },
+  },
+
+  // --------------------------------------------------------------------------
+  // Audio
+  // --------------------------------------------------------------------------
+  proxyAudio: {
+    method: 'GET',
+    path: '/api/audio-proxy',
+    summary: 'Stream a preview clip from an allowed preview host',
+    description: 'Honours Range requests so players can seek.',
+    tag: 'Audio',
+    auth: 'public',
+    query: s.object({ url: s.string().url().describe('Deezer, iTunes or Spotify preview URL') }),
+    response: raw('file', 'Preview audio', ['audio/mpeg', 'audio/mp4']),
+    errors: { 206: 'Partial content for Range requests', 502: 'Preview host failed' },
+  },
+  resolveDeezerPreview: {
+    method: 'GET',
+    path: '/api/deezer-preview',
+    summary: 'Resolve a Deezer API track URL to a fresh preview URL',
+    tag: 'Audio',
+    auth: 'public',
+    query: s.object({ url: s.string().url().example('https://api.deezer.com/track/isrc:GBAYE0601498') }),
+    response: s.object({ previewUrl: s.string() }),
+    errors: { 404: 'Deezer has no preview for the track' },
+  },
+  getMusoPreviewUrl: {
+    method: 'POST',
+    path: '/api/muso/preview',
+    summary: 'Preview URL for a track from Muso',
+    tag: 'Audio',
+    auth: 'session',
+    body: s.object({ spotifyTrackId: spotifyTrackId() }),
+    response: s.object({ previewUrl: s.string() }),
+    errors: { 404: 'Muso has no preview for the track' },
+  },
+
+  // --------------------------------------------------------------------------
+  // Credits
+  // --------------------------------------------------------------------------
+  searchCredits: {
+    method: 'GET',
+    path: '/api/musicbrainz/search',
+    summary: 'Tracks credited to a person in a role',
+    description:
+      'Searches Muso first and falls back to MusicBrainz. With stream=true the results arrive as server-sent events. ' +
+      'Repeated clause params (role:name, | between aliases) run a composite search whose clauses are joined on ISRC or recording ID. ' +
+      'artistId and musoProfileId pin a single-name search to the chosen person and key its cache on those IDs.',
+    tag: 'Credits',
+    auth: 'public',
+    query: s.object({
+      name: s.string().trim().optional().describe('Required unless clause is given').example('Rick Rubin'),
+      clause: s
+        .array(s.string().trim().nonEmpty())
+        .max(MAX_CREDIT_QUERY_CLAUSES)
+        .optional()
+        .example(['producer:Max Martin', 'mixer:Serban Ghenea']),
+      role: s.enum(CREDIT_ROLE_IDS).default(DEFAULT_CREDIT_ROLE),
+      instrument: s.string().trim().optional().describe('Instrument played, when role is instrument').example('guitar'),
+      artistId: s.string().trim().pattern(MBID_PATTERN).optional().describe('MusicBrainz artist MBID picked from getCreditCandidates'),
+      musoProfileId: s.string().trim().nonEmpty().optional().describe('Muso profile ID picked from getCreditCandidates'),
+      limit: s.number().int().min(1).max(50).default(20),
+      offset: s.number().int().min(0).default(0),
+      releaseDateStart: s.string().trim().optional().example('2000-01-01'),
+      releaseDateEnd: s.string().trim().optional(),
+      debug: s.boolean().default(false),
+      stream: s.boolean().default(false),
+      refresh: s.boolean().default(false).describe('Skip the search cache'),
+    }),
+    response: s.object({
+      releaseCount: s.number().nullable(),
+      releaseOffset: s.number(),
+      releaseLimit: s.number(),
+      trackCount: s.number(),
+      results: s.array(creditSearchTrackSchema),
+      profile: s.unknown(),
+      debug: s.unknown(),
+      source: s.enum(['muso', 'musicbrainz']).optional(),
+      truncated: s.boolean().optional().describe('Composite searches: a term had more matches than were searched'),
+    }),
+    events: s.union([
+      s.object({ type: s.literal('profile'), profile: s.unknown() }),
+      s.object({ type: s.literal('meta'), totalWorks: s.number().nullable(), truncated: s.boolean().optional() }),
+      s.object({ type: s.literal('cached'), results: s.array(creditSearchTrackSchema) }),
+      s.object({ type: s.literal('result'), track: creditSearchTrackSchema }),
+      s.object({ type: s.literal('done'), count: s.number() }),
+      s.object({ type: s.literal('error'), message: s.string() }),
+    ]),
+    aliases: [{ method: 'GET', path: '/api/creditsearch' }],
+  },
+  getTrackCredits: {
+    method: 'GET',
+    path: '/api/musicbrainz/credits',
+    summary: 'Performer, producer, mixer, mastering and writer credits for an ISRC',
+    tag: 'Credits',
+    auth: 'public',
+    query: s.object({
+      isrc: s.string().trim().nonEmpty().example('GBAYE0601498'),
+      refresh: s.boolean().default(false),
+    }),
+    response: s.object({
+      performedBy: s.array(s.string()),
+      producedBy: s.array(s.string()),
+      mixedBy: s.array(s.string()),
+      masteredBy: s.array(s.string()),
+      writtenBy: s.array(s.string()),
+      releaseId: s.string().nullable(),
+      retrievedAt: isoDate(),
+    }),
+    errors: { 404: 'No recording found for the ISRC' },
+  },
+  getCreditGraph: {
+    method: 'GET',
+    path: '/api/credits/graph',
+    summary: 'Who a person most often works with, by role',
+    description: 'Built from cached credit searches, cached per-track credits and Muso profile credits.',
+    tag: 'Credits',
+    auth: 'public',
+    query: s.object({
+      name: s.string().trim().nonEmpty().example('Rick Rubin'),
+      yearFrom: s.number().int().min(1900).max(2100).optional(),
+      yearTo: s.number().int().min(1900).max(2100).optional(),
+      perRole: s.number().int().min(1).max(20).default(8).describe('Collaborators kept per role'),
+      artistId: s.string().trim().pattern(MBID_PATTERN).optional(),
+      musoProfileId: s.string().trim().nonEmpty().optional(),
+    }),
+    response: s.ref<CreditGraph>('CreditGraph', 'lib/creditGraph'),
+  },
+  getCreditCandidates: {
+    method: 'GET',
+    path: '/api/credits/candidates',
+    summary: 'People a credits search name could mean',
+    description:
+      'MusicBrainz artists matching the name or an alias, and Muso profiles when a key is configured, ' +
+      'with aliases, country, active years and sample credits for telling namesakes apart.',
+    tag: 'Credits',
+    auth: 'public',
+    query: s.object({
+      name: s.string().trim().nonEmpty().example('Max Martin'),
+    }),
+    response: s.ref<CreditCandidates>('CreditCandidates', 'lib/creditCandidates'),
+  },
+  matchCreditTracks: {
+    method: 'POST',
+    path: '/api/credits/spotify-matches',
+    summary: 'Resolve credit search results to Spotify track IDs',
+    description:
+      'Uses known IDs first, then ISRCs cached by BPM lookups, then Spotify search by ISRC and by title/artist. ' +
+      `Unmatched tracks come back with a null spotifyTrackId. At most ${MAX_SPOTIFY_MATCH_TRACKS} tracks per request.`,
+    tag: 'Credits',
+    auth: 'session',
+    body: s.object({
+      tracks: s
+        .array(
+          s.object({
+            key: s.string().nonEmpty().describe('Echoed back in the match'),
+            isrc: s.string().trim().optional().example('USUM71400993'),
+            title: s.string().trim(),
+            artist: s.string().trim(),
+            spotifyTrackId: s.string().trim().optional(),
+          })
+        )
+        .nonEmpty()
+        .max(MAX_SPOTIFY_MATCH_TRACKS),
+    }),
+    response: s.object({
+      matches: s.ref<SpotifyTrackMatch[]>('SpotifyTrackMatches', 'lib/spotifyTrackMatch', 'array'),
+    }),
+
+    errors: { 429: 'Spotify rate limit reached' },
+  },
+
+  // --------------------------------------------------------------------------
+  // Playlists
+  // --------------------------------------------------------------------------
+  listPlaylists: {
+    method: 'GET',
+    path: '/api/playlists',
+    summary: "The signed-in user's playlists with cache status",
+    tag: 'Playlists',
+    auth: 'session',
+    query: s.object({ includeFollowers: s.boolean().default(false) }),
+    response: s.ref<Array<SpotifyPlaylist & { is_cached: boolean; cached_at: string | null }>>(
+      'PlaylistList',
+      'lib/playlists',
+      'array'
+    ),
+  },
+  createPlaylist: {
+    method: 'POST',
+    path: '/api/playlists',
+    summary: 'Create a Spotify playlist from track IDs',
+    description:
+      'Needs the playlist write scopes; a 403 with missing_scope means the user must reauthorize. ' +
+      'If adding tracks fails after the playlist was created, it is still returned with tracksFailed > 0.',
+    tag: 'Playlists',
+    auth: 'session',
+    body: s.object({
+      name: s.string().trim().nonEmpty().describe('Truncated to 100 characters'),
+      description: s.string().trim().optional().describe('Truncated to 300 characters'),
+      public: s.boolean().optional(),
+      trackIds: trackIdList(),
+    }),
+    response: s.object({
+      id: s.string(),
+      url: s.string().nullable(),
+      tracksAdded: s.number().int(),
+      tracksFailed: s.number().int().describe('Tracks not added because Spotify rejected a later chunk'),
+    }),
+    status: 201,
+    errors: { 403: 'Missing playlist write scopes (missing_scope)' },
+  },
+  getPlaylist: {
+    method: 'GET',
+    path: '/api/playlists/{id}',
+    summary: 'Playlist details',
+    description: 'X-Cached, X-Cached-At and X-Snapshot-Id headers report whether the cached copy was used.',
+    tag: 'Playlists',
+    auth: 'session',
+    params: playlistIdParams,
+    query: s.object({ refresh: s.boolean().default(false) }),
+    response: s.ref<SpotifyPlaylistInfo>('SpotifyPlaylistInfo', 'lib/types'),
+  },
+  getPlaylistTracks: {
+    method: 'GET',
+    path: '/api/playlists/{id}/tracks',
+    summary: 'Playlist tracks',
+    description: 'X-ISRC-Missing counts tracks without an ISRC when includeMissingIsrc is set.',
+    tag: 'Playlists',
+    auth: 'session',
+    params: playlistIdParams,
+    query: s.object({ refresh: s.boolean().default(false), includeMissingIsrc: s.boolean().default(false) }),
+    response: s.ref<SpotifyTrack[]>('SpotifyTrackList', 'lib/types', 'array'),
+  },
+  addPlaylistTracks: {
+    method: 'POST',
+    path: '/api/playlists/{id}/tracks',
+    summary: 'Append tracks to an existing playlist',
+    description:
+      'Tracks already in the playlist are skipped. Needs the playlist write scopes; a 403 with missing_scope ' +
+      'means the user must reauthorize, not_playlist_editor that they do not own or collaborate on the playlist.',
+    tag: 'Playlists',
+    auth: 'session',
+    params: playlistIdParams,
+    body: s.object({ trackIds: trackIdList() }),
+    response: s.object({ tracksAdded: s.number().int(), alreadyPresent: s.number().int() }),
+    errors: { 403: 'Missing playlist write scopes (missing_scope) or not a playlist editor (not_playlist_editor)' },
+  },
+  getPlaylistHistory: {
+    method: 'GET',
+    path: '/api/playlists/{id}/history',
+    summary: 'Recorded snapshots, or the diff between two of them',
+    tag: 'Playlists',
+    auth: 'session',
+    params: playlistIdParams,
+    query: s
+      .object({ from: s.string().trim().optional(), to: s.string().trim().optional() })
+      .refine((query) => Boolean(query.from) === Boolean(query.to), 'Both from and to snapshot IDs are required'),
+    response: s.union([
+      s.object({
+        snapshots: s.ref<PlaylistSnapshotSummary[]>('PlaylistSnapshotSummaries', 'lib/playlistHistory', 'array'),
+      }),
+      s.ref<PlaylistSnapshotDiff & { userNames: Record<string, string> }>('PlaylistSnapshotDiff', 'lib/playlistHistory'),
+    ]),
+    errors: { 401: 'Not signed in', 403: 'Playlist not visible to the signed-in user', 404: 'Snapshot not found' },
+  },
+  exportPlaylist: {
+    method: 'GET',
+    path: '/api/playlists/{id}/export',
+    summary: 'Download the playlist as CSV, JSON, M3U8, Rekordbox or Traktor',
+    tag: 'Playlists',
+    auth: 'session',
+    params: playlistIdParams,
+    query: s.object({ format: s.enum(EXPORT_FORMAT_IDS), name: s.string().trim().optional() }),
+    response: raw('file', 'Export file download', ['text/csv', 'application/json', 'audio/x-mpegurl', 'application/xml']),
+  },
+  exportPlaylistTracks: {
+    method: 'POST',
+    path: '/api/playlists/{id}/export',
+    summary: 'Download selected tracks in the given order',
+    description: 'Omitting trackIds exports the whole playlist; a trackIds list with no valid IDs is a 400.',
+    tag: 'Playlists',
+    auth: 'session',
+    params: playlistIdParams,
+    body: s.object({
+      format: s.enum(EXPORT_FORMAT_IDS),
+      name: s.string().trim().optional(),
+      trackIds: s.array(s.string()).max(MAX_EXPORT_TRACKS).optional(),
+    }),
+    response: raw('file', 'Export file download', ['text/csv', 'application/json', 'audio/x-mpegurl', 'application/xml']),
+  },
+
+  // --------------------------------------------------------------------------
+  // Library
+  // --------------------------------------------------------------------------
+  getLibrary: {
+    method: 'GET',
+    path: '/api/library',
+    summary: 'Every track across the cached playlists',
+    tag: 'Library',
+    auth: 'session',
+    response: s.ref<LibraryIndex>('LibraryIndex', 'lib/library'),
+  },
+  getDuplicateReport: {
+    method: 'GET',
+    path: '/api/library/duplicates',
+    summary: 'Duplicate tracks within and across playlists',
+    tag: 'Library',
+    auth: 'session',
+    response: s.ref<DuplicateReport>('DuplicateReport', 'lib/duplicates'),
+  },
+
+  // --------------------------------------------------------------------------
+  // Auth
+  // --------------------------------------------------------------------------
+  login: {
+    method: 'GET',
+    path: '/api/auth/login',
+    summary: 'Start the Spotify OAuth flow',
+    tag: 'Auth',
+    auth: 'public',
+    query: s.object({
+      scope: s.enum(['read', 'write']).optional().describe('write also requests the playlist write scopes'),
+      returnTo: s.string().optional().describe('Same-origin path to land on after login'),
+    }),
+    response: raw('redirect', 'Redirect to Spotify'),
+  },
+  authCallback: {
+    method: 'GET',
+    path: '/api/auth/callback',
+    summary: 'Spotify OAuth callback',
+    tag: 'Auth',
+    auth: 'public',
+    query: s.object({ code: s.string().optional(), error: s.string().optional(), state: s.string().optional() }),
+    response: raw('redirect', 'Redirect to the app, with ?error= on failure'),
+  },
+  reauthorize: {
+    method: 'POST',
+    path: '/api/auth/reauthorize',
+    summary: 'Clear the session and log in again, e.g. to grant new scopes',
+    tag: 'Auth',
+    auth: 'public',
+    query: s.object({ scope: s.enum(['read', 'write']).optional(), returnTo: s.string().optional() }),
+    response: raw('redirect', 'Redirect to /api/auth/login'),
+    aliases: [{ method: 'GET', path: '/api/auth/reauthorize' }],
+  },
+  logout: {
+    method: 'POST',
+    path: '/api/auth/logout',
+    summary: 'Clear the session cookies',
+    tag: 'Auth',
+    auth: 'public',
+    response: raw('redirect', 'Redirect to /'),
+    aliases: [{ method: 'GET', path: '/api/auth/logout' }],
+  },
+  getAuthStatus: {
+    method: 'GET',
+    path: '/api/auth/status',
+    summary: 'Whether the visitor is signed in to Spotify',
+    tag: 'Auth',
+    auth: 'public',
+    response: s.object({
+      authenticated: s.boolean(),
+      user: s
+        .object({ id: s.string(), display_name: s.string().nullable(), email: s.string().nullable().optional() })
+        .optional(),
+      needsRefresh: s.boolean().optional(),
+    }),
+  },
+  getAdminStatus: {
+    method: 'GET',
+    path: '/api/auth/is-admin',
+    summary: 'Whether the signed-in user is an admin',
+    tag: 'Auth',
+    auth: 'public',
+    response: s.object({ isAdmin: s.boolean(), isSuperAdmin: s.boolean() }),
+  },
+
+  // --------------------------------------------------------------------------
+  // Analytics
+  // --------------------------------------------------------------------------
+  getAnalyticsStats: {
+    method: 'GET',
+    path: '/api/analytics/stats',
+    summary: 'Usage totals and time series',
+    tag: 'Analytics',
+    auth: 'admin',
+    response: s.object({
+      summary: s.object({
+        totalUsers: s.number(),
+        totalPageviews: s.number(),
+        totalApiRequests: s.number(),
+        activeUsers7d: s.number(),
+        activeUsers30d: s.number(),
+        spotifyApiRequests: s.number(),
+        musoApiRequests: s.number(),
+        musicbrainzApiRequests: s.number(),
+        musoDailyUsed: s.number(),
+        musoDailyLimit: s.number(),
+        musoDailyRemaining: s.number(),
+      }),
+      topPaths: s.array(s.object({ path: s.string(), count: s.number() })),
+      topEndpoints: s.array(s.object({ endpoint: s.string(), method: s.string(), count: s.number() })),
+      pageviewsOverTime: countSeries(),
+      apiRequestsOverTime: countSeries(),
+      apiRequestsOverTimeByProvider: s.object({ spotify: countSeries(), musicbrainz: countSeries(), muso: countSeries() }),
+      requestsByStatus: s.array(s.object({ statusCode: s.number().nullable(), count: s.number() })),
+    }),
+  },
+  getTopUsers: {
+    method: 'GET',
+    path: '/api/analytics/top-users',
+    summary: 'Users with the most sessions',
+    tag: 'Analytics',
+    auth: 'admin',
+    response: s.array(
+      s.object({ display_name: s.string().nullable(), email: s.string().nullable(), session_count: s.number() })
+    ),
+  },
+  trackPageview: {
+    method: 'POST',
+    path: '/api/analytics/track-pageview',
+    summary: 'Record a page view',
+    tag: 'Analytics',
+    auth: 'public',
+    body: s.object({ path: s.string().nonEmpty().example('/playlists') }),
+    response: s.object({ success: s.boolean() }),
+  },
+
+  // --------------------------------------------------------------------------
+  // Admin
+  // --------------------------------------------------------------------------
+  getBpmReviewQueue: {
+    method: 'GET',
+    path: '/api/admin/bpm-review',
+    summary: 'Tracks whose BPM or key needs a human decision',
+    tag: 'Admin',
+    auth: 'admin',
+    query: s.object({
+      threshold: s.number().min(0).max(1).default(DEFAULT_BPM_REVIEW_THRESHOLD).describe('Confidence below which a result is flagged'),
+      includeReviewed: s.boolean().default(false),
+    }),
+    response: s.object({
+      items: s.ref<BpmReviewItem[]>('BpmReviewItems', 'lib/bpmReview', 'array'),
+      threshold: s.number(),
+    }),
+  },
+  applyBpmReview: {
+    method: 'PATCH',
+    path: '/api/admin/bpm-review',
+    summary: 'Apply a review decision to one or more tracks',
+    tag: 'Admin',
+    auth: 'admin',
+    body: s
+      .object({
+        spotifyTrackIds: s.array(s.string().trim().nonEmpty()).nonEmpty().max(200),
+        action: s.enum(BPM_REVIEW_ACTION_IDS),
+        bpmManual: s.number().gt(0).lt(1000).optional(),
+      })
+      .refine((body) => body.action !== 'manual' || body.bpmManual !== undefined, 'bpmManual is required for manual', 'bpmManual'),
+    response: s.object({ ok: s.literal(true), updated: s.number().int() }),
+  },
+  enrichMissingIsrcs: {
+    method: 'POST',
+    path: '/api/admin/isrc-debug/muso-enrich',
+    summary: 'Look up missing ISRCs for a playlist through Muso',
+    tag: 'Admin',
+    auth: 'admin',
+    body: s.object({ playlistId: s.string().trim().nonEmpty() }),
+    response: s.object({ missingCount: s.number().int(), updated: s.boolean(), logs: s.array(isrcEnrichLogSchema) }),
+  },
+  listIsrcMismatches: {
+    method: 'GET',
+    path: '/api/admin/isrc-mismatches',
+    summary: 'Tracks whose preview came from a different ISRC',
+    tag: 'Admin',
+    auth: 'admin',
+    response: s.object({ items: s.array(isrcMismatchItemSchema) }),
+  },
+  reviewIsrcMismatch: {
+    method: 'PATCH',
+    path: '/api/admin/isrc-mismatches',
+    summary: 'Confirm a mismatch, mark it correct, or resolve it with the Muso preview',
+    tag: 'Admin',
+    auth: 'admin',
+    body: s.object({
+      spotifyTrackId: spotifyTrackId(),
+      action: s.enum(['confirm_match', 'confirm_mismatch', 'resolve_with_muso']),
+    }),
+    response: okResponse,
+    errors: { 404: 'Track or preview not found' },
+  },
+  resolveIsrcMismatches: {
+    method: 'POST',
+    path: '/api/admin/isrc-mismatches/resolve-all',
+    summary: 'Resolve pending mismatches with Muso previews',
+    tag: 'Admin',
+    auth: 'admin',
+    body: s.object({ limit: s.number().int().positive().max(1000).optional() }),
+    response: s.object({
+      processed: s.number().int(),
+      resolved: s.number().int(),
+      skipped: s.number().int(),
+      results: s.array(
+        s.object({
+          spotifyTrackId: s.string(),
+          status: s.enum(['resolved', 'skipped', 'failed']),
+          reason: s.string().optional(),
+          previewUrl: s.string().nullable().optional(),
+          isrc: s.string().nullable().optional(),
+        })
+      ),
+    }),
+  },
+  getMusoStatus: {
+    method: 'GET',
+    path: '/api/admin/muso-status',
+    summary: 'Muso daily quota usage',
+    tag: 'Admin',
+    auth: 'admin',
+    response: s.object({ enabled: s.boolean(), used: s.number(), limit: s.number(), remaining: s.number() }),
+  },
+  getObservabilitySettings: {
+    method: 'GET',
+    path: '/api/admin/observability-settings',
+    summary: 'Dashboard links and log level',
+    tag: 'Admin',
+    auth: 'admin',
+    response: s.object({ settings: s.record(s.string().nullable()) }),
+  },
+  updateObservabilitySettings: {
+    method: 'PUT',
+    path: '/api/admin/observability-settings',
+    summary: 'Update dashboard links and log level',
+    tag: 'Admin',
+    auth: 'admin',
+    body: s
+      .object({
+        vercel_dashboard_url: optionalSetting(),
+        gcp_logs_url: optionalSetting(),
+        gcp_metrics_url: optionalSetting(),
+        sentry_dashboard_url: optionalSetting(),
+        log_level: optionalSetting(),
+      })
+      .refine((body) => Object.values(body).some((value) => value !== undefined), 'No valid settings provided'),
+    response: okResponse,
+  },
+  getPreviewProviders: {
+    method: 'GET',
+    path: '/api/admin/preview-providers',
+    summary: 'Preview provider order, status and success rates',
+    tag: 'Admin',
+    auth: 'admin',
+    query: s.object({ days: s.number().int().min(1).max(90).default(7) }),
+    response: previewProviderSettingsSchema,
+  },
+  updatePreviewProviders: {
+    method: 'PUT',
+    path: '/api/admin/preview-providers',
+    summary: 'Reorder or disable preview providers',
+    tag: 'Admin',
+    auth: 'admin',
+    body: s
+      .object({
+        order: s.array(s.enum(PREVIEW_PROVIDER_IDS)),
+        disabled: s.array(s.enum(PREVIEW_PROVIDER_IDS)),
+      })
+      .refine(
+        (body) => PREVIEW_PROVIDER_IDS.some((id) => !body.disabled.includes(id)),
+        'At least one provider must stay enabled',
+        'disabled'
+      ),
+    response: previewProviderSettingsSchema,
+  },
+  getRequestSummary: {
+    method: 'GET',
+    path: '/api/admin/request-summary',
+    summary: 'Pending admin and Spotify access requests',
+    tag: 'Admin',
+    auth: 'admin',
+    response: s.object({ pendingAdminRequests: s.number(), pendingSpotifyAccessRequests: s.number() }),
+  },
+  listAdminRequests: {
+    method: 'GET',
+    path: '/api/admin/requests',
+    summary: 'Admin access requests',
+    tag: 'Admin',
+    auth: 'superAdmin',
+    response: s.object({
+      requests: s.array(
+        s.object({
+          id: s.number(),
+          spotify_user_id: s.string(),
+          display_name: s.string().nullable(),
+          email: s.string().nullable(),
+          status: s.string(),
+          requested_at: isoDate(),
+        })
+      ),
+    }),
+  },
+  requestAdminAccess: {
+    method: 'POST',
+    path: '/api/admin/requests',
+    summary: 'Ask for admin access',
+    tag: 'Admin',
+    auth: 'session',
+    body: accessRequestBody,
+    response: s.object({ status: s.enum(['already_admin', 'pending', 'requested']) }),
+  },
+  resolveAdminRequest: {
+    method: 'PATCH',
+    path: '/api/admin/requests',
+    summary: 'Approve or deny an admin access request',
+    tag: 'Admin',
+    auth: 'superAdmin',
+    body: s.object({ requestId: s.number().int().positive(), action: s.enum(['approve', 'deny']) }),
+    response: okResponse,
+    errors: { 404: 'Request not found' },
+  },
+  previewSongBpm: {
+    method: 'POST',
+    path: '/api/admin/song-preview',
+    summary: 'Analyse a chosen preview URL and store it for the track',
+    tag: 'Admin',
+    auth: 'admin',
+    body: s.object({
+      spotifyTrackId: spotifyTrackId(),
+      previewUrl: s.string().trim().nonEmpty(),
+      source: s.string().nullable().optional(),
+      previewIsrc: s.string().nullable().optional(),
+      previewTitle: s.string().nullable().optional(),
+      previewArtist: s.string().nullable().optional(),
+    }),
+    response: s.object({ ok: s.literal(true), bpmResult: bpmResultSchema }),
+  },
+  searchSongPreviews: {
+    method: 'POST',
+    path: '/api/admin/song-search',
+    summary: 'Find Spotify matches and preview candidates for a song',
+    tag: 'Admin',
+    auth: 'admin',
+    body: s
+      .object({
+        isrc: s.string().trim().optional(),
+        title: s.string().trim().optional(),
+        artist: s.string().trim().optional(),
+        spotifyTrackId: s.string().trim().optional(),
+      })
+      .refine(
+        (body) => Boolean(body.isrc || body.title || body.artist || body.spotifyTrackId),
+        'Provide at least an ISRC, title, artist, or Spotify track ID'
+      ),
+    response: s.object({
+      spotifyTrack: songSearchTrackSchema.nullable(),
+      spotifyTracks: s.array(songSearchTrackSchema),
+      previewUrls: s.array(songSearchPreviewSchema),
+      query: s.object({ isrc: s.string().nullable(), title: s.string().nullable(), artist: s.string().nullable() }),
+    }),
+  },
+  listAdminUsers: {
+    method: 'GET',
+    path: '/api/admin/users',
+    summary: 'Admin accounts',
+    tag: 'Admin',
+    auth: 'superAdmin',
+    response: s.object({
+      admins: s.array(
+        s.object({
+          spotify_user_id: s.string(),
+          active: s.boolean(),
+          created_at: isoDate(),
+          is_super_admin: s.boolean(),
+          display_name: s.string().nullable(),
+          email: s.string().nullable(),
+        })
+      ),
+    }),
+  },
+  addAdminUser: {
+    method: 'POST',
+    path: '/api/admin/users',
+    summary: 'Grant admin access',
+    tag: 'Admin',
+    auth: 'superAdmin',
+    body: s.object({
+      spotifyUserId: s.string().trim().nonEmpty(),
+      displayName: s.string().trim().nullable().optional(),
+      email: s.string().trim().nullable().optional(),
+    }),
+    response: okResponse,
+  },
+  updateAdminUser: {
+    method: 'PATCH',
+    path: '/api/admin/users',
+    summary: 'Activate, deactivate or edit an admin',
+    tag: 'Admin',
+    auth: 'superAdmin',
+    body: s
+      .object({
+        spotifyUserId: s.string().trim().nonEmpty(),
+        action: s.enum(['activate', 'deactivate', 'update']),
+        displayName: s.string().trim().nullable().optional(),
+        email: s.string().trim().nullable().optional(),
+      })
+      .refine((body) => body.action !== 'update' || Boolean(body.displayName || body.email), 'No updates provided'),
+    response: okResponse,
+  },
+  removeAdminUser: {
+    method: 'DELETE',
+    path: '/api/admin/users',
+    summary: 'Remove an admin',
+    tag: 'Admin',
+    auth: 'superAdmin',
+    body: s.object({ spotifyUserId: s.string().trim().nonEmpty() }),
+    response: okResponse,
+  },
+  requestSpotifyAccess: {
+    method: 'POST',
+    path: '/api/spotify-access/requests',
+    summary: 'Ask to be added to the Spotify app allowlist',
+    tag: 'Admin',
+    auth: 'session',
+    body: accessRequestBody,
+    response: s.object({ status: s.enum(['pending', 'requested']) }),
+  },
+
+  // --------------------------------------------------------------------------
+  // System
+  // --------------------------------------------------------------------------
+  getCountry: {
+    method: 'GET',
+    path: '/api/country',
+    summary: "The visitor's country from edge headers",
+    tag: 'System',
+    auth: 'public',
+    response: s.object({ countryCode: s.string() }),
+  },
+  getServiceHealth: {
+    method: 'GET',
+    path: '/api/health/services',
+    summary: 'Status of Spotify, Muso and MusicBrainz',
+    tag: 'System',
+    auth: 'public',
+    response: s.object({ spotify: serviceHealthSchema, muso: serviceHealthSchema, musicbrainz: serviceHealthSchema }),
+  },
+  getOpenApiDocument: {
+    method: 'GET',
+    path: '/api/openapi',
+    summary: 'This OpenAPI document',
+    tag: 'System',
+    auth: 'public',
+    response: s.ref<OpenApiDocument>('OpenApiDocument', 'lib/openapi'),
+  },
+} as const satisfies Record<string, ApiContract>
+
+export type ApiContracts = typeof apiContracts
+export type ApiOperation = keyof ApiContracts
+
+// ============================================================================
+// Contract types
+// ============================================================================
+
+type SchemaOf<C, K extends 'params' | 'query' | 'body'> = C extends { [P in K]: infer S extends AnySchema } ? S : never
+
+export type ContractParams<C extends ApiContract> = Infer<SchemaOf<C, 'params'>>
+export type ContractQuery<C extends ApiContract> = Infer<SchemaOf<C, 'query'>>
+export type ContractBody<C extends ApiContract> = Infer<SchemaOf<C, 'body'>>
+export type ContractResponse<C extends ApiContract> = C['response'] extends AnySchema ? Infer<C['response']> : Response
+
+// What a caller passes: schema input types, so defaulted fields may be left out
+type InputPart<C, K extends 'params' | 'query' | 'body'> = [SchemaOf<C, K>] extends [never]
+  ? {}
+  : {} extends InferInput<SchemaOf<C, K>>
+    ? { [P in K]?: InferInput<SchemaOf<C, K>> }
+    : { [P in K]: InferInput<SchemaOf<C, K>> }
+
+export type ContractInput<C extends ApiContract> = InputPart<C, 'params'> & InputPart<C, 'query'> & InputPart<C, 'body'>
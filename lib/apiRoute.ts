@@ -0,0 +1,117 @@
+import { NextResponse } from 'next/server'
+import { formatSchemaIssues, type AnySchema, type SchemaIssue } from './apiSchema'
+import {
+  isRawResponse,
+  type ApiContract,
+  type ContractBody,
+  type ContractParams,
+  type ContractQuery,
+  type ContractResponse,
+} from './apiContracts'
+import { logWarning } from './logger'
+
+export type ParsedApiRequest<C extends ApiContract> =
+  | { ok: true; params: ContractParams<C>; query: ContractQuery<C>; body: ContractBody<C> }
+  | { ok: false; response: NextResponse; issues: SchemaIssue[] }
+
+// Dates serialise to ISO strings, so routes may hand rows straight to contractJson
+export type JsonEncodable<T> = T extends string
+  ? string | Date
+  : T extends Array<infer U>
+    ? Array<JsonEncodable<U>>
+    : T extends object
+      ? { [K in keyof T]: JsonEncodable<T[K]> }
+      : T
+
+const prefixIssues = (issues: SchemaIssue[], prefix: string) =>
+  issues.map((issue) => ({ ...issue, path: issue.path ? `${prefix}.${issue.path}` : prefix }))
+
+// Repeated keys become arrays; empty values count as missing
+function searchParamsToObject(searchParams: URLSearchParams): Record<string, string | string[]> {
+  const result: Record<string, string | string[]> = {}
+  searchParams.forEach((value, key) => {
+    if (value === '') return
+    const existing = result[key]
+    if (existing === undefined) result[key] = value
+    else result[key] = Array.isArray(existing) ? [...existing, value] : [existing, value]
+  })
+  return result
+}
+
+async function readJsonBody(request: Request): Promise<{ ok: true; value: unknown } | { ok: false }> {
+  const text = await request.text().catch(() => '')
+  if (!text.trim()) return { ok: true, value: {} }
+  try {
+    return { ok: true, value: JSON.parse(text) }
+  } catch {
+    return { ok: false }
+  }
+}
+
+export function invalidRequest(issues: SchemaIssue[]) {
+  return NextResponse.json({ error: formatSchemaIssues(issues), issues }, { status: 400 })
+}
+
+/**
+ * Validate route params, query string and JSON body against a contract.
+ * On failure the caller returns `response`, a uniform 400 listing every issue.
+ */
+export async function parseApiRequest<C extends ApiContract>(
+  contract: C,
+  request: Request,
+  context?: { params?: Record<string, string> }
+): Promise<ParsedApiRequest<C>> {
+  const issues: SchemaIssue[] = []
+  const parsePart = (schema: AnySchema | undefined, value: unknown, prefix: string, coerce: boolean) => {
+    if (!schema) return undefined
+    const result = schema.safeParse(value, { coerce })
+    if (result.ok) return result.data
+    issues.push(...prefixIssues(result.issues, prefix))
+    return undefined
+  }
+
+  const params = parsePart(contract.params, context?.params ?? {}, 'params', true)
+  const query = parsePart(contract.query, searchParamsToObject(new URL(request.url).searchParams), 'query', true)
+  let body: unknown
+  if (contract.body) {
+    const json = await readJsonBody(request)
+    if (json.ok) body = parsePart(contract.body, json.value, 'body', false)
+    else issues.push({ path: 'body', message: 'Invalid JSON' })
+  }
+
+  if (issues.length > 0) {
+    return { ok: false, response: invalidRequest(issues), issues }
+  }
+  return {
+    ok: true,
+    params: params as ContractParams<C>,
+    query: query as ContractQuery<C>,
+    body: body as ContractBody<C>,
+  }
+}
+
+/**
+ * NextResponse.json typed by the contract. Outside production the body is
+ * checked against the response schema and drift is logged, never thrown.
+ */
+export function contractJson<C extends ApiContract>(
+  contract: C,
+  body: JsonEncodable<ContractResponse<C>>,
+  init?: ResponseInit
+): NextResponse {
+  if (process.env.NODE_ENV !== 'production' && !isRawResponse(contract.response)) {
+    // Round-trip first so Dates compare as the strings the client receives; coerce
+    // because the database driver returns NUMERIC columns as strings
+    const encoded = JSON.parse(JSON.stringify(body ?? null))
+    const result = contract.response.safeParse(encoded, { coerce: true })
+    if (!result.ok) {
+      logWarning('Response does not match its contract', {
+        component: 'apiRoute.contractJson',
+        method: contract.method,
+        path: contract.path,
+        issues: formatSchemaIssues(result.issues.slice(0, 5)),
+      })
+    }
+  }
+  return NextResponse.json(body, { status: contract.status, ...init })
+}
@@ -0,0 +1,707 @@
+/**
+ * Small schema builder for the API contracts in lib/apiContracts.ts.
+ * A schema validates unknown input, infers its TypeScript type and describes
+ * itself as JSON Schema for the OpenAPI document. Imported by client
+ * components.
+ */
+
+export interface SchemaIssue {
+  path: string
+  message: string
+}
+
+export type SchemaParseResult<T> = { ok: true; data: T } | { ok: false; issues: SchemaIssue[] }
+
+export interface SchemaParseOptions {
+  // Query strings and route params arrive as strings: accept '12' for numbers, 'true' for booleans
+  coerce?: boolean
+}
+
+export type JsonSchema = Record<string, unknown>
+export type SchemaComponents = Record<string, JsonSchema>
+
+interface ParseContext {
+  issues: SchemaIssue[]
+  coerce: boolean
+}
+
+interface SchemaMeta {
+  description?: string
+  example?: unknown
+  name?: string
+}
+
+export const INVALID: unique symbol = Symbol('invalid')
+type Invalid = typeof INVALID
+
+const joinPath = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key
+
+const describeType = (value: unknown): string => {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number' && Number.isNaN(value)) return 'NaN'
+  return typeof value
+}
+
+const COMPONENT_REF_PREFIX = '#/components/schemas/'
+
+export abstract class Schema<Output, Input = Output> {
+  // Phantom fields carrying the inferred types; never set at runtime
+  declare readonly _output: Output
+  declare readonly _input: Input
+
+  protected meta: SchemaMeta = {}
+
+  abstract _parse(value: unknown, path: string, ctx: ParseContext): Output | Invalid
+
+  protected abstract buildJsonSchema(components: SchemaComponents | undefined): JsonSchema
+
+  // True when an object field with this schema may be left out
+  get acceptsMissing(): boolean {
+    return false
+  }
+
+  get description(): string | undefined {
+    return this.meta.description
+  }
+
+  protected clone(): this {
+    const copy = Object.create(Object.getPrototypeOf(this)) as this
+    Object.assign(copy, this)
+    copy.meta = { ...this.meta }
+    return copy
+  }
+
+  protected withMeta(meta: SchemaMeta): this {
+    const copy = this.clone()
+    Object.assign(copy.meta, meta)
+    return copy
+  }
+
+  protected issue(ctx: ParseContext, path: string, message: string): Invalid {
+    ctx.issues.push({ path, message })
+    return INVALID
+  }
+
+  describe(description: string): this {
+    return this.withMeta({ description })
+  }
+
+  example(example: Input): this {
+    return this.withMeta({ example })
+  }
+
+  // Emitted once under components.schemas and referenced by name everywhere it is used
+  named(name: string): this {
+    return this.withMeta({ name })
+  }
+
+  optional(): OptionalSchema<Schema<Output, Input>> {
+    return new OptionalSchema(this)
+  }
+
+  nullable(): NullableSchema<Schema<Output, Input>> {
+    return new NullableSchema(this)
+  }
+
+  default(value: Output): DefaultSchema<Schema<Output, Input>> {
+    return new DefaultSchema(this, value)
+  }
+
+  // Cross-field rules; the issue is reported at `path` (relative to this schema) when the check fails
+  refine(check: (value: Output) => boolean, message: string, path?: string): RefinedSchema<Schema<Output, Input>> {
+    return new RefinedSchema<Schema<Output, Input>>(this, check, message, path)
+  }
+
+  getExample(): unknown {
+    return this.meta.example
+  }
+
+  safeParse(value: unknown, options: SchemaParseOptions = {}): SchemaParseResult<Output> {
+    const ctx: ParseContext = { issues: [], coerce: Boolean(options.coerce) }
+    const data = this._parse(value, '', ctx)
+    if (data === INVALID || ctx.issues.length > 0) {
+      return { ok: false, issues: ctx.issues.length > 0 ? ctx.issues : [{ path: '', message: 'Invalid value' }] }
+    }
+    return { ok: true, data }
+  }
+
+  toJsonSchema(components?: SchemaComponents): JsonSchema {
+    const { name } = this.meta
+    if (name && components) {
+      if (!components[name]) {
+        // Reserve the slot first so recursive references terminate
+        components[name] = {}
+        components[name] = this.annotate(this.buildJsonSchema(components))
+      }
+      return { $ref: `${COMPONENT_REF_PREFIX}${name}` }
+    }
+    return this.annotate(this.buildJsonSchema(components))
+  }
+
+  private annotate(schema: JsonSchema): JsonSchema {
+    const annotated = { ...schema }
+    if (this.meta.description) annotated.description = this.meta.description
+    if (this.meta.example !== undefined) annotated.example = this.meta.example
+    return annotated
+  }
+}
+
+export type AnySchema = Schema<any, any>
+export type Infer<S extends AnySchema> = S['_output']
+export type InferInput<S extends AnySchema> = S['_input']
+
+// ============================================================================
+// Wrappers
+// ============================================================================
+
+export class OptionalSchema<S extends AnySchema> extends Schema<Infer<S> | undefined, InferInput<S> | undefined> {
+  constructor(readonly inner: S) {
+    super()
+  }
+
+  get acceptsMissing() {
+    return true
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext) {
+    return value === undefined ? undefined : this.inner._parse(value, path, ctx)
+  }
+
+  protected buildJsonSchema(components?: SchemaComponents) {
+    return this.inner.toJsonSchema(components)
+  }
+
+  getExample() {
+    return super.getExample() ?? this.inner.getExample()
+  }
+}
+
+export class NullableSchema<S extends AnySchema> extends Schema<Infer<S> | null, InferInput<S> | null> {
+  constructor(readonly inner: S) {
+    super()
+  }
+
+  get acceptsMissing() {
+    return this.inner.acceptsMissing
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext) {
+    return value === null ? null : this.inner._parse(value, path, ctx)
+  }
+
+  protected buildJsonSchema(components?: SchemaComponents) {
+    return { anyOf: [this.inner.toJsonSchema(components), { type: 'null' }] }
+  }
+
+  getExample() {
+    return super.getExample() ?? this.inner.getExample()
+  }
+}
+
+export class DefaultSchema<S extends AnySchema> extends Schema<Infer<S>, InferInput<S> | undefined> {
+  constructor(readonly inner: S, readonly defaultValue: Infer<S>) {
+    super()
+  }
+
+  get acceptsMissing() {
+    return true
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext) {
+    return value === undefined ? this.defaultValue : this.inner._parse(value, path, ctx)
+  }
+
+  protected buildJsonSchema(components?: SchemaComponents) {
+    return { ...this.inner.toJsonSchema(components), default: this.defaultValue }
+  }
+
+  getExample() {
+    return super.getExample() ?? this.inner.getExample()
+  }
+}
+
+export class RefinedSchema<S extends AnySchema> extends Schema<Infer<S>, InferInput<S>> {
+  constructor(
+    readonly inner: S,
+    private readonly check: (value: Infer<S>) => boolean,
+    private readonly message: string,
+    private readonly issuePath?: string
+  ) {
+    super()
+  }
+
+  get acceptsMissing() {
+    return this.inner.acceptsMissing
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext) {
+    const parsed = this.inner._parse(value, path, ctx)
+    if (parsed === INVALID) return INVALID
+    if (!this.check(parsed)) {
+      return this.issue(ctx, this.issuePath ? joinPath(path, this.issuePath) : path, this.message)
+    }
+    return parsed
+  }
+
+  protected buildJsonSchema(components?: SchemaComponents) {
+    return this.inner.toJsonSchema(components)
+  }
+
+  getExample() {
+    return super.getExample() ?? this.inner.getExample()
+  }
+}
+
+// ============================================================================
+// Primitives
+// ============================================================================
+
+interface StringChecks {
+  min?: number
+  max?: number
+  pattern?: RegExp
+  trim?: boolean
+  format?: string
+}
+
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/
+
+export class StringSchema extends Schema<string> {
+  private checks: StringChecks = {}
+
+  private withChecks(checks: StringChecks): this {
+    const copy = this.clone()
+    copy.checks = { ...this.checks, ...checks }
+    return copy
+  }
+
+  min(length: number) {
+    return this.withChecks({ min: length })
+  }
+
+  max(length: number) {
+    return this.withChecks({ max: length })
+  }
+
+  // Shorthand for "present and not blank"
+  nonEmpty() {
+    return this.withChecks({ trim: true, min: this.checks.min ?? 1 })
+  }
+
+  pattern(pattern: RegExp) {
+    return this.withChecks({ pattern })
+  }
+
+  trim() {
+    return this.withChecks({ trim: true })
+  }
+
+  datetime() {
+    return this.withChecks({ pattern: ISO_DATETIME, format: 'date-time' })
+  }
+
+  url() {
+    return this.withChecks({ format: 'uri' })
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext) {
+    if (value === undefined) return this.issue(ctx, path, 'Required')
+    if (typeof value !== 'string') {
+      return this.issue(ctx, path, `Expected string, received ${describeType(value)}`)
+    }
+    const { min, max, pattern, trim, format } = this.checks
+    const text = trim ? value.trim() : value
+    if (min !== undefined && text.length < min) {
+      return this.issue(ctx, path, min === 1 ? 'Must not be empty' : `Must be at least ${min} characters`)
+    }
+    if (max !== undefined && text.length > max) return this.issue(ctx, path, `Must be at most ${max} characters`)
+    if (pattern && !pattern.test(text)) {
+      return this.issue(ctx, path, format === 'date-time' ? 'Expected an ISO 8601 timestamp' : 'Invalid format')
+    }
+    if (format === 'uri') {
+      try {
+        new URL(text)
+      } catch {
+        return this.issue(ctx, path, 'Expected an absolute URL')
+      }
+    }
+    return text
+  }
+
+  protected buildJsonSchema() {
+    const { min, max, pattern, format } = this.checks
+    return {
+      type: 'string',
+      ...(min !== undefined ? { minLength: min } : {}),
+      ...(max !== undefined ? { maxLength: max } : {}),
+      ...(pattern && !format ? { pattern: pattern.source } : {}),
+      ...(format ? { format } : {}),
+    }
+  }
+}
+
+interface NumberChecks {
+  int?: boolean
+  min?: number
+  max?: number
+  gt?: number
+  lt?: number
+}
+
+export class NumberSchema extends Schema<number> {
+  private checks: NumberChecks = {}
+
+  private withChecks(checks: NumberChecks): this {
+    const copy = this.clone()
+    copy.checks = { ...this.checks, ...checks }
+    return copy
+  }
+
+  int() {
+    return this.withChecks({ int: true })
+  }
+
+  min(value: number) {
+    return this.withChecks({ min: value })
+  }
+
+  max(value: number) {
+    return this.withChecks({ max: value })
+  }
+
+  gt(value: number) {
+    return this.withChecks({ gt: value })
+  }
+
+  lt(value: number) {
+    return this.withChecks({ lt: value })
+  }
+
+  positive() {
+    return this.withChecks({ gt: 0 })
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext) {
+    if (value === undefined) return this.issue(ctx, path, 'Required')
+    let number = value
+    if (ctx.coerce && typeof value === 'string' && value.trim() !== '') {
+      number = Number(value)
+    }
+    if (typeof number !== 'number' || !Number.isFinite(number)) {
+      return this.issue(ctx, path, `Expected number, received ${describeType(value)}`)
+    }
+    const { int, min, max, gt, lt } = this.checks
+    if (int && !Number.isInteger(number)) return this.issue(ctx, path, 'Expected an integer')
+    if (min !== undefined && number < min) return this.issue(ctx, path, `Must be at least ${min}`)
+    if (max !== undefined && number > max) return this.issue(ctx, path, `Must be at most ${max}`)
+    if (gt !== undefined && number <= gt) return this.issue(ctx, path, `Must be greater than ${gt}`)
+    if (lt !== undefined && number >= lt) return this.issue(ctx, path, `Must be less than ${lt}`)
+    return number
+  }
+
+  protected buildJsonSchema() {
+    const { int, min, max, gt, lt } = this.checks
+    return {
+      type: int ? 'integer' : 'number',
+      ...(min !== undefined ? { minimum: min } : {}),
+      ...(max !== undefined ? { maximum: max } : {}),
+      ...(gt !== undefined ? { exclusiveMinimum: gt } : {}),
+      ...(lt !== undefined ? { exclusiveMaximum: lt } : {}),
+    }
+  }
+}
+
+const TRUE_STRINGS = new Set(['true', '1'])
+const FALSE_STRINGS = new Set(['false', '0'])
+
+export class BooleanSchema extends Schema<boolean> {
+  _parse(value: unknown, path: string, ctx: ParseContext) {
+    if (value === undefined) return this.issue(ctx, path, 'Required')
+    if (typeof value === 'boolean') return value
+    if (ctx.coerce && typeof value === 'string') {
+      const normalized = value.toLowerCase()
+      if (TRUE_STRINGS.has(normalized)) return true
+      if (FALSE_STRINGS.has(normalized)) return false
+    }
+    return this.issue(ctx, path, `Expected boolean, received ${describeType(value)}`)
+  }
+
+  protected buildJsonSchema() {
+    return { type: 'boolean' }
+  }
+}
+
+export class EnumSchema<const Values extends readonly string[]> extends Schema<Values[number]> {
+  constructor(readonly values: Values) {
+    super()
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext) {
+    if (value === undefined) return this.issue(ctx, path, 'Required')
+    if (typeof value !== 'string' || !this.values.includes(value)) {
+      return this.issue(ctx, path, `Must be one of: ${this.values.join(', ')}`)
+    }
+    return value as Values[number]
+  }
+
+  protected buildJsonSchema() {
+    return { type: 'string', enum: [...this.values] }
+  }
+}
+
+type Literal = string | number | boolean
+
+export class LiteralSchema<const Value extends Literal> extends Schema<Value> {
+  constructor(readonly value: Value) {
+    super()
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext) {
+    if (value === undefined) return this.issue(ctx, path, 'Required')
+    if (value !== this.value) return this.issue(ctx, path, `Expected ${JSON.stringify(this.value)}`)
+    return this.value
+  }
+
+  protected buildJsonSchema() {
+    return { const: this.value }
+  }
+}
+
+export class UnknownSchema extends Schema<unknown> {
+  get acceptsMissing() {
+    return true
+  }
+
+  _parse(value: unknown) {
+    return value
+  }
+
+  protected buildJsonSchema() {
+    return {}
+  }
+}
+
+/**
+ * A shape owned by a lib module (e.g. BpmJobProgress in lib/bpmJobs) that the
+ * contract passes through without re-describing it field by field. Only
+ * checks that the value is a JSON object or array.
+ */
+export class RefSchema<T> extends Schema<T> {
+  constructor(readonly source: string, private readonly kind: 'object' | 'array') {
+    super()
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext) {
+    if (value === undefined) return this.issue(ctx, path, 'Required')
+    const matches = this.kind === 'array' ? Array.isArray(value) : typeof value === 'object' && value !== null && !Array.isArray(value)
+    if (!matches) return this.issue(ctx, path, `Expected ${this.kind}, received ${describeType(value)}`)
+    return value as T
+  }
+
+  protected buildJsonSchema() {
+    return { type: this.kind, 'x-source': this.source }
+  }
+}
+
+// ============================================================================
+// Composites
+// ============================================================================
+
+export class ArraySchema<S extends AnySchema> extends Schema<Infer<S>[], InferInput<S>[]> {
+  private minItems?: number
+  private maxItems?: number
+
+  constructor(readonly element: S) {
+    super()
+  }
+
+  min(count: number): this {
+    const copy = this.clone()
+    copy.minItems = count
+    return copy
+  }
+
+  max(count: number): this {
+    const copy = this.clone()
+    copy.maxItems = count
+    return copy
+  }
+
+  nonEmpty(): this {
+    return this.min(1)
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext) {
+    if (value === undefined) return this.issue(ctx, path, 'Required')
+    // A repeated query key arrives as an array, a single one as a plain string
+    const items = ctx.coerce && !Array.isArray(value) ? [value] : value
+    if (!Array.isArray(items)) return this.issue(ctx, path, `Expected array, received ${describeType(value)}`)
+    if (this.minItems !== undefined && items.length < this.minItems) {
+      return this.issue(ctx, path, this.minItems === 1 ? 'Must not be empty' : `Must contain at least ${this.minItems} items`)
+    }
+    if (this.maxItems !== undefined && items.length > this.maxItems) {
+      return this.issue(ctx, path, `Must contain at most ${this.maxItems} items`)
+    }
+    const result: Infer<S>[] = []
+    let valid = true
+    items.forEach((item, index) => {
+      const parsed = this.element._parse(item, joinPath(path, index), ctx)
+      if (parsed === INVALID) valid = false
+      else result.push(parsed)
+    })
+    return valid ? result : INVALID
+  }
+
+  protected buildJsonSchema(components?: SchemaComponents) {
+    return {
+      type: 'array',
+      items: this.element.toJsonSchema(components),
+      ...(this.minItems !== undefined ? { minItems: this.minItems } : {}),
+      ...(this.maxItems !== undefined ? { maxItems: this.maxItems } : {}),
+    }
+  }
+}
+
+type Shape = Record<string, AnySchema>
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+type OptionalKeys<T> = { [K in keyof T]-?: undefined extends T[K] ? K : never }[keyof T]
+type WithOptionalKeys<T> = Simplify<
+  { [K in Exclude<keyof T, OptionalKeys<T>>]: T[K] } & { [K in OptionalKeys<T>]?: T[K] }
+>
+export type ObjectOutput<S extends Shape> = WithOptionalKeys<{ [K in keyof S]: Infer<S[K]> }>
+export type ObjectInput<S extends Shape> = WithOptionalKeys<{ [K in keyof S]: InferInput<S[K]> }>
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export class ObjectSchema<S extends Shape> extends Schema<ObjectOutput<S>, ObjectInput<S>> {
+  private keepUnknown = false
+
+  constructor(readonly shape: S) {
+    super()
+  }
+
+  // Unknown keys are dropped by default; keep them instead
+  passthrough(): this {
+    const copy = this.clone()
+    copy.keepUnknown = true
+    return copy
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext) {
+    if (value === undefined) return this.issue(ctx, path, 'Required')
+    if (!isPlainObject(value)) return this.issue(ctx, path, `Expected object, received ${describeType(value)}`)
+    const result: Record<string, unknown> = this.keepUnknown ? { ...value } : {}
+    let valid = true
+    for (const [key, field] of Object.entries(this.shape)) {
+      const parsed = field._parse(value[key], joinPath(path, key), ctx)
+      if (parsed === INVALID) valid = false
+      else if (parsed !== undefined) result[key] = parsed
+      else delete result[key]
+    }
+    return valid ? (result as ObjectOutput<S>) : INVALID
+  }
+
+  protected buildJsonSchema(components?: SchemaComponents) {
+    const properties: Record<string, JsonSchema> = {}
+    const required: string[] = []
+    for (const [key, field] of Object.entries(this.shape)) {
+      properties[key] = field.toJsonSchema(components)
+      if (!field.acceptsMissing) required.push(key)
+    }
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+    }
+  }
+
+  getExample() {
+    const own = super.getExample()
+    if (own !== undefined) return own
+    const example: Record<string, unknown> = {}
+    for (const [key, field] of Object.entries(this.shape)) {
+      const value = field.getExample()
+      if (value !== undefined) example[key] = value
+    }
+    return Object.keys(example).length > 0 ? example : undefined
+  }
+}
+
+export class RecordSchema<S extends AnySchema> extends Schema<Record<string, Infer<S>>, Record<string, InferInput<S>>> {
+  constructor(readonly valueSchema: S) {
+    super()
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext) {
+    if (value === undefined) return this.issue(ctx, path, 'Required')
+    if (!isPlainObject(value)) return this.issue(ctx, path, `Expected object, received ${describeType(value)}`)
+    const result: Record<string, Infer<S>> = {}
+    let valid = true
+    for (const [key, entry] of Object.entries(value)) {
+      const parsed = this.valueSchema._parse(entry, joinPath(path, key), ctx)
+      if (parsed === INVALID) valid = false
+      else result[key] = parsed
+    }
+    return valid ? result : INVALID
+  }
+
+  protected buildJsonSchema(components?: SchemaComponents) {
+    return { type: 'object', additionalProperties: this.valueSchema.toJsonSchema(components) }
+  }
+}
+
+export class UnionSchema<const Options extends readonly AnySchema[]> extends Schema<
+  Infer<Options[number]>,
+  InferInput<Options[number]>
+> {
+  constructor(readonly options: Options) {
+    super()
+  }
+
+  get acceptsMissing() {
+    return this.options.some((option) => option.acceptsMissing)
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext) {
+    let closest: SchemaIssue[] | null = null
+    for (const option of this.options) {
+      const attempt: ParseContext = { issues: [], coerce: ctx.coerce }
+      const parsed = option._parse(value, path, attempt)
+      if (parsed !== INVALID && attempt.issues.length === 0) return parsed
+      if (!closest || attempt.issues.length < closest.length) closest = attempt.issues
+    }
+    // Report the option that came closest rather than every option's failures
+    ctx.issues.push(...(closest ?? [{ path, message: 'Invalid value' }]))
+    return INVALID
+  }
+
+  protected buildJsonSchema(components?: SchemaComponents) {
+    return { anyOf: this.options.map((option) => option.toJsonSchema(components)) }
+  }
+}
+
+// ============================================================================
+// Builder
+// ============================================================================
+
+export const s = {
+  string: () => new StringSchema(),
+  number: () => new NumberSchema(),
+  boolean: () => new BooleanSchema(),
+  enum: <const Values extends readonly string[]>(values: Values) => new EnumSchema(values),
+  literal: <const Value extends Literal>(value: Value) => new LiteralSchema(value),
+  array: <S extends AnySchema>(element: S) => new ArraySchema(element),
+  object: <S extends Shape>(shape: S) => new ObjectSchema(shape),
+  record: <S extends AnySchema>(value: S) => new RecordSchema(value),
+  union: <const Options extends readonly AnySchema[]>(options: Options) => new UnionSchema(options),
+  unknown: () => new UnknownSchema(),
+  ref: <T>(name: string, source: string, kind: 'object' | 'array' = 'object') =>
+    new RefSchema<T>(source, kind).named(name),
+}
+
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('; ')
+}
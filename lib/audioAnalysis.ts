@@ -0,0 +1,634 @@
+/**
+ * In-process tempo, key and audio-feature estimation for preview clips (used by the local
+ * BPM analyzer, and for audio features on the Cloud Run path).
+ *
+ * Every input is decoded to mono PCM first: WAV directly, MP3 with mpg123 and AAC/M4A with
+ * FAAD2 (both WebAssembly builds). Tempo then comes from spectral-flux onsets, key from a
+ * chroma profile and loudness from BS.1770 K-weighted, gated blocks.
+ */
+
+import decodeMp3 from '@audio/decode-mp3'
+import decodeAac from '@audio/decode-aac'
+
+export type AudioFormat = 'mp3' | 'aac' | 'wav'
+
+export interface AudioAnalysisResult {
+  format: AudioFormat
+  sampleRate: number
+  durationSeconds: number
+  bpm: number | null
+  bpmRaw: number | null
+  bpmConfidence: number | null
+  key: string | null
+  scale: 'major' | 'minor' | null
+  keyConfidence: number | null
+  loudnessLufs: number | null // integrated loudness (BS.1770, mono downmix)
+  energy: number | null // 0-1, from loudness, onset density and brightness
+  danceability: number | null // 0-1, from pulse clarity and tempo
+  onsetDensity: number | null // onsets per second
+  introSeconds: number | null // time before the clip reaches its main level
+  outroSeconds: number | null // time after the clip last holds its main level
+}
+
+// Octave-folding range for reported BPM; the raw autocorrelation tempo is kept as bpmRaw
+const MIN_BPM = 70
+const MAX_BPM = 180
+// Tempo search range for the autocorrelation
+const SEARCH_MIN_BPM = 50
+const SEARCH_MAX_BPM = 220
+// Log-normal tempo prior (centre and octave width), as in common beat trackers
+const PRIOR_CENTER_BPM = 120
+const PRIOR_OCTAVES = 1
+
+const STFT_SIZE = 2048
+const STFT_HOP = 512
+const CHROMA_MIN_HZ = 55
+const CHROMA_MAX_HZ = 2000
+
+// BS.1770 gating: 400 ms blocks every 100 ms, absolute and relative gates
+const LOUDNESS_SEGMENT_SECONDS = 0.1
+const LOUDNESS_BLOCK_SEGMENTS = 4
+const ABSOLUTE_GATE_LUFS = -70
+const RELATIVE_GATE_LU = 10
+// Intro/outro end where the level comes within this many dB of the clip's 75th percentile
+const SECTION_LEVEL_DROP_DB = 6
+// Onset peaks must clear this many deviations of the envelope's local novelty
+const ONSET_THRESHOLD_DEVIATIONS = 1.5
+// Feature scaling: loudness range mapped onto 0-1 energy, onset rate read as "busy"
+const ENERGY_QUIET_LUFS = -30
+const ENERGY_LOUD_LUFS = -5
+const BUSY_ONSETS_PER_SECOND = 8
+const BRIGHT_CENTROID_HZ = 4000
+// Danceability: tempo centre and the tempo confidence read as a fully clear pulse
+const DANCE_TEMPO_CENTER_BPM = 120
+const CLEAR_PULSE_CONFIDENCE = 0.2
+
+const PITCH_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+// Krumhansl–Kessler key profiles
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88]
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17]
+
+export function detectAudioFormat(bytes: Uint8Array): AudioFormat | null {
+  if (
+    bytes.length >= 12 &&
+    String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3]) === 'RIFF' &&
+    String.fromCharCode(bytes[8], bytes[9], bytes[10], bytes[11]) === 'WAVE'
+  ) {
+    return 'wav'
+  }
+  if (bytes.length >= 3 && String.fromCharCode(bytes[0], bytes[1], bytes[2]) === 'ID3') {
+    return 'mp3'
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xff && (bytes[1] & 0xe6) === 0xe2) {
+    return 'mp3'
+  }
+  // M4A/MP4 container (iTunes previews) or a raw ADTS stream
+  if (bytes.length >= 8 && String.fromCharCode(bytes[4], bytes[5], bytes[6], bytes[7]) === 'ftyp') {
+    return 'aac'
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xff && (bytes[1] & 0xf6) === 0xf0) {
+    return 'aac'
+  }
+  return null
+}
+
+/**
+ * Estimate tempo, key and audio features from an encoded preview clip
+ */
+export async function analyzeAudio(bytes: Uint8Array): Promise<AudioAnalysisResult> {
+  const format = detectAudioFormat(bytes)
+  if (!format) {
+    throw new Error('Unsupported audio format (expected MP3, AAC/M4A or WAV)')
+  }
+  const { samples, sampleRate } = await decodeAudio(bytes, format)
+  return analyzePcm(samples, sampleRate, format)
+}
+
+/**
+ * Decode a clip to mono samples in [-1, 1]
+ */
+export async function decodeAudio(
+  bytes: Uint8Array,
+  format: AudioFormat
+): Promise<{ samples: Float32Array; sampleRate: number }> {
+  if (format === 'wav') {
+    return decodeWav(bytes)
+  }
+  const decoded = format === 'mp3' ? await decodeMp3(bytes) : await decodeAac(bytes)
+  const channels = decoded.channelData.filter((channel) => channel.length > 0)
+  if (channels.length === 0 || !decoded.sampleRate) {
+    throw new Error(`Could not decode any ${format.toUpperCase()} audio`)
+  }
+  const length = Math.min(...channels.map((channel) => channel.length))
+  const samples = new Float32Array(length)
+  for (const channel of channels) {
+    for (let i = 0; i < length; i += 1) samples[i] += channel[i] / channels.length
+  }
+  return { samples, sampleRate: decoded.sampleRate }
+}
+
+// ---------------------------------------------------------------------------
+// WAV decoding
+// ---------------------------------------------------------------------------
+
+/**
+ * Decode a PCM/float WAV file into mono samples in [-1, 1]
+ */
+export function decodeWav(bytes: Uint8Array): { samples: Float32Array; sampleRate: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = 12
+  let formatTag = 0
+  let channels = 0
+  let sampleRate = 0
+  let bitsPerSample = 0
+  let dataOffset = -1
+  let dataLength = 0
+
+  while (offset + 8 <= bytes.length) {
+    const chunkId = String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3])
+    const chunkSize = view.getUint32(offset + 4, true)
+    const body = offset + 8
+    if (chunkId === 'fmt ') {
+      formatTag = view.getUint16(body, true)
+      channels = view.getUint16(body + 2, true)
+      sampleRate = view.getUint32(body + 4, true)
+      bitsPerSample = view.getUint16(body + 14, true)
+      if (formatTag === 0xfffe && chunkSize >= 26) {
+        // WAVE_FORMAT_EXTENSIBLE: the real format is the first field of the sub-format GUID
+        formatTag = view.getUint16(body + 24, true)
+      }
+    } else if (chunkId === 'data') {
+      dataOffset = body
+      dataLength = Math.min(chunkSize, bytes.length - body)
+      break
+    }
+    offset = body + chunkSize + (chunkSize % 2)
+  }
+
+  if (dataOffset < 0 || channels === 0 || sampleRate === 0) {
+    throw new Error('Invalid WAV file: missing fmt or data chunk')
+  }
+  const isFloat = formatTag === 3
+  if (!(formatTag === 1 || isFloat) || ![8, 16, 24, 32].includes(bitsPerSample) || (isFloat && bitsPerSample !== 32)) {
+    throw new Error(`Unsupported WAV encoding (format ${formatTag}, ${bitsPerSample}-bit)`)
+  }
+
+  const bytesPerSample = bitsPerSample / 8
+  const frameCount = Math.floor(dataLength / (bytesPerSample * channels))
+  const samples = new Float32Array(frameCount)
+  for (let frame = 0; frame < frameCount; frame += 1) {
+    let sum = 0
+    for (let channel = 0; channel < channels; channel += 1) {
+      const position = dataOffset + (frame * channels + channel) * bytesPerSample
+      if (isFloat) {
+        sum += view.getFloat32(position, true)
+      } else if (bitsPerSample === 8) {
+        sum += (bytes[position] - 128) / 128
+      } else if (bitsPerSample === 16) {
+        sum += view.getInt16(position, true) / 32768
+      } else if (bitsPerSample === 24) {
+        const value = bytes[position] | (bytes[position + 1] << 8) | (bytes[position + 2] << 16)
+        sum += ((value << 8) >> 8) / 8388608
+      } else {
+        sum += view.getInt32(position, true) / 2147483648
+      }
+    }
+    samples[frame] = sum / channels
+  }
+  return { samples, sampleRate }
+}
+
+// ---------------------------------------------------------------------------
+// PCM analysis
+// ---------------------------------------------------------------------------
+
+function fftInPlace(real: Float32Array, imag: Float32Array): void {
+  const size = real.length
+  for (let i = 1, j = 0; i < size; i += 1) {
+    let bit = size >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      ;[real[i], real[j]] = [real[j], real[i]]
+      ;[imag[i], imag[j]] = [imag[j], imag[i]]
+    }
+  }
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length
+    const stepReal = Math.cos(angle)
+    const stepImag = Math.sin(angle)
+    for (let start = 0; start < size; start += length) {
+      let twiddleReal = 1
+      let twiddleImag = 0
+      for (let k = 0; k < length / 2; k += 1) {
+        const a = start + k
+        const b = a + length / 2
+        const productReal = real[b] * twiddleReal - imag[b] * twiddleImag
+        const productImag = real[b] * twiddleImag + imag[b] * twiddleReal
+        real[b] = real[a] - productReal
+        imag[b] = imag[a] - productImag
+        real[a] += productReal
+        imag[a] += productImag
+        const nextReal = twiddleReal * stepReal - twiddleImag * stepImag
+        twiddleImag = twiddleReal * stepImag + twiddleImag * stepReal
+        twiddleReal = nextReal
+      }
+    }
+  }
+}
+
+/**
+ * Tempo from spectral-flux onsets and key from an accumulated chroma vector
+ */
+export function analyzePcm(samples: Float32Array, sampleRate: number, format: AudioFormat = 'wav'): AudioAnalysisResult {
+  const frameCount = Math.floor((samples.length - STFT_SIZE) / STFT_HOP) + 1
+  if (frameCount < 64) {
+    throw new Error('Audio clip is too short to analyse')
+  }
+
+  const window = new Float32Array(STFT_SIZE)
+  for (let i = 0; i < STFT_SIZE; i += 1) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / STFT_SIZE)
+  }
+  const binCount = STFT_SIZE / 2
+  const binPitchClass = new Int8Array(binCount).fill(-1)
+  for (let bin = 1; bin < binCount; bin += 1) {
+    const frequency = (bin * sampleRate) / STFT_SIZE
+    if (frequency >= CHROMA_MIN_HZ && frequency <= CHROMA_MAX_HZ) {
+      const midi = 69 + 12 * Math.log2(frequency / 440)
+      binPitchClass[bin] = ((Math.round(midi) % 12) + 12) % 12
+    }
+  }
+
+  const real = new Float32Array(STFT_SIZE)
+  const imag = new Float32Array(STFT_SIZE)
+  let previous = new Float32Array(binCount)
+  let current = new Float32Array(binCount)
+  const envelope = new Float32Array(frameCount)
+  const chroma = new Float64Array(12)
+  let centroidWeighted = 0
+  let centroidTotal = 0
+
+  for (let frame = 0; frame < frameCount; frame += 1) {
+    const start = frame * STFT_HOP
+    for (let i = 0; i < STFT_SIZE; i += 1) {
+      real[i] = samples[start + i] * window[i]
+      imag[i] = 0
+    }
+    fftInPlace(real, imag)
+    let flux = 0
+    for (let bin = 0; bin < binCount; bin += 1) {
+      const magnitude = Math.sqrt(real[bin] * real[bin] + imag[bin] * imag[bin])
+      current[bin] = Math.log1p(100 * magnitude)
+      if (frame > 0) flux += Math.max(0, current[bin] - previous[bin])
+      const pitchClass = binPitchClass[bin]
+      if (pitchClass >= 0) chroma[pitchClass] += magnitude
+      centroidWeighted += ((bin * sampleRate) / STFT_SIZE) * magnitude
+      centroidTotal += magnitude
+    }
+    envelope[frame] = flux
+    ;[previous, current] = [current, previous]
+  }
+
+  const frameRate = sampleRate / STFT_HOP
+  const tempo = estimateTempo(envelope, frameRate)
+  const key = estimateKey(chroma)
+  const durationSeconds = samples.length / sampleRate
+  const loudness = measureLoudness(samples, sampleRate)
+  const onsetDensity = estimateOnsetDensity(envelope, frameRate)
+  const brightness = centroidTotal > 0 ? centroidWeighted / centroidTotal / BRIGHT_CENTROID_HZ : null
+  return {
+    format,
+    sampleRate,
+    durationSeconds,
+    ...tempo,
+    ...key,
+    loudnessLufs: loudness.integratedLufs,
+    energy: estimateEnergy({ loudnessLufs: loudness.integratedLufs, onsetDensity, brightness }),
+    danceability: estimateDanceability(tempo.bpm, tempo.bpmConfidence),
+    onsetDensity,
+    ...estimateSections(
+      loudness.blockLevels,
+      1 / LOUDNESS_SEGMENT_SECONDS,
+      LOUDNESS_SEGMENT_SECONDS * LOUDNESS_BLOCK_SEGMENTS,
+      durationSeconds
+    ),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tempo and key estimation
+// ---------------------------------------------------------------------------
+
+function autocorrelation(values: Float32Array, lag: number): number {
+  let sum = 0
+  for (let i = lag; i < values.length; i += 1) {
+    sum += values[i] * values[i - lag]
+  }
+  return sum / (values.length - lag)
+}
+
+/**
+ * Tempo from an onset envelope: local-mean removal, then a prior-weighted
+ * autocorrelation peak (reinforced by its double lag) refined by parabolic interpolation.
+ */
+export function estimateTempo(
+  envelope: Float32Array,
+  frameRate: number
+): Pick<AudioAnalysisResult, 'bpm' | 'bpmRaw' | 'bpmConfidence'> {
+  const empty = { bpm: null, bpmRaw: null, bpmConfidence: null }
+  const smoothing = Math.max(1, Math.round(frameRate * 0.25))
+  const novelty = new Float32Array(envelope.length)
+  let running = 0
+  for (let i = 0; i < envelope.length; i += 1) {
+    running += envelope[i]
+    if (i >= smoothing) running -= envelope[i - smoothing]
+    const localMean = running / Math.min(i + 1, smoothing)
+    novelty[i] = Math.max(0, envelope[i] - localMean)
+  }
+  // Light smoothing spreads single-frame onsets so fractional beat periods still line up
+  const smoothed = new Float32Array(novelty.length)
+  for (let i = 0; i < novelty.length; i += 1) {
+    smoothed[i] = 0.5 * novelty[i] + 0.25 * (novelty[i - 1] ?? 0) + 0.25 * (novelty[i + 1] ?? 0)
+  }
+  const mean = smoothed.reduce((sum, value) => sum + value, 0) / smoothed.length
+  for (let i = 0; i < smoothed.length; i += 1) smoothed[i] -= mean
+
+  const energy = autocorrelation(smoothed, 0)
+  const minLag = Math.max(1, Math.floor((60 * frameRate) / SEARCH_MAX_BPM))
+  const maxLag = Math.min(Math.ceil((60 * frameRate) / SEARCH_MIN_BPM), Math.floor(smoothed.length / 2) - 1)
+  if (energy <= 0 || maxLag <= minLag) return empty
+
+  const correlations = new Float64Array(2 * maxLag + 2)
+  for (let lag = minLag - 1; lag <= Math.min(2 * maxLag + 1, smoothed.length - 1); lag += 1) {
+    correlations[lag] = autocorrelation(smoothed, lag)
+  }
+
+  let bestLag = -1
+  let bestScore = -Infinity
+  for (let lag = minLag; lag <= maxLag; lag += 1) {
+    const bpm = (60 * frameRate) / lag
+    const prior = Math.exp(-0.5 * Math.pow(Math.log2(bpm / PRIOR_CENTER_BPM) / PRIOR_OCTAVES, 2))
+    const score = (correlations[lag] + 0.5 * correlations[2 * lag]) * prior
+    if (score > bestScore) {
+      bestScore = score
+      bestLag = lag
+    }
+  }
+  if (bestLag < 0 || correlations[bestLag] <= 0) return empty
+
+  const left = correlations[bestLag - 1]
+  const centre = correlations[bestLag]
+  const right = correlations[bestLag + 1]
+  const curvature = left - 2 * centre + right
+  const shift = curvature < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (left - right)) / curvature)) : 0
+
+  const bpmRaw = (60 * frameRate) / (bestLag + shift)
+  let bpm = bpmRaw
+  while (bpm < MIN_BPM) bpm *= 2
+  while (bpm >= MAX_BPM) bpm /= 2
+
+  return {
+    bpm: Math.round(bpm * 10) / 10,
+    bpmRaw: Math.round(bpmRaw * 100) / 100,
+    bpmConfidence: Math.round(Math.min(1, Math.max(0, centre / energy)) * 100) / 100,
+  }
+}
+
+function correlate(a: number[], b: number[]): number {
+  const meanA = a.reduce((sum, value) => sum + value, 0) / a.length
+  const meanB = b.reduce((sum, value) => sum + value, 0) / b.length
+  let numerator = 0
+  let varianceA = 0
+  let varianceB = 0
+  for (let i = 0; i < a.length; i += 1) {
+    numerator += (a[i] - meanA) * (b[i] - meanB)
+    varianceA += (a[i] - meanA) ** 2
+    varianceB += (b[i] - meanB) ** 2
+  }
+  return varianceA > 0 && varianceB > 0 ? numerator / Math.sqrt(varianceA * varianceB) : 0
+}
+
+/**
+ * Key from a chroma vector by correlating against the 24 rotated key profiles
+ */
+export function estimateKey(
+  chroma: ArrayLike<number>
+): Pick<AudioAnalysisResult, 'key' | 'scale' | 'keyConfidence'> {
+  const values = Array.from(chroma)
+  if (values.every((value) => value <= 0)) {
+    return { key: null, scale: null, keyConfidence: null }
+  }
+  const candidates: Array<{ tonic: number; scale: 'major' | 'minor'; score: number }> = []
+  for (let tonic = 0; tonic < 12; tonic += 1) {
+    const rotated = values.map((_, index) => values[(index + tonic) % 12])
+    candidates.push({ tonic, scale: 'major', score: correlate(rotated, MAJOR_PROFILE) })
+    candidates.push({ tonic, scale: 'minor', score: correlate(rotated, MINOR_PROFILE) })
+  }
+  candidates.sort((a, b) => b.score - a.score)
+  const [best, runnerUp] = candidates
+  // Margin over the runner-up, scaled so a clear 0.25 lead reads as full confidence
+  const confidence = Math.min(1, Math.max(0, best.score) * Math.min(1, (best.score - runnerUp.score) * 4 + 0.5))
+  return {
+    key: PITCH_NAMES[best.tonic],
+    scale: best.scale,
+    keyConfidence: Math.round(confidence * 100) / 100,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Loudness, energy and structure
+// ---------------------------------------------------------------------------
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value))
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+function biquad(input: Float32Array, b: [number, number, number], a: [number, number, number]): Float32Array {
+  const output = new Float32Array(input.length)
+  const [b0, b1, b2] = b.map((value) => value / a[0])
+  const a1 = a[1] / a[0]
+  const a2 = a[2] / a[0]
+  let x1 = 0
+  let x2 = 0
+  let y1 = 0
+  let y2 = 0
+  for (let i = 0; i < input.length; i += 1) {
+    const x = input[i]
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2
+    output[i] = y
+    x2 = x1
+    x1 = x
+    y2 = y1
+    y1 = y
+  }
+  return output
+}
+
+/**
+ * BS.1770 K-weighting: a +4 dB high shelf at 1.5 kHz followed by a 38 Hz high-pass,
+ * designed for the clip's sample rate
+ */
+function kWeight(samples: Float32Array, sampleRate: number): Float32Array {
+  const shelfGain = Math.pow(10, 4 / 40)
+  const shelfOmega = (2 * Math.PI * 1500) / sampleRate
+  const shelfAlpha = Math.sin(shelfOmega) / (2 * Math.SQRT1_2)
+  const shelfCos = Math.cos(shelfOmega)
+  const shelfRoot = 2 * Math.sqrt(shelfGain) * shelfAlpha
+  const shelved = biquad(
+    samples,
+    [
+      shelfGain * ((shelfGain + 1) + (shelfGain - 1) * shelfCos + shelfRoot),
+      -2 * shelfGain * ((shelfGain - 1) + (shelfGain + 1) * shelfCos),
+      shelfGain * ((shelfGain + 1) + (shelfGain - 1) * shelfCos - shelfRoot),
+    ],
+    [
+      (shelfGain + 1) - (shelfGain - 1) * shelfCos + shelfRoot,
+      2 * ((shelfGain - 1) - (shelfGain + 1) * shelfCos),
+      (shelfGain + 1) - (shelfGain - 1) * shelfCos - shelfRoot,
+    ]
+  )
+  const passOmega = (2 * Math.PI * 38) / sampleRate
+  const passAlpha = Math.sin(passOmega) / (2 * 0.5)
+  const passCos = Math.cos(passOmega)
+  return biquad(
+    shelved,
+    [(1 + passCos) / 2, -(1 + passCos), (1 + passCos) / 2],
+    [1 + passAlpha, -2 * passCos, 1 - passAlpha]
+  )
+}
+
+const powerToLufs = (power: number) => (power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity)
+
+/**
+ * Integrated loudness with BS.1770 gating, plus the level of every 400 ms block (10 per
+ * second). Measured on the mono downmix, so wide stereo material reads slightly low.
+ */
+export function measureLoudness(
+  samples: Float32Array,
+  sampleRate: number
+): { integratedLufs: number | null; blockLevels: Float32Array } {
+  const filtered = kWeight(samples, sampleRate)
+  const segmentLength = Math.round(sampleRate * LOUDNESS_SEGMENT_SECONDS)
+  const segmentCount = Math.floor(filtered.length / segmentLength)
+  const blockCount = segmentCount - LOUDNESS_BLOCK_SEGMENTS + 1
+  if (blockCount <= 0) {
+    return { integratedLufs: null, blockLevels: new Float32Array(0) }
+  }
+
+  const segmentPower = new Float64Array(segmentCount)
+  for (let segment = 0; segment < segmentCount; segment += 1) {
+    let sum = 0
+    for (let i = segment * segmentLength; i < (segment + 1) * segmentLength; i += 1) {
+      sum += filtered[i] * filtered[i]
+    }
+    segmentPower[segment] = sum / segmentLength
+  }
+  const blockPower: number[] = []
+  for (let block = 0; block < blockCount; block += 1) {
+    let sum = 0
+    for (let segment = block; segment < block + LOUDNESS_BLOCK_SEGMENTS; segment += 1) sum += segmentPower[segment]
+    blockPower.push(sum / LOUDNESS_BLOCK_SEGMENTS)
+  }
+
+  const blockLevels = Float32Array.from(blockPower, (power) => Math.max(-120, powerToLufs(power)))
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+  const aboveAbsolute = blockPower.filter((power) => powerToLufs(power) > ABSOLUTE_GATE_LUFS)
+  if (aboveAbsolute.length === 0) {
+    return { integratedLufs: null, blockLevels }
+  }
+  const relativeGate = powerToLufs(mean(aboveAbsolute)) - RELATIVE_GATE_LU
+  const gated = aboveAbsolute.filter((power) => powerToLufs(power) > relativeGate)
+  return { integratedLufs: Math.round(powerToLufs(mean(gated)) * 10) / 10, blockLevels }
+}
+
+/**
+ * Onsets per second: envelope peaks that rise above their local (±100 ms) mean by more
+ * than the typical spread of that difference, at most one per 50 ms
+ */
+export function estimateOnsetDensity(envelope: Float32Array, frameRate: number): number | null {
+  if (envelope.length < 3 || frameRate <= 0) return null
+  const prefix = new Float64Array(envelope.length + 1)
+  for (let i = 0; i < envelope.length; i += 1) prefix[i + 1] = prefix[i] + envelope[i]
+  const halfWindow = Math.max(1, Math.round(frameRate * 0.1))
+  const novelty = new Float32Array(envelope.length)
+  for (let i = 0; i < envelope.length; i += 1) {
+    const from = Math.max(0, i - halfWindow)
+    const to = Math.min(envelope.length, i + halfWindow + 1)
+    novelty[i] = envelope[i] - (prefix[to] - prefix[from]) / (to - from)
+  }
+  const deviation = Math.sqrt(novelty.reduce((sum, value) => sum + value * value, 0) / novelty.length)
+  if (deviation === 0) return 0
+
+  const minGap = Math.max(1, Math.round(frameRate * 0.05))
+  let count = 0
+  let lastPeak = -minGap
+  for (let i = 1; i < novelty.length - 1; i += 1) {
+    const value = novelty[i]
+    if (value <= novelty[i - 1] || value < novelty[i + 1] || i - lastPeak < minGap) continue
+    if (value > ONSET_THRESHOLD_DEVIATIONS * deviation) {
+      count += 1
+      lastPeak = i
+    }
+  }
+  return round2(count / (envelope.length / frameRate))
+}
+
+/**
+ * Energy in 0-1 as a weighted blend of loudness, onset density and spectral brightness;
+ * missing inputs are left out and the remaining weights renormalised
+ */
+export function estimateEnergy(inputs: {
+  loudnessLufs: number | null
+  onsetDensity: number | null
+  brightness: number | null
+}): number | null {
+  const terms: Array<[number, number]> = []
+  if (inputs.loudnessLufs != null) {
+    terms.push([0.5, clamp01((inputs.loudnessLufs - ENERGY_QUIET_LUFS) / (ENERGY_LOUD_LUFS - ENERGY_QUIET_LUFS))])
+  }
+  if (inputs.onsetDensity != null) {
+    terms.push([0.3, clamp01(inputs.onsetDensity / BUSY_ONSETS_PER_SECOND)])
+  }
+  if (inputs.brightness != null) {
+    terms.push([0.2, clamp01(inputs.brightness)])
+  }
+  if (terms.length === 0) return null
+  const totalWeight = terms.reduce((sum, [weight]) => sum + weight, 0)
+  return round2(terms.reduce((sum, [weight, value]) => sum + weight * value, 0) / totalWeight)
+}
+
+/**
+ * Danceability in 0-1: pulse clarity scaled by how close the tempo sits to the 120 BPM
+ * dance range, within about half an octave. The autocorrelation confidence stays well
+ * below 1 even for a metronome, so it is rescaled and compressed into a clarity value.
+ */
+export function estimateDanceability(bpm: number | null, bpmConfidence: number | null): number | null {
+  if (bpm == null || bpmConfidence == null) return null
+  const pulseClarity = Math.sqrt(clamp01(bpmConfidence / CLEAR_PULSE_CONFIDENCE))
+  const tempoFit = Math.exp(-0.5 * Math.pow(Math.log2(bpm / DANCE_TEMPO_CENTER_BPM) / 0.5, 2))
+  return round2(pulseClarity * (0.5 + 0.5 * tempoFit))
+}
+
+/**
+ * Intro and outro length from a level curve in dB: the intro lasts until the level first
+ * comes within SECTION_LEVEL_DROP_DB of the 75th percentile, the outro from the last point
+ * it does. Previews usually start mid-track, so both are often zero.
+ */
+export function estimateSections(
+  levels: Float32Array,
+  frameRate: number,
+  windowSeconds: number,
+  durationSeconds: number
+): Pick<AudioAnalysisResult, 'introSeconds' | 'outroSeconds'> {
+  if (levels.length === 0) return { introSeconds: null, outroSeconds: null }
+  const sorted = Array.from(levels).sort((a, b) => a - b)
+  const threshold = sorted[Math.floor(0.75 * (sorted.length - 1))] - SECTION_LEVEL_DROP_DB
+  const first = levels.findIndex((level) => level >= threshold)
+  let last = levels.length - 1
+  while (last > 0 && levels[last] < threshold) last -= 1
+  const outroStart = Math.min(durationSeconds, last / frameRate + windowSeconds)
+  return {
+    introSeconds: Math.round((Math.max(0, first) / frameRate) * 10) / 10,
+    outroSeconds: Math.round(Math.max(0, durationSeconds - outroStart) * 10) / 10,
+  }
+}
@@ -0,0 +1,193 @@
+import { isAllowedPreviewUrl } from './previewHosts'
+import { logInfo, logWarning } from './logger'
+import { externalFetch } from './externalFetch'
+
+export interface ProxiedAudio {
+  body: ArrayBuffer
+  contentType: string
+}
+
+export type ProxiedAudioResult =
+  | { ok: true; audio: ProxiedAudio; cached: boolean }
+  | { ok: false; status: number; error: string; details?: string }
+
+export type ByteRange = { start: number; end: number }
+
+// Previews are ~30s clips (well under 2 MB); anything larger is not a preview
+const MAX_AUDIO_BYTES = 10 * 1024 * 1024
+const AUDIO_CACHE_TTL_MS = 10 * 60 * 1000
+const AUDIO_CACHE_MAX_BYTES = 64 * 1024 * 1024
+const MAX_REDIRECTS = 3
+const FETCH_TIMEOUT_MS = 15_000
+
+// Insertion order doubles as LRU order: hits are re-inserted at the end
+const audioCache = new Map<string, { expiresAt: number; value: ProxiedAudio }>()
+let audioCacheBytes = 0
+const inFlightFetches = new Map<string, Promise<ProxiedAudioResult>>()
+
+function deleteCached(url: string): void {
+  const entry = audioCache.get(url)
+  if (!entry) return
+  audioCacheBytes -= entry.value.body.byteLength
+  audioCache.delete(url)
+}
+
+function getCached(url: string): ProxiedAudio | null {
+  const entry = audioCache.get(url)
+  if (!entry) return null
+  if (entry.expiresAt <= Date.now()) {
+    deleteCached(url)
+    return null
+  }
+  audioCache.delete(url)
+  audioCache.set(url, entry)
+  return entry.value
+}
+
+function setCached(url: string, value: ProxiedAudio): void {
+  deleteCached(url)
+  while (audioCache.size > 0 && audioCacheBytes + value.body.byteLength > AUDIO_CACHE_MAX_BYTES) {
+    const oldest = audioCache.keys().next().value as string
+    deleteCached(oldest)
+  }
+  audioCache.set(url, { expiresAt: Date.now() + AUDIO_CACHE_TTL_MS, value })
+  audioCacheBytes += value.body.byteLength
+}
+
+/**
+ * Parse a single `bytes=` range against a body of `size` bytes. Returns null
+ * when the header is absent or not something we honour (multiple ranges,
+ * other units), in which case the full body is served, and 'unsatisfiable'
+ * when the range lies outside the body.
+ */
+export function parseByteRange(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!header) return null
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim())
+  if (!match) return null
+  const [, startRaw, endRaw] = match
+  if (!startRaw && !endRaw) return null
+
+  if (!startRaw) {
+    // Suffix range: the last N bytes
+    const length = Number(endRaw)
+    if (length === 0 || size === 0) return 'unsatisfiable'
+    return { start: Math.max(0, size - length), end: size - 1 }
+  }
+
+  const start = Number(startRaw)
+  const end = endRaw ? Math.min(Number(endRaw), size - 1) : size - 1
+  if (start >= size || end < start) return 'unsatisfiable'
+  return { start, end }
+}
+
+/**
+ * Fetch a preview file from an allowlisted host, following redirects by hand
+ * so every hop is checked against the allowlist too
+ */
+async function fetchUpstream(audioUrl: string): Promise<ProxiedAudioResult> {
+  let currentUrl = audioUrl
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS)
+  try {
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+      const response = await externalFetch(currentUrl, {
+        headers: {
+          // Match what Python requests sends (the BPM service uses it); no Referer/Origin
+          'User-Agent': 'python-requests/2.31.0',
+          'Accept': '*/*',
+        },
+        redirect: 'manual',
+        signal: controller.signal,
+      })
+
+      if (response.status >= 300 && response.status < 400) {
+        const location = response.headers.get('location')
+        const nextUrl = location ? new URL(location, currentUrl).toString() : null
+        if (!nextUrl || !isAllowedPreviewUrl(nextUrl)) {
+          logWarning('Audio proxy blocked redirect to disallowed host', {
+            component: 'audioProxy.fetchUpstream',
+            audioUrl: audioUrl.substring(0, 120),
+            location: location?.substring(0, 120) || null,
+          })
+          return { ok: false, status: 502, error: 'Upstream redirected to a host that is not allowed' }
+        }
+        currentUrl = nextUrl
+        continue
+      }
+
+      logInfo('Audio proxy response received', {
+        component: 'audioProxy.fetchUpstream',
+        status: response.status,
+        ok: response.ok,
+        redirects: hop,
+        contentType: response.headers.get('content-type'),
+        contentLength: response.headers.get('content-length'),
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unable to read error')
+        logWarning('Audio proxy fetch failed', {
+          component: 'audioProxy.fetchUpstream',
+          status: response.status,
+          statusText: response.statusText,
+          errorText: errorText.substring(0, 500),
+          url: currentUrl,
+        })
+        // Deezer CDN URLs carry time-limited tokens, so 403 usually means the URL expired
+        if (response.status === 403) {
+          return {
+            ok: false,
+            status: 403,
+            error: 'Failed to fetch audio: 403 Forbidden. The preview URL may have expired or requires authentication.',
+            details: 'Deezer preview URLs contain time-limited authentication tokens that may expire.',
+          }
+        }
+        return {
+          ok: false,
+          status: response.status,
+          error: `Failed to fetch audio: ${response.status} ${response.statusText}`,
+        }
+      }
+
+      const declaredLength = Number(response.headers.get('content-length'))
+      if (Number.isFinite(declaredLength) && declaredLength > MAX_AUDIO_BYTES) {
+        await response.body?.cancel().catch(() => {})
+        return { ok: false, status: 413, error: 'Audio file is too large to proxy' }
+      }
+      const body = await response.arrayBuffer()
+      if (body.byteLength > MAX_AUDIO_BYTES) {
+        return { ok: false, status: 413, error: 'Audio file is too large to proxy' }
+      }
+
+      const audio = { body, contentType: response.headers.get('content-type') || 'audio/mpeg' }
+      setCached(audioUrl, audio)
+      return { ok: true, audio, cached: false }
+    }
+    return { ok: false, status: 502, error: 'Too many redirects' }
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Preview audio for an allowlisted URL, served from a short-lived in-memory
+ * cache so seeking (range requests) and replays don't refetch the file.
+ * Callers must check isAllowedPreviewUrl first.
+ */
+export async function getProxiedAudio(audioUrl: string): Promise<ProxiedAudioResult> {
+  const cached = getCached(audioUrl)
+  if (cached) {
+    return { ok: true, audio: cached, cached: true }
+  }
+
+  const existing = inFlightFetches.get(audioUrl)
+  if (existing) {
+    return existing
+  }
+
+  const request = fetchUpstream(audioUrl).finally(() => {
+    inFlightFetches.delete(audioUrl)
+  })
+  inFlightFetches.set(audioUrl, request)
+  return request
+}
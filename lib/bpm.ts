@@ -1,20 +1,13 @@
 import { query } from './db'
 import { getTrack } from './spotify'
-import { getTrackDetailsByIsrc, hasMusoApiKey } from './muso'
 import { GoogleAuth } from 'google-auth-library'
+import crypto from 'crypto'
 import { isValidSpotifyTrackId } from './spotify-validation'
-import { logError } from './logger'
-
-type PreviewUrlEntry = {
-  url: string
-  successful?: boolean
-  isrc?: string
-  title?: string
-  artist?: string
-  provider?: 'deezer_isrc' | 'muso_spotify' | 'itunes_search' | 'deezer_search'
-  itunesRequestUrl?: string
-  itunesResponse?: string
-}
+import { logError, logWarning } from './logger'
+import { analyzeAudio } from './audioAnalysis'
+import { externalFetch } from './externalFetch'
+import { getActivePreviewProviders, getPreviewUrlsExpiry, runPreviewProvider } from './previewProviders'
+import type { BpmResult, PreviewUrlEntry } from './types'
 
 interface PreviewUrlResult {
   url: string | null
@@ -29,38 +22,6 @@ export interface StreamingPreviewMeta {
   isrcMismatch?: boolean
 }
 
-interface BpmResult {
-  bpm: number | null
-  source: string
-  upc?: string
-  bpmRaw?: number
-  error?: string
-  urls?: PreviewUrlEntry[]
-  key?: string
-  scale?: string
-  keyConfidence?: number
-  bpmConfidence?: number
-  // Full details for modal
-  bpmEssentia?: number | null
-  bpmRawEssentia?: number | null
-  bpmConfidenceEssentia?: number | null
-  bpmLibrosa?: number | null
-  bpmRawLibrosa?: number | null
-  bpmConfidenceLibrosa?: number | null
-  keyEssentia?: string | null
-  scaleEssentia?: string | null
-  keyscaleConfidenceEssentia?: number | null
-  keyLibrosa?: string | null
-  scaleLibrosa?: string | null
-  keyscaleConfidenceLibrosa?: number | null
-  bpmSelected?: 'essentia' | 'librosa' | 'manual'
-  keySelected?: 'essentia' | 'librosa' | 'manual'
-  bpmManual?: number | null
-  keyManual?: string | null
-  scaleManual?: string | null
-  debugTxt?: string | null
-}
-
 interface CacheRecord {
   id: number
   spotify_track_id: string
@@ -90,6 +51,12 @@ interface CacheRecord {
   urls?: PreviewUrlEntry[] | null
   isrc_mismatch: boolean
   debug_txt: string | null
+  loudness_lufs: number | null
+  energy: number | null
+  danceability: number | null
+  onset_density: number | null
+  intro_seconds: number | null
+  outro_seconds: number | null
 }
 
 // In-flight computation locks to prevent duplicate work
@@ -98,58 +65,134 @@ const inFlightComputations = new Map<string, Promise<BpmResult>>()
 // Cache TTL: 90 days
 const CACHE_TTL_DAYS = 90
 
-/**
- * Extract identifiers from Spotify track
- */
-async function extractSpotifyIdentifiers(spotifyTrackId: string): Promise<{
+export interface SpotifyTrackIdentifiers {
   isrc: string | null
   title: string
   artists: string
   spotifyPreviewUrl: string | null
-}> {
-  const track = await getTrack(spotifyTrackId)
-  
+}
+
+/**
+ * Identifiers used for preview lookup, from a Spotify track object
+ */
+export function toSpotifyTrackIdentifiers(track: any): SpotifyTrackIdentifiers {
   return {
     isrc: track.external_ids?.isrc || null,
-    title: track.name
+    title: (track.name || '')
       .replace(/\s*[\(\[][^\)\]]*[\)\]]/g, ' ')
       .replace(/\s+/g, ' ')
       .trim(),
-    artists: track.artists.map((a: any) => a.name).join(' '),
+    artists: (track.artists || []).map((a: any) => a.name).join(' '),
     spotifyPreviewUrl: track.preview_url || null,
   }
 }
 
 /**
- * Helper function to get the selected BPM value from a cache record
+ * Extract identifiers from Spotify track
+ */
+async function extractSpotifyIdentifiers(spotifyTrackId: string): Promise<SpotifyTrackIdentifiers> {
+  const track = await getTrack(spotifyTrackId)
+  return toSpotifyTrackIdentifiers(track)
+}
+
+/**
+ * Helper function to get the selected BPM value from a cache record, with the
+ * confidence of the estimator it came from (null for manual overrides)
  */
-function getSelectedBpm(record: CacheRecord): number | null {
+function getSelectedBpm(record: CacheRecord): { bpm: number | null; confidence: number | null } {
   if (record.bpm_selected === 'manual' && record.bpm_manual != null) {
-    return record.bpm_manual
+    return { bpm: record.bpm_manual, confidence: null }
   } else if (record.bpm_selected === 'librosa' && record.bpm_librosa != null) {
-    return record.bpm_librosa
+    return { bpm: record.bpm_librosa, confidence: record.bpm_confidence_librosa }
   } else if (record.bpm_essentia != null) {
-    return record.bpm_essentia
+    return { bpm: record.bpm_essentia, confidence: record.bpm_confidence_essentia }
   } else if (record.bpm_librosa != null) {
-    return record.bpm_librosa
+    return { bpm: record.bpm_librosa, confidence: record.bpm_confidence_librosa }
   }
-  return null
+  return { bpm: null, confidence: null }
 }
 
 /**
- * Helper function to get the selected key/scale from a cache record
+ * Helper function to get the selected key/scale from a cache record, with the
+ * confidence of the estimator it came from (null for manual overrides)
  */
-function getSelectedKey(record: CacheRecord): { key: string | null; scale: string | null } {
+function getSelectedKey(record: CacheRecord): { key: string | null; scale: string | null; confidence: number | null } {
   if (record.key_selected === 'manual') {
-    return { key: record.key_manual, scale: record.scale_manual }
+    return { key: record.key_manual, scale: record.scale_manual, confidence: null }
   } else if (record.key_selected === 'librosa' && record.key_librosa != null) {
-    return { key: record.key_librosa, scale: record.scale_librosa }
+    return { key: record.key_librosa, scale: record.scale_librosa, confidence: record.keyscale_confidence_librosa }
   } else if (record.key_essentia != null) {
-    return { key: record.key_essentia, scale: record.scale_essentia }
+    return { key: record.key_essentia, scale: record.scale_essentia, confidence: record.keyscale_confidence_essentia }
   } else if (record.key_librosa != null) {
-    return { key: record.key_librosa, scale: record.scale_librosa }
+    return { key: record.key_librosa, scale: record.scale_librosa, confidence: record.keyscale_confidence_librosa }
+  }
+  return { key: null, scale: null, confidence: null }
+}
+
+type AudioFeatures = Pick<
+  BpmResult,
+  'loudnessLufs' | 'energy' | 'danceability' | 'onsetDensity' | 'introSeconds' | 'outroSeconds'
+>
+
+/**
+ * Audio features from an analysis result, falling back to the values already cached
+ */
+function getAudioFeatures(result: BpmAnalysisResult | null, cached?: CacheRecord | null): AudioFeatures {
+  return {
+    loudnessLufs: result?.loudnessLufs ?? cached?.loudness_lufs ?? null,
+    energy: result?.energy ?? cached?.energy ?? null,
+    danceability: result?.danceability ?? cached?.danceability ?? null,
+    onsetDensity: result?.onsetDensity ?? cached?.onset_density ?? null,
+    introSeconds: result?.introSeconds ?? cached?.intro_seconds ?? null,
+    outroSeconds: result?.outroSeconds ?? cached?.outro_seconds ?? null,
+  }
+}
+
+export interface SelectedBpmKey {
+  bpm: number | null
+  bpmConfidence: number | null
+  key: string | null
+  scale: string | null
+  keyConfidence: number | null
+}
+
+const toNullableNumber = (value: unknown): number | null => {
+  if (value == null) return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+const SELECTED_LOOKUP_CHUNK_SIZE = 1000
+
+/**
+ * Read the selected BPM/key (and confidence) for many tracks straight from the cache,
+ * without triggering any computation. Tracks with no cache row are omitted.
+ */
+export async function getSelectedBpmKeyForTracks(spotifyTrackIds: string[]): Promise<Map<string, SelectedBpmKey>> {
+  const results = new Map<string, SelectedBpmKey>()
+  const ids = Array.from(new Set(spotifyTrackIds.filter(Boolean)))
+  if (ids.length === 0) return results
+
+  for (let start = 0; start < ids.length; start += SELECTED_LOOKUP_CHUNK_SIZE) {
+    const chunk = ids.slice(start, start + SELECTED_LOOKUP_CHUNK_SIZE)
+    const placeholders = chunk.map((_, i) => `$${i + 1}`).join(',')
+    const records = await query<CacheRecord>(
+      `SELECT * FROM track_bpm_cache WHERE spotify_track_id IN (${placeholders})`,
+      chunk
+    )
+    for (const record of records) {
+      const selectedBpm = getSelectedBpm(record)
+      const selectedKey = getSelectedKey(record)
+      results.set(record.spotify_track_id, {
+        bpm: toNullableNumber(selectedBpm.bpm),
+        bpmConfidence: toNullableNumber(selectedBpm.confidence),
+        key: selectedKey.key,
+        scale: selectedKey.scale,
+        keyConfidence: toNullableNumber(selectedKey.confidence),
+      })
+    }
   }
-  return { key: null, scale: null }
+  return results
 }
 
 /**
@@ -169,7 +212,7 @@ async function checkCache(
       if (isrcResults.length > 0) {
         const record = isrcResults[0]
         const ageDays = (Date.now() - new Date(record.updated_at).getTime()) / (1000 * 60 * 60 * 24)
-        const selectedBpm = getSelectedBpm(record)
+        const selectedBpm = getSelectedBpm(record).bpm
         // Return valid BPM records (not expired and no ISRC mismatch), or records with null BPM (for error info)
         // ISRC mismatches are treated as errors, so exclude them from valid cache
         if (selectedBpm !== null && ageDays < CACHE_TTL_DAYS && !record.isrc_mismatch) {
@@ -189,7 +232,7 @@ async function checkCache(
   if (trackResults.length > 0) {
     const record = trackResults[0]
     const ageDays = (Date.now() - new Date(record.updated_at).getTime()) / (1000 * 60 * 60 * 24)
-    const selectedBpm = getSelectedBpm(record)
+    const selectedBpm = getSelectedBpm(record).bpm
     // Return valid BPM records (not expired and no ISRC mismatch), or records with null BPM (for error info)
     // ISRC mismatches are treated as errors, so exclude them from valid cache
     if (selectedBpm !== null && ageDays < CACHE_TTL_DAYS && !record.isrc_mismatch) {
@@ -270,7 +313,7 @@ function getSuccessfulPreviewUrl(urls: PreviewUrlEntry[] | undefined): string |
 
 async function resolveDeezerApiPreviewUrl(apiUrl: string): Promise<string | null> {
   try {
-    const response = await fetch(apiUrl, {
+    const response = await externalFetch(apiUrl, {
       headers: {
         'User-Agent': 'python-requests/2.31.0',
         'Accept': '*/*',
@@ -308,7 +351,7 @@ async function checkPreviewUrl(url: string): Promise<boolean> {
   const controller = new AbortController()
   const timeoutId = setTimeout(() => controller.abort(), 4000)
   try {
-    const response = await fetch(url, {
+    const response = await externalFetch(url, {
       method: 'GET',
       headers: { Range: 'bytes=0-1' },
       signal: controller.signal,
@@ -344,10 +387,11 @@ export async function ensureSuccessfulPreviewUrlForTrack(params: {
       await query(
         `UPDATE track_bpm_cache
          SET urls = $1::jsonb,
+             preview_expires_at = $4,
              error = COALESCE($2, error),
              updated_at = NOW()
          WHERE spotify_track_id = $3`,
-        [JSON.stringify(updatedUrls), error ?? null, spotifyTrackId]
+        [JSON.stringify(updatedUrls), error ?? null, spotifyTrackId, getPreviewUrlsExpiry(updatedUrls)]
       )
       return { urls: updatedUrls, error }
     }
@@ -374,10 +418,11 @@ export async function ensureSuccessfulPreviewUrlForTrack(params: {
       await query(
         `UPDATE track_bpm_cache
          SET urls = $1::jsonb,
+             preview_expires_at = $4,
              error = COALESCE($2, error),
              updated_at = NOW()
          WHERE spotify_track_id = $3`,
-        [JSON.stringify(updatedUrls), error ?? null, spotifyTrackId]
+        [JSON.stringify(updatedUrls), error ?? null, spotifyTrackId, getPreviewUrlsExpiry(updatedUrls)]
       )
       return { urls: updatedUrls, error }
     }
@@ -385,10 +430,11 @@ export async function ensureSuccessfulPreviewUrlForTrack(params: {
     await query(
       `UPDATE track_bpm_cache
        SET urls = $1::jsonb,
+           preview_expires_at = $4,
            error = COALESCE($2, error),
            updated_at = NOW()
        WHERE spotify_track_id = $3`,
-      [JSON.stringify(updatedUrls), error ?? null, spotifyTrackId]
+      [JSON.stringify(updatedUrls), error ?? null, spotifyTrackId, getPreviewUrlsExpiry(updatedUrls)]
     )
     return { urls: updatedUrls, error }
   }
@@ -416,10 +462,11 @@ export async function ensureSuccessfulPreviewUrlForTrack(params: {
     await query(
       `UPDATE track_bpm_cache
        SET urls = $1::jsonb,
+           preview_expires_at = $4,
            error = COALESCE($2, error),
            updated_at = NOW()
        WHERE spotify_track_id = $3`,
-      [JSON.stringify(updatedUrls), error ?? null, spotifyTrackId]
+      [JSON.stringify(updatedUrls), error ?? null, spotifyTrackId, getPreviewUrlsExpiry(updatedUrls)]
     )
     return { urls: updatedUrls, error }
   }
@@ -428,18 +475,19 @@ export async function ensureSuccessfulPreviewUrlForTrack(params: {
   await query(
     `UPDATE track_bpm_cache
      SET urls = $1::jsonb,
+         preview_expires_at = $4,
          error = $2,
          updated_at = NOW()
      WHERE spotify_track_id = $3`,
-    [JSON.stringify(updatedUrls), finalError, spotifyTrackId]
+    [JSON.stringify(updatedUrls), finalError, spotifyTrackId, getPreviewUrlsExpiry(updatedUrls)]
   )
   return { urls: updatedUrls, error: finalError }
 }
 
 /**
- * Resolve preview URL from multiple sources using ISRC
- * Priority: 1. Deezer ISRC, 2. Muso ISRC (Spotify preview), 3. iTunes search with ISRC matching
- * Stops at first successful source
+ * Resolve preview URL by trying the enabled providers in their configured order
+ * (see lib/previewProviders.ts). Stops at the first usable preview; candidates
+ * whose ISRC doesn't match are kept in `urls` for the ISRC mismatch review.
  */
 async function resolvePreviewUrl(params: {
   isrc: string | null
@@ -448,193 +496,71 @@ async function resolvePreviewUrl(params: {
   countryCode?: string
 }): Promise<PreviewUrlResult> {
   const { isrc, title, artists, countryCode = 'us' } = params
-  
-  const urls: PreviewUrlEntry[] = []
-  
-  const deezerPromise = isrc
-    ? (async () => {
-        try {
-          const deezerIsrcUrl = `https://api.deezer.com/track/isrc:${encodeURIComponent(isrc)}`
-          const controller = new AbortController()
-          const timeoutId = setTimeout(() => controller.abort(), 5000)
-          
-          try {
-            const response = await fetch(deezerIsrcUrl, {
-              signal: controller.signal,
-            })
-            clearTimeout(timeoutId)
-            
-            if (response.ok) {
-              const trackData = await response.json() as any
-              if (trackData.id && trackData.preview) {
-                return {
-                  url: trackData.preview,
-                  successful: true,
-                  isrc: trackData.isrc,
-                  title: trackData.title,
-                  artist: trackData.artist?.name,
-                  provider: 'deezer_isrc' as const,
-                }
-              }
-            }
-          } catch (error) {
-            clearTimeout(timeoutId)
-            throw error
-          }
-        } catch (error) {
-          logError(error, {
-            component: 'bpm.resolvePreviewUrl',
-            isrc,
-            action: 'deezer_isrc_lookup'
-          })
-        }
-        return null
-      })()
-    : null
+  const lookupParams = { isrc, title, artists, countryCode }
 
-  const musoPromise = isrc && hasMusoApiKey()
-    ? (async () => {
-        try {
-          const details = await getTrackDetailsByIsrc(isrc)
-          if (details?.spotifyPreviewUrl) {
-            const artistName = Array.isArray(details.artists)
-              ? details.artists.map((artist) => artist?.name).filter(Boolean).join(', ')
-              : artists
-            return {
-              url: details.spotifyPreviewUrl,
-              successful: true,
-              isrc,
-              title: details.title || title,
-              artist: artistName || artists,
-              provider: 'muso_spotify' as const,
-            }
-          }
-        } catch (error) {
-          logError(error, {
-            component: 'bpm.resolvePreviewUrl',
-            isrc,
-            action: 'muso_isrc_lookup',
-          })
-        }
-        return null
-      })()
-    : null
-
-  // 1. Try Deezer ISRC lookup (most accurate)
-  const deezerEntry = deezerPromise ? await deezerPromise : null
-  if (deezerEntry) {
-    urls.push(deezerEntry)
-    return { 
-      url: deezerEntry.url, 
-      source: 'deezer_isrc', 
-      urls,
-      isrcMismatch: false // ISRC lookup is always accurate
-    }
-  }
+  const urls: PreviewUrlEntry[] = []
+  let isrcMismatch = false
 
-  // 2. Try Muso ISRC lookup (Spotify preview URL)
-  const musoEntry = musoPromise ? await musoPromise : null
-  if (musoEntry) {
-    urls.push(musoEntry)
-    return {
-      url: musoEntry.url,
-      source: 'muso_spotify',
-      urls,
-      isrcMismatch: false,
+  for (const provider of await getActivePreviewProviders()) {
+    if (!provider.canLookup(lookupParams)) continue
+    const outcome = await runPreviewProvider(provider, lookupParams)
+    if (outcome.status === 'miss') continue
+    urls.push(outcome.entry)
+    if (outcome.status === 'mismatch') {
+      isrcMismatch = true
+      continue
     }
+    return { url: outcome.entry.url, source: provider.id, urls, isrcMismatch: false }
   }
 
-  // 3. Try iTunes search by artist + title, then match ISRC
-  try {
-    const searchTerm = `${artists} ${title}`
-    const itunesSearchUrl = `https://itunes.apple.com/search?term=${encodeURIComponent(searchTerm)}&media=music&entity=song&country=${countryCode}&limit=20`
-    // track iTunes search attempt only via preview URL if found
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 5000)
-    
-    try {
-      const response = await fetch(itunesSearchUrl, {
-        headers: { 'User-Agent': 'Mozilla/5.0' },
-        signal: controller.signal,
-      })
-      clearTimeout(timeoutId)
-      
-      if (response.ok) {
-        const data = await response.json() as any
-        if (data.resultCount > 0 && data.results) {
-          // Filter to items where kind === "song" and previewUrl exists
-          const tracks = data.results.filter((r: any) =>
-            (r.kind === 'song' || r.wrapperType === 'track') && r.previewUrl
-          )
-          
-          if (tracks.length > 0) {
-            let selectedTrack = tracks[0]
-            let isrcMismatch = false
-            
-            // If we have ISRC from Spotify, try to match it
-            if (isrc) {
-              const matchingTrack = tracks.find((t: any) => t.isrc === isrc)
-              if (matchingTrack) {
-                selectedTrack = matchingTrack
-                isrcMismatch = false
-              } else {
-                isrcMismatch = true
-                // Don't return the URL if ISRC doesn't match - treat as error
-                urls.push({
-                  url: selectedTrack.previewUrl,
-                  successful: false,
-                  isrc: selectedTrack.isrc,
-                  title: selectedTrack.trackName,
-                  artist: selectedTrack.artistName,
-                  provider: 'itunes_search',
-                  itunesRequestUrl: itunesSearchUrl,
-                  itunesResponse: JSON.stringify(data),
-                })
-                return { 
-                  url: null, 
-                  source: 'computed_failed', 
-                  urls,
-                  isrcMismatch: true
-                }
-              }
-            }
-            
-            if (selectedTrack.previewUrl) {
-              urls.push({
-                url: selectedTrack.previewUrl,
-                successful: true,
-                isrc: selectedTrack.isrc,
-                title: selectedTrack.trackName,
-                artist: selectedTrack.artistName,
-                provider: 'itunes_search',
-                itunesRequestUrl: itunesSearchUrl,
-                itunesResponse: JSON.stringify(data),
-              })
-            }
-            return { 
-              url: selectedTrack.previewUrl, 
-              source: 'itunes_search', 
-              urls,
-              isrcMismatch
-            }
-          }
-        }
-      }
-    } catch (error) {
-      clearTimeout(timeoutId)
-      throw error
-    }
-  } catch (error) {
-    logError(error, {
-      component: 'bpm.resolvePreviewUrl',
-      title,
-      artists,
-      action: 'itunes_search'
-    })
-  }
-  
   // No preview URL found
-  return { url: null, source: 'computed_failed', urls, isrcMismatch: false }
+  return { url: null, source: 'computed_failed', urls, isrcMismatch }
+}
+
+const BPM_SERVICE_URL = process.env.BPM_SERVICE_URL || 'https://bpm-service-7jlgdaerna-ey.a.run.app'
+
+/**
+ * Analysis result for one preview URL (camelCase form of the service's result fields)
+ */
+export interface BpmAnalysisResult {
+  bpmEssentia?: number
+  bpmRawEssentia?: number
+  bpmConfidenceEssentia?: number
+  bpmLibrosa?: number | null
+  bpmRawLibrosa?: number | null
+  bpmConfidenceLibrosa?: number | null
+  keyEssentia?: string
+  scaleEssentia?: string
+  keyscaleConfidenceEssentia?: number
+  keyLibrosa?: string | null
+  scaleLibrosa?: string | null
+  keyscaleConfidenceLibrosa?: number | null
+  debugTxt?: string
+  loudnessLufs?: number | null
+  energy?: number | null
+  danceability?: number | null
+  onsetDensity?: number | null
+  introSeconds?: number | null
+  outroSeconds?: number | null
+}
+
+export interface BpmBatchOptions {
+  maxConfidence: number
+  debugLevel: string
+  fallbackOverride?: string
+}
+
+/**
+ * BPM analysis backend. Batches are submitted with submitBatch and their results read back
+ * from openStream as NDJSON lines ({ index, url, status, bpm_essentia, ... }), which
+ * /api/stream/[batch_id] passes through to the client.
+ */
+export interface BpmAnalyzer {
+  name: 'cloud-run' | 'local'
+  analyze(previewUrl: string): Promise<BpmAnalysisResult>
+  submitBatch(urls: string[], options: BpmBatchOptions): Promise<{ batchId: string | null; totalUrls: number }>
+  openStream(batchId: string): Promise<Response>
+  checkHealth(signal?: AbortSignal): Promise<Response>
 }
 
 /**
@@ -677,22 +603,7 @@ export async function getIdentityToken(serviceUrl: string): Promise<string> {
  * 2. Poll GET /batch/{batch_id} until status is "completed"
  * 3. Extract first result from results object
  */
-async function computeBpmFromService(previewUrl: string): Promise<{ 
-  bpmEssentia?: number
-  bpmRawEssentia?: number
-  bpmConfidenceEssentia?: number
-  bpmLibrosa?: number | null
-  bpmRawLibrosa?: number | null
-  bpmConfidenceLibrosa?: number | null
-  keyEssentia?: string
-  scaleEssentia?: string
-  keyscaleConfidenceEssentia?: number
-  keyLibrosa?: string | null
-  scaleLibrosa?: string | null
-  keyscaleConfidenceLibrosa?: number | null
-  debugTxt?: string
-}> {
-  const serviceUrl = process.env.BPM_SERVICE_URL || 'https://bpm-service-7jlgdaerna-ey.a.run.app'
+async function computeBpmFromService(previewUrl: string, serviceUrl: string = BPM_SERVICE_URL): Promise<BpmAnalysisResult> {
   
   // Get identity token for authentication
   const idToken = await getIdentityToken(serviceUrl)
@@ -759,6 +670,12 @@ async function computeBpmFromService(previewUrl: string): Promise<{
           scale_librosa: string | null
           keyscale_confidence_librosa: number | null
           debug_txt?: string
+          loudness_lufs?: number | null
+          energy?: number | null
+          danceability?: number | null
+          onset_density?: number | null
+          intro_seconds?: number | null
+          outro_seconds?: number | null
         }
       }
     } | null = null
@@ -827,6 +744,12 @@ async function computeBpmFromService(previewUrl: string): Promise<{
       scaleLibrosa: data.scale_librosa ?? null,
       keyscaleConfidenceLibrosa: data.keyscale_confidence_librosa ?? null,
       debugTxt: data.debug_txt,
+      loudnessLufs: data.loudness_lufs ?? null,
+      energy: data.energy ?? null,
+      danceability: data.danceability ?? null,
+      onsetDensity: data.onset_density ?? null,
+      introSeconds: data.intro_seconds ?? null,
+      outroSeconds: data.outro_seconds ?? null,
     }
   } catch (error) {
     clearTimeout(timeoutId)
@@ -837,11 +760,209 @@ async function computeBpmFromService(previewUrl: string): Promise<{
   }
 }
 
+function createCloudRunBpmAnalyzer(serviceUrl: string): BpmAnalyzer {
+  return {
+    name: 'cloud-run',
+    analyze: (previewUrl) => computeBpmFromService(previewUrl, serviceUrl),
+    async submitBatch(urls, options) {
+      const idToken = await getIdentityToken(serviceUrl)
+      const requestBody: Record<string, unknown> = {
+        urls,
+        max_confidence: options.maxConfidence,
+        debug_level: options.debugLevel,
+      }
+      if (options.fallbackOverride) {
+        requestBody.fallback_override = options.fallbackOverride
+      }
+      const response = await fetch(`${serviceUrl}/analyze/batch`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody),
+      })
+      if (!response.ok) {
+        const errorText = await response.text()
+        throw new Error(`BPM service error: ${response.status} ${errorText}`)
+      }
+      const data = await response.json()
+      return { batchId: data.batch_id || null, totalUrls: data.total_urls || urls.length }
+    },
+    async openStream(batchId) {
+      const idToken = await getIdentityToken(serviceUrl)
+      return fetch(`${serviceUrl}/stream/${batchId}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+        },
+      })
+    },
+    async checkHealth(signal) {
+      const idToken = await getIdentityToken(serviceUrl)
+      return fetch(`${serviceUrl}/health`, {
+        signal,
+        cache: 'no-store',
+        headers: {
+          Authorization: `Bearer ${idToken}`,
+        },
+      })
+    },
+  }
+}
+
+const LOCAL_FETCH_TIMEOUT_MS = 30000
+const LOCAL_MAX_AUDIO_BYTES = 10 * 1024 * 1024
+const LOCAL_BATCH_TTL_MS = 15 * 60 * 1000
+
+// Submitted local batches, kept in memory until their stream is read (single-process only)
+const localBatches = new Map<string, { urls: string[]; createdAt: number }>()
+
+async function fetchPreviewAudio(previewUrl: string): Promise<Uint8Array> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), LOCAL_FETCH_TIMEOUT_MS)
+  try {
+    const response = await externalFetch(previewUrl, { signal: controller.signal, cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error(`Preview download returned ${response.status}`)
+    }
+    const declaredLength = Number(response.headers.get('content-length'))
+    if (Number.isFinite(declaredLength) && declaredLength > LOCAL_MAX_AUDIO_BYTES) {
+      throw new Error(`Preview is too large to analyse (${declaredLength} bytes)`)
+    }
+    const buffer = await response.arrayBuffer()
+    if (buffer.byteLength > LOCAL_MAX_AUDIO_BYTES) {
+      throw new Error(`Preview is too large to analyse (${buffer.byteLength} bytes)`)
+    }
+    return new Uint8Array(buffer)
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error('Preview download timed out')
+    }
+    throw error
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Run the in-process pipeline. Results fill the Essentia slots so cache selection and the
+ * UI treat them like a single-algorithm service result.
+ */
+async function computeBpmLocally(previewUrl: string): Promise<BpmAnalysisResult> {
+  const audio = await fetchPreviewAudio(previewUrl)
+  const result = await analyzeAudio(audio)
+  const notes = [`local analyzer: ${result.format}, ${result.sampleRate} Hz, ${result.durationSeconds.toFixed(1)}s`]
+  return {
+    bpmEssentia: result.bpm ?? undefined,
+    bpmRawEssentia: result.bpmRaw ?? undefined,
+    bpmConfidenceEssentia: result.bpmConfidence ?? undefined,
+    bpmLibrosa: null,
+    bpmRawLibrosa: null,
+    bpmConfidenceLibrosa: null,
+    keyEssentia: result.key ?? undefined,
+    scaleEssentia: result.scale ?? undefined,
+    keyscaleConfidenceEssentia: result.keyConfidence ?? undefined,
+    keyLibrosa: null,
+    scaleLibrosa: null,
+    keyscaleConfidenceLibrosa: null,
+    debugTxt: notes.join('; '),
+    loudnessLufs: result.loudnessLufs,
+    energy: result.energy,
+    danceability: result.danceability,
+    onsetDensity: result.onsetDensity,
+    introSeconds: result.introSeconds,
+    outroSeconds: result.outroSeconds,
+  }
+}
+
+const localBpmAnalyzer: BpmAnalyzer = {
+  name: 'local',
+  analyze: computeBpmLocally,
+  async submitBatch(urls) {
+    const now = Date.now()
+    localBatches.forEach((batch, id) => {
+      if (now - batch.createdAt > LOCAL_BATCH_TTL_MS) localBatches.delete(id)
+    })
+    const batchId = `local-${crypto.randomUUID()}`
+    localBatches.set(batchId, { urls, createdAt: now })
+    return { batchId, totalUrls: urls.length }
+  },
+  async openStream(batchId) {
+    const batch = localBatches.get(batchId)
+    if (!batch) {
+      return new Response(JSON.stringify({ error: 'Unknown or expired batch' }), { status: 404 })
+    }
+    localBatches.delete(batchId)
+    const encoder = new TextEncoder()
+    let cancelled = false
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        for (let index = 0; index < batch.urls.length && !cancelled; index += 1) {
+          const url = batch.urls[index]
+          let line: Record<string, unknown>
+          try {
+            const result = await computeBpmLocally(url)
+            line = {
+              index,
+              url,
+              status: 'final',
+              bpm_essentia: result.bpmEssentia ?? null,
+              bpm_raw_essentia: result.bpmRawEssentia ?? null,
+              bpm_confidence_essentia: result.bpmConfidenceEssentia ?? null,
+              bpm_librosa: null,
+              bpm_raw_librosa: null,
+              bpm_confidence_librosa: null,
+              key_essentia: result.keyEssentia ?? null,
+              scale_essentia: result.scaleEssentia ?? null,
+              keyscale_confidence_essentia: result.keyscaleConfidenceEssentia ?? null,
+              key_librosa: null,
+              scale_librosa: null,
+              keyscale_confidence_librosa: null,
+              debug_txt: result.debugTxt ?? null,
+              loudness_lufs: result.loudnessLufs ?? null,
+              energy: result.energy ?? null,
+              danceability: result.danceability ?? null,
+              onset_density: result.onsetDensity ?? null,
+              intro_seconds: result.introSeconds ?? null,
+              outro_seconds: result.outroSeconds ?? null,
+            }
+          } catch (error) {
+            logError(error, {
+              component: 'bpm.localBpmAnalyzer',
+              batchId,
+              index,
+            })
+            line = { index, url, status: 'error', error: error instanceof Error ? error.message : 'Analysis failed' }
+          }
+          if (!cancelled) controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`))
+        }
+        if (!cancelled) controller.close()
+      },
+      cancel() {
+        cancelled = true
+      },
+    })
+    return new Response(body, { status: 200 })
+  },
+  async checkHealth() {
+    return new Response('ok', { status: 200 })
+  },
+}
+
+/**
+ * Analyzer selected by BPM_ANALYZER: "local" runs in-process (no GCP credentials needed),
+ * anything else uses the Cloud Run service at serviceUrl.
+ */
+export function getBpmAnalyzer(serviceUrl: string = BPM_SERVICE_URL): BpmAnalyzer {
+  return process.env.BPM_ANALYZER === 'local' ? localBpmAnalyzer : createCloudRunBpmAnalyzer(serviceUrl)
+}
+
 /**
  * Helper function to determine which BPM/key to use based on confidence
  * Returns 'essentia', 'librosa', or 'essentia' (default if librosa is null)
  */
-function selectBestBpm(
+export function selectBestBpm(
   bpmEssentia: number | null | undefined,
   bpmConfidenceEssentia: number | null | undefined,
   bpmLibrosa: number | null | undefined,
@@ -855,7 +976,7 @@ function selectBestBpm(
   return librosaConf > essentiaConf ? 'librosa' : 'essentia'
 }
 
-function selectBestKey(
+export function selectBestKey(
   keyEssentia: string | null | undefined,
   keyscaleConfidenceEssentia: number | null | undefined,
   keyLibrosa: string | null | undefined,
@@ -899,6 +1020,12 @@ async function storeInCache(params: {
   keySelected?: 'essentia' | 'librosa' | 'manual' | null
   keyManual?: string | null
   scaleManual?: string | null
+  loudnessLufs?: number | null
+  energy?: number | null
+  danceability?: number | null
+  onsetDensity?: number | null
+  introSeconds?: number | null
+  outroSeconds?: number | null
 }): Promise<void> {
   const { 
     spotifyTrackId, isrc, artist, title, 
@@ -908,7 +1035,9 @@ async function storeInCache(params: {
     keyLibrosa, scaleLibrosa, keyscaleConfidenceLibrosa,
     source, error, urls, isrcMismatch = false,
     debugTxt,
-    bpmSelected, bpmManual, keySelected, keyManual, scaleManual
+    bpmSelected, bpmManual, keySelected, keyManual, scaleManual,
+    loudnessLufs = null, energy = null, danceability = null,
+    onsetDensity = null, introSeconds = null, outroSeconds = null
   } = params
   
   // Determine which values to use if not explicitly set
@@ -921,6 +1050,7 @@ async function storeInCache(params: {
   
   // Convert urls array to JSON for storage
   const urlsJson = urls && urls.length > 0 ? JSON.stringify(urls) : null
+  const previewExpiresAt = urlsJson ? getPreviewUrlsExpiry(urls) : null
 
   const runInsert = async (isrcValue: string | null, errorValue: string | null, debugValue?: string | null) => {
     await query(
@@ -932,8 +1062,11 @@ async function storeInCache(params: {
         key_librosa, scale_librosa, keyscale_confidence_librosa,
         bpm_selected, bpm_manual, key_selected, key_manual, scale_manual,
         source, error, urls, isrc_mismatch, 
-        debug_txt, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24::jsonb, $25, $26, NOW())
+        debug_txt,
+        loudness_lufs, energy, danceability, onset_density, intro_seconds, outro_seconds,
+        preview_expires_at,
+        updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24::jsonb, $25, $26, $27, $28, $29, $30, $31, $32, $33, NOW())
        ON CONFLICT (spotify_track_id) DO UPDATE SET
          isrc = COALESCE(EXCLUDED.isrc, track_bpm_cache.isrc),
          artist = EXCLUDED.artist,
@@ -955,8 +1088,15 @@ async function storeInCache(params: {
          source = EXCLUDED.source,
          error = EXCLUDED.error,
          urls = COALESCE(EXCLUDED.urls, track_bpm_cache.urls),
+         preview_expires_at = CASE WHEN EXCLUDED.urls IS NULL THEN track_bpm_cache.preview_expires_at ELSE EXCLUDED.preview_expires_at END,
          isrc_mismatch = EXCLUDED.isrc_mismatch,
          debug_txt = COALESCE(EXCLUDED.debug_txt, track_bpm_cache.debug_txt),
+         loudness_lufs = COALESCE(EXCLUDED.loudness_lufs, track_bpm_cache.loudness_lufs),
+         energy = COALESCE(EXCLUDED.energy, track_bpm_cache.energy),
+         danceability = COALESCE(EXCLUDED.danceability, track_bpm_cache.danceability),
+         onset_density = COALESCE(EXCLUDED.onset_density, track_bpm_cache.onset_density),
+         intro_seconds = COALESCE(EXCLUDED.intro_seconds, track_bpm_cache.intro_seconds),
+         outro_seconds = COALESCE(EXCLUDED.outro_seconds, track_bpm_cache.outro_seconds),
          updated_at = NOW()`,
       [
         spotifyTrackId, isrcValue, artist, title,
@@ -966,7 +1106,9 @@ async function storeInCache(params: {
         keyLibrosa, scaleLibrosa, keyscaleConfidenceLibrosa,
         finalBpmSelected, bpmManual, finalKeySelected, keyManual, scaleManual,
         source, errorValue, urlsJson, isrcMismatch,
-        debugValue ?? debugTxt
+        debugValue ?? debugTxt,
+        loudnessLufs, energy, danceability, onsetDensity, introSeconds, outroSeconds,
+        previewExpiresAt,
       ]
     )
   }
@@ -1001,10 +1143,17 @@ async function storeInCache(params: {
              source = $21,
              error = $22,
              urls = COALESCE($23::jsonb, track_bpm_cache.urls),
+             preview_expires_at = CASE WHEN $23::jsonb IS NULL THEN track_bpm_cache.preview_expires_at ELSE $33::timestamptz END,
              isrc_mismatch = $24,
              debug_txt = COALESCE($25, track_bpm_cache.debug_txt),
+             loudness_lufs = COALESCE($26, track_bpm_cache.loudness_lufs),
+             energy = COALESCE($27, track_bpm_cache.energy),
+             danceability = COALESCE($28, track_bpm_cache.danceability),
+             onset_density = COALESCE($29, track_bpm_cache.onset_density),
+             intro_seconds = COALESCE($30, track_bpm_cache.intro_seconds),
+             outro_seconds = COALESCE($31, track_bpm_cache.outro_seconds),
              updated_at = NOW()
-         WHERE isrc = $26`,
+         WHERE isrc = $32`,
         [
           spotifyTrackId,
           artist,
@@ -1031,7 +1180,14 @@ async function storeInCache(params: {
           urlsJson,
           isrcMismatch,
           debugTxt,
+          loudnessLufs,
+          energy,
+          danceability,
+          onsetDensity,
+          introSeconds,
+          outroSeconds,
           isrc,
+          previewExpiresAt,
         ]
       )
     } else {
@@ -1183,6 +1339,12 @@ export async function storeStreamingBpmResult(params: {
     scale_librosa?: string | null
     keyscale_confidence_librosa?: number | null
     debug_txt?: string | null
+    loudness_lufs?: number | null
+    energy?: number | null
+    danceability?: number | null
+    onset_density?: number | null
+    intro_seconds?: number | null
+    outro_seconds?: number | null
   }
 }): Promise<void> {
   const { spotifyTrackId, previewMeta, result } = params
@@ -1210,15 +1372,100 @@ export async function storeStreamingBpmResult(params: {
     urls: previewMeta.urls,
     isrcMismatch: previewMeta.isrcMismatch || false,
     debugTxt: result.debug_txt ?? null,
+    loudnessLufs: result.loudness_lufs ?? null,
+    energy: result.energy ?? null,
+    danceability: result.danceability ?? null,
+    onsetDensity: result.onset_density ?? null,
+    introSeconds: result.intro_seconds ?? null,
+    outroSeconds: result.outro_seconds ?? null,
   })
 }
 
+const AUDIO_FEATURE_COLUMNS = ['loudness_lufs', 'energy', 'danceability', 'onset_density', 'intro_seconds', 'outro_seconds']
+
+/**
+ * Fill in audio features for cached tracks that have a BPM but none of the features
+ * (the Cloud Run service does not report them), by decoding the stored preview. Runs
+ * from the job worker so streams and requests never wait on a decode. Rows whose
+ * preview cannot be decoded are marked and skipped by later runs.
+ */
+export async function backfillAudioFeatures(limit: number): Promise<{ filled: number; failed: number }> {
+  const rows = await query<{ spotify_track_id: string; urls: PreviewUrlEntry[] | string | null }>(
+    `SELECT spotify_track_id, urls
+     FROM track_bpm_cache
+     WHERE (bpm_essentia IS NOT NULL OR bpm_librosa IS NOT NULL)
+       AND error IS NULL
+       AND urls IS NOT NULL
+       AND audio_features_failed_at IS NULL
+       AND ${AUDIO_FEATURE_COLUMNS.map((column) => `${column} IS NULL`).join(' AND ')}
+     ORDER BY updated_at DESC
+     LIMIT $1`,
+    [limit]
+  )
+
+  let filled = 0
+  let failed = 0
+  for (const row of rows) {
+    const urls = typeof row.urls === 'string' ? JSON.parse(row.urls) : row.urls
+    const previewUrl = getSuccessfulPreviewUrl(urls || undefined)
+    let features: AudioFeatures | null = null
+    try {
+      if (!previewUrl) throw new Error('No successful preview URL')
+      const decoded = getAudioFeatures(await analyzeAudio(await fetchPreviewAudio(previewUrl)))
+      if (Object.values(decoded).every((value) => value == null)) {
+        throw new Error('Preview produced no audio features')
+      }
+      features = decoded
+    } catch (error) {
+      logWarning('Audio feature backfill failed', {
+        component: 'bpm.backfillAudioFeatures',
+        spotifyTrackId: row.spotify_track_id,
+        previewUrl,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+
+    if (features) {
+      await query(
+        `UPDATE track_bpm_cache
+         SET loudness_lufs = $2, energy = $3, danceability = $4,
+             onset_density = $5, intro_seconds = $6, outro_seconds = $7
+         WHERE spotify_track_id = $1`,
+        [
+          row.spotify_track_id,
+          features.loudnessLufs,
+          features.energy,
+          features.danceability,
+          features.onsetDensity,
+          features.introSeconds,
+          features.outroSeconds,
+        ]
+      )
+      filled += 1
+    } else {
+      await query(
+        `UPDATE track_bpm_cache SET audio_features_failed_at = NOW() WHERE spotify_track_id = $1`,
+        [row.spotify_track_id]
+      )
+      failed += 1
+    }
+  }
+  return { filled, failed }
+}
+
 /**
  * Main function to get BPM for a Spotify track
  */
 export async function getBpmForSpotifyTrack(
   spotifyTrackId: string,
-  request?: Request
+  request?: Request,
+  options?: {
+    // Known identifiers skip the Spotify lookup (background jobs have no user session)
+    identifiers?: SpotifyTrackIdentifiers
+    countryCode?: string
+    // Analyse again instead of serving a cached failure (job retries after a thrown error)
+    skipCachedFailure?: boolean
+  }
 ): Promise<BpmResult> {
   // Import logger dynamically to avoid circular dependencies
   const { logError, logInfo, logWarning } = await import('./logger')
@@ -1249,11 +1496,11 @@ export async function getBpmForSpotifyTrack(
   const computationPromise = (async (): Promise<BpmResult> => {
     try {
       // 1. Extract identifiers from Spotify
-      const identifiers = await extractSpotifyIdentifiers(spotifyTrackId)
+      const identifiers = options?.identifiers ?? await extractSpotifyIdentifiers(spotifyTrackId)
       
       // 2. Check cache
       const cached = await checkCache(spotifyTrackId, identifiers.isrc)
-      const selectedBpm = cached ? getSelectedBpm(cached) : null
+      const selectedBpm = cached ? getSelectedBpm(cached).bpm : null
       if (cached && selectedBpm !== null) {
         // Parse urls JSONB if present
         let urls: PreviewUrlEntry[] | undefined
@@ -1274,7 +1521,7 @@ export async function getBpmForSpotifyTrack(
         if (!selectedKey.key || !selectedKey.scale) {
           try {
             // Re-run preview URL resolution with new ISRC logic
-            const countryCode = getCountryCodeFromRequest(request)
+            const countryCode = options?.countryCode || getCountryCodeFromRequest(request)
             const previewResult = await resolvePreviewUrl({
               isrc: identifiers.isrc,
               title: identifiers.title,
@@ -1283,7 +1530,7 @@ export async function getBpmForSpotifyTrack(
             })
             
             if (previewResult.url) {
-              const bpmResult = await computeBpmFromService(previewResult.url)
+              const bpmResult = await getBpmAnalyzer().analyze(previewResult.url)
               
               // Update cache with key/scale and new preview URLs
               await storeInCache({
@@ -1310,13 +1557,14 @@ export async function getBpmForSpotifyTrack(
                 debugTxt: bpmResult.debugTxt || cached.debug_txt,
                 bpmSelected: cached.bpm_selected as 'essentia' | 'librosa' | 'manual' | null,
                 keySelected: cached.key_selected as 'essentia' | 'librosa' | 'manual' | null,
+                ...getAudioFeatures(bpmResult),
               })
               
               // Get updated selected values (using values we just stored)
               const updatedSelectedBpm = bpmResult.keyEssentia || bpmResult.keyLibrosa ? 
                 (bpmResult.bpmLibrosa != null && bpmResult.bpmConfidenceLibrosa != null && 
-                 bpmResult.bpmConfidenceLibrosa > (bpmResult.bpmConfidenceEssentia || 0)) ? bpmResult.bpmLibrosa : (bpmResult.bpmEssentia || getSelectedBpm(cached))
-                : getSelectedBpm(cached)
+                 bpmResult.bpmConfidenceLibrosa > (bpmResult.bpmConfidenceEssentia || 0)) ? bpmResult.bpmLibrosa : (bpmResult.bpmEssentia || getSelectedBpm(cached).bpm)
+                : getSelectedBpm(cached).bpm
               const updatedSelectedKey = bpmResult.keyEssentia || bpmResult.keyLibrosa ?
                 (bpmResult.keyLibrosa != null && bpmResult.keyscaleConfidenceLibrosa != null && 
                  bpmResult.keyscaleConfidenceLibrosa > (bpmResult.keyscaleConfidenceEssentia || 0)) 
@@ -1355,6 +1603,7 @@ export async function getBpmForSpotifyTrack(
                 keyManual: cached.key_manual ?? undefined,
                 scaleManual: cached.scale_manual ?? undefined,
                 debugTxt: bpmResult.debugTxt || (cached.debug_txt ?? undefined),
+                ...getAudioFeatures(bpmResult, cached),
               }
             }
           } catch (error) {
@@ -1382,7 +1631,7 @@ export async function getBpmForSpotifyTrack(
           }
         }
         
-        const finalSelectedBpm = getSelectedBpm(cached)
+        const finalSelectedBpm = getSelectedBpm(cached).bpm
         const finalSelectedKey = getSelectedKey(cached)
         
         const ensured = await ensureSuccessfulPreviewUrlForTrack({
@@ -1418,10 +1667,11 @@ export async function getBpmForSpotifyTrack(
           keyManual: cached.key_manual ?? undefined,
           scaleManual: cached.scale_manual ?? undefined,
           debugTxt: cached.debug_txt ?? undefined,
+          ...getAudioFeatures(null, cached),
         }
       }
       // If cached but bpm is null, return the error if available
-      if (cached && selectedBpm === null) {
+      if (cached && selectedBpm === null && !options?.skipCachedFailure) {
         let urls: PreviewUrlEntry[] | undefined
         if (cached.urls) {
           try {
@@ -1449,7 +1699,7 @@ export async function getBpmForSpotifyTrack(
       }
       
       // 3. Resolve preview URL (stops at first successful source)
-      const countryCode = getCountryCodeFromRequest(request)
+      const countryCode = options?.countryCode || getCountryCodeFromRequest(request)
       const previewResult = await resolvePreviewUrl({
         isrc: identifiers.isrc,
         title: identifiers.title,
@@ -1493,7 +1743,7 @@ export async function getBpmForSpotifyTrack(
       
       // 4. Call external BPM service (only if we have a preview URL)
       try {
-        const bpmResult = await computeBpmFromService(previewResult.url)
+        const bpmResult = await getBpmAnalyzer().analyze(previewResult.url)
         
         // 5. Store in cache
         await storeInCache({
@@ -1518,6 +1768,7 @@ export async function getBpmForSpotifyTrack(
           urls: previewResult.urls,
           isrcMismatch: previewResult.isrcMismatch || false,
           debugTxt: bpmResult.debugTxt || null,
+          ...getAudioFeatures(bpmResult),
         })
         
         // Determine which values to return based on confidence
@@ -1573,6 +1824,7 @@ export async function getBpmForSpotifyTrack(
           keySelected: (bpmResult.keyLibrosa != null && bpmResult.keyscaleConfidenceLibrosa != null && 
                        bpmResult.keyscaleConfidenceLibrosa > (bpmResult.keyscaleConfidenceEssentia || 0)) ? 'librosa' : 'essentia',
           debugTxt: bpmResult.debugTxt ?? undefined,
+          ...getAudioFeatures(bpmResult),
         }
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error'
@@ -1614,10 +1866,18 @@ export async function getBpmForSpotifyTrack(
 
 export async function refreshPreviewUrlsForTrack(
   spotifyTrackId: string,
-  request?: Request
+  request?: Request,
+  options?: {
+    // Known identifiers skip the Spotify lookup (the scheduled sweep has no user session)
+    identifiers?: SpotifyTrackIdentifiers
+    countryCode?: string
+    // Only swap in fresh URLs (the scheduled sweep): the row's error, source and
+    // ISRC flag belong to its analysis, so a miss leaves the row as it was
+    urlsOnly?: boolean
+  }
 ): Promise<{ urls?: PreviewUrlEntry[]; error?: string | null }> {
-  const identifiers = await extractSpotifyIdentifiers(spotifyTrackId)
-  const countryCode = getCountryCodeFromRequest(request)
+  const identifiers = options?.identifiers ?? await extractSpotifyIdentifiers(spotifyTrackId)
+  const countryCode = options?.countryCode ?? getCountryCodeFromRequest(request)
   const previewResult = await resolvePreviewUrl({
     isrc: identifiers.isrc,
     title: identifiers.title,
@@ -1625,6 +1885,20 @@ export async function refreshPreviewUrlsForTrack(
     countryCode,
   })
 
+  if (options?.urlsOnly) {
+    if (!previewResult.url) {
+      return { urls: previewResult.urls, error: 'No replacement preview URL found' }
+    }
+    await query(
+      `UPDATE track_bpm_cache
+       SET urls = $2::jsonb,
+           preview_expires_at = $3
+       WHERE spotify_track_id = $1`,
+      [spotifyTrackId, JSON.stringify(previewResult.urls), getPreviewUrlsExpiry(previewResult.urls)]
+    )
+    return { urls: previewResult.urls, error: null }
+  }
+
   if (!previewResult.url) {
     const errorMessage = previewResult.isrcMismatch
       ? 'ISRC mismatch: Found preview URL but ISRC does not match Spotify track (wrong audio file)'
@@ -1673,7 +1947,7 @@ export async function computeBpmFromPreviewUrl(params: {
       ? `${origin}/api/audio-proxy?url=${encodeURIComponent(previewUrl)}`
       : previewUrl
   const identifiers = await extractSpotifyIdentifiers(spotifyTrackId)
-  const result = await computeBpmFromService(bpmPreviewUrl)
+  const result = await getBpmAnalyzer().analyze(bpmPreviewUrl)
   const urls: PreviewUrlEntry[] = [
     {
       url: previewUrl,
@@ -1708,6 +1982,7 @@ export async function computeBpmFromPreviewUrl(params: {
     urls,
     isrcMismatch: false,
     debugTxt: result.debugTxt ?? null,
+    ...getAudioFeatures(result),
   })
 
   const bpmSelected = selectBestBpm(
@@ -1765,5 +2040,6 @@ export async function computeBpmFromPreviewUrl(params: {
     bpmSelected,
     keySelected,
     debugTxt: result.debugTxt ?? undefined,
+    ...getAudioFeatures(result),
   }
 }
@@ -0,0 +1,304 @@
+import { query } from './db'
+import { backfillAudioFeatures, getBpmForSpotifyTrack, toSpotifyTrackIdentifiers } from './bpm'
+import { logError, logInfo } from './logger'
+
+export type BpmJobStatus = 'queued' | 'running' | 'done' | 'failed'
+
+export interface BpmJobUpdate {
+  trackId: string
+  status: BpmJobStatus
+  attempts: number
+  lastError: string | null
+  updatedAt: string
+}
+
+export interface BpmJobProgress {
+  queued: number
+  running: number
+  done: number
+  failed: number
+  updates: BpmJobUpdate[] // finished jobs updated after `since`
+  checkedAt: string // pass back as `since` on the next poll
+}
+
+export interface BpmJobWorkerSummary {
+  claimed: number
+  done: number
+  failed: number
+  retried: number
+  featuresFilled: number // cached tracks that got audio features decoded after the queue drained
+}
+
+interface ClaimedJobRecord {
+  id: number
+  playlist_id: string
+  spotify_track_id: string
+  isrc: string | null
+  title: string
+  artists: string
+  country_code: string
+  attempts: number
+}
+
+// Thrown errors are retried until a job has been claimed this many times
+const MAX_ATTEMPTS = 3
+// Running jobs older than this belong to a worker that died mid-track
+const STALE_RUNNING_MINUTES = 10
+// Budget reserved for the tracks in flight when a worker run hits its deadline
+const TRACK_BUDGET_MS = 20_000
+const ENQUEUE_BATCH_SIZE = 500
+const DEFAULT_CONCURRENCY = 4
+const DEFAULT_LOOP_INTERVAL_MS = 15_000
+
+/**
+ * Queue BPM analysis for playlist tracks (Spotify track objects). Jobs that are
+ * already queued or running are left alone; finished ones are queued again.
+ * Returns the number of jobs queued.
+ */
+export async function enqueueBpmJobs(params: {
+  playlistId: string
+  tracks: any[]
+  countryCode?: string
+  requestedBy?: string | null
+}): Promise<number> {
+  const { playlistId, tracks, countryCode, requestedBy } = params
+  const seen = new Set<string>()
+  const uniqueTracks = tracks.filter((track) => {
+    if (!track?.id || seen.has(track.id)) return false
+    seen.add(track.id)
+    return true
+  })
+
+  let queued = 0
+  for (let i = 0; i < uniqueTracks.length; i += ENQUEUE_BATCH_SIZE) {
+    const batch = uniqueTracks.slice(i, i + ENQUEUE_BATCH_SIZE)
+    const values: Array<string | null> = [playlistId, (countryCode || 'us').toLowerCase().slice(0, 2), requestedBy ?? null]
+    const placeholders = batch.map((track) => {
+      const identifiers = toSpotifyTrackIdentifiers(track)
+      values.push(track.id, identifiers.isrc, identifiers.title, identifiers.artists)
+      const n = values.length
+      return `($1, $${n - 3}, $${n - 2}, $${n - 1}, $${n}, $2, $3, 'queued', NOW(), NOW())`
+    })
+    const rows = await query<{ id: number }>(
+      `INSERT INTO bpm_jobs (playlist_id, spotify_track_id, isrc, title, artists, country_code, requested_by, status, created_at, updated_at)
+       VALUES ${placeholders.join(', ')}
+       ON CONFLICT (playlist_id, spotify_track_id) DO UPDATE SET
+         isrc = EXCLUDED.isrc,
+         title = EXCLUDED.title,
+         artists = EXCLUDED.artists,
+         country_code = EXCLUDED.country_code,
+         requested_by = EXCLUDED.requested_by,
+         status = 'queued',
+         attempts = 0,
+         last_error = NULL,
+         started_at = NULL,
+         finished_at = NULL,
+         updated_at = NOW()
+       WHERE bpm_jobs.status IN ('done', 'failed')
+       RETURNING id`,
+      values
+    )
+    queued += rows.length
+  }
+
+  logInfo('Queued BPM jobs', {
+    component: 'bpmJobs.enqueueBpmJobs',
+    playlistId,
+    requested: uniqueTracks.length,
+    queued,
+  })
+  return queued
+}
+
+/**
+ * Job counts for a playlist, plus jobs that finished since the previous poll
+ */
+export async function getBpmJobProgress(playlistId: string, since: Date | null): Promise<BpmJobProgress> {
+  const [countRows, updateRows] = await Promise.all([
+    query<{ queued: number; running: number; done: number; failed: number; checked_at: Date }>(
+      `SELECT
+         COALESCE(SUM(CASE WHEN status = 'queued' THEN 1 ELSE 0 END), 0)::int AS queued,
+         COALESCE(SUM(CASE WHEN status = 'running' THEN 1 ELSE 0 END), 0)::int AS running,
+         COALESCE(SUM(CASE WHEN status = 'done' THEN 1 ELSE 0 END), 0)::int AS done,
+         COALESCE(SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END), 0)::int AS failed,
+         NOW() AS checked_at
+       FROM bpm_jobs
+       WHERE playlist_id = $1`,
+      [playlistId]
+    ),
+    query<{ spotify_track_id: string; status: BpmJobStatus; attempts: number; last_error: string | null; updated_at: Date }>(
+      `SELECT spotify_track_id, status, attempts, last_error, updated_at
+       FROM bpm_jobs
+       WHERE playlist_id = $1
+         AND status IN ('done', 'failed')
+         AND ($2::timestamptz IS NULL OR updated_at >= $2::timestamptz)
+       ORDER BY updated_at ASC`,
+      [playlistId, since ? since.toISOString() : null]
+    ),
+  ])
+
+  const counts = countRows[0]
+  return {
+    queued: counts?.queued ?? 0,
+    running: counts?.running ?? 0,
+    done: counts?.done ?? 0,
+    failed: counts?.failed ?? 0,
+    updates: updateRows.map((row) => ({
+      trackId: row.spotify_track_id,
+      status: row.status,
+      attempts: row.attempts,
+      lastError: row.last_error,
+      updatedAt: new Date(row.updated_at).toISOString(),
+    })),
+    checkedAt: new Date(counts?.checked_at ?? Date.now()).toISOString(),
+  }
+}
+
+async function requeueStaleJobs(): Promise<number> {
+  const rows = await query<{ id: number }>(
+    `UPDATE bpm_jobs
+     SET status = CASE WHEN attempts >= $1 THEN 'failed' ELSE 'queued' END,
+         last_error = COALESCE(last_error, 'Worker stopped before the job finished'),
+         finished_at = CASE WHEN attempts >= $1 THEN NOW() ELSE NULL END,
+         updated_at = NOW()
+     WHERE status = 'running'
+       AND started_at < $2::timestamptz
+     RETURNING id`,
+    [MAX_ATTEMPTS, new Date(Date.now() - STALE_RUNNING_MINUTES * 60_000).toISOString()]
+  )
+  return rows.length
+}
+
+async function claimJobs(limit: number): Promise<ClaimedJobRecord[]> {
+  return query<ClaimedJobRecord>(
+    `UPDATE bpm_jobs
+     SET status = 'running', attempts = attempts + 1, started_at = NOW(), updated_at = NOW()
+     WHERE id IN (
+       SELECT id FROM bpm_jobs
+       WHERE status = 'queued'
+       ORDER BY created_at ASC, id ASC
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, playlist_id, spotify_track_id, isrc, title, artists, country_code, attempts`,
+    [limit]
+  )
+}
+
+async function finishJob(id: number, status: BpmJobStatus, lastError: string | null): Promise<void> {
+  await query(
+    `UPDATE bpm_jobs
+     SET status = $2,
+         last_error = $3,
+         finished_at = CASE WHEN $2 IN ('done', 'failed') THEN NOW() ELSE NULL END,
+         updated_at = NOW()
+     WHERE id = $1`,
+    [id, status, lastError]
+  )
+}
+
+/**
+ * Run one claimed job. Tracks without a usable preview fail straight away
+ * (the result is cached, so retrying would not help); thrown errors are
+ * retried until MAX_ATTEMPTS.
+ */
+async function processJob(job: ClaimedJobRecord): Promise<BpmJobStatus> {
+  try {
+    const result = await getBpmForSpotifyTrack(job.spotify_track_id, undefined, {
+      identifiers: {
+        isrc: job.isrc,
+        title: job.title,
+        artists: job.artists,
+        spotifyPreviewUrl: null,
+      },
+      countryCode: job.country_code,
+      // The failed attempt cached its error; retries must not just read it back
+      skipCachedFailure: job.attempts > 1,
+    })
+    if (result.bpm == null && result.error) {
+      await finishJob(job.id, 'failed', result.error)
+      return 'failed'
+    }
+    await finishJob(job.id, 'done', null)
+    return 'done'
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'BPM analysis failed'
+    const status: BpmJobStatus = job.attempts >= MAX_ATTEMPTS ? 'failed' : 'queued'
+    logError(error, {
+      component: 'bpmJobs.processJob',
+      jobId: job.id,
+      playlistId: job.playlist_id,
+      spotifyTrackId: job.spotify_track_id,
+      attempts: job.attempts,
+      nextStatus: status,
+    })
+    await finishJob(job.id, status, message)
+    return status
+  }
+}
+
+/**
+ * Drain queued jobs until the queue is empty or the time budget runs out, then
+ * backfill missing audio features with what is left of it.
+ * Safe to run from several processes at once: claims use SKIP LOCKED.
+ */
+export async function runBpmJobWorker(options: {
+  maxDurationMs: number
+  concurrency?: number
+}): Promise<BpmJobWorkerSummary> {
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY)
+  const deadline = Date.now() + options.maxDurationMs
+  const summary: BpmJobWorkerSummary = { claimed: 0, done: 0, failed: 0, retried: 0, featuresFilled: 0 }
+
+  const requeued = await requeueStaleJobs()
+  if (requeued > 0) {
+    logInfo('Requeued stale BPM jobs', { component: 'bpmJobs.runBpmJobWorker', requeued })
+  }
+
+  while (Date.now() + TRACK_BUDGET_MS < deadline) {
+    const jobs = await claimJobs(concurrency)
+    if (jobs.length === 0) break
+    summary.claimed += jobs.length
+
+    const statuses = await Promise.all(jobs.map((job) => processJob(job)))
+    for (const status of statuses) {
+      if (status === 'done') summary.done += 1
+      else if (status === 'failed') summary.failed += 1
+      else summary.retried += 1
+    }
+  }
+
+  // Spare budget decodes previews for audio features the analyzer did not report
+  while (Date.now() + TRACK_BUDGET_MS < deadline) {
+    const { filled, failed } = await backfillAudioFeatures(concurrency)
+    summary.featuresFilled += filled
+    if (filled + failed === 0) break
+  }
+
+  if (summary.claimed > 0 || summary.featuresFilled > 0) {
+    logInfo('BPM job worker run finished', { component: 'bpmJobs.runBpmJobWorker', ...summary })
+  }
+  return summary
+}
+
+let workerLoopTimer: ReturnType<typeof setTimeout> | null = null
+
+/**
+ * In-process worker loop for long-running servers (BPM_JOB_WORKER=inline);
+ * serverless deployments drain the queue from the cron route instead.
+ */
+export function startBpmJobWorkerLoop(intervalMs: number = DEFAULT_LOOP_INTERVAL_MS): void {
+  if (workerLoopTimer) return
+
+  const tick = async () => {
+    try {
+      await runBpmJobWorker({ maxDurationMs: Math.max(intervalMs * 4, 60_000) })
+    } catch (error) {
+      logError(error, { component: 'bpmJobs.startBpmJobWorkerLoop' })
+    } finally {
+      workerLoopTimer = setTimeout(tick, intervalMs)
+    }
+  }
+
+  workerLoopTimer = setTimeout(tick, intervalMs)
+}
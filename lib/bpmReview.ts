@@ -0,0 +1,283 @@
+import { query } from './db'
+import { toCamelot } from './camelot'
+import { logInfo } from './logger'
+import type { PreviewUrlEntry } from './types'
+
+export type BpmReviewReason =
+  | 'octave' // one estimator is double/half the other (e.g. 87 vs 174)
+  | 'tempo' // estimators disagree by more than the tempo tolerance
+  | 'key_fifth' // keys are neighbours on the Camelot wheel
+  | 'key_relative' // relative major/minor
+  | 'key' // any other key disagreement
+  | 'low_bpm_confidence'
+  | 'low_key_confidence'
+
+export type BpmReviewAction =
+  | 'essentia'
+  | 'librosa'
+  | 'manual'
+  | 'half'
+  | 'double'
+  | 'key_essentia'
+  | 'key_librosa'
+  | 'keep'
+
+export const BPM_REVIEW_ACTIONS: BpmReviewAction[] = [
+  'essentia',
+  'librosa',
+  'manual',
+  'half',
+  'double',
+  'key_essentia',
+  'key_librosa',
+  'keep',
+]
+
+export const DEFAULT_BPM_REVIEW_THRESHOLD = 0.5
+
+export interface BpmReviewItem {
+  spotify_track_id: string
+  isrc: string | null
+  artist: string | null
+  title: string | null
+  updated_at: Date
+  bpm_essentia: number | null
+  bpm_confidence_essentia: number | null
+  bpm_librosa: number | null
+  bpm_confidence_librosa: number | null
+  key_essentia: string | null
+  scale_essentia: string | null
+  keyscale_confidence_essentia: number | null
+  key_librosa: string | null
+  scale_librosa: string | null
+  keyscale_confidence_librosa: number | null
+  bpm_selected: string | null
+  bpm_manual: number | null
+  key_selected: string | null
+  bpm_review_decision: string | null
+  bpm_reviewed_by: string | null
+  bpm_reviewed_at: Date | null
+  urls: PreviewUrlEntry[] | null
+  preview_url: string | null
+  reasons: BpmReviewReason[]
+}
+
+// NUMERIC columns come back from pg as strings
+type NumericColumn =
+  | 'bpm_essentia'
+  | 'bpm_confidence_essentia'
+  | 'bpm_librosa'
+  | 'bpm_confidence_librosa'
+  | 'keyscale_confidence_essentia'
+  | 'keyscale_confidence_librosa'
+  | 'bpm_manual'
+
+type BpmReviewRow = Omit<BpmReviewItem, 'reasons' | 'preview_url' | NumericColumn> &
+  Record<NumericColumn, string | null>
+
+// Estimators within this many BPM are treated as agreeing
+const TEMPO_TOLERANCE_BPM = 2
+// A ratio within 3% of 2:1 counts as an octave (half/double time) error
+const OCTAVE_RATIO_TOLERANCE = 0.03
+const DEFAULT_QUEUE_LIMIT = 200
+
+const toNumber = (value: string | number | null | undefined): number | null => {
+  if (value == null) return null
+  const parsed = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function getPreviewUrl(urls: PreviewUrlEntry[] | null): string | null {
+  if (!urls || urls.length === 0) return null
+  const successful = urls.find((entry) => entry.successful)
+  if (successful?.url) return successful.url
+  return urls[0]?.url || null
+}
+
+function classifyTempo(essentia: number | null, librosa: number | null): BpmReviewReason | null {
+  if (essentia == null || librosa == null || essentia <= 0 || librosa <= 0) return null
+  if (Math.abs(essentia - librosa) <= TEMPO_TOLERANCE_BPM) return null
+  const ratio = Math.max(essentia, librosa) / Math.min(essentia, librosa)
+  return Math.abs(ratio - 2) <= 2 * OCTAVE_RATIO_TOLERANCE ? 'octave' : 'tempo'
+}
+
+function classifyKey(
+  keyEssentia: string | null,
+  scaleEssentia: string | null,
+  keyLibrosa: string | null,
+  scaleLibrosa: string | null
+): BpmReviewReason | null {
+  const essentia = toCamelot(keyEssentia, scaleEssentia)
+  const librosa = toCamelot(keyLibrosa, scaleLibrosa)
+  if (!essentia || !librosa) return null
+  if (essentia.number === librosa.number) {
+    return essentia.letter === librosa.letter ? null : 'key_relative'
+  }
+  const distance = Math.abs(essentia.number - librosa.number)
+  if (essentia.letter === librosa.letter && (distance === 1 || distance === 11)) return 'key_fifth'
+  return 'key'
+}
+
+/**
+ * Why a cached result needs a human look: estimator disagreement, or the
+ * selected estimator's confidence falling below the threshold. Manual
+ * selections are trusted and never flagged for low confidence.
+ */
+export function getBpmReviewReasons(item: Omit<BpmReviewItem, 'reasons' | 'preview_url'>, threshold: number): BpmReviewReason[] {
+  const reasons: BpmReviewReason[] = []
+  const tempo = classifyTempo(item.bpm_essentia, item.bpm_librosa)
+  if (tempo) reasons.push(tempo)
+  const key = classifyKey(item.key_essentia, item.scale_essentia, item.key_librosa, item.scale_librosa)
+  if (key) reasons.push(key)
+
+  if (item.bpm_selected !== 'manual') {
+    const bpmConfidence = item.bpm_selected === 'librosa' ? item.bpm_confidence_librosa : item.bpm_confidence_essentia
+    const bpmValue = item.bpm_selected === 'librosa' ? item.bpm_librosa : item.bpm_essentia
+    if (bpmValue != null && bpmConfidence != null && bpmConfidence < threshold) reasons.push('low_bpm_confidence')
+  }
+  if (item.key_selected !== 'manual') {
+    const keyConfidence = item.key_selected === 'librosa'
+      ? item.keyscale_confidence_librosa
+      : item.keyscale_confidence_essentia
+    const keyValue = item.key_selected === 'librosa' ? item.key_librosa : item.key_essentia
+    if (keyValue && keyConfidence != null && keyConfidence < threshold) reasons.push('low_key_confidence')
+  }
+  return reasons
+}
+
+/**
+ * Cached tracks whose estimators disagree or whose selected result has low
+ * confidence, most recently analysed first
+ */
+export async function getBpmReviewQueue(params: {
+  threshold?: number
+  includeReviewed?: boolean
+  limit?: number
+} = {}): Promise<BpmReviewItem[]> {
+  const threshold = params.threshold ?? DEFAULT_BPM_REVIEW_THRESHOLD
+  const limit = params.limit ?? DEFAULT_QUEUE_LIMIT
+
+  // The SQL filter is a cheap superset; classification below decides what is shown
+  const rows = await query<BpmReviewRow>(
+    `SELECT spotify_track_id, isrc, artist, title, updated_at, urls,
+            bpm_essentia, bpm_confidence_essentia, bpm_librosa, bpm_confidence_librosa,
+            key_essentia, scale_essentia, keyscale_confidence_essentia,
+            key_librosa, scale_librosa, keyscale_confidence_librosa,
+            bpm_selected, bpm_manual, key_selected,
+            bpm_review_decision, bpm_reviewed_by, bpm_reviewed_at
+       FROM track_bpm_cache
+      WHERE ($2::boolean OR bpm_reviewed_at IS NULL)
+        AND (
+          (bpm_essentia IS NOT NULL AND bpm_librosa IS NOT NULL AND ABS(bpm_essentia - bpm_librosa) > $3)
+          OR (key_essentia IS NOT NULL AND key_librosa IS NOT NULL
+              AND (key_essentia <> key_librosa OR COALESCE(scale_essentia, '') <> COALESCE(scale_librosa, '')))
+          OR (COALESCE(bpm_selected, 'essentia') <> 'manual' AND bpm_confidence_essentia < $1)
+          OR (COALESCE(bpm_selected, 'essentia') <> 'manual' AND bpm_confidence_librosa < $1)
+          OR (COALESCE(key_selected, 'essentia') <> 'manual' AND keyscale_confidence_essentia < $1)
+          OR (COALESCE(key_selected, 'essentia') <> 'manual' AND keyscale_confidence_librosa < $1)
+          OR bpm_reviewed_at IS NOT NULL
+        )
+      ORDER BY updated_at DESC
+      LIMIT $4`,
+    [threshold, params.includeReviewed === true, TEMPO_TOLERANCE_BPM, limit * 2]
+  )
+
+  const items: BpmReviewItem[] = []
+  for (const row of rows) {
+    const item = {
+      ...row,
+      bpm_essentia: toNumber(row.bpm_essentia),
+      bpm_confidence_essentia: toNumber(row.bpm_confidence_essentia),
+      bpm_librosa: toNumber(row.bpm_librosa),
+      bpm_confidence_librosa: toNumber(row.bpm_confidence_librosa),
+      keyscale_confidence_essentia: toNumber(row.keyscale_confidence_essentia),
+      keyscale_confidence_librosa: toNumber(row.keyscale_confidence_librosa),
+      bpm_manual: toNumber(row.bpm_manual),
+    }
+    const reasons = getBpmReviewReasons(item, threshold)
+    if (reasons.length === 0 && !item.bpm_reviewed_at) continue
+    items.push({ ...item, reasons, preview_url: getPreviewUrl(row.urls) })
+    if (items.length >= limit) break
+  }
+  return items
+}
+
+// BPM currently shown to users, used as the base for half/double corrections.
+// Mirrors getSelectedBpm in lib/bpm.ts, including its fallbacks when the
+// selected source is empty
+const SELECTED_BPM_SQL = `CASE
+  WHEN bpm_selected = 'manual' AND bpm_manual IS NOT NULL THEN bpm_manual
+  WHEN bpm_selected = 'librosa' AND bpm_librosa IS NOT NULL THEN bpm_librosa
+  ELSE COALESCE(bpm_essentia, bpm_librosa)
+END`
+
+/**
+ * Apply one review decision to several tracks and record who made it.
+ * Half/double skip tracks without a selected BPM. Returns the number of
+ * tracks updated.
+ */
+export async function applyBpmReviewAction(params: {
+  spotifyTrackIds: string[]
+  action: BpmReviewAction
+  reviewerId: string | null
+  bpmManual?: number | null
+}): Promise<number> {
+  const { spotifyTrackIds, action, reviewerId, bpmManual } = params
+  if (spotifyTrackIds.length === 0) return 0
+
+  const values: any[] = [action, reviewerId]
+  let assignments = ''
+  let extraCondition = ''
+  switch (action) {
+    case 'essentia':
+    case 'librosa':
+      assignments = `bpm_selected = $1,`
+      break
+    case 'manual':
+      if (bpmManual == null) {
+        throw new Error('bpmManual is required for a manual BPM decision')
+      }
+      values.push(bpmManual)
+      assignments = `bpm_selected = 'manual', bpm_manual = $3,`
+      break
+    case 'half':
+    case 'double':
+      values.push(action === 'half' ? 0.5 : 2)
+      assignments = `bpm_selected = 'manual', bpm_manual = ROUND((${SELECTED_BPM_SQL}) * $3, 1),`
+      extraCondition = `AND (${SELECTED_BPM_SQL}) IS NOT NULL`
+      break
+    case 'key_essentia':
+      assignments = `key_selected = 'essentia',`
+      break
+    case 'key_librosa':
+      assignments = `key_selected = 'librosa',`
+      break
+    case 'keep':
+      break
+  }
+  const placeholders = spotifyTrackIds.map((id) => {
+    values.push(id)
+    return `$${values.length}`
+  })
+
+  const rows = await query<{ spotify_track_id: string }>(
+    `UPDATE track_bpm_cache
+        SET ${assignments}
+            bpm_review_decision = $1,
+            bpm_reviewed_by = $2,
+            bpm_reviewed_at = NOW(),
+            updated_at = NOW()
+      WHERE spotify_track_id IN (${placeholders.join(',')}) ${extraCondition}
+      RETURNING spotify_track_id`,
+    values
+  )
+
+  logInfo('Applied BPM review decision', {
+    component: 'bpmReview.applyBpmReviewAction',
+    action,
+    reviewerId: reviewerId || 'anonymous',
+    requested: spotifyTrackIds.length,
+    updated: rows.length,
+  })
+  return rows.length
+}
@@ -0,0 +1,388 @@
+import { query } from './db'
+import { logError, logInfo } from './logger'
+
+export type StreamFormat = 'ndjson' | 'sse'
+
+type StreamBatchState = 'streaming' | 'complete' | 'error'
+
+interface StreamBatchRecord {
+  batch_id: string
+  index_to_track_id: Record<string, string> | null
+  total: number | null
+  state: StreamBatchState
+  error: string | null
+  upstream_opens: number
+  lease_expired: boolean
+  finished: number
+}
+
+interface StreamResultRecord {
+  result_index: number
+  payload: Record<string, unknown>
+  seq: string // BIGINT
+}
+
+// A reader that stops renewing its lease for this long is presumed dead
+const READER_LEASE_SECONDS = 30
+const LEASE_RENEW_INTERVAL_MS = 10_000
+// Upstream opens per batch; resumes after the first are best effort (the analyzer may have dropped the batch)
+const MAX_UPSTREAM_OPENS = 3
+const POLL_INTERVAL_MS = 1000
+const SSE_HEARTBEAT_INTERVAL_MS = 15_000
+// Close connections before platform timeouts so clients reconnect with their cursor
+const MAX_CONNECTION_MS = 240_000
+const BATCH_RETENTION_HOURS = 24
+
+// Wakes connections in this process as soon as the reader records a line
+const batchListeners = new Map<string, Set<() => void>>()
+
+function notifyBatch(batchId: string): void {
+  batchListeners.get(batchId)?.forEach((listener) => listener())
+}
+
+function waitForBatchUpdate(batchId: string, timeoutMs: number): Promise<void> {
+  return new Promise((resolve) => {
+    const listeners = batchListeners.get(batchId) ?? new Set<() => void>()
+    batchListeners.set(batchId, listeners)
+    const done = () => {
+      clearTimeout(timeoutId)
+      listeners.delete(done)
+      if (listeners.size === 0) batchListeners.delete(batchId)
+      resolve()
+    }
+    const timeoutId = setTimeout(done, timeoutMs)
+    listeners.add(done)
+  })
+}
+
+/**
+ * Record a submitted batch and its index-to-track mapping. Failures are logged;
+ * the stream route registers unknown batches on first read.
+ */
+export async function registerStreamBatch(
+  batchId: string,
+  indexToTrackId: Record<number, string>,
+  total: number
+): Promise<void> {
+  try {
+    await query(
+      `INSERT INTO bpm_stream_batches (batch_id, index_to_track_id, total, created_at, updated_at)
+       VALUES ($1, $2::jsonb, $3, NOW(), NOW())
+       ON CONFLICT (batch_id) DO UPDATE SET index_to_track_id = EXCLUDED.index_to_track_id, total = EXCLUDED.total, updated_at = NOW()`,
+      [batchId, JSON.stringify(indexToTrackId), total]
+    )
+    await query(
+      `DELETE FROM bpm_stream_batches WHERE created_at < NOW() - ($1::int * INTERVAL '1 hour')`,
+      [BATCH_RETENTION_HOURS]
+    )
+  } catch (error) {
+    logError(error, {
+      component: 'bpmStreamBuffer.registerStreamBatch',
+      batchId,
+    })
+  }
+}
+
+async function getStreamBatch(batchId: string): Promise<StreamBatchRecord | null> {
+  const rows = await query<StreamBatchRecord>(
+    `SELECT b.batch_id, b.index_to_track_id, b.total, b.state, b.error, b.upstream_opens,
+            (b.reader_lease_until IS NULL OR b.reader_lease_until < NOW()) AS lease_expired,
+            (SELECT COUNT(*)::int FROM bpm_stream_results r WHERE r.batch_id = b.batch_id AND r.status <> 'partial') AS finished
+     FROM bpm_stream_batches b
+     WHERE b.batch_id = $1`,
+    [batchId]
+  )
+  return rows[0] ?? null
+}
+
+async function ensureStreamBatch(batchId: string): Promise<StreamBatchRecord> {
+  const existing = await getStreamBatch(batchId)
+  if (existing) return existing
+  await query(
+    `INSERT INTO bpm_stream_batches (batch_id, created_at, updated_at)
+     VALUES ($1, NOW(), NOW())
+     ON CONFLICT (batch_id) DO NOTHING`,
+    [batchId]
+  )
+  const created = await getStreamBatch(batchId)
+  if (!created) {
+    throw new Error(`Failed to register stream batch ${batchId}`)
+  }
+  return created
+}
+
+async function tryAcquireReader(batchId: string): Promise<boolean> {
+  const rows = await query<{ batch_id: string }>(
+    `UPDATE bpm_stream_batches
+     SET reader_lease_until = NOW() + ($2::int * INTERVAL '1 second'),
+         upstream_opens = upstream_opens + 1,
+         updated_at = NOW()
+     WHERE batch_id = $1
+       AND state = 'streaming'
+       AND upstream_opens < $3
+       AND (reader_lease_until IS NULL OR reader_lease_until < NOW())
+     RETURNING batch_id`,
+    [batchId, READER_LEASE_SECONDS, MAX_UPSTREAM_OPENS]
+  )
+  return rows.length > 0
+}
+
+async function renewReaderLease(batchId: string): Promise<void> {
+  await query(
+    `UPDATE bpm_stream_batches
+     SET reader_lease_until = NOW() + ($2::int * INTERVAL '1 second'), updated_at = NOW()
+     WHERE batch_id = $1`,
+    [batchId, READER_LEASE_SECONDS]
+  )
+}
+
+async function finishStreamBatch(
+  batchId: string,
+  state: StreamBatchState,
+  error: string | null,
+  total?: number | null
+): Promise<void> {
+  await query(
+    `UPDATE bpm_stream_batches
+     SET state = $2,
+         error = $3,
+         total = COALESCE($4, total),
+         reader_lease_until = NULL,
+         updated_at = NOW()
+     WHERE batch_id = $1 AND state = 'streaming'`,
+    [batchId, state, error, total ?? null]
+  )
+}
+
+async function releaseReaderLease(batchId: string): Promise<void> {
+  await query(
+    `UPDATE bpm_stream_batches SET reader_lease_until = NULL, updated_at = NOW() WHERE batch_id = $1`,
+    [batchId]
+  )
+}
+
+/**
+ * Store one analyzer line. Result lines are kept per index (a final result is
+ * never replaced by a late partial one); status/progress lines only update the total.
+ */
+async function recordStreamLine(
+  batchId: string,
+  indexToTrackId: Record<string, string>,
+  line: Record<string, any>
+): Promise<'result' | 'complete' | 'error' | 'other'> {
+  if (typeof line.index === 'number') {
+    const status = typeof line.status === 'string' ? line.status : 'final'
+    const trackId = indexToTrackId[String(line.index)] ?? null
+    await query(
+      `INSERT INTO bpm_stream_results (batch_id, result_index, spotify_track_id, status, payload, updated_at)
+       VALUES ($1, $2, $3, $4, $5::jsonb, NOW())
+       ON CONFLICT (batch_id, result_index) DO UPDATE SET
+         status = EXCLUDED.status,
+         payload = EXCLUDED.payload,
+         seq = nextval('bpm_stream_results_seq'),
+         updated_at = NOW()
+       WHERE NOT (bpm_stream_results.status <> 'partial' AND EXCLUDED.status = 'partial')`,
+      [batchId, line.index, trackId, status, JSON.stringify(trackId ? { ...line, track_id: trackId } : line)]
+    )
+    return 'result'
+  }
+  if (line.type === 'complete') {
+    await finishStreamBatch(batchId, 'complete', null, typeof line.total === 'number' ? line.total : null)
+    return 'complete'
+  }
+  if (line.type === 'error') {
+    await finishStreamBatch(batchId, 'error', typeof line.message === 'string' ? line.message : 'Analyzer stream error')
+    return 'error'
+  }
+  if (typeof line.total === 'number') {
+    await query(
+      `UPDATE bpm_stream_batches SET total = $2, updated_at = NOW() WHERE batch_id = $1`,
+      [batchId, line.total]
+    )
+  }
+  return 'other'
+}
+
+/**
+ * Read the analyzer stream into the buffer. Runs independently of the client
+ * connection that started it, so results keep arriving if that client drops.
+ * A stream that closes normally completes the batch; an interrupted one
+ * releases the lease so the next connection can reopen it.
+ */
+async function pumpUpstream(
+  batchId: string,
+  indexToTrackId: Record<string, string>,
+  openStream: (batchId: string) => Promise<Response>
+): Promise<void> {
+  // Renew on a timer: a slow analyzer can go longer than the lease between lines
+  const renewTimer = setInterval(() => {
+    renewReaderLease(batchId).catch((error) => {
+      logError(error, { component: 'bpmStreamBuffer.pumpUpstream', batchId, action: 'renew_lease' })
+    })
+  }, LEASE_RENEW_INTERVAL_MS)
+  try {
+    const response = await openStream(batchId)
+    if (!response.ok || !response.body) {
+      const errorText = response.ok ? 'No response body from BPM service' : await response.text().catch(() => '')
+      await finishStreamBatch(batchId, 'error', `BPM service error: ${response.status} ${errorText}`.trim())
+      return
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let terminal = false
+
+    const handleLine = async (rawLine: string) => {
+      if (!rawLine.trim()) return
+      try {
+        const outcome = await recordStreamLine(batchId, indexToTrackId, JSON.parse(rawLine))
+        if (outcome === 'complete' || outcome === 'error') terminal = true
+      } catch (error) {
+        logError(error, { component: 'bpmStreamBuffer.pumpUpstream', batchId, action: 'record_line' })
+      }
+      notifyBatch(batchId)
+    }
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+      for (const line of lines) {
+        await handleLine(line)
+      }
+    }
+    await handleLine(buffer)
+
+    if (!terminal) {
+      await finishStreamBatch(batchId, 'complete', null)
+    }
+  } catch (error) {
+    logError(error, { component: 'bpmStreamBuffer.pumpUpstream', batchId, action: 'read_upstream' })
+    await releaseReaderLease(batchId).catch(() => {})
+  } finally {
+    clearInterval(renewTimer)
+    notifyBatch(batchId)
+  }
+}
+
+async function readBufferedResults(batchId: string, afterSeq: number): Promise<StreamResultRecord[]> {
+  return query<StreamResultRecord>(
+    `SELECT result_index, payload, seq
+     FROM bpm_stream_results
+     WHERE batch_id = $1 AND seq > $2
+     ORDER BY seq ASC`,
+    [batchId, afterSeq]
+  )
+}
+
+function encodeEvent(format: StreamFormat, data: Record<string, unknown>, cursor?: number): string {
+  if (format === 'sse') {
+    return `${cursor !== undefined ? `id: ${cursor}\n` : ''}data: ${JSON.stringify(data)}\n\n`
+  }
+  return `${JSON.stringify(cursor !== undefined ? { ...data, cursor } : data)}\n`
+}
+
+/**
+ * Client-facing stream for a batch: replays buffered results after `cursor`,
+ * then follows new ones until the batch completes. Each result carries its
+ * cursor (NDJSON `cursor` field, SSE `id`), so a dropped client reconnects
+ * with ?cursor= or Last-Event-ID and only receives what it missed.
+ */
+export async function openBufferedStream(params: {
+  batchId: string
+  cursor: number
+  format: StreamFormat
+  openStream: (batchId: string) => Promise<Response>
+}): Promise<ReadableStream<Uint8Array>> {
+  const { batchId, format, openStream } = params
+  const initial = await ensureStreamBatch(batchId)
+  const encoder = new TextEncoder()
+  let cancelled = false
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => {
+        if (!cancelled) controller.enqueue(encoder.encode(chunk))
+      }
+      const openedAt = Date.now()
+      let lastHeartbeatAt = openedAt
+      let cursor = params.cursor
+      let lastFinished = -1
+
+      if (format === 'sse') send('retry: 2000\n\n')
+      send(encodeEvent(format, {
+        type: 'status',
+        status: 'processing',
+        batch_id: batchId,
+        total: initial.total,
+        processed: initial.finished,
+      }))
+
+      try {
+        while (!cancelled) {
+          // Read the batch state before the results so a terminal state never hides late results
+          const batch = await getStreamBatch(batchId)
+          if (!batch) {
+            send(encodeEvent(format, { type: 'error', message: 'Batch not found' }))
+            break
+          }
+
+          if (batch.state === 'streaming' && batch.lease_expired) {
+            if (await tryAcquireReader(batchId)) {
+              if (batch.upstream_opens > 0) {
+                logInfo('Resuming analyzer stream for buffered batch', {
+                  component: 'bpmStreamBuffer.openBufferedStream',
+                  batchId,
+                  upstreamOpens: batch.upstream_opens + 1,
+                })
+              }
+              void pumpUpstream(batchId, batch.index_to_track_id ?? {}, openStream)
+            } else if (batch.upstream_opens >= MAX_UPSTREAM_OPENS) {
+              await finishStreamBatch(batchId, 'error', 'Analyzer stream was interrupted too many times')
+              continue
+            }
+          }
+
+          const rows = await readBufferedResults(batchId, cursor)
+          for (const row of rows) {
+            cursor = Number(row.seq)
+            send(encodeEvent(format, { type: 'result', ...row.payload }, cursor))
+          }
+
+          if (batch.finished !== lastFinished && batch.total != null) {
+            lastFinished = batch.finished
+            send(encodeEvent(format, { type: 'progress', processed: batch.finished, total: batch.total }))
+          }
+
+          if (batch.state === 'complete') {
+            send(encodeEvent(format, { type: 'complete', batch_id: batchId, total: batch.total ?? batch.finished }, cursor))
+            break
+          }
+          if (batch.state === 'error') {
+            send(encodeEvent(format, { type: 'error', message: batch.error || 'Analyzer stream error' }, cursor))
+            break
+          }
+          if (Date.now() - openedAt > MAX_CONNECTION_MS) {
+            break
+          }
+          if (format === 'sse' && Date.now() - lastHeartbeatAt > SSE_HEARTBEAT_INTERVAL_MS) {
+            lastHeartbeatAt = Date.now()
+            send(': keep-alive\n\n')
+          }
+
+          await waitForBatchUpdate(batchId, POLL_INTERVAL_MS)
+        }
+      } catch (error) {
+        logError(error, { component: 'bpmStreamBuffer.openBufferedStream', batchId, cursor })
+        send(encodeEvent(format, { type: 'error', message: 'Stream buffer unavailable', resumable: true }))
+      }
+      if (!cancelled) controller.close()
+    },
+    cancel() {
+      cancelled = true
+    },
+  })
+}
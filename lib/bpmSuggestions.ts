@@ -0,0 +1,340 @@
+import { query } from './db'
+import { logInfo } from './logger'
+
+export type BpmSuggestionKind = 'bpm' | 'key'
+export type BpmSuggestionStatus = 'pending' | 'accepted' | 'rejected' | 'superseded'
+
+export interface BpmSuggestion {
+  id: number
+  kind: BpmSuggestionKind
+  bpm: number | null
+  key: string | null
+  scale: string | null
+  status: BpmSuggestionStatus
+  userId: string | null // only exposed to admins
+  isMine: boolean
+  resolvedBy: string | null
+  resolvedAt: string | null
+  createdAt: string
+}
+
+export interface BpmSuggestionVote {
+  suggestionId: number // newest suggestion in the group, used to accept it
+  bpm: number | null
+  key: string | null
+  scale: string | null
+  votes: number
+  hasMyVote: boolean
+}
+
+export interface BpmSuggestionSummary {
+  suggestions: BpmSuggestion[]
+  bpmVotes: BpmSuggestionVote[]
+  keyVotes: BpmSuggestionVote[]
+  autoPromoteVotes: number
+}
+
+export interface BpmSuggestionPromotion {
+  kind: BpmSuggestionKind
+  bpm: number | null
+  key: string | null
+  scale: string | null
+  votes: number
+}
+
+interface BpmSuggestionRecord {
+  id: number
+  spotify_track_id: string
+  user_id: string
+  kind: BpmSuggestionKind
+  bpm: string | null
+  key: string | null
+  scale: string | null
+  status: BpmSuggestionStatus
+  resolved_by: string | null
+  resolved_at: Date | null
+  created_at: Date
+}
+
+export const COMMUNITY_REVIEWER = 'community'
+export const SUGGESTION_KEYS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+
+const DEFAULT_AUTO_PROMOTE_VOTES = 3
+const HISTORY_LIMIT = 50
+
+export function getAutoPromoteVotes(): number {
+  const parsed = Number(process.env.BPM_SUGGESTION_AUTO_PROMOTE_VOTES)
+  return Number.isInteger(parsed) && parsed >= 2 ? parsed : DEFAULT_AUTO_PROMOTE_VOTES
+}
+
+const toNumber = (value: string | null): number | null => {
+  if (value == null) return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+// Suggestions that round to the same whole BPM, or name the same key and scale, count as agreeing
+const voteGroupKey = (row: BpmSuggestionRecord) =>
+  row.kind === 'bpm'
+    ? `bpm:${Math.round(toNumber(row.bpm) ?? 0)}`
+    : `key:${row.key}:${(row.scale || '').toLowerCase()}`
+
+function groupVotes(rows: BpmSuggestionRecord[], userId: string | null): BpmSuggestionVote[] {
+  const groups = new Map<string, BpmSuggestionRecord[]>()
+  for (const row of rows) {
+    const groupKey = voteGroupKey(row)
+    groups.set(groupKey, [...(groups.get(groupKey) ?? []), row])
+  }
+
+  return Array.from(groups.values())
+    .map((groupRows) => {
+      const newest = groupRows.reduce((latest, row) => (row.created_at > latest.created_at ? row : latest))
+      const bpmValues = groupRows.map((row) => toNumber(row.bpm)).filter((value): value is number => value != null)
+      return {
+        suggestionId: newest.id,
+        bpm: bpmValues.length > 0
+          ? Math.round((bpmValues.reduce((sum, value) => sum + value, 0) / bpmValues.length) * 10) / 10
+          : null,
+        key: newest.key,
+        scale: newest.scale,
+        votes: new Set(groupRows.map((row) => row.user_id)).size,
+        hasMyVote: userId != null && groupRows.some((row) => row.user_id === userId),
+      }
+    })
+    .sort((a, b) => b.votes - a.votes)
+}
+
+async function getPendingSuggestions(spotifyTrackId: string, kind?: BpmSuggestionKind): Promise<BpmSuggestionRecord[]> {
+  return query<BpmSuggestionRecord>(
+    `SELECT id, spotify_track_id, user_id, kind, bpm, key, scale, status, resolved_by, resolved_at, created_at
+       FROM bpm_suggestions
+      WHERE spotify_track_id = $1
+        AND status = 'pending'
+        AND ($2::text IS NULL OR kind = $2)`,
+    [spotifyTrackId, kind ?? null]
+  )
+}
+
+/**
+ * Suggestion history for a track plus the pending suggestions grouped into votes.
+ * Submitter IDs are only included for admins.
+ */
+export async function getBpmSuggestionSummary(params: {
+  spotifyTrackId: string
+  userId: string | null
+  includeUserIds: boolean
+}): Promise<BpmSuggestionSummary> {
+  const { spotifyTrackId, userId, includeUserIds } = params
+  const rows = await query<BpmSuggestionRecord>(
+    `SELECT id, spotify_track_id, user_id, kind, bpm, key, scale, status, resolved_by, resolved_at, created_at
+       FROM bpm_suggestions
+      WHERE spotify_track_id = $1
+      ORDER BY created_at DESC
+      LIMIT $2`,
+    [spotifyTrackId, HISTORY_LIMIT]
+  )
+
+  const pending = rows.filter((row) => row.status === 'pending')
+  return {
+    suggestions: rows.map((row) => ({
+      id: row.id,
+      kind: row.kind,
+      bpm: toNumber(row.bpm),
+      key: row.key,
+      scale: row.scale,
+      status: row.status,
+      userId: includeUserIds ? row.user_id : null,
+      isMine: userId != null && row.user_id === userId,
+      resolvedBy: includeUserIds || row.resolved_by === COMMUNITY_REVIEWER ? row.resolved_by : null,
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at).toISOString() : null,
+      createdAt: new Date(row.created_at).toISOString(),
+    })),
+    bpmVotes: groupVotes(pending.filter((row) => row.kind === 'bpm'), userId),
+    keyVotes: groupVotes(pending.filter((row) => row.kind === 'key'), userId),
+    autoPromoteVotes: getAutoPromoteVotes(),
+  }
+}
+
+/**
+ * Write a suggested value to track_bpm_cache as the manual selection.
+ * Returns false when the track has not been analysed yet.
+ */
+async function applySuggestedValue(spotifyTrackId: string, suggestion: {
+  kind: BpmSuggestionKind
+  bpm: number | null
+  key: string | null
+  scale: string | null
+}): Promise<boolean> {
+  const rows = suggestion.kind === 'bpm'
+    ? await query<{ spotify_track_id: string }>(
+        `UPDATE track_bpm_cache
+            SET bpm_selected = 'manual', bpm_manual = $2, updated_at = NOW()
+          WHERE spotify_track_id = $1
+          RETURNING spotify_track_id`,
+        [spotifyTrackId, suggestion.bpm]
+      )
+    : await query<{ spotify_track_id: string }>(
+        `UPDATE track_bpm_cache
+            SET key_selected = 'manual', key_manual = $2, scale_manual = $3, updated_at = NOW()
+          WHERE spotify_track_id = $1
+          RETURNING spotify_track_id`,
+        [spotifyTrackId, suggestion.key, suggestion.scale]
+      )
+  return rows.length > 0
+}
+
+async function markAccepted(ids: number[], resolvedBy: string | null): Promise<void> {
+  if (ids.length === 0) return
+  const placeholders = ids.map((_, i) => `$${i + 2}`).join(',')
+  await query(
+    `UPDATE bpm_suggestions
+        SET status = 'accepted', resolved_by = $1, resolved_at = NOW(), updated_at = NOW()
+      WHERE id IN (${placeholders})`,
+    [resolvedBy, ...ids]
+  )
+}
+
+/**
+ * Promote the leading vote group once enough distinct users agree. Tracks with
+ * an admin review decision keep the admin's choice.
+ */
+async function maybeAutoPromote(spotifyTrackId: string, kind: BpmSuggestionKind): Promise<BpmSuggestionPromotion | null> {
+  const pending = await getPendingSuggestions(spotifyTrackId, kind)
+  const [leader] = groupVotes(pending, null)
+  const required = getAutoPromoteVotes()
+  if (!leader || leader.votes < required) return null
+
+  const reviewed = await query<{ spotify_track_id: string }>(
+    `SELECT spotify_track_id FROM track_bpm_cache WHERE spotify_track_id = $1 AND bpm_reviewed_at IS NOT NULL`,
+    [spotifyTrackId]
+  )
+  if (reviewed.length > 0) return null
+
+  const leaderRow = pending.find((row) => row.id === leader.suggestionId)
+  if (!leaderRow) return null
+  const applied = await applySuggestedValue(spotifyTrackId, { kind, bpm: leader.bpm, key: leader.key, scale: leader.scale })
+  if (!applied) return null
+
+  const groupKey = voteGroupKey(leaderRow)
+  const acceptedIds = pending.filter((row) => voteGroupKey(row) === groupKey).map((row) => row.id)
+  await markAccepted(acceptedIds, COMMUNITY_REVIEWER)
+
+  logInfo('Auto-promoted BPM suggestion', {
+    component: 'bpmSuggestions.maybeAutoPromote',
+    spotifyTrackId,
+    kind,
+    votes: leader.votes,
+    bpm: leader.bpm,
+    key: leader.key,
+    scale: leader.scale,
+  })
+  return { kind, bpm: leader.bpm, key: leader.key, scale: leader.scale, votes: leader.votes }
+}
+
+/**
+ * Record a user's suggested BPM and/or key. A newer suggestion of the same kind
+ * supersedes the user's pending one, so each user counts once per value.
+ * Returns the values that were auto-promoted as a result, if any.
+ */
+export async function submitBpmSuggestion(params: {
+  spotifyTrackId: string
+  userId: string
+  bpm?: number | null
+  key?: string | null
+  scale?: string | null
+}): Promise<BpmSuggestionPromotion[]> {
+  const { spotifyTrackId, userId } = params
+  const entries: Array<{ kind: BpmSuggestionKind; bpm: number | null; key: string | null; scale: string | null }> = []
+  if (params.bpm != null) {
+    entries.push({ kind: 'bpm', bpm: Math.round(params.bpm * 10) / 10, key: null, scale: null })
+  }
+  if (params.key && params.scale) {
+    entries.push({ kind: 'key', bpm: null, key: params.key, scale: params.scale.toLowerCase() })
+  }
+
+  const promotions: BpmSuggestionPromotion[] = []
+  for (const entry of entries) {
+    await query(
+      `UPDATE bpm_suggestions
+          SET status = 'superseded', updated_at = NOW()
+        WHERE spotify_track_id = $1 AND user_id = $2 AND kind = $3 AND status = 'pending'`,
+      [spotifyTrackId, userId, entry.kind]
+    )
+    await query(
+      `INSERT INTO bpm_suggestions (spotify_track_id, user_id, kind, bpm, key, scale, status, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, 'pending', NOW(), NOW())`,
+      [spotifyTrackId, userId, entry.kind, entry.bpm, entry.key, entry.scale]
+    )
+    const promotion = await maybeAutoPromote(spotifyTrackId, entry.kind)
+    if (promotion) promotions.push(promotion)
+  }
+
+  logInfo('Recorded BPM suggestion', {
+    component: 'bpmSuggestions.submitBpmSuggestion',
+    spotifyTrackId,
+    userId,
+    kinds: entries.map((entry) => entry.kind),
+    promoted: promotions.length,
+  })
+  return promotions
+}
+
+/**
+ * Admin decision on a pending suggestion. Accepting applies the value as the
+ * manual selection along with every pending suggestion that agrees with it;
+ * `applied` is null when the track has no cached BPM row to update.
+ */
+export async function resolveBpmSuggestion(params: {
+  suggestionId: number
+  action: 'accept' | 'reject'
+  reviewerId: string | null
+}): Promise<{ spotifyTrackId: string; applied: BpmSuggestionPromotion | null } | null> {
+  const { suggestionId, action, reviewerId } = params
+  const rows = await query<BpmSuggestionRecord>(
+    `SELECT id, spotify_track_id, user_id, kind, bpm, key, scale, status, resolved_by, resolved_at, created_at
+       FROM bpm_suggestions
+      WHERE id = $1 AND status = 'pending'`,
+    [suggestionId]
+  )
+  const suggestion = rows[0]
+  if (!suggestion) return null
+
+  if (action === 'reject') {
+    await query(
+      `UPDATE bpm_suggestions
+          SET status = 'rejected', resolved_by = $2, resolved_at = NOW(), updated_at = NOW()
+        WHERE id = $1`,
+      [suggestion.id, reviewerId]
+    )
+    return { spotifyTrackId: suggestion.spotify_track_id, applied: null }
+  }
+
+  const pending = await getPendingSuggestions(suggestion.spotify_track_id, suggestion.kind)
+  const groupKey = voteGroupKey(suggestion)
+  const agreeing = pending.filter((row) => voteGroupKey(row) === groupKey)
+  const value = {
+    kind: suggestion.kind,
+    // Agreeing BPM suggestions are applied as their average, matching the vote shown to the admin
+    bpm: suggestion.kind === 'bpm' ? groupVotes(agreeing, null)[0]?.bpm ?? toNumber(suggestion.bpm) : null,
+    key: suggestion.key,
+    scale: suggestion.scale,
+  }
+  const applied = await applySuggestedValue(suggestion.spotify_track_id, value)
+  if (!applied) {
+    // Nothing to override until the track has been analysed; leave the suggestion pending
+    return { spotifyTrackId: suggestion.spotify_track_id, applied: null }
+  }
+  await markAccepted(agreeing.map((row) => row.id), reviewerId)
+
+  logInfo('Accepted BPM suggestion', {
+    component: 'bpmSuggestions.resolveBpmSuggestion',
+    suggestionId,
+    spotifyTrackId: suggestion.spotify_track_id,
+    reviewerId: reviewerId || 'anonymous',
+    votes: agreeing.length,
+  })
+  return {
+    spotifyTrackId: suggestion.spotify_track_id,
+    applied: { ...value, votes: new Set(agreeing.map((row) => row.user_id)).size },
+  }
+}
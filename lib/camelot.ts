@@ -0,0 +1,114 @@
+/**
+ * Camelot wheel / Open Key helpers for harmonic mixing
+ */
+
+export type KeyNotation = 'classic' | 'camelot' | 'openkey'
+
+export interface CamelotKey {
+  number: number // 1-12 position on the wheel
+  letter: 'A' | 'B' // A = minor, B = major
+}
+
+const PITCH_CLASSES: Record<string, number> = {
+  'C': 0,
+  'B#': 0,
+  'C#': 1,
+  'Db': 1,
+  'D': 2,
+  'D#': 3,
+  'Eb': 3,
+  'E': 4,
+  'Fb': 4,
+  'F': 5,
+  'E#': 5,
+  'F#': 6,
+  'Gb': 6,
+  'G': 7,
+  'G#': 8,
+  'Ab': 8,
+  'A': 9,
+  'A#': 10,
+  'Bb': 10,
+  'B': 11,
+  'Cb': 11,
+}
+
+function getPitchClass(key: string): number | null {
+  const trimmed = key.trim()
+  if (!trimmed) return null
+  const normalized = trimmed.charAt(0).toUpperCase() + trimmed.slice(1).replace('♯', '#').replace('♭', 'b')
+  return PITCH_CLASSES[normalized] ?? null
+}
+
+// Scale words some sources append to the key itself ("Gm", "F#min", "Cmaj")
+const KEY_SCALE_SUFFIX = /\s*(?:[Mm]aj(?:or)?|[Mm]in(?:or)?|m)$/
+
+/**
+ * Split a key into its note and the scale implied by a trailing suffix, if any
+ */
+function splitKey(key: string): { root: string; minor: boolean | null } {
+  const trimmed = key.trim()
+  const match = KEY_SCALE_SUFFIX.exec(trimmed)
+  if (!match) return { root: trimmed, minor: null }
+  return { root: trimmed.slice(0, match.index), minor: !/^\s*[Mm]aj/.test(match[0]) }
+}
+
+/**
+ * Convert a key/scale pair (e.g. "C#", "minor") into its Camelot wheel position.
+ * A stored scale wins over a suffix on the key; the suffix is dropped either way.
+ */
+export function toCamelot(key: string | null | undefined, scale: string | null | undefined): CamelotKey | null {
+  if (!key) return null
+  const { root, minor: keyMinor } = splitKey(key)
+  const minor = scale ? scale.trim().toLowerCase().startsWith('min') : keyMinor === true
+  const pitchClass = getPitchClass(root)
+  if (pitchClass === null) return null
+  // Minor keys share the wheel number of their relative major (three semitones up)
+  const majorPitchClass = minor ? (pitchClass + 3) % 12 : pitchClass
+  const number = ((majorPitchClass * 7) % 12 + 7) % 12 + 1
+  return { number, letter: minor ? 'A' : 'B' }
+}
+
+export function formatCamelot(camelot: CamelotKey): string {
+  return `${camelot.number}${camelot.letter}`
+}
+
+export function formatOpenKey(camelot: CamelotKey): string {
+  const number = ((camelot.number - 8 + 12) % 12) + 1
+  return `${number}${camelot.letter === 'B' ? 'd' : 'm'}`
+}
+
+/**
+ * Format a key/scale pair in the requested notation, or null when it cannot be parsed
+ */
+export function formatKey(
+  key: string | null | undefined,
+  scale: string | null | undefined,
+  notation: KeyNotation
+): string | null {
+  if (notation === 'classic') {
+    if (key && scale) return `${key} ${scale}`
+    return key || scale || null
+  }
+  const camelot = toCamelot(key, scale)
+  if (!camelot) return null
+  return notation === 'camelot' ? formatCamelot(camelot) : formatOpenKey(camelot)
+}
+
+/**
+ * Harmonic compatibility: same key, relative major/minor, or one step around the wheel
+ */
+export function isHarmonicallyCompatible(a: CamelotKey, b: CamelotKey): boolean {
+  if (a.number === b.number) return true
+  if (a.letter !== b.letter) return false
+  const distance = Math.abs(a.number - b.number)
+  return distance === 1 || distance === 11
+}
+
+/**
+ * Numeric sort value that orders keys around the wheel (1A, 1B, 2A, 2B, ...)
+ */
+export function getCamelotSortValue(camelot: CamelotKey | null): number {
+  if (!camelot) return -1
+  return camelot.number * 2 + (camelot.letter === 'B' ? 1 : 0)
+}
@@ -0,0 +1,148 @@
+import { browseWorksByArtistId, searchArtistsByName } from './musicbrainz/client'
+import { hasMusoApiKey, listProfileCredits, searchProfilesByName } from './muso'
+import { logError } from './logger'
+
+export interface MusicBrainzArtistCandidate {
+  id: string
+  name: string
+  // MusicBrainz's own hint, e.g. "Swedish producer"
+  disambiguation: string | null
+  type: string | null
+  country: string | null
+  area: string | null
+  aliases: string[]
+  activeYears: { begin: number | null; end: number | null }
+  score: number | null
+  // Works the artist is credited on; null when the browse failed
+  workCount: number | null
+  sampleCredits: string[]
+}
+
+export interface MusoProfileCandidate {
+  id: string
+  name: string
+  avatarUrl: string | null
+  commonCredits: string[]
+  creditCount: number | null
+  collaboratorsCount: number | null
+  sampleCredits: string[]
+}
+
+export interface CreditCandidates {
+  name: string
+  musicbrainz: MusicBrainzArtistCandidate[]
+  muso: MusoProfileCandidate[]
+}
+
+const CANDIDATE_LIMIT = 5
+const SAMPLE_CREDIT_LIMIT = 3
+const MAX_ALIASES = 6
+
+function parseYear(value: unknown): number | null {
+  if (typeof value !== 'string') return null
+  const year = Number.parseInt(value.slice(0, 4), 10)
+  return Number.isFinite(year) && year > 0 ? year : null
+}
+
+function uniqueNames(values: unknown[], exclude: string): string[] {
+  const seen = new Set([exclude.toLowerCase()])
+  const names: string[] = []
+  for (const value of values) {
+    if (typeof value !== 'string' || !value.trim()) continue
+    const key = value.trim().toLowerCase()
+    if (seen.has(key)) continue
+    seen.add(key)
+    names.push(value.trim())
+  }
+  return names
+}
+
+async function findMusicBrainzCandidates(name: string): Promise<MusicBrainzArtistCandidate[]> {
+  const artists = await searchArtistsByName(name, CANDIDATE_LIMIT)
+  const candidates: MusicBrainzArtistCandidate[] = []
+  // Sequential on purpose: every MusicBrainz request waits for the rate limiter anyway
+  for (const artist of artists) {
+    let sample: { count: number | null; works: any[] } = { count: null, works: [] }
+    try {
+      sample = await browseWorksByArtistId(artist.id, SAMPLE_CREDIT_LIMIT)
+    } catch (error) {
+      logError(error, { component: 'creditCandidates', source: 'musicbrainz', artistId: artist.id })
+    }
+    const artistName = typeof artist.name === 'string' ? artist.name : name
+    candidates.push({
+      id: artist.id,
+      name: artistName,
+      disambiguation: artist.disambiguation || null,
+      type: artist.type || null,
+      country: artist.country || artist.area?.['iso-3166-1-codes']?.[0] || null,
+      area: artist.area?.name || artist['begin-area']?.name || null,
+      aliases: uniqueNames(
+        Array.isArray(artist.aliases) ? artist.aliases.map((alias: any) => alias?.name) : [],
+        artistName
+      ).slice(0, MAX_ALIASES),
+      activeYears: {
+        begin: parseYear(artist['life-span']?.begin),
+        end: parseYear(artist['life-span']?.end),
+      },
+      score: typeof artist.score === 'number' ? artist.score : null,
+      workCount: sample.count,
+      sampleCredits: uniqueNames(sample.works.map((work) => work?.title), '').slice(0, SAMPLE_CREDIT_LIMIT),
+    })
+  }
+  return candidates
+}
+
+async function findMusoCandidates(name: string): Promise<MusoProfileCandidate[]> {
+  const { items: profiles } = await searchProfilesByName(name, { limit: CANDIDATE_LIMIT })
+  const candidates: MusoProfileCandidate[] = []
+  for (const profile of profiles) {
+    if (!profile?.id) continue
+    let sampleCredits: string[] = []
+    try {
+      const { items } = await listProfileCredits({
+        profileId: profile.id,
+        limit: SAMPLE_CREDIT_LIMIT,
+        offset: 0,
+        sortKey: 'releaseDate',
+      })
+      sampleCredits = uniqueNames(items.map((item) => item.track?.title), '')
+    } catch (error) {
+      logError(error, { component: 'creditCandidates', source: 'muso', profileId: profile.id })
+    }
+    candidates.push({
+      id: profile.id,
+      name: profile.name || name,
+      avatarUrl: profile.avatarUrl ?? null,
+      commonCredits: Array.isArray(profile.commonCredits) ? profile.commonCredits : [],
+      creditCount: typeof profile.creditCount === 'number' ? profile.creditCount : null,
+      collaboratorsCount: typeof profile.collaboratorsCount === 'number' ? profile.collaboratorsCount : null,
+      sampleCredits,
+    })
+  }
+  return candidates
+}
+
+/**
+ * People a free-text credits search could mean: MusicBrainz artists matching
+ * the name or an alias, and Muso profiles when a key is configured, each with
+ * a few sample credits so namesakes can be told apart. A failing source is
+ * logged and left empty rather than failing the whole lookup.
+ */
+export async function findCreditCandidates(name: string): Promise<CreditCandidates> {
+  const trimmed = name.trim()
+  let musicbrainz: MusicBrainzArtistCandidate[] = []
+  let muso: MusoProfileCandidate[] = []
+  try {
+    musicbrainz = await findMusicBrainzCandidates(trimmed)
+  } catch (error) {
+    logError(error, { component: 'creditCandidates', source: 'musicbrainz', name: trimmed })
+  }
+  if (hasMusoApiKey()) {
+    try {
+      muso = await findMusoCandidates(trimmed)
+    } catch (error) {
+      logError(error, { component: 'creditCandidates', source: 'muso', name: trimmed })
+    }
+  }
+  return { name: trimmed, musicbrainz, muso }
+}
@@ -0,0 +1,273 @@
+import { query } from './db'
+import { hasMusoApiKey, listProfileCredits, searchProfilesByName } from './muso'
+import { CREDIT_ROLE_IDS, type CreditRole } from './creditRoles'
+import { creditIdentityCacheName } from './creditIdentity'
+import { logError } from './logger'
+
+export type CreditGraphRole = Extract<CreditRole, 'artist' | 'producer' | 'songwriter' | 'mixer' | 'mastering'>
+
+export interface CreditGraphNode {
+  id: string
+  name: string
+  role: CreditGraphRole
+  // Tracks shared with the searched person
+  weight: number
+  firstYear: number | null
+  lastYear: number | null
+}
+
+export interface CreditGraphEdge {
+  source: string
+  target: string
+  weight: number
+}
+
+export interface CreditGraph {
+  name: string
+  trackCount: number
+  years: { min: number; max: number } | null
+  nodes: CreditGraphNode[]
+  // Edges between collaborators; every node is also linked to the searched person by its weight
+  edges: CreditGraphEdge[]
+  sources: { cachedSearches: number; trackCredits: number; muso: number }
+}
+
+interface GraphTrack {
+  key: string
+  isrc: string | null
+  year: number | null
+  // Artist names from the source listing, used when no per-track credits are cached
+  artists: string[]
+}
+
+interface CreditsCacheRow {
+  results: any
+}
+
+interface TrackCreditsRow {
+  isrc: string
+  credits: any
+}
+
+const MUSO_CREDITS_LIMIT = 100
+const CREDITS_LOOKUP_CHUNK_SIZE = 1000
+
+// Which per-track credits list (see /api/musicbrainz/credits) feeds which role
+const TRACK_CREDIT_ROLES: Array<[string, CreditGraphRole]> = [
+  ['performedBy', 'artist'],
+  ['producedBy', 'producer'],
+  ['writtenBy', 'songwriter'],
+  ['mixedBy', 'mixer'],
+  ['masteredBy', 'mastering'],
+]
+
+function parseJsonValue(value: any): any {
+  if (typeof value !== 'string') return value
+  try {
+    return JSON.parse(value)
+  } catch {
+    return null
+  }
+}
+
+function parseYear(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null
+  const year = Number.parseInt(String(value).slice(0, 4), 10)
+  return Number.isFinite(year) && year > 0 ? year : null
+}
+
+function nameList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map((item) => item.trim())
+}
+
+async function loadCachedSearchTracks(nameKeys: string[]): Promise<GraphTrack[]> {
+  const placeholders = nameKeys.map((_, i) => `$${i + 1}`).join(',')
+  const rows = await query<CreditsCacheRow>(`SELECT results FROM credits_cache WHERE name IN (${placeholders})`, nameKeys)
+  return rows.flatMap((row) => {
+    const results = parseJsonValue(row.results)
+    if (!Array.isArray(results)) return []
+    return results.map((result: any) => {
+      const isrc = typeof result?.isrc === 'string' && result.isrc ? result.isrc.toUpperCase() : null
+      return {
+        key: isrc ? `isrc:${isrc}` : `result:${result?.id}-${result?.releaseId}`,
+        isrc,
+        year: parseYear(result?.year),
+        // The search route joins multiple artists with ", "
+        artists: typeof result?.artist === 'string' && result.artist !== 'Unknown artist'
+          ? nameList(result.artist.split(', '))
+          : [],
+      }
+    })
+  })
+}
+
+async function loadMusoTracks(
+  name: string,
+  profileId: string | undefined,
+  yearFrom?: number,
+  yearTo?: number
+): Promise<GraphTrack[]> {
+  if (!profileId) {
+    const { items: profiles } = await searchProfilesByName(name, { limit: 1 })
+    profileId = profiles[0]?.id
+  }
+  if (!profileId) return []
+  const { items } = await listProfileCredits({
+    profileId,
+    limit: MUSO_CREDITS_LIMIT,
+    offset: 0,
+    sortKey: 'releaseDate',
+    releaseDateStart: yearFrom ? `${yearFrom}-01-01` : undefined,
+    releaseDateEnd: yearTo ? `${yearTo}-12-31` : undefined,
+  })
+  return items.map((item) => {
+    const isrc = item.track?.isrcs?.[0]?.toUpperCase() || null
+    return {
+      key: isrc ? `isrc:${isrc}` : `muso:${item.track?.id}`,
+      isrc,
+      year: parseYear(item.releaseDate),
+      artists: nameList(item.artists?.map((artist) => artist.name)),
+    }
+  })
+}
+
+async function loadTrackCredits(isrcs: string[]): Promise<Map<string, any>> {
+  const credits = new Map<string, any>()
+  for (let start = 0; start < isrcs.length; start += CREDITS_LOOKUP_CHUNK_SIZE) {
+    const chunk = isrcs.slice(start, start + CREDITS_LOOKUP_CHUNK_SIZE)
+    const placeholders = chunk.map((_, i) => `$${i + 1}`).join(',')
+    const rows = await query<TrackCreditsRow>(
+      `SELECT isrc, credits FROM track_credits_cache WHERE isrc IN (${placeholders})`,
+      chunk
+    )
+    for (const row of rows) {
+      const payload = parseJsonValue(row.credits)
+      if (payload) credits.set(row.isrc.toUpperCase(), payload)
+    }
+  }
+  return credits
+}
+
+/**
+ * Who a person works with most: collaborators on the tracks from their cached
+ * credit searches (credits_cache) and their Muso credits, counted per role
+ * from the per-track credits in track_credits_cache. The top `perRole`
+ * collaborators of each role become nodes; edges link collaborators that
+ * appear on the same tracks. With the IDs picked in disambiguation, searches
+ * cached under those IDs count too and Muso skips the profile name lookup.
+ */
+export async function buildCreditGraph(params: {
+  name: string
+  yearFrom?: number
+  yearTo?: number
+  perRole: number
+  artistId?: string
+  musoProfileId?: string
+}): Promise<CreditGraph> {
+  const nameKey = params.name.trim().toLowerCase()
+  // Roles searched by name leave the MusicBrainz ID out of the key, so collect every variant
+  const identityKeys = CREDIT_ROLE_IDS.map((role) =>
+    creditIdentityCacheName({ musicBrainzArtistId: params.artistId, musoProfileId: params.musoProfileId }, role)
+  ).filter((key): key is string => Boolean(key))
+  const cachedTracks = await loadCachedSearchTracks(Array.from(new Set([nameKey, ...identityKeys])))
+  let musoTracks: GraphTrack[] = []
+  if (hasMusoApiKey()) {
+    try {
+      musoTracks = await loadMusoTracks(params.name.trim(), params.musoProfileId, params.yearFrom, params.yearTo)
+    } catch (error) {
+      // The cached searches still give a useful graph without Muso
+      logError(error, { component: 'creditGraph', name: params.name })
+    }
+  }
+
+  const tracks = new Map<string, GraphTrack>()
+  for (const track of [...cachedTracks, ...musoTracks]) {
+    const existing = tracks.get(track.key)
+    if (!existing) {
+      tracks.set(track.key, { ...track, artists: [...track.artists] })
+      continue
+    }
+    existing.year = existing.year ?? track.year
+    existing.artists = Array.from(new Set([...existing.artists, ...track.artists]))
+  }
+
+  const years = Array.from(tracks.values())
+    .map((track) => track.year)
+    .filter((year): year is number => year !== null)
+  const inRange = (track: GraphTrack) => {
+    if (params.yearFrom === undefined && params.yearTo === undefined) return true
+    if (track.year === null) return false
+    if (params.yearFrom !== undefined && track.year < params.yearFrom) return false
+    if (params.yearTo !== undefined && track.year > params.yearTo) return false
+    return true
+  }
+  const selectedTracks = Array.from(tracks.values()).filter(inRange)
+  const trackCredits = await loadTrackCredits(
+    Array.from(new Set(selectedTracks.map((track) => track.isrc).filter((isrc): isrc is string => Boolean(isrc))))
+  )
+
+  const nodes = new Map<string, CreditGraphNode>()
+  const nodeIdsByTrack: string[][] = []
+  for (const track of selectedTracks) {
+    const collaborators = new Map<string, { name: string; role: CreditGraphRole }>()
+    const add = (role: CreditGraphRole, name: string) => {
+      if (name.toLowerCase() === nameKey) return
+      collaborators.set(`${role}:${name.toLowerCase()}`, { name, role })
+    }
+    const credits = track.isrc ? trackCredits.get(track.isrc) : undefined
+    if (credits) {
+      for (const [field, role] of TRACK_CREDIT_ROLES) {
+        nameList(credits[field]).forEach((name) => add(role, name))
+      }
+    }
+    if (!credits || nameList(credits.performedBy).length === 0) {
+      track.artists.forEach((name) => add('artist', name))
+    }
+
+    collaborators.forEach((collaborator, id) => {
+      const node = nodes.get(id) ?? { id, ...collaborator, weight: 0, firstYear: null, lastYear: null }
+      node.weight += 1
+      if (track.year !== null) {
+        node.firstYear = node.firstYear === null ? track.year : Math.min(node.firstYear, track.year)
+        node.lastYear = node.lastYear === null ? track.year : Math.max(node.lastYear, track.year)
+      }
+      nodes.set(id, node)
+    })
+    nodeIdsByTrack.push(Array.from(collaborators.keys()))
+  }
+
+  const topNodes = TRACK_CREDIT_ROLES.flatMap(([, role]) =>
+    Array.from(nodes.values())
+      .filter((node) => node.role === role)
+      .sort((a, b) => b.weight - a.weight || a.name.localeCompare(b.name))
+      .slice(0, params.perRole)
+  )
+  const topNodeIds = new Set(topNodes.map((node) => node.id))
+
+  const edges = new Map<string, CreditGraphEdge>()
+  for (const ids of nodeIdsByTrack) {
+    const present = ids.filter((id) => topNodeIds.has(id)).sort()
+    for (let i = 0; i < present.length; i += 1) {
+      for (let j = i + 1; j < present.length; j += 1) {
+        const key = `${present[i]}\n${present[j]}`
+        const edge = edges.get(key) ?? { source: present[i], target: present[j], weight: 0 }
+        edge.weight += 1
+        edges.set(key, edge)
+      }
+    }
+  }
+
+  return {
+    name: params.name.trim(),
+    trackCount: selectedTracks.length,
+    years: years.length > 0 ? { min: Math.min(...years), max: Math.max(...years) } : null,
+    nodes: topNodes,
+    edges: Array.from(edges.values()),
+    sources: {
+      cachedSearches: cachedTracks.length,
+      trackCredits: trackCredits.size,
+      muso: musoTracks.length,
+    },
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * The person a credits search is about, once picked from the disambiguation
+ * candidates (GET /api/credits/candidates). Shared by /api/musicbrainz/search
+ * (server) and the credits search form (client).
+ */
+
+import { creditRoleUsesArtistId, type CreditRole } from './creditRoles'
+
+export interface CreditIdentity {
+  // Canonical name of the chosen artist or profile
+  name: string
+  musicBrainzArtistId: string | null
+  musoProfileId: string | null
+}
+
+export const MBID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * credits_cache.name for a search pinned to stable IDs, e.g.
+ * "mbid:<uuid> muso:<id>"; null when no ID applies and the lowercased
+ * free-text name is the key. The MusicBrainz ID is only part of the key for
+ * roles that are searched by it, so name searches never share its row.
+ */
+export function creditIdentityCacheName(
+  identity: {
+    musicBrainzArtistId?: string | null
+    musoProfileId?: string | null
+  },
+  role: CreditRole
+): string | null {
+  const parts: string[] = []
+  if (identity.musicBrainzArtistId && creditRoleUsesArtistId(role)) {
+    parts.push(`mbid:${identity.musicBrainzArtistId.toLowerCase()}`)
+  }
+  if (identity.musoProfileId) parts.push(`muso:${identity.musoProfileId}`)
+  return parts.length > 0 ? parts.join(' ') : null
+}
@@ -0,0 +1,106 @@
+/**
+ * Composite credit searches: every clause must match and a clause matches
+ * when any of its terms does, e.g. "produced by A (or A's alias) and mixed
+ * by B". Clauses travel as repeated `clause` query params in the form
+ * `role:name`, `role/instrument:name` for instrument roles, with `|` between
+ * alternatives. Shared by /api/musicbrainz/search (server) and the credits
+ * search form (client).
+ */
+
+import { isCreditRole, normalizeCreditInstrument, type CreditRole } from './creditRoles'
+
+export interface CreditQueryTerm {
+  name: string
+  role: CreditRole
+  instrument: string | null
+}
+
+export type CreditQueryClause = CreditQueryTerm[]
+
+// Each term is a separate upstream search, so keep composite queries small
+export const MAX_CREDIT_QUERY_CLAUSES = 4
+export const MAX_CREDIT_QUERY_TERMS = 4
+
+// credits_cache.role for composite searches; credits_cache.name holds creditQueryCacheName()
+export const COMPOSITE_CREDIT_ROLE = 'composite'
+
+export function parseCreditQueryClause(
+  value: string
+): { ok: true; clause: CreditQueryClause } | { ok: false; message: string } {
+  const parts = value.split('|').map((part) => part.trim()).filter(Boolean)
+  if (parts.length === 0) return { ok: false, message: 'Must not be empty' }
+  if (parts.length > MAX_CREDIT_QUERY_TERMS) {
+    return { ok: false, message: `At most ${MAX_CREDIT_QUERY_TERMS} alternatives per clause` }
+  }
+  const clause: CreditQueryClause = []
+  for (const part of parts) {
+    const separator = part.indexOf(':')
+    if (separator === -1) return { ok: false, message: `Expected role:name, received "${part}"` }
+    const [rolePart, instrumentPart] = part.slice(0, separator).trim().toLowerCase().split('/')
+    const name = part.slice(separator + 1).trim()
+    if (!isCreditRole(rolePart)) return { ok: false, message: `Unknown role "${rolePart}"` }
+    if (!name) return { ok: false, message: `Missing name for role "${rolePart}"` }
+    clause.push({ name, role: rolePart, instrument: normalizeCreditInstrument(rolePart, instrumentPart) })
+  }
+  return { ok: true, clause }
+}
+
+export function formatCreditQueryTerm(term: CreditQueryTerm): string {
+  return `${term.role}${term.instrument ? `/${term.instrument}` : ''}:${term.name}`
+}
+
+export function formatCreditQueryClause(clause: CreditQueryClause): string {
+  return clause.map(formatCreditQueryTerm).join(' | ')
+}
+
+// Human-readable form, e.g. "producer:Max Martin AND mixer:Serban Ghenea"
+export function formatCreditQuery(clauses: CreditQueryClause[]): string {
+  return clauses
+    .map((clause) => (clause.length > 1 ? `(${formatCreditQueryClause(clause)})` : formatCreditQueryClause(clause)))
+    .join(' AND ')
+}
+
+/**
+ * Order-independent key for credits_cache.name, so the same clauses and
+ * alternatives in a different order share a cache row
+ */
+export function creditQueryCacheName(clauses: CreditQueryClause[]): string {
+  return clauses
+    .map((clause) => clause.map((term) => formatCreditQueryTerm(term).toLowerCase()).sort().join('|'))
+    .sort()
+    .join('&')
+}
+
+export interface CreditQueryMatch<T> {
+  // Identities the match can be joined on, from creditMatchKeys()
+  keys: string[]
+  item: T
+}
+
+export function creditMatchKeys(recordingId: string | null | undefined, isrcs: Array<string | null | undefined>): string[] {
+  const keys = isrcs
+    .filter((isrc): isrc is string => typeof isrc === 'string' && isrc.trim().length > 0)
+    .map((isrc) => `isrc:${isrc.trim().toUpperCase()}`)
+  if (recordingId && recordingId !== 'unknown') keys.push(`id:${recordingId}`)
+  return keys
+}
+
+/**
+ * Join per-clause matches on ISRC or recording ID. Within a clause the
+ * alternatives are unioned (a recording found under two aliases counts once);
+ * the result keeps the first clause's matches, in order, that share a key
+ * with a match from every other clause.
+ */
+export function joinCreditQueryMatches<T>(clauseMatches: Array<Array<CreditQueryMatch<T>>>): T[] {
+  if (clauseMatches.length === 0) return []
+  const seen = new Set<string>()
+  const firstClause = clauseMatches[0].filter((match) => {
+    const duplicate = match.keys.some((key) => seen.has(key))
+    match.keys.forEach((key) => seen.add(key))
+    return match.keys.length > 0 && !duplicate
+  })
+  const otherKeySets = clauseMatches.slice(1).map((matches) => new Set(matches.flatMap((match) => match.keys)))
+  return firstClause
+    .filter((match) => otherKeySets.every((keys) => match.keys.some((key) => keys.has(key))))
+    .map((match) => match.item)
+}
@@ -0,0 +1,120 @@
+/**
+ * Roles the credits search understands, with the MusicBrainz lookup and Muso
+ * credit categories each one maps to. Shared by /api/musicbrainz/search
+ * (server) and the credits search form (client).
+ */
+
+export const CREDIT_ROLE_IDS = [
+  'producer',
+  'songwriter',
+  'composer',
+  'lyricist',
+  'arranger',
+  'mixer',
+  'engineer',
+  'mastering',
+  'vocalist',
+  'instrument',
+  'label',
+  'artist',
+] as const
+
+export type CreditRole = (typeof CREDIT_ROLE_IDS)[number]
+
+/**
+ * How a role is looked up on MusicBrainz. Recording search only indexes the
+ * artist credit, so roles held in relationships (composer, mastering, session
+ * player, ...) are read from the resolved artist's relationships instead:
+ * - search: Lucene field of the recording search, matched on the free-text name
+ * - recording-rels / work-rels: relationship types on the artist lookup with that inc
+ * - label-releases: releases browsed from the resolved label
+ */
+export type MusicBrainzCreditLookup =
+  | { kind: 'search'; field: string }
+  | { kind: 'recording-rels' | 'work-rels'; types: string[] }
+  | { kind: 'label-releases' }
+
+type CreditRoleDefinition = {
+  label: string
+  musicBrainz: MusicBrainzCreditLookup
+  // Muso /profile/{id}/credits categories; instrument roles use the instrument name instead
+  musoCredits: string[]
+}
+
+export const CREDIT_ROLES: Record<CreditRole, CreditRoleDefinition> = {
+  // Producer credits are collected from the artist's works; the search field is only the fallback
+  producer: { label: 'Producer', musicBrainz: { kind: 'search', field: 'artist' }, musoCredits: ['Producer'] },
+  songwriter: { label: 'Songwriter', musicBrainz: { kind: 'search', field: 'writer' }, musoCredits: ['Composer'] },
+  composer: { label: 'Composer', musicBrainz: { kind: 'work-rels', types: ['composer'] }, musoCredits: ['Composer'] },
+  lyricist: { label: 'Lyricist', musicBrainz: { kind: 'work-rels', types: ['lyricist'] }, musoCredits: ['Lyricist'] },
+  arranger: {
+    label: 'Arranger',
+    musicBrainz: { kind: 'recording-rels', types: ['arranger', 'instrument arranger', 'vocal arranger', 'orchestrator'] },
+    musoCredits: ['Arranger'],
+  },
+  mixer: { label: 'Mixer', musicBrainz: { kind: 'search', field: 'mixer' }, musoCredits: ['Mixer'] },
+  engineer: { label: 'Engineer', musicBrainz: { kind: 'search', field: 'engineer' }, musoCredits: ['Engineer'] },
+  mastering: {
+    label: 'Mastering engineer',
+    musicBrainz: { kind: 'recording-rels', types: ['mastering'] },
+    musoCredits: ['Mastering Engineer'],
+  },
+  vocalist: {
+    label: 'Featured vocalist',
+    musicBrainz: { kind: 'recording-rels', types: ['vocal'] },
+    musoCredits: ['Featured Artist', 'Vocals'],
+  },
+  // Narrowed by the relationship's instrument attribute when an instrument is given
+  instrument: {
+    label: 'Instrument performer',
+    musicBrainz: { kind: 'recording-rels', types: ['instrument'] },
+    musoCredits: ['Musician'],
+  },
+  label: { label: 'Record label', musicBrainz: { kind: 'label-releases' }, musoCredits: ['Label'] },
+  artist: { label: 'Artist', musicBrainz: { kind: 'search', field: 'artist' }, musoCredits: ['Artist'] },
+}
+
+export const DEFAULT_CREDIT_ROLE: CreditRole = 'producer'
+
+export function isCreditRole(value: string): value is CreditRole {
+  return (CREDIT_ROLE_IDS as readonly string[]).includes(value)
+}
+
+/**
+ * Whether a MusicBrainz artist ID picked in disambiguation drives the search
+ * for this role. Roles searched by free-text name, and labels, ignore it.
+ */
+export function creditRoleUsesArtistId(role: CreditRole): boolean {
+  if (role === 'producer' || role === 'artist') return true
+  const { kind } = CREDIT_ROLES[role].musicBrainz
+  return kind === 'recording-rels' || kind === 'work-rels'
+}
+
+// Only instrument searches are narrowed by an instrument; other roles ignore it
+export function normalizeCreditInstrument(role: CreditRole, instrument?: string | null): string | null {
+  if (role !== 'instrument') return null
+  const trimmed = instrument?.trim().toLowerCase()
+  return trimmed || null
+}
+
+/**
+ * Muso credit categories for a role. Muso files session players under the
+ * instrument they played ("Guitar", "Bass"), so an instrument search asks for
+ * that category; without an instrument it uses the generic "Musician" one.
+ */
+export function musoCreditsForRole(role: CreditRole, instrument?: string | null): string[] {
+  const normalized = normalizeCreditInstrument(role, instrument)
+  if (normalized) {
+    return [normalized.replace(/\b\w/g, (char) => char.toUpperCase())]
+  }
+  return CREDIT_ROLES[role].musoCredits
+}
+
+/**
+ * Value stored in credits_cache.role. Instrument searches for different
+ * instruments must not share a cache row, so the instrument is appended.
+ */
+export function creditRoleCacheKey(role: CreditRole, instrument?: string | null): string {
+  const normalized = normalizeCreditInstrument(role, instrument)
+  return normalized ? `${role}:${normalized}` : role
+}
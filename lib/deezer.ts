@@ -1,4 +1,5 @@
 import { logError, logInfo } from './logger'
+import { externalFetch } from './externalFetch'
 
 const DEEZER_API_BASE = 'https://api.deezer.com'
 
@@ -18,7 +19,7 @@ export async function fetchDeezerTrackByIsrc(
 
   const trackUrl = `${DEEZER_API_BASE}/track/isrc:${encodeURIComponent(trimmed)}`
   const start = Date.now()
-  const response = await fetch(trackUrl, {
+  const response = await externalFetch(trackUrl, {
     headers: {
       'User-Agent': 'SpotifyPlaylistBrowser/1.0.0',
       Accept: 'application/json',
@@ -35,7 +36,7 @@ export async function fetchDeezerTrackByIsrc(
     searchUrl.searchParams.set('q', `isrc:"${trimmed}"`)
     searchUrl.searchParams.set('limit', '1')
     const searchStart = Date.now()
-    const searchResponse = await fetch(searchUrl.toString(), {
+    const searchResponse = await externalFetch(searchUrl.toString(), {
       headers: {
         'User-Agent': 'SpotifyPlaylistBrowser/1.0.0',
         Accept: 'application/json',
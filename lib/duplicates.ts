@@ -0,0 +1,325 @@
+import { getCachedUserPlaylists } from './library'
+import { normalizeMatchValue } from './spotify'
+import { query } from './db'
+import { logError } from './logger'
+
+export type DuplicateReason = 'same_id' | 'isrc' | 'bpm_cache' | 'fuzzy'
+
+export interface DuplicateTrackVersion {
+  spotifyId: string
+  name: string
+  artists: string[]
+  album: string
+  durationMs: number
+  isrc: string | null
+  spotifyUrl: string | null
+  playlists: Array<{ id: string; name: string; positions: number[] }>
+}
+
+export interface DuplicateGroup {
+  id: string
+  reasons: DuplicateReason[]
+  versions: DuplicateTrackVersion[]
+}
+
+export interface RedundantEntry {
+  position: number
+  spotifyId: string
+  name: string
+  artists: string[]
+  groupId: string
+  keptPosition: number
+  keptSpotifyId: string
+  reason: DuplicateReason
+}
+
+export interface PlaylistDuplicateSummary {
+  playlistId: string
+  playlistName: string
+  trackCount: number
+  redundantEntries: RedundantEntry[]
+}
+
+export interface DuplicateReport {
+  groups: DuplicateGroup[]
+  playlists: PlaylistDuplicateSummary[]
+  playlistCount: number
+  cachedPlaylistCount: number
+}
+
+interface BpmIdentityRow {
+  spotify_track_id: string
+  isrc: string | null
+  artist: string | null
+  title: string | null
+}
+
+// Versions whose lengths differ by more than this are treated as different edits
+const FUZZY_DURATION_TOLERANCE_MS = 3000
+const FUZZY_TITLE_SIMILARITY = 0.8
+const IDENTITY_LOOKUP_CHUNK_SIZE = 1000
+
+// Strongest evidence first; a pair linked several ways reports the first
+const REASON_PRIORITY: DuplicateReason[] = ['same_id', 'isrc', 'bpm_cache', 'fuzzy']
+
+/**
+ * Title with bracketed and dash-separated version suffixes removed,
+ * e.g. "Song - 2011 Remaster" and "Song (Single Version)" both become "song"
+ */
+function getCoreTitle(title: string): string {
+  return normalizeMatchValue(
+    title
+      .replace(/\s*[\(\[][^\)\]]*[\)\]]/g, ' ')
+      .replace(/\s+-\s+.*(remaster|version|edit|mono|stereo|live|mix|single|album).*$/i, ' ')
+  )
+}
+
+function titleSimilarity(a: string, b: string): number {
+  if (a === b) return 1
+  const tokensA = new Set(a.split(' ').filter(Boolean))
+  const tokensB = new Set(b.split(' ').filter(Boolean))
+  if (tokensA.size === 0 || tokensB.size === 0) return 0
+  let shared = 0
+  tokensA.forEach((token) => {
+    if (tokensB.has(token)) shared += 1
+  })
+  return shared / (tokensA.size + tokensB.size - shared)
+}
+
+class UnionFind {
+  private parent = new Map<string, string>()
+
+  find(id: string): string {
+    let root = this.parent.get(id) ?? id
+    if (root !== id) {
+      root = this.find(root)
+      this.parent.set(id, root)
+    }
+    return root
+  }
+
+  union(a: string, b: string) {
+    const rootA = this.find(a)
+    const rootB = this.find(b)
+    if (rootA !== rootB) {
+      this.parent.set(rootB, rootA)
+    }
+  }
+}
+
+async function getBpmCacheIdentities(spotifyIds: string[]): Promise<Map<string, string>> {
+  const identities = new Map<string, string>()
+  for (let start = 0; start < spotifyIds.length; start += IDENTITY_LOOKUP_CHUNK_SIZE) {
+    const chunk = spotifyIds.slice(start, start + IDENTITY_LOOKUP_CHUNK_SIZE)
+    const placeholders = chunk.map((_, i) => `$${i + 1}`).join(',')
+    const rows = await query<BpmIdentityRow>(
+      `SELECT spotify_track_id, isrc, artist, title
+       FROM track_bpm_cache
+       WHERE spotify_track_id IN (${placeholders})`,
+      chunk
+    )
+    for (const row of rows) {
+      // The cache stores the ISRC and cleaned title/artist it actually analysed,
+      // which can differ from what the playlist entry carries
+      if (row.isrc) {
+        identities.set(row.spotify_track_id, `isrc:${row.isrc.toUpperCase()}`)
+      } else if (row.artist && row.title) {
+        identities.set(
+          row.spotify_track_id,
+          `title:${normalizeMatchValue(row.title)}|${normalizeMatchValue(row.artist)}`
+        )
+      }
+    }
+  }
+  return identities
+}
+
+/**
+ * Group the same recording across the user's cached playlists, even when it
+ * appears under different Spotify IDs (remasters, single vs album, regional releases).
+ * Tracks are linked by ISRC, by shared track_bpm_cache identity, and by fuzzy
+ * title + primary artist + duration similarity.
+ */
+export async function getDuplicateReport(): Promise<DuplicateReport> {
+  const { playlistCount, playlists } = await getCachedUserPlaylists()
+
+  const tracksById = new Map<string, any>()
+  for (const playlist of playlists) {
+    for (const track of playlist.tracks) {
+      if (track?.id && !track.is_local && !tracksById.has(track.id)) {
+        tracksById.set(track.id, track)
+      }
+    }
+  }
+
+  const unionFind = new UnionFind()
+  // Link reasons per unordered pair of Spotify IDs
+  const pairReasons = new Map<string, DuplicateReason>()
+  const link = (a: string, b: string, reason: DuplicateReason) => {
+    if (a === b) return
+    const key = a < b ? `${a}|${b}` : `${b}|${a}`
+    const existing = pairReasons.get(key)
+    if (!existing || REASON_PRIORITY.indexOf(reason) < REASON_PRIORITY.indexOf(existing)) {
+      pairReasons.set(key, reason)
+    }
+    unionFind.union(a, b)
+  }
+  const linkByKey = (keyToIds: Map<string, string[]>, reason: DuplicateReason) => {
+    keyToIds.forEach((ids) => {
+      for (let i = 1; i < ids.length; i += 1) {
+        link(ids[0], ids[i], reason)
+      }
+    })
+  }
+
+  const byIsrc = new Map<string, string[]>()
+  const byArtist = new Map<string, string[]>()
+  tracksById.forEach((track, id) => {
+    const isrc = track.external_ids?.isrc ? String(track.external_ids.isrc).toUpperCase() : null
+    if (isrc) {
+      byIsrc.set(isrc, [...(byIsrc.get(isrc) ?? []), id])
+    }
+    const artist = typeof track.artists?.[0]?.name === 'string' ? normalizeMatchValue(track.artists[0].name) : ''
+    if (artist) {
+      byArtist.set(artist, [...(byArtist.get(artist) ?? []), id])
+    }
+  })
+  linkByKey(byIsrc, 'isrc')
+
+  try {
+    const identities = await getBpmCacheIdentities(Array.from(tracksById.keys()))
+    const byIdentity = new Map<string, string[]>()
+    identities.forEach((identity, id) => {
+      byIdentity.set(identity, [...(byIdentity.get(identity) ?? []), id])
+    })
+    linkByKey(byIdentity, 'bpm_cache')
+  } catch (error) {
+    logError(error, { component: 'duplicates.getDuplicateReport', action: 'load_bpm_identity' })
+  }
+
+  // Fuzzy matching only compares tracks by the same primary artist
+  byArtist.forEach((ids) => {
+    const candidates = ids.map((id) => {
+      const track = tracksById.get(id)
+      return { id, title: getCoreTitle(track.name ?? ''), durationMs: track.duration_ms ?? 0 }
+    })
+    for (let i = 0; i < candidates.length; i += 1) {
+      for (let j = i + 1; j < candidates.length; j += 1) {
+        const a = candidates[i]
+        const b = candidates[j]
+        if (!a.title || !b.title) continue
+        if (Math.abs(a.durationMs - b.durationMs) > FUZZY_DURATION_TOLERANCE_MS) continue
+        if (titleSimilarity(a.title, b.title) >= FUZZY_TITLE_SIMILARITY) {
+          link(a.id, b.id, 'fuzzy')
+        }
+      }
+    }
+  })
+
+  // Occurrences per Spotify ID, with 1-based playlist positions
+  const occurrences = new Map<string, Map<string, number[]>>()
+  for (const playlist of playlists) {
+    playlist.tracks.forEach((track, index) => {
+      if (!track?.id || track.is_local) return
+      const byPlaylist = occurrences.get(track.id) ?? new Map<string, number[]>()
+      byPlaylist.set(playlist.id, [...(byPlaylist.get(playlist.id) ?? []), index + 1])
+      occurrences.set(track.id, byPlaylist)
+    })
+  }
+  const playlistNames = new Map(playlists.map((playlist) => [playlist.id, playlist.name]))
+
+  const members = new Map<string, string[]>()
+  tracksById.forEach((_, id) => {
+    const root = unionFind.find(id)
+    members.set(root, [...(members.get(root) ?? []), id])
+  })
+
+  const groupIdByTrack = new Map<string, string>()
+  const groups: DuplicateGroup[] = []
+  members.forEach((ids, root) => {
+    const repeatsWithinPlaylist = ids.some((id) =>
+      Array.from(occurrences.get(id)?.values() ?? []).some((positions) => positions.length > 1)
+    )
+    if (ids.length < 2 && !repeatsWithinPlaylist) return
+
+    const reasons = new Set<DuplicateReason>()
+    if (repeatsWithinPlaylist) reasons.add('same_id')
+    for (let i = 0; i < ids.length; i += 1) {
+      for (let j = i + 1; j < ids.length; j += 1) {
+        const key = ids[i] < ids[j] ? `${ids[i]}|${ids[j]}` : `${ids[j]}|${ids[i]}`
+        const reason = pairReasons.get(key)
+        if (reason) reasons.add(reason)
+      }
+    }
+
+    ids.forEach((id) => groupIdByTrack.set(id, root))
+    groups.push({
+      id: root,
+      reasons: REASON_PRIORITY.filter((reason) => reasons.has(reason)),
+      versions: ids.map((id) => {
+        const track = tracksById.get(id)
+        return {
+          spotifyId: id,
+          name: track.name ?? '',
+          artists: Array.isArray(track.artists) ? track.artists.map((artist: any) => artist?.name).filter(Boolean) : [],
+          album: track.album?.name ?? '',
+          durationMs: track.duration_ms ?? 0,
+          isrc: track.external_ids?.isrc ?? null,
+          spotifyUrl: track.external_urls?.spotify ?? null,
+          playlists: Array.from(occurrences.get(id)?.entries() ?? []).map(([playlistId, positions]) => ({
+            id: playlistId,
+            name: playlistNames.get(playlistId) ?? playlistId,
+            positions,
+          })),
+        }
+      }),
+    })
+  })
+
+  const pairReason = (a: string, b: string): DuplicateReason => {
+    if (a === b) return 'same_id'
+    const key = a < b ? `${a}|${b}` : `${b}|${a}`
+    // Members of a group can be connected only transitively; report the weakest link type then
+    return pairReasons.get(key) ?? 'fuzzy'
+  }
+
+  // Within each playlist, the first entry of a group is kept and later ones are redundant
+  const playlistSummaries: PlaylistDuplicateSummary[] = playlists.map((playlist) => {
+    const keptByGroup = new Map<string, { position: number; spotifyId: string }>()
+    const redundantEntries: RedundantEntry[] = []
+    playlist.tracks.forEach((track, index) => {
+      const groupId = track?.id ? groupIdByTrack.get(track.id) : undefined
+      if (!groupId) return
+      const kept = keptByGroup.get(groupId)
+      if (!kept) {
+        keptByGroup.set(groupId, { position: index + 1, spotifyId: track.id })
+        return
+      }
+      redundantEntries.push({
+        position: index + 1,
+        spotifyId: track.id,
+        name: track.name ?? '',
+        artists: Array.isArray(track.artists) ? track.artists.map((artist: any) => artist?.name).filter(Boolean) : [],
+        groupId,
+        keptPosition: kept.position,
+        keptSpotifyId: kept.spotifyId,
+        reason: pairReason(kept.spotifyId, track.id),
+      })
+    })
+    return {
+      playlistId: playlist.id,
+      playlistName: playlist.name,
+      trackCount: playlist.tracks.length,
+      redundantEntries,
+    }
+  })
+
+  groups.sort((a, b) => b.versions.length - a.versions.length)
+
+  return {
+    groups,
+    playlists: playlistSummaries.filter((summary) => summary.redundantEntries.length > 0),
+    playlistCount,
+    cachedPlaylistCount: playlists.length,
+  }
+}
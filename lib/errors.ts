@@ -54,6 +54,28 @@ export class DatabaseError extends Error {
   }
 }
 
+export class FixtureNotFoundError extends Error {
+  constructor(message: string, public url: string, public fixturePath: string) {
+    super(message)
+    this.name = 'FixtureNotFoundError'
+    Object.setPrototypeOf(this, FixtureNotFoundError.prototype)
+  }
+}
+
+// Non-2xx response from one of our own routes, thrown by lib/apiClient.ts
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public issues: Array<{ path: string; message: string }> = [],
+    public body?: unknown
+  ) {
+    super(message)
+    this.name = 'ApiRequestError'
+    Object.setPrototypeOf(this, ApiRequestError.prototype)
+  }
+}
+
 /**
  * Helper function to create appropriate error from response
  */
@@ -0,0 +1,195 @@
+import crypto from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import { FixtureNotFoundError } from './errors'
+import { logInfo, logWarning } from './logger'
+
+/**
+ * Record/replay layer for calls to external services (Spotify, MusicBrainz,
+ * Muso, Deezer, iTunes), selected by EXTERNAL_API_MODE:
+ * - live (default): plain fetch
+ * - record: fetch, then save the request/response pair as a fixture
+ * - replay: serve saved fixtures without touching the network
+ */
+export type ExternalApiMode = 'live' | 'record' | 'replay'
+
+interface ExternalFixture {
+  request: { method: string; url: string; body: string | null }
+  response: {
+    status: number
+    statusText: string
+    headers: Record<string, string>
+    body: string
+    bodyEncoding: 'utf8' | 'base64'
+  }
+  recordedAt: string
+}
+
+const DEFAULT_FIXTURES_DIR = 'fixtures/external'
+// Query parameters that may carry credentials are redacted from fixture keys and files
+const SECRET_PARAM_PATTERN = /key|token|secret|password|signature|hmac/i
+// Form fields of the OAuth token exchange/refresh that are redacted from fixture keys and files
+const SECRET_FORM_FIELD_PATTERN = /^code$|verifier|token|secret|password/i
+// Credentials in JSON responses (Spotify token endpoint) that are never written to fixtures
+const SECRET_RESPONSE_FIELDS = ['access_token', 'refresh_token', 'id_token']
+// Tokens rotate, so headers are never part of the key or the saved fixture
+const SAVED_RESPONSE_HEADERS = ['content-type', 'location', 'retry-after', 'content-range', 'accept-ranges']
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304])
+
+export function getExternalApiMode(): ExternalApiMode {
+  const mode = (process.env.EXTERNAL_API_MODE || '').trim().toLowerCase()
+  return mode === 'record' || mode === 'replay' ? mode : 'live'
+}
+
+function getFixturesDir(): string {
+  return path.resolve(process.cwd(), process.env.EXTERNAL_API_FIXTURES_DIR || DEFAULT_FIXTURES_DIR)
+}
+
+function redactUrl(rawUrl: string): string {
+  const url = new URL(rawUrl)
+  for (const key of Array.from(url.searchParams.keys())) {
+    if (SECRET_PARAM_PATTERN.test(key)) {
+      url.searchParams.set(key, 'REDACTED')
+    }
+  }
+  return url.toString()
+}
+
+function getRequestBody(body: RequestInit['body']): string | null {
+  if (body == null) return null
+  if (typeof body === 'string') return body
+  if (body instanceof URLSearchParams) {
+    const redacted = new URLSearchParams(body)
+    for (const key of Array.from(redacted.keys())) {
+      if (SECRET_FORM_FIELD_PATTERN.test(key)) {
+        redacted.set(key, 'REDACTED')
+      }
+    }
+    return redacted.toString()
+  }
+  // Streams, blobs and form data aren't used by the wrapped clients; key them by URL alone
+  return null
+}
+
+function getFixturePath(method: string, url: string, body: string | null): string {
+  const parsed = new URL(url)
+  const hash = crypto
+    .createHash('sha256')
+    .update(`${method} ${url}\n${body ?? ''}`)
+    .digest('hex')
+    .slice(0, 16)
+  const slug = `${parsed.pathname}`.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'root'
+  return path.join(getFixturesDir(), parsed.hostname, `${method.toLowerCase()}-${slug}-${hash}.json`)
+}
+
+function isTextContentType(contentType: string): boolean {
+  return /json|text|xml|javascript|x-www-form-urlencoded/i.test(contentType)
+}
+
+function toResponse(fixture: ExternalFixture): Response {
+  const { status, statusText, headers, body, bodyEncoding } = fixture.response
+  const payload = NULL_BODY_STATUSES.has(status)
+    ? null
+    : bodyEncoding === 'base64'
+      ? Buffer.from(body, 'base64')
+      : body
+  return new Response(payload, { status, statusText, headers })
+}
+
+async function replay(fixturePath: string, url: string): Promise<Response> {
+  let raw: string
+  try {
+    raw = await readFile(fixturePath, 'utf8')
+  } catch {
+    logWarning('No fixture recorded for external request', {
+      component: 'externalFetch.replay',
+      url,
+      fixturePath,
+    })
+    throw new FixtureNotFoundError(
+      `No recorded fixture for ${url}. Run with EXTERNAL_API_MODE=record to capture it.`,
+      url,
+      fixturePath
+    )
+  }
+  return toResponse(JSON.parse(raw) as ExternalFixture)
+}
+
+function redactResponseBody(body: string, contentType: string): string {
+  if (!/json/i.test(contentType)) return body
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(body)
+  } catch {
+    return body
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return body
+  const record = parsed as Record<string, unknown>
+  if (!SECRET_RESPONSE_FIELDS.some((field) => field in record)) return body
+  for (const field of SECRET_RESPONSE_FIELDS) {
+    if (field in record) record[field] = 'REDACTED'
+  }
+  return JSON.stringify(record)
+}
+
+async function record(
+  fixturePath: string,
+  request: ExternalFixture['request'],
+  response: Response
+): Promise<Response> {
+  const buffer = Buffer.from(await response.arrayBuffer())
+  const contentType = response.headers.get('content-type') || ''
+  const headers: Record<string, string> = {}
+  for (const name of SAVED_RESPONSE_HEADERS) {
+    const value = response.headers.get(name)
+    if (value) headers[name] = value
+  }
+  const bodyEncoding = isTextContentType(contentType) ? 'utf8' : 'base64'
+  const fixture: ExternalFixture = {
+    request,
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: buffer.toString(bodyEncoding),
+      bodyEncoding,
+    },
+    recordedAt: new Date().toISOString(),
+  }
+  // The caller gets the real tokens; only the saved copy is redacted
+  const saved: ExternalFixture =
+    bodyEncoding === 'utf8'
+      ? { ...fixture, response: { ...fixture.response, body: redactResponseBody(fixture.response.body, contentType) } }
+      : fixture
+  await mkdir(path.dirname(fixturePath), { recursive: true })
+  await writeFile(fixturePath, `${JSON.stringify(saved, null, 2)}\n`, 'utf8')
+  logInfo('Recorded external request fixture', {
+    component: 'externalFetch.record',
+    url: request.url,
+    status: response.status,
+    fixturePath,
+  })
+  return toResponse(fixture)
+}
+
+/**
+ * Drop-in replacement for fetch() for external API calls. In live mode it is
+ * exactly fetch; fixtures are keyed by method, URL and body (secrets redacted).
+ */
+export async function externalFetch(input: string | URL, init: RequestInit = {}): Promise<Response> {
+  const mode = getExternalApiMode()
+  if (mode === 'live') {
+    return fetch(input, init)
+  }
+
+  const method = (init.method || 'GET').toUpperCase()
+  const url = redactUrl(input.toString())
+  const body = getRequestBody(init.body)
+  const fixturePath = getFixturePath(method, url, body)
+
+  if (mode === 'replay') {
+    return replay(fixturePath, url)
+  }
+  const response = await fetch(input, init)
+  return record(fixturePath, { method, url, body }, response)
+}
@@ -0,0 +1,194 @@
+import { getPlaylists, normalizeMatchValue } from './spotify'
+import { getSelectedBpmKeyForTracks, type SelectedBpmKey } from './bpm'
+import { query } from './db'
+import { logError } from './logger'
+
+interface PlaylistCacheRecord {
+  playlist_id: string
+  playlist_data: any
+  tracks_data: any
+  updated_at: Date
+}
+
+export interface LibraryPlaylistRef {
+  id: string
+  name: string
+}
+
+export interface LibraryTrack {
+  id: string
+  name: string
+  artists: string[]
+  album: string
+  albumImageUrl: string | null
+  releaseDate: string | null
+  durationMs: number
+  isrcs: string[]
+  spotifyUrl: string | null
+  bpm: number | null
+  key: string | null
+  scale: string | null
+  playlists: LibraryPlaylistRef[]
+}
+
+export interface LibraryIndex {
+  tracks: LibraryTrack[]
+  playlistCount: number
+  cachedPlaylistCount: number
+  trackOccurrences: number
+}
+
+/**
+ * Title/artist match key: bracketed suffixes such as "(Remastered 2011)" are
+ * dropped and only the primary artist is used, so the same recording matches
+ * across albums and compilations
+ */
+function getTitleArtistKey(track: any): string | null {
+  const title = typeof track?.name === 'string'
+    ? normalizeMatchValue(track.name.replace(/\s*[\(\[][^\)\]]*[\)\]]/g, ' '))
+    : ''
+  const artist = typeof track?.artists?.[0]?.name === 'string' ? normalizeMatchValue(track.artists[0].name) : ''
+  if (!title || !artist) return null
+  return `${title}|${artist}`
+}
+
+function parseTracksData(value: any): any[] {
+  if (Array.isArray(value)) return value
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value)
+      return Array.isArray(parsed) ? parsed : []
+    } catch {
+      return []
+    }
+  }
+  return []
+}
+
+export interface CachedUserPlaylist {
+  id: string
+  name: string
+  tracks: any[]
+}
+
+/**
+ * The current user's playlists that have a playlist_cache entry, in Spotify order,
+ * with parsed tracks_data (which includes ISRCs filled in by ensureTracksHaveIsrcs)
+ */
+export async function getCachedUserPlaylists(): Promise<{ playlistCount: number; playlists: CachedUserPlaylist[] }> {
+  const playlists = await getPlaylists({ includeFollowers: false })
+  if (playlists.length === 0) {
+    return { playlistCount: 0, playlists: [] }
+  }
+
+  const playlistIds = playlists.map((playlist) => playlist.id)
+  const placeholders = playlistIds.map((_, i) => `$${i + 1}`).join(',')
+  const cachedPlaylists = await query<PlaylistCacheRecord>(
+    `SELECT playlist_id, playlist_data, tracks_data, updated_at
+     FROM playlist_cache
+     WHERE playlist_id IN (${placeholders})`,
+    playlistIds
+  )
+
+  const orderById = new Map(playlistIds.map((id, index) => [id, index]))
+  cachedPlaylists.sort((a, b) => (orderById.get(a.playlist_id) ?? 0) - (orderById.get(b.playlist_id) ?? 0))
+
+  return {
+    playlistCount: playlists.length,
+    playlists: cachedPlaylists.map((cached) => ({
+      id: cached.playlist_id,
+      name: cached.playlist_data?.name ?? cached.playlist_id,
+      tracks: parseTracksData(cached.tracks_data),
+    })),
+  }
+}
+
+/**
+ * Build one deduplicated track index across the user's cached playlists.
+ * Tracks are matched by ISRC first, then by normalized title and primary artist;
+ * each entry lists every playlist it appears in. Playlists that have never been
+ * opened (and so are not in playlist_cache) are not included.
+ */
+export async function getLibraryIndex(): Promise<LibraryIndex> {
+  const { playlistCount, playlists: cachedPlaylists } = await getCachedUserPlaylists()
+
+  const entries: LibraryTrack[] = []
+  const byIsrc = new Map<string, LibraryTrack>()
+  const byTitleArtist = new Map<string, LibraryTrack>()
+  const spotifyIdsByEntry = new Map<LibraryTrack, string[]>()
+  let trackOccurrences = 0
+
+  for (const cached of cachedPlaylists) {
+    const playlistRef: LibraryPlaylistRef = { id: cached.id, name: cached.name }
+
+    for (const track of cached.tracks) {
+      if (!track?.id || track.is_local) continue
+      trackOccurrences += 1
+
+      const isrc: string | null = track.external_ids?.isrc ? String(track.external_ids.isrc).toUpperCase() : null
+      const titleArtistKey = getTitleArtistKey(track)
+      let entry = (isrc ? byIsrc.get(isrc) : undefined) ?? (titleArtistKey ? byTitleArtist.get(titleArtistKey) : undefined)
+
+      if (!entry) {
+        entry = {
+          id: track.id,
+          name: track.name ?? '',
+          artists: Array.isArray(track.artists) ? track.artists.map((artist: any) => artist?.name).filter(Boolean) : [],
+          album: track.album?.name ?? '',
+          albumImageUrl: track.album?.images?.[track.album.images.length - 1]?.url ?? null,
+          releaseDate: track.album?.release_date ?? null,
+          durationMs: track.duration_ms ?? 0,
+          isrcs: [],
+          spotifyUrl: track.external_urls?.spotify ?? null,
+          bpm: null,
+          key: null,
+          scale: null,
+          playlists: [],
+        }
+        entries.push(entry)
+        spotifyIdsByEntry.set(entry, [])
+      }
+
+      if (isrc && !entry.isrcs.includes(isrc)) {
+        entry.isrcs.push(isrc)
+        byIsrc.set(isrc, entry)
+      }
+      if (titleArtistKey && !byTitleArtist.has(titleArtistKey)) {
+        byTitleArtist.set(titleArtistKey, entry)
+      }
+      const spotifyIds = spotifyIdsByEntry.get(entry)!
+      if (!spotifyIds.includes(track.id)) {
+        spotifyIds.push(track.id)
+      }
+      if (!entry.playlists.some((playlist) => playlist.id === playlistRef.id)) {
+        entry.playlists.push(playlistRef)
+      }
+    }
+  }
+
+  let selections = new Map<string, SelectedBpmKey>()
+  try {
+    selections = await getSelectedBpmKeyForTracks(Array.from(spotifyIdsByEntry.values()).flat())
+  } catch (error) {
+    logError(error, { component: 'library.getLibraryIndex', action: 'load_bpm' })
+  }
+
+  for (const entry of entries) {
+    // Use the first matched Spotify track that has an analysis
+    const selection = spotifyIdsByEntry.get(entry)!
+      .map((id) => selections.get(id))
+      .find((value) => value && (value.bpm != null || value.key != null))
+    if (selection) {
+      entry.bpm = selection.bpm
+      entry.key = selection.key
+      entry.scale = selection.scale
+    }
+  }
+
+  return {
+    tracks: entries,
+    playlistCount,
+    cachedPlaylistCount: cachedPlaylists.length,
+    trackOccurrences,
+  }
+}
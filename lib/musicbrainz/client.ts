@@ -2,16 +2,11 @@ import { MB_BASE_URL, USER_AGENT } from '../musicbrainz'
 import { fetchDeezerTrackByIsrc } from '../deezer'
 import { logError, logInfo, logWarning } from '../logger'
 import { incrementExternalApiUsage } from '../externalApiUsage'
+import { externalFetch } from '../externalFetch'
+import { CREDIT_ROLES, isCreditRole, normalizeCreditInstrument, type MusicBrainzCreditLookup } from '../creditRoles'
 
 type MusicBrainzParams = Record<string, string | number | undefined>
 
-const ROLE_FIELD_MAP: Record<string, string> = {
-  songwriter: 'writer',
-  mixer: 'mixer',
-  engineer: 'engineer',
-  artist: 'artist',
-}
-
 const MIN_REQUEST_INTERVAL_MS = 1100
 const MB_CACHE_TTL_MS = 5 * 60 * 1000
 const COVER_CACHE_TTL_MS = 60 * 60 * 1000
@@ -82,7 +77,7 @@ export async function fetchMusicBrainzJson<T>(path: string, params?: MusicBrainz
 
     for (let attempt = 0; attempt < maxAttempts; attempt += 1) {
       const start = Date.now()
-      const response = await fetch(url, {
+      const response = await externalFetch(url, {
         headers: {
           'User-Agent': USER_AGENT,
           Accept: 'application/json',
@@ -166,7 +161,7 @@ export async function fetchCoverArtUrl(releaseId: string): Promise<string | null
       coverArtCache.delete(releaseId)
     }
 
-    const response = await fetch(`https://coverartarchive.org/release/${encodeURIComponent(releaseId)}`, {
+    const response = await externalFetch(`https://coverartarchive.org/release/${encodeURIComponent(releaseId)}`, {
       headers: {
         Accept: 'application/json',
       },
@@ -188,8 +183,13 @@ export async function fetchCoverArtUrl(releaseId: string): Promise<string | null
   }
 }
 
+/**
+ * Recording search query for roles MusicBrainz can search by name; roles kept
+ * in relationships are browsed instead (searchRecordingsByLookup)
+ */
 export function buildCreditQuery(name: string, role: string): string {
-  const field = ROLE_FIELD_MAP[role] ?? 'artist'
+  const lookup = isCreditRole(role) ? CREDIT_ROLES[role].musicBrainz : null
+  const field = lookup?.kind === 'search' ? lookup.field : 'artist'
   return `${field}:"${name}"`
 }
 
@@ -267,6 +267,36 @@ export async function findArtistIdByName(name: string): Promise<string | null> {
   return null
 }
 
+/**
+ * Artist search hits for disambiguation, matching the name or any alias;
+ * unlike findArtistIdByName this keeps every candidate
+ */
+export async function searchArtistsByName(name: string, limit: number): Promise<any[]> {
+  const escaped = name.replace(/"/g, '\\"')
+  const data = await fetchMusicBrainzJson<any>('/artist', {
+    query: `artist:"${escaped}" OR alias:"${escaped}"`,
+    limit,
+    fmt: 'json',
+  })
+  return Array.isArray(data?.artists) ? data.artists.filter((artist: any) => typeof artist?.id === 'string') : []
+}
+
+export async function browseWorksByArtistId(
+  artistId: string,
+  limit: number
+): Promise<{ count: number | null; works: any[] }> {
+  const data = await fetchMusicBrainzJson<any>('/work', {
+    artist: artistId,
+    limit,
+    offset: 0,
+    fmt: 'json',
+  })
+  return {
+    count: typeof data?.['work-count'] === 'number' ? data['work-count'] : null,
+    works: Array.isArray(data?.works) ? data.works : [],
+  }
+}
+
 export async function fetchWorkCountByArtistId(artistId: string): Promise<number | null> {
   const data = await fetchMusicBrainzJson<any>('/work', {
     artist: artistId,
@@ -680,14 +710,187 @@ async function searchProducerRecordingsByWorks(params: {
   }
 }
 
+// Recording search keeps URLs short enough when looking up this many IDs at once
+const RECORDING_ID_SEARCH_CHUNK = 25
+
+function relationHasInstrument(relation: any, instrument: string): boolean {
+  const attributes = Array.isArray(relation?.attributes) ? relation.attributes : []
+  return attributes.some((attribute: unknown) => typeof attribute === 'string' && attribute.toLowerCase().includes(instrument))
+}
+
+/**
+ * Full recordings (artist credits, ISRCs, releases) for IDs taken from
+ * relationships, which only carry the title and length; returned in the order given
+ */
+async function fetchRecordingsByIds(ids: string[]): Promise<any[]> {
+  const byId = new Map<string, any>()
+  for (let start = 0; start < ids.length; start += RECORDING_ID_SEARCH_CHUNK) {
+    const chunk = ids.slice(start, start + RECORDING_ID_SEARCH_CHUNK)
+    const data = await fetchMusicBrainzJson<any>('/recording', {
+      query: chunk.map((id) => `rid:${id}`).join(' OR '),
+      limit: chunk.length,
+      fmt: 'json',
+    })
+    for (const recording of Array.isArray(data?.recordings) ? data.recordings : []) {
+      if (typeof recording?.id === 'string') byId.set(recording.id, recording)
+    }
+  }
+  return ids.map((id) => byId.get(id)).filter(Boolean)
+}
+
+export async function findLabelIdByName(name: string): Promise<string | null> {
+  const escaped = name.replace(/"/g, '\\"')
+  const data = await fetchMusicBrainzJson<any>('/label', {
+    query: `label:"${escaped}"`,
+    limit: 5,
+    fmt: 'json',
+  })
+  const labels = Array.isArray(data?.labels) ? data.labels : []
+  const exact = labels.find((label: any) => typeof label?.name === 'string' && label.name.toLowerCase() === name.toLowerCase())
+  return exact?.id || labels[0]?.id || null
+}
+
+/**
+ * Recordings linked to an artist by the given relationship types, read from
+ * the artist lookup with recording-rels or work-rels. Work relationships
+ * (composer, lyricist) yield one representative recording per work.
+ */
+async function browseRecordingsByArtistRelationships(params: {
+  artistId: string
+  lookup: Extract<MusicBrainzCreditLookup, { types: string[] }>
+  instrument?: string | null
+  limit: number
+  offset: number
+}): Promise<{ count: number; offset: number; limit: number; recordings: any[]; debug?: Record<string, unknown> }> {
+  const { artistId, lookup, instrument } = params
+  const artist = await fetchMusicBrainzJson<any>(`/artist/${encodeURIComponent(artistId)}`, {
+    fmt: 'json',
+    inc: lookup.kind,
+  })
+  const relations = Array.isArray(artist?.relations) ? artist.relations : []
+  const target = lookup.kind === 'work-rels' ? 'work' : 'recording'
+  const targetIds: string[] = []
+  for (const relation of relations) {
+    if (relation?.['target-type'] !== target) continue
+    if (!lookup.types.includes((relation.type || '').toLowerCase())) continue
+    if (instrument && !relationHasInstrument(relation, instrument)) continue
+    const id = relation[target]?.id
+    if (typeof id === 'string' && !targetIds.includes(id)) targetIds.push(id)
+  }
+  const pageIds = targetIds.slice(params.offset, params.offset + params.limit)
+
+  let recordings: any[]
+  if (target === 'recording') {
+    recordings = await fetchRecordingsByIds(pageIds)
+  } else {
+    recordings = []
+    for (const workId of pageIds) {
+      const { recordings: workRecordings } = await fetchRecordingsByWork({ workId, limit: 100, offset: 0 })
+      const representative = selectRepresentativeRecording(workRecordings)
+      if (representative) recordings.push(representative)
+    }
+  }
+
+  return {
+    count: targetIds.length,
+    offset: params.offset,
+    limit: params.limit,
+    recordings,
+    debug: {
+      artistId,
+      inc: lookup.kind,
+      types: lookup.types,
+      instrument: instrument ?? null,
+      relationsScanned: relations.length,
+      matched: targetIds.length,
+    },
+  }
+}
+
+/**
+ * Recordings on a label's releases, paged by release (MusicBrainz recording
+ * search has no label field). Each recording carries the release it came from.
+ */
+async function browseRecordingsByLabel(params: {
+  name: string
+  limit: number
+  offset: number
+}): Promise<{ count: number; offset: number; limit: number; recordings: any[]; debug?: Record<string, unknown> }> {
+  const labelId = await findLabelIdByName(params.name)
+  if (!labelId) {
+    return { count: 0, offset: params.offset, limit: params.limit, recordings: [], debug: { labelId: null } }
+  }
+  const data = await fetchMusicBrainzJson<any>('/release', {
+    label: labelId,
+    limit: params.limit,
+    offset: params.offset,
+    fmt: 'json',
+    inc: 'recordings+artist-credits+isrcs+release-groups',
+  })
+  const releases = Array.isArray(data?.releases) ? data.releases : []
+  const recordings: any[] = []
+  const seen = new Set<string>()
+  for (const release of releases) {
+    const { media, ...releaseInfo } = release
+    for (const medium of Array.isArray(media) ? media : []) {
+      for (const track of Array.isArray(medium?.tracks) ? medium.tracks : []) {
+        const recording = track?.recording
+        if (typeof recording?.id !== 'string' || seen.has(recording.id)) continue
+        seen.add(recording.id)
+        recordings.push({ ...recording, releases: [releaseInfo] })
+      }
+    }
+  }
+  return {
+    count: typeof data?.['release-count'] === 'number' ? data['release-count'] : releases.length,
+    offset: params.offset,
+    limit: params.limit,
+    recordings,
+    debug: { labelId, releasesScanned: releases.length },
+  }
+}
+
+/**
+ * Dispatch for roles that are not searched by name; null for search roles
+ */
+async function searchRecordingsByLookup(params: {
+  name: string
+  role: string
+  instrument?: string | null
+  artistId?: string | null
+  limit: number
+  offset: number
+}): Promise<{ count: number; offset: number; limit: number; recordings: any[]; debug?: Record<string, unknown> } | null> {
+  if (!isCreditRole(params.role)) return null
+  const lookup = CREDIT_ROLES[params.role].musicBrainz
+  if (lookup.kind === 'search') return null
+  if (lookup.kind === 'label-releases') {
+    return browseRecordingsByLabel(params)
+  }
+  const artistId = params.artistId || await findArtistIdByName(params.name)
+  if (!artistId) {
+    return { count: 0, offset: params.offset, limit: params.limit, recordings: [] }
+  }
+  return browseRecordingsByArtistRelationships({
+    artistId,
+    lookup,
+    instrument: normalizeCreditInstrument(params.role, params.instrument),
+    limit: params.limit,
+    offset: params.offset,
+  })
+}
+
 export async function searchRecordingsByCredit(params: {
   name: string
   role: string
+  instrument?: string | null
+  // MBID chosen in disambiguation; skips the name lookup for roles resolved to an artist
+  artistId?: string | null
   limit: number
   offset: number
 }): Promise<{ count: number; offset: number; limit: number; recordings: any[]; debug?: Record<string, unknown> }> {
   if (params.role === 'producer') {
-    const artistId = await findArtistIdByName(params.name)
+    const artistId = params.artistId || await findArtistIdByName(params.name)
     if (artistId) {
       const workResult = await searchProducerRecordingsByWorks({
         artistId,
@@ -706,10 +909,15 @@ export async function searchRecordingsByCredit(params: {
     }
   }
 
+  const browsed = await searchRecordingsByLookup(params)
+  if (browsed) {
+    return browsed
+  }
+
   let query = buildCreditQuery(params.name, params.role)
 
   if (params.role === 'artist') {
-    const artistId = await findArtistIdByName(params.name)
+    const artistId = params.artistId || await findArtistIdByName(params.name)
     if (artistId) {
       query = `arid:${artistId}`
     }
@@ -856,11 +1064,13 @@ async function* streamProducerRecordingsByWorks(params: {
 export async function* streamRecordingsByCredit(params: {
   name: string
   role: string
+  instrument?: string | null
+  artistId?: string | null
   limit: number
   offset: number
 }): AsyncGenerator<any> {
   if (params.role === 'producer') {
-    const artistId = await findArtistIdByName(params.name)
+    const artistId = params.artistId || await findArtistIdByName(params.name)
     if (!artistId) return
     for await (const recording of streamProducerRecordingsByWorks({
       artistId,
@@ -872,10 +1082,18 @@ export async function* streamRecordingsByCredit(params: {
     return
   }
 
+  const browsed = await searchRecordingsByLookup(params)
+  if (browsed) {
+    for (const recording of browsed.recordings) {
+      yield recording
+    }
+    return
+  }
+
   let query = buildCreditQuery(params.name, params.role)
 
   if (params.role === 'artist') {
-    const artistId = await findArtistIdByName(params.name)
+    const artistId = params.artistId || await findArtistIdByName(params.name)
     if (artistId) {
       query = `arid:${artistId}`
     }
@@ -897,11 +1115,13 @@ export async function* streamRecordingsByCredit(params: {
 export async function searchReleasesByCredit(params: {
   name: string
   role: string
+  instrument?: string | null
+  artistId?: string | null
   limit: number
   offset: number
 }): Promise<{ count: number; offset: number; limit: number; releases: Array<{ id: string; title: string; date?: string }>; debug?: Record<string, unknown> }> {
   if (params.role === 'producer') {
-    const artistId = await findArtistIdByName(params.name)
+    const artistId = params.artistId || await findArtistIdByName(params.name)
     if (artistId) {
       return browseProducerReleasesByArtist({
         artistId,
@@ -911,6 +1131,19 @@ export async function searchReleasesByCredit(params: {
     }
   }
 
+  const browsed = await searchRecordingsByLookup(params)
+  if (browsed) {
+    const releases = new Map<string, { id: string; title: string; date?: string }>()
+    for (const recording of browsed.recordings) {
+      for (const release of Array.isArray(recording?.releases) ? recording.releases : []) {
+        if (typeof release?.id === 'string' && !releases.has(release.id)) {
+          releases.set(release.id, { id: release.id, title: release.title || 'Unknown release', date: release.date })
+        }
+      }
+    }
+    return { count: releases.size, offset: params.offset, limit: params.limit, releases: Array.from(releases.values()) }
+  }
+
   const query = buildCreditQuery(params.name, params.role)
   const data = await fetchMusicBrainzJson<any>('/release', {
     query,
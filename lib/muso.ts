@@ -26,6 +26,7 @@
 */
 import { query } from './db'
 import { logError, logInfo, logWarning } from './logger'
+import { externalFetch, getExternalApiMode } from './externalFetch'
 
 const MUSO_API_BASE = 'https://api.developer.muso.ai/v4'
 const MUSO_PROVIDER = 'muso'
@@ -88,7 +89,8 @@ type MusoTrackDetails = {
 }
 
 function getMusoApiKey() {
-  return process.env.MUSO_API_KEY
+  // Replayed fixtures don't need a real key (it is never part of the fixture)
+  return process.env.MUSO_API_KEY || (getExternalApiMode() === 'replay' ? 'replay' : undefined)
 }
 
 export function hasMusoApiKey(): boolean {
@@ -153,7 +155,7 @@ async function musoFetch<T>(path: string, init?: RequestInit): Promise<T> {
   await incrementUsage()
   const url = `${MUSO_API_BASE}${path}`
   const start = Date.now()
-  const response = await fetch(url, {
+  const response = await externalFetch(url, {
     ...init,
     headers: {
       'x-api-key': apiKey,
@@ -0,0 +1,247 @@
+/**
+ * Builds the OpenAPI 3.1 document for app/api from lib/apiContracts.ts.
+ * Served by /api/openapi and rendered by /docs and /admin/api-tester.
+ */
+
+import { apiContracts, isRawResponse, type ApiAuth, type ApiContract, type ApiOperation, type HttpMethod } from './apiContracts'
+import type { AnySchema, JsonSchema, SchemaComponents } from './apiSchema'
+
+export interface OpenApiParameter {
+  name: string
+  in: 'path' | 'query'
+  required: boolean
+  description?: string
+  schema: JsonSchema
+  example?: unknown
+}
+
+export interface OpenApiOperation {
+  operationId: string
+  summary: string
+  description?: string
+  tags: string[]
+  parameters?: OpenApiParameter[]
+  requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema; example?: unknown }> }
+  responses: Record<string, { description: string; content?: Record<string, { schema: JsonSchema }> }>
+  security?: Array<Record<string, string[]>>
+  'x-auth': ApiAuth
+}
+
+export interface OpenApiDocument {
+  openapi: '3.1.0'
+  info: { title: string; version: string; description: string }
+  tags: Array<{ name: string }>
+  paths: Record<string, Partial<Record<Lowercase<HttpMethod>, OpenApiOperation>>>
+  components: {
+    schemas: SchemaComponents
+    securitySchemes: Record<string, Record<string, string>>
+  }
+}
+
+const errorSchema: JsonSchema = {
+  type: 'object',
+  properties: { error: { type: 'string' } },
+  required: ['error'],
+}
+
+const validationErrorSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string', description: 'Every issue as "path: message", joined with "; "' },
+    issues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { path: { type: 'string' }, message: { type: 'string' } },
+        required: ['path', 'message'],
+      },
+    },
+  },
+  required: ['error', 'issues'],
+}
+
+const SECURITY_BY_AUTH: Record<ApiAuth, Array<Record<string, string[]>> | undefined> = {
+  public: undefined,
+  session: [{ spotifySession: [] }],
+  admin: [{ spotifySession: [] }],
+  superAdmin: [{ spotifySession: [] }],
+  cron: [{ cronSecret: [] }, { spotifySession: [] }],
+}
+
+const AUTH_ERRORS: Record<ApiAuth, Record<number, string>> = {
+  public: {},
+  session: { 401: 'Not signed in to Spotify' },
+  admin: { 403: 'Not an admin' },
+  superAdmin: { 401: 'Not a super admin' },
+  cron: { 403: 'Missing CRON_SECRET bearer token and not an admin' },
+}
+
+const errorResponse = (description: string, schema: JsonSchema = { $ref: '#/components/schemas/Error' }) => ({
+  description,
+  content: { 'application/json': { schema } },
+})
+
+// Object schemas become one parameter per property
+function toParameters(schema: AnySchema | undefined, location: 'path' | 'query', components: SchemaComponents) {
+  if (!schema) return []
+  const shape = (schema as { shape?: Record<string, AnySchema> }).shape
+    ?? (schema as { inner?: { shape?: Record<string, AnySchema> } }).inner?.shape
+  if (!shape) return []
+  return Object.entries(shape).map(([name, field]): OpenApiParameter => {
+    const example = field.getExample()
+    return {
+      name,
+      in: location,
+      required: location === 'path' || !field.acceptsMissing,
+      ...(field.description ? { description: field.description } : {}),
+      schema: field.toJsonSchema(components),
+      ...(example !== undefined ? { example } : {}),
+    }
+  })
+}
+
+function toResponses(contract: ApiContract, components: SchemaComponents): OpenApiOperation['responses'] {
+  const responses: OpenApiOperation['responses'] = {}
+  const { response } = contract
+  if (isRawResponse(response)) {
+    const status = response.kind === 'redirect' ? 307 : contract.status ?? 200
+    responses[status] = {
+      description: response.description,
+      ...(response.contentTypes.length > 0
+        ? {
+            content: Object.fromEntries(
+              response.contentTypes.map((type) => [
+                type,
+                { schema: response.kind === 'file' ? { type: 'string', format: 'binary' } : { type: 'string' } },
+              ])
+            ),
+          }
+        : {}),
+    }
+  } else {
+    const content: Record<string, { schema: JsonSchema }> = {
+      'application/json': { schema: response.toJsonSchema(components) },
+    }
+    if (contract.events) {
+      content['text/event-stream'] = { schema: contract.events.toJsonSchema(components) }
+    }
+    responses[contract.status ?? 200] = { description: 'Success', content }
+  }
+  if (contract.params || contract.query || contract.body) {
+    responses[400] = errorResponse('Invalid request', { $ref: '#/components/schemas/ValidationError' })
+  }
+  for (const [status, description] of Object.entries({ ...AUTH_ERRORS[contract.auth], ...contract.errors })) {
+    responses[status] = Number(status) < 400 ? { description } : errorResponse(description)
+  }
+  responses[500] = errorResponse('Unexpected server error')
+  return responses
+}
+
+function toOperation(operationId: string, contract: ApiContract, components: SchemaComponents): OpenApiOperation {
+  const parameters = [
+    ...toParameters(contract.params, 'path', components),
+    ...toParameters(contract.query, 'query', components),
+  ]
+  const security = SECURITY_BY_AUTH[contract.auth]
+  const bodyExample = contract.body?.getExample()
+  return {
+    operationId,
+    summary: contract.summary,
+    ...(contract.description ? { description: contract.description } : {}),
+    tags: [contract.tag],
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(contract.body
+      ? {
+          requestBody: {
+            required: !contract.body.acceptsMissing,
+            content: {
+              'application/json': {
+                schema: contract.body.toJsonSchema(components),
+                ...(bodyExample !== undefined ? { example: bodyExample } : {}),
+              },
+            },
+          },
+        }
+      : {}),
+    responses: toResponses(contract, components),
+    ...(security ? { security } : {}),
+    'x-auth': contract.auth,
+  }
+}
+
+export function buildOpenApiDocument(): OpenApiDocument {
+  const components: SchemaComponents = { Error: errorSchema, ValidationError: validationErrorSchema }
+  const paths: OpenApiDocument['paths'] = {}
+  const tags = new Set<string>()
+
+  for (const [operationId, contract] of Object.entries(apiContracts) as Array<[ApiOperation, ApiContract]>) {
+    tags.add(contract.tag)
+    const targets = [{ method: contract.method, path: contract.path }, ...(contract.aliases ?? [])]
+    targets.forEach((target, index) => {
+      const id = index === 0 ? operationId : `${operationId}Via${target.method[0]}${target.method.slice(1).toLowerCase()}${index}`
+      const operation = toOperation(id, contract, components)
+      paths[target.path] = { ...paths[target.path], [target.method.toLowerCase()]: operation }
+    })
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Spotify Playlist Tools API',
+      version: '0.1.0',
+      description: 'Generated from lib/apiContracts.ts. Validation failures return 400 with every issue listed.',
+    },
+    tags: Array.from(tags).map((name) => ({ name })),
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: {
+        spotifySession: { type: 'apiKey', in: 'cookie', name: 'access_token' },
+        cronSecret: { type: 'http', scheme: 'bearer', description: 'CRON_SECRET' },
+      },
+    },
+  }
+}
+
+export interface OpenApiOperationEntry {
+  operationId: string
+  method: HttpMethod
+  path: string
+  tag: string
+  summary: string
+  description?: string
+  auth: ApiAuth
+  parameters: OpenApiParameter[]
+  bodyExample?: unknown
+  hasBody: boolean
+  statuses: string[]
+}
+
+/**
+ * Flatten the document into one entry per operation, grouped by tag in
+ * document order. Shared by /docs and /admin/api-tester.
+ */
+export function listOpenApiOperations(document: OpenApiDocument): Array<{ tag: string; operations: OpenApiOperationEntry[] }> {
+  const groups = new Map<string, OpenApiOperationEntry[]>(document.tags.map((tag) => [tag.name, []]))
+  for (const [path, methods] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(methods) as Array<[Lowercase<HttpMethod>, OpenApiOperation]>) {
+      const tag = operation.tags[0] ?? 'Other'
+      const content = operation.requestBody?.content['application/json']
+      const entry: OpenApiOperationEntry = {
+        operationId: operation.operationId,
+        method: method.toUpperCase() as HttpMethod,
+        path,
+        tag,
+        summary: operation.summary,
+        ...(operation.description ? { description: operation.description } : {}),
+        auth: operation['x-auth'],
+        parameters: operation.parameters ?? [],
+        ...(content?.example !== undefined ? { bodyExample: content.example } : {}),
+        hasBody: Boolean(operation.requestBody),
+        statuses: Object.keys(operation.responses),
+      }
+      groups.set(tag, [...(groups.get(tag) ?? []), entry])
+    }
+  }
+  return Array.from(groups, ([tag, operations]) => ({ tag, operations })).filter((group) => group.operations.length > 0)
+}
@@ -0,0 +1,337 @@
+import { getPlaylistTracks } from './spotify'
+import { query } from './db'
+import { logError } from './logger'
+import { getSelectedBpmKeyForTracks, type SelectedBpmKey } from './bpm'
+import { formatCamelot, formatOpenKey, toCamelot } from './camelot'
+
+export type ExportFormat = 'csv' | 'json' | 'm3u8' | 'rekordbox' | 'traktor'
+
+export const EXPORT_FORMATS: Record<ExportFormat, { extension: string; contentType: string }> = {
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  json: { extension: 'json', contentType: 'application/json; charset=utf-8' },
+  m3u8: { extension: 'm3u8', contentType: 'audio/x-mpegurl; charset=utf-8' },
+  rekordbox: { extension: 'xml', contentType: 'application/xml; charset=utf-8' },
+  traktor: { extension: 'nml', contentType: 'application/xml; charset=utf-8' },
+}
+
+export interface ExportCredits {
+  performedBy: string[]
+  producedBy: string[]
+  mixedBy: string[]
+  masteredBy: string[]
+  writtenBy: string[]
+}
+
+export interface ExportTrack {
+  position: number
+  id: string
+  name: string
+  artists: string[]
+  album: string
+  releaseDate: string | null
+  durationMs: number
+  isrc: string | null
+  spotifyUrl: string | null
+  bpm: number | null
+  bpmConfidence: number | null
+  key: string | null
+  scale: string | null
+  keyConfidence: number | null
+  credits: ExportCredits | null
+}
+
+interface CreditsCacheRow {
+  isrc: string
+  credits: any
+}
+
+const toNameList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((name): name is string => typeof name === 'string') : []
+
+function parseCredits(raw: any): ExportCredits | null {
+  let credits = raw
+  if (typeof credits === 'string') {
+    try {
+      credits = JSON.parse(credits)
+    } catch {
+      return null
+    }
+  }
+  if (!credits || typeof credits !== 'object') return null
+  return {
+    performedBy: toNameList(credits.performedBy),
+    producedBy: toNameList(credits.producedBy),
+    mixedBy: toNameList(credits.mixedBy),
+    masteredBy: toNameList(credits.masteredBy),
+    writtenBy: toNameList(credits.writtenBy),
+  }
+}
+
+/**
+ * Load playlist tracks (from playlist_cache when fresh) joined with the selected
+ * BPM/key from track_bpm_cache and cached credits from track_credits_cache.
+ * When trackIds is given, only those tracks are returned, in that order, so the
+ * export matches the filtered and sorted view in the browser; null exports all.
+ */
+export async function getPlaylistExportTracks(
+  playlistId: string,
+  trackIds?: string[] | null
+): Promise<ExportTrack[]> {
+  const playlistTracks = await getPlaylistTracks(playlistId, true)
+  const tracksById = new Map<string, any>()
+  for (const track of playlistTracks) {
+    if (track?.id && !tracksById.has(track.id)) {
+      tracksById.set(track.id, track)
+    }
+  }
+
+  const selectedTracks = trackIds
+    ? trackIds.map((id) => tracksById.get(id)).filter(Boolean)
+    : playlistTracks.filter((track) => track?.id)
+
+  const ids = Array.from(new Set(selectedTracks.map((track) => track.id as string)))
+  const isrcs = Array.from(
+    new Set(selectedTracks.map((track) => track.external_ids?.isrc).filter((isrc): isrc is string => Boolean(isrc)))
+  )
+
+  let selections = new Map<string, SelectedBpmKey>()
+  try {
+    selections = await getSelectedBpmKeyForTracks(ids)
+  } catch (error) {
+    logError(error, { component: 'playlistExport.getPlaylistExportTracks', playlistId, action: 'load_bpm' })
+  }
+
+  const creditsByIsrc = new Map<string, ExportCredits>()
+  if (isrcs.length > 0) {
+    try {
+      const placeholders = isrcs.map((_, i) => `$${i + 1}`).join(',')
+      const rows = await query<CreditsCacheRow>(
+        `SELECT isrc, credits FROM track_credits_cache WHERE isrc IN (${placeholders})`,
+        isrcs
+      )
+      for (const row of rows) {
+        const credits = parseCredits(row.credits)
+        if (credits) {
+          creditsByIsrc.set(row.isrc, credits)
+        }
+      }
+    } catch (error) {
+      logError(error, { component: 'playlistExport.getPlaylistExportTracks', playlistId, action: 'load_credits' })
+    }
+  }
+
+  return selectedTracks.map((track, index) => {
+    const selection = selections.get(track.id)
+    const isrc: string | null = track.external_ids?.isrc ?? null
+    return {
+      position: index + 1,
+      id: track.id,
+      name: track.name ?? '',
+      artists: Array.isArray(track.artists) ? track.artists.map((artist: any) => artist?.name).filter(Boolean) : [],
+      album: track.album?.name ?? '',
+      releaseDate: track.album?.release_date ?? null,
+      durationMs: track.duration_ms ?? 0,
+      isrc,
+      spotifyUrl: track.external_urls?.spotify ?? null,
+      bpm: selection?.bpm ?? null,
+      bpmConfidence: selection?.bpmConfidence ?? null,
+      key: selection?.key ?? null,
+      scale: selection?.scale ?? null,
+      keyConfidence: selection?.keyConfidence ?? null,
+      credits: isrc ? creditsByIsrc.get(isrc) ?? null : null,
+    }
+  })
+}
+
+const csvCell = (value: string | number | null | undefined): string => {
+  if (value == null) return ''
+  const text = String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const xmlAttr = (value: string | number | null | undefined): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+
+const formatDuration = (durationMs: number): string => {
+  const totalSeconds = Math.round(durationMs / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+const classicKey = (track: ExportTrack): string => {
+  if (!track.key) return ''
+  return track.scale ? `${track.key} ${track.scale}` : track.key
+}
+
+const camelotKey = (track: ExportTrack): string => {
+  const camelot = toCamelot(track.key, track.scale)
+  return camelot ? formatCamelot(camelot) : ''
+}
+
+function buildCsv(tracks: ExportTrack[]): string {
+  const header = [
+    'Position', 'Title', 'Artists', 'Album', 'Release Date', 'Duration', 'BPM', 'BPM Confidence',
+    'Key', 'Camelot', 'Key Confidence', 'ISRC', 'Spotify URL',
+    'Performed By', 'Produced By', 'Mixed By', 'Mastered By', 'Written By',
+  ]
+  const rows = tracks.map((track) => [
+    track.position,
+    track.name,
+    track.artists.join(', '),
+    track.album,
+    track.releaseDate,
+    formatDuration(track.durationMs),
+    track.bpm,
+    track.bpmConfidence,
+    classicKey(track),
+    camelotKey(track),
+    track.keyConfidence,
+    track.isrc,
+    track.spotifyUrl,
+    track.credits?.performedBy.join('; '),
+    track.credits?.producedBy.join('; '),
+    track.credits?.mixedBy.join('; '),
+    track.credits?.masteredBy.join('; '),
+    track.credits?.writtenBy.join('; '),
+  ])
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+function buildM3u8(tracks: ExportTrack[]): string {
+  const lines = ['#EXTM3U']
+  for (const track of tracks) {
+    lines.push(`#EXTINF:${Math.round(track.durationMs / 1000)},${track.artists.join(', ')} - ${track.name}`)
+    lines.push(track.spotifyUrl ?? `spotify:track:${track.id}`)
+  }
+  return lines.join('\n') + '\n'
+}
+
+// Rekordbox "Tonality" uses compact classic notation, e.g. "Am" or "F#"
+const rekordboxTonality = (track: ExportTrack): string => {
+  if (!track.key) return ''
+  return track.scale?.toLowerCase().startsWith('min') ? `${track.key}m` : track.key
+}
+
+/**
+ * Rekordbox collection XML. Locations point at Spotify since there are no local
+ * files; tracks show as missing until relocated in Rekordbox.
+ */
+function buildRekordboxXml(tracks: ExportTrack[], playlistName: string): string {
+  const collection = tracks.map((track) => {
+    const year = track.releaseDate ? track.releaseDate.slice(0, 4) : ''
+    return `    <TRACK TrackID="${track.position}" Name="${xmlAttr(track.name)}" Artist="${xmlAttr(track.artists.join(', '))}" Album="${xmlAttr(track.album)}" Year="${xmlAttr(year)}" TotalTime="${Math.round(track.durationMs / 1000)}" AverageBpm="${track.bpm != null ? track.bpm.toFixed(2) : '0.00'}" Tonality="${xmlAttr(rekordboxTonality(track))}" Comments="${xmlAttr(track.isrc ? `ISRC ${track.isrc}` : '')}" Location="${xmlAttr(track.spotifyUrl ?? '')}"/>`
+  })
+  const entries = tracks.map((track) => `        <TRACK Key="${track.position}"/>`)
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<DJ_PLAYLISTS Version="1.0.0">',
+    '  <PRODUCT Name="Spotify Playlist Tools" Version="1.0" Company=""/>',
+    `  <COLLECTION Entries="${tracks.length}">`,
+    ...collection,
+    '  </COLLECTION>',
+    '  <PLAYLISTS>',
+    '    <NODE Type="0" Name="ROOT" Count="1">',
+    `      <NODE Name="${xmlAttr(playlistName)}" Type="1" KeyType="0" Entries="${tracks.length}">`,
+    ...entries,
+    '      </NODE>',
+    '    </NODE>',
+    '  </PLAYLISTS>',
+    '</DJ_PLAYLISTS>',
+    '',
+  ].join('\n')
+}
+
+// Traktor MUSICAL_KEY values: 0-11 are C..B major, 12-23 are Cm..Bm
+const traktorKeyValue = (track: ExportTrack): number | null => {
+  const camelot = toCamelot(track.key, track.scale)
+  if (!camelot) return null
+  const majorPitchClass = ((7 * (camelot.number - 8)) % 12 + 12) % 12
+  if (camelot.letter === 'B') return majorPitchClass
+  return 12 + ((majorPitchClass + 9) % 12)
+}
+
+const TRAKTOR_VOLUME = 'spotify'
+const TRAKTOR_DIR = '/:spotify/:'
+
+/**
+ * Traktor NML collection with a single playlist. Like the Rekordbox export, the
+ * entries have no local file and need relocating inside Traktor.
+ */
+function buildTraktorNml(tracks: ExportTrack[], playlistName: string): string {
+  // Playlist entries reference collection entries by VOLUME + DIR + FILE of their LOCATION
+  const primaryKey = (track: ExportTrack) => `${TRAKTOR_VOLUME}${TRAKTOR_DIR}${track.id}`
+  const collection = tracks.map((track) => {
+    const camelot = toCamelot(track.key, track.scale)
+    const keyValue = traktorKeyValue(track)
+    const releaseDate = track.releaseDate ? track.releaseDate.replace(/-/g, '/') : ''
+    return [
+      `    <ENTRY TITLE="${xmlAttr(track.name)}" ARTIST="${xmlAttr(track.artists.join(', '))}">`,
+      `      <LOCATION DIR="${TRAKTOR_DIR}" FILE="${xmlAttr(track.id)}" VOLUME="${TRAKTOR_VOLUME}"/>`,
+      `      <ALBUM TITLE="${xmlAttr(track.album)}"/>`,
+      `      <INFO PLAYTIME="${Math.round(track.durationMs / 1000)}" RELEASE_DATE="${xmlAttr(releaseDate)}" KEY="${camelot ? formatOpenKey(camelot) : ''}" COMMENT="${xmlAttr(track.isrc ? `ISRC ${track.isrc}` : '')}"/>`,
+      track.bpm != null ? `      <TEMPO BPM="${track.bpm.toFixed(6)}" BPM_QUALITY="100"/>` : null,
+      keyValue != null ? `      <MUSICAL_KEY VALUE="${keyValue}"/>` : null,
+      '    </ENTRY>',
+    ].filter(Boolean).join('\n')
+  })
+  const entries = tracks.map(
+    (track) => `            <ENTRY><PRIMARYKEY TYPE="TRACK" KEY="${xmlAttr(primaryKey(track))}"/></ENTRY>`
+  )
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+    '<NML VERSION="19">',
+    '  <HEAD COMPANY="www.native-instruments.com" PROGRAM="Traktor"/>',
+    `  <COLLECTION ENTRIES="${tracks.length}">`,
+    ...collection,
+    '  </COLLECTION>',
+    '  <PLAYLISTS>',
+    '    <NODE TYPE="FOLDER" NAME="$ROOT">',
+    '      <SUBNODES COUNT="1">',
+    `        <NODE TYPE="PLAYLIST" NAME="${xmlAttr(playlistName)}">`,
+    `          <PLAYLIST ENTRIES="${tracks.length}" TYPE="LIST" UUID="">`,
+    ...entries,
+    '          </PLAYLIST>',
+    '        </NODE>',
+    '      </SUBNODES>',
+    '    </NODE>',
+    '  </PLAYLISTS>',
+    '</NML>',
+    '',
+  ].join('\n')
+}
+
+export function isExportFormat(value: string | null): value is ExportFormat {
+  return value != null && Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, value)
+}
+
+export function buildPlaylistExport(
+  format: ExportFormat,
+  tracks: ExportTrack[],
+  playlist: { id: string; name: string }
+): string {
+  switch (format) {
+    case 'csv':
+      return buildCsv(tracks)
+    case 'json':
+      return JSON.stringify({ playlist, exportedAt: new Date().toISOString(), tracks }, null, 2)
+    case 'm3u8':
+      return buildM3u8(tracks)
+    case 'rekordbox':
+      return buildRekordboxXml(tracks, playlist.name)
+    case 'traktor':
+      return buildTraktorNml(tracks, playlist.name)
+  }
+}
+
+/**
+ * Filesystem-safe download name, e.g. "Friday Set.nml"
+ */
+export function getExportFilename(playlistName: string, format: ExportFormat): string {
+  const base = playlistName.replace(/[\\/:*?"<>|\r\n]+/g, ' ').trim() || 'playlist'
+  return `${base}.${EXPORT_FORMATS[format].extension}`
+}
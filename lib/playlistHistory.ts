@@ -0,0 +1,190 @@
+import { query } from './db'
+import { logError } from './logger'
+
+export interface SnapshotTrack {
+  id: string
+  name: string
+  artists: string[]
+  added_at: string | null
+  added_by: string | null
+}
+
+export interface PlaylistSnapshotSummary {
+  snapshotId: string
+  capturedAt: string
+  trackCount: number
+}
+
+export interface SnapshotDiffEntry extends SnapshotTrack {
+  position: number // 1-based position in the snapshot the entry belongs to
+  previousPosition?: number // set for reordered entries
+}
+
+export interface PlaylistSnapshotDiff {
+  from: PlaylistSnapshotSummary
+  to: PlaylistSnapshotSummary
+  added: SnapshotDiffEntry[]
+  removed: SnapshotDiffEntry[]
+  reordered: SnapshotDiffEntry[]
+}
+
+interface SnapshotRecord {
+  snapshot_id: string
+  tracks: any
+  track_count: number
+  captured_at: Date
+}
+
+function toSnapshotTracks(tracksData: any[]): SnapshotTrack[] {
+  return tracksData
+    .filter((track) => track?.id)
+    .map((track) => ({
+      id: track.id,
+      name: track.name ?? '',
+      artists: Array.isArray(track.artists) ? track.artists.map((artist: any) => artist?.name).filter(Boolean) : [],
+      added_at: track.added_at ?? null,
+      added_by: track.added_by ?? null,
+    }))
+}
+
+/**
+ * Store a compact copy of a playlist snapshot; snapshots already recorded are ignored.
+ * Failures are logged but never block caching.
+ */
+export async function recordPlaylistSnapshot(
+  playlistId: string,
+  snapshotId: string,
+  tracksData: any[]
+): Promise<void> {
+  try {
+    const tracks = toSnapshotTracks(tracksData)
+    await query(
+      `INSERT INTO playlist_snapshot_history (playlist_id, snapshot_id, tracks, track_count, captured_at)
+       VALUES ($1, $2, $3::jsonb, $4, NOW())
+       ON CONFLICT (playlist_id, snapshot_id) DO NOTHING`,
+      [playlistId, snapshotId, JSON.stringify(tracks), tracks.length]
+    )
+  } catch (error) {
+    logError(error, {
+      component: 'playlistHistory.recordPlaylistSnapshot',
+      playlistId,
+      snapshotId,
+    })
+  }
+}
+
+function toSummary(record: SnapshotRecord): PlaylistSnapshotSummary {
+  return {
+    snapshotId: record.snapshot_id,
+    capturedAt: new Date(record.captured_at).toISOString(),
+    trackCount: record.track_count,
+  }
+}
+
+/**
+ * Recorded snapshots for a playlist, newest first
+ */
+export async function getPlaylistSnapshots(playlistId: string): Promise<PlaylistSnapshotSummary[]> {
+  const rows = await query<SnapshotRecord>(
+    `SELECT snapshot_id, track_count, captured_at, NULL AS tracks
+     FROM playlist_snapshot_history
+     WHERE playlist_id = $1
+     ORDER BY captured_at DESC`,
+    [playlistId]
+  )
+  return rows.map(toSummary)
+}
+
+async function getSnapshot(playlistId: string, snapshotId: string): Promise<SnapshotRecord | null> {
+  const rows = await query<SnapshotRecord>(
+    `SELECT snapshot_id, tracks, track_count, captured_at
+     FROM playlist_snapshot_history
+     WHERE playlist_id = $1 AND snapshot_id = $2
+     LIMIT 1`,
+    [playlistId, snapshotId]
+  )
+  return rows[0] ?? null
+}
+
+// Occurrence keys keep repeated tracks distinct: "id#1", "id#2", ...
+function withOccurrenceKeys(tracks: SnapshotTrack[]): Array<{ key: string; track: SnapshotTrack; position: number }> {
+  const seen = new Map<string, number>()
+  return tracks.map((track, index) => {
+    const count = (seen.get(track.id) ?? 0) + 1
+    seen.set(track.id, count)
+    return { key: `${track.id}#${count}`, track, position: index + 1 }
+  })
+}
+
+/**
+ * Indices (into values) of one longest strictly increasing subsequence
+ */
+function longestIncreasingSubsequence(values: number[]): Set<number> {
+  const tails: number[] = []
+  const previous: number[] = new Array(values.length).fill(-1)
+  for (let i = 0; i < values.length; i += 1) {
+    let low = 0
+    let high = tails.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (values[tails[mid]] < values[i]) low = mid + 1
+      else high = mid
+    }
+    if (low > 0) previous[i] = tails[low - 1]
+    tails[low] = i
+  }
+  const result = new Set<number>()
+  let index = tails.length > 0 ? tails[tails.length - 1] : -1
+  while (index !== -1) {
+    result.add(index)
+    index = previous[index]
+  }
+  return result
+}
+
+/**
+ * Compare two recorded snapshots. Tracks kept in both are "reordered" when they
+ * fall outside the longest run that kept its relative order, so a single move
+ * reports one track rather than everything it shifted.
+ */
+export async function getPlaylistSnapshotDiff(
+  playlistId: string,
+  fromSnapshotId: string,
+  toSnapshotId: string
+): Promise<PlaylistSnapshotDiff | null> {
+  const [fromRecord, toRecord] = await Promise.all([
+    getSnapshot(playlistId, fromSnapshotId),
+    getSnapshot(playlistId, toSnapshotId),
+  ])
+  if (!fromRecord || !toRecord) return null
+
+  const fromEntries = withOccurrenceKeys(Array.isArray(fromRecord.tracks) ? fromRecord.tracks : [])
+  const toEntries = withOccurrenceKeys(Array.isArray(toRecord.tracks) ? toRecord.tracks : [])
+  const fromByKey = new Map(fromEntries.map((entry) => [entry.key, entry]))
+  const toKeys = new Set(toEntries.map((entry) => entry.key))
+
+  const added = toEntries
+    .filter((entry) => !fromByKey.has(entry.key))
+    .map((entry) => ({ ...entry.track, position: entry.position }))
+  const removed = fromEntries
+    .filter((entry) => !toKeys.has(entry.key))
+    .map((entry) => ({ ...entry.track, position: entry.position }))
+
+  const kept = toEntries.filter((entry) => fromByKey.has(entry.key))
+  const keptInOrder = longestIncreasingSubsequence(kept.map((entry) => fromByKey.get(entry.key)!.position))
+  const reordered = kept
+    .filter((_, index) => !keptInOrder.has(index))
+    .map((entry) => ({
+      ...entry.track,
+      position: entry.position,
+      previousPosition: fromByKey.get(entry.key)!.position,
+    }))
+
+  return {
+    from: toSummary(fromRecord),
+    to: toSummary(toRecord),
+    added,
+    removed,
+    reordered,
+  }
+}
@@ -0,0 +1,121 @@
+import { query } from './db'
+import { refreshPreviewUrlsForTrack } from './bpm'
+import { logError, logInfo } from './logger'
+
+export interface PreviewSweepSummary {
+  due: number
+  refreshed: number
+  failed: number
+}
+
+export interface PreviewExpiryStats {
+  tracked: number // cached tracks whose preview URL is signed
+  expired: number
+  expiringSoon: number
+  refreshFailed: number
+  horizonHours: number
+}
+
+interface DuePreviewRecord {
+  spotify_track_id: string
+  isrc: string | null
+  title: string | null
+  artist: string | null
+}
+
+// The sweep runs hourly; refresh anything that would expire before the run after next
+const SWEEP_HORIZON_HOURS = 2
+const SWEEP_BATCH_SIZE = 200
+const SWEEP_CONCURRENCY = 4
+// Upper bound for one refresh (providers time out after 5s each)
+const TRACK_BUDGET_MS = 30_000
+// Tracks whose refresh found nothing are retried after this long instead of every run
+const FAILED_RETRY_HOURS = 24
+
+async function refreshOne(record: DuePreviewRecord): Promise<boolean> {
+  let ok = false
+  try {
+    const result = await refreshPreviewUrlsForTrack(record.spotify_track_id, undefined, {
+      identifiers: {
+        isrc: record.isrc,
+        title: record.title || '',
+        artists: record.artist || '',
+        spotifyPreviewUrl: null,
+      },
+      urlsOnly: true,
+    })
+    ok = !result.error
+  } catch (error) {
+    logError(error, {
+      component: 'previewExpiry.refreshOne',
+      spotifyTrackId: record.spotify_track_id,
+    })
+  }
+  await query(
+    `UPDATE track_bpm_cache
+     SET preview_refresh_failed_at = CASE WHEN $2::boolean THEN NULL ELSE NOW() END
+     WHERE spotify_track_id = $1`,
+    [record.spotify_track_id, ok]
+  )
+  return ok
+}
+
+/**
+ * Re-resolve cached preview URLs whose signed tokens have expired or expire
+ * within the sweep horizon, soonest first, until the batch or time budget
+ * runs out
+ */
+export async function sweepExpiringPreviewUrls(options: { maxDurationMs: number }): Promise<PreviewSweepSummary> {
+  const deadline = Date.now() + options.maxDurationMs
+  const due = await query<DuePreviewRecord>(
+    `SELECT spotify_track_id, isrc, title, artist
+     FROM track_bpm_cache
+     WHERE preview_expires_at < $1::timestamptz
+       AND (preview_refresh_failed_at IS NULL OR preview_refresh_failed_at < $2::timestamptz)
+     ORDER BY preview_expires_at ASC
+     LIMIT $3`,
+    [
+      new Date(Date.now() + SWEEP_HORIZON_HOURS * 3_600_000).toISOString(),
+      new Date(Date.now() - FAILED_RETRY_HOURS * 3_600_000).toISOString(),
+      SWEEP_BATCH_SIZE,
+    ]
+  )
+
+  const summary: PreviewSweepSummary = { due: due.length, refreshed: 0, failed: 0 }
+  for (let i = 0; i < due.length && Date.now() + TRACK_BUDGET_MS < deadline; i += SWEEP_CONCURRENCY) {
+    const results = await Promise.all(due.slice(i, i + SWEEP_CONCURRENCY).map((record) => refreshOne(record)))
+    for (const ok of results) {
+      if (ok) summary.refreshed += 1
+      else summary.failed += 1
+    }
+  }
+
+  if (summary.due > 0) {
+    logInfo('Preview URL sweep finished', { component: 'previewExpiry.sweepExpiringPreviewUrls', ...summary })
+  }
+  return summary
+}
+
+export async function getPreviewExpiryStats(): Promise<PreviewExpiryStats> {
+  const rows = await query<{ tracked: string; expired: string; expiring_soon: string; refresh_failed: string }>(
+    `SELECT COUNT(*) FILTER (WHERE preview_expires_at IS NOT NULL) AS tracked,
+            COUNT(*) FILTER (WHERE preview_expires_at < NOW()) AS expired,
+            COUNT(*) FILTER (
+              WHERE preview_expires_at >= NOW() AND preview_expires_at < NOW() + make_interval(hours => $1)
+            ) AS expiring_soon,
+            COUNT(*) FILTER (
+              WHERE preview_refresh_failed_at > NOW() - make_interval(hours => $2)
+            ) AS refresh_failed
+     FROM track_bpm_cache
+     WHERE preview_expires_at IS NOT NULL OR preview_refresh_failed_at IS NOT NULL`,
+    [SWEEP_HORIZON_HOURS, FAILED_RETRY_HOURS]
+  )
+  const row = rows[0]
+  return {
+    tracked: Number(row?.tracked || 0),
+    expired: Number(row?.expired || 0),
+    expiringSoon: Number(row?.expiring_soon || 0),
+    refreshFailed: Number(row?.refresh_failed || 0),
+    horizonHours: SWEEP_HORIZON_HOURS,
+  }
+}
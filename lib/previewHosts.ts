@@ -0,0 +1,54 @@
+/**
+ * Hosts that serve the preview URLs recorded in PreviewUrlEntry.provider.
+ * Shared by /api/audio-proxy (server) and the audio player (client).
+ */
+
+export type PreviewProvider = 'deezer_isrc' | 'muso_spotify' | 'itunes_search' | 'deezer_search'
+
+const DEEZER_HOSTS = ['dzcdn.net', 'deezer.com']
+const ITUNES_HOSTS = ['mzstatic.com', 'itunes.apple.com']
+const SPOTIFY_HOSTS = ['scdn.co', 'spotifycdn.com']
+
+// A host matches a suffix when it is the suffix itself or a subdomain of it
+export const PREVIEW_HOSTS_BY_PROVIDER: Record<PreviewProvider, string[]> = {
+  deezer_isrc: DEEZER_HOSTS,
+  deezer_search: DEEZER_HOSTS,
+  itunes_search: ITUNES_HOSTS,
+  muso_spotify: SPOTIFY_HOSTS,
+}
+
+const ALLOWED_HOST_SUFFIXES = Array.from(new Set(Object.values(PREVIEW_HOSTS_BY_PROVIDER).flat()))
+
+const parseUrl = (value: string): URL | null => {
+  try {
+    return new URL(value)
+  } catch {
+    return null
+  }
+}
+
+const hostMatches = (hostname: string, suffix: string) =>
+  hostname === suffix || hostname.endsWith(`.${suffix}`)
+
+/**
+ * True when the URL is a plain http(s) URL on the default port whose host
+ * belongs to one of the preview providers. Credentials and custom ports are
+ * rejected so the proxy cannot be pointed at anything else.
+ */
+export function isAllowedPreviewUrl(value: string): boolean {
+  const url = parseUrl(value)
+  if (!url) return false
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return false
+  if (url.port || url.username || url.password) return false
+  const hostname = url.hostname.toLowerCase()
+  return ALLOWED_HOST_SUFFIXES.some((suffix) => hostMatches(hostname, suffix))
+}
+
+/**
+ * True for Deezer's public API (api.deezer.com), whose track lookups are
+ * resolved into fresh CDN preview URLs by /api/deezer-preview
+ */
+export function isDeezerApiUrl(value: string): boolean {
+  const url = parseUrl(value)
+  return Boolean(url && url.protocol === 'https:' && !url.port && url.hostname.toLowerCase() === 'api.deezer.com')
+}
@@ -0,0 +1,412 @@
+import { query } from './db'
+import { getTrackDetailsByIsrc, hasMusoApiKey } from './muso'
+import { logError, logInfo } from './logger'
+import { externalFetch } from './externalFetch'
+import { PREVIEW_HOSTS_BY_PROVIDER, type PreviewProvider } from './previewHosts'
+import type { PreviewUrlEntry } from './types'
+
+export type { PreviewUrlEntry }
+
+export interface PreviewLookupParams {
+  isrc: string | null
+  title: string
+  artists: string
+  countryCode: string
+}
+
+// found: usable preview; mismatch: a candidate whose ISRC differs from Spotify's (kept for review, not used); miss: nothing
+export type PreviewLookupOutcome =
+  | { status: 'found'; entry: PreviewUrlEntry }
+  | { status: 'mismatch'; entry: PreviewUrlEntry }
+  | { status: 'miss' }
+
+export interface PreviewProviderDefinition {
+  id: PreviewProvider
+  label: string
+  // False when the provider cannot run for this track (no ISRC, missing API key)
+  canLookup: (params: PreviewLookupParams) => boolean
+  lookup: (params: PreviewLookupParams) => Promise<PreviewLookupOutcome>
+  // When the provider's preview URLs are signed, the time the signature stops working
+  parseExpiry?: (url: string) => Date | null
+}
+
+export interface PreviewProviderSettings {
+  order: PreviewProvider[]
+  disabled: PreviewProvider[]
+}
+
+export interface PreviewProviderStats {
+  provider: PreviewProvider
+  attempts: number
+  found: number
+  mismatches: number
+  errors: number
+  successRate: number | null
+  avgDurationMs: number | null
+}
+
+export const PREVIEW_PROVIDER_ORDER_SETTING = 'preview_provider_order'
+export const PREVIEW_PROVIDERS_DISABLED_SETTING = 'preview_providers_disabled'
+
+const LOOKUP_TIMEOUT_MS = 5000
+const SETTINGS_CACHE_TTL_MS = 60 * 1000
+const DEFAULT_STATS_DAYS = 7
+
+async function fetchJsonWithTimeout(url: string, init: RequestInit = {}): Promise<{ ok: boolean; status: number; data: any }> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), LOOKUP_TIMEOUT_MS)
+  try {
+    const response = await externalFetch(url, { ...init, signal: controller.signal })
+    const data = response.ok ? await response.json() : null
+    return { ok: response.ok, status: response.status, data }
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+// Akamai edge tokens (hdnea=exp=1712345678~acl=...~hmac=...), used by the Deezer and Apple CDNs
+const AKAMAI_TOKEN_PARAMS = ['hdnea', 'hdnts', '__token__']
+
+function parseAkamaiTokenExpiry(value: string): Date | null {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return null
+  }
+  for (const param of AKAMAI_TOKEN_PARAMS) {
+    const token = url.searchParams.get(param)
+    const match = token ? /(?:^|~)exp=(\d+)/.exec(token) : null
+    if (match) return new Date(Number(match[1]) * 1000)
+  }
+  return null
+}
+
+const deezerIsrcProvider: PreviewProviderDefinition = {
+  id: 'deezer_isrc',
+  label: 'Deezer (ISRC)',
+  parseExpiry: parseAkamaiTokenExpiry,
+  canLookup: ({ isrc }) => Boolean(isrc),
+  lookup: async ({ isrc }) => {
+    const { ok, status, data } = await fetchJsonWithTimeout(
+      `https://api.deezer.com/track/isrc:${encodeURIComponent(isrc || '')}`
+    )
+    if (!ok) throw new Error(`Deezer ISRC lookup failed: ${status}`)
+    if (!data?.id || !data.preview) return { status: 'miss' }
+    return {
+      status: 'found',
+      entry: {
+        url: data.preview,
+        successful: true,
+        isrc: data.isrc,
+        title: data.title,
+        artist: data.artist?.name,
+        provider: 'deezer_isrc',
+      },
+    }
+  },
+}
+
+const musoSpotifyProvider: PreviewProviderDefinition = {
+  id: 'muso_spotify',
+  label: 'Muso (Spotify preview)',
+  canLookup: ({ isrc }) => Boolean(isrc) && hasMusoApiKey(),
+  lookup: async ({ isrc, title, artists }) => {
+    const details = await getTrackDetailsByIsrc(isrc || '')
+    if (!details?.spotifyPreviewUrl) return { status: 'miss' }
+    const artistName = Array.isArray(details.artists)
+      ? details.artists.map((artist) => artist?.name).filter(Boolean).join(', ')
+      : artists
+    return {
+      status: 'found',
+      entry: {
+        url: details.spotifyPreviewUrl,
+        successful: true,
+        isrc: isrc || undefined,
+        title: details.title || title,
+        artist: artistName || artists,
+        provider: 'muso_spotify',
+      },
+    }
+  },
+}
+
+const itunesSearchProvider: PreviewProviderDefinition = {
+  id: 'itunes_search',
+  label: 'iTunes search',
+  parseExpiry: parseAkamaiTokenExpiry,
+  canLookup: ({ title, artists }) => Boolean(title || artists),
+  lookup: async ({ isrc, title, artists, countryCode }) => {
+    const searchTerm = `${artists} ${title}`
+    const itunesSearchUrl = `https://itunes.apple.com/search?term=${encodeURIComponent(searchTerm)}&media=music&entity=song&country=${countryCode}&limit=20`
+    const { ok, status, data } = await fetchJsonWithTimeout(itunesSearchUrl, {
+      headers: { 'User-Agent': 'Mozilla/5.0' },
+    })
+    if (!ok) throw new Error(`iTunes search failed: ${status}`)
+    if (!data?.resultCount || !Array.isArray(data.results)) return { status: 'miss' }
+
+    const tracks = data.results.filter((r: any) =>
+      (r.kind === 'song' || r.wrapperType === 'track') && r.previewUrl
+    )
+    if (tracks.length === 0) return { status: 'miss' }
+
+    // With a Spotify ISRC, only an exact ISRC match is the same recording
+    const matchingTrack = isrc ? tracks.find((t: any) => t.isrc === isrc) : tracks[0]
+    const selectedTrack = matchingTrack || tracks[0]
+    const entry: PreviewUrlEntry = {
+      url: selectedTrack.previewUrl,
+      successful: Boolean(matchingTrack),
+      isrc: selectedTrack.isrc,
+      title: selectedTrack.trackName,
+      artist: selectedTrack.artistName,
+      provider: 'itunes_search',
+      itunesRequestUrl: itunesSearchUrl,
+      itunesResponse: JSON.stringify(data),
+    }
+    return matchingTrack ? { status: 'found', entry } : { status: 'mismatch', entry }
+  },
+}
+
+const deezerSearchProvider: PreviewProviderDefinition = {
+  id: 'deezer_search',
+  label: 'Deezer search',
+  parseExpiry: parseAkamaiTokenExpiry,
+  canLookup: ({ title, artists }) => Boolean(title || artists),
+  lookup: async ({ isrc, title, artists }) => {
+    const searchUrl = new URL('https://api.deezer.com/search')
+    const queryParts: string[] = []
+    if (artists) queryParts.push(`artist:"${artists}"`)
+    if (title) queryParts.push(`track:"${title}"`)
+    searchUrl.searchParams.set('q', queryParts.join(' '))
+    searchUrl.searchParams.set('limit', '10')
+    const { ok, status, data } = await fetchJsonWithTimeout(searchUrl.toString(), {
+      headers: { Accept: 'application/json' },
+    })
+    if (!ok) throw new Error(`Deezer search failed: ${status}`)
+    const tracks = Array.isArray(data?.data) ? data.data.filter((track: any) => track?.preview) : []
+    if (tracks.length === 0) return { status: 'miss' }
+
+    // Search results don't always carry an ISRC; without one we can't confirm the recording
+    const matchingTrack = isrc ? tracks.find((track: any) => track.isrc === isrc) : tracks[0]
+    const selectedTrack = matchingTrack || tracks[0]
+    const entry: PreviewUrlEntry = {
+      url: selectedTrack.preview,
+      successful: Boolean(matchingTrack),
+      isrc: selectedTrack.isrc,
+      title: selectedTrack.title,
+      artist: selectedTrack.artist?.name,
+      provider: 'deezer_search',
+    }
+    return matchingTrack ? { status: 'found', entry } : { status: 'mismatch', entry }
+  },
+}
+
+/**
+ * All preview providers, in the default lookup order. Admins can reorder or
+ * disable them via admin_settings without a deploy.
+ */
+export const PREVIEW_PROVIDERS: PreviewProviderDefinition[] = [
+  deezerIsrcProvider,
+  musoSpotifyProvider,
+  itunesSearchProvider,
+  deezerSearchProvider,
+]
+
+const PROVIDER_IDS = PREVIEW_PROVIDERS.map((provider) => provider.id)
+
+function getEntryProvider(entry: PreviewUrlEntry): PreviewProviderDefinition | null {
+  if (entry.provider) {
+    return PREVIEW_PROVIDERS.find((provider) => provider.id === entry.provider) || null
+  }
+  // Older cache rows don't record the provider; fall back to the URL's host
+  let hostname: string
+  try {
+    hostname = new URL(entry.url).hostname.toLowerCase()
+  } catch {
+    return null
+  }
+  return PREVIEW_PROVIDERS.find((provider) =>
+    PREVIEW_HOSTS_BY_PROVIDER[provider.id].some((suffix) => hostname === suffix || hostname.endsWith(`.${suffix}`))
+  ) || null
+}
+
+/**
+ * When the preview URL that will be played (the successful entry) stops
+ * working, or null if it isn't signed
+ */
+export function getPreviewUrlsExpiry(urls: PreviewUrlEntry[] | null | undefined): Date | null {
+  const entry = urls?.find((item) => item.successful)
+  if (!entry?.url) return null
+  return getEntryProvider(entry)?.parseExpiry?.(entry.url) ?? null
+}
+
+const isPreviewProvider = (value: string): value is PreviewProvider =>
+  (PROVIDER_IDS as string[]).includes(value)
+
+const parseProviderList = (value: string | null | undefined): PreviewProvider[] =>
+  (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(isPreviewProvider)
+
+let settingsCache: { expiresAt: number; value: PreviewProviderSettings } | null = null
+
+/**
+ * Configured provider order and disabled providers. Providers missing from a
+ * saved order (e.g. added after it was saved) keep their default position at the end.
+ */
+export async function getPreviewProviderSettings(): Promise<PreviewProviderSettings> {
+  if (settingsCache && settingsCache.expiresAt > Date.now()) {
+    return settingsCache.value
+  }
+
+  let order: PreviewProvider[] = []
+  let disabled: PreviewProvider[] = []
+  try {
+    const rows = await query<{ key: string; value: string | null }>(
+      `SELECT key, value FROM admin_settings WHERE key = ANY($1::text[])`,
+      [[PREVIEW_PROVIDER_ORDER_SETTING, PREVIEW_PROVIDERS_DISABLED_SETTING]]
+    )
+    for (const row of rows) {
+      if (row.key === PREVIEW_PROVIDER_ORDER_SETTING) order = parseProviderList(row.value)
+      if (row.key === PREVIEW_PROVIDERS_DISABLED_SETTING) disabled = parseProviderList(row.value)
+    }
+  } catch (error) {
+    logError(error, { component: 'previewProviders.getPreviewProviderSettings' })
+  }
+
+  const value: PreviewProviderSettings = {
+    order: [...new Set([...order, ...PROVIDER_IDS])],
+    disabled: [...new Set(disabled)],
+  }
+  settingsCache = { expiresAt: Date.now() + SETTINGS_CACHE_TTL_MS, value }
+  return value
+}
+
+export async function savePreviewProviderSettings(
+  settings: PreviewProviderSettings,
+  updatedBy: string | null
+): Promise<PreviewProviderSettings> {
+  const order = [...new Set([...settings.order.filter(isPreviewProvider), ...PROVIDER_IDS])]
+  const disabled = [...new Set(settings.disabled.filter(isPreviewProvider))]
+  const entries: Array<[string, string]> = [
+    [PREVIEW_PROVIDER_ORDER_SETTING, order.join(',')],
+    [PREVIEW_PROVIDERS_DISABLED_SETTING, disabled.join(',')],
+  ]
+  for (const [key, value] of entries) {
+    await query(
+      `INSERT INTO admin_settings (key, value, updated_at, updated_by)
+       VALUES ($1, $2, NOW(), $3)
+       ON CONFLICT (key)
+       DO UPDATE SET value = EXCLUDED.value, updated_at = NOW(), updated_by = EXCLUDED.updated_by`,
+      [key, value, updatedBy]
+    )
+  }
+  const value = { order, disabled }
+  settingsCache = { expiresAt: Date.now() + SETTINGS_CACHE_TTL_MS, value }
+  logInfo('Preview provider settings updated', {
+    component: 'previewProviders.savePreviewProviderSettings',
+    order,
+    disabled,
+    updatedBy: updatedBy || 'anonymous',
+  })
+  return value
+}
+
+/**
+ * Enabled providers in configured order
+ */
+export async function getActivePreviewProviders(): Promise<PreviewProviderDefinition[]> {
+  const { order, disabled } = await getPreviewProviderSettings()
+  return order
+    .filter((id) => !disabled.includes(id))
+    .map((id) => PREVIEW_PROVIDERS.find((provider) => provider.id === id))
+    .filter((provider): provider is PreviewProviderDefinition => Boolean(provider))
+}
+
+type LookupResult = PreviewLookupOutcome['status'] | 'error'
+
+async function recordPreviewProviderResult(provider: PreviewProvider, result: LookupResult, durationMs: number): Promise<void> {
+  try {
+    await query(
+      `INSERT INTO preview_provider_stats (provider, stat_date, attempts, found, mismatches, errors, total_duration_ms, updated_at)
+       VALUES ($1, CURRENT_DATE, 1, $2, $3, $4, $5, NOW())
+       ON CONFLICT (provider, stat_date)
+       DO UPDATE SET attempts = preview_provider_stats.attempts + 1,
+                     found = preview_provider_stats.found + EXCLUDED.found,
+                     mismatches = preview_provider_stats.mismatches + EXCLUDED.mismatches,
+                     errors = preview_provider_stats.errors + EXCLUDED.errors,
+                     total_duration_ms = preview_provider_stats.total_duration_ms + EXCLUDED.total_duration_ms,
+                     updated_at = NOW()`,
+      [provider, result === 'found' ? 1 : 0, result === 'mismatch' ? 1 : 0, result === 'error' ? 1 : 0, durationMs]
+    )
+  } catch (error) {
+    logError(error, { component: 'previewProviders.recordPreviewProviderResult', provider })
+  }
+}
+
+/**
+ * Run one provider, recording the outcome for the success-rate dashboard.
+ * Errors are logged and treated as a miss so the next provider still runs.
+ */
+export async function runPreviewProvider(
+  provider: PreviewProviderDefinition,
+  params: PreviewLookupParams
+): Promise<PreviewLookupOutcome> {
+  const start = Date.now()
+  try {
+    const outcome = await provider.lookup(params)
+    void recordPreviewProviderResult(provider.id, outcome.status, Date.now() - start)
+    return outcome
+  } catch (error) {
+    void recordPreviewProviderResult(provider.id, 'error', Date.now() - start)
+    logError(error, {
+      component: 'previewProviders.runPreviewProvider',
+      provider: provider.id,
+      isrc: params.isrc,
+      title: params.title,
+      artists: params.artists,
+    })
+    return { status: 'miss' }
+  }
+}
+
+/**
+ * Per-provider lookup totals over the last `days` days, in registry order
+ */
+export async function getPreviewProviderStats(days: number = DEFAULT_STATS_DAYS): Promise<PreviewProviderStats[]> {
+  const rows = await query<{
+    provider: string
+    attempts: string
+    found: string
+    mismatches: string
+    errors: string
+    total_duration_ms: string
+  }>(
+    `SELECT provider,
+            SUM(attempts) AS attempts,
+            SUM(found) AS found,
+            SUM(mismatches) AS mismatches,
+            SUM(errors) AS errors,
+            SUM(total_duration_ms) AS total_duration_ms
+       FROM preview_provider_stats
+      WHERE stat_date > CURRENT_DATE - $1::int
+      GROUP BY provider`,
+    [days]
+  )
+
+  return PROVIDER_IDS.map((provider) => {
+    const row = rows.find((item) => item.provider === provider)
+    const attempts = Number(row?.attempts || 0)
+    const totalDurationMs = Number(row?.total_duration_ms || 0)
+    return {
+      provider,
+      attempts,
+      found: Number(row?.found || 0),
+      mismatches: Number(row?.mismatches || 0),
+      errors: Number(row?.errors || 0),
+      successRate: attempts > 0 ? Number(row?.found || 0) / attempts : null,
+      avgDurationMs: attempts > 0 ? Math.round(totalDurationMs / attempts) : null,
+    }
+  })
+}
@@ -0,0 +1,96 @@
+// Client helper for /api/stream/[batch_id]: reads NDJSON lines and, when the
+// server buffers the batch (X-Stream-Resumable: 1), reconnects with the last
+// cursor after a dropped connection instead of losing the remaining results.
+
+const DEFAULT_MAX_RECONNECTS = 3
+const RECONNECT_DELAY_MS = 1000
+
+export interface StreamLine {
+  type?: string
+  cursor?: number
+  resumable?: boolean
+  [key: string]: any
+}
+
+const isTerminalLine = (line: StreamLine) =>
+  line.type === 'complete' || (line.type === 'error' && !line.resumable)
+
+// Keeps any query string the caller already put on the stream URL
+function withCursor(url: string, cursor: number): string {
+  const resolved = new URL(url, location.origin)
+  resolved.searchParams.set('cursor', String(cursor))
+  return resolved.toString()
+}
+
+export async function readResumableStream(params: {
+  url: string
+  signal: AbortSignal
+  onLine: (line: StreamLine) => void | Promise<void>
+  onParseError?: (rawLine: string, error: unknown) => void
+  maxReconnects?: number
+}): Promise<void> {
+  const { url, signal, onLine, onParseError } = params
+  const maxReconnects = params.maxReconnects ?? DEFAULT_MAX_RECONNECTS
+  let cursor = 0
+  let reconnects = 0
+
+  while (true) {
+    const startCursor = cursor
+    const response = await fetch(cursor > 0 ? withCursor(url, cursor) : url, { signal })
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+      throw new Error(errorData.error || `HTTP ${response.status}`)
+    }
+    if (!response.body) {
+      throw new Error('No response body')
+    }
+
+    const resumable = response.headers.get('X-Stream-Resumable') === '1'
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let finished = false
+
+    const handleRawLine = async (rawLine: string) => {
+      if (!rawLine.trim()) return
+      let line: StreamLine
+      try {
+        line = JSON.parse(rawLine)
+      } catch (error) {
+        onParseError?.(rawLine, error)
+        return
+      }
+      if (!line || typeof line !== 'object') return
+      if (typeof line.cursor === 'number') cursor = line.cursor
+      if (isTerminalLine(line)) finished = true
+      await onLine(line)
+    }
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || ''
+        for (const line of lines) {
+          await handleRawLine(line)
+        }
+      }
+      await handleRawLine(buffer)
+    } catch (error) {
+      if (signal.aborted || !resumable || (cursor === startCursor && reconnects >= maxReconnects)) throw error
+    }
+
+    if (finished || !resumable) return
+    // The server closes long-lived connections on purpose (MAX_CONNECTION_MS in
+    // lib/bpmStreamBuffer.ts); only connections that made no progress count
+    // against the reconnect budget.
+    if (cursor > startCursor) reconnects = 0
+    if (reconnects >= maxReconnects) {
+      throw new Error('Stream ended before the batch completed')
+    }
+    reconnects += 1
+    await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS * reconnects))
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Tempo-curve sequencing: reorder tracks so BPM follows a target energy arc
+ * while neighbouring tracks stay harmonically compatible
+ */
+
+import { isHarmonicallyCompatible, type CamelotKey } from './camelot'
+
+export type SequenceCurve = 'arc' | 'build' | 'winddown' | 'waves'
+
+export const SEQUENCE_CURVES: Array<{ value: SequenceCurve; label: string }> = [
+  { value: 'arc', label: 'Warm-up → peak → cool-down' },
+  { value: 'build', label: 'Steady build' },
+  { value: 'winddown', label: 'Wind-down' },
+  { value: 'waves', label: 'Two peaks' },
+]
+
+export interface SequenceItem {
+  id: string
+  bpm: number | null
+  camelot: CamelotKey | null
+}
+
+export interface SequenceResult {
+  order: string[]
+  targets: Record<string, number>
+  minBpm: number | null
+  maxBpm: number | null
+}
+
+// Cost of a key clash between neighbours, expressed in BPM of tempo error
+const KEY_CLASH_PENALTY = 6
+const UNKNOWN_KEY_PENALTY = 2
+
+/**
+ * Normalized curve height (0-1) at relative position x (0-1)
+ */
+export function getCurveValue(curve: SequenceCurve, x: number): number {
+  const clamped = Math.min(1, Math.max(0, x))
+  switch (curve) {
+    case 'build':
+      return clamped
+    case 'winddown':
+      return 1 - clamped
+    case 'waves':
+      return (1 - Math.cos(clamped * Math.PI * 4)) / 2
+    case 'arc':
+    default: {
+      // Peak at two thirds of the set, ending a little above the opening tempo
+      const peak = 0.65
+      if (clamped <= peak) {
+        return Math.sin((clamped / peak) * (Math.PI / 2))
+      }
+      return 1 - 0.75 * ((clamped - peak) / (1 - peak))
+    }
+  }
+}
+
+/**
+ * Greedy sequencing: fill each position with the remaining track closest to the
+ * target tempo, penalising key clashes with the previous track.
+ * Targets are taken from the pool's own BPMs by rank, so the curve spans exactly
+ * the available tempos and outliers are not left stranded at the end.
+ * Tracks without a BPM are appended at the end in their original order.
+ */
+export function sequenceTracks(items: SequenceItem[], curve: SequenceCurve): SequenceResult {
+  const withBpm = items.filter((item) => item.bpm != null)
+  const withoutBpm = items.filter((item) => item.bpm == null)
+  if (withBpm.length === 0) {
+    return { order: items.map((item) => item.id), targets: {}, minBpm: null, maxBpm: null }
+  }
+
+  const bpms = withBpm.map((item) => item.bpm as number).sort((a, b) => a - b)
+  const curveValues = withBpm.map((_, position) =>
+    getCurveValue(curve, withBpm.length === 1 ? 0 : position / (withBpm.length - 1))
+  )
+  const positionTargets: number[] = new Array(withBpm.length)
+  curveValues
+    .map((value, position) => ({ value, position }))
+    .sort((a, b) => a.value - b.value || a.position - b.position)
+    .forEach(({ position }, rank) => {
+      positionTargets[position] = bpms[rank]
+    })
+
+  const remaining = [...withBpm]
+  const order: string[] = []
+  const targets: Record<string, number> = {}
+  let previous: SequenceItem | null = null
+
+  for (let position = 0; position < withBpm.length; position += 1) {
+    const target = positionTargets[position]
+
+    let bestIndex = 0
+    let bestCost = Number.POSITIVE_INFINITY
+    for (let i = 0; i < remaining.length; i += 1) {
+      const candidate = remaining[i]
+      let cost = Math.abs((candidate.bpm as number) - target)
+      if (previous) {
+        if (!previous.camelot || !candidate.camelot) {
+          cost += UNKNOWN_KEY_PENALTY
+        } else if (!isHarmonicallyCompatible(previous.camelot, candidate.camelot)) {
+          cost += KEY_CLASH_PENALTY
+        }
+      }
+      if (cost < bestCost) {
+        bestCost = cost
+        bestIndex = i
+      }
+    }
+
+    const [chosen] = remaining.splice(bestIndex, 1)
+    order.push(chosen.id)
+    targets[chosen.id] = target
+    previous = chosen
+  }
+
+  return {
+    order: [...order, ...withoutBpm.map((item) => item.id)],
+    targets,
+    minBpm: bpms[0],
+    maxBpm: bpms[bpms.length - 1],
+  }
+}
@@ -9,7 +9,9 @@ import {
 } from './errors'
 import { logError, logWarning, logInfo } from './logger'
 import { incrementExternalApiUsage } from './externalApiUsage'
+import { externalFetch } from './externalFetch'
 import { hasMusoApiKey, searchTracksByKeyword } from './muso'
+import { recordPlaylistSnapshot } from './playlistHistory'
 
 interface SpotifyError {
   error: {
@@ -94,6 +96,42 @@ async function paginateSpotify<T>(
   return allItems
 }
 
+/**
+ * OAuth scopes: read scopes are requested at login, write scopes are only
+ * requested through an incremental upgrade when a write action needs them
+ */
+export const SPOTIFY_READ_SCOPES = ['playlist-read-private', 'playlist-read-collaborative']
+export const SPOTIFY_WRITE_SCOPES = ['playlist-modify-private', 'playlist-modify-public']
+
+export const SPOTIFY_SCOPES_COOKIE = 'spotify_scopes'
+
+/**
+ * Same-origin path to return to after login, or null when `returnTo` would
+ * leave the site. Browsers read a backslash as "/" and drop tabs and newlines, so the
+ * path is resolved against the request origin rather than checked by prefix.
+ */
+export function getSafeReturnPath(returnTo: string | null | undefined, requestUrl: string): string | null {
+  if (!returnTo || !returnTo.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(returnTo)) return null
+  const origin = new URL(requestUrl).origin
+  let resolved: URL
+  try {
+    resolved = new URL(returnTo, origin)
+  } catch {
+    return null
+  }
+  if (resolved.origin !== origin) return null
+  return `${resolved.pathname}${resolved.search}${resolved.hash}`
+}
+
+/**
+ * Check whether the current session's token was granted all of the given scopes
+ */
+export async function hasSpotifyScopes(required: string[]): Promise<boolean> {
+  const cookieStore = await cookies()
+  const granted = (cookieStore.get(SPOTIFY_SCOPES_COOKIE)?.value || '').split(' ').filter(Boolean)
+  return required.every((scope) => granted.includes(scope))
+}
+
 export async function getAccessToken(): Promise<string | null> {
   const cookieStore = await cookies()
   const token = cookieStore.get('access_token')?.value || null
@@ -136,7 +174,7 @@ async function refreshAccessToken(): Promise<string | null> {
     const start = Date.now()
     const controller = new AbortController()
     const timeoutId = setTimeout(() => controller.abort(), REFRESH_TIMEOUT_MS)
-    const response = await fetch('https://accounts.spotify.com/api/token', {
+    const response = await externalFetch('https://accounts.spotify.com/api/token', {
       method: 'POST',
       signal: controller.signal,
       headers: {
@@ -172,7 +210,7 @@ async function refreshAccessToken(): Promise<string | null> {
     }
 
     const data = await response.json()
-    const { access_token, expires_in, refresh_token: newRefreshToken } = data
+    const { access_token, expires_in, refresh_token: newRefreshToken, scope } = data
 
     logInfo('Token refresh successful', {
       component: 'spotify.refreshAccessToken',
@@ -191,6 +229,16 @@ async function refreshAccessToken(): Promise<string | null> {
       path: '/',
     })
 
+    if (typeof scope === 'string') {
+      cookieStore.set(SPOTIFY_SCOPES_COOKIE, scope, {
+        maxAge: 60 * 60 * 24 * 365, // 1 year
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+      })
+    }
+
     // Update refresh token if a new one was provided
     if (newRefreshToken) {
       cookieStore.set('refresh_token', newRefreshToken, {
@@ -255,7 +303,7 @@ export async function makeSpotifyRequest<T>(
     const timeoutId = options.signal ? undefined : setTimeout(() => controller.abort(), SPOTIFY_REQUEST_TIMEOUT_MS)
     const signal = options.signal ?? controller.signal
     try {
-      const response = await fetch(url, {
+      const response = await externalFetch(url, {
         ...options,
         signal,
         headers: {
@@ -491,7 +539,7 @@ export async function makeSpotifyRequest<T>(
   return response.json() as Promise<T>
 }
 
-async function mapWithConcurrency<T, R>(
+export async function mapWithConcurrency<T, R>(
   items: T[],
   limit: number,
   iterator: (item: T) => Promise<R>
@@ -647,6 +695,23 @@ async function getPlaylistSnapshot(playlistId: string): Promise<string | null> {
   }
 }
 
+/**
+ * Whether the signed-in user can currently see the playlist on Spotify. Always
+ * asks Spotify rather than playlist_cache, which is shared by every user.
+ * Spotify's 403/404 mean no access; auth and other failures are rethrown.
+ */
+export async function canAccessPlaylist(playlistId: string): Promise<boolean> {
+  try {
+    await makeSpotifyRequest<{ id: string }>(`/playlists/${encodeURIComponent(playlistId)}?fields=id`)
+    return true
+  } catch (error) {
+    if (error instanceof Error && (error.message.startsWith('Forbidden') || /not found|\b404\b/i.test(error.message))) {
+      return false
+    }
+    throw error
+  }
+}
+
 async function refreshPlaylistCache(playlistId: string): Promise<PlaylistCacheEntry> {
   if (playlistRefreshInFlight.has(playlistId)) {
     return playlistRefreshInFlight.get(playlistId)!
@@ -699,6 +764,7 @@ async function cachePlaylist(
       playlistId,
       snapshotId,
     })
+    await recordPlaylistSnapshot(playlistId, snapshotId, tracksData)
   } catch (error) {
     logError(error, {
       component: 'spotify.cachePlaylist',
@@ -726,7 +792,7 @@ async function updatePlaylistTracksCache(playlistId: string, tracksData: any[]):
   }
 }
 
-function normalizeMatchValue(value: string): string {
+export function normalizeMatchValue(value: string): string {
   return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
 }
 
@@ -885,11 +951,12 @@ export async function getPlaylist(playlistId: string, useCache = true): Promise<
  */
 async function getPlaylistTracksInternal(playlistId: string): Promise<any[]> {
   const fields = [
-    'items(added_at,track(id,name,artists,album,external_urls,external_ids,preview_url,uri,explicit,duration_ms,track_number,disc_number,popularity,is_local,is_playable,linked_from))',
+    'items(added_at,added_by(id),track(id,name,artists,album,external_urls,external_ids,preview_url,uri,explicit,duration_ms,track_number,disc_number,popularity,is_local,is_playable,linked_from))',
     'next',
   ].join(',')
   const allItems = await paginateSpotify<{
     added_at: string
+    added_by?: { id?: string } | null
     track: any
   }>(`/playlists/${playlistId}/tracks?limit=50&fields=${encodeURIComponent(fields)}`)
 
@@ -898,6 +965,7 @@ async function getPlaylistTracksInternal(playlistId: string): Promise<any[]> {
     .map((item) => ({
       ...item.track,
       added_at: item.added_at,
+      added_by: item.added_by?.id ?? null,
     }))
 
   return tracksWithMetadata
@@ -952,3 +1020,131 @@ export async function getPlaylistTracks(playlistId: string, useCache = true): Pr
   const refreshed = await refreshPlaylistCache(playlistId)
   return refreshed.tracks
 }
+
+const SPOTIFY_ADD_TRACKS_CHUNK_SIZE = 100
+
+/**
+ * Create a playlist for the current user and add the given track URIs in order.
+ * Requires the playlist-modify scopes; tracks are added in chunks of 100 (Spotify's per-request limit).
+ * Once the playlist exists a failed chunk no longer throws: the result carries the
+ * playlist ID with the counts added and not added, so callers can report a partial save
+ * instead of leaving an unknown, half-filled playlist behind.
+ */
+export async function createPlaylistWithTracks(params: {
+  name: string
+  description?: string
+  isPublic?: boolean
+  uris: string[]
+}): Promise<{ id: string; url: string | null; tracksAdded: number; tracksFailed: number }> {
+  const { name, description, isPublic = false, uris } = params
+  const user = await makeSpotifyRequest<{ id: string }>('/me')
+  const playlist = await makeSpotifyRequest<{ id: string; external_urls?: { spotify?: string } }>(
+    `/users/${encodeURIComponent(user.id)}/playlists`,
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        name,
+        description: description || '',
+        public: isPublic,
+      }),
+    }
+  )
+
+  const { added: tracksAdded, error } = await addTrackChunks(playlist.id, uris)
+  const tracksFailed = uris.length - tracksAdded
+
+  if (error) {
+    logError(error, {
+      component: 'spotify.createPlaylistWithTracks',
+      playlistId: playlist.id,
+      tracksAdded,
+      tracksFailed,
+    })
+  } else {
+    logInfo('Created Spotify playlist', {
+      component: 'spotify.createPlaylistWithTracks',
+      playlistId: playlist.id,
+      tracksAdded,
+    })
+  }
+
+  return {
+    id: playlist.id,
+    url: playlist.external_urls?.spotify || null,
+    tracksAdded,
+    tracksFailed,
+  }
+}
+
+async function addTrackChunks(playlistId: string, uris: string[]): Promise<{ added: number; error: unknown }> {
+  let added = 0
+  for (let i = 0; i < uris.length; i += SPOTIFY_ADD_TRACKS_CHUNK_SIZE) {
+    const chunk = uris.slice(i, i + SPOTIFY_ADD_TRACKS_CHUNK_SIZE)
+    try {
+      await makeSpotifyRequest(`/playlists/${playlistId}/tracks`, {
+        method: 'POST',
+        body: JSON.stringify({ uris: chunk }),
+      })
+    } catch (error) {
+      return { added, error }
+    }
+    added += chunk.length
+  }
+  return { added, error: null }
+}
+
+export async function addTracksToPlaylist(playlistId: string, uris: string[]): Promise<number> {
+  const { added, error } = await addTrackChunks(playlistId, uris)
+  if (error) throw error
+  return added
+}
+
+/**
+ * Add the given track URIs to an existing playlist, skipping tracks it already
+ * contains, then refresh playlist_cache so the playlist view shows them
+ */
+export async function addMissingTracksToPlaylist(
+  playlistId: string,
+  uris: string[]
+): Promise<{ tracksAdded: number; alreadyPresent: number }> {
+  const existing = await getPlaylistTracks(playlistId, false)
+  const existingUris = new Set(
+    existing.map((track: any) => (typeof track?.id === 'string' ? `spotify:track:${track.id}` : null)).filter(Boolean)
+  )
+  const missing = uris.filter((uri) => !existingUris.has(uri))
+  const tracksAdded = await addTracksToPlaylist(playlistId, missing)
+  if (tracksAdded > 0) {
+    await refreshPlaylistCache(playlistId)
+  }
+
+  logInfo('Added tracks to Spotify playlist', {
+    component: 'spotify.addMissingTracksToPlaylist',
+    playlistId,
+    tracksAdded,
+    alreadyPresent: uris.length - missing.length,
+  })
+
+  return { tracksAdded, alreadyPresent: uris.length - missing.length }
+}
+
+/**
+ * Resolve Spotify user IDs (e.g. playlist "added_by") to display names.
+ * Lookups that fail fall back to the raw ID.
+ */
+export async function getSpotifyUserDisplayNames(userIds: string[]): Promise<Record<string, string>> {
+  const names: Record<string, string> = {}
+  for (const userId of Array.from(new Set(userIds.filter(Boolean)))) {
+    try {
+      const user = await makeSpotifyRequest<any>(`/users/${encodeURIComponent(userId)}`)
+      names[userId] = user?.display_name || userId
+    } catch (error) {
+      logWarning('Failed to resolve Spotify user display name', {
+        component: 'spotify.getSpotifyUserDisplayNames',
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      names[userId] = userId
+    }
+  }
+  return names
+}
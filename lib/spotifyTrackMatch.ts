@@ -0,0 +1,111 @@
+import { query } from './db'
+import { makeSpotifyRequest, mapWithConcurrency } from './spotify'
+import { AuthenticationError, RateLimitError } from './errors'
+import { logError } from './logger'
+
+export interface SpotifyMatchRequest {
+  // Caller's identifier for the track, echoed back in the match
+  key: string
+  isrc?: string
+  title: string
+  artist: string
+  spotifyTrackId?: string
+}
+
+export interface SpotifyTrackMatch {
+  key: string
+  spotifyTrackId: string | null
+  // provided: the caller already knew the ID; cache: track_bpm_cache; isrc/search: Spotify search
+  matchedBy: 'provided' | 'cache' | 'isrc' | 'search' | null
+}
+
+type SpotifySearchResponse = {
+  tracks?: {
+    items?: Array<{ id: string }>
+  }
+}
+
+const SPOTIFY_MATCH_CONCURRENCY = 3
+const ISRC_LOOKUP_CHUNK_SIZE = 1000
+
+function cleanArtistName(artist: string) {
+  return artist.split(' feat.')[0].split(' ft.')[0].trim()
+}
+
+/**
+ * Find a Spotify track by ISRC, falling back to a title and artist search
+ */
+export async function searchSpotifyTrackId(params: {
+  isrc?: string | null
+  title?: string | null
+  artist?: string | null
+}): Promise<{ id: string; matchedBy: 'isrc' | 'search' } | null> {
+  const { isrc, title, artist } = params
+  if (isrc) {
+    const searchRes = await makeSpotifyRequest<SpotifySearchResponse>(
+      `/search?q=${encodeURIComponent(`isrc:${isrc}`)}&type=track&limit=1`
+    )
+    const id = searchRes.tracks?.items?.[0]?.id
+    if (id) return { id, matchedBy: 'isrc' }
+  }
+  if (title && artist) {
+    const cleanArtist = cleanArtistName(artist)
+    const searchQuery = `track:${title} artist:${cleanArtist}`
+    const searchRes = await makeSpotifyRequest<SpotifySearchResponse>(
+      `/search?q=${encodeURIComponent(searchQuery)}&type=track&limit=1`
+    )
+    const id = searchRes.tracks?.items?.[0]?.id
+    if (id) return { id, matchedBy: 'search' }
+  }
+  return null
+}
+
+async function loadCachedSpotifyIds(isrcs: string[]): Promise<Map<string, string>> {
+  const ids = new Map<string, string>()
+  for (let start = 0; start < isrcs.length; start += ISRC_LOOKUP_CHUNK_SIZE) {
+    const chunk = isrcs.slice(start, start + ISRC_LOOKUP_CHUNK_SIZE)
+    const placeholders = chunk.map((_, i) => `$${i + 1}`).join(',')
+    const rows = await query<{ isrc: string; spotify_track_id: string }>(
+      `SELECT isrc, spotify_track_id FROM track_bpm_cache WHERE isrc IN (${placeholders})`,
+      chunk
+    )
+    for (const row of rows) {
+      if (row.isrc && row.spotify_track_id) ids.set(row.isrc.toUpperCase(), row.spotify_track_id)
+    }
+  }
+  return ids
+}
+
+/**
+ * Resolve tracks from outside Spotify (e.g. credit search results) to Spotify
+ * track IDs: known IDs are kept, ISRCs already seen by the BPM cache are
+ * looked up in one query, and only the rest are searched on Spotify. Tracks
+ * that cannot be found come back with a null ID; auth and rate limit errors
+ * abort the whole batch.
+ */
+export async function matchSpotifyTracks(tracks: SpotifyMatchRequest[]): Promise<SpotifyTrackMatch[]> {
+  const normalizeIsrc = (isrc?: string) => (isrc ? isrc.trim().toUpperCase() : '')
+  const cachedIds = await loadCachedSpotifyIds(
+    Array.from(new Set(
+      tracks.filter((track) => !track.spotifyTrackId).map((track) => normalizeIsrc(track.isrc)).filter(Boolean)
+    ))
+  )
+
+  return mapWithConcurrency(tracks, SPOTIFY_MATCH_CONCURRENCY, async (track): Promise<SpotifyTrackMatch> => {
+    if (track.spotifyTrackId) {
+      return { key: track.key, spotifyTrackId: track.spotifyTrackId, matchedBy: 'provided' }
+    }
+    const cachedId = cachedIds.get(normalizeIsrc(track.isrc))
+    if (cachedId) {
+      return { key: track.key, spotifyTrackId: cachedId, matchedBy: 'cache' }
+    }
+    try {
+      const found = await searchSpotifyTrackId(track)
+      return { key: track.key, spotifyTrackId: found?.id ?? null, matchedBy: found?.matchedBy ?? null }
+    } catch (error) {
+      if (error instanceof AuthenticationError || error instanceof RateLimitError) throw error
+      logError(error, { component: 'spotifyTrackMatch', key: track.key, isrc: track.isrc ?? null })
+      return { key: track.key, spotifyTrackId: null, matchedBy: null }
+    }
+  })
+}
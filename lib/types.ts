@@ -2,6 +2,9 @@
  * Shared type definitions for the application
  */
 
+import type { Infer } from './apiSchema'
+import type { bpmResultSchema, previewUrlEntrySchema } from './apiContracts'
+
 // ============================================================================
 // Spotify API Types
 // ============================================================================
@@ -35,6 +38,7 @@ export interface SpotifyTrack {
   }
   preview_url?: string | null
   added_at?: string
+  added_by?: string | null
   tempo?: number | null
   popularity?: number
 }
@@ -92,24 +96,9 @@ export interface SpotifyPlaylistInfo {
 // BPM Types
 // ============================================================================
 
-export type PreviewUrlEntry = {
-  url: string
-  successful?: boolean
-}
-
-export interface BpmResult {
-  bpm: number | null
-  source: string
-  upc?: string
-  bpmRaw?: number
-  urls?: Array<{ url: string; successful?: boolean }>
-  error?: string
-  cached?: boolean
-  key?: string
-  scale?: string
-  keyConfidence?: number
-  bpmConfidence?: number
-}
+// Canonical shapes live with the API contracts so routes and clients share them
+export type PreviewUrlEntry = Infer<typeof previewUrlEntrySchema>
+export type BpmResult = Infer<typeof bpmResultSchema>
 
 export interface BpmDetails {
   source?: string
@@ -117,6 +106,15 @@ export interface BpmDetails {
   upc?: string
 }
 
+export interface TrackAudioFeatures {
+  loudnessLufs: number | null
+  energy: number | null // 0-1
+  danceability: number | null // 0-1
+  onsetDensity: number | null // onsets per second
+  introSeconds: number | null
+  outroSeconds: number | null
+}
+
 // ============================================================================
 // API Response States (Discriminated Unions)
 // ============================================================================
@@ -142,7 +140,22 @@ export type ApiResponseState<T> = LoadingState | SuccessState<T> | ErrorState
 // Component Props Types
 // ============================================================================
 
-export type SortField = 'name' | 'artists' | 'album' | 'release_date' | 'duration' | 'added_at' | 'tempo' | 'popularity'
+export type SortField =
+  | 'name'
+  | 'artists'
+  | 'album'
+  | 'release_date'
+  | 'duration'
+  | 'added_at'
+  | 'tempo'
+  | 'key'
+  | 'popularity'
+  | 'energy'
+  | 'danceability'
+  | 'loudness'
+  | 'onset_density'
+  | 'intro'
+  | 'outro'
 export type SortDirection = 'asc' | 'desc'
 
 // ============================================================================
@@ -0,0 +1,4 @@
+ALTER TABLE track_bpm_cache
+  ADD COLUMN IF NOT EXISTS audio_features_failed_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN track_bpm_cache.audio_features_failed_at IS 'When the job worker could not decode the preview for audio features; the backfill skips these rows';
@@ -0,0 +1,8 @@
+ALTER TABLE track_bpm_cache
+  ADD COLUMN IF NOT EXISTS bpm_review_decision TEXT,
+  ADD COLUMN IF NOT EXISTS bpm_reviewed_by VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS bpm_reviewed_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN track_bpm_cache.bpm_review_decision IS 'Admin decision for an estimator disagreement: essentia, librosa, manual, half, double, key_essentia, key_librosa or keep';
+COMMENT ON COLUMN track_bpm_cache.bpm_reviewed_by IS 'Spotify user ID of the BPM/key reviewer';
+COMMENT ON COLUMN track_bpm_cache.bpm_reviewed_at IS 'Timestamp when the BPM/key review was recorded';
@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS bpm_jobs (
+  id SERIAL PRIMARY KEY,
+  playlist_id VARCHAR(255) NOT NULL,
+  spotify_track_id VARCHAR(255) NOT NULL,
+  isrc VARCHAR(50),
+  title TEXT NOT NULL,
+  artists TEXT NOT NULL,
+  country_code VARCHAR(2) NOT NULL DEFAULT 'us',
+  status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'done', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  requested_by VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT unique_bpm_job_playlist_track UNIQUE (playlist_id, spotify_track_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bpm_jobs_status_created ON bpm_jobs(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_bpm_jobs_playlist_updated ON bpm_jobs(playlist_id, updated_at);
+
+COMMENT ON TABLE bpm_jobs IS 'Server-side BPM analysis queue, one row per playlist track, drained by the BPM job worker';
+COMMENT ON COLUMN bpm_jobs.isrc IS 'Track identifiers captured at enqueue time so the worker needs no Spotify session';
+COMMENT ON COLUMN bpm_jobs.status IS 'queued, running, done or failed';
+COMMENT ON COLUMN bpm_jobs.attempts IS 'Number of times the worker has claimed the job';
+COMMENT ON COLUMN bpm_jobs.last_error IS 'Error from the most recent failed attempt';
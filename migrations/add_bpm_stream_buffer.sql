@@ -0,0 +1,33 @@
+CREATE TABLE IF NOT EXISTS bpm_stream_batches (
+  batch_id VARCHAR(255) PRIMARY KEY,
+  index_to_track_id JSONB NOT NULL DEFAULT '{}'::jsonb,
+  total INTEGER,
+  state VARCHAR(20) NOT NULL DEFAULT 'streaming' CHECK (state IN ('streaming', 'complete', 'error')),
+  error TEXT,
+  upstream_opens INTEGER NOT NULL DEFAULT 0,
+  reader_lease_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE SEQUENCE IF NOT EXISTS bpm_stream_results_seq;
+
+CREATE TABLE IF NOT EXISTS bpm_stream_results (
+  batch_id VARCHAR(255) NOT NULL REFERENCES bpm_stream_batches(batch_id) ON DELETE CASCADE,
+  result_index INTEGER NOT NULL,
+  spotify_track_id VARCHAR(255),
+  status VARCHAR(20) NOT NULL,
+  payload JSONB NOT NULL,
+  seq BIGINT NOT NULL DEFAULT nextval('bpm_stream_results_seq'),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (batch_id, result_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bpm_stream_batches_created_at ON bpm_stream_batches(created_at);
+CREATE INDEX IF NOT EXISTS idx_bpm_stream_results_batch_seq ON bpm_stream_results(batch_id, seq);
+
+COMMENT ON TABLE bpm_stream_batches IS 'Analyzer stream batches buffered by /api/stream/[batch_id] so dropped connections can resume';
+COMMENT ON COLUMN bpm_stream_batches.index_to_track_id IS 'Batch URL index to Spotify track ID, from /api/bpm/stream-batch';
+COMMENT ON COLUMN bpm_stream_batches.upstream_opens IS 'Times the analyzer stream was opened; capped when resuming after a reader dies';
+COMMENT ON COLUMN bpm_stream_batches.reader_lease_until IS 'Lease held by the request currently reading the analyzer stream';
+COMMENT ON TABLE bpm_stream_results IS 'Latest streamed line per batch index; seq is the resume cursor';
@@ -0,0 +1,26 @@
+CREATE TABLE IF NOT EXISTS bpm_suggestions (
+  id SERIAL PRIMARY KEY,
+  spotify_track_id VARCHAR(255) NOT NULL,
+  user_id VARCHAR(255) NOT NULL, -- Spotify user ID of the submitter
+  kind VARCHAR(10) NOT NULL CHECK (kind IN ('bpm', 'key')),
+  bpm NUMERIC(5, 1), -- Suggested BPM (kind = bpm)
+  key TEXT, -- Suggested key (kind = key)
+  scale TEXT, -- Suggested scale, major or minor (kind = key)
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected', 'superseded')),
+  resolved_by VARCHAR(255), -- Admin Spotify user ID, or 'community' for auto-promotion
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT bpm_suggestion_value CHECK (
+    (kind = 'bpm' AND bpm IS NOT NULL) OR (kind = 'key' AND key IS NOT NULL AND scale IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_bpm_suggestions_track_created ON bpm_suggestions(spotify_track_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bpm_suggestions_pending_user
+  ON bpm_suggestions(spotify_track_id, user_id, kind) WHERE status = 'pending';
+
+COMMENT ON TABLE bpm_suggestions IS 'BPM/key corrections suggested by signed-in users; agreeing suggestions are promoted to the manual value';
+COMMENT ON COLUMN bpm_suggestions.kind IS 'bpm or key';
+COMMENT ON COLUMN bpm_suggestions.status IS 'pending, accepted, rejected, or superseded by the same user''s newer suggestion';
+COMMENT ON COLUMN bpm_suggestions.resolved_by IS 'Admin Spotify user ID, or community when enough users agreed';
@@ -0,0 +1,4 @@
+ALTER TABLE credits_cache
+  ADD COLUMN IF NOT EXISTS truncated BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN credits_cache.truncated IS 'Composite searches: a term had more matches than the per-term cap, so the join may be incomplete.';
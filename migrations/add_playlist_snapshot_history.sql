@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS playlist_snapshot_history (
+  id SERIAL PRIMARY KEY,
+  playlist_id VARCHAR(255) NOT NULL,
+  snapshot_id VARCHAR(255) NOT NULL,
+  tracks JSONB NOT NULL,
+  track_count INTEGER NOT NULL,
+  captured_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT unique_playlist_snapshot UNIQUE (playlist_id, snapshot_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_playlist_snapshot_history_playlist ON playlist_snapshot_history(playlist_id, captured_at DESC);
+
+COMMENT ON TABLE playlist_snapshot_history IS 'Every distinct playlist snapshot seen when refreshing playlist_cache, for history and diffs';
+COMMENT ON COLUMN playlist_snapshot_history.tracks IS 'Ordered compact track entries: id, name, artists, added_at, added_by';
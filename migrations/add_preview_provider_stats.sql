@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS preview_provider_stats (
+  provider TEXT NOT NULL, -- deezer_isrc, muso_spotify, itunes_search, deezer_search
+  stat_date DATE NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  found INTEGER NOT NULL DEFAULT 0, -- Lookups that returned a usable preview URL
+  mismatches INTEGER NOT NULL DEFAULT 0, -- Lookups that only found a different recording (ISRC mismatch)
+  errors INTEGER NOT NULL DEFAULT 0, -- Lookups that failed (HTTP error, timeout)
+  total_duration_ms BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (provider, stat_date)
+);
+
+COMMENT ON TABLE preview_provider_stats IS 'Daily preview URL lookup outcomes per provider, used for success rates on /admin/observability';
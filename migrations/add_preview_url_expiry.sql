@@ -0,0 +1,23 @@
+ALTER TABLE track_bpm_cache
+  ADD COLUMN IF NOT EXISTS preview_expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS preview_refresh_failed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_track_bpm_cache_preview_expires_at
+  ON track_bpm_cache(preview_expires_at) WHERE preview_expires_at IS NOT NULL;
+
+COMMENT ON COLUMN track_bpm_cache.preview_expires_at IS 'When the signed token (hdnea exp) of the successful preview URL expires, null if unsigned';
+COMMENT ON COLUMN track_bpm_cache.preview_refresh_failed_at IS 'Last time the scheduled sweep could not find a replacement preview URL';
+
+-- Backfill from the Akamai token of the successful entry; new rows are set by the app
+UPDATE track_bpm_cache c
+SET preview_expires_at = to_timestamp(expiry.exp)
+FROM (
+  SELECT t.spotify_track_id,
+         MIN((substring(e->>'url' from '[?&](?:hdnea|hdnts|__token__)=(?:[^&]*~)?exp(?:=|%3D)([0-9]+)'))::bigint) AS exp
+  FROM track_bpm_cache t, jsonb_array_elements(t.urls) e
+  WHERE jsonb_typeof(t.urls) = 'array'
+    AND (e->>'successful')::boolean IS TRUE
+  GROUP BY t.spotify_track_id
+) expiry
+WHERE c.spotify_track_id = expiry.spotify_track_id
+  AND expiry.exp IS NOT NULL;
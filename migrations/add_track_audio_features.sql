@@ -0,0 +1,14 @@
+ALTER TABLE track_bpm_cache
+  ADD COLUMN IF NOT EXISTS loudness_lufs NUMERIC(5, 1),
+  ADD COLUMN IF NOT EXISTS energy NUMERIC(5, 2),
+  ADD COLUMN IF NOT EXISTS danceability NUMERIC(5, 2),
+  ADD COLUMN IF NOT EXISTS onset_density NUMERIC(5, 2),
+  ADD COLUMN IF NOT EXISTS intro_seconds NUMERIC(6, 1),
+  ADD COLUMN IF NOT EXISTS outro_seconds NUMERIC(6, 1);
+
+COMMENT ON COLUMN track_bpm_cache.loudness_lufs IS 'Integrated loudness of the preview clip in LUFS (BS.1770 gated)';
+COMMENT ON COLUMN track_bpm_cache.energy IS 'Energy estimate (0-1) from loudness, onset density and brightness';
+COMMENT ON COLUMN track_bpm_cache.danceability IS 'Danceability estimate (0-1) from pulse clarity and tempo';
+COMMENT ON COLUMN track_bpm_cache.onset_density IS 'Detected onsets per second in the preview clip';
+COMMENT ON COLUMN track_bpm_cache.intro_seconds IS 'Seconds before the preview reaches its main level';
+COMMENT ON COLUMN track_bpm_cache.outro_seconds IS 'Seconds after the preview last holds its main level';
@@ -36,7 +36,19 @@ CREATE TABLE IF NOT EXISTS track_bpm_cache (
   isrc_mismatch_review_status TEXT, -- Admin review status for ISRC mismatch: mismatch or match
   isrc_mismatch_reviewed_by VARCHAR(255), -- Spotify user ID of the reviewer
   isrc_mismatch_reviewed_at TIMESTAMP WITH TIME ZONE, -- When the review was recorded
+  bpm_review_decision TEXT, -- Admin decision for an estimator disagreement (essentia, librosa, manual, half, double, key_essentia, key_librosa, keep)
+  bpm_reviewed_by VARCHAR(255), -- Spotify user ID of the BPM/key reviewer
+  bpm_reviewed_at TIMESTAMP WITH TIME ZONE, -- When the BPM/key review was recorded
+  preview_expires_at TIMESTAMP WITH TIME ZONE, -- When the signed token of the successful preview URL expires (null if unsigned)
+  preview_refresh_failed_at TIMESTAMP WITH TIME ZONE, -- Last time the scheduled sweep found no replacement preview URL
   debug_txt TEXT, -- Debug information from BPM service
+  loudness_lufs NUMERIC(5, 1), -- Integrated loudness of the preview clip in LUFS
+  energy NUMERIC(5, 2), -- Energy estimate (0-1)
+  danceability NUMERIC(5, 2), -- Danceability estimate (0-1)
+  onset_density NUMERIC(5, 2), -- Onsets per second
+  intro_seconds NUMERIC(6, 1), -- Seconds before the preview reaches its main level
+  outro_seconds NUMERIC(6, 1), -- Seconds after the preview last holds its main level
+  audio_features_failed_at TIMESTAMP WITH TIME ZONE, -- When the job worker could not decode the preview for audio features
   CONSTRAINT unique_spotify_track UNIQUE (spotify_track_id)
 );
 
@@ -44,6 +56,8 @@ CREATE TABLE IF NOT EXISTS track_bpm_cache (
 CREATE INDEX IF NOT EXISTS idx_track_bpm_cache_spotify_id ON track_bpm_cache(spotify_track_id);
 CREATE INDEX IF NOT EXISTS idx_track_bpm_cache_isrc ON track_bpm_cache(isrc) WHERE isrc IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_track_bpm_cache_updated_at ON track_bpm_cache(updated_at);
+CREATE INDEX IF NOT EXISTS idx_track_bpm_cache_preview_expires_at
+  ON track_bpm_cache(preview_expires_at) WHERE preview_expires_at IS NOT NULL;
 
 COMMENT ON TABLE track_bpm_cache IS 'Cache for BPM values computed from audio previews. Source can be: deezer_isrc, itunes_search, deezer_search, computed_failed';
 COMMENT ON COLUMN track_bpm_cache.isrc IS 'International Standard Recording Code from Spotify, used for cross-platform track matching';
@@ -52,6 +66,11 @@ COMMENT ON COLUMN track_bpm_cache.isrc_mismatch IS 'True when ISRC from iTunes/D
 COMMENT ON COLUMN track_bpm_cache.isrc_mismatch_review_status IS 'Admin review status for ISRC mismatch: mismatch or match';
 COMMENT ON COLUMN track_bpm_cache.isrc_mismatch_reviewed_by IS 'Spotify user ID of the reviewer';
 COMMENT ON COLUMN track_bpm_cache.isrc_mismatch_reviewed_at IS 'Timestamp when ISRC mismatch review was recorded';
+COMMENT ON COLUMN track_bpm_cache.bpm_review_decision IS 'Admin decision for an estimator disagreement: essentia, librosa, manual, half, double, key_essentia, key_librosa or keep';
+COMMENT ON COLUMN track_bpm_cache.bpm_reviewed_by IS 'Spotify user ID of the BPM/key reviewer';
+COMMENT ON COLUMN track_bpm_cache.bpm_reviewed_at IS 'Timestamp when the BPM/key review was recorded';
+COMMENT ON COLUMN track_bpm_cache.preview_expires_at IS 'When the signed token (hdnea exp) of the successful preview URL expires, null if unsigned';
+COMMENT ON COLUMN track_bpm_cache.preview_refresh_failed_at IS 'Last time the scheduled sweep could not find a replacement preview URL';
 COMMENT ON COLUMN track_bpm_cache.bpm_essentia IS 'BPM value from Essentia analysis (normalized, integer)';
 COMMENT ON COLUMN track_bpm_cache.bpm_raw_essentia IS 'Raw BPM value from Essentia analysis (before normalization)';
 COMMENT ON COLUMN track_bpm_cache.bpm_confidence_essentia IS 'BPM confidence score from Essentia (0-1)';
@@ -70,6 +89,13 @@ COMMENT ON COLUMN track_bpm_cache.key_selected IS 'Which key/scale value is sele
 COMMENT ON COLUMN track_bpm_cache.key_manual IS 'Manually overridden key value';
 COMMENT ON COLUMN track_bpm_cache.scale_manual IS 'Manually overridden scale value';
 COMMENT ON COLUMN track_bpm_cache.debug_txt IS 'Debug information from BPM service';
+COMMENT ON COLUMN track_bpm_cache.loudness_lufs IS 'Integrated loudness of the preview clip in LUFS (BS.1770 gated)';
+COMMENT ON COLUMN track_bpm_cache.energy IS 'Energy estimate (0-1) from loudness, onset density and brightness';
+COMMENT ON COLUMN track_bpm_cache.danceability IS 'Danceability estimate (0-1) from pulse clarity and tempo';
+COMMENT ON COLUMN track_bpm_cache.onset_density IS 'Detected onsets per second in the preview clip';
+COMMENT ON COLUMN track_bpm_cache.intro_seconds IS 'Seconds before the preview reaches its main level';
+COMMENT ON COLUMN track_bpm_cache.outro_seconds IS 'Seconds after the preview last holds its main level';
+COMMENT ON COLUMN track_bpm_cache.audio_features_failed_at IS 'When the job worker could not decode the preview for audio features; the backfill skips these rows';
 
 -- ============================================================================
 -- Analytics Tables
@@ -145,6 +171,7 @@ CREATE TABLE IF NOT EXISTS credits_cache (
   isrcs TEXT[] NOT NULL DEFAULT '{}',
   profile JSONB,
   total_count INTEGER,
+  truncated BOOLEAN NOT NULL DEFAULT FALSE,
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -159,6 +186,7 @@ COMMENT ON COLUMN credits_cache.release_date_start IS 'Optional start date filte
 COMMENT ON COLUMN credits_cache.release_date_end IS 'Optional end date filter applied to Muso credits.';
 COMMENT ON COLUMN credits_cache.profile IS 'Cached Muso profile summary for the search.';
 COMMENT ON COLUMN credits_cache.total_count IS 'Total credit count returned by Muso for the search.';
+COMMENT ON COLUMN credits_cache.truncated IS 'Composite searches: a term had more matches than the per-term cap, so the join may be incomplete.';
 
 -- ============================================================================
 -- Track Credits Cache
@@ -238,6 +266,144 @@ COMMENT ON COLUMN playlist_cache.snapshot_id IS 'Spotify snapshot_id that corres
 COMMENT ON COLUMN playlist_cache.playlist_data IS 'Full playlist metadata from Spotify API';
 COMMENT ON COLUMN playlist_cache.tracks_data IS 'Full tracks array from Spotify API';
 
+-- ============================================================================
+-- Playlist Snapshot History
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS playlist_snapshot_history (
+  id SERIAL PRIMARY KEY,
+  playlist_id VARCHAR(255) NOT NULL,
+  snapshot_id VARCHAR(255) NOT NULL,
+  tracks JSONB NOT NULL, -- Ordered compact track entries
+  track_count INTEGER NOT NULL,
+  captured_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT unique_playlist_snapshot UNIQUE (playlist_id, snapshot_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_playlist_snapshot_history_playlist ON playlist_snapshot_history(playlist_id, captured_at DESC);
+
+COMMENT ON TABLE playlist_snapshot_history IS 'Every distinct playlist snapshot seen when refreshing playlist_cache, for history and diffs';
+COMMENT ON COLUMN playlist_snapshot_history.tracks IS 'Ordered compact track entries: id, name, artists, added_at, added_by';
+
+-- ============================================================================
+-- BPM Job Queue
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS bpm_jobs (
+  id SERIAL PRIMARY KEY,
+  playlist_id VARCHAR(255) NOT NULL,
+  spotify_track_id VARCHAR(255) NOT NULL,
+  isrc VARCHAR(50), -- Identifiers captured at enqueue time
+  title TEXT NOT NULL,
+  artists TEXT NOT NULL,
+  country_code VARCHAR(2) NOT NULL DEFAULT 'us',
+  status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'done', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  requested_by VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT unique_bpm_job_playlist_track UNIQUE (playlist_id, spotify_track_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bpm_jobs_status_created ON bpm_jobs(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_bpm_jobs_playlist_updated ON bpm_jobs(playlist_id, updated_at);
+
+COMMENT ON TABLE bpm_jobs IS 'Server-side BPM analysis queue, one row per playlist track, drained by the BPM job worker';
+COMMENT ON COLUMN bpm_jobs.isrc IS 'Track identifiers captured at enqueue time so the worker needs no Spotify session';
+COMMENT ON COLUMN bpm_jobs.status IS 'queued, running, done or failed';
+COMMENT ON COLUMN bpm_jobs.attempts IS 'Number of times the worker has claimed the job';
+COMMENT ON COLUMN bpm_jobs.last_error IS 'Error from the most recent failed attempt';
+
+-- ============================================================================
+-- BPM Stream Buffer
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS bpm_stream_batches (
+  batch_id VARCHAR(255) PRIMARY KEY,
+  index_to_track_id JSONB NOT NULL DEFAULT '{}'::jsonb, -- Batch URL index to Spotify track ID
+  total INTEGER,
+  state VARCHAR(20) NOT NULL DEFAULT 'streaming' CHECK (state IN ('streaming', 'complete', 'error')),
+  error TEXT,
+  upstream_opens INTEGER NOT NULL DEFAULT 0,
+  reader_lease_until TIMESTAMP WITH TIME ZONE, -- Lease held by the request reading the analyzer stream
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE SEQUENCE IF NOT EXISTS bpm_stream_results_seq;
+
+CREATE TABLE IF NOT EXISTS bpm_stream_results (
+  batch_id VARCHAR(255) NOT NULL REFERENCES bpm_stream_batches(batch_id) ON DELETE CASCADE,
+  result_index INTEGER NOT NULL,
+  spotify_track_id VARCHAR(255),
+  status VARCHAR(20) NOT NULL,
+  payload JSONB NOT NULL,
+  seq BIGINT NOT NULL DEFAULT nextval('bpm_stream_results_seq'), -- Resume cursor
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (batch_id, result_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bpm_stream_batches_created_at ON bpm_stream_batches(created_at);
+CREATE INDEX IF NOT EXISTS idx_bpm_stream_results_batch_seq ON bpm_stream_results(batch_id, seq);
+
+COMMENT ON TABLE bpm_stream_batches IS 'Analyzer stream batches buffered by /api/stream/[batch_id] so dropped connections can resume';
+COMMENT ON COLUMN bpm_stream_batches.index_to_track_id IS 'Batch URL index to Spotify track ID, from /api/bpm/stream-batch';
+COMMENT ON COLUMN bpm_stream_batches.upstream_opens IS 'Times the analyzer stream was opened; capped when resuming after a reader dies';
+COMMENT ON COLUMN bpm_stream_batches.reader_lease_until IS 'Lease held by the request currently reading the analyzer stream';
+COMMENT ON TABLE bpm_stream_results IS 'Latest streamed line per batch index; seq is the resume cursor';
+
+-- ============================================================================
+-- BPM Suggestions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS bpm_suggestions (
+  id SERIAL PRIMARY KEY,
+  spotify_track_id VARCHAR(255) NOT NULL,
+  user_id VARCHAR(255) NOT NULL, -- Spotify user ID of the submitter
+  kind VARCHAR(10) NOT NULL CHECK (kind IN ('bpm', 'key')),
+  bpm NUMERIC(5, 1), -- Suggested BPM (kind = bpm)
+  key TEXT, -- Suggested key (kind = key)
+  scale TEXT, -- Suggested scale, major or minor (kind = key)
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected', 'superseded')),
+  resolved_by VARCHAR(255), -- Admin Spotify user ID, or 'community' for auto-promotion
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT bpm_suggestion_value CHECK (
+    (kind = 'bpm' AND bpm IS NOT NULL) OR (kind = 'key' AND key IS NOT NULL AND scale IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_bpm_suggestions_track_created ON bpm_suggestions(spotify_track_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bpm_suggestions_pending_user
+  ON bpm_suggestions(spotify_track_id, user_id, kind) WHERE status = 'pending';
+
+COMMENT ON TABLE bpm_suggestions IS 'BPM/key corrections suggested by signed-in users; agreeing suggestions are promoted to the manual value';
+COMMENT ON COLUMN bpm_suggestions.kind IS 'bpm or key';
+COMMENT ON COLUMN bpm_suggestions.status IS 'pending, accepted, rejected, or superseded by the same user''s newer suggestion';
+COMMENT ON COLUMN bpm_suggestions.resolved_by IS 'Admin Spotify user ID, or community when enough users agreed';
+
+-- ============================================================================
+-- Preview Provider Stats
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS preview_provider_stats (
+  provider TEXT NOT NULL, -- deezer_isrc, muso_spotify, itunes_search, deezer_search
+  stat_date DATE NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  found INTEGER NOT NULL DEFAULT 0, -- Lookups that returned a usable preview URL
+  mismatches INTEGER NOT NULL DEFAULT 0, -- Lookups that only found a different recording (ISRC mismatch)
+  errors INTEGER NOT NULL DEFAULT 0, -- Lookups that failed (HTTP error, timeout)
+  total_duration_ms BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (provider, stat_date)
+);
+
+COMMENT ON TABLE preview_provider_stats IS 'Daily preview URL lookup outcomes per provider, used for success rates on /admin/observability';
+
 -- ============================================================================
 -- Admin Users Table
 -- ============================================================================
@@ -0,0 +1,66 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+const fs = require('node:fs')
+const path = require('node:path')
+
+const { loadModule, invokeRoute } = harness
+const deezerPreviewRoute = loadModule('app/api/deezer-preview/route.ts')
+const trackPageviewRoute = loadModule('app/api/analytics/track-pageview/route.ts')
+const { buildOpenApiDocument } = loadModule('lib/openapi.ts')
+const { buildApiUrl } = loadModule('lib/apiClient.ts')
+const { apiContracts } = loadModule('lib/apiContracts.ts')
+
+const API_DIR = path.join(__dirname, '..', '..', 'app', 'api')
+
+function listRoutePaths(dir, prefix = '/api') {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    if (entry.isFile()) return entry.name === 'route.ts' ? [prefix] : []
+    const segment = entry.name.replace(/^\[(\w+)\]$/, '{$1}')
+    return listRoutePaths(path.join(dir, entry.name), `${prefix}/${segment}`)
+  })
+}
+
+test('invalid query returns 400 listing every issue', async () => {
+  const response = await invokeRoute(deezerPreviewRoute.GET, { url: '/api/deezer-preview?url=not-a-url' })
+  assert.equal(response.status, 400)
+  const body = await response.json()
+  assert.deepEqual(body.issues.map((issue) => issue.path), ['query.url'])
+  assert.match(body.error, /^query\.url: /)
+})
+
+test('malformed JSON body is reported as a body issue', async () => {
+  const response = await invokeRoute(trackPageviewRoute.POST, {
+    method: 'POST',
+    url: '/api/analytics/track-pageview',
+    body: '{"path":',
+  })
+  assert.equal(response.status, 400)
+  assert.deepEqual(await response.json(), {
+    error: 'body: Invalid JSON',
+    issues: [{ path: 'body', message: 'Invalid JSON' }],
+  })
+})
+
+test('OpenAPI document covers every route under app/api', () => {
+  const document = buildOpenApiDocument()
+  const documented = new Set(Object.keys(document.paths))
+  const missing = listRoutePaths(API_DIR).filter((routePath) => !documented.has(routePath))
+  assert.deepEqual(missing, [])
+
+  const operationIds = Object.values(document.paths).flatMap((methods) =>
+    Object.values(methods).map((operation) => operation.operationId)
+  )
+  assert.equal(new Set(operationIds).size, operationIds.length)
+})
+
+test('buildApiUrl fills path params and skips empty query values', () => {
+  assert.equal(
+    buildApiUrl(apiContracts.getPlaylistTracks, {
+      params: { id: 'abc 123' },
+      query: { includeMissingIsrc: true, refresh: undefined },
+    }),
+    '/api/playlists/abc%20123/tracks?includeMissingIsrc=true'
+  )
+  assert.throws(() => buildApiUrl(apiContracts.getPlaylist, {}), /Missing path parameter id/)
+})
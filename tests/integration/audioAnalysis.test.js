@@ -0,0 +1,103 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+const { createMp3Encoder } = require('wasm-media-encoders')
+
+const { loadModule, createClickTrackWav } = harness
+const { analyzeAudio, decodeAudio, detectAudioFormat } = loadModule('lib/audioAnalysis.ts')
+
+const SAMPLE_RATE = 44100
+
+// A minor triad (A3, C4, E4) under a click every beat
+function chordWithClicks({ bpm, seconds }) {
+  const samples = new Float32Array(Math.floor(seconds * SAMPLE_RATE))
+  const samplesPerBeat = (60 / bpm) * SAMPLE_RATE
+  for (let i = 0; i < samples.length; i += 1) {
+    const t = i / SAMPLE_RATE
+    const chord = [220, 261.63, 329.63].reduce((sum, hz) => sum + Math.sin(2 * Math.PI * hz * t), 0) / 3
+    const click = Math.exp(-(i % samplesPerBeat) / (0.01 * SAMPLE_RATE)) * Math.sin(2 * Math.PI * 1000 * t)
+    samples[i] = 0.3 * chord + 0.5 * click
+  }
+  return samples
+}
+
+async function encodeMp3(samples) {
+  const encoder = await createMp3Encoder()
+  encoder.configure({ sampleRate: SAMPLE_RATE, channels: 1, bitrate: 128 })
+  const chunks = []
+  for (let start = 0; start < samples.length; start += SAMPLE_RATE) {
+    chunks.push(Buffer.from(encoder.encode([samples.subarray(start, start + SAMPLE_RATE)])))
+  }
+  chunks.push(Buffer.from(encoder.finalize()))
+  return new Uint8Array(Buffer.concat(chunks))
+}
+
+// Bits written MSB first, zero-padded to a whole byte
+function packBits(fields) {
+  let bits = ''
+  for (const [value, width] of fields) bits += value.toString(2).padStart(width, '0')
+  bits = bits.padEnd(Math.ceil(bits.length / 8) * 8, '0')
+  return Buffer.from(bits.match(/.{8}/g).map((byte) => parseInt(byte, 2)))
+}
+
+// One AAC-LC ADTS frame (44.1 kHz mono) whose single channel element codes no spectral data
+function silentAdtsFrame() {
+  const payload = packBits([
+    [0, 3], [0, 4], [100, 8], // SCE, instance tag, global gain
+    [0, 1], [0, 2], [0, 1], [0, 6], [0, 1], // ics_info: long window, max_sfb 0, no prediction
+    [0, 1], [0, 1], [0, 1], // no pulse, TNS or gain control data
+    [7, 3], // END
+  ])
+  const header = packBits([
+    [0xfff, 12], [0, 1], [0, 2], [1, 1], // sync, MPEG-4, layer, no CRC
+    [1, 2], [4, 4], [0, 1], [1, 3], // AAC LC, 44.1 kHz, private, mono
+    [0, 4], [7 + payload.length, 13], [0x7ff, 11], [0, 2],
+  ])
+  return Buffer.concat([header, payload])
+}
+
+test('detectAudioFormat recognises WAV, MP3 and AAC/M4A headers', () => {
+  assert.equal(detectAudioFormat(createClickTrackWav({ seconds: 1 })), 'wav')
+  assert.equal(detectAudioFormat(Buffer.from('ID3\x04\x00\x00\x00\x00\x00\x00', 'latin1')), 'mp3')
+  assert.equal(detectAudioFormat(Buffer.from([0xff, 0xfb, 0x90, 0x64])), 'mp3')
+  assert.equal(detectAudioFormat(Buffer.from('\x00\x00\x00\x20ftypM4A \x00\x00\x00\x00', 'latin1')), 'aac')
+  assert.equal(detectAudioFormat(silentAdtsFrame()), 'aac')
+  assert.equal(detectAudioFormat(Buffer.from('OggS\x00\x02', 'latin1')), null)
+})
+
+test('MP3 clips are decoded to PCM and get tempo, key and loudness', async () => {
+  const mp3 = await encodeMp3(chordWithClicks({ bpm: 100, seconds: 12 }))
+  const result = await analyzeAudio(mp3)
+  assert.equal(result.format, 'mp3')
+  assert.equal(result.sampleRate, SAMPLE_RATE)
+  assert.ok(Math.abs(result.durationSeconds - 12) < 0.2, `duration ${result.durationSeconds}`)
+  assert.ok(Math.abs(result.bpm - 100) <= 1.5, `bpm ${result.bpm}`)
+  assert.equal(result.key, 'A')
+  assert.equal(result.scale, 'minor')
+  assert.ok(result.loudnessLufs < 0 && result.loudnessLufs > -30, `loudness ${result.loudnessLufs}`)
+  for (const feature of ['energy', 'danceability', 'onsetDensity', 'introSeconds', 'outroSeconds']) {
+    assert.equal(typeof result[feature], 'number', feature)
+  }
+})
+
+test('WAV and MP3 encodings of the same clip agree', async () => {
+  const wav = createClickTrackWav({ bpm: 128, seconds: 12, sampleRate: SAMPLE_RATE })
+  const { samples } = await decodeAudio(wav, 'wav')
+  const [fromWav, fromMp3] = await Promise.all([analyzeAudio(wav), analyzeAudio(await encodeMp3(samples))])
+  assert.ok(Math.abs(fromWav.bpm - 128) <= 1.5, `wav bpm ${fromWav.bpm}`)
+  assert.ok(Math.abs(fromMp3.bpm - fromWav.bpm) <= 1, `mp3 bpm ${fromMp3.bpm} vs ${fromWav.bpm}`)
+  assert.ok(Math.abs(fromMp3.loudnessLufs - fromWav.loudnessLufs) < 1, `${fromMp3.loudnessLufs} vs ${fromWav.loudnessLufs}`)
+})
+
+test('AAC streams are decoded with FAAD2 instead of being rejected', async () => {
+  const adts = Buffer.concat(Array.from({ length: 200 }, silentAdtsFrame))
+  const { samples, sampleRate } = await decodeAudio(new Uint8Array(adts), 'aac')
+  assert.equal(sampleRate, SAMPLE_RATE)
+  // 1024 samples per frame, less the one frame FAAD2 holds back
+  assert.equal(samples.length, 199 * 1024)
+  assert.ok(samples.every((sample) => sample === 0))
+})
+
+test('unknown formats are still rejected', async () => {
+  await assert.rejects(analyzeAudio(Buffer.from('OggS\x00\x02\x00\x00', 'latin1')), /Unsupported audio format/)
+})
@@ -0,0 +1,198 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+const crypto = require('node:crypto')
+const fs = require('node:fs')
+const os = require('node:os')
+const path = require('node:path')
+
+const { loadModule, invokeRoute, mockFetch, jsonResponse, getCookieJar, setRequestCookies } = harness
+const loginRoute = loadModule('app/api/auth/login/route.ts')
+const callbackRoute = loadModule('app/api/auth/callback/route.ts')
+const logoutRoute = loadModule('app/api/auth/logout/route.ts')
+const { makeSpotifyRequest } = loadModule('lib/spotify.ts')
+
+const TOKEN_URL = 'https://accounts.spotify.com/api/token'
+
+function tokenExchange(respond) {
+  return [{ method: 'POST', url: TOKEN_URL, respond }]
+}
+
+async function callback(search, cookies = {}) {
+  return invokeRoute(callbackRoute.GET, { url: `/api/auth/callback${search}`, cookies })
+}
+
+test.afterEach(() => {
+  setRequestCookies({})
+})
+
+test('login redirects to Spotify with a PKCE challenge for the stored verifier', async () => {
+  const response = await invokeRoute(loginRoute.GET, { url: '/api/auth/login?returnTo=/playlists/abc' })
+  assert.equal(response.status, 307)
+
+  const location = new URL(response.headers.get('location'))
+  assert.equal(location.origin + location.pathname, 'https://accounts.spotify.com/authorize')
+  assert.equal(location.searchParams.get('client_id'), 'test-client-id')
+  assert.equal(location.searchParams.get('scope'), 'playlist-read-private playlist-read-collaborative')
+
+  const verifier = response.cookies.get('code_verifier').value
+  const expectedChallenge = crypto.createHash('sha256').update(verifier).digest('base64url')
+  assert.equal(location.searchParams.get('code_challenge'), expectedChallenge)
+  assert.equal(response.cookies.get('auth_return_to').value, '/playlists/abc')
+})
+
+test('login asks for write scopes on request and ignores off-site return paths', async () => {
+  const response = await invokeRoute(loginRoute.GET, { url: '/api/auth/login?scope=write&returnTo=//evil.example' })
+  const scope = new URL(response.headers.get('location')).searchParams.get('scope')
+  assert.match(scope, /playlist-modify-private/)
+  assert.equal(response.cookies.get('auth_return_to'), undefined)
+})
+
+test('login ignores return paths that browsers resolve off-site', async () => {
+  for (const returnTo of ['/\\evil.example', '/\t/evil.example', '/\n/evil.example']) {
+    const response = await invokeRoute(loginRoute.GET, { url: `/api/auth/login?returnTo=${encodeURIComponent(returnTo)}` })
+    assert.equal(response.cookies.get('auth_return_to'), undefined, JSON.stringify(returnTo))
+  }
+})
+
+test('callback exchanges the code with the stored verifier and sets session cookies', async () => {
+  const fetchMock = mockFetch(
+    tokenExchange(() => ({
+      access_token: 'new-access',
+      refresh_token: 'new-refresh',
+      expires_in: 3600,
+      scope: 'playlist-read-private playlist-read-collaborative',
+    }))
+  )
+  try {
+    const response = await callback('?code=auth-code', { code_verifier: 'verifier-123', auth_return_to: '/playlists/abc' })
+    assert.equal(response.status, 307)
+    assert.equal(response.headers.get('location'), 'http://localhost:3000/playlists/abc')
+
+    const exchange = new URLSearchParams(fetchMock.calls[0].body)
+    assert.equal(exchange.get('grant_type'), 'authorization_code')
+    assert.equal(exchange.get('code'), 'auth-code')
+    assert.equal(exchange.get('code_verifier'), 'verifier-123')
+    assert.equal(exchange.get('redirect_uri'), 'http://localhost:3000/api/auth/callback')
+
+    assert.equal(response.cookies.get('access_token').value, 'new-access')
+    assert.equal(response.cookies.get('access_token').maxAge, 3600)
+    assert.equal(response.cookies.get('refresh_token').value, 'new-refresh')
+    assert.equal(response.cookies.get('spotify_scopes').value, 'playlist-read-private playlist-read-collaborative')
+    assert.equal(response.cookies.get('code_verifier').value, '', 'the one-time verifier is cleared')
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('recorded token exchanges keep the codes and tokens out of the fixture and replay with placeholders', async () => {
+  const fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-fixtures-'))
+  process.env.EXTERNAL_API_FIXTURES_DIR = fixturesDir
+  process.env.EXTERNAL_API_MODE = 'record'
+  const fetchMock = mockFetch(
+    tokenExchange(() => ({ access_token: 'secret-access', refresh_token: 'secret-refresh', expires_in: 3600 }))
+  )
+  try {
+    const recorded = await callback('?code=auth-code', { code_verifier: 'verifier-123' })
+    assert.equal(recorded.cookies.get('access_token').value, 'secret-access')
+
+    const [hostDir] = fs.readdirSync(fixturesDir)
+    assert.equal(hostDir, 'accounts.spotify.com')
+    const [fixtureFile] = fs.readdirSync(path.join(fixturesDir, hostDir))
+    const saved = fs.readFileSync(path.join(fixturesDir, hostDir, fixtureFile), 'utf8')
+    for (const secret of ['auth-code', 'verifier-123', 'secret-access', 'secret-refresh']) {
+      assert.ok(!saved.includes(secret), `${secret} is not written to the fixture`)
+    }
+
+    fetchMock.restore()
+    process.env.EXTERNAL_API_MODE = 'replay'
+    const replayed = await callback('?code=another-code', { code_verifier: 'another-verifier' })
+    assert.equal(replayed.status, 307)
+    assert.equal(replayed.cookies.get('access_token').value, 'REDACTED')
+  } finally {
+    fetchMock.restore()
+    process.env.EXTERNAL_API_MODE = 'live'
+    delete process.env.EXTERNAL_API_FIXTURES_DIR
+    fs.rmSync(fixturesDir, { recursive: true, force: true })
+  }
+})
+
+test('callback falls back to /playlists for unsafe return paths', async () => {
+  const fetchMock = mockFetch(tokenExchange(() => ({ access_token: 'new-access', expires_in: 3600 })))
+  try {
+    for (const returnTo of ['//evil.example/path', '/\\evil.example', '/\t/evil.example', 'https://evil.example/']) {
+      const response = await callback('?code=auth-code', { code_verifier: 'v', auth_return_to: returnTo })
+      assert.equal(response.headers.get('location'), 'http://localhost:3000/playlists', JSON.stringify(returnTo))
+    }
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('callback redirects home with an error code when the flow cannot complete', async () => {
+  const fetchMock = mockFetch(tokenExchange(() => jsonResponse({ error: 'invalid_grant' }, { status: 400 })))
+  try {
+    const cases = [
+      [await callback('?error=access_denied'), 'access_denied'],
+      [await callback(''), 'missing_code'],
+      [await callback('?code=auth-code'), 'missing_verifier'],
+      [await callback('?code=auth-code', { code_verifier: 'v' }), 'token_exchange_failed'],
+    ]
+    for (const [response, errorCode] of cases) {
+      assert.equal(response.status, 307)
+      assert.equal(new URL(response.headers.get('location')).searchParams.get('error'), errorCode)
+      assert.equal(response.cookies.get('access_token'), undefined)
+    }
+    assert.equal(fetchMock.calls.length, 1, 'only the last case reaches the token endpoint')
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('an expired access token is refreshed and the request retried', async () => {
+  setRequestCookies({ access_token: 'expired', refresh_token: 'refresh-1' })
+  const fetchMock = mockFetch([
+    {
+      url: 'https://api.spotify.com/v1/me',
+      respond: ({ headers }) =>
+        headers.get('authorization') === 'Bearer fresh'
+          ? { id: 'listener' }
+          : jsonResponse({ error: { status: 401, message: 'The access token expired' } }, { status: 401 }),
+    },
+    ...tokenExchange(({ body, headers }) => {
+      const params = new URLSearchParams(body)
+      assert.equal(params.get('grant_type'), 'refresh_token')
+      assert.equal(params.get('refresh_token'), 'refresh-1')
+      assert.equal(headers.get('authorization'), `Basic ${Buffer.from('test-client-id:test-client-secret').toString('base64')}`)
+      return { access_token: 'fresh', expires_in: 3600 }
+    }),
+  ])
+  try {
+    const profile = await makeSpotifyRequest('/me')
+    assert.deepEqual(profile, { id: 'listener' })
+    assert.equal(getCookieJar().access_token, 'fresh')
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('a rejected refresh surfaces as an AuthenticationError', async () => {
+  setRequestCookies({ access_token: 'expired', refresh_token: 'revoked' })
+  const fetchMock = mockFetch([
+    { url: 'https://api.spotify.com/v1/me', respond: () => jsonResponse({}, { status: 401 }) },
+    ...tokenExchange(() => jsonResponse({ error: 'invalid_grant' }, { status: 400 })),
+  ])
+  try {
+    await assert.rejects(makeSpotifyRequest('/me'), { name: 'AuthenticationError' })
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('logout clears every auth cookie', async () => {
+  const response = await invokeRoute(logoutRoute.POST, { method: 'POST', url: '/api/auth/logout' })
+  assert.equal(response.headers.get('location'), 'http://localhost:3000/')
+  for (const name of ['access_token', 'refresh_token', 'code_verifier', 'spotify_scopes']) {
+    assert.equal(response.cookies.get(name).value, '', `${name} is cleared`)
+  }
+})
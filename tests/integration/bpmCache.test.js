@@ -0,0 +1,281 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+
+const { loadModule, invokeRoute, mockFetch, jsonResponse, resetDatabase, closeDatabase, query, createClickTrackWav } = harness
+const { GET } = loadModule('app/api/bpm/route.ts')
+
+const TRACK_ID = '4uLU6hMCjMI75M1A2tKUQC'
+const ISRC = 'GBAYE0601498'
+const PREVIEW_URL = 'https://cdnt-preview.dzcdn.net/api/1/1/8/4/5/0/845.mp3?hdnea=exp=1900000000~acl=/api/1/*~hmac=abc'
+const cookies = { access_token: 'user-token' }
+
+const spotifyTrack = {
+  id: TRACK_ID,
+  name: 'Song Title (Remastered 2011)',
+  artists: [{ id: 'artist', name: 'The Band' }],
+  external_ids: { isrc: ISRC },
+  preview_url: null,
+}
+
+function spotifyRoutes() {
+  return [
+    { url: 'https://api.spotify.com/v1/me', respond: () => ({ id: 'listener' }) },
+    { url: `https://api.spotify.com/v1/tracks/${TRACK_ID}`, respond: () => spotifyTrack },
+  ]
+}
+
+async function getBpm() {
+  const response = await invokeRoute(GET, { url: `/api/bpm?spotifyTrackId=${TRACK_ID}`, cookies })
+  return { status: response.status, body: await response.json() }
+}
+
+test.beforeEach(async () => {
+  await resetDatabase()
+})
+
+test.after(async () => {
+  await closeDatabase()
+})
+
+test('requires spotifyTrackId', async () => {
+  const fetchMock = mockFetch(spotifyRoutes())
+  try {
+    const response = await invokeRoute(GET, { url: '/api/bpm', cookies })
+    assert.equal(response.status, 400)
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('rejects malformed track IDs without calling Spotify', async () => {
+  const fetchMock = mockFetch(spotifyRoutes())
+  try {
+    const response = await invokeRoute(GET, { url: '/api/bpm?spotifyTrackId=not-a-track', cookies })
+    const body = await response.json()
+    assert.equal(body.bpm, null)
+    assert.equal(body.source, 'computed_failed')
+    assert.equal(fetchMock.callsTo('https://api.spotify.com/v1/tracks').length, 0)
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('cache miss resolves a preview, analyses it and writes the cache row', async () => {
+  const audio = createClickTrackWav({ bpm: 120 })
+  const fetchMock = mockFetch([
+    ...spotifyRoutes(),
+    {
+      url: `https://api.deezer.com/track/isrc:${ISRC}`,
+      respond: () => ({ id: 845, isrc: ISRC, title: 'Song Title', artist: { name: 'The Band' }, preview: PREVIEW_URL }),
+    },
+    { url: PREVIEW_URL, respond: () => new Response(audio, { headers: { 'content-type': 'audio/wav' } }) },
+  ])
+  try {
+    const { status, body } = await getBpm()
+    assert.equal(status, 200)
+    assert.equal(body.source, 'deezer_isrc')
+    assert.ok(Math.abs(body.bpm - 120) <= 1, `expected ~120 BPM, got ${body.bpm}`)
+    assert.equal(body.urls[0].url, PREVIEW_URL)
+    assert.equal(fetchMock.unmatched.length, 0)
+
+    const [row] = await query('SELECT * FROM track_bpm_cache WHERE spotify_track_id = $1', [TRACK_ID])
+    assert.equal(row.isrc, ISRC)
+    assert.equal(row.title, 'Song Title', 'bracketed suffixes are stripped before caching')
+    assert.equal(row.source, 'deezer_isrc')
+    assert.equal(row.error, null)
+    assert.equal(row.isrc_mismatch, false)
+    assert.ok(Math.abs(Number(row.bpm_essentia) - 120) <= 1)
+    assert.equal(new Date(row.preview_expires_at).getTime(), 1900000000 * 1000, 'token expiry is tracked')
+
+    const [stats] = await query('SELECT attempts, found FROM preview_provider_stats WHERE provider = $1', ['deezer_isrc'])
+    assert.equal(Number(stats.attempts), 1)
+    assert.equal(Number(stats.found), 1)
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('cache hit is served without preview lookups or analysis', async () => {
+  await query(
+    `INSERT INTO track_bpm_cache (spotify_track_id, isrc, artist, title, bpm_essentia, bpm_confidence_essentia,
+                                  key_essentia, scale_essentia, keyscale_confidence_essentia, source, urls)
+     VALUES ($1, $2, 'The Band', 'Song Title', 98.0, 0.8, 'G', 'major', 0.7, 'deezer_isrc', $3::jsonb)`,
+    [TRACK_ID, ISRC, JSON.stringify([{ url: PREVIEW_URL, successful: true, provider: 'deezer_isrc' }])]
+  )
+  const fetchMock = mockFetch(spotifyRoutes())
+  try {
+    const { status, body } = await getBpm()
+    assert.equal(status, 200)
+    assert.equal(Number(body.bpm), 98)
+    assert.equal(body.key, 'G')
+    assert.equal(body.scale, 'major')
+    assert.equal(fetchMock.callsTo('https://api.deezer.com').length, 0)
+    assert.equal(fetchMock.callsTo(PREVIEW_URL).length, 0)
+    assert.equal(fetchMock.unmatched.length, 0)
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('manual overrides win over estimator values on read', async () => {
+  await query(
+    `INSERT INTO track_bpm_cache (spotify_track_id, isrc, bpm_essentia, key_essentia, scale_essentia,
+                                  bpm_selected, bpm_manual, key_selected, key_manual, scale_manual, source)
+     VALUES ($1, $2, 64.0, 'C', 'major', 'manual', 128.0, 'manual', 'A', 'minor', 'deezer_isrc')`,
+    [TRACK_ID, ISRC]
+  )
+  const fetchMock = mockFetch(spotifyRoutes())
+  try {
+    const { body } = await getBpm()
+    assert.equal(Number(body.bpm), 128)
+    assert.equal(body.bpmSelected, 'manual')
+    assert.equal(body.key, 'A')
+    assert.equal(body.scale, 'minor')
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('review half/double start from the BPM users see when the selected source is empty', async () => {
+  const { applyBpmReviewAction } = loadModule('lib/bpmReview.ts')
+  await query(
+    `INSERT INTO track_bpm_cache (spotify_track_id, bpm_essentia, bpm_librosa, bpm_selected, bpm_manual, source)
+     VALUES ('manual-empty', 140.0, NULL, 'manual', NULL, 'deezer_isrc'),
+            ('librosa-empty', NULL, 96.0, 'librosa', NULL, 'deezer_isrc'),
+            ('nothing', NULL, NULL, 'essentia', NULL, 'deezer_isrc')`
+  )
+
+  const halved = await applyBpmReviewAction({
+    spotifyTrackIds: ['manual-empty', 'nothing'],
+    action: 'half',
+    reviewerId: 'reviewer',
+  })
+  const doubled = await applyBpmReviewAction({ spotifyTrackIds: ['librosa-empty'], action: 'double', reviewerId: 'reviewer' })
+  assert.equal(halved, 1, 'tracks without any BPM are skipped')
+  assert.equal(doubled, 1)
+
+  const rows = await query(
+    `SELECT spotify_track_id, bpm_selected, bpm_manual FROM track_bpm_cache ORDER BY spotify_track_id`
+  )
+  const byId = Object.fromEntries(rows.map((row) => [row.spotify_track_id, row]))
+  assert.equal(Number(byId['manual-empty'].bpm_manual), 70)
+  assert.equal(Number(byId['librosa-empty'].bpm_manual), 192)
+  assert.equal(byId['librosa-empty'].bpm_selected, 'manual')
+  assert.equal(byId.nothing.bpm_manual, null)
+})
+
+test('a track with no preview anywhere caches the failure and serves it from cache', async () => {
+  const fetchMock = mockFetch([
+    ...spotifyRoutes(),
+    { url: `https://api.deezer.com/track/isrc:${ISRC}`, respond: () => ({ error: { code: 800, message: 'no data' } }) },
+    { url: /^https:\/\/itunes\.apple\.com\/search/, respond: () => ({ resultCount: 0, results: [] }) },
+    { url: /^https:\/\/api\.deezer\.com\/search/, respond: () => ({ data: [] }) },
+  ])
+  try {
+    const first = await getBpm()
+    assert.equal(first.body.bpm, null)
+    assert.equal(first.body.source, 'computed_failed')
+    assert.match(first.body.error, /No preview audio available/)
+
+    const [row] = await query('SELECT source, error FROM track_bpm_cache WHERE spotify_track_id = $1', [TRACK_ID])
+    assert.equal(row.source, 'computed_failed')
+
+    const lookupsBefore = fetchMock.callsTo(/deezer|itunes/).length
+    const second = await getBpm()
+    assert.equal(second.body.bpm, null)
+    assert.equal(second.body.error, first.body.error)
+    assert.equal(fetchMock.callsTo(/deezer|itunes/).length, lookupsBefore, 'cached failures are not looked up again')
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('a failed preview download returns 500 and caches the error', async () => {
+  const fetchMock = mockFetch([
+    ...spotifyRoutes(),
+    {
+      url: `https://api.deezer.com/track/isrc:${ISRC}`,
+      respond: () => ({ id: 845, isrc: ISRC, title: 'Song Title', preview: PREVIEW_URL }),
+    },
+    { url: PREVIEW_URL, respond: () => jsonResponse({ error: 'gone' }, { status: 403 }) },
+  ])
+  try {
+    const { status, body } = await getBpm()
+    assert.equal(status, 500)
+    assert.match(body.error, /Preview download returned 403/)
+
+    const [row] = await query('SELECT bpm_essentia, error FROM track_bpm_cache WHERE spotify_track_id = $1', [TRACK_ID])
+    assert.equal(row.bpm_essentia, null)
+    assert.match(row.error, /Preview download returned 403/)
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('bulk reads report the confidence of the estimator that was selected', async () => {
+  const { getSelectedBpmKeyForTracks } = loadModule('lib/bpm.ts')
+  await query(
+    `INSERT INTO track_bpm_cache (spotify_track_id, bpm_essentia, bpm_confidence_essentia, bpm_librosa, bpm_confidence_librosa,
+                                  key_essentia, scale_essentia, keyscale_confidence_essentia, bpm_selected, source)
+     VALUES ($1, 64.0, 0.4, 128.0, 0.9, 'A', 'minor', 0.7, 'librosa', 'deezer_isrc')`,
+    [TRACK_ID]
+  )
+  const selections = await getSelectedBpmKeyForTracks([TRACK_ID])
+  assert.deepEqual(selections.get(TRACK_ID), {
+    bpm: 128,
+    bpmConfidence: 0.9,
+    key: 'A',
+    scale: 'minor',
+    keyConfidence: 0.7,
+  })
+})
+
+test('a preview sweep that finds no replacement leaves the cached analysis readable', async () => {
+  const { sweepExpiringPreviewUrls } = loadModule('lib/previewExpiry.ts')
+  const expiredUrl = PREVIEW_URL.replace('exp=1900000000', 'exp=1600000000')
+  await query(
+    `INSERT INTO track_bpm_cache (spotify_track_id, isrc, artist, title, bpm_essentia, key_essentia, scale_essentia,
+                                  source, urls, preview_expires_at)
+     VALUES ($1, $2, 'The Band', 'Song Title', 98.0, 'G', 'major', 'deezer_isrc', $3::jsonb, $4)`,
+    [
+      TRACK_ID,
+      ISRC,
+      JSON.stringify([{ url: expiredUrl, successful: true, provider: 'deezer_isrc' }]),
+      new Date(1600000000 * 1000).toISOString(),
+    ]
+  )
+  const fetchMock = mockFetch([
+    ...spotifyRoutes(),
+    { url: `https://api.deezer.com/track/isrc:${ISRC}`, respond: () => ({ error: { code: 800, message: 'no data' } }) },
+    // Only a recording with another ISRC turns up, which a full refresh would flag as a mismatch
+    {
+      url: /^https:\/\/itunes\.apple\.com\/search/,
+      respond: () => ({
+        resultCount: 1,
+        results: [{ kind: 'song', isrc: 'USXXX9900001', trackName: 'Song Title', previewUrl: 'https://audio-ssl.itunes.apple.com/other.m4a' }],
+      }),
+    },
+    { url: /^https:\/\/api\.deezer\.com\/search/, respond: () => ({ data: [] }) },
+  ])
+  try {
+    assert.deepEqual(await sweepExpiringPreviewUrls({ maxDurationMs: 60_000 }), { due: 1, refreshed: 0, failed: 1 })
+
+    const [row] = await query(
+      'SELECT error, source, isrc_mismatch, urls, preview_refresh_failed_at FROM track_bpm_cache WHERE spotify_track_id = $1',
+      [TRACK_ID]
+    )
+    assert.equal(row.error, null)
+    assert.equal(row.source, 'deezer_isrc')
+    assert.equal(row.isrc_mismatch, false)
+    assert.equal(row.urls[0].url, expiredUrl)
+    assert.notEqual(row.preview_refresh_failed_at, null)
+
+    const { status, body } = await getBpm()
+    assert.equal(status, 200)
+    assert.equal(Number(body.bpm), 98)
+    assert.equal(body.key, 'G')
+  } finally {
+    fetchMock.restore()
+  }
+})
@@ -0,0 +1,199 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+
+const { loadModule, invokeRoute, mockFetch, jsonResponse, resetDatabase, closeDatabase, query, createClickTrackWav } = harness
+const { enqueueBpmJobs, runBpmJobWorker, getBpmJobProgress } = loadModule('lib/bpmJobs.ts')
+const jobsRoute = loadModule('app/api/bpm/jobs/route.ts')
+
+const PLAYLIST_ID = '37i9dQZF1DXcBWIGoYBM5M'
+const OK_ID = '4uLU6hMCjMI75M1A2tKUQC'
+const NO_PREVIEW_ID = '7ouMYWpwJ422jRcDASZB7P'
+const BROKEN_ID = '0VjIjW4GlUZAMYd2vXMi3b'
+const PRIVATE_ID = '1Xh5hY2mV0kTq3YzW8rBcd'
+const previewUrl = (isrc) => `https://cdnt-preview.dzcdn.net/api/1/1/${isrc}.mp3`
+
+function track(id, isrc) {
+  return { id, name: `Track ${isrc}`, artists: [{ id: 'artist', name: 'Artist' }], external_ids: { isrc } }
+}
+
+const TRACKS = [track(OK_ID, 'GBAAA2400001'), track(NO_PREVIEW_ID, 'GBAAA2400002'), track(BROKEN_ID, 'GBAAA2400003')]
+
+function previewRoutes({ brokenDownloads = Infinity } = {}) {
+  const audio = createClickTrackWav({ bpm: 120 })
+  let brokenServed = 0
+  const wav = () => new Response(audio, { headers: { 'content-type': 'audio/wav' } })
+  return [
+    {
+      url: /^https:\/\/api\.deezer\.com\/track\/isrc:/,
+      respond: ({ url }) => {
+        const isrc = url.split('isrc:')[1]
+        if (isrc === 'GBAAA2400002') return { error: { code: 800, message: 'no data' } }
+        return { id: 1, isrc, title: `Track ${isrc}`, artist: { name: 'Artist' }, preview: previewUrl(isrc) }
+      },
+    },
+    { url: /^https:\/\/itunes\.apple\.com\/search/, respond: () => ({ resultCount: 0, results: [] }) },
+    { url: /^https:\/\/api\.deezer\.com\/search/, respond: () => ({ data: [] }) },
+    { url: previewUrl('GBAAA2400001'), respond: wav },
+    {
+      url: previewUrl('GBAAA2400003'),
+      respond: () => (brokenServed++ < brokenDownloads ? new Response('not audio') : wav()),
+    },
+  ]
+}
+
+async function jobStates() {
+  const rows = await query('SELECT spotify_track_id, status, attempts, last_error FROM bpm_jobs ORDER BY id')
+  return Object.fromEntries(rows.map((row) => [row.spotify_track_id, [row.status, row.attempts, row.last_error]]))
+}
+
+async function insertRunningJob(trackId, { attempts, startedMinutesAgo }) {
+  const startedAt = new Date(Date.now() - startedMinutesAgo * 60_000).toISOString()
+  await query(
+    `INSERT INTO bpm_jobs (playlist_id, spotify_track_id, isrc, title, artists, status, attempts, started_at)
+     VALUES ($1, $2, $3, 'Track', 'Artist', 'running', $4, $5)`,
+    [PLAYLIST_ID, trackId, TRACKS.find((entry) => entry.id === trackId).external_ids.isrc, attempts, startedAt]
+  )
+}
+
+test.beforeEach(async () => {
+  await resetDatabase()
+})
+
+test.after(async () => {
+  await closeDatabase()
+})
+
+test('the worker finishes jobs, fails ones without a preview at once and retries thrown errors', async () => {
+  assert.equal(await enqueueBpmJobs({ playlistId: PLAYLIST_ID, tracks: [...TRACKS, TRACKS[0]], countryCode: 'GB' }), 3)
+
+  const fetchMock = mockFetch(previewRoutes({ brokenDownloads: 1 }))
+  try {
+    assert.deepEqual(await runBpmJobWorker({ maxDurationMs: 60_000 }), { claimed: 4, done: 2, failed: 1, retried: 1, featuresFilled: 0 })
+  } finally {
+    fetchMock.restore()
+  }
+
+  assert.deepEqual(await jobStates(), {
+    [OK_ID]: ['done', 1, null],
+    [NO_PREVIEW_ID]: ['failed', 1, 'No preview audio available from any source (iTunes, Deezer)'],
+    // The second attempt analysed the preview again instead of reading back the cached error
+    [BROKEN_ID]: ['done', 2, null],
+  })
+  const [cached] = await query('SELECT bpm_essentia, error FROM track_bpm_cache WHERE spotify_track_id = $1', [BROKEN_ID])
+  assert.ok(Math.abs(Number(cached.bpm_essentia) - 120) <= 1)
+
+  const progress = await getBpmJobProgress(PLAYLIST_ID, null)
+  assert.deepEqual([progress.queued, progress.running, progress.done, progress.failed], [0, 0, 2, 1])
+  assert.deepEqual(progress.updates.map((update) => update.trackId).sort(), [OK_ID, NO_PREVIEW_ID, BROKEN_ID].sort())
+  const later = await getBpmJobProgress(PLAYLIST_ID, new Date(Date.now() + 60_000))
+  assert.deepEqual(later.updates, [])
+
+  assert.equal(await enqueueBpmJobs({ playlistId: PLAYLIST_ID, tracks: TRACKS }), 3, 'finished jobs are queued again')
+  assert.deepEqual(Object.values(await jobStates()).map(([status, attempts]) => [status, attempts]), [
+    ['queued', 0],
+    ['queued', 0],
+    ['queued', 0],
+  ])
+})
+
+test('thrown errors fail the job once it has been claimed three times', async () => {
+  await enqueueBpmJobs({ playlistId: PLAYLIST_ID, tracks: [TRACKS[2]] })
+  const fetchMock = mockFetch(previewRoutes())
+  try {
+    assert.deepEqual(await runBpmJobWorker({ maxDurationMs: 60_000 }), { claimed: 3, done: 0, failed: 1, retried: 2, featuresFilled: 0 })
+  } finally {
+    fetchMock.restore()
+  }
+  assert.deepEqual(await jobStates(), {
+    [BROKEN_ID]: ['failed', 3, 'Unsupported audio format (expected MP3, AAC/M4A or WAV)'],
+  })
+})
+
+test('jobs left running by a dead worker are requeued, or failed once out of attempts', async () => {
+  await insertRunningJob(OK_ID, { attempts: 1, startedMinutesAgo: 20 })
+  await insertRunningJob(BROKEN_ID, { attempts: 3, startedMinutesAgo: 20 })
+  await insertRunningJob(NO_PREVIEW_ID, { attempts: 1, startedMinutesAgo: 1 })
+  // Enqueueing again must not reset jobs that are still in flight
+  await enqueueBpmJobs({ playlistId: PLAYLIST_ID, tracks: TRACKS })
+  assert.deepEqual(Object.values(await jobStates()).map(([status, attempts]) => [status, attempts]), [
+    ['running', 1],
+    ['running', 3],
+    ['running', 1],
+  ])
+  const fetchMock = mockFetch(previewRoutes())
+  try {
+    assert.deepEqual(await runBpmJobWorker({ maxDurationMs: 60_000 }), { claimed: 1, done: 1, failed: 0, retried: 0, featuresFilled: 0 })
+  } finally {
+    fetchMock.restore()
+  }
+  assert.deepEqual(await jobStates(), {
+    [OK_ID]: ['done', 2, null],
+    [BROKEN_ID]: ['failed', 3, 'Worker stopped before the job finished'],
+    [NO_PREVIEW_ID]: ['running', 1, null],
+  })
+})
+
+test('after the queue drains the worker decodes audio features for cached tracks that lack them', async () => {
+  const urls = (isrc) => JSON.stringify([{ url: previewUrl(isrc), successful: true }])
+  for (const [trackId, isrc] of [[OK_ID, 'GBAAA2400001'], [BROKEN_ID, 'GBAAA2400003']]) {
+    await query(
+      `INSERT INTO track_bpm_cache (spotify_track_id, isrc, bpm_essentia, key_essentia, scale_essentia, source, urls)
+       VALUES ($1, $2, 120, 'C', 'major', 'deezer_isrc', $3)`,
+      [trackId, isrc, urls(isrc)]
+    )
+  }
+  const fetchMock = mockFetch(previewRoutes())
+  try {
+    assert.deepEqual(await runBpmJobWorker({ maxDurationMs: 60_000 }), { claimed: 0, done: 0, failed: 0, retried: 0, featuresFilled: 1 })
+    assert.deepEqual(await runBpmJobWorker({ maxDurationMs: 60_000 }), { claimed: 0, done: 0, failed: 0, retried: 0, featuresFilled: 0 })
+    assert.equal(fetchMock.callsTo(previewUrl('GBAAA2400003')).length, 1, 'an undecodable preview is not tried again')
+  } finally {
+    fetchMock.restore()
+  }
+
+  const rows = await query(
+    'SELECT spotify_track_id, bpm_essentia, key_essentia, energy, loudness_lufs, audio_features_failed_at FROM track_bpm_cache ORDER BY spotify_track_id'
+  )
+  const byId = Object.fromEntries(rows.map((row) => [row.spotify_track_id, row]))
+  assert.equal(Number(byId[OK_ID].bpm_essentia), 120, 'the stored BPM is left alone')
+  assert.equal(byId[OK_ID].key_essentia, 'C')
+  assert.notEqual(byId[OK_ID].energy, null)
+  assert.notEqual(byId[OK_ID].loudness_lufs, null)
+  assert.equal(byId[OK_ID].audio_features_failed_at, null)
+  assert.equal(byId[BROKEN_ID].energy, null)
+  assert.notEqual(byId[BROKEN_ID].audio_features_failed_at, null)
+})
+
+test('the jobs route needs a session and a playlist the user can see on Spotify', async () => {
+  await enqueueBpmJobs({ playlistId: PRIVATE_ID, tracks: TRACKS })
+  const fetchMock = mockFetch([
+    { url: 'https://api.spotify.com/v1/me', respond: () => ({ id: 'listener' }) },
+    { url: `https://api.spotify.com/v1/playlists/${PLAYLIST_ID}`, respond: () => ({ id: PLAYLIST_ID }) },
+    {
+      url: `https://api.spotify.com/v1/playlists/${PRIVATE_ID}`,
+      respond: () => jsonResponse({ error: { status: 404, message: 'Resource not found' } }, { status: 404 }),
+    },
+  ])
+  const cookies = { access_token: 'user-token' }
+  const progress = (playlistId, requestCookies = cookies) =>
+    invokeRoute(jobsRoute.GET, { url: `/api/bpm/jobs?playlistId=${playlistId}`, cookies: requestCookies })
+  const queue = (playlistId, requestCookies = cookies) =>
+    invokeRoute(jobsRoute.POST, { method: 'POST', url: '/api/bpm/jobs', body: { playlistId }, cookies: requestCookies })
+  try {
+    assert.equal((await progress(PLAYLIST_ID, {})).status, 401)
+    assert.equal((await queue(PLAYLIST_ID, {})).status, 401)
+
+    const hidden = await progress(PRIVATE_ID)
+    assert.equal(hidden.status, 403)
+    assert.equal((await hidden.json()).queued, undefined)
+    assert.equal((await queue(PRIVATE_ID)).status, 403)
+
+    const visible = await progress(PLAYLIST_ID)
+    assert.equal(visible.status, 200)
+    assert.equal((await visible.json()).queued, 0)
+  } finally {
+    fetchMock.restore()
+  }
+  assert.equal((await query('SELECT COUNT(*)::int AS count FROM bpm_jobs'))[0].count, 3, 'nothing was queued for the refused requests')
+})
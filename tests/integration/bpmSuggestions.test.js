@@ -0,0 +1,186 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+
+const { loadModule, invokeRoute, mockFetch, resetDatabase, closeDatabase, query } = harness
+const updateSelectionRoute = loadModule('app/api/bpm/update-selection/route.ts')
+const suggestionsRoute = loadModule('app/api/bpm/suggestions/route.ts')
+
+const TRACK_ID = '0VjIjW4GlUZAMYd2vXMi3b'
+const ADMIN_COOKIES = { access_token: 'admin-token' }
+const LISTENER_COOKIES = { access_token: 'listener-token' }
+
+function sessionRoutes() {
+  return [
+    {
+      url: 'https://api.spotify.com/v1/me',
+      // "<name>-token" signs in as <name>
+      respond: ({ headers }) => {
+        const name = headers.get('authorization').replace(/^Bearer (.*)-token$/, '$1')
+        return { id: name === 'admin' ? 'admin-user' : name }
+      },
+    },
+  ]
+}
+
+test.beforeEach(async () => {
+  await resetDatabase()
+  await query(`INSERT INTO admin_users (spotify_user_id, active) VALUES ('admin-user', true)`)
+  await query(
+    `INSERT INTO track_bpm_cache (spotify_track_id, bpm_essentia, bpm_librosa, bpm_selected, source)
+     VALUES ($1, 120, 60, 'essentia', 'deezer_isrc')`,
+    [TRACK_ID]
+  )
+})
+
+test.after(async () => {
+  await closeDatabase()
+})
+
+test('changing the selected estimator is admin only', async () => {
+  const fetchMock = mockFetch(sessionRoutes())
+  const body = { spotifyTrackId: TRACK_ID, bpmSelected: 'librosa' }
+  try {
+    const anonymous = await invokeRoute(updateSelectionRoute.POST, { method: 'POST', url: '/api/bpm/update-selection', body })
+    assert.equal(anonymous.status, 403)
+
+    const listener = await invokeRoute(updateSelectionRoute.POST, {
+      method: 'POST',
+      url: '/api/bpm/update-selection',
+      cookies: LISTENER_COOKIES,
+      body,
+    })
+    assert.equal(listener.status, 403)
+    const [unchanged] = await query('SELECT bpm_selected FROM track_bpm_cache WHERE spotify_track_id = $1', [TRACK_ID])
+    assert.equal(unchanged.bpm_selected, 'essentia')
+
+    const admin = await invokeRoute(updateSelectionRoute.POST, {
+      method: 'POST',
+      url: '/api/bpm/update-selection',
+      cookies: ADMIN_COOKIES,
+      body,
+    })
+    assert.equal(admin.status, 200)
+    const [row] = await query('SELECT bpm_selected FROM track_bpm_cache WHERE spotify_track_id = $1', [TRACK_ID])
+    assert.equal(row.bpm_selected, 'librosa')
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+async function suggest(user, body) {
+  const response = await invokeRoute(suggestionsRoute.POST, {
+    method: 'POST',
+    url: '/api/bpm/suggestions',
+    cookies: { access_token: `${user}-token` },
+    body: { spotifyTrackId: TRACK_ID, ...body },
+  })
+  assert.equal(response.status, 200)
+  return (await response.json()).promoted
+}
+
+async function getSummary(cookies) {
+  const response = await invokeRoute(suggestionsRoute.GET, { url: `/api/bpm/suggestions?spotifyTrackId=${TRACK_ID}`, cookies })
+  assert.equal(response.status, 200)
+  return response.json()
+}
+
+test('suggestions that round to the same BPM are one vote per user', async () => {
+  const fetchMock = mockFetch(sessionRoutes())
+  try {
+    await suggest('ana', { bpm: 128.2, key: 'A', scale: 'minor' })
+    await suggest('ben', { bpm: 127.8, key: 'A', scale: 'minor' })
+    await suggest('cat', { bpm: 64 })
+    // A second suggestion from the same user replaces the first
+    await suggest('ana', { bpm: 128.4 })
+
+    const summary = await getSummary({ access_token: 'ben-token' })
+    assert.deepEqual(
+      summary.bpmVotes.map(({ bpm, votes, hasMyVote }) => ({ bpm, votes, hasMyVote })),
+      [
+        { bpm: 128.1, votes: 2, hasMyVote: true },
+        { bpm: 64, votes: 1, hasMyVote: false },
+      ]
+    )
+    assert.deepEqual(
+      summary.keyVotes.map(({ key, scale, votes }) => ({ key, scale, votes })),
+      [{ key: 'A', scale: 'minor', votes: 2 }]
+    )
+    assert.equal(summary.suggestions.filter((suggestion) => suggestion.status === 'superseded').length, 1)
+    assert.ok(summary.suggestions.every((suggestion) => suggestion.userId === null))
+    assert.equal(summary.suggestions.filter((suggestion) => suggestion.isMine).length, 2)
+
+    const adminView = await getSummary(ADMIN_COOKIES)
+    assert.deepEqual(new Set(adminView.suggestions.map((suggestion) => suggestion.userId)), new Set(['ana', 'ben', 'cat']))
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('enough agreeing users promote the BPM to the manual selection', async () => {
+  const fetchMock = mockFetch(sessionRoutes())
+  try {
+    assert.deepEqual(await suggest('ana', { bpm: 128 }), [])
+    assert.deepEqual(await suggest('cat', { bpm: 64 }), [])
+    assert.deepEqual(await suggest('ben', { bpm: 128.4 }), [])
+    assert.deepEqual(await suggest('dan', { bpm: 127.9 }), [{ kind: 'bpm', bpm: 128.1, key: null, scale: null, votes: 3 }])
+
+    const [row] = await query('SELECT bpm_selected, bpm_manual FROM track_bpm_cache WHERE spotify_track_id = $1', [TRACK_ID])
+    assert.equal(row.bpm_selected, 'manual')
+    assert.equal(Number(row.bpm_manual), 128.1)
+
+    const suggestions = await query('SELECT user_id, status, resolved_by FROM bpm_suggestions ORDER BY id')
+    assert.deepEqual(
+      suggestions.map((suggestion) => [suggestion.user_id, suggestion.status, suggestion.resolved_by]),
+      [
+        ['ana', 'accepted', 'community'],
+        ['cat', 'pending', null],
+        ['ben', 'accepted', 'community'],
+        ['dan', 'accepted', 'community'],
+      ]
+    )
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('tracks with an admin review are not auto-promoted', async () => {
+  await query('UPDATE track_bpm_cache SET bpm_reviewed_at = NOW() WHERE spotify_track_id = $1', [TRACK_ID])
+  const fetchMock = mockFetch(sessionRoutes())
+  try {
+    for (const user of ['ana', 'ben', 'dan']) {
+      assert.deepEqual(await suggest(user, { key: 'G', scale: 'major' }), [])
+    }
+    const [row] = await query('SELECT key_selected, key_manual FROM track_bpm_cache WHERE spotify_track_id = $1', [TRACK_ID])
+    assert.notEqual(row.key_selected, 'manual')
+    assert.equal(row.key_manual, null)
+    assert.equal((await getSummary({})).keyVotes[0].votes, 3)
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('admins accept a suggestion together with the ones that agree with it', async () => {
+  const fetchMock = mockFetch(sessionRoutes())
+  const resolve = (cookies, body) =>
+    invokeRoute(suggestionsRoute.PATCH, { method: 'PATCH', url: '/api/bpm/suggestions', cookies, body })
+  try {
+    await suggest('ana', { bpm: 97.6 })
+    await suggest('ben', { bpm: 98.2 })
+    const [{ suggestionId }] = (await getSummary({})).bpmVotes
+
+    assert.equal((await resolve(LISTENER_COOKIES, { suggestionId, action: 'accept' })).status, 403)
+
+    const accepted = await resolve(ADMIN_COOKIES, { suggestionId, action: 'accept' })
+    assert.equal(accepted.status, 200)
+    assert.deepEqual((await accepted.json()).applied, { kind: 'bpm', bpm: 97.9, key: null, scale: null, votes: 2 })
+    const [row] = await query('SELECT bpm_selected, bpm_manual FROM track_bpm_cache WHERE spotify_track_id = $1', [TRACK_ID])
+    assert.deepEqual([row.bpm_selected, Number(row.bpm_manual)], ['manual', 97.9])
+    const statuses = await query('SELECT status, resolved_by FROM bpm_suggestions')
+    assert.ok(statuses.every((suggestion) => suggestion.status === 'accepted' && suggestion.resolved_by === 'admin-user'))
+
+    assert.equal((await resolve(ADMIN_COOKIES, { suggestionId, action: 'reject' })).status, 404)
+  } finally {
+    fetchMock.restore()
+  }
+})
@@ -0,0 +1,134 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+
+const { loadModule, invokeRoute, mockFetch, resetDatabase, closeDatabase, query } = harness
+const { GET } = loadModule('app/api/musicbrainz/search/route.ts')
+
+const release = { id: 'rel-1', title: 'Album', date: '2016-05-20', 'release-group': { 'primary-type': 'Album' } }
+
+function recording(id, isrcs, title = id) {
+  return { id, title, isrcs, releases: [release], 'artist-credit': [{ name: 'Some Artist' }] }
+}
+
+// MusicBrainz recording searches keyed by the Lucene query the client builds
+const RECORDINGS_BY_QUERY = {
+  'mixer:"Serban Ghenea"': [
+    recording('mb-a', ['USAAA1600001'], 'Shared By ISRC'),
+    recording('mb-b', ['USAAA1600002'], 'Mixer Only'),
+    recording('mb-c', [], 'Shared By Recording ID'),
+  ],
+  'writer:"Max Martin"': [recording('mb-a-other', ['usaaa1600001']), recording('mb-d', ['USAAA1600004'])],
+  'writer:"Martin Sandberg"': [recording('mb-c', [])],
+  // 1000 matches, served 100 at a time
+  'mixer:"Busy Mixer"': (offset) =>
+    Object.assign(Array.from({ length: 100 }, (_, i) => recording(`busy-${offset + i}`, [])), { count: 1000 }),
+  'writer:"Rare Writer"': [recording('busy-3', [])],
+  'mixer:"Page Mixer"': ['USPPP1600001', 'USPPP1600002', 'USPPP1600003'].map((isrc) => recording(`page-${isrc}`, [isrc])),
+  'writer:"Page Writer"': ['USPPP1600001', 'USPPP1600002', 'USPPP1600003'].map((isrc) => recording(`other-${isrc}`, [isrc])),
+}
+
+function externalRoutes() {
+  return [
+    {
+      url: (url) => url.startsWith('https://musicbrainz.org/ws/2/recording?'),
+      respond: ({ url }) => {
+        const params = new URL(url).searchParams
+        const found = RECORDINGS_BY_QUERY[params.get('query')] || []
+        const recordings = typeof found === 'function' ? found(Number(params.get('offset'))) : found
+        return { count: recordings.count ?? recordings.length, offset: Number(params.get('offset')), recordings: [...recordings] }
+      },
+    },
+    { url: /^https:\/\/api\.deezer\.com\//, respond: () => ({ error: { code: 800 } }) },
+    { url: /^https:\/\/coverartarchive\.org\//, respond: () => new Response(null, { status: 404 }) },
+  ]
+}
+
+test.beforeEach(async () => {
+  await resetDatabase()
+})
+
+test.after(async () => {
+  await closeDatabase()
+})
+
+test('intersects clauses on ISRC or recording ID and caches the composite result', async () => {
+  const fetchMock = mockFetch(externalRoutes())
+  try {
+    const response = await invokeRoute(GET, {
+      url: '/api/musicbrainz/search?clause=mixer:Serban%20Ghenea&clause=songwriter:Max%20Martin|songwriter:Martin%20Sandberg',
+    })
+    assert.equal(response.status, 200)
+    const body = await response.json()
+    assert.deepEqual(body.results.map((track) => track.title), ['Shared By ISRC', 'Shared By Recording ID'])
+    assert.equal(body.releaseCount, 2)
+    assert.deepEqual(fetchMock.unmatched, [])
+
+    const rows = await query('SELECT name, role, total_count FROM credits_cache')
+    assert.deepEqual(rows, [{
+      name: 'mixer:serban ghenea&songwriter:martin sandberg|songwriter:max martin',
+      role: 'composite',
+      total_count: 2,
+    }])
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('pages through every term up to the cap and flags the result as truncated beyond it', async () => {
+  const fetchMock = mockFetch(externalRoutes())
+  try {
+    const response = await invokeRoute(GET, {
+      url: '/api/musicbrainz/search?clause=mixer:Busy%20Mixer&clause=songwriter:Rare%20Writer',
+    })
+    const body = await response.json()
+    assert.deepEqual(body.results.map((track) => track.id), ['busy-3'])
+    assert.equal(body.truncated, true)
+    const busyOffsets = fetchMock.calls
+      .map((call) => new URL(call.url).searchParams)
+      .filter((params) => params.get('query') === 'mixer:"Busy Mixer"')
+      .map((params) => Number(params.get('offset')))
+    assert.deepEqual(busyOffsets, [0, 100, 200, 300, 400])
+
+    const [row] = await query('SELECT truncated FROM credits_cache')
+    assert.equal(row.truncated, true)
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('looks up details only for the requested page and keeps resolved pages in the cache', async () => {
+  const fetchMock = mockFetch(externalRoutes())
+  const search = (offset) => invokeRoute(GET, {
+    url: `/api/musicbrainz/search?clause=mixer:Page%20Mixer&clause=songwriter:Page%20Writer&limit=1&offset=${offset}`,
+  })
+  const deezerLookups = () => fetchMock.calls.filter((call) => call.url.includes('api.deezer.com/track/isrc:')).map((call) => call.url.split('isrc:')[1])
+  try {
+    const second = await (await search(1)).json()
+    assert.deepEqual(second.results.map((track) => track.id), ['page-USPPP1600002'])
+    assert.equal(second.releaseCount, 3)
+    assert.equal(second.truncated, false)
+    assert.deepEqual(deezerLookups(), ['USPPP1600002'])
+
+    const searchesBefore = fetchMock.callsTo('https://musicbrainz.org/ws/2/recording').length
+    const third = await (await search(2)).json()
+    assert.deepEqual(third.results.map((track) => track.id), ['page-USPPP1600003'])
+    assert.deepEqual(deezerLookups(), ['USPPP1600002', 'USPPP1600003'])
+    assert.equal(fetchMock.callsTo('https://musicbrainz.org/ws/2/recording').length, searchesBefore, 'served from the cache')
+
+    await search(1)
+    assert.deepEqual(deezerLookups(), ['USPPP1600002', 'USPPP1600003'], 'resolved pages are not looked up again')
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('rejects malformed clauses and requests without name or clause', async () => {
+  const badRole = await invokeRoute(GET, { url: '/api/musicbrainz/search?clause=drummer:Someone' })
+  assert.equal(badRole.status, 400)
+  assert.deepEqual((await badRole.json()).issues, [{ path: 'query.clause.0', message: 'Unknown role "drummer"' }])
+
+  const missing = await invokeRoute(GET, { url: '/api/musicbrainz/search' })
+  assert.equal(missing.status, 400)
+  assert.equal((await missing.json()).issues[0].path, 'query.name')
+})
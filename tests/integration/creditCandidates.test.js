@@ -0,0 +1,139 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+
+const { loadModule, invokeRoute, mockFetch, resetDatabase, closeDatabase, query } = harness
+const candidatesRoute = loadModule('app/api/credits/candidates/route.ts')
+const searchRoute = loadModule('app/api/musicbrainz/search/route.ts')
+
+const PRODUCER_ID = '1f1e8c3a-5b7a-4c4e-9a36-2f1f3b7d1a01'
+const NAMESAKE_ID = '9c2b7d41-0e6f-4b1a-8d2e-6a5c4f3e2b02'
+
+const ARTISTS = [
+  {
+    id: PRODUCER_ID,
+    name: 'Max Martin',
+    type: 'Person',
+    country: 'SE',
+    area: { name: 'Sweden' },
+    disambiguation: 'Swedish producer and songwriter',
+    'life-span': { begin: '1971-02-26', end: null },
+    aliases: [{ name: 'Martin Sandberg' }, { name: 'Max Martin' }, { name: 'Karl Martin Sandberg' }],
+    score: 100,
+  },
+  {
+    id: NAMESAKE_ID,
+    name: 'Max Martin',
+    type: 'Person',
+    disambiguation: 'jazz trumpeter',
+    'life-span': { begin: '1930', end: '1998' },
+    score: 92,
+  },
+]
+
+const WORKS = {
+  [PRODUCER_ID]: { 'work-count': 1200, works: [{ title: 'Blank Space' }, { title: 'Blinding Lights' }, { title: 'Blank Space' }] },
+  [NAMESAKE_ID]: { 'work-count': 4, works: [{ title: 'Night Train Blues' }] },
+}
+
+test.beforeEach(async () => {
+  await resetDatabase()
+})
+
+test.after(async () => {
+  await closeDatabase()
+})
+
+test('lists MusicBrainz candidates with aliases, active years and sample credits', async () => {
+  const fetchMock = mockFetch([
+    { url: 'https://musicbrainz.org/ws/2/artist', respond: () => ({ count: 2, artists: ARTISTS }) },
+    {
+      url: 'https://musicbrainz.org/ws/2/work',
+      respond: ({ url }) => WORKS[new URL(url).searchParams.get('artist')],
+    },
+  ])
+  try {
+    const response = await invokeRoute(candidatesRoute.GET, { url: '/api/credits/candidates?name=Max%20Martin' })
+    assert.equal(response.status, 200)
+    const body = await response.json()
+    assert.deepEqual(body.muso, [])
+    assert.equal(body.musicbrainz.length, 2)
+
+    const [producer, namesake] = body.musicbrainz
+    assert.equal(producer.id, PRODUCER_ID)
+    assert.equal(producer.country, 'SE')
+    assert.deepEqual(producer.aliases, ['Martin Sandberg', 'Karl Martin Sandberg'])
+    assert.deepEqual(producer.activeYears, { begin: 1971, end: null })
+    assert.equal(producer.workCount, 1200)
+    assert.deepEqual(producer.sampleCredits, ['Blank Space', 'Blinding Lights'])
+    assert.deepEqual(namesake.activeYears, { begin: 1930, end: 1998 })
+    assert.equal(namesake.disambiguation, 'jazz trumpeter')
+    assert.deepEqual(fetchMock.unmatched, [])
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('a pinned artist ID skips the name lookup and keys credits_cache on the ID', async () => {
+  const fetchMock = mockFetch([
+    {
+      url: 'https://musicbrainz.org/ws/2/recording',
+      respond: ({ url }) => {
+        assert.equal(new URL(url).searchParams.get('query'), `arid:${PRODUCER_ID}`)
+        return {
+          count: 1,
+          offset: 0,
+          recordings: [{
+            id: 'rec-1',
+            title: 'Pinned',
+            isrcs: [],
+            releases: [{ id: 'rel-1', title: 'Album', date: '2014-10-27', 'release-group': { 'primary-type': 'Album' } }],
+          }],
+        }
+      },
+    },
+    { url: /^https:\/\/coverartarchive\.org\//, respond: () => new Response(null, { status: 404 }) },
+  ])
+  try {
+    const response = await invokeRoute(searchRoute.GET, {
+      url: `/api/musicbrainz/search?name=Max%20Martin&role=artist&artistId=${PRODUCER_ID}&stream=true`,
+    })
+    assert.equal(response.status, 200)
+    await response.text()
+    assert.deepEqual(fetchMock.callsTo('https://musicbrainz.org/ws/2/artist'), [])
+    assert.deepEqual(fetchMock.unmatched, [])
+
+    const rows = await query('SELECT name, role FROM credits_cache')
+    assert.deepEqual(rows, [{ name: `mbid:${PRODUCER_ID}`, role: 'artist' }])
+  } finally {
+    fetchMock.restore()
+  }
+
+  const invalid = await invokeRoute(searchRoute.GET, { url: '/api/musicbrainz/search?name=Max%20Martin&artistId=not-an-mbid' })
+  assert.equal(invalid.status, 400)
+})
+
+test('roles searched by name keep the name key even when an artist ID is pinned', async () => {
+  const fetchMock = mockFetch([
+    {
+      url: 'https://musicbrainz.org/ws/2/recording',
+      respond: ({ url }) => {
+        assert.equal(new URL(url).searchParams.get('query'), 'mixer:"Max Martin"')
+        return { count: 0, offset: 0, recordings: [] }
+      },
+    },
+  ])
+  try {
+    const response = await invokeRoute(searchRoute.GET, {
+      url: `/api/musicbrainz/search?name=Max%20Martin&role=mixer&artistId=${PRODUCER_ID}&stream=true`,
+    })
+    assert.equal(response.status, 200)
+    await response.text()
+    assert.deepEqual(fetchMock.unmatched, [])
+
+    const rows = await query('SELECT name, role FROM credits_cache')
+    assert.deepEqual(rows, [{ name: 'max martin', role: 'mixer' }])
+  } finally {
+    fetchMock.restore()
+  }
+})
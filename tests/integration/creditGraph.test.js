@@ -0,0 +1,87 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+
+const { loadModule, invokeRoute, resetDatabase, closeDatabase, query } = harness
+const { GET } = loadModule('app/api/credits/graph/route.ts')
+
+async function cacheSearch(name, role, results) {
+  await query(
+    `INSERT INTO credits_cache (name, role, results, isrcs) VALUES ($1, $2, $3, $4)`,
+    [name, role, JSON.stringify(results), results.map((result) => result.isrc).filter(Boolean)]
+  )
+}
+
+async function cacheTrackCredits(isrc, credits) {
+  await query(
+    `INSERT INTO track_credits_cache (isrc, credits, source) VALUES ($1, $2, 'musicbrainz')`,
+    [isrc, JSON.stringify({ performedBy: [], producedBy: [], mixedBy: [], masteredBy: [], writtenBy: [], releaseId: null, ...credits })]
+  )
+}
+
+async function getGraph(search) {
+  const response = await invokeRoute(GET, { url: `/api/credits/graph?${search}` })
+  return { status: response.status, body: await response.json() }
+}
+
+test.beforeEach(async () => {
+  await resetDatabase()
+  await cacheSearch('max martin', 'producer', [
+    { id: 'r1', releaseId: 'a', isrc: 'SEXXX0000001', year: '2014', artist: 'Taylor Swift' },
+    { id: 'r2', releaseId: 'b', isrc: 'SEXXX0000002', year: '2015', artist: 'Taylor Swift' },
+    { id: 'r3', releaseId: 'c', isrc: 'SEXXX0000003', year: '2019', artist: 'Ariana Grande, Social House' },
+  ])
+  // The same track from a second search must only count once
+  await cacheSearch('max martin', 'songwriter', [
+    { id: 'r1', releaseId: 'a', isrc: 'SEXXX0000001', year: '2014', artist: 'Taylor Swift' },
+  ])
+  await cacheTrackCredits('SEXXX0000001', {
+    performedBy: ['Taylor Swift'],
+    producedBy: ['Max Martin', 'Shellback'],
+    mixedBy: ['Serban Ghenea'],
+    writtenBy: ['Max Martin', 'Shellback', 'Taylor Swift'],
+  })
+  await cacheTrackCredits('SEXXX0000002', {
+    producedBy: ['Max Martin', 'Shellback'],
+    mixedBy: ['Serban Ghenea'],
+  })
+})
+
+test.after(async () => {
+  await closeDatabase()
+})
+
+test('counts collaborators per role across cached tracks', async () => {
+  const { status, body } = await getGraph('name=Max%20Martin')
+  assert.equal(status, 200)
+  assert.equal(body.trackCount, 3)
+  assert.deepEqual(body.years, { min: 2014, max: 2019 })
+
+  const weights = Object.fromEntries(body.nodes.map((node) => [node.id, node.weight]))
+  assert.equal(weights['artist:taylor swift'], 2)
+  assert.equal(weights['artist:ariana grande'], 1)
+  assert.equal(weights['producer:shellback'], 2)
+  assert.equal(weights['mixer:serban ghenea'], 2)
+  assert.equal(weights['songwriter:taylor swift'], 1)
+  assert.equal(weights['producer:max martin'], undefined)
+
+  const shellback = body.nodes.find((node) => node.id === 'producer:shellback')
+  assert.equal(shellback.firstYear, 2014)
+  assert.equal(shellback.lastYear, 2015)
+  assert.ok(body.edges.some((edge) =>
+    edge.source === 'mixer:serban ghenea' && edge.target === 'producer:shellback' && edge.weight === 2
+  ))
+})
+
+test('year filter and per-role limit narrow the graph', async () => {
+  const { body } = await getGraph('name=max%20martin&yearFrom=2015&perRole=1')
+  assert.equal(body.trackCount, 2)
+  assert.deepEqual(body.nodes.map((node) => node.id).sort(), [
+    'artist:ariana grande',
+    'mixer:serban ghenea',
+    'producer:shellback',
+  ])
+
+  const invalid = await getGraph('name=max%20martin&yearFrom=2020&yearTo=2010')
+  assert.equal(invalid.status, 400)
+})
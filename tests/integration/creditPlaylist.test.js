@@ -0,0 +1,141 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+
+const { loadModule, invokeRoute, mockFetch, jsonResponse, resetDatabase, closeDatabase, query } = harness
+const matchesRoute = loadModule('app/api/credits/spotify-matches/route.ts')
+const tracksRoute = loadModule('app/api/playlists/[id]/tracks/route.ts')
+
+const PLAYLIST_ID = '37i9dQZF1DXcBWIGoYBM5M'
+const SEARCH_URL = 'https://api.spotify.com/v1/search'
+const WRITE_SCOPES = 'playlist-modify-public playlist-modify-private'
+const EXISTING_ID = '4uLU6hMCjMI75M1A2tKUQC'
+const FRESH_ID = '7ouMYWpwJ422jRcDASZB7P'
+
+const searchQuery = (url) => new URL(url).searchParams.get('q')
+
+test.beforeEach(async () => {
+  await resetDatabase()
+})
+
+test.after(async () => {
+  await closeDatabase()
+})
+
+test('matches credit tracks from known IDs, the BPM cache, ISRC search and title search', async () => {
+  await query(`INSERT INTO track_bpm_cache (spotify_track_id, isrc, source) VALUES ('cachedTrack', 'GBAAA2400001', 'deezer_isrc')`)
+  const fetchMock = mockFetch([
+    {
+      url: SEARCH_URL,
+      respond: ({ url }) => {
+        const q = searchQuery(url)
+        if (q === 'isrc:USAAA2400002') return { tracks: { items: [{ id: 'isrcTrack' }] } }
+        if (q === 'track:Untitled artist:Someone') return { tracks: { items: [{ id: 'titleTrack' }] } }
+        return { tracks: { items: [] } }
+      },
+    },
+  ])
+  try {
+    const response = await invokeRoute(matchesRoute.POST, {
+      method: 'POST',
+      url: '/api/credits/spotify-matches',
+      cookies: { access_token: 'user-token' },
+      body: {
+        tracks: [
+          { key: 'known', isrc: 'USAAA2400009', title: 'Known', artist: 'Someone', spotifyTrackId: 'knownTrack' },
+          { key: 'cached', isrc: 'gbaaa2400001', title: 'Cached', artist: 'Someone' },
+          { key: 'isrc', isrc: 'USAAA2400002', title: 'By ISRC', artist: 'Someone' },
+          { key: 'title', title: 'Untitled', artist: 'Someone feat. Guest' },
+          { key: 'missing', isrc: 'USAAA2400003', title: 'Nowhere', artist: 'Nobody' },
+        ],
+      },
+    })
+    assert.equal(response.status, 200)
+    const { matches } = await response.json()
+    assert.deepEqual(
+      matches.map((match) => [match.key, match.spotifyTrackId, match.matchedBy]),
+      [
+        ['known', 'knownTrack', 'provided'],
+        ['cached', 'cachedTrack', 'cache'],
+        ['isrc', 'isrcTrack', 'isrc'],
+        ['title', 'titleTrack', 'search'],
+        ['missing', null, null],
+      ]
+    )
+    const searches = fetchMock.callsTo(SEARCH_URL).map((call) => searchQuery(call.url))
+    assert.ok(!searches.includes('isrc:GBAAA2400001'))
+    assert.ok(!searches.some((q) => q.includes('Known')))
+    assert.deepEqual(fetchMock.unmatched, [])
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('appending to a playlist needs write scopes and skips tracks already in it', async () => {
+  const base = `https://api.spotify.com/v1/playlists/${PLAYLIST_ID}`
+  const playlistItem = (id) => ({ added_at: '2024-01-01T00:00:00Z', added_by: { id: 'owner' }, track: { id, name: id } })
+  const items = [playlistItem(EXISTING_ID)]
+  const fetchMock = mockFetch([
+    {
+      method: 'POST',
+      url: `${base}/tracks`,
+      respond: ({ body }) => {
+        for (const uri of JSON.parse(body).uris) items.push(playlistItem(uri.split(':').pop()))
+        return { snapshot_id: `snapshot-${items.length}` }
+      },
+    },
+    { url: (url) => url.startsWith(`${base}/tracks?`), respond: () => ({ items, next: null }) },
+    { url: base, respond: () => ({ id: PLAYLIST_ID, name: 'Mix', snapshot_id: `snapshot-${items.length}` }) },
+  ])
+  try {
+    const request = {
+      method: 'POST',
+      url: `/api/playlists/${PLAYLIST_ID}/tracks`,
+      params: { id: PLAYLIST_ID },
+      body: { trackIds: [EXISTING_ID, FRESH_ID] },
+    }
+    const denied = await invokeRoute(tracksRoute.POST, { ...request, cookies: { access_token: 'user-token' } })
+    assert.equal(denied.status, 403)
+    assert.equal((await denied.json()).code, 'missing_scope')
+    assert.deepEqual(fetchMock.calls, [])
+
+    const response = await invokeRoute(tracksRoute.POST, {
+      ...request,
+      cookies: { access_token: 'user-token', spotify_scopes: WRITE_SCOPES },
+    })
+    assert.equal(response.status, 200)
+    assert.deepEqual(await response.json(), { tracksAdded: 1, alreadyPresent: 1 })
+
+    const added = fetchMock.calls.filter((call) => call.method === 'POST')
+    assert.deepEqual(added.map((call) => JSON.parse(call.body).uris), [[`spotify:track:${FRESH_ID}`]])
+    assert.deepEqual(fetchMock.unmatched, [])
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('Spotify refusing an append is reported as not an editor, not as a missing scope', async () => {
+  const base = `https://api.spotify.com/v1/playlists/${PLAYLIST_ID}`
+  const fetchMock = mockFetch([
+    {
+      method: 'POST',
+      url: `${base}/tracks`,
+      respond: () => jsonResponse({ error: { status: 403, message: 'Forbidden' } }, { status: 403 }),
+    },
+    { url: (url) => url.startsWith(`${base}/tracks?`), respond: () => ({ items: [], next: null }) },
+    { url: base, respond: () => ({ id: PLAYLIST_ID, name: 'Someone else', snapshot_id: 'snapshot-1' }) },
+  ])
+  try {
+    const response = await invokeRoute(tracksRoute.POST, {
+      method: 'POST',
+      url: `/api/playlists/${PLAYLIST_ID}/tracks`,
+      params: { id: PLAYLIST_ID },
+      body: { trackIds: [FRESH_ID] },
+      cookies: { access_token: 'user-token', spotify_scopes: WRITE_SCOPES },
+    })
+    assert.equal(response.status, 403)
+    assert.equal((await response.json()).code, 'not_playlist_editor')
+  } finally {
+    fetchMock.restore()
+  }
+})
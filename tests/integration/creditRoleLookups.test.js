@@ -0,0 +1,228 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+
+const { loadModule, mockFetch } = harness
+const { searchRecordingsByCredit } = loadModule('lib/musicbrainz/client.ts')
+
+const MB = 'https://musicbrainz.org/ws/2'
+const ARTIST_ID = '6b0ab1c7-2f7e-4a55-9fd8-7b2c1f0e9a10'
+const LABEL_ID = 'c5b7a2e1-04d3-4a8f-b6e2-91f0d3c7a811'
+
+// Shaped like a ws/2 artist lookup (GET /artist/<id>?inc=recording-rels): relationships
+// carry type, attributes and a bare target with no ISRCs or artist credit
+const RECORDING_RELS = {
+  id: ARTIST_ID,
+  name: 'Pino Palladino',
+  'sort-name': 'Palladino, Pino',
+  type: 'Person',
+  country: 'GB',
+  relations: [
+    {
+      type: 'instrument',
+      'target-type': 'recording',
+      direction: 'forward',
+      attributes: ['bass guitar'],
+      'attribute-values': {},
+      'attribute-credits': {},
+      begin: null,
+      end: null,
+      ended: false,
+      'source-credit': '',
+      'target-credit': '',
+      recording: { id: 'rec-bass', title: 'Cure for Pain', length: 248000, disambiguation: '', video: false },
+    },
+    {
+      type: 'instrument',
+      'target-type': 'recording',
+      direction: 'forward',
+      attributes: ['double bass'],
+      'attribute-values': {},
+      ended: false,
+      recording: { id: 'rec-bass', title: 'Cure for Pain', length: 248000, disambiguation: '', video: false },
+    },
+    {
+      type: 'instrument',
+      'target-type': 'recording',
+      direction: 'forward',
+      attributes: ['guitar'],
+      'attribute-values': {},
+      ended: false,
+      recording: { id: 'rec-guitar', title: 'Guitar Only', length: 201000, disambiguation: '', video: false },
+    },
+    {
+      type: 'vocal',
+      'target-type': 'recording',
+      direction: 'forward',
+      attributes: ['background vocals'],
+      'attribute-values': {},
+      ended: false,
+      recording: { id: 'rec-vocal', title: 'Backing Vocals', length: 180000, disambiguation: '', video: false },
+    },
+    {
+      type: 'producer',
+      'target-type': 'recording',
+      direction: 'forward',
+      attributes: [],
+      'attribute-values': {},
+      ended: false,
+      recording: { id: 'rec-produced', title: 'Produced', length: 190000, disambiguation: '', video: false },
+    },
+  ],
+}
+
+// GET /artist/<id>?inc=work-rels
+const WORK_RELS = {
+  id: ARTIST_ID,
+  name: 'Pino Palladino',
+  relations: [
+    { type: 'composer', 'target-type': 'work', direction: 'forward', attributes: [], work: { id: 'work-composed', title: 'Composed' } },
+    { type: 'lyricist', 'target-type': 'work', direction: 'forward', attributes: [], work: { id: 'work-lyrics', title: 'Lyrics Only' } },
+  ],
+}
+
+function searchHit(id, title, isrc) {
+  return {
+    id,
+    score: 100,
+    title,
+    length: 248000,
+    'artist-credit': [{ name: 'Morphine', artist: { id: 'artist-morphine', name: 'Morphine' } }],
+    isrcs: [isrc],
+    releases: [{ id: `rel-${id}`, title: 'Cure for Pain', date: '1993-09-14', 'release-group': { 'primary-type': 'Album' } }],
+  }
+}
+
+test('instrument searches browse the artist recording relationships and filter on the instrument attribute', async () => {
+  const fetchMock = mockFetch([
+    { url: `${MB}/artist/${ARTIST_ID}`, respond: () => RECORDING_RELS },
+    {
+      url: `${MB}/recording`,
+      respond: ({ url }) => {
+        assert.equal(new URL(url).searchParams.get('query'), 'rid:rec-bass')
+        return { count: 1, offset: 0, recordings: [searchHit('rec-bass', 'Cure for Pain', 'USRC19300002')] }
+      },
+    },
+  ])
+  try {
+    const result = await searchRecordingsByCredit({
+      name: 'Pino Palladino',
+      role: 'instrument',
+      instrument: ' Bass ',
+      artistId: ARTIST_ID,
+      limit: 20,
+      offset: 0,
+    })
+    assert.equal(new URL(fetchMock.calls[0].url).searchParams.get('inc'), 'recording-rels')
+    assert.equal(result.count, 1)
+    assert.deepEqual(result.recordings.map((recording) => recording.id), ['rec-bass'])
+    assert.deepEqual(result.recordings[0].isrcs, ['USRC19300002'])
+    assert.deepEqual(fetchMock.unmatched, [])
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('vocalist searches resolve the artist by name and keep only vocal relationships', async () => {
+  const fetchMock = mockFetch([
+    {
+      url: `${MB}/artist`,
+      respond: () => ({ count: 1, artists: [{ id: ARTIST_ID, name: 'Pino Palladino', score: 100 }] }),
+    },
+    { url: `${MB}/artist/${ARTIST_ID}`, respond: ({ url }) => (new URL(url).searchParams.get('inc') ? RECORDING_RELS : { id: ARTIST_ID }) },
+    { url: `${MB}/recording`, respond: () => ({ count: 1, offset: 0, recordings: [searchHit('rec-vocal', 'Backing Vocals', 'GBAAA0500001')] }) },
+  ])
+  try {
+    const result = await searchRecordingsByCredit({ name: 'Pino Palladino', role: 'vocalist', limit: 20, offset: 0 })
+    assert.deepEqual(result.recordings.map((recording) => recording.id), ['rec-vocal'])
+    assert.equal(new URL(fetchMock.callsTo(`${MB}/recording`)[0].url).searchParams.get('query'), 'rid:rec-vocal')
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('composer searches follow work relationships to a representative recording per work', async () => {
+  const fetchMock = mockFetch([
+    { url: `${MB}/artist/${ARTIST_ID}`, respond: () => WORK_RELS },
+    {
+      url: `${MB}/recording`,
+      respond: ({ url }) => {
+        assert.equal(new URL(url).searchParams.get('work'), 'work-composed')
+        return {
+          'recording-count': 2,
+          'recording-offset': 0,
+          recordings: [
+            { id: 'b-studio', title: 'Composed', attributes: [], isrcs: ['GBAAA9300001'] },
+            { id: 'a-live', title: 'Composed (live)', attributes: ['live'], isrcs: [] },
+          ],
+        }
+      },
+    },
+  ])
+  try {
+    const result = await searchRecordingsByCredit({
+      name: 'Pino Palladino',
+      role: 'composer',
+      artistId: ARTIST_ID,
+      limit: 20,
+      offset: 0,
+    })
+    assert.equal(new URL(fetchMock.calls[0].url).searchParams.get('inc'), 'work-rels')
+    assert.equal(result.count, 1)
+    assert.deepEqual(result.recordings.map((recording) => recording.id), ['b-studio'])
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('label searches browse the label releases and attach each release to its recordings', async () => {
+  const fetchMock = mockFetch([
+    {
+      url: `${MB}/label`,
+      respond: () => ({
+        count: 2,
+        labels: [
+          { id: 'other-label', name: 'Rykodisc Europe', score: 95 },
+          { id: LABEL_ID, name: 'Rykodisc', score: 90 },
+        ],
+      }),
+    },
+    {
+      url: `${MB}/release`,
+      respond: ({ url }) => {
+        assert.equal(new URL(url).searchParams.get('label'), LABEL_ID)
+        return {
+          'release-count': 1,
+          'release-offset': 0,
+          releases: [{
+            id: 'rel-cure',
+            title: 'Cure for Pain',
+            date: '1993-09-14',
+            'release-group': { 'primary-type': 'Album' },
+            media: [{
+              position: 1,
+              tracks: [
+                { position: 1, recording: { id: 'rec-dawna', title: 'Dawna', isrcs: ['USRC19300001'] } },
+                { position: 2, recording: { id: 'rec-buena', title: 'Buena', isrcs: [] } },
+              ],
+            }],
+          }],
+        }
+      },
+    },
+  ])
+  try {
+    const result = await searchRecordingsByCredit({ name: 'rykodisc', role: 'label', limit: 20, offset: 0 })
+    assert.equal(result.count, 1)
+    assert.deepEqual(result.recordings.map((recording) => recording.id), ['rec-dawna', 'rec-buena'])
+    assert.deepEqual(result.recordings[0].releases, [{
+      id: 'rel-cure',
+      title: 'Cure for Pain',
+      date: '1993-09-14',
+      'release-group': { 'primary-type': 'Album' },
+    }])
+    assert.deepEqual(fetchMock.unmatched, [])
+  } finally {
+    fetchMock.restore()
+  }
+})
@@ -0,0 +1,133 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+
+const { loadModule, invokeRoute, mockFetch, resetDatabase, closeDatabase, query } = harness
+const duplicatesRoute = loadModule('app/api/library/duplicates/route.ts')
+
+const PLAYLISTS = [
+  { id: 'mix', name: 'Mix' },
+  { id: 'road', name: 'Road Trip' },
+  { id: 'chain', name: 'Chain' },
+]
+
+function track(id, name, artist, { isrc = null, durationMs = 200000 } = {}) {
+  return {
+    id,
+    name,
+    artists: [{ id: artist, name: artist }],
+    album: { name: 'Album' },
+    duration_ms: durationMs,
+    external_ids: isrc ? { isrc } : {},
+  }
+}
+
+const original = track('original', 'Song', 'Artist A', { isrc: 'GBAAA2400001' })
+const remaster = track('remaster', 'Song - 2011 Remaster', 'Artist A', { isrc: 'gbaaa2400001', durationMs: 201000 })
+const single = track('single', 'Song (Single Version)', 'Artist A', { durationMs: 198000 })
+const longEdit = track('long-edit', 'Song (Extended)', 'Artist A', { durationMs: 320000 })
+const cachedA = track('cached-a', 'Cached', 'Artist B')
+const cachedB = track('cached-b', 'Another Name', 'Artist C')
+const repeated = track('repeated', 'On Repeat', 'Artist D')
+const alpha = track('alpha', 'Alpha', 'Artist E', { isrc: 'USBBB2400001' })
+const beta = track('beta', 'Beta', 'Artist F', { isrc: 'USBBB2400001' })
+const betaLive = track('beta-live', 'Beta (Live)', 'Artist F', { durationMs: 201500 })
+
+const TRACKS = {
+  mix: [original, repeated, remaster, single, longEdit],
+  road: [cachedA, repeated, cachedB, repeated, beta],
+  chain: [alpha, betaLive],
+}
+
+function spotifyRoutes() {
+  return [
+    { url: 'https://api.spotify.com/v1/me', respond: () => ({ id: 'listener' }) },
+    {
+      url: (url) => url.startsWith('https://api.spotify.com/v1/me/playlists'),
+      respond: () => ({ items: PLAYLISTS.map((playlist) => ({ ...playlist, snapshot_id: 'snapshot-1' })), next: null }),
+    },
+  ]
+}
+
+test.beforeEach(async () => {
+  await resetDatabase()
+  for (const playlist of PLAYLISTS) {
+    await query(
+      `INSERT INTO playlist_cache (playlist_id, snapshot_id, playlist_data, tracks_data)
+       VALUES ($1, 'snapshot-1', $2::jsonb, $3::jsonb)`,
+      [playlist.id, JSON.stringify(playlist), JSON.stringify(TRACKS[playlist.id])]
+    )
+  }
+  // The BPM cache resolved both of these to the same recording
+  for (const id of ['cached-a', 'cached-b']) {
+    await query(
+      `INSERT INTO track_bpm_cache (spotify_track_id, isrc, source) VALUES ($1, 'FRCCC2400001', 'deezer_isrc')`,
+      [id]
+    )
+  }
+})
+
+test.after(async () => {
+  await closeDatabase()
+})
+
+async function getReport() {
+  const fetchMock = mockFetch(spotifyRoutes())
+  try {
+    const response = await invokeRoute(duplicatesRoute.GET, {
+      url: '/api/library/duplicates',
+      cookies: { access_token: 'user-token' },
+    })
+    assert.equal(response.status, 200)
+    return await response.json()
+  } finally {
+    fetchMock.restore()
+  }
+}
+
+test('groups versions linked by ISRC, BPM cache identity, fuzzy title and repeats', async () => {
+  const report = await getReport()
+  assert.equal(report.playlistCount, 3)
+  assert.equal(report.cachedPlaylistCount, 3)
+
+  const groups = report.groups.map((group) => ({
+    ids: group.versions.map((version) => version.spotifyId).sort(),
+    reasons: group.reasons,
+  }))
+  assert.deepEqual(
+    groups.sort((a, b) => a.ids[0].localeCompare(b.ids[0])),
+    [
+      { ids: ['alpha', 'beta', 'beta-live'], reasons: ['isrc', 'fuzzy'] },
+      { ids: ['cached-a', 'cached-b'], reasons: ['bpm_cache'] },
+      { ids: ['original', 'remaster', 'single'], reasons: ['isrc', 'fuzzy'] },
+      { ids: ['repeated'], reasons: ['same_id'] },
+    ]
+  )
+  const repeatedGroup = report.groups.find((group) => group.versions[0].spotifyId === 'repeated')
+  assert.deepEqual(repeatedGroup.versions[0].playlists, [
+    { id: 'mix', name: 'Mix', positions: [2] },
+    { id: 'road', name: 'Road Trip', positions: [2, 4] },
+  ])
+})
+
+test('later entries of a group are redundant within each playlist', async () => {
+  const report = await getReport()
+  const redundant = Object.fromEntries(
+    report.playlists.map((summary) => [
+      summary.playlistId,
+      summary.redundantEntries.map((entry) => [entry.position, entry.spotifyId, entry.keptPosition, entry.reason]),
+    ])
+  )
+  assert.deepEqual(redundant, {
+    mix: [
+      [3, 'remaster', 1, 'isrc'],
+      [4, 'single', 1, 'fuzzy'],
+    ],
+    road: [
+      [3, 'cached-b', 1, 'bpm_cache'],
+      [4, 'repeated', 2, 'same_id'],
+    ],
+    // Only linked through "beta", so the weakest link type is reported
+    chain: [[2, 'beta-live', 1, 'fuzzy']],
+  })
+})
@@ -0,0 +1,63 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+const path = require('node:path')
+
+const { loadModule, invokeRoute, mockFetch, resetDatabase, closeDatabase } = harness
+const { ROOT } = require('./harness/register')
+const tracksRoute = loadModule('app/api/playlists/[id]/tracks/route.ts')
+
+// Sanitized recordings of a three-track playlist served in two pages (see tests/fixtures/external)
+const FIXTURES_DIR = path.join(ROOT, 'tests/fixtures/external')
+const PLAYLIST_ID = '37i9dQZF1DXcBWIGoYBM5M'
+const cookies = { access_token: 'user-token' }
+
+async function getTracks(playlistId) {
+  const response = await invokeRoute(tracksRoute.GET, {
+    url: `/api/playlists/${playlistId}/tracks`,
+    params: { id: playlistId },
+    cookies,
+  })
+  return { response, body: await response.json() }
+}
+
+test.beforeEach(async () => {
+  await resetDatabase()
+  process.env.EXTERNAL_API_MODE = 'replay'
+  process.env.EXTERNAL_API_FIXTURES_DIR = FIXTURES_DIR
+})
+
+test.afterEach(() => {
+  process.env.EXTERNAL_API_MODE = 'live'
+  delete process.env.EXTERNAL_API_FIXTURES_DIR
+})
+
+test.after(async () => {
+  await closeDatabase()
+})
+
+test('a playlist loads from committed fixtures with the network disabled', async () => {
+  // No routes: any request that reaches fetch rejects and is recorded
+  const fetchMock = mockFetch()
+  try {
+    const { response, body } = await getTracks(PLAYLIST_ID)
+    assert.equal(response.status, 200)
+    assert.deepEqual(body.map((track) => track.id), ['t1', 't2'])
+    assert.equal(response.headers.get('X-ISRC-Missing'), '1', 'the second page was replayed too')
+    assert.equal(body[0].external_ids.isrc, 'GBAAA2400001')
+    assert.equal(fetchMock.calls.length, 0)
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('a request without a fixture fails instead of going to the network', async () => {
+  const fetchMock = mockFetch()
+  try {
+    const { response } = await getTracks('0000000000000000000000')
+    assert.notEqual(response.status, 200)
+    assert.equal(fetchMock.calls.length, 0)
+  } finally {
+    fetchMock.restore()
+  }
+})
@@ -0,0 +1,97 @@
+/**
+ * Test database with setup.sql applied. Uses a real Postgres when
+ * TEST_DATABASE_URL is set (each test process gets its own schema),
+ * otherwise an in-memory pg-mem instance.
+ */
+const fs = require('node:fs')
+const path = require('node:path')
+const { ROOT } = require('./register')
+
+const SETUP_SQL = fs.readFileSync(path.join(ROOT, 'setup.sql'), 'utf8')
+
+let backend = null
+
+function createMemoryBackend() {
+  const { newDb, DataType } = require('pg-mem')
+  const db = newDb()
+  // pg-mem has no two-argument round(); match Postgres for the float and numeric columns we use it on
+  for (const type of [DataType.float, DataType.decimal]) {
+    db.public.registerFunction({
+      name: 'round',
+      args: [type, DataType.integer],
+      returns: type,
+      implementation: (value, places) => {
+        const factor = 10 ** places
+        return Math.round(value * factor) / factor
+      },
+    })
+  }
+  db.public.none(SETUP_SQL)
+  const backup = db.backup()
+  const { Pool } = db.adapters.createPg()
+  const pool = new Pool()
+  return {
+    name: 'pg-mem',
+    async query(text, params) {
+      // pg-mem rejects row-lock clauses; with a single in-memory connection they change nothing
+      const result = await pool.query(text.replace(/\s+FOR UPDATE SKIP LOCKED/gi, ''), params || [])
+      return result.rows
+    },
+    async reset() {
+      backup.restore()
+    },
+    async close() {
+      await pool.end()
+    },
+  }
+}
+
+async function createPostgresBackend(connectionString) {
+  const { Pool } = require('pg')
+  const schema = `integration_${process.pid}`
+  const pool = new Pool({ connectionString, max: 4, options: `-c search_path=${schema}` })
+  const applySchema = async () => {
+    await pool.query(`DROP SCHEMA IF EXISTS ${schema} CASCADE; CREATE SCHEMA ${schema}`)
+    await pool.query(SETUP_SQL)
+  }
+  await applySchema()
+  return {
+    name: 'postgres',
+    async query(text, params) {
+      const result = await pool.query(text, params || [])
+      return result.rows
+    },
+    reset: applySchema,
+    async close() {
+      await pool.query(`DROP SCHEMA IF EXISTS ${schema} CASCADE`)
+      await pool.end()
+    },
+  }
+}
+
+async function setupDatabase() {
+  if (!backend) {
+    const url = process.env.TEST_DATABASE_URL
+    backend = url ? await createPostgresBackend(url) : createMemoryBackend()
+  }
+  return backend.name
+}
+
+async function resetDatabase() {
+  await setupDatabase()
+  await backend.reset()
+}
+
+async function closeDatabase() {
+  if (backend) {
+    await backend.close()
+    backend = null
+  }
+}
+
+async function query(text, params) {
+  await setupDatabase()
+  return backend.query(text, params)
+}
+
+module.exports = { setupDatabase, resetDatabase, closeDatabase, query }
@@ -0,0 +1,68 @@
+/**
+ * Replaces global fetch (which externalFetch uses in live mode) with a route
+ * table so tests never touch the network. Unmatched requests reject and are
+ * collected in `unmatched`, so a test can assert nothing unexpected went out.
+ */
+
+function jsonResponse(body, init = {}) {
+  return new Response(JSON.stringify(body), {
+    status: init.status || 200,
+    headers: { 'content-type': 'application/json', ...(init.headers || {}) },
+  })
+}
+
+function matches(route, method, url) {
+  if (route.method && route.method.toUpperCase() !== method) return false
+  if (typeof route.url === 'string') return url === route.url || url.startsWith(`${route.url}?`)
+  if (route.url instanceof RegExp) return route.url.test(url)
+  return route.url(url)
+}
+
+async function readBody(body) {
+  if (body == null) return null
+  if (typeof body === 'string') return body
+  if (body instanceof URLSearchParams) return body.toString()
+  return String(body)
+}
+
+/**
+ * @param routes [{ method?, url: string | RegExp | (url) => boolean, respond: (call) => Response | object }]
+ *   A plain object from respond() is sent as a 200 JSON body.
+ */
+function mockFetch(routes = []) {
+  const originalFetch = globalThis.fetch
+  const calls = []
+  const unmatched = []
+
+  globalThis.fetch = async (input, init = {}) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url
+    const method = (init.method || (typeof input === 'object' && input.method) || 'GET').toUpperCase()
+    const call = {
+      method,
+      url,
+      headers: new Headers(init.headers || {}),
+      body: await readBody(init.body),
+    }
+    calls.push(call)
+    const route = routes.find((candidate) => matches(candidate, method, url))
+    if (!route) {
+      unmatched.push(call)
+      throw new Error(`Unexpected external request in test: ${method} ${url}`)
+    }
+    const result = await route.respond(call)
+    return result instanceof Response ? result : jsonResponse(result)
+  }
+
+  return {
+    calls,
+    unmatched,
+    callsTo(pattern) {
+      return calls.filter((call) => (pattern instanceof RegExp ? pattern.test(call.url) : call.url.startsWith(pattern)))
+    },
+    restore() {
+      globalThis.fetch = originalFetch
+    },
+  }
+}
+
+module.exports = { mockFetch, jsonResponse }
@@ -0,0 +1,80 @@
+/**
+ * Integration test harness: require this first in every integration test file.
+ *
+ *   const { loadModule, invokeRoute, mockFetch, resetDatabase } = require('./harness')
+ *   const { GET } = loadModule('app/api/bpm/route.ts')
+ *   const response = await invokeRoute(GET, { url: '/api/bpm?spotifyTrackId=...' })
+ */
+const path = require('node:path')
+const { ROOT } = require('./register')
+const { setupDatabase, resetDatabase, closeDatabase, query } = require('./database')
+const { mockFetch, jsonResponse } = require('./fetch')
+const { setRequestCookies, getCookieJar } = require('./nextHeaders')
+
+const BASE_URL = 'http://localhost:3000'
+
+function loadModule(relativePath) {
+  return require(path.join(ROOT, relativePath))
+}
+
+/**
+ * Call an App Router handler the way Next does: a Request plus `{ params }`.
+ * Cookies are what next/headers cookies() returns for this request.
+ */
+async function invokeRoute(handler, options = {}) {
+  const { method = 'GET', url, body, params = {}, cookies = {}, headers = {} } = options
+  setRequestCookies(cookies)
+  const init = { method, headers: { ...headers } }
+  if (body !== undefined) {
+    init.body = typeof body === 'string' ? body : JSON.stringify(body)
+    init.headers['content-type'] = init.headers['content-type'] || 'application/json'
+  }
+  return handler(new Request(new URL(url, BASE_URL), init), { params })
+}
+
+/**
+ * Mono 16-bit PCM WAV with a decaying click on every beat, for running the
+ * local BPM analyzer end to end without real audio
+ */
+function createClickTrackWav({ bpm = 120, seconds = 12, sampleRate = 22050 } = {}) {
+  const sampleCount = Math.floor(seconds * sampleRate)
+  const buffer = Buffer.alloc(44 + sampleCount * 2)
+  buffer.write('RIFF', 0, 'ascii')
+  buffer.writeUInt32LE(36 + sampleCount * 2, 4)
+  buffer.write('WAVE', 8, 'ascii')
+  buffer.write('fmt ', 12, 'ascii')
+  buffer.writeUInt32LE(16, 16)
+  buffer.writeUInt16LE(1, 20) // PCM
+  buffer.writeUInt16LE(1, 22) // mono
+  buffer.writeUInt32LE(sampleRate, 24)
+  buffer.writeUInt32LE(sampleRate * 2, 28)
+  buffer.writeUInt16LE(2, 32)
+  buffer.writeUInt16LE(16, 34)
+  buffer.write('data', 36, 'ascii')
+  buffer.writeUInt32LE(sampleCount * 2, 40)
+
+  const samplesPerBeat = (60 / bpm) * sampleRate
+  for (let i = 0; i < sampleCount; i += 1) {
+    const sinceBeat = i % samplesPerBeat
+    const envelope = Math.exp(-sinceBeat / (0.01 * sampleRate))
+    const value = envelope * Math.sin((2 * Math.PI * 1000 * i) / sampleRate) * 0.8
+    buffer.writeInt16LE(Math.round(value * 32767), 44 + i * 2)
+  }
+  return buffer
+}
+
+module.exports = {
+  ROOT,
+  BASE_URL,
+  loadModule,
+  invokeRoute,
+  mockFetch,
+  jsonResponse,
+  setRequestCookies,
+  getCookieJar,
+  setupDatabase,
+  resetDatabase,
+  closeDatabase,
+  query,
+  createClickTrackWav,
+}
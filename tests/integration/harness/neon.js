@@ -0,0 +1,11 @@
+/**
+ * Stand-in for `@neondatabase/serverless`: lib/db's sql(text, params) calls
+ * are routed to the test database instead of Neon's HTTP endpoint.
+ */
+const database = require('./database')
+
+function neon() {
+  return (text, params) => database.query(text, params)
+}
+
+module.exports = { neon }
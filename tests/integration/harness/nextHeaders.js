@@ -0,0 +1,51 @@
+/**
+ * Stand-in for `next/headers`. Route handlers read request cookies through
+ * cookies(); tests seed them with setRequestCookies() and can inspect what
+ * server code wrote back (e.g. a refreshed access token) via getCookieJar().
+ */
+const jar = new Map()
+
+function setRequestCookies(values = {}) {
+  jar.clear()
+  for (const [name, value] of Object.entries(values)) {
+    if (value != null) jar.set(name, String(value))
+  }
+}
+
+function getCookieJar() {
+  return Object.fromEntries(jar)
+}
+
+const store = {
+  get(name) {
+    return jar.has(name) ? { name, value: jar.get(name) } : undefined
+  },
+  getAll() {
+    return Array.from(jar, ([name, value]) => ({ name, value }))
+  },
+  has(name) {
+    return jar.has(name)
+  },
+  set(nameOrOptions, value) {
+    if (typeof nameOrOptions === 'object') {
+      jar.set(nameOrOptions.name, String(nameOrOptions.value))
+    } else {
+      jar.set(nameOrOptions, String(value))
+    }
+    return store
+  },
+  delete(name) {
+    jar.delete(typeof name === 'object' ? name.name : name)
+    return store
+  },
+}
+
+function cookies() {
+  return store
+}
+
+function headers() {
+  return new Headers()
+}
+
+module.exports = { cookies, headers, setRequestCookies, getCookieJar }
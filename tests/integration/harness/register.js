@@ -0,0 +1,65 @@
+/**
+ * Loads the app's TypeScript modules under plain `node --test`:
+ * - transpiles .ts/.tsx on require (no type-checking; `pnpm typecheck` covers that)
+ * - resolves the `@/` path alias
+ * - swaps `next/headers` and the Neon driver for test doubles (see nextHeaders.js, neon.js)
+ */
+const Module = require('node:module')
+const fs = require('node:fs')
+const path = require('node:path')
+const ts = require('typescript')
+
+const ROOT = path.resolve(__dirname, '../../..')
+
+const MODULE_OVERRIDES = {
+  'next/headers': path.join(__dirname, 'nextHeaders.js'),
+  '@neondatabase/serverless': path.join(__dirname, 'neon.js'),
+}
+
+// Defaults for code that reads configuration at import time; tests override per case
+const TEST_ENV = {
+  NODE_ENV: 'test',
+  LOG_LEVEL: 'silent',
+  DB_LOG_LEVEL: 'silent',
+  DATABASE_URL: 'postgres://test/integration',
+  EXTERNAL_API_MODE: 'live',
+  BPM_ANALYZER: 'local',
+  SPOTIFY_CLIENT_ID: 'test-client-id',
+  SPOTIFY_CLIENT_SECRET: 'test-client-secret',
+  SPOTIFY_REDIRECT_URI: 'http://localhost:3000/api/auth/callback',
+}
+for (const [key, value] of Object.entries(TEST_ENV)) {
+  process.env[key] = value
+}
+delete process.env.SENTRY_DSN
+delete process.env.NEXT_PUBLIC_SENTRY_DSN
+delete process.env.MUSO_API_KEY
+
+const originalResolveFilename = Module._resolveFilename
+Module._resolveFilename = function resolveFilename(request, parent, ...rest) {
+  if (MODULE_OVERRIDES[request]) {
+    return MODULE_OVERRIDES[request]
+  }
+  const target = request.startsWith('@/') ? path.join(ROOT, request.slice(2)) : request
+  return originalResolveFilename.call(this, target, parent, ...rest)
+}
+
+function compileTypeScript(module, filename) {
+  const source = fs.readFileSync(filename, 'utf8')
+  const { outputText } = ts.transpileModule(source, {
+    fileName: filename,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      jsx: ts.JsxEmit.ReactJSX,
+      esModuleInterop: true,
+      sourceMap: false,
+    },
+  })
+  module._compile(outputText, filename)
+}
+
+require.extensions['.ts'] = compileTypeScript
+require.extensions['.tsx'] = compileTypeScript
+
+module.exports = { ROOT }
@@ -0,0 +1,191 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+
+const { loadModule, invokeRoute, mockFetch, resetDatabase, closeDatabase, query } = harness
+const bpmRoute = loadModule('app/api/bpm/route.ts')
+const reviewRoute = loadModule('app/api/admin/isrc-mismatches/route.ts')
+
+const TRACK_ID = '0VjIjW4GlUZAMYd2vXMi3b'
+const SPOTIFY_ISRC = 'USUG11904206'
+const OTHER_ISRC = 'USUG11904999'
+const ITUNES_PREVIEW = 'https://audio-ssl.itunes.apple.com/itunes-assets/AudioPreview/aa/bb/cc/preview.m4a'
+
+const ADMIN_COOKIES = { access_token: 'admin-token' }
+const LISTENER_COOKIES = { access_token: 'listener-token' }
+
+function sessionRoutes() {
+  return [
+    {
+      url: 'https://api.spotify.com/v1/me',
+      respond: ({ headers }) => ({ id: headers.get('authorization') === 'Bearer admin-token' ? 'admin-user' : 'listener' }),
+    },
+    {
+      url: `https://api.spotify.com/v1/tracks/${TRACK_ID}`,
+      respond: () => ({
+        id: TRACK_ID,
+        name: 'Blinding Lights',
+        artists: [{ name: 'The Weeknd' }],
+        external_ids: { isrc: SPOTIFY_ISRC },
+      }),
+    },
+  ]
+}
+
+// Every provider finds audio, but only for a different recording (e.g. a live version)
+function mismatchedProviderRoutes() {
+  return [
+    { url: `https://api.deezer.com/track/isrc:${SPOTIFY_ISRC}`, respond: () => ({ error: { code: 800 } }) },
+    {
+      url: /^https:\/\/itunes\.apple\.com\/search/,
+      respond: () => ({
+        resultCount: 1,
+        results: [
+          {
+            kind: 'song',
+            trackName: 'Blinding Lights (Live)',
+            artistName: 'The Weeknd',
+            isrc: OTHER_ISRC,
+            previewUrl: ITUNES_PREVIEW,
+          },
+        ],
+      }),
+    },
+    { url: /^https:\/\/api\.deezer\.com\/search/, respond: () => ({ data: [] }) },
+  ]
+}
+
+async function recordMismatch() {
+  const response = await invokeRoute(bpmRoute.GET, { url: `/api/bpm?spotifyTrackId=${TRACK_ID}`, cookies: LISTENER_COOKIES })
+  return response.json()
+}
+
+test.beforeEach(async () => {
+  await resetDatabase()
+  await query(`INSERT INTO admin_users (spotify_user_id, active) VALUES ('admin-user', true)`)
+})
+
+test.after(async () => {
+  await closeDatabase()
+})
+
+test('a preview for a different ISRC is cached as a mismatch instead of analysed', async () => {
+  const fetchMock = mockFetch([...sessionRoutes(), ...mismatchedProviderRoutes()])
+  try {
+    const body = await recordMismatch()
+    assert.equal(body.bpm, null)
+    assert.match(body.error, /ISRC mismatch/)
+    assert.equal(fetchMock.callsTo(ITUNES_PREVIEW).length, 0, 'mismatched audio is never downloaded')
+
+    const [row] = await query('SELECT isrc_mismatch, urls FROM track_bpm_cache WHERE spotify_track_id = $1', [TRACK_ID])
+    assert.equal(row.isrc_mismatch, true)
+    assert.equal(row.urls[0].isrc, OTHER_ISRC)
+    assert.equal(row.urls[0].provider, 'itunes_search')
+
+    const [stats] = await query('SELECT mismatches FROM preview_provider_stats WHERE provider = $1', ['itunes_search'])
+    assert.equal(Number(stats.mismatches), 1)
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('the review queue is admin only', async () => {
+  const fetchMock = mockFetch(sessionRoutes())
+  try {
+    const anonymous = await invokeRoute(reviewRoute.GET, { url: '/api/admin/isrc-mismatches' })
+    assert.equal(anonymous.status, 403)
+
+    const listener = await invokeRoute(reviewRoute.GET, { url: '/api/admin/isrc-mismatches', cookies: LISTENER_COOKIES })
+    assert.equal(listener.status, 403)
+
+    const patch = await invokeRoute(reviewRoute.PATCH, {
+      method: 'PATCH',
+      url: '/api/admin/isrc-mismatches',
+      cookies: LISTENER_COOKIES,
+      body: { spotifyTrackId: TRACK_ID, action: 'confirm_match' },
+    })
+    assert.equal(patch.status, 403)
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('admins see recorded mismatches with their preview URL', async () => {
+  const fetchMock = mockFetch([...sessionRoutes(), ...mismatchedProviderRoutes()])
+  try {
+    await recordMismatch()
+    const response = await invokeRoute(reviewRoute.GET, { url: '/api/admin/isrc-mismatches', cookies: ADMIN_COOKIES })
+    assert.equal(response.status, 200)
+    const { items } = await response.json()
+    assert.equal(items.length, 1)
+    assert.equal(items[0].spotify_track_id, TRACK_ID)
+    assert.equal(items[0].preview_url, ITUNES_PREVIEW)
+    assert.equal(items[0].isrc_mismatch_review_status, null)
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('confirming a match clears the mismatch and records the reviewer', async () => {
+  const fetchMock = mockFetch([...sessionRoutes(), ...mismatchedProviderRoutes()])
+  try {
+    await recordMismatch()
+    const response = await invokeRoute(reviewRoute.PATCH, {
+      method: 'PATCH',
+      url: '/api/admin/isrc-mismatches',
+      cookies: ADMIN_COOKIES,
+      body: { spotifyTrackId: TRACK_ID, action: 'confirm_match' },
+    })
+    assert.equal(response.status, 200)
+
+    const [row] = await query(
+      `SELECT isrc_mismatch, isrc_mismatch_review_status, isrc_mismatch_reviewed_by, isrc_mismatch_reviewed_at
+         FROM track_bpm_cache WHERE spotify_track_id = $1`,
+      [TRACK_ID]
+    )
+    assert.equal(row.isrc_mismatch, false)
+    assert.equal(row.isrc_mismatch_review_status, 'match')
+    assert.equal(row.isrc_mismatch_reviewed_by, 'admin-user')
+    assert.ok(row.isrc_mismatch_reviewed_at)
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('confirming a mismatch keeps the track flagged but marks it reviewed', async () => {
+  const fetchMock = mockFetch([...sessionRoutes(), ...mismatchedProviderRoutes()])
+  try {
+    await recordMismatch()
+    await invokeRoute(reviewRoute.PATCH, {
+      method: 'PATCH',
+      url: '/api/admin/isrc-mismatches',
+      cookies: ADMIN_COOKIES,
+      body: { spotifyTrackId: TRACK_ID, action: 'confirm_mismatch' },
+    })
+    const [row] = await query(
+      'SELECT isrc_mismatch, isrc_mismatch_review_status FROM track_bpm_cache WHERE spotify_track_id = $1',
+      [TRACK_ID]
+    )
+    assert.equal(row.isrc_mismatch, true)
+    assert.equal(row.isrc_mismatch_review_status, 'mismatch')
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('rejects missing track IDs, unknown actions and Muso resolution without a key', async () => {
+  const fetchMock = mockFetch(sessionRoutes())
+  try {
+    const patch = (body) =>
+      invokeRoute(reviewRoute.PATCH, { method: 'PATCH', url: '/api/admin/isrc-mismatches', cookies: ADMIN_COOKIES, body })
+
+    assert.equal((await patch({ action: 'confirm_match' })).status, 400)
+    assert.equal((await patch({ spotifyTrackId: TRACK_ID, action: 'delete' })).status, 400)
+
+    const muso = await patch({ spotifyTrackId: TRACK_ID, action: 'resolve_with_muso' })
+    assert.equal(muso.status, 400)
+    assert.deepEqual(await muso.json(), { error: 'Muso API key is not configured' })
+  } finally {
+    fetchMock.restore()
+  }
+})
@@ -0,0 +1,294 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+
+const { loadModule, mockFetch, jsonResponse, setRequestCookies } = harness
+const errors = loadModule('lib/errors.ts')
+const { buildCreditQuery } = loadModule('lib/musicbrainz/client.ts')
+const { selectBestBpm, selectBestKey } = loadModule('lib/bpm.ts')
+const { getPlaylists } = loadModule('lib/spotify.ts')
+const camelot = loadModule('lib/camelot.ts')
+const sequencer = loadModule('lib/sequencer.ts')
+const { getPreviewUrlsExpiry } = loadModule('lib/previewProviders.ts')
+
+test.afterEach(() => {
+  setRequestCookies({})
+})
+
+test('createErrorFromResponse maps auth failures to AuthenticationError', () => {
+  for (const status of [401, 403]) {
+    const error = errors.createErrorFromResponse(new Response(null, { status, statusText: 'Nope' }))
+    assert.ok(error instanceof errors.AuthenticationError)
+    assert.equal(error.statusCode, status)
+    assert.equal(error.message, 'Authentication failed: Nope')
+  }
+})
+
+test('createErrorFromResponse carries Retry-After on rate limits', () => {
+  const withHeader = errors.createErrorFromResponse(
+    new Response(null, { status: 429, headers: { 'Retry-After': '7' } })
+  )
+  assert.ok(withHeader instanceof errors.RateLimitError)
+  assert.equal(withHeader.retryAfter, 7)
+  assert.equal(withHeader.statusCode, 429)
+
+  const withoutHeader = errors.createErrorFromResponse(new Response(null, { status: 429 }))
+  assert.equal(withoutHeader.retryAfter, null)
+})
+
+test('createErrorFromResponse maps 5xx to NetworkError and other statuses to SpotifyAPIError', () => {
+  const serverError = errors.createErrorFromResponse(new Response(null, { status: 503, statusText: 'Unavailable' }))
+  assert.ok(serverError instanceof errors.NetworkError)
+  assert.equal(serverError.statusCode, 503)
+
+  const notFound = errors.createErrorFromResponse(new Response(null, { status: 404, statusText: 'Not Found' }), '/tracks/x')
+  assert.ok(notFound instanceof errors.SpotifyAPIError)
+  assert.equal(notFound.statusCode, 404)
+  assert.equal(notFound.endpoint, '/tracks/x')
+})
+
+test('buildCreditQuery maps roles to MusicBrainz search fields', () => {
+  assert.equal(buildCreditQuery('Max Martin', 'songwriter'), 'writer:"Max Martin"')
+  assert.equal(buildCreditQuery('Serban Ghenea', 'mixer'), 'mixer:"Serban Ghenea"')
+  assert.equal(buildCreditQuery('Tom Elmhirst', 'engineer'), 'engineer:"Tom Elmhirst"')
+  assert.equal(buildCreditQuery('Robyn', 'artist'), 'artist:"Robyn"')
+  assert.equal(buildCreditQuery('Someone', 'unknown-role'), 'artist:"Someone"')
+})
+
+test('selectBestBpm prefers the more confident estimator and falls back when one is missing', () => {
+  assert.equal(selectBestBpm(120, 0.5, 121, 0.9), 'librosa')
+  assert.equal(selectBestBpm(120, 0.9, 121, 0.5), 'essentia')
+  assert.equal(selectBestBpm(120, 0.7, 121, 0.7), 'essentia', 'ties keep Essentia')
+  assert.equal(selectBestBpm(120, 0.2, null, null), 'essentia')
+  assert.equal(selectBestBpm(null, null, 121, 0.1), 'librosa')
+  assert.equal(selectBestBpm(120, null, 121, 0.1), 'librosa', 'missing confidence counts as zero')
+})
+
+test('selectBestKey follows the same confidence rule', () => {
+  assert.equal(selectBestKey('C', 0.3, 'A', 0.8), 'librosa')
+  assert.equal(selectBestKey('C', 0.8, 'A', 0.3), 'essentia')
+  assert.equal(selectBestKey(null, null, 'A', 0.3), 'librosa')
+  assert.equal(selectBestKey('C', 0.1, null, 0.9), 'essentia')
+})
+
+test('toCamelot places keys on the wheel and formatKey renders Camelot and Open Key', () => {
+  const cases = [
+    ['C', 'major', '8B', '1d'],
+    ['A', 'minor', '8A', '1m'],
+    ['B', 'major', '1B', '6d'],
+    ['G#', 'minor', '1A', '6m'],
+    ['Ab', 'minor', '1A', '6m'],
+    ['C#', 'minor', '12A', '5m'],
+    ['D♭', 'major', '3B', '8d'],
+    ['Am', null, '8A', '1m'],
+    ['Gm', 'minor', '6A', '11m'],
+    ['F#m', 'minor', '11A', '4m'],
+    ['Bbmin', null, '3A', '8m'],
+    ['Ebmaj', null, '5B', '10d'],
+    ['Cmaj', 'major', '8B', '1d'],
+  ]
+  for (const [key, scale, camelotKey, openKey] of cases) {
+    assert.equal(camelot.formatKey(key, scale, 'camelot'), camelotKey, `${key} ${scale}`)
+    assert.equal(camelot.formatKey(key, scale, 'openkey'), openKey, `${key} ${scale}`)
+  }
+  assert.equal(camelot.formatKey('C', 'major', 'classic'), 'C major')
+  assert.equal(camelot.toCamelot('H', 'major'), null)
+  assert.equal(camelot.formatKey(null, 'minor', 'camelot'), null)
+})
+
+test('isHarmonicallyCompatible allows the same number, relative keys and one step around the wheel', () => {
+  const key = (value) => ({ number: Number.parseInt(value, 10), letter: value.slice(-1) })
+  assert.ok(camelot.isHarmonicallyCompatible(key('8A'), key('8B')))
+  assert.ok(camelot.isHarmonicallyCompatible(key('8A'), key('9A')))
+  assert.ok(camelot.isHarmonicallyCompatible(key('12A'), key('1A')))
+  assert.ok(!camelot.isHarmonicallyCompatible(key('8A'), key('9B')))
+  assert.ok(!camelot.isHarmonicallyCompatible(key('8A'), key('10A')))
+  assert.deepEqual(
+    ['2A', '1B', null, '1A'].map((value) => camelot.getCamelotSortValue(value && key(value))),
+    [4, 3, -1, 2]
+  )
+})
+
+test('getCurveValue shapes each tempo curve and clamps positions', () => {
+  assert.equal(sequencer.getCurveValue('build', 0.3), 0.3)
+  assert.equal(sequencer.getCurveValue('winddown', 0.3), 0.7)
+  assert.equal(sequencer.getCurveValue('arc', 0), 0)
+  assert.equal(sequencer.getCurveValue('arc', 0.65), 1)
+  assert.ok(Math.abs(sequencer.getCurveValue('arc', 1) - 0.25) < 1e-9)
+  assert.ok(Math.abs(sequencer.getCurveValue('waves', 0.25) - 1) < 1e-9)
+  assert.equal(sequencer.getCurveValue('build', 1.5), 1)
+})
+
+test('sequenceTracks follows the curve with the pool tempos and appends tracks without a BPM', () => {
+  const items = [
+    { id: 'a', bpm: 130, camelot: null },
+    { id: 'b', bpm: 100, camelot: null },
+    { id: 'none', bpm: null, camelot: null },
+    { id: 'c', bpm: 120, camelot: null },
+    { id: 'd', bpm: 110, camelot: null },
+  ]
+  const built = sequencer.sequenceTracks(items, 'build')
+  assert.deepEqual(built.order, ['b', 'd', 'c', 'a', 'none'])
+  assert.deepEqual(built.targets, { b: 100, d: 110, c: 120, a: 130 })
+  assert.equal(built.minBpm, 100)
+  assert.equal(built.maxBpm, 130)
+  assert.deepEqual(sequencer.sequenceTracks(items, 'winddown').order, ['a', 'c', 'd', 'b', 'none'])
+
+  const unknown = items.map((item) => ({ ...item, bpm: null }))
+  assert.deepEqual(sequencer.sequenceTracks(unknown, 'arc'), {
+    order: ['a', 'b', 'none', 'c', 'd'],
+    targets: {},
+    minBpm: null,
+    maxBpm: null,
+  })
+})
+
+test('sequenceTracks trades a little tempo error to avoid a key clash', () => {
+  const result = sequencer.sequenceTracks(
+    [
+      { id: 'opener', bpm: 100, camelot: { number: 8, letter: 'A' } },
+      { id: 'clash', bpm: 110, camelot: { number: 3, letter: 'B' } },
+      { id: 'neighbour', bpm: 111, camelot: { number: 9, letter: 'A' } },
+    ],
+    'build'
+  )
+  assert.deepEqual(result.order, ['opener', 'neighbour', 'clash'])
+  assert.deepEqual(result.targets, { opener: 100, neighbour: 110, clash: 111 })
+})
+
+test('getPreviewUrlsExpiry reads the Akamai token expiry of the successful preview URL', () => {
+  const deezer = 'https://cdnt-preview.dzcdn.net/api/1/1/a/b/c/0/abc.mp3?hdnea=exp=1712345678~acl=/api/1/1/a/b/c/0/abc.mp3*~data=user_id=0,application_id=42~hmac=f00d'
+  const expiry = (urls) => getPreviewUrlsExpiry(urls)?.toISOString() ?? null
+  assert.equal(expiry([{ url: deezer, successful: true, provider: 'deezer_isrc' }]), '2024-04-05T19:34:38.000Z')
+  assert.equal(
+    expiry([{ url: 'https://audio-ssl.itunes.apple.com/preview.m4a?__token__=st=1712340000~exp=1712345678~hmac=ab', successful: true }]),
+    '2024-04-05T19:34:38.000Z',
+    'older rows without a provider are matched by host'
+  )
+  assert.equal(
+    expiry([
+      { url: deezer, successful: false, provider: 'deezer_isrc' },
+      { url: 'https://cdnt-preview.dzcdn.net/api/1/1/other.mp3?hdnts=exp=1800000000~hmac=ab', successful: true },
+    ]),
+    '2027-01-15T08:00:00.000Z'
+  )
+  assert.equal(expiry([{ url: 'https://cdnt-preview.dzcdn.net/api/1/1/plain.mp3', successful: true }]), null)
+  assert.equal(expiry([{ url: 'https://p.scdn.co/mp3-preview/abc?hdnea=exp=1712345678', successful: true }]), null)
+  assert.equal(expiry([{ url: deezer, successful: false }]), null)
+  assert.equal(expiry(null), null)
+})
+
+test('paginateSpotify follows next links across pages', async () => {
+  setRequestCookies({ access_token: 'token' })
+  const pages = {
+    'https://api.spotify.com/v1/me/playlists?limit=50': {
+      items: [{ id: 'p1' }, { id: 'p2' }],
+      next: 'https://api.spotify.com/v1/me/playlists?offset=2&limit=50',
+    },
+    'https://api.spotify.com/v1/me/playlists?offset=2&limit=50': {
+      items: [{ id: 'p3' }],
+      next: 'https://api.spotify.com/v1/me/playlists?offset=3&limit=50',
+    },
+    'https://api.spotify.com/v1/me/playlists?offset=3&limit=50': {
+      items: [{ id: 'p4' }],
+      next: null,
+    },
+  }
+  const fetchMock = mockFetch([{ url: (url) => url in pages, respond: ({ url }) => pages[url] }])
+  try {
+    const playlists = await getPlaylists({ includeFollowers: false })
+    assert.deepEqual(playlists.map((playlist) => playlist.id), ['p1', 'p2', 'p3', 'p4'])
+    assert.equal(fetchMock.calls.length, 3)
+    assert.equal(fetchMock.calls[0].headers.get('authorization'), 'Bearer token')
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('paginateSpotify returns collected items when a later page fails', async () => {
+  setRequestCookies({ access_token: 'token' })
+  const fetchMock = mockFetch([
+    {
+      url: 'https://api.spotify.com/v1/me/playlists?limit=50',
+      respond: () => ({ items: [{ id: 'p1' }], next: 'https://api.spotify.com/v1/me/playlists?offset=1&limit=50' }),
+    },
+    {
+      url: 'https://api.spotify.com/v1/me/playlists?offset=1&limit=50',
+      respond: () => jsonResponse({ error: { status: 404, message: 'Not found' } }, { status: 404 }),
+    },
+  ])
+  try {
+    const playlists = await getPlaylists({ includeFollowers: false })
+    assert.deepEqual(playlists.map((playlist) => playlist.id), ['p1'])
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('paginateSpotify rethrows when the first page fails', async () => {
+  setRequestCookies({ access_token: 'token' })
+  const fetchMock = mockFetch([
+    {
+      url: 'https://api.spotify.com/v1/me/playlists?limit=50',
+      respond: () => jsonResponse({ error: { status: 404, message: 'Not found' } }, { status: 404 }),
+    },
+  ])
+  try {
+    await assert.rejects(getPlaylists({ includeFollowers: false }))
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('readResumableStream keeps following planned server closes while the cursor advances', async () => {
+  const { readResumableStream } = loadModule('lib/resumableStream.ts')
+  const ndjson = (lines) =>
+    new Response(lines.map((line) => JSON.stringify(line)).join('\n') + '\n', {
+      headers: { 'X-Stream-Resumable': '1' },
+    })
+  const connections = [
+    [{ type: 'result', cursor: 1 }],
+    [{ type: 'result', cursor: 2 }],
+    [{ type: 'result', cursor: 3 }, { type: 'complete', cursor: 4 }],
+  ]
+  const fetchMock = mockFetch([
+    { url: /\/api\/stream\/batch(\?|$)/, respond: () => ndjson(connections.shift()) },
+  ])
+  const received = []
+  globalThis.location = { origin: 'http://localhost:3000' }
+  try {
+    await readResumableStream({
+      url: '/api/stream/batch?format=ndjson',
+      signal: new AbortController().signal,
+      onLine: (line) => received.push(line.cursor),
+      maxReconnects: 1,
+    })
+    assert.deepEqual(received, [1, 2, 3, 4])
+    assert.deepEqual(
+      fetchMock.calls.map((call) => call.url),
+      [
+        '/api/stream/batch?format=ndjson',
+        'http://localhost:3000/api/stream/batch?format=ndjson&cursor=1',
+        'http://localhost:3000/api/stream/batch?format=ndjson&cursor=2',
+      ]
+    )
+  } finally {
+    fetchMock.restore()
+    delete globalThis.location
+  }
+
+  const stalled = mockFetch([{ url: '/api/stream/batch', respond: () => ndjson([]) }])
+  try {
+    await assert.rejects(
+      readResumableStream({
+        url: '/api/stream/batch',
+        signal: new AbortController().signal,
+        onLine: () => {},
+        maxReconnects: 0,
+      }),
+      /Stream ended before the batch completed/
+    )
+  } finally {
+    stalled.restore()
+  }
+})
@@ -0,0 +1,198 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+
+const { loadModule, invokeRoute, mockFetch, resetDatabase, closeDatabase, query } = harness
+const tracksRoute = loadModule('app/api/playlists/[id]/tracks/route.ts')
+const playlistsRoute = loadModule('app/api/playlists/route.ts')
+
+const PLAYLIST_ID = '37i9dQZF1DXcBWIGoYBM5M'
+const cookies = { access_token: 'user-token' }
+
+function spotifyTrack(id, isrc) {
+  return {
+    id,
+    name: `Track ${id}`,
+    artists: [{ id: 'artist', name: 'Artist' }],
+    album: { id: 'album', name: 'Album', release_date: '2024-01-01', images: [] },
+    duration_ms: 180000,
+    external_ids: isrc ? { isrc } : {},
+  }
+}
+
+/**
+ * Spotify playlist whose snapshot and contents the test can change between requests;
+ * the tracks endpoint serves two pages to exercise pagination while caching.
+ */
+function createSpotifyPlaylist() {
+  const state = {
+    snapshotId: 'snapshot-1',
+    items: [
+      { added_at: '2024-01-01T00:00:00Z', added_by: { id: 'owner' }, track: spotifyTrack('t1', 'GBAAA2400001') },
+      { added_at: '2024-01-02T00:00:00Z', added_by: { id: 'owner' }, track: spotifyTrack('t2', 'GBAAA2400002') },
+      { added_at: '2024-01-03T00:00:00Z', added_by: { id: 'owner' }, track: spotifyTrack('t3', null) },
+    ],
+  }
+  const base = `https://api.spotify.com/v1/playlists/${PLAYLIST_ID}`
+  const routes = [
+    { url: 'https://api.spotify.com/v1/me', respond: () => ({ id: 'listener' }) },
+    {
+      url: 'https://api.spotify.com/v1/me/playlists?limit=50',
+      respond: () => ({ items: [{ id: PLAYLIST_ID, name: 'Mix', snapshot_id: state.snapshotId }], next: null }),
+    },
+    { url: `${base}?fields=snapshot_id`, respond: () => ({ snapshot_id: state.snapshotId }) },
+    { url: base, respond: () => ({ id: PLAYLIST_ID, name: 'Mix', snapshot_id: state.snapshotId }) },
+    {
+      url: (url) => url.startsWith(`${base}/tracks?`) && !url.includes('offset='),
+      respond: () => ({ items: state.items.slice(0, 2), next: `${base}/tracks?offset=2&limit=50` }),
+    },
+    { url: `${base}/tracks?offset=2&limit=50`, respond: () => ({ items: state.items.slice(2), next: null }) },
+  ]
+  return { state, routes }
+}
+
+async function getTracks(search = '') {
+  const response = await invokeRoute(tracksRoute.GET, {
+    url: `/api/playlists/${PLAYLIST_ID}/tracks${search}`,
+    params: { id: PLAYLIST_ID },
+    cookies,
+  })
+  return { response, body: await response.json() }
+}
+
+const trackPageCalls = (fetchMock) => fetchMock.callsTo(`https://api.spotify.com/v1/playlists/${PLAYLIST_ID}/tracks`).length
+
+test.beforeEach(async () => {
+  await resetDatabase()
+})
+
+test.after(async () => {
+  await closeDatabase()
+})
+
+test('first load fetches every page from Spotify and caches the playlist', async () => {
+  const playlist = createSpotifyPlaylist()
+  const fetchMock = mockFetch(playlist.routes)
+  try {
+    const { response, body } = await getTracks()
+    assert.equal(response.status, 200)
+    assert.equal(response.headers.get('X-Cached'), 'false')
+    assert.equal(response.headers.get('X-ISRC-Missing'), '1')
+    assert.deepEqual(body.map((track) => track.id), ['t1', 't2'], 'tracks without an ISRC are hidden by default')
+    assert.equal(body[0].added_by, 'owner')
+    assert.equal(trackPageCalls(fetchMock), 2)
+
+    const [row] = await query('SELECT snapshot_id, tracks_data FROM playlist_cache WHERE playlist_id = $1', [PLAYLIST_ID])
+    assert.equal(row.snapshot_id, 'snapshot-1')
+    assert.equal(row.tracks_data.length, 3)
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('a fresh cache entry is served without calling Spotify', async () => {
+  const playlist = createSpotifyPlaylist()
+  const fetchMock = mockFetch(playlist.routes)
+  try {
+    await getTracks()
+    const callsAfterFirstLoad = fetchMock.calls.length
+
+    const { response, body } = await getTracks('?includeMissingIsrc=true')
+    assert.equal(response.headers.get('X-Cached'), 'true')
+    assert.equal(response.headers.get('X-Snapshot-Id'), 'snapshot-1')
+    assert.deepEqual(body.map((track) => track.id), ['t1', 't2', 't3'])
+    assert.equal(fetchMock.calls.length, callsAfterFirstLoad)
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('a stale entry with an unchanged snapshot only re-checks the snapshot', async () => {
+  const playlist = createSpotifyPlaylist()
+  const fetchMock = mockFetch(playlist.routes)
+  try {
+    await getTracks()
+    await query('UPDATE playlist_cache SET updated_at = $1 WHERE playlist_id = $2', [
+      new Date(Date.now() - 60 * 60 * 1000),
+      PLAYLIST_ID,
+    ])
+    const pagesBefore = trackPageCalls(fetchMock)
+
+    const { response, body } = await getTracks()
+    assert.equal(response.headers.get('X-Cached'), 'false')
+    assert.deepEqual(body.map((track) => track.id), ['t1', 't2'])
+    assert.equal(trackPageCalls(fetchMock), pagesBefore, 'tracks are not refetched')
+    assert.equal(fetchMock.callsTo(`https://api.spotify.com/v1/playlists/${PLAYLIST_ID}?fields=snapshot_id`).length, 1)
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('a changed snapshot refetches the tracks and updates the cache', async () => {
+  const playlist = createSpotifyPlaylist()
+  const fetchMock = mockFetch(playlist.routes)
+  try {
+    await getTracks()
+    await query('UPDATE playlist_cache SET updated_at = $1 WHERE playlist_id = $2', [
+      new Date(Date.now() - 60 * 60 * 1000),
+      PLAYLIST_ID,
+    ])
+    playlist.state.snapshotId = 'snapshot-2'
+    playlist.state.items = playlist.state.items.slice(1)
+
+    const { body } = await getTracks()
+    assert.deepEqual(body.map((track) => track.id), ['t2'])
+
+    const [row] = await query('SELECT snapshot_id, tracks_data FROM playlist_cache WHERE playlist_id = $1', [PLAYLIST_ID])
+    assert.equal(row.snapshot_id, 'snapshot-2')
+    assert.equal(row.tracks_data.length, 2)
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('refresh=true bypasses a fresh cache entry', async () => {
+  const playlist = createSpotifyPlaylist()
+  const fetchMock = mockFetch(playlist.routes)
+  try {
+    await getTracks()
+    const pagesBefore = trackPageCalls(fetchMock)
+
+    const { response } = await getTracks('?refresh=true')
+    assert.equal(response.headers.get('X-Cached'), 'false')
+    assert.equal(trackPageCalls(fetchMock), pagesBefore + 2)
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('the playlist list reports which playlists have a current cache entry', async () => {
+  const playlist = createSpotifyPlaylist()
+  const fetchMock = mockFetch(playlist.routes)
+  try {
+    const list = async () => (await invokeRoute(playlistsRoute.GET, { url: '/api/playlists', cookies })).json()
+
+    assert.equal((await list())[0].is_cached, false)
+    await getTracks()
+    assert.equal((await list())[0].is_cached, true)
+
+    playlist.state.snapshotId = 'snapshot-2'
+    assert.equal((await list())[0].is_cached, false, 'an outdated snapshot is not reported as cached')
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('requests without a session are rejected', async () => {
+  const fetchMock = mockFetch([])
+  try {
+    const response = await invokeRoute(tracksRoute.GET, {
+      url: `/api/playlists/${PLAYLIST_ID}/tracks`,
+      params: { id: PLAYLIST_ID },
+    })
+    assert.equal(response.status, 401)
+    assert.equal(fetchMock.calls.length, 0)
+  } finally {
+    fetchMock.restore()
+  }
+})
@@ -0,0 +1,96 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+
+const { loadModule, invokeRoute, mockFetch, jsonResponse } = harness
+const { buildPlaylistExport, getExportFilename } = loadModule('lib/playlistExport.ts')
+const exportRoute = loadModule('app/api/playlists/[id]/export/route.ts')
+
+const PLAYLIST = { id: '37i9dQZF1DXcBWIGoYBM5M', name: 'Friday: Set' }
+
+function exportTrack(overrides = {}) {
+  return {
+    position: 1,
+    id: '4uLU6hMCjMI75M1A2tKUQC',
+    name: 'Song "One"',
+    artists: ['Artist A', 'Artist B'],
+    album: 'Album & More',
+    releaseDate: '2020-03-01',
+    durationMs: 215400,
+    isrc: 'GBAAA2000001',
+    spotifyUrl: 'https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC',
+    bpm: 124,
+    bpmConfidence: 0.9,
+    key: 'A',
+    scale: 'minor',
+    keyConfidence: 0.8,
+    credits: null,
+    ...overrides,
+  }
+}
+
+test('Traktor playlist entries point at the collection entry LOCATION', () => {
+  const nml = buildPlaylistExport('traktor', [exportTrack()], PLAYLIST)
+  const location = nml.match(/<LOCATION DIR="([^"]*)" FILE="([^"]*)" VOLUME="([^"]*)"\/>/)
+  assert.ok(location)
+  const [, dir, file, volume] = location
+  assert.match(nml, new RegExp(`<PRIMARYKEY TYPE="TRACK" KEY="${volume}${dir}${file}"/>`))
+  assert.match(nml, /KEY="spotify\/:spotify\/:4uLU6hMCjMI75M1A2tKUQC"/)
+  // A minor is 8A / Open Key 1m, Traktor value 21 (Am)
+  assert.match(nml, /<MUSICAL_KEY VALUE="21"\/>/)
+  assert.match(nml, /KEY="1m"/)
+  assert.match(nml, /TITLE="Song &quot;One&quot;"/)
+})
+
+test('M3U8 lists duration, artists and a Spotify location per track', () => {
+  const m3u = buildPlaylistExport('m3u8', [exportTrack(), exportTrack({ id: 'abc', spotifyUrl: null, artists: ['Solo'], name: 'Two' })], PLAYLIST)
+  assert.equal(
+    m3u,
+    [
+      '#EXTM3U',
+      '#EXTINF:215,Artist A, Artist B - Song "One"',
+      'https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC',
+      '#EXTINF:215,Solo - Two',
+      'spotify:track:abc',
+      '',
+    ].join('\n')
+  )
+  assert.equal(getExportFilename('Friday/Set?', 'traktor'), 'Friday Set.nml')
+})
+
+test('a POST whose trackIds contain no valid IDs is rejected instead of exporting everything', async () => {
+  const fetchMock = mockFetch([])
+  try {
+    const response = await invokeRoute(exportRoute.POST, {
+      method: 'POST',
+      url: `/api/playlists/${PLAYLIST.id}/export`,
+      params: { id: PLAYLIST.id },
+      body: { format: 'csv', trackIds: ['not-a-track-id'] },
+    })
+    assert.equal(response.status, 400)
+    assert.deepEqual(fetchMock.calls, [])
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('exports need a session and a playlist the user can see on Spotify', async () => {
+  const PRIVATE_ID = '1Xh5hY2mV0kTq3YzW8rBcd'
+  const fetchMock = mockFetch([
+    { url: 'https://api.spotify.com/v1/me', respond: () => ({ id: 'listener' }) },
+    {
+      url: `https://api.spotify.com/v1/playlists/${PRIVATE_ID}`,
+      respond: () => jsonResponse({ error: { status: 404, message: 'Resource not found' } }, { status: 404 }),
+    },
+  ])
+  const exportCsv = (playlistId, cookies) =>
+    invokeRoute(exportRoute.GET, { url: `/api/playlists/${playlistId}/export?format=csv`, params: { id: playlistId }, cookies })
+  try {
+    assert.equal((await exportCsv(PLAYLIST.id, {})).status, 401)
+    const hidden = await exportCsv(PRIVATE_ID, { access_token: 'user-token' })
+    assert.equal(hidden.status, 403)
+    assert.equal(fetchMock.callsTo(`https://api.spotify.com/v1/playlists/${PRIVATE_ID}/tracks`).length, 0)
+  } finally {
+    fetchMock.restore()
+  }
+})
@@ -0,0 +1,155 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+const React = require('react')
+const { renderToString } = require('react-dom/server')
+
+const { usePlaylistFilters } = harness.loadModule('app/hooks/usePlaylistFilters.ts')
+
+/**
+ * Render the hook on the server and apply one step per render; each step's
+ * setter calls are render-phase updates, so React re-renders before the next
+ * step runs. Returns the hook's value after the last step.
+ */
+function renderFilters({ tracks, bpms = {}, keys = {}, scales = {}, features = {} }, steps = []) {
+  let latest = null
+  function Probe() {
+    const filters = usePlaylistFilters(tracks, bpms, keys, scales, features)
+    const stepIndex = React.useRef(0)
+    if (stepIndex.current < steps.length) {
+      steps[stepIndex.current++](filters)
+    }
+    latest = filters
+    return null
+  }
+  renderToString(React.createElement(Probe))
+  return latest
+}
+
+function track(id, overrides = {}) {
+  return {
+    id,
+    name: `Track ${id}`,
+    artists: [{ id: `artist-${id}`, name: 'Artist' }],
+    album: { id: `album-${id}`, name: 'Album', release_date: '2020-01-01', images: [] },
+    duration_ms: 200000,
+    explicit: false,
+    external_urls: { spotify: `https://open.spotify.com/track/${id}` },
+    popularity: 50,
+    tempo: null,
+    ...overrides,
+  }
+}
+
+const tracks = [
+  track('a', { name: 'Midnight City', album: { id: 'x', name: 'Hurry Up', release_date: '2011-10-18', images: [] } }),
+  track('b', { name: 'Blue Monday', album: { id: 'y', name: 'Power', release_date: '1983-03-07', images: [] } }),
+  track('c', { name: 'Teardrop', album: { id: 'z', name: 'Mezzanine', release_date: '1998-04-20', images: [] } }),
+  track('d', { name: 'Windowlicker', tempo: 127.4 }),
+]
+const bpms = { a: 105, b: 130, c: 77 }
+const keys = { a: 'F#', b: 'D', c: 'A', d: 'C#' }
+const scales = { a: 'minor', b: 'minor', c: 'minor', d: 'minor' }
+
+test('returns every track unfiltered by default', () => {
+  const filters = renderFilters({ tracks, bpms })
+  assert.equal(filters.filteredTracks.length, 4)
+  assert.equal(filters.totalPages, 1)
+  assert.equal(filters.pageSize, 50)
+})
+
+test('search matches names, albums, years and BPM values', () => {
+  assert.deepEqual(
+    renderFilters({ tracks, bpms }, [(f) => f.setSearchQuery('mezzanine')]).filteredTracks.map((t) => t.id),
+    ['c']
+  )
+  assert.deepEqual(
+    renderFilters({ tracks, bpms }, [(f) => f.setSearchQuery('1983')]).filteredTracks.map((t) => t.id),
+    ['b']
+  )
+  assert.deepEqual(
+    renderFilters({ tracks, bpms }, [(f) => f.setSearchQuery('127')]).filteredTracks.map((t) => t.id),
+    ['d'],
+    'falls back to Spotify tempo when no BPM is cached'
+  )
+})
+
+test('year range excludes tracks outside it', () => {
+  const filters = renderFilters({ tracks, bpms }, [
+    (f) => {
+      f.setYearFrom('1990')
+      f.setYearTo('2000')
+    },
+  ])
+  assert.deepEqual(filters.filteredTracks.map((t) => t.id), ['c'])
+})
+
+test('BPM range optionally matches half and double time', () => {
+  const strict = renderFilters({ tracks, bpms }, [
+    (f) => {
+      f.setBpmFrom('140')
+      f.setBpmTo('160')
+    },
+  ])
+  assert.deepEqual(strict.filteredTracks.map((t) => t.id), [])
+
+  const halfDouble = renderFilters({ tracks, bpms }, [
+    (f) => {
+      f.setBpmFrom('140')
+      f.setBpmTo('160')
+      f.setIncludeHalfDoubleBpm(true)
+    },
+  ])
+  assert.deepEqual(halfDouble.filteredTracks.map((t) => t.id), ['c'], '77 BPM doubles to 154')
+})
+
+test('energy range uses percentages and drops unanalysed tracks', () => {
+  const features = { a: { energy: 0.8 }, b: { energy: 0.4 } }
+  const filters = renderFilters({ tracks, bpms, features }, [(f) => f.setEnergyFrom('50')])
+  assert.deepEqual(filters.filteredTracks.map((t) => t.id), ['a'])
+})
+
+test('harmonic mixing keeps compatible keys within the tempo window', () => {
+  const filters = renderFilters({ tracks, bpms, keys, scales }, [
+    (f) => {
+      f.setHarmonicTrackId('a')
+      f.setTempoWindow('30')
+    },
+  ])
+  // F# minor is 11A: 11A itself, 10A (B minor) and 12A (C# minor) are compatible; D minor (7A) and A minor (8A) are not
+  assert.deepEqual(filters.filteredTracks.map((t) => t.id), ['a', 'd'])
+  assert.equal(filters.harmonicTrack.id, 'a')
+})
+
+test('sorting toggles direction when the same field is chosen twice', () => {
+  const ascending = renderFilters({ tracks, bpms }, [(f) => f.handleSort('tempo')])
+  assert.deepEqual(ascending.sortedTracks.map((t) => t.id), ['c', 'a', 'd', 'b'])
+
+  const descending = renderFilters({ tracks, bpms }, [(f) => f.handleSort('tempo'), (f) => f.handleSort('tempo')])
+  assert.equal(descending.sortDirection, 'desc')
+  assert.deepEqual(descending.sortedTracks.map((t) => t.id), ['b', 'd', 'a', 'c'])
+})
+
+test('paginates sorted tracks and clamps the current page', () => {
+  const filters = renderFilters({ tracks, bpms }, [
+    (f) => {
+      f.setSortField('name')
+      f.setPageSize(3)
+      f.setCurrentPage(5)
+    },
+  ])
+  assert.equal(filters.totalPages, 2)
+  assert.equal(filters.safePage, 2)
+  assert.deepEqual(filters.paginatedTracks.map((t) => t.id), ['d'])
+})
+
+test('choosing a sequence curve clears the manual sort', () => {
+  const filters = renderFilters({ tracks, bpms, keys, scales }, [
+    (f) => f.handleSort('name'),
+    (f) => f.setSequenceCurve('build'),
+  ])
+  assert.equal(filters.sortField, null)
+  assert.equal(filters.sequenceCurve, 'build')
+  assert.equal(filters.sortedTracks.length, 4)
+  assert.equal(filters.sequencePoints.length, 4)
+})
@@ -0,0 +1,77 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+
+const { loadModule, invokeRoute, mockFetch, jsonResponse, resetDatabase, closeDatabase } = harness
+const historyRoute = loadModule('app/api/playlists/[id]/history/route.ts')
+const { recordPlaylistSnapshot } = loadModule('lib/playlistHistory.ts')
+
+const PLAYLIST_ID = '37i9dQZF1DXcBWIGoYBM5M'
+const PRIVATE_ID = '1Xh5hY2mV0kTq3YzW8rBcd'
+const cookies = { access_token: 'user-token' }
+
+const track = (id, addedBy = 'owner') => ({ id, name: `Track ${id}`, artists: [{ name: 'Artist' }], added_by: addedBy })
+
+function spotifyRoutes() {
+  return [
+    { url: 'https://api.spotify.com/v1/me', respond: () => ({ id: 'listener' }) },
+    { url: `https://api.spotify.com/v1/playlists/${PLAYLIST_ID}`, respond: () => ({ id: PLAYLIST_ID }) },
+    {
+      url: `https://api.spotify.com/v1/playlists/${PRIVATE_ID}`,
+      respond: () => jsonResponse({ error: { status: 404, message: 'Resource not found' } }, { status: 404 }),
+    },
+    { url: 'https://api.spotify.com/v1/users/friend', respond: () => ({ id: 'friend', display_name: 'A Friend' }) },
+  ]
+}
+
+async function getHistory(playlistId, search = '', requestCookies = cookies) {
+  const response = await invokeRoute(historyRoute.GET, {
+    url: `/api/playlists/${playlistId}/history${search}`,
+    params: { id: playlistId },
+    cookies: requestCookies,
+  })
+  return { status: response.status, body: await response.json() }
+}
+
+test.beforeEach(async () => {
+  await resetDatabase()
+  await recordPlaylistSnapshot(PLAYLIST_ID, 'snap-1', [track('a'), track('b'), track('c')])
+  await recordPlaylistSnapshot(PLAYLIST_ID, 'snap-2', [track('c'), track('a'), track('d', 'friend')])
+  await recordPlaylistSnapshot(PRIVATE_ID, 'snap-1', [track('secret')])
+})
+
+test.after(async () => {
+  await closeDatabase()
+})
+
+test('history needs a session and a playlist the user can see on Spotify', async () => {
+  const fetchMock = mockFetch(spotifyRoutes())
+  try {
+    const signedOut = await getHistory(PLAYLIST_ID, '', {})
+    assert.equal(signedOut.status, 401)
+
+    const hidden = await getHistory(PRIVATE_ID)
+    assert.equal(hidden.status, 403)
+    assert.equal(hidden.body.snapshots, undefined)
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('lists snapshots and diffs two of them', async () => {
+  const fetchMock = mockFetch(spotifyRoutes())
+  try {
+    const list = await getHistory(PLAYLIST_ID)
+    assert.equal(list.status, 200)
+    assert.deepEqual(list.body.snapshots.map((snapshot) => snapshot.snapshotId).sort(), ['snap-1', 'snap-2'])
+
+    const diff = await getHistory(PLAYLIST_ID, '?from=snap-1&to=snap-2')
+    assert.equal(diff.status, 200)
+    assert.deepEqual(diff.body.added.map((entry) => entry.id), ['d'])
+    assert.deepEqual(diff.body.removed.map((entry) => entry.id), ['b'])
+    assert.deepEqual(diff.body.userNames, { friend: 'A Friend' })
+    assert.deepEqual(fetchMock.unmatched, [])
+  } finally {
+    fetchMock.restore()
+  }
+})
@@ -0,0 +1,69 @@
+const harness = require('./harness')
+const test = require('node:test')
+const assert = require('node:assert/strict')
+
+const { loadModule, invokeRoute, mockFetch, jsonResponse, resetDatabase, closeDatabase } = harness
+const playlistsRoute = loadModule('app/api/playlists/route.ts')
+const logoutRoute = loadModule('app/api/auth/logout/route.ts')
+
+const NEW_PLAYLIST_ID = '5ZxlBk4MqDVPaWvXEEw3gY'
+const WRITE_COOKIES = {
+  access_token: 'user-token',
+  spotify_scopes: 'playlist-modify-public playlist-modify-private',
+}
+
+// 150 distinct 22-character track IDs: two chunks of Spotify's 100-track limit
+const trackIds = Array.from({ length: 150 }, (_, i) => `track${String(i).padStart(17, '0')}`)
+
+test.beforeEach(async () => {
+  await resetDatabase()
+})
+
+test.after(async () => {
+  await closeDatabase()
+})
+
+test('a failed chunk after creation returns the playlist with the tracks that were not added', async () => {
+  let chunk = 0
+  const fetchMock = mockFetch([
+    { url: 'https://api.spotify.com/v1/me', respond: () => ({ id: 'listener' }) },
+    {
+      method: 'POST',
+      url: 'https://api.spotify.com/v1/users/listener/playlists',
+      respond: () => ({ id: NEW_PLAYLIST_ID, external_urls: { spotify: `https://open.spotify.com/playlist/${NEW_PLAYLIST_ID}` } }),
+    },
+    {
+      method: 'POST',
+      url: `https://api.spotify.com/v1/playlists/${NEW_PLAYLIST_ID}/tracks`,
+      respond: () => {
+        chunk += 1
+        return chunk === 1
+          ? { snapshot_id: 'snapshot-1' }
+          : jsonResponse({ error: { status: 500, message: 'Server error' } }, { status: 500 })
+      },
+    },
+  ])
+  try {
+    const response = await invokeRoute(playlistsRoute.POST, {
+      method: 'POST',
+      url: '/api/playlists',
+      cookies: WRITE_COOKIES,
+      body: { name: 'Filtered view', trackIds },
+    })
+    assert.equal(response.status, 201)
+    const body = await response.json()
+    assert.equal(body.id, NEW_PLAYLIST_ID)
+    assert.equal(body.tracksAdded, 100)
+    assert.equal(body.tracksFailed, 50)
+    assert.deepEqual(fetchMock.unmatched, [])
+  } finally {
+    fetchMock.restore()
+  }
+})
+
+test('logout clears the granted scopes cookie', async () => {
+  const response = await invokeRoute(logoutRoute.POST, { method: 'POST', url: '/api/auth/logout', cookies: WRITE_COOKIES })
+  const cleared = response.headers.getSetCookie().map((cookie) => cookie.split('=')[0])
+  assert.ok(cleared.includes('spotify_scopes'))
+  assert.ok(cleared.includes('access_token'))
+})